@@ -0,0 +1,249 @@
+/**
+ * @fileoverview Controller handling HTTP endpoints for city ledger accounts, folio transfers,
+ * payment application, aged receivables, statements and dunning.
+ * @version 1.0.0
+ */
+
+// External imports - v4.18.0
+import { Response, NextFunction } from 'express';
+import { parseISO } from 'date-fns'; // v2.30.0
+
+// Internal imports
+import { RequestWithUser, ApiResponse, authenticatedUserId } from '../../../shared/interfaces/base-controller.interface';
+import {
+  AgedReceivablesReport,
+  ArAccount,
+  ArAccountStatus,
+  ArPayment,
+  ArStatement,
+  DunningRun
+} from '../models/city-ledger.model';
+import { Invoice } from '../models/invoice.model';
+import { CityLedgerService } from '../services/city-ledger.service';
+
+/**
+ * Controller exposing the city ledger to accounts receivable staff
+ */
+export class CityLedgerController {
+  constructor(private readonly cityLedgerService: CityLedgerService = new CityLedgerService()) {}
+
+  /**
+   * Lists accounts, optionally in one status
+   *
+   * @param {RequestWithUser} req - Express request with authenticated user
+   * @param {Response} res - Express response
+   * @param {NextFunction} next - Express next function
+   */
+  public listAccounts = async (req: RequestWithUser, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const accounts = await this.cityLedgerService.listAccounts(req.query.status as ArAccountStatus | undefined);
+
+      const response: ApiResponse<ArAccount[]> = {
+        success: true,
+        data: accounts
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Retrieves an account with its balance
+   *
+   * @param {RequestWithUser} req - Express request with authenticated user
+   * @param {Response} res - Express response
+   * @param {NextFunction} next - Express next function
+   */
+  public getAccount = async (req: RequestWithUser, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const account = await this.cityLedgerService.getAccount(req.params.id);
+
+      const response: ApiResponse<ArAccount> = {
+        success: true,
+        data: account
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Opens an account for a company
+   *
+   * @param {RequestWithUser} req - Express request with authenticated user
+   * @param {Response} res - Express response
+   * @param {NextFunction} next - Express next function
+   */
+  public createAccount = async (req: RequestWithUser, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const account = await this.cityLedgerService.createAccount({
+        ...req.body,
+        userId: authenticatedUserId(req)
+      });
+
+      const response: ApiResponse<ArAccount> = {
+        success: true,
+        data: account
+      };
+
+      res.status(201).json(response);
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Changes an account's details, credit limit, terms or status
+   *
+   * @param {RequestWithUser} req - Express request with authenticated user
+   * @param {Response} res - Express response
+   * @param {NextFunction} next - Express next function
+   */
+  public updateAccount = async (req: RequestWithUser, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const account = await this.cityLedgerService.updateAccount(req.params.id, {
+        ...req.body,
+        userId: authenticatedUserId(req)
+      });
+
+      const response: ApiResponse<ArAccount> = {
+        success: true,
+        data: account
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Transfers a folio balance to the account
+   *
+   * @param {RequestWithUser} req - Express request with authenticated user
+   * @param {Response} res - Express response
+   * @param {NextFunction} next - Express next function
+   */
+  public transferFolio = async (req: RequestWithUser, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const invoice = await this.cityLedgerService.transferFolioBalance({
+        folioId: req.body.folioId,
+        arAccountId: req.params.id,
+        userId: authenticatedUserId(req)
+      });
+
+      const response: ApiResponse<Invoice> = {
+        success: true,
+        data: invoice
+      };
+
+      res.status(201).json(response);
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Records a payment from the account and applies it to its invoices
+   *
+   * @param {RequestWithUser} req - Express request with authenticated user
+   * @param {Response} res - Express response
+   * @param {NextFunction} next - Express next function
+   */
+  public applyPayment = async (req: RequestWithUser, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const payment = await this.cityLedgerService.applyPayment({
+        arAccountId: req.params.id,
+        amount: Number(req.body.amount),
+        method: req.body.method,
+        reference: req.body.reference,
+        allocations: req.body.allocations,
+        userId: authenticatedUserId(req)
+      });
+
+      const response: ApiResponse<ArPayment> = {
+        success: true,
+        data: payment
+      };
+
+      res.status(201).json(response);
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Returns the account's statement for a month
+   *
+   * @param {RequestWithUser} req - Express request with authenticated user
+   * @param {Response} res - Express response
+   * @param {NextFunction} next - Express next function
+   */
+  public getStatement = async (req: RequestWithUser, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const statement = await this.cityLedgerService.getStatement(
+        req.params.id,
+        parseISO(`${req.query.month as string}-01`)
+      );
+
+      const response: ApiResponse<ArStatement> = {
+        success: true,
+        data: statement
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Returns open invoices by age for every account
+   *
+   * @param {RequestWithUser} req - Express request with authenticated user
+   * @param {Response} res - Express response
+   * @param {NextFunction} next - Express next function
+   */
+  public getAgedReceivables = async (req: RequestWithUser, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const report = await this.cityLedgerService.getAgedReceivables(
+        req.query.asOf ? parseISO(req.query.asOf as string) : undefined
+      );
+
+      const response: ApiResponse<AgedReceivablesReport> = {
+        success: true,
+        data: report
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Runs dunning now instead of waiting for the daily run
+   *
+   * @param {RequestWithUser} req - Express request with authenticated user
+   * @param {Response} res - Express response
+   * @param {NextFunction} next - Express next function
+   */
+  public runDunning = async (req: RequestWithUser, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const run = await this.cityLedgerService.runDunning(authenticatedUserId(req));
+
+      const response: ApiResponse<DunningRun> = {
+        success: true,
+        data: run
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  };
+}
@@ -0,0 +1,91 @@
+/**
+ * @fileoverview Controller handling HTTP endpoints for guest credit limits: card
+ * pre-authorizations, folio exposure and the daily over credit limit list.
+ * @version 1.0.0
+ */
+
+// External imports - v4.18.0
+import { Response, NextFunction } from 'express';
+
+// Internal imports
+import { RequestWithUser, ApiResponse, authenticatedUserId } from '../../../shared/interfaces/base-controller.interface';
+import { CreditExposure, OverCreditLimitReport } from '../models/credit-limit.model';
+import { CreditLimitService } from '../services/credit-limit.service';
+
+/**
+ * Controller exposing guest credit limits to the front desk
+ */
+export class CreditLimitController {
+  constructor(private readonly creditLimitService: CreditLimitService) {}
+
+  /**
+   * Pre-authorizes the guest's card against a folio
+   *
+   * @param {RequestWithUser} req - Express request with authenticated user
+   * @param {Response} res - Express response
+   * @param {NextFunction} next - Express next function
+   */
+  public authorizeCard = async (req: RequestWithUser, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const exposure = await this.creditLimitService.authorizeCard({
+        folioId: req.params.folioId,
+        amount: Number(req.body.amount),
+        cardToken: req.body.cardToken,
+        userId: authenticatedUserId(req)
+      });
+
+      const response: ApiResponse<CreditExposure> = {
+        success: true,
+        data: exposure
+      };
+
+      res.status(201).json(response);
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Returns the credit position of a folio
+   *
+   * @param {RequestWithUser} req - Express request with authenticated user
+   * @param {Response} res - Express response
+   * @param {NextFunction} next - Express next function
+   */
+  public getExposure = async (req: RequestWithUser, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const exposure = await this.creditLimitService.getExposure(req.params.folioId);
+
+      const response: ApiResponse<CreditExposure> = {
+        success: true,
+        data: exposure
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Lists the open folios over their credit limit
+   *
+   * @param {RequestWithUser} req - Express request with authenticated user
+   * @param {Response} res - Express response
+   * @param {NextFunction} next - Express next function
+   */
+  public getOverLimitReport = async (req: RequestWithUser, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const report = await this.creditLimitService.getOverLimitReport();
+
+      const response: ApiResponse<OverCreditLimitReport> = {
+        success: true,
+        data: report
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  };
+}
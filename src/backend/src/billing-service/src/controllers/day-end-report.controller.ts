@@ -0,0 +1,126 @@
+/**
+ * @fileoverview Controller handling HTTP endpoints for retrieving day-end report snapshots
+ * as JSON, CSV or PDF.
+ * @version 1.0.0
+ */
+
+// External imports - v4.18.0
+import { Response, NextFunction } from 'express';
+import { parseISO, startOfDay, format } from 'date-fns'; // v2.30.0
+
+// Internal imports
+import { RequestWithUser, ApiResponse, authenticatedUserId } from '../../../shared/interfaces/base-controller.interface';
+import { DayEndReport, DayEndReportType, ReportFormat } from '../models/day-end-report.model';
+import { DayEndReportService } from '../services/day-end-report.service';
+import { ReportExportService } from '../services/report-export.service';
+import { ErrorCode, createErrorDetails } from '../../../shared/constants/error-codes';
+import { prisma as billingPrisma } from '../config/database';
+import { BusinessDateService } from '../../../shared/services/business-date.service';
+
+/**
+ * Controller exposing the stored day-end report pack
+ */
+export class DayEndReportController {
+  constructor(
+    private readonly reportService: DayEndReportService = new DayEndReportService(),
+    private readonly exportService: ReportExportService = new ReportExportService(),
+    private readonly businessDates: BusinessDateService = new BusinessDateService(billingPrisma)
+  ) {}
+
+  /**
+   * Lists the reports stored for a business date
+   *
+   * @param {RequestWithUser} req - Express request with authenticated user
+   * @param {Response} res - Express response
+   * @param {NextFunction} next - Express next function
+   */
+  public findByBusinessDate = async (req: RequestWithUser, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const reports = await this.reportService.findByBusinessDate(this.parseBusinessDate(req));
+
+      const response: ApiResponse<DayEndReport[]> = {
+        success: true,
+        data: reports
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Retrieves a single report in the requested format
+   *
+   * @param {RequestWithUser} req - Express request with authenticated user
+   * @param {Response} res - Express response
+   * @param {NextFunction} next - Express next function
+   */
+  public getReport = async (req: RequestWithUser, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const businessDate = this.parseBusinessDate(req);
+      const type = req.params.type as DayEndReportType;
+      const reportFormat = (req.query.format as ReportFormat) || ReportFormat.JSON;
+      const report = await this.reportService.getReport(businessDate, type);
+      const filename = `${type.toLowerCase()}-${format(businessDate, 'yyyy-MM-dd')}`;
+
+      switch (reportFormat) {
+        case ReportFormat.CSV:
+          res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+          res.setHeader('Content-Disposition', `attachment; filename="${filename}.csv"`);
+          res.status(200).send(this.exportService.toCsv(report));
+          return;
+        case ReportFormat.PDF:
+          res.setHeader('Content-Type', 'application/pdf');
+          res.setHeader('Content-Disposition', `attachment; filename="${filename}.pdf"`);
+          res.status(200).send(await this.exportService.toPdf(report));
+          return;
+        default: {
+          const response: ApiResponse<DayEndReport> = {
+            success: true,
+            data: report
+          };
+          res.status(200).json(response);
+        }
+      }
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Generates any reports missing from a closed business date's pack
+   *
+   * @param {RequestWithUser} req - Express request with authenticated user
+   * @param {Response} res - Express response
+   * @param {NextFunction} next - Express next function
+   */
+  public generate = async (req: RequestWithUser, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const businessDate = this.parseBusinessDate(req);
+      const currentBusinessDate = await this.businessDates.getBusinessDate();
+
+      if (businessDate >= currentBusinessDate) {
+        throw createErrorDetails(ErrorCode.BUSINESS_RULE_VIOLATION, {
+          message: 'Day-end reports can only be generated for a closed business date',
+          businessDate: req.params.businessDate
+        }, req.path);
+      }
+
+      const reports = await this.reportService.generateReportPack(businessDate, authenticatedUserId(req));
+
+      const response: ApiResponse<DayEndReport[]> = {
+        success: true,
+        data: reports
+      };
+
+      res.status(201).json(response);
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  private parseBusinessDate(req: RequestWithUser): Date {
+    return startOfDay(parseISO(req.params.businessDate));
+  }
+}
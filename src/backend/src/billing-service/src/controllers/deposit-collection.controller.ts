@@ -0,0 +1,63 @@
+/**
+ * @fileoverview Controller handling HTTP endpoints for collecting scheduled booking deposits.
+ * @version 1.0.0
+ */
+
+// External imports - v4.18.0
+import { Response, NextFunction } from 'express';
+
+// Internal imports
+import { RequestWithUser, ApiResponse, authenticatedUserId } from '../../../shared/interfaces/base-controller.interface';
+import { DepositCollectionRun, DepositCollectionService } from '../services/deposit-collection.service';
+import { PaymentInstallment } from '../../../reservation-service/src/models/payment-schedule.model';
+
+/**
+ * Controller exposing deposit collection to front office and accounting staff
+ */
+export class DepositCollectionController {
+  constructor(private readonly depositCollectionService: DepositCollectionService) {}
+
+  /**
+   * Collects every installment due on or before the current business date
+   *
+   * @param {RequestWithUser} req - Express request with authenticated user
+   * @param {Response} res - Express response
+   * @param {NextFunction} next - Express next function
+   */
+  public run = async (req: RequestWithUser, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const run = await this.depositCollectionService.collectDueInstallments(authenticatedUserId(req));
+
+      const response: ApiResponse<DepositCollectionRun> = {
+        success: true,
+        data: run
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Collects a single outstanding installment now
+   *
+   * @param {RequestWithUser} req - Express request with authenticated user
+   * @param {Response} res - Express response
+   * @param {NextFunction} next - Express next function
+   */
+  public collectInstallment = async (req: RequestWithUser, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const installment = await this.depositCollectionService.collectInstallment(req.params.id, authenticatedUserId(req));
+
+      const response: ApiResponse<PaymentInstallment> = {
+        success: true,
+        data: installment
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  };
+}
@@ -0,0 +1,121 @@
+/**
+ * @fileoverview Controller handling HTTP endpoints for exchange-rate tables and currency
+ * conversion.
+ * @version 1.0.0
+ */
+
+// External imports - v4.18.0
+import { Response, NextFunction } from 'express';
+import { parseISO } from 'date-fns'; // v2.30.0
+
+// Internal imports
+import { RequestWithUser, ApiResponse, authenticatedUserId } from '../../../shared/interfaces/base-controller.interface';
+import { CurrencyConversion, ExchangeRate, ExchangeRateSource } from '../models/exchange-rate.model';
+import { ExchangeRateService } from '../services/exchange-rate.service';
+
+/**
+ * Controller exposing exchange rates to accounting and front office staff
+ */
+export class ExchangeRateController {
+  constructor(private readonly exchangeRateService: ExchangeRateService = new ExchangeRateService()) {}
+
+  /**
+   * Lists the rate of every currency in force on a date, the business date by default
+   *
+   * @param {RequestWithUser} req - Express request with authenticated user
+   * @param {Response} res - Express response
+   * @param {NextFunction} next - Express next function
+   */
+  public getTable = async (req: RequestWithUser, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const rates = await this.exchangeRateService.getTable(
+        req.query.date ? parseISO(req.query.date as string) : undefined
+      );
+
+      const response: ApiResponse<ExchangeRate[]> = {
+        success: true,
+        data: rates
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Loads the table of one day
+   *
+   * @param {RequestWithUser} req - Express request with authenticated user
+   * @param {Response} res - Express response
+   * @param {NextFunction} next - Express next function
+   */
+  public loadTable = async (req: RequestWithUser, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const rates = await this.exchangeRateService.loadTable({
+        effectiveDate: parseISO(req.body.effectiveDate),
+        rates: req.body.rates,
+        source: ExchangeRateSource.ADMIN,
+        userId: authenticatedUserId(req)
+      });
+
+      const response: ApiResponse<ExchangeRate[]> = {
+        success: true,
+        data: rates
+      };
+
+      res.status(201).json(response);
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Loads the tables of a rate file sent as text
+   *
+   * @param {RequestWithUser} req - Express request with authenticated user
+   * @param {Response} res - Express response
+   * @param {NextFunction} next - Express next function
+   */
+  public importRates = async (req: RequestWithUser, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const rates = await this.exchangeRateService.importRates(req.body.content, authenticatedUserId(req), ExchangeRateSource.FILE);
+
+      const response: ApiResponse<ExchangeRate[]> = {
+        success: true,
+        data: rates
+      };
+
+      res.status(201).json(response);
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Converts an amount between two currencies
+   *
+   * @param {RequestWithUser} req - Express request with authenticated user
+   * @param {Response} res - Express response
+   * @param {NextFunction} next - Express next function
+   */
+  public convert = async (req: RequestWithUser, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const conversion = await this.exchangeRateService.convert(
+        Number(req.query.amount),
+        req.query.from as string,
+        req.query.to as string,
+        req.query.date ? parseISO(req.query.date as string) : undefined
+      );
+
+      const response: ApiResponse<CurrencyConversion> = {
+        success: true,
+        data: conversion
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  };
+}
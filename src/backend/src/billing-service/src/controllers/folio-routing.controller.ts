@@ -0,0 +1,144 @@
+/**
+ * @fileoverview Controller handling HTTP endpoints for folio routing instructions and charge
+ * transfers between folios.
+ * @version 1.0.0
+ */
+
+// External imports - v4.18.0
+import { Response, NextFunction } from 'express';
+
+// Internal imports
+import { RequestWithUser, ApiResponse, authenticatedUserId } from '../../../shared/interfaces/base-controller.interface';
+import { FolioChargeTransfer, FolioRoutingInstruction } from '../models/folio-routing.model';
+import { FolioRoutingService } from '../services/folio-routing.service';
+
+/**
+ * Controller exposing split billing to front desk and reservations staff
+ */
+export class FolioRoutingController {
+  constructor(private readonly folioRoutingService: FolioRoutingService = new FolioRoutingService()) {}
+
+  /**
+   * Lists a booking's active routing instructions
+   *
+   * @param {RequestWithUser} req - Express request with authenticated user
+   * @param {Response} res - Express response
+   * @param {NextFunction} next - Express next function
+   */
+  public listInstructions = async (req: RequestWithUser, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const instructions = await this.folioRoutingService.listInstructions(req.query.reservationId as string);
+
+      const response: ApiResponse<FolioRoutingInstruction[]> = {
+        success: true,
+        data: instructions
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Adds a routing instruction to a booking
+   *
+   * @param {RequestWithUser} req - Express request with authenticated user
+   * @param {Response} res - Express response
+   * @param {NextFunction} next - Express next function
+   */
+  public createInstruction = async (req: RequestWithUser, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const instruction = await this.folioRoutingService.createInstruction({
+        reservationId: req.body.reservationId,
+        targetFolioId: req.body.targetFolioId,
+        chargeCategories: req.body.chargeCategories,
+        departments: req.body.departments,
+        priority: req.body.priority,
+        description: req.body.description,
+        userId: authenticatedUserId(req)
+      });
+
+      const response: ApiResponse<FolioRoutingInstruction> = {
+        success: true,
+        data: instruction
+      };
+
+      res.status(201).json(response);
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Removes a routing instruction
+   *
+   * @param {RequestWithUser} req - Express request with authenticated user
+   * @param {Response} res - Express response
+   * @param {NextFunction} next - Express next function
+   */
+  public removeInstruction = async (req: RequestWithUser, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const instruction = await this.folioRoutingService.removeInstruction(req.params.instructionId, authenticatedUserId(req));
+
+      const response: ApiResponse<FolioRoutingInstruction> = {
+        success: true,
+        data: instruction
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Moves charges from the folio to another
+   *
+   * @param {RequestWithUser} req - Express request with authenticated user
+   * @param {Response} res - Express response
+   * @param {NextFunction} next - Express next function
+   */
+  public transferCharges = async (req: RequestWithUser, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const transfers = await this.folioRoutingService.transferCharges({
+        fromFolioId: req.params.id,
+        toFolioId: req.body.toFolioId,
+        chargeIds: req.body.chargeIds,
+        reason: req.body.reason,
+        userId: authenticatedUserId(req)
+      });
+
+      const response: ApiResponse<FolioChargeTransfer[]> = {
+        success: true,
+        data: transfers
+      };
+
+      res.status(201).json(response);
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Lists the charges moved onto or off the folio
+   *
+   * @param {RequestWithUser} req - Express request with authenticated user
+   * @param {Response} res - Express response
+   * @param {NextFunction} next - Express next function
+   */
+  public listTransfers = async (req: RequestWithUser, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const transfers = await this.folioRoutingService.listTransfers(req.params.id);
+
+      const response: ApiResponse<FolioChargeTransfer[]> = {
+        success: true,
+        data: transfers
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  };
+}
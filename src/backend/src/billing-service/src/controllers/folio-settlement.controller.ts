@@ -0,0 +1,70 @@
+/**
+ * @fileoverview Controller handling HTTP endpoints for settling folios in the guest's currency.
+ * @version 1.0.0
+ */
+
+// External imports - v4.18.0
+import { Response, NextFunction } from 'express';
+
+// Internal imports
+import { RequestWithUser, ApiResponse, authenticatedUserId } from '../../../shared/interfaces/base-controller.interface';
+import { FolioSettlement, FolioSettlementQuote } from '../models/exchange-rate.model';
+import { FolioSettlementService } from '../services/folio-settlement.service';
+
+/**
+ * Controller exposing folio settlement to cashiers
+ */
+export class FolioSettlementController {
+  constructor(private readonly folioSettlementService: FolioSettlementService) {}
+
+  /**
+   * Returns what settling the folio costs in a currency
+   *
+   * @param {RequestWithUser} req - Express request with authenticated user
+   * @param {Response} res - Express response
+   * @param {NextFunction} next - Express next function
+   */
+  public quote = async (req: RequestWithUser, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const quote = await this.folioSettlementService.quoteSettlement(req.params.id, req.query.currency as string);
+
+      const response: ApiResponse<FolioSettlementQuote> = {
+        success: true,
+        data: quote
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Takes a payment against the folio in any currency
+   *
+   * @param {RequestWithUser} req - Express request with authenticated user
+   * @param {Response} res - Express response
+   * @param {NextFunction} next - Express next function
+   */
+  public settle = async (req: RequestWithUser, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const settlement = await this.folioSettlementService.settleFolio({
+        folioId: req.params.id,
+        currency: req.body.currency,
+        amount: req.body.amount,
+        paymentMethod: req.body.paymentMethod,
+        cardToken: req.body.cardToken,
+        userId: authenticatedUserId(req)
+      });
+
+      const response: ApiResponse<FolioSettlement> = {
+        success: true,
+        data: settlement
+      };
+
+      res.status(201).json(response);
+    } catch (error) {
+      next(error);
+    }
+  };
+}
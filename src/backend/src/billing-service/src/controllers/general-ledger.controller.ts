@@ -0,0 +1,339 @@
+/**
+ * @fileoverview Controller handling HTTP endpoints for the general ledger: the chart of accounts,
+ * mapping rules, journal batches and their export, the trial balance and period locking.
+ * @version 1.0.0
+ */
+
+// External imports - v4.18.0
+import { Response, NextFunction } from 'express';
+import { parseISO } from 'date-fns'; // v2.30.0
+
+// Internal imports
+import { RequestWithUser, ApiResponse, authenticatedUserId } from '../../../shared/interfaces/base-controller.interface';
+import {
+  AccountingPeriod,
+  GlAccount,
+  GlMapping,
+  GlMappingSource,
+  JournalBatch,
+  JournalEntry,
+  JournalExportFormat,
+  TrialBalance
+} from '../models/general-ledger.model';
+import { GeneralLedgerService } from '../services/general-ledger.service';
+import { ReportExportService } from '../services/report-export.service';
+
+/**
+ * Controller exposing the general ledger to finance
+ */
+export class GeneralLedgerController {
+  constructor(
+    private readonly generalLedgerService: GeneralLedgerService = new GeneralLedgerService(),
+    private readonly exportService: ReportExportService = new ReportExportService()
+  ) {}
+
+  /**
+   * Lists the chart of accounts
+   *
+   * @param {RequestWithUser} req - Express request with authenticated user
+   * @param {Response} res - Express response
+   * @param {NextFunction} next - Express next function
+   */
+  public listAccounts = async (req: RequestWithUser, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const accounts = await this.generalLedgerService.listAccounts();
+
+      const response: ApiResponse<GlAccount[]> = {
+        success: true,
+        data: accounts
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Adds an account to the chart of accounts
+   *
+   * @param {RequestWithUser} req - Express request with authenticated user
+   * @param {Response} res - Express response
+   * @param {NextFunction} next - Express next function
+   */
+  public createAccount = async (req: RequestWithUser, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const account = await this.generalLedgerService.createAccount({
+        ...req.body,
+        userId: authenticatedUserId(req)
+      });
+
+      const response: ApiResponse<GlAccount> = {
+        success: true,
+        data: account
+      };
+
+      res.status(201).json(response);
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Renames an account, changes its role or takes it out of use
+   *
+   * @param {RequestWithUser} req - Express request with authenticated user
+   * @param {Response} res - Express response
+   * @param {NextFunction} next - Express next function
+   */
+  public updateAccount = async (req: RequestWithUser, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const account = await this.generalLedgerService.updateAccount(req.params.id, {
+        ...req.body,
+        userId: authenticatedUserId(req)
+      });
+
+      const response: ApiResponse<GlAccount> = {
+        success: true,
+        data: account
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Lists mapping rules, optionally for one source
+   *
+   * @param {RequestWithUser} req - Express request with authenticated user
+   * @param {Response} res - Express response
+   * @param {NextFunction} next - Express next function
+   */
+  public listMappings = async (req: RequestWithUser, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const mappings = await this.generalLedgerService.listMappings(req.query.source as GlMappingSource | undefined);
+
+      const response: ApiResponse<GlMapping[]> = {
+        success: true,
+        data: mappings
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Adds a mapping rule
+   *
+   * @param {RequestWithUser} req - Express request with authenticated user
+   * @param {Response} res - Express response
+   * @param {NextFunction} next - Express next function
+   */
+  public createMapping = async (req: RequestWithUser, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const mapping = await this.generalLedgerService.createMapping({
+        ...req.body,
+        userId: authenticatedUserId(req)
+      });
+
+      const response: ApiResponse<GlMapping> = {
+        success: true,
+        data: mapping
+      };
+
+      res.status(201).json(response);
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Removes a mapping rule
+   *
+   * @param {RequestWithUser} req - Express request with authenticated user
+   * @param {Response} res - Express response
+   * @param {NextFunction} next - Express next function
+   */
+  public removeMapping = async (req: RequestWithUser, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const mapping = await this.generalLedgerService.removeMapping(req.params.mappingId, authenticatedUserId(req));
+
+      const response: ApiResponse<GlMapping> = {
+        success: true,
+        data: mapping
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Lists journal batches between two business dates
+   *
+   * @param {RequestWithUser} req - Express request with authenticated user
+   * @param {Response} res - Express response
+   * @param {NextFunction} next - Express next function
+   */
+  public listBatches = async (req: RequestWithUser, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const batches = await this.generalLedgerService.listBatches(
+        req.query.from ? parseISO(req.query.from as string) : undefined,
+        req.query.to ? parseISO(req.query.to as string) : undefined
+      );
+
+      const response: ApiResponse<JournalBatch[]> = {
+        success: true,
+        data: batches
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Posts a closed business date to the ledger
+   *
+   * @param {RequestWithUser} req - Express request with authenticated user
+   * @param {Response} res - Express response
+   * @param {NextFunction} next - Express next function
+   */
+  public postBusinessDate = async (req: RequestWithUser, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const batch = await this.generalLedgerService.postBusinessDate(parseISO(req.body.businessDate), authenticatedUserId(req));
+
+      const response: ApiResponse<JournalBatch | null> = {
+        success: true,
+        data: batch
+      };
+
+      res.status(batch ? 201 : 200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Retrieves a batch with its entries
+   *
+   * @param {RequestWithUser} req - Express request with authenticated user
+   * @param {Response} res - Express response
+   * @param {NextFunction} next - Express next function
+   */
+  public getBatch = async (req: RequestWithUser, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const batch = await this.generalLedgerService.getBatch(req.params.id);
+
+      const response: ApiResponse<{ batch: JournalBatch; entries: JournalEntry[] }> = {
+        success: true,
+        data: batch
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Downloads a batch as CSV or accounting-import JSON and marks it exported
+   *
+   * @param {RequestWithUser} req - Express request with authenticated user
+   * @param {Response} res - Express response
+   * @param {NextFunction} next - Express next function
+   */
+  public exportBatch = async (req: RequestWithUser, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const { batch, entries } = await this.generalLedgerService.getBatch(req.params.id);
+      const exportFormat = (req.query.format as JournalExportFormat) || JournalExportFormat.CSV;
+      const filename = batch.batchNumber.toLowerCase();
+
+      const content = exportFormat === JournalExportFormat.JSON
+        ? JSON.stringify(this.exportService.journalBatchToImport(batch, entries), null, 2)
+        : this.exportService.journalBatchToCsv(batch, entries);
+      await this.generalLedgerService.markExported(batch.id, authenticatedUserId(req));
+
+      res.setHeader(
+        'Content-Type',
+        exportFormat === JournalExportFormat.JSON ? 'application/json; charset=utf-8' : 'text/csv; charset=utf-8'
+      );
+      res.setHeader('Content-Disposition', `attachment; filename="${filename}.${exportFormat}"`);
+      res.status(200).send(content);
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Returns the trial balance of a period
+   *
+   * @param {RequestWithUser} req - Express request with authenticated user
+   * @param {Response} res - Express response
+   * @param {NextFunction} next - Express next function
+   */
+  public getTrialBalance = async (req: RequestWithUser, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const trialBalance = await this.generalLedgerService.getTrialBalance(req.query.period as string);
+
+      const response: ApiResponse<TrialBalance> = {
+        success: true,
+        data: trialBalance
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Lists locked periods
+   *
+   * @param {RequestWithUser} req - Express request with authenticated user
+   * @param {Response} res - Express response
+   * @param {NextFunction} next - Express next function
+   */
+  public listPeriods = async (req: RequestWithUser, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const periods = await this.generalLedgerService.listPeriods();
+
+      const response: ApiResponse<AccountingPeriod[]> = {
+        success: true,
+        data: periods
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Locks a period against further postings
+   *
+   * @param {RequestWithUser} req - Express request with authenticated user
+   * @param {Response} res - Express response
+   * @param {NextFunction} next - Express next function
+   */
+  public lockPeriod = async (req: RequestWithUser, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const period = await this.generalLedgerService.lockPeriod(req.params.period, authenticatedUserId(req));
+
+      const response: ApiResponse<AccountingPeriod> = {
+        success: true,
+        data: period
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  };
+}
@@ -11,7 +11,14 @@ import { Decimal } from '@prisma/client';
 // Internal imports
 import { BaseController, RequestWithUser, ApiResponse, PaginatedResponse } from '../../../shared/interfaces/base-controller.interface';
 import { Invoice, InvoiceStatus, Payment } from '../models/invoice.model';
+import { ChargeStatus, FolioCharge } from '../models/folio.model';
+import { TaxLine, summarizeTaxLines } from '../../../shared/models/tax.model';
+import { TaxService } from '../services/tax.service';
+import { ExchangeRateService } from '../services/exchange-rate.service';
+import { PROPERTY_CURRENCY } from '../models/exchange-rate.model';
 import { ErrorCode } from '../../../shared/constants/error-codes';
+import { prisma as billingPrisma } from '../config/database';
+import { BusinessDateService } from '../../../shared/services/business-date.service';
 
 // Decorators
 import { Controller } from '@nestjs/common';
@@ -28,7 +35,10 @@ export class InvoiceController implements BaseController<Invoice> {
   constructor(
     private readonly invoiceService: InvoiceService,
     private readonly transactionManager: TransactionManager,
-    private readonly auditLogger: AuditLogger
+    private readonly auditLogger: AuditLogger,
+    private readonly taxService: TaxService = new TaxService(),
+    private readonly exchangeRateService: ExchangeRateService = new ExchangeRateService(),
+    private readonly businessDates: BusinessDateService = new BusinessDateService(billingPrisma)
   ) {}
 
   /**
@@ -145,7 +155,14 @@ export class InvoiceController implements BaseController<Invoice> {
         const folio = await this.validateFolioCompleteness(folioId);
 
         // Calculate totals and taxes
-        const { subtotal, taxAmount, totalAmount } = await this.calculateInvoiceTotals(folio);
+        const { subtotal, taxAmount, totalAmount, taxLines } = await this.calculateInvoiceTotals(folio);
+
+        // Invoices are dated on the hotel business date, not the wall clock
+        const issueDate = await this.businessDates.getBusinessDate();
+
+        // Invoices are stated in the folio currency with its rate to the property currency
+        const currency = folio.currency || PROPERTY_CURRENCY;
+        const exchangeRate = await this.exchangeRateService.getRate(currency, PROPERTY_CURRENCY, issueDate);
 
         // Generate invoice with ISSUED status
         const invoice = await this.invoiceService.create({
@@ -156,8 +173,11 @@ export class InvoiceController implements BaseController<Invoice> {
           subtotal,
           taxAmount,
           totalAmount,
-          issueDate: new Date(),
-          dueDate: this.calculateDueDate(),
+          taxLines,
+          currency,
+          exchangeRate: new Decimal(exchangeRate),
+          issueDate,
+          dueDate: this.calculateDueDate(issueDate),
           createdBy: req.user.id
         }, trx);
 
@@ -213,7 +233,7 @@ export class InvoiceController implements BaseController<Invoice> {
           amount: new Decimal(amount),
           method,
           transactionId,
-          paymentDate: new Date(),
+          paymentDate: await this.businessDates.getBusinessDate(),
           status: 'COMPLETED'
         };
 
@@ -268,21 +288,46 @@ export class InvoiceController implements BaseController<Invoice> {
     return {};
   }
 
+  /**
+   * Totals the folio's charges with the tax lines posted on them, so the invoice shows the taxes
+   * quoted and posted. Charges posted without tax lines are taxed by the tax engine.
+   */
   private async calculateInvoiceTotals(folio: any): Promise<{
     subtotal: Decimal;
     taxAmount: Decimal;
     totalAmount: Decimal;
+    taxLines: TaxLine[];
   }> {
-    // Implement total calculation logic
+    const charges: FolioCharge[] = (folio.charges || [])
+      .filter((charge: FolioCharge) => charge.status !== ChargeStatus.VOIDED);
+    const untaxed = charges.filter(charge => !charge.taxLines);
+    const calculations = await this.taxService.calculate(untaxed.map(charge => ({
+      category: charge.category,
+      amount: Number(charge.amount),
+      date: charge.postingDate
+    })));
+
+    let subtotal = new Decimal(0);
+    let taxAmount = new Decimal(0);
+    const lines: TaxLine[] = [];
+
+    for (const charge of charges) {
+      const calculation = charge.taxLines ? null : calculations[untaxed.indexOf(charge)];
+      subtotal = subtotal.plus(calculation ? calculation.netAmount : charge.amount);
+      taxAmount = taxAmount.plus(calculation ? calculation.taxAmount : charge.taxAmount);
+      lines.push(...(calculation ? calculation.lines : charge.taxLines!));
+    }
+
     return {
-      subtotal: new Decimal(0),
-      taxAmount: new Decimal(0),
-      totalAmount: new Decimal(0)
+      subtotal,
+      taxAmount,
+      totalAmount: subtotal.plus(taxAmount),
+      taxLines: summarizeTaxLines(lines)
     };
   }
 
-  private calculateDueDate(): Date {
+  private calculateDueDate(issueDate: Date): Date {
     // Implement due date calculation logic
-    return new Date();
+    return issueDate;
   }
 }
\ No newline at end of file
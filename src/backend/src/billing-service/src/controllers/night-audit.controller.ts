@@ -0,0 +1,125 @@
+/**
+ * @fileoverview Controller handling HTTP endpoints for running the night audit and reading
+ * the current business date and audit history.
+ * @version 1.0.0
+ */
+
+// External imports - v4.18.0
+import { Response, NextFunction } from 'express';
+import { parseISO, startOfDay } from 'date-fns'; // v2.30.0
+
+// Internal imports
+import { RequestWithUser, ApiResponse, authenticatedUserId } from '../../../shared/interfaces/base-controller.interface';
+import { NightAuditRun } from '../models/night-audit.model';
+import { NightAuditService } from '../services/night-audit.service';
+import { prisma as billingPrisma } from '../config/database';
+import { BusinessDate, BusinessDateService } from '../../../shared/services/business-date.service';
+import { ErrorCode, createErrorDetails } from '../../../shared/constants/error-codes';
+
+/**
+ * Controller exposing night audit operations to auditors and managers
+ */
+export class NightAuditController {
+  constructor(
+    private readonly nightAuditService: NightAuditService = new NightAuditService(),
+    private readonly businessDates: BusinessDateService = new BusinessDateService(billingPrisma)
+  ) {}
+
+  /**
+   * Runs the night audit for the current business date
+   *
+   * @param {RequestWithUser} req - Express request with authenticated user
+   * @param {Response} res - Express response
+   * @param {NextFunction} next - Express next function
+   * @returns {Promise<void>} HTTP response with the completed audit run
+   */
+  public run = async (req: RequestWithUser, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const run = await this.nightAuditService.runNightAudit(authenticatedUserId(req));
+
+      const response: ApiResponse<NightAuditRun> = {
+        success: true,
+        data: run
+      };
+
+      res.status(201).json(response);
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Returns the current business date record
+   *
+   * @param {RequestWithUser} req - Express request with authenticated user
+   * @param {Response} res - Express response
+   * @param {NextFunction} next - Express next function
+   */
+  public getBusinessDate = async (req: RequestWithUser, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const record = await this.businessDates.getRecord();
+
+      const response: ApiResponse<BusinessDate> = {
+        success: true,
+        data: record
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Lists recent night audit runs
+   *
+   * @param {RequestWithUser} req - Express request with authenticated user
+   * @param {Response} res - Express response
+   * @param {NextFunction} next - Express next function
+   */
+  public findAll = async (req: RequestWithUser, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const { limit = 30 } = req.query;
+      const runs = await this.nightAuditService.findRecentRuns(Number(limit));
+
+      const response: ApiResponse<NightAuditRun[]> = {
+        success: true,
+        data: runs
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Retrieves the night audit run for a business date
+   *
+   * @param {RequestWithUser} req - Express request with authenticated user
+   * @param {Response} res - Express response
+   * @param {NextFunction} next - Express next function
+   */
+  public findByBusinessDate = async (req: RequestWithUser, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const businessDate = startOfDay(parseISO(req.params.businessDate));
+      const run = await this.nightAuditService.findRunByBusinessDate(businessDate);
+
+      if (!run) {
+        throw createErrorDetails(ErrorCode.RESOURCE_NOT_FOUND, {
+          message: 'No night audit run for business date',
+          businessDate: req.params.businessDate
+        }, req.path);
+      }
+
+      const response: ApiResponse<NightAuditRun> = {
+        success: true,
+        data: run
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  };
+}
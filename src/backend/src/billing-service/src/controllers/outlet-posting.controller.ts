@@ -0,0 +1,149 @@
+/**
+ * @fileoverview Controller handling HTTP endpoints through which outlet point-of-sale systems
+ * look up in-house guests and charge, void and correct checks on their rooms.
+ * @version 1.0.0
+ */
+
+// External imports - v4.18.0
+import { Response, NextFunction } from 'express';
+
+// Internal imports
+import { RequestWithUser, ApiResponse, authenticatedUserId } from '../../../shared/interfaces/base-controller.interface';
+import { InHouseGuest, Outlet, OutletCheck } from '../models/outlet-posting.model';
+import { OutletPostingService } from '../services/outlet-posting.service';
+
+/**
+ * Controller exposing room charge posting to the outlets
+ */
+export class OutletPostingController {
+  constructor(
+    private readonly outletPostingService: OutletPostingService = new OutletPostingService()
+  ) {}
+
+  /**
+   * Finds the in-house guest of a room by name
+   *
+   * @param {RequestWithUser} req - Express request with authenticated user
+   * @param {Response} res - Express response
+   * @param {NextFunction} next - Express next function
+   */
+  public findGuest = async (req: RequestWithUser, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const guest = await this.outletPostingService.findInHouseGuest(
+        req.query.roomNumber as string,
+        req.query.guestName as string
+      );
+
+      const response: ApiResponse<InHouseGuest> = {
+        success: true,
+        data: guest
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Charges a check to a guest's room; a resent check returns the check already posted
+   *
+   * @param {RequestWithUser} req - Express request with authenticated user
+   * @param {Response} res - Express response
+   * @param {NextFunction} next - Express next function
+   */
+  public postCheck = async (req: RequestWithUser, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const { check, duplicate } = await this.outletPostingService.postCheck({
+        ...req.body,
+        outlet: req.params.outlet as Outlet,
+        userId: authenticatedUserId(req)
+      });
+
+      const response: ApiResponse<OutletCheck> = {
+        success: true,
+        data: check
+      };
+
+      res.status(duplicate ? 200 : 201).json(response);
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Retrieves a posted check
+   *
+   * @param {RequestWithUser} req - Express request with authenticated user
+   * @param {Response} res - Express response
+   * @param {NextFunction} next - Express next function
+   */
+  public getCheck = async (req: RequestWithUser, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const check = await this.outletPostingService.getCheck(req.params.outlet as Outlet, req.params.checkNumber);
+
+      const response: ApiResponse<OutletCheck> = {
+        success: true,
+        data: check
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Voids a check or one of its lines
+   *
+   * @param {RequestWithUser} req - Express request with authenticated user
+   * @param {Response} res - Express response
+   * @param {NextFunction} next - Express next function
+   */
+  public voidCheck = async (req: RequestWithUser, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const check = await this.outletPostingService.voidCheck({
+        ...req.body,
+        outlet: req.params.outlet as Outlet,
+        checkNumber: req.params.checkNumber,
+        userId: authenticatedUserId(req)
+      });
+
+      const response: ApiResponse<OutletCheck> = {
+        success: true,
+        data: check
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Corrects the quantity or price of a check line
+   *
+   * @param {RequestWithUser} req - Express request with authenticated user
+   * @param {Response} res - Express response
+   * @param {NextFunction} next - Express next function
+   */
+  public correctLine = async (req: RequestWithUser, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const check = await this.outletPostingService.correctLine({
+        ...req.body,
+        outlet: req.params.outlet as Outlet,
+        checkNumber: req.params.checkNumber,
+        userId: authenticatedUserId(req)
+      });
+
+      const response: ApiResponse<OutletCheck> = {
+        success: true,
+        data: check
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  };
+}
@@ -15,7 +15,9 @@ import { map, catchError } from 'rxjs/operators';
 import { BaseController, RequestWithUser, ApiResponse } from '../../../shared/interfaces/base-controller.interface';
 import { Payment, PaymentStatus, PaymentMethod, SafePayment, toSafePayment } from '../models/payment.model';
 import { PaymentGatewayService, PaymentRequest, GatewayResponse } from '../services/payment-gateway.service';
+import { prisma as billingPrisma } from '../config/database';
 import { ErrorCode, createErrorDetails } from '../../../shared/constants/error-codes';
+import { BusinessDateService } from '../../../shared/services/business-date.service';
 
 /**
  * Payment validation schema enforcing PCI DSS compliance
@@ -49,7 +51,8 @@ const RATE_LIMIT_CONFIG = {
 @UseGuards(AuthGuard)
 export class PaymentController implements BaseController<Payment> {
   constructor(
-    private readonly paymentGatewayService: PaymentGatewayService
+    private readonly paymentGatewayService: PaymentGatewayService,
+    private readonly businessDates: BusinessDateService = new BusinessDateService(billingPrisma)
   ) {}
 
   /**
@@ -81,7 +84,8 @@ export class PaymentController implements BaseController<Payment> {
         ipAddress: req.ip
       };
 
-      // Process payment through gateway
+      // Process payment through gateway; the payment is recorded on the hotel's open business day
+      const businessDate = await this.businessDates.getBusinessDate();
       this.paymentGatewayService.authorize(paymentRequest)
         .pipe(
           map((gatewayResponse: GatewayResponse) => {
@@ -93,6 +97,7 @@ export class PaymentController implements BaseController<Payment> {
                 status: gatewayResponse.status,
                 authorizationCode: gatewayResponse.authorizationCode,
                 riskScore: gatewayResponse.riskScore,
+                businessDate,
                 ...paymentRequest
               });
             }
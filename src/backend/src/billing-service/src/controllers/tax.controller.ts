@@ -0,0 +1,100 @@
+/**
+ * @fileoverview Controller handling HTTP endpoints for jurisdictional tax rules and tax quotes.
+ * @version 1.0.0
+ */
+
+// External imports - v4.18.0
+import { Response, NextFunction } from 'express';
+import { parseISO } from 'date-fns'; // v2.30.0
+
+// Internal imports
+import { RequestWithUser, ApiResponse, authenticatedUserId } from '../../../shared/interfaces/base-controller.interface';
+import { CreateTaxRuleDto, TaxCalculation, TaxRule, TaxableCharge } from '../../../shared/models/tax.model';
+import { TaxService } from '../services/tax.service';
+
+/**
+ * Controller exposing the tax engine to accounting staff
+ */
+export class TaxController {
+  constructor(private readonly taxService: TaxService = new TaxService()) {}
+
+  /**
+   * Lists tax rules, optionally only those in force on a date
+   *
+   * @param {RequestWithUser} req - Express request with authenticated user
+   * @param {Response} res - Express response
+   * @param {NextFunction} next - Express next function
+   */
+  public listRules = async (req: RequestWithUser, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const rules = await this.taxService.listRules({
+        date: req.query.date ? parseISO(req.query.date as string) : undefined,
+        jurisdiction: req.query.jurisdiction as string | undefined,
+        chargeCategory: req.query.chargeCategory as string | undefined
+      });
+
+      const response: ApiResponse<TaxRule[]> = {
+        success: true,
+        data: rules
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Adds a tax rule or a new version of one
+   *
+   * @param {RequestWithUser} req - Express request with authenticated user
+   * @param {Response} res - Express response
+   * @param {NextFunction} next - Express next function
+   */
+  public createRule = async (req: RequestWithUser, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const data: CreateTaxRuleDto = {
+        ...req.body,
+        effectiveFrom: parseISO(req.body.effectiveFrom),
+        effectiveTo: req.body.effectiveTo ? parseISO(req.body.effectiveTo) : null,
+        userId: authenticatedUserId(req)
+      };
+      const rule = await this.taxService.createRule(data);
+
+      const response: ApiResponse<TaxRule> = {
+        success: true,
+        data: rule
+      };
+
+      res.status(201).json(response);
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Taxes charges with the rules in force on their dates without posting anything
+   *
+   * @param {RequestWithUser} req - Express request with authenticated user
+   * @param {Response} res - Express response
+   * @param {NextFunction} next - Express next function
+   */
+  public calculate = async (req: RequestWithUser, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const charges: TaxableCharge[] = req.body.charges.map((charge: any) => ({
+        ...charge,
+        date: parseISO(charge.date)
+      }));
+      const calculations = await this.taxService.calculate(charges);
+
+      const response: ApiResponse<TaxCalculation[]> = {
+        success: true,
+        data: calculations
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  };
+}
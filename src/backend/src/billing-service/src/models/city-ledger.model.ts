@@ -0,0 +1,236 @@
+/**
+ * @fileoverview Defines the city ledger: accounts receivable for companies billed directly, the
+ * payments they send and how those payments are applied to their invoices, aged receivables and
+ * monthly statements.
+ * @version 1.0.0
+ */
+
+// External imports
+import { Prisma } from '@prisma/client'; // v5.0.0
+import { differenceInCalendarDays } from 'date-fns'; // v2.30.0
+
+// Internal imports
+import { BaseModel } from '../../../shared/interfaces/base-model.interface';
+import { InvoiceStatus } from './invoice.model';
+import { PaymentMethod } from './payment.model';
+
+/**
+ * Invoice statuses still owed by the account
+ */
+export const OPEN_AR_INVOICE_STATUSES = [
+  InvoiceStatus.ISSUED,
+  InvoiceStatus.PARTIALLY_PAID,
+  InvoiceStatus.OVERDUE,
+  InvoiceStatus.COLLECTION
+];
+
+/**
+ * Days past due after which dunning hands an overdue invoice to collection
+ */
+export const COLLECTION_AFTER_DAYS = Number(process.env.AR_COLLECTION_DAYS || 60);
+
+/**
+ * Enum defining the states of a city ledger account
+ */
+export enum ArAccountStatus {
+  /** Account accepts folio transfers */
+  ACTIVE = 'ACTIVE',
+  /** No new transfers; payments are still applied */
+  SUSPENDED = 'SUSPENDED',
+  /** Account closed after its balance was settled */
+  CLOSED = 'CLOSED'
+}
+
+/**
+ * Age of an open invoice since it was issued
+ */
+export enum AgingBucket {
+  /** Up to 30 days */
+  CURRENT = 'CURRENT',
+  /** 31 to 60 days */
+  DAYS_30 = 'DAYS_30',
+  /** 61 to 90 days */
+  DAYS_60 = 'DAYS_60',
+  /** Over 90 days */
+  DAYS_90_PLUS = 'DAYS_90_PLUS'
+}
+
+/**
+ * Company billed directly for its guests' stays
+ */
+export interface ArAccount extends BaseModel {
+  accountNumber: string;
+  companyName: string;
+  contactName: string | null;
+  contactEmail: string | null;
+  billingAddress: string;
+  taxIdentifier: string | null;
+  currency: string;
+  /** Highest balance the account may carry; transfers above it are refused */
+  creditLimit: Prisma.Decimal;
+  /** Days after the invoice date payment is due */
+  paymentTermsDays: number;
+  /** Amount billed less payments received */
+  balance: Prisma.Decimal;
+  status: ArAccountStatus;
+}
+
+/**
+ * Request opening a city ledger account
+ */
+export interface CreateArAccountDto {
+  accountNumber: string;
+  companyName: string;
+  contactName?: string;
+  contactEmail?: string;
+  billingAddress: string;
+  taxIdentifier?: string;
+  currency: string;
+  creditLimit: number;
+  paymentTermsDays: number;
+  userId: string;
+}
+
+/**
+ * Request changing an account's terms or status
+ */
+export type UpdateArAccountDto = Partial<Pick<CreateArAccountDto,
+  'companyName' | 'contactName' | 'contactEmail' | 'billingAddress' | 'taxIdentifier' | 'creditLimit' | 'paymentTermsDays'
+>> & { status?: ArAccountStatus; userId: string };
+
+/**
+ * Request transferring a folio balance to an account at checkout
+ */
+export interface TransferFolioToAccountDto {
+  folioId: string;
+  arAccountId: string;
+  userId: string;
+}
+
+/**
+ * Part of a payment applied to one invoice
+ */
+export interface ArPaymentAllocation {
+  invoiceId: string;
+  amount: Prisma.Decimal;
+}
+
+/**
+ * Payment received from an account
+ */
+export interface ArPayment extends BaseModel {
+  arAccountId: string;
+  amount: Prisma.Decimal;
+  /** Part of the amount not applied to any invoice, held as credit on the account */
+  unappliedAmount: Prisma.Decimal;
+  method: PaymentMethod;
+  /** Remittance or bank reference */
+  reference: string;
+  receivedDate: Date;
+  allocations: ArPaymentAllocation[];
+  recordedBy: string;
+}
+
+/**
+ * Request applying a payment to an account's invoices
+ */
+export interface ApplyArPaymentDto {
+  arAccountId: string;
+  amount: number;
+  method: PaymentMethod;
+  reference: string;
+  /** Amounts per invoice from the remittance advice; oldest invoices first when omitted */
+  allocations?: { invoiceId: string; amount: number }[];
+  userId: string;
+}
+
+/**
+ * Open amounts by age
+ */
+export type AgingBuckets = Record<AgingBucket, number> & { total: number };
+
+/**
+ * One account's line of the aged receivables report
+ */
+export interface AgedReceivablesLine extends AgingBuckets {
+  arAccountId: string;
+  accountNumber: string;
+  companyName: string;
+}
+
+/**
+ * Aged receivables across all accounts
+ */
+export interface AgedReceivablesReport {
+  asOf: Date;
+  accounts: AgedReceivablesLine[];
+  totals: AgingBuckets;
+}
+
+/**
+ * Invoice or payment on a statement
+ */
+export interface ArStatementLine {
+  date: Date;
+  type: 'INVOICE' | 'PAYMENT';
+  reference: string;
+  /** Positive for invoices, negative for payments */
+  amount: number;
+  balance: number;
+}
+
+/**
+ * Monthly statement of an account
+ */
+export interface ArStatement {
+  arAccountId: string;
+  accountNumber: string;
+  companyName: string;
+  billingAddress: string;
+  currency: string;
+  periodStart: Date;
+  periodEnd: Date;
+  openingBalance: number;
+  lines: ArStatementLine[];
+  closingBalance: number;
+  /** Invoices issued by the end of the period that are still open, by age at the period end */
+  aging: AgingBuckets;
+}
+
+/**
+ * Invoices moved on by a dunning run
+ */
+export interface DunningRun {
+  businessDate: Date;
+  /** Invoices newly past their due date */
+  overdue: number;
+  /** Overdue invoices handed to collection */
+  collection: number;
+}
+
+/**
+ * Bucket of an invoice issued on `issueDate` as of `asOf`
+ */
+export function agingBucket(issueDate: Date, asOf: Date): AgingBucket {
+  const days = differenceInCalendarDays(asOf, issueDate);
+  if (days <= 30) {
+    return AgingBucket.CURRENT;
+  }
+  if (days <= 60) {
+    return AgingBucket.DAYS_30;
+  }
+  return days <= 90 ? AgingBucket.DAYS_60 : AgingBucket.DAYS_90_PLUS;
+}
+
+/**
+ * Empty buckets to add open amounts to
+ */
+export function createEmptyAgingBuckets(): AgingBuckets {
+  return {
+    [AgingBucket.CURRENT]: 0,
+    [AgingBucket.DAYS_30]: 0,
+    [AgingBucket.DAYS_60]: 0,
+    [AgingBucket.DAYS_90_PLUS]: 0,
+    total: 0
+  };
+}
@@ -0,0 +1,88 @@
+/**
+ * @fileoverview Defines guest credit limit monitoring: the amount authorized on a folio, by card
+ * pre-authorization or the house limit, and the folio's exposure beyond it.
+ * @version 1.0.0
+ */
+
+// External imports
+import { Prisma } from '@prisma/client'; // v5.0.0
+
+// Internal imports
+import { Folio } from './folio.model';
+
+/**
+ * Credit extended to a guest whose folio holds no card pre-authorization
+ */
+export const HOUSE_CREDIT_LIMIT = Number(process.env.HOUSE_CREDIT_LIMIT || 1000);
+
+/**
+ * Exposure past which a folio is over its credit limit, unless CREDIT_EXPOSURE_THRESHOLD is set
+ */
+export const DEFAULT_CREDIT_EXPOSURE_THRESHOLD = 0;
+
+/**
+ * Request pre-authorizing a card against a folio
+ */
+export interface AuthorizeCreditDto {
+  folioId: string;
+  /** Amount to hold, in the folio currency */
+  amount: number;
+  cardToken: string;
+  userId: string;
+}
+
+/**
+ * Credit position of a folio
+ */
+export interface CreditExposure {
+  folioId: string;
+  folioNumber: string;
+  reservationId: string;
+  currency: string;
+  balance: number;
+  /** Card pre-authorizations held, or the house limit when there are none */
+  authorizedAmount: number;
+  houseLimit: boolean;
+  /** Balance less the authorized amount */
+  exposure: number;
+  overLimit: boolean;
+}
+
+/**
+ * Folio over its credit limit, with the guest and room for the front desk
+ */
+export interface OverCreditLimitEntry extends CreditExposure {
+  bookingNumber: string;
+  guestName: string;
+  roomNumber: string | null;
+  /** When the front desk was alerted */
+  alertedAt: Date | null;
+}
+
+/**
+ * Open folios over their credit limit on a business date, largest exposure first
+ */
+export interface OverCreditLimitReport {
+  businessDate: Date;
+  threshold: number;
+  folios: OverCreditLimitEntry[];
+}
+
+/**
+ * Amount a folio may run up to: its card pre-authorizations, or the house limit without any
+ */
+export function authorizedAmountOf(folio: Pick<Folio, 'authorizedAmount'>): Prisma.Decimal {
+  const authorized = new Prisma.Decimal(folio.authorizedAmount || 0);
+  return authorized.gt(0) ? authorized : new Prisma.Decimal(HOUSE_CREDIT_LIMIT);
+}
+
+/**
+ * Balance less the authorized amount
+ * @param balance - Balance to measure, by default the folio's own
+ */
+export function exposureOf(
+  folio: Pick<Folio, 'authorizedAmount' | 'balance'>,
+  balance: Prisma.Decimal = new Prisma.Decimal(folio.balance)
+): Prisma.Decimal {
+  return balance.minus(authorizedAmountOf(folio));
+}
@@ -0,0 +1,85 @@
+/**
+ * @fileoverview Defines the day-end report snapshot model produced when the night audit closes
+ * a business date. Snapshots are immutable once stored and carry a checksum of their content.
+ * @version 1.0.0
+ */
+
+// Internal imports
+import { BaseModel } from '../../../shared/interfaces/base-model.interface';
+
+/**
+ * Enum defining the reports included in the day-end pack
+ */
+export enum DayEndReportType {
+  /** Posted charges by department against payments received */
+  TRIAL_BALANCE = 'TRIAL_BALANCE',
+  /** Manager's flash: occupancy, ADR and RevPAR */
+  MANAGER_FLASH = 'MANAGER_FLASH',
+  /** Guests in house on the business date */
+  IN_HOUSE_GUESTS = 'IN_HOUSE_GUESTS',
+  /** Arrivals and departures for the business date */
+  ARRIVALS_DEPARTURES = 'ARRIVALS_DEPARTURES',
+  /** Cancellations recorded on the business date with fees */
+  CANCELLATIONS = 'CANCELLATIONS',
+  /** Payments received grouped by payment method */
+  PAYMENTS_BY_METHOD = 'PAYMENTS_BY_METHOD'
+}
+
+/**
+ * Enum defining the formats a stored report can be exported in
+ */
+export enum ReportFormat {
+  JSON = 'json',
+  CSV = 'csv',
+  PDF = 'pdf'
+}
+
+/**
+ * Scalar value allowed in a report cell
+ */
+export type ReportValue = string | number | boolean | null;
+
+/**
+ * Type definition for a report column
+ */
+export type ReportColumn = {
+  /** Key of the value in each row */
+  key: string;
+  /** Column heading */
+  label: string;
+  /** Value type used for formatting exports */
+  type: 'string' | 'number' | 'currency' | 'percentage' | 'date';
+};
+
+/**
+ * Interface representing an immutable day-end report snapshot
+ */
+export interface DayEndReport extends BaseModel {
+  /** Business date the report covers */
+  readonly businessDate: Date;
+  /** Report type */
+  readonly type: DayEndReportType;
+  /** Report title */
+  readonly title: string;
+  /** Column definitions */
+  readonly columns: ReadonlyArray<ReportColumn>;
+  /** Report rows */
+  readonly rows: ReadonlyArray<Record<string, ReportValue>>;
+  /** Report totals or headline figures */
+  readonly totals: Readonly<Record<string, ReportValue>>;
+  /** Currency of monetary values */
+  readonly currency: string;
+  /** SHA-256 checksum of columns, rows and totals */
+  readonly checksum: string;
+  /** Night audit run that produced the report */
+  readonly nightAuditRunId: string | null;
+  /** User or job that generated the report */
+  readonly generatedBy: string;
+  /** Time the snapshot was taken */
+  readonly generatedAt: Date;
+}
+
+/**
+ * Type for the content of a report before it is frozen
+ */
+export type DayEndReportContent = Pick<DayEndReport, 'type' | 'title' | 'columns' | 'rows' | 'totals'>;
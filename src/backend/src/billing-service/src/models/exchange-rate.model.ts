@@ -0,0 +1,153 @@
+/**
+ * @fileoverview Defines the daily exchange-rate tables used to quote rates in a guest's currency
+ * and settle folios in a currency other than the one they were charged in.
+ * @version 1.0.0
+ */
+
+// External imports
+import { Prisma } from '@prisma/client'; // v5.0.0
+
+// Internal imports
+import { BaseModel } from '../../../shared/interfaces/base-model.interface';
+import { PaymentMethod } from './payment.model';
+
+/**
+ * Currency the property keeps its books in; every table rate is quoted against it
+ */
+export const PROPERTY_CURRENCY = process.env.PROPERTY_CURRENCY || 'USD';
+
+/**
+ * Currencies without minor units; amounts in them are rounded to whole units
+ */
+const ZERO_DECIMAL_CURRENCIES = ['JPY', 'KRW', 'VND', 'CLP', 'ISK'];
+
+/**
+ * Where a table was loaded from
+ */
+export enum ExchangeRateSource {
+  /** Daily rate file from the bank or rate provider */
+  FILE = 'FILE',
+  /** Entered through the admin API */
+  ADMIN = 'ADMIN'
+}
+
+/**
+ * Rate of one currency on one day
+ */
+export interface ExchangeRate extends BaseModel {
+  /** ISO 4217 code of the foreign currency */
+  currency: string;
+  /** Property currency the rate is quoted against */
+  baseCurrency: string;
+  /** Units of the property currency one unit of `currency` buys */
+  rate: Prisma.Decimal;
+  /** First day the rate applies; it applies until a later table lists the currency */
+  effectiveDate: Date;
+  source: ExchangeRateSource;
+  loadedBy: string;
+}
+
+/**
+ * Table of rates effective on one day
+ */
+export interface ExchangeRateTableDto {
+  effectiveDate: Date;
+  /** Units of the property currency per unit, by currency */
+  rates: Record<string, number>;
+  source: ExchangeRateSource;
+  userId: string;
+}
+
+/**
+ * Amount converted between two currencies
+ */
+export interface CurrencyConversion {
+  fromCurrency: string;
+  toCurrency: string;
+  /** Units of `toCurrency` per unit of `fromCurrency` */
+  rate: number;
+  /** Day the rate was taken for */
+  rateDate: Date;
+  amount: number;
+  convertedAmount: number;
+}
+
+/**
+ * Amount due to settle a folio in a given currency
+ */
+export interface FolioSettlementQuote {
+  folioId: string;
+  folioCurrency: string;
+  balance: number;
+  currency: string;
+  /** Units of the folio currency per unit of the settlement currency */
+  exchangeRate: number;
+  amountDue: number;
+}
+
+/**
+ * Request settling a folio
+ */
+export interface SettleFolioDto {
+  folioId: string;
+  /** Currency the guest pays in */
+  currency: string;
+  /** Amount paid in `currency`; the whole balance when omitted */
+  amount?: number;
+  paymentMethod: PaymentMethod;
+  /** Required for card payments */
+  cardToken?: string;
+  userId: string;
+}
+
+/**
+ * Payment recorded by a settlement and what it left on the folio
+ */
+export interface FolioSettlement {
+  paymentId: string;
+  transactionId: string;
+  currency: string;
+  amount: number;
+  folioCurrency: string;
+  exchangeRate: number;
+  /** Amount credited to the folio, in the folio currency */
+  settledAmount: number;
+  /** Realized exchange gain (positive) or loss, in the property currency */
+  fxGainLoss: number;
+  /** Folio balance after the payment */
+  balance: number;
+}
+
+/**
+ * Rounds an amount to the minor units of its currency
+ */
+export function roundToCurrency(amount: number, currency: string): number {
+  const factor = ZERO_DECIMAL_CURRENCIES.includes(currency) ? 1 : 100;
+  return Math.round(amount * factor) / factor;
+}
+
+/**
+ * Parses a rate file into tables by day. Each line holds `date,currency,rate` with an ISO date
+ * and the units of the property currency per unit; a header line and lines starting with `#` are
+ * skipped.
+ * @throws Error naming the first line that cannot be read
+ */
+export function parseExchangeRateFile(content: string): Map<string, Record<string, number>> {
+  const tables = new Map<string, Record<string, number>>();
+
+  content.split(/\r?\n/).forEach((line, index) => {
+    const trimmed = line.trim();
+    if (!trimmed || trimmed.startsWith('#') || /^date\s*,/i.test(trimmed)) {
+      return;
+    }
+
+    const [date, currency, rate] = trimmed.split(',').map(field => field.trim());
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(date || '') || !currency || rate === undefined || isNaN(Number(rate))) {
+      throw new Error(`Line ${index + 1} is not date,currency,rate: ${trimmed}`);
+    }
+
+    tables.set(date, { ...tables.get(date), [currency.toUpperCase()]: Number(rate) });
+  });
+
+  return tables;
+}
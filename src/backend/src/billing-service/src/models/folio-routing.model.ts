@@ -0,0 +1,87 @@
+/**
+ * @fileoverview Defines routing instructions sending a booking's charges to the folio that pays
+ * for them, such as room and tax to the company folio or dinner to the group master, and the
+ * audit trail of charges moved between folios.
+ * @version 1.0.0
+ */
+
+// External imports
+import { Prisma } from '@prisma/client'; // v5.0.0
+
+// Internal imports
+import { BaseModel } from '../../../shared/interfaces/base-model.interface';
+
+/**
+ * Instruction routing some of a booking's charges to another folio. Charges no instruction
+ * matches stay on the booking's main folio.
+ */
+export interface FolioRoutingInstruction extends BaseModel {
+  /** Booking whose charges are routed */
+  reservationId: string;
+  /** Folio receiving the charges; may belong to another booking, e.g. a group master */
+  targetFolioId: string;
+  /** Charge categories routed; empty routes every category */
+  chargeCategories: string[];
+  /** Departments routed; empty routes every department */
+  departments: string[];
+  /** Lower numbers are evaluated first; the first matching instruction wins */
+  priority: number;
+  description: string | null;
+  /** Removed instructions are kept inactive for the audit trail */
+  isActive: boolean;
+  createdBy: string;
+}
+
+/**
+ * Request adding a routing instruction to a booking
+ */
+export interface CreateRoutingInstructionDto {
+  reservationId: string;
+  targetFolioId: string;
+  chargeCategories?: string[];
+  departments?: string[];
+  priority?: number;
+  description?: string;
+  userId: string;
+}
+
+/**
+ * Charge being posted, as far as routing is concerned
+ */
+export interface RoutableCharge {
+  category: string;
+  department: string;
+}
+
+/**
+ * Audit record of one charge moved between folios
+ */
+export interface FolioChargeTransfer extends BaseModel {
+  chargeId: string;
+  fromFolioId: string;
+  toFolioId: string;
+  /** Charge total moved, including tax */
+  amount: Prisma.Decimal;
+  reason: string;
+  businessDate: Date;
+  transferredBy: string;
+}
+
+/**
+ * Request moving charges from one folio to another
+ */
+export interface TransferChargesDto {
+  fromFolioId: string;
+  toFolioId: string;
+  chargeIds: string[];
+  reason: string;
+  userId: string;
+}
+
+/**
+ * Whether an instruction routes a charge
+ */
+export function matchesRoutingInstruction(instruction: FolioRoutingInstruction, charge: RoutableCharge): boolean {
+  return (instruction.chargeCategories.length === 0 || instruction.chargeCategories.includes(charge.category))
+    && (instruction.departments.length === 0 || instruction.departments.includes(charge.department));
+}
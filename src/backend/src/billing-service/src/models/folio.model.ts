@@ -9,6 +9,7 @@ import { Prisma } from '@prisma/client'; // v5.0.0 - For decimal type support in
 
 // Internal imports
 import { BaseModel } from '../../../shared/interfaces/base-model.interface';
+import { TaxLine } from '../../../shared/models/tax.model';
 
 /**
  * Enum defining the possible states of a folio throughout its lifecycle
@@ -66,6 +67,8 @@ export type FolioCharge = {
   taxRate: Prisma.Decimal;
   /** Calculated tax amount */
   taxAmount: Prisma.Decimal;
+  /** Taxes making up the tax amount; absent for charges posted before the tax engine */
+  taxLines?: TaxLine[];
   /** Total amount including taxes */
   totalAmount: Prisma.Decimal;
   /** Reference to the parent folio */
@@ -80,6 +83,63 @@ export type FolioCharge = {
   notes: string;
 };
 
+/**
+ * Charge posted to a booking's folio by another process; routing picks the folio it lands on
+ */
+export interface FolioChargePosting {
+  description: string;
+  /** Base amount before taxes; negative for a credit */
+  amount: Prisma.Decimal;
+  taxAmount: Prisma.Decimal;
+  category: string;
+  department: string;
+  postingDate: Date;
+  /** Unique reference of the posting */
+  reference: string;
+  notes?: string | null;
+}
+
+/**
+ * Enum defining how a posted charge was changed
+ */
+export enum ChargeAdjustmentType {
+  /** Charge voided; it no longer counts towards the folio balance */
+  VOID = 'VOID',
+  /** Charge amount corrected; the charge is marked ADJUSTED */
+  CORRECTION = 'CORRECTION'
+}
+
+/**
+ * Type definition for a change made to a posted charge, kept so the original posting and every
+ * change to it can be traced
+ */
+export type FolioChargeAdjustment = {
+  /** Unique identifier for the adjustment */
+  id: string;
+  /** Charge changed */
+  chargeId: string;
+  /** Folio the charge was on when it was changed */
+  folioId: string;
+  /** Void or correction */
+  type: ChargeAdjustmentType;
+  /** Amounts before the change */
+  previousAmount: Prisma.Decimal;
+  previousTaxAmount: Prisma.Decimal;
+  previousTotalAmount: Prisma.Decimal;
+  /** Amounts after the change; zero for a void */
+  amount: Prisma.Decimal;
+  taxAmount: Prisma.Decimal;
+  totalAmount: Prisma.Decimal;
+  /** Why the charge was changed */
+  reason: string;
+  /** Business date of the change */
+  businessDate: Date;
+  /** User making the change */
+  adjustedBy: string;
+  /** When the change was made */
+  createdAt: Date;
+};
+
 /**
  * Type definition for a payment entry in the folio
  */
@@ -145,6 +205,12 @@ export interface Folio extends BaseModel {
   closeDate: Date | null;
   /** Indicates if this is the main folio for a reservation */
   isMainFolio: boolean;
+  /** Card pre-authorizations held against the folio; the house credit limit applies while there are none */
+  authorizedAmount: Prisma.Decimal;
+  /** Balance less the authorized amount, updated after every posting */
+  exposure: Prisma.Decimal;
+  /** When the front desk was alerted that the exposure passed the threshold; cleared once it falls back */
+  creditAlertedAt: Date | null;
   /** Reference to parent folio if this is a split folio */
   parentFolioId: string | null;
   /** Collection of charges on this folio */
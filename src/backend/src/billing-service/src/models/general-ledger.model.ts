@@ -0,0 +1,290 @@
+/**
+ * @fileoverview Defines the general ledger: the chart of accounts, the rules mapping folio
+ * charges and payment methods to accounts, the balanced journal entries posted for each business
+ * date, accounting periods that can be locked, the trial balance and the accounting-import export.
+ * @version 1.0.0
+ */
+
+// External imports
+import { Prisma } from '@prisma/client'; // v5.0.0
+import { format } from 'date-fns'; // v2.30.0
+
+// Internal imports
+import { BaseModel } from '../../../shared/interfaces/base-model.interface';
+import { PaymentMethod } from './payment.model';
+
+/**
+ * Enum defining the classes of account in the chart of accounts
+ */
+export enum GlAccountType {
+  ASSET = 'ASSET',
+  LIABILITY = 'LIABILITY',
+  EQUITY = 'EQUITY',
+  REVENUE = 'REVENUE',
+  EXPENSE = 'EXPENSE'
+}
+
+/**
+ * Accounts the ledger posts to by role rather than by mapping. Each role is held by one account.
+ */
+export enum ControlAccount {
+  /** Balances owed by in-house guests on open folios */
+  GUEST_LEDGER = 'GUEST_LEDGER',
+  /** Balances transferred to companies billed directly */
+  CITY_LEDGER = 'CITY_LEDGER',
+  /** Taxes charged to guests and owed to the authorities */
+  TAX_PAYABLE = 'TAX_PAYABLE',
+  /** Exchange differences between a payment and the balance it settled */
+  FX_GAIN_LOSS = 'FX_GAIN_LOSS'
+}
+
+/**
+ * What a mapping rule maps to an account
+ */
+export enum GlMappingSource {
+  /** Revenue from folio charges, by category and department */
+  CHARGE = 'CHARGE',
+  /** Money received or refunded, by payment method */
+  PAYMENT = 'PAYMENT'
+}
+
+/**
+ * Event a journal entry was posted for
+ */
+export enum JournalSourceType {
+  FOLIO_CHARGE = 'FOLIO_CHARGE',
+  PAYMENT = 'PAYMENT',
+  REFUND = 'REFUND',
+  /** Folio balance moved to the city ledger at checkout */
+  AR_TRANSFER = 'AR_TRANSFER',
+  /** Payment received from a city ledger account */
+  AR_PAYMENT = 'AR_PAYMENT',
+  /** Void or correction of a charge, posted as the difference it made */
+  CHARGE_ADJUSTMENT = 'CHARGE_ADJUSTMENT'
+}
+
+/**
+ * Enum defining the states of a journal batch
+ */
+export enum JournalBatchStatus {
+  /** Posted to the ledger and not yet exported */
+  POSTED = 'POSTED',
+  /** Exported to the accounting system at least once */
+  EXPORTED = 'EXPORTED'
+}
+
+/**
+ * Enum defining the states of an accounting period
+ */
+export enum AccountingPeriodStatus {
+  OPEN = 'OPEN',
+  /** No further entries may be posted into the period */
+  LOCKED = 'LOCKED'
+}
+
+/**
+ * Formats in which a journal batch can be exported
+ */
+export enum JournalExportFormat {
+  CSV = 'csv',
+  JSON = 'json'
+}
+
+/**
+ * Account in the chart of accounts
+ */
+export interface GlAccount extends BaseModel {
+  /** Account number used by the accounting system */
+  code: string;
+  name: string;
+  type: GlAccountType;
+  /** Role the account holds, if any */
+  controlAccount: ControlAccount | null;
+  isActive: boolean;
+}
+
+/**
+ * Request adding an account to the chart of accounts
+ */
+export interface CreateGlAccountDto {
+  code: string;
+  name: string;
+  type: GlAccountType;
+  controlAccount?: ControlAccount;
+  userId: string;
+}
+
+/**
+ * Request changing an account's name, role or whether it is in use
+ */
+export type UpdateGlAccountDto = Partial<Pick<CreateGlAccountDto, 'name'>> & {
+  controlAccount?: ControlAccount | null;
+  isActive?: boolean;
+  userId: string;
+};
+
+/**
+ * Rule mapping charges or payments to an account. A null field matches any value; of the rules
+ * matching, the most specific one applies.
+ */
+export interface GlMapping extends BaseModel {
+  source: GlMappingSource;
+  /** Charge category matched, for CHARGE rules */
+  category: string | null;
+  /** Charge department matched, for CHARGE rules */
+  department: string | null;
+  /** Payment method matched, for PAYMENT rules */
+  paymentMethod: PaymentMethod | null;
+  accountCode: string;
+  createdBy: string;
+}
+
+/**
+ * Request adding a mapping rule
+ */
+export interface CreateGlMappingDto {
+  source: GlMappingSource;
+  category?: string;
+  department?: string;
+  paymentMethod?: PaymentMethod;
+  accountCode: string;
+  userId: string;
+}
+
+/**
+ * Debit or credit to one account, in the property currency
+ */
+export interface JournalLine {
+  accountCode: string;
+  accountName: string;
+  debit: number;
+  credit: number;
+  description: string;
+}
+
+/**
+ * Balanced entry posted for one charge, payment, refund or transfer
+ */
+export interface JournalEntry extends BaseModel {
+  batchId: string;
+  businessDate: Date;
+  sourceType: JournalSourceType;
+  /** Charge, payment, city ledger payment or charge adjustment the entry was posted for */
+  sourceId: string;
+  /** Amount of the source in its own currency */
+  sourceAmount: Prisma.Decimal;
+  sourceCurrency: string;
+  /** Folio or account reference shown to the accountant */
+  reference: string;
+  description: string;
+  lines: JournalLine[];
+  totalDebit: Prisma.Decimal;
+  totalCredit: Prisma.Decimal;
+}
+
+/**
+ * Entries posted together for a business date
+ */
+export interface JournalBatch extends BaseModel {
+  batchNumber: string;
+  businessDate: Date;
+  /** Accounting period the batch was posted into, as YYYY-MM */
+  period: string;
+  currency: string;
+  entryCount: number;
+  totalDebit: Prisma.Decimal;
+  totalCredit: Prisma.Decimal;
+  status: JournalBatchStatus;
+  postedBy: string;
+  exportedAt: Date | null;
+}
+
+/**
+ * Calendar month of the ledger
+ */
+export interface AccountingPeriod extends BaseModel {
+  /** Month as YYYY-MM */
+  period: string;
+  status: AccountingPeriodStatus;
+  lockedBy: string | null;
+  lockedAt: Date | null;
+}
+
+/**
+ * Debits and credits posted to one account
+ */
+export interface TrialBalanceLine {
+  accountCode: string;
+  accountName: string;
+  type: GlAccountType;
+  debit: number;
+  credit: number;
+  /** Debits less credits */
+  balance: number;
+}
+
+/**
+ * Totals per account for a period; debits and credits must be equal
+ */
+export interface TrialBalance {
+  period: string;
+  currency: string;
+  lines: TrialBalanceLine[];
+  totalDebit: number;
+  totalCredit: number;
+  balanced: boolean;
+}
+
+/**
+ * Generic accounting-import document for a journal batch
+ */
+export interface AccountingImportDocument {
+  format: 'accounting-import';
+  version: 1;
+  batch: {
+    number: string;
+    date: string;
+    period: string;
+    currency: string;
+    totalDebit: number;
+    totalCredit: number;
+  };
+  entries: {
+    reference: string;
+    date: string;
+    source: JournalSourceType;
+    sourceId: string;
+    description: string;
+    lines: { account: string; accountName: string; debit: number; credit: number; memo: string }[];
+  }[];
+}
+
+/**
+ * Accounting period a date falls in, as YYYY-MM
+ */
+export function accountingPeriodOf(date: Date): string {
+  return format(date, 'yyyy-MM');
+}
+
+/**
+ * Whether a mapping rule applies to a charge or payment method
+ */
+export function matchesGlMapping(
+  mapping: GlMapping,
+  subject: { category?: string; department?: string; paymentMethod?: PaymentMethod }
+): boolean {
+  if (mapping.source === GlMappingSource.PAYMENT) {
+    return mapping.paymentMethod === null || mapping.paymentMethod === subject.paymentMethod;
+  }
+  return (mapping.category === null || mapping.category === subject.category) &&
+    (mapping.department === null || mapping.department === subject.department);
+}
+
+/**
+ * Specificity of a mapping rule; the matching rule with the highest wins
+ */
+export function glMappingSpecificity(mapping: GlMapping): number {
+  return (mapping.category !== null ? 2 : 0) +
+    (mapping.department !== null ? 1 : 0) +
+    (mapping.paymentMethod !== null ? 1 : 0);
+}
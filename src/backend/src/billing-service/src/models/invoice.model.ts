@@ -9,6 +9,7 @@ import { Prisma } from '@prisma/client';
 
 // Internal imports
 import { BaseModel } from '../../../shared/interfaces/base-model.interface';
+import { TaxLine } from '../../../shared/models/tax.model';
 
 /**
  * Enum defining all possible states of an invoice throughout its lifecycle
@@ -127,6 +128,9 @@ export interface Invoice extends BaseModel {
   /** Total tax amount */
   taxAmount: Prisma.Decimal;
   
+  /** Taxes by jurisdiction making up the tax amount */
+  taxLines: TaxLine[];
+  
   /** Total amount including tax */
   totalAmount: Prisma.Decimal;
   
@@ -147,7 +151,16 @@ export interface Invoice extends BaseModel {
   
   /** Date when full payment was received */
   paidDate: Date | null;
-  
+
+  /** City ledger account billed; absent on invoices settled by the guest */
+  arAccountId?: string | null;
+
+  /** Amount transferred to the city ledger account: the total less what the guest paid */
+  billedAmount?: Prisma.Decimal;
+
+  /** Part of the billed amount still owed by the account */
+  balanceDue?: Prisma.Decimal;
+
   /** Detailed line items */
   items: InvoiceItem[];
   
@@ -0,0 +1,123 @@
+/**
+ * @fileoverview Defines the night audit run model used to close a business day, including
+ * revenue posting results, no-show processing and folio reconciliation findings.
+ * @version 1.0.0
+ */
+
+// External imports
+import { Prisma } from '@prisma/client'; // v5.0.0 - For decimal type support in financial calculations
+
+// Internal imports
+import { BaseModel } from '../../../shared/interfaces/base-model.interface';
+
+/**
+ * Enum defining the lifecycle states of a night audit run
+ */
+export enum NightAuditStatus {
+  /** Audit has started and is processing */
+  RUNNING = 'RUNNING',
+  /** Audit finished and the business date was rolled over */
+  COMPLETED = 'COMPLETED',
+  /** Audit finished but reconciliation found discrepancies to review */
+  COMPLETED_WITH_EXCEPTIONS = 'COMPLETED_WITH_EXCEPTIONS',
+  /** Audit aborted before the business date was rolled over */
+  FAILED = 'FAILED'
+}
+
+/**
+ * Enum defining the ordered steps of a night audit run
+ */
+export enum NightAuditStep {
+  /** Mark arrivals that never checked in as no-shows */
+  NO_SHOWS = 'NO_SHOWS',
+  /** Post room, add-on and tax charges for in-house bookings */
+  REVENUE_POSTING = 'REVENUE_POSTING',
+  /** Reconcile folio balances against charges and captured payments */
+  RECONCILIATION = 'RECONCILIATION',
+  /** Advance the persisted business date */
+  DATE_ROLLOVER = 'DATE_ROLLOVER'
+}
+
+/**
+ * Type definition for a folio whose balance does not match its postings
+ */
+export type ReconciliationDiscrepancy = {
+  /** Folio with the discrepancy */
+  folioId: string;
+  /** Folio number for reference */
+  folioNumber: string;
+  /** Sum of posted charges */
+  postedCharges: Prisma.Decimal;
+  /** Sum of captured payments less refunds */
+  capturedPayments: Prisma.Decimal;
+  /** Balance expected from charges and payments */
+  expectedBalance: Prisma.Decimal;
+  /** Balance stored on the folio */
+  recordedBalance: Prisma.Decimal;
+  /** Difference between recorded and expected balance */
+  variance: Prisma.Decimal;
+};
+
+/**
+ * Type definition for the totals produced by a night audit run
+ */
+export type NightAuditSummary = {
+  /** Number of bookings flagged as no-show */
+  noShowCount: number;
+  /** Number of room charges posted */
+  roomChargesPosted: number;
+  /** Net room revenue posted */
+  roomRevenue: Prisma.Decimal;
+  /** Number of add-on charges posted */
+  addOnChargesPosted: number;
+  /** Net add-on revenue posted */
+  addOnRevenue: Prisma.Decimal;
+  /** Tax posted on room and add-on revenue */
+  taxRevenue: Prisma.Decimal;
+  /** Number of open folios reconciled */
+  foliosReconciled: number;
+  /** Total captured payments across reconciled folios */
+  capturedPayments: Prisma.Decimal;
+};
+
+/**
+ * Interface representing a single night audit run for a business date
+ */
+export interface NightAuditRun extends BaseModel {
+  /** Business date being closed */
+  businessDate: Date;
+  /** Current status of the run */
+  status: NightAuditStatus;
+  /** Steps that have completed */
+  completedSteps: NightAuditStep[];
+  /** Totals produced by the run */
+  summary: NightAuditSummary;
+  /** Folios whose balance does not reconcile */
+  discrepancies: ReconciliationDiscrepancy[];
+  /** Bookings skipped because they had no open folio */
+  skippedBookingIds: string[];
+  /** Error message if the run failed */
+  errorMessage: string | null;
+  /** User or job that started the run */
+  startedBy: string;
+  /** Time the run started */
+  startedAt: Date;
+  /** Time the run finished */
+  completedAt: Date | null;
+}
+
+/**
+ * Creates an empty summary for a new night audit run
+ */
+export function createEmptySummary(): NightAuditSummary {
+  return {
+    noShowCount: 0,
+    roomChargesPosted: 0,
+    roomRevenue: new Prisma.Decimal(0),
+    addOnChargesPosted: 0,
+    addOnRevenue: new Prisma.Decimal(0),
+    taxRevenue: new Prisma.Decimal(0),
+    foliosReconciled: 0,
+    capturedPayments: new Prisma.Decimal(0)
+  };
+}
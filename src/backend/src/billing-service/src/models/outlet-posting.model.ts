@@ -0,0 +1,141 @@
+/**
+ * @fileoverview Defines checks posted to guest folios by the property's outlets (restaurant, bar,
+ * spa and minibar) through their point-of-sale systems, with the voids and corrections made to them.
+ * @version 1.0.0
+ */
+
+// External imports
+import { Prisma } from '@prisma/client'; // v5.0.0
+
+// Internal imports
+import { BaseModel } from '../../../shared/interfaces/base-model.interface';
+import { ChargeStatus } from './folio.model';
+
+/**
+ * Prefix of the reference on charges posted from an outlet check
+ */
+export const OUTLET_REFERENCE_PREFIX = 'POS';
+
+/**
+ * Enum defining the outlets that post checks to guest folios. The outlet is the department of
+ * the charges it posts.
+ */
+export enum Outlet {
+  RESTAURANT = 'RESTAURANT',
+  BAR = 'BAR',
+  SPA = 'SPA',
+  MINIBAR = 'MINIBAR'
+}
+
+/**
+ * Charge category of an outlet's items when the check line does not give one
+ */
+export const OUTLET_CHARGE_CATEGORIES: Record<Outlet, string> = {
+  [Outlet.RESTAURANT]: 'FOOD_AND_BEVERAGE',
+  [Outlet.BAR]: 'FOOD_AND_BEVERAGE',
+  [Outlet.SPA]: 'SPA',
+  [Outlet.MINIBAR]: 'FOOD_AND_BEVERAGE'
+};
+
+/**
+ * Item on a check as the point of sale sends it
+ */
+export interface OutletCheckLineDto {
+  description: string;
+  quantity: number;
+  /** Price of one unit as sold, tax treatment per the tax rules of the category */
+  unitPrice: number;
+  /** Charge category, by default the outlet's */
+  category?: string;
+}
+
+/**
+ * Item on a posted check and the charge it was posted as
+ */
+export interface OutletCheckLine extends OutletCheckLineDto {
+  /** Position on the check, from 1 */
+  lineNumber: number;
+  category: string;
+  /** Line total including tax */
+  totalAmount: number;
+  chargeId: string;
+  /** Folio the line was routed to */
+  folioId: string;
+  status: ChargeStatus;
+}
+
+/**
+ * Check charged to a guest's room by an outlet
+ */
+export interface OutletCheck extends BaseModel {
+  outlet: Outlet;
+  /** Check number issued by the outlet's point of sale; unique per outlet */
+  checkNumber: string;
+  reservationId: string;
+  roomNumber: string;
+  guestName: string;
+  lines: OutletCheckLine[];
+  /** Total of the lines not voided, including tax */
+  totalAmount: Prisma.Decimal;
+  currency: string;
+  /** POSTED, ADJUSTED once a line was voided or corrected, VOIDED once every line was voided */
+  status: ChargeStatus;
+  postedBy: string;
+}
+
+/**
+ * Request charging a check to a guest's room
+ */
+export interface PostOutletCheckDto {
+  outlet: Outlet;
+  checkNumber: string;
+  roomNumber: string;
+  /** Guest's last name, or first and last name */
+  guestName: string;
+  lines: OutletCheckLineDto[];
+  userId: string;
+}
+
+/**
+ * Result of posting a check; a check posted before is returned as it was
+ */
+export interface OutletPostingResult {
+  check: OutletCheck;
+  duplicate: boolean;
+}
+
+/**
+ * Request voiding a check, or one line of it
+ */
+export interface VoidOutletCheckDto {
+  outlet: Outlet;
+  checkNumber: string;
+  /** Line to void; the whole check when absent */
+  lineNumber?: number;
+  reason: string;
+  userId: string;
+}
+
+/**
+ * Request correcting the quantity or price of a check line
+ */
+export interface CorrectOutletCheckLineDto {
+  outlet: Outlet;
+  checkNumber: string;
+  lineNumber: number;
+  quantity: number;
+  unitPrice: number;
+  reason: string;
+  userId: string;
+}
+
+/**
+ * In-house guest a room charge is posted for
+ */
+export interface InHouseGuest {
+  reservationId: string;
+  bookingNumber: string;
+  roomNumber: string;
+  guestName: string;
+  folioId: string;
+}
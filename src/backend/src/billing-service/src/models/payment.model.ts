@@ -89,6 +89,32 @@ export interface Payment extends BaseModel {
    */
   currency: string;
 
+  /**
+   * Business day the payment was taken on; reports and the ledger count it on this day
+   * @type {Date}
+   */
+  businessDate: Date;
+
+  /**
+   * Units of the folio currency one unit of the payment currency bought when the payment
+   * settled the folio; null when not paid through a settlement
+   * @type {Prisma.Decimal | null}
+   */
+  exchangeRate?: Prisma.Decimal | null;
+
+  /**
+   * Amount credited to the folio, in the folio currency
+   * @type {Prisma.Decimal | null}
+   */
+  settledAmount?: Prisma.Decimal | null;
+
+  /**
+   * Realized exchange gain (positive) or loss in the property currency: the payment's value at
+   * the settlement rate against the balance's value at the rates of the days it was charged
+   * @type {Prisma.Decimal | null}
+   */
+  fxGainLoss?: Prisma.Decimal | null;
+
   /**
    * Payment method used for transaction
    * @type {PaymentMethod}
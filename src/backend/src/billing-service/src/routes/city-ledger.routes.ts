@@ -0,0 +1,193 @@
+/**
+ * @fileoverview Express router configuration for city ledger (accounts receivable) endpoints in
+ * the billing service.
+ * @version 1.0.0
+ */
+
+// External imports
+import { Router } from 'express'; // v4.18.0
+import { body, param, query, validationResult } from 'express-validator'; // v7.0.0
+
+// Internal imports
+import { CityLedgerController } from '../controllers/city-ledger.controller';
+import { ArAccountStatus } from '../models/city-ledger.model';
+import { PaymentMethod } from '../models/payment.model';
+import { ErrorCode } from '../../../shared/constants/error-codes';
+import { RequestWithUser } from '../../../shared/interfaces/base-controller.interface';
+
+// Initialize router
+const router = Router();
+const cityLedgerController = new CityLedgerController();
+
+/**
+ * Validation middleware for a new account
+ */
+const validateAccount = [
+  body('accountNumber').isString().trim().notEmpty().withMessage('Account number required'),
+  body('companyName').isString().trim().notEmpty().withMessage('Company name required'),
+  body('contactName').optional().isString().trim().withMessage('Valid contact name required'),
+  body('contactEmail').optional().isEmail().withMessage('Valid contact email required'),
+  body('billingAddress').isString().trim().notEmpty().withMessage('Billing address required'),
+  body('taxIdentifier').optional().isString().trim().withMessage('Valid tax identifier required'),
+  body('currency').matches(/^[A-Z]{3}$/).withMessage('Valid currency code required'),
+  body('creditLimit').isFloat({ min: 0 }).withMessage('Valid credit limit required'),
+  body('paymentTermsDays').isInt({ min: 0, max: 365 }).withMessage('Valid payment terms required')
+];
+
+/**
+ * Validation middleware for an account change
+ */
+const validateAccountUpdate = [
+  param('id').isUUID().withMessage('Valid account ID required'),
+  body('companyName').optional().isString().trim().notEmpty().withMessage('Valid company name required'),
+  body('contactEmail').optional().isEmail().withMessage('Valid contact email required'),
+  body('billingAddress').optional().isString().trim().notEmpty().withMessage('Valid billing address required'),
+  body('creditLimit').optional().isFloat({ min: 0 }).withMessage('Valid credit limit required'),
+  body('paymentTermsDays').optional().isInt({ min: 0, max: 365 }).withMessage('Valid payment terms required'),
+  body('status').optional().isIn(Object.values(ArAccountStatus)).withMessage('Valid account status required')
+];
+
+/**
+ * Validation middleware for a payment from an account
+ */
+const validatePayment = [
+  param('id').isUUID().withMessage('Valid account ID required'),
+  body('amount').isFloat({ gt: 0 }).withMessage('Valid amount required'),
+  body('method').isIn(Object.values(PaymentMethod)).withMessage('Valid payment method required'),
+  body('reference').isString().trim().notEmpty().withMessage('Payment reference required'),
+  body('allocations').optional().isArray({ min: 1 }).withMessage('Allocations must be a non-empty list'),
+  body('allocations.*.invoiceId').isUUID().withMessage('Valid invoice ID required'),
+  body('allocations.*.amount').isFloat({ gt: 0 }).withMessage('Valid allocation amount required')
+];
+
+/**
+ * Middleware to handle validation errors
+ */
+const handleValidationErrors = (req: RequestWithUser, res: any, next: any) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({
+      success: false,
+      error: {
+        code: ErrorCode.VALIDATION_ERROR,
+        message: 'Invalid request parameters',
+        details: errors.array()
+      }
+    });
+  }
+  next();
+};
+
+/**
+ * @route GET /api/v1/city-ledger/accounts
+ * @desc List city ledger accounts, optionally in one status
+ * @access Private
+ */
+router.get(
+  '/accounts',
+  [query('status').optional().isIn(Object.values(ArAccountStatus)).withMessage('Valid account status required')],
+  handleValidationErrors,
+  cityLedgerController.listAccounts
+);
+
+/**
+ * @route POST /api/v1/city-ledger/accounts
+ * @desc Open an account with a credit limit and payment terms
+ * @access Private
+ */
+router.post(
+  '/accounts',
+  validateAccount,
+  handleValidationErrors,
+  cityLedgerController.createAccount
+);
+
+/**
+ * @route GET /api/v1/city-ledger/accounts/:id
+ * @desc Retrieve an account and its balance
+ * @access Private
+ */
+router.get(
+  '/accounts/:id',
+  [param('id').isUUID().withMessage('Valid account ID required')],
+  handleValidationErrors,
+  cityLedgerController.getAccount
+);
+
+/**
+ * @route PATCH /api/v1/city-ledger/accounts/:id
+ * @desc Change an account's details, credit limit, terms or status
+ * @access Private
+ */
+router.patch(
+  '/accounts/:id',
+  validateAccountUpdate,
+  handleValidationErrors,
+  cityLedgerController.updateAccount
+);
+
+/**
+ * @route POST /api/v1/city-ledger/accounts/:id/transfers
+ * @desc Transfer a folio balance to the account as an invoice
+ * @access Private
+ */
+router.post(
+  '/accounts/:id/transfers',
+  [
+    param('id').isUUID().withMessage('Valid account ID required'),
+    body('folioId').isUUID().withMessage('Valid folio ID required')
+  ],
+  handleValidationErrors,
+  cityLedgerController.transferFolio
+);
+
+/**
+ * @route POST /api/v1/city-ledger/accounts/:id/payments
+ * @desc Record a payment and apply it across the account's invoices
+ * @access Private
+ */
+router.post(
+  '/accounts/:id/payments',
+  validatePayment,
+  handleValidationErrors,
+  cityLedgerController.applyPayment
+);
+
+/**
+ * @route GET /api/v1/city-ledger/accounts/:id/statement
+ * @desc Monthly statement of the account
+ * @access Private
+ */
+router.get(
+  '/accounts/:id/statement',
+  [
+    param('id').isUUID().withMessage('Valid account ID required'),
+    query('month').matches(/^\d{4}-\d{2}$/).withMessage('Valid month (YYYY-MM) required')
+  ],
+  handleValidationErrors,
+  cityLedgerController.getStatement
+);
+
+/**
+ * @route GET /api/v1/city-ledger/aging
+ * @desc Aged receivables across accounts
+ * @access Private
+ */
+router.get(
+  '/aging',
+  [query('asOf').optional().isISO8601().withMessage('Valid date required')],
+  handleValidationErrors,
+  cityLedgerController.getAgedReceivables
+);
+
+/**
+ * @route POST /api/v1/city-ledger/dunning
+ * @desc Move unpaid invoices to OVERDUE and COLLECTION now
+ * @access Private
+ */
+router.post(
+  '/dunning',
+  cityLedgerController.runDunning
+);
+
+export default router;
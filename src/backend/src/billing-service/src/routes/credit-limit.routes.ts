@@ -0,0 +1,80 @@
+/**
+ * @fileoverview Express router configuration for credit limit endpoints in the billing service.
+ * @version 1.0.0
+ */
+
+// External imports
+import { Router } from 'express'; // v4.18.0
+import { body, param, validationResult } from 'express-validator'; // v7.0.0
+
+// Internal imports
+import { CreditLimitController } from '../controllers/credit-limit.controller';
+import { ErrorCode } from '../../../shared/constants/error-codes';
+import { RequestWithUser } from '../../../shared/interfaces/base-controller.interface';
+
+/**
+ * Middleware to handle validation errors
+ */
+const handleValidationErrors = (req: RequestWithUser, res: any, next: any) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({
+      success: false,
+      error: {
+        code: ErrorCode.VALIDATION_ERROR,
+        message: 'Invalid request parameters',
+        details: errors.array()
+      }
+    });
+  }
+  next();
+};
+
+/**
+ * Creates credit limit routes
+ * @param controller - Credit limit controller bound to a payment gateway and the notification service
+ * @returns Configured Express router
+ */
+export default function createCreditLimitRoutes(controller: CreditLimitController): Router {
+  const router = Router();
+
+  /**
+   * @route GET /api/v1/credit-limits/over-limit
+   * @desc List the open folios over their credit limit, largest exposure first
+   * @access Private
+   */
+  router.get(
+    '/over-limit',
+    controller.getOverLimitReport
+  );
+
+  /**
+   * @route GET /api/v1/credit-limits/folios/:folioId
+   * @desc Credit position of a folio
+   * @access Private
+   */
+  router.get(
+    '/folios/:folioId',
+    [param('folioId').isUUID().withMessage('Valid folio ID required')],
+    handleValidationErrors,
+    controller.getExposure
+  );
+
+  /**
+   * @route POST /api/v1/credit-limits/folios/:folioId/authorizations
+   * @desc Pre-authorize the guest's card against a folio
+   * @access Private
+   */
+  router.post(
+    '/folios/:folioId/authorizations',
+    [
+      param('folioId').isUUID().withMessage('Valid folio ID required'),
+      body('amount').isFloat({ gt: 0 }).withMessage('Valid authorization amount required'),
+      body('cardToken').isString().trim().notEmpty().withMessage('Card token required')
+    ],
+    handleValidationErrors,
+    controller.authorizeCard
+  );
+
+  return router;
+}
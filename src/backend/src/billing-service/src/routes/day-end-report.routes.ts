@@ -0,0 +1,85 @@
+/**
+ * @fileoverview Express router configuration for day-end report endpoints in the billing service.
+ * @version 1.0.0
+ */
+
+// External imports
+import { Router } from 'express'; // v4.18.0
+import { param, query, validationResult } from 'express-validator'; // v7.0.0
+
+// Internal imports
+import { DayEndReportController } from '../controllers/day-end-report.controller';
+import { DayEndReportType, ReportFormat } from '../models/day-end-report.model';
+import { ErrorCode } from '../../../shared/constants/error-codes';
+import { RequestWithUser } from '../../../shared/interfaces/base-controller.interface';
+
+// Initialize router
+const router = Router();
+const dayEndReportController = new DayEndReportController();
+
+/**
+ * Validation middleware for the business date parameter
+ */
+const validateBusinessDate = [
+  param('businessDate').isISO8601().withMessage('Valid business date required')
+];
+
+/**
+ * Middleware to handle validation errors
+ */
+const handleValidationErrors = (req: RequestWithUser, res: any, next: any) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({
+      success: false,
+      error: {
+        code: ErrorCode.VALIDATION_ERROR,
+        message: 'Invalid request parameters',
+        details: errors.array()
+      }
+    });
+  }
+  next();
+};
+
+/**
+ * @route GET /api/v1/reports/day-end/:businessDate
+ * @desc List the day-end reports stored for a business date
+ * @access Private
+ */
+router.get(
+  '/day-end/:businessDate',
+  validateBusinessDate,
+  handleValidationErrors,
+  dayEndReportController.findByBusinessDate
+);
+
+/**
+ * @route GET /api/v1/reports/day-end/:businessDate/:type
+ * @desc Get a day-end report as JSON, CSV or PDF
+ * @access Private
+ */
+router.get(
+  '/day-end/:businessDate/:type',
+  [
+    ...validateBusinessDate,
+    param('type').isIn(Object.values(DayEndReportType)).withMessage('Valid report type required'),
+    query('format').optional().isIn(Object.values(ReportFormat)).withMessage('Valid report format required')
+  ],
+  handleValidationErrors,
+  dayEndReportController.getReport
+);
+
+/**
+ * @route POST /api/v1/reports/day-end/:businessDate/generate
+ * @desc Generate reports missing from a closed business date's pack
+ * @access Private
+ */
+router.post(
+  '/day-end/:businessDate/generate',
+  validateBusinessDate,
+  handleValidationErrors,
+  dayEndReportController.generate
+);
+
+export default router;
@@ -0,0 +1,64 @@
+/**
+ * @fileoverview Express router configuration for deposit collection endpoints in the billing service.
+ * @version 1.0.0
+ */
+
+// External imports
+import { Router } from 'express'; // v4.18.0
+import { param, validationResult } from 'express-validator'; // v7.0.0
+
+// Internal imports
+import { DepositCollectionController } from '../controllers/deposit-collection.controller';
+import { ErrorCode } from '../../../shared/constants/error-codes';
+import { RequestWithUser } from '../../../shared/interfaces/base-controller.interface';
+
+/**
+ * Middleware to handle validation errors
+ */
+const handleValidationErrors = (req: RequestWithUser, res: any, next: any) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({
+      success: false,
+      error: {
+        code: ErrorCode.VALIDATION_ERROR,
+        message: 'Invalid request parameters',
+        details: errors.array()
+      }
+    });
+  }
+  next();
+};
+
+/**
+ * Creates deposit collection routes
+ * @param controller - Deposit collection controller bound to a payment gateway
+ * @returns Configured Express router
+ */
+export default function createDepositCollectionRoutes(controller: DepositCollectionController): Router {
+  const router = Router();
+
+  /**
+   * @route POST /api/v1/deposits/collect
+   * @desc Collect every deposit installment due by the current business date
+   * @access Private
+   */
+  router.post(
+    '/collect',
+    controller.run
+  );
+
+  /**
+   * @route POST /api/v1/deposits/installments/:id/collect
+   * @desc Collect one outstanding installment now
+   * @access Private
+   */
+  router.post(
+    '/installments/:id/collect',
+    [param('id').isUUID().withMessage('Valid installment ID required')],
+    handleValidationErrors,
+    controller.collectInstallment
+  );
+
+  return router;
+}
@@ -0,0 +1,105 @@
+/**
+ * @fileoverview Express router configuration for exchange-rate table and currency conversion
+ * endpoints in the billing service.
+ * @version 1.0.0
+ */
+
+// External imports
+import { Router } from 'express'; // v4.18.0
+import { body, query, validationResult } from 'express-validator'; // v7.0.0
+
+// Internal imports
+import { ExchangeRateController } from '../controllers/exchange-rate.controller';
+import { ErrorCode } from '../../../shared/constants/error-codes';
+import { RequestWithUser } from '../../../shared/interfaces/base-controller.interface';
+
+// Initialize router
+const router = Router();
+const exchangeRateController = new ExchangeRateController();
+
+/**
+ * Validation middleware for a day's table
+ */
+const validateTable = [
+  body('effectiveDate').isISO8601().withMessage('Valid effective date required'),
+  body('rates').isObject().withMessage('Rates by currency required'),
+  body('rates.*').isFloat({ gt: 0 }).withMessage('Rates must be greater than zero')
+];
+
+/**
+ * Validation middleware for a conversion
+ */
+const validateConversion = [
+  query('amount').isFloat().withMessage('Valid amount required'),
+  query('from').matches(/^[A-Z]{3}$/).withMessage('Valid currency code required'),
+  query('to').matches(/^[A-Z]{3}$/).withMessage('Valid currency code required'),
+  query('date').optional().isISO8601().withMessage('Valid date required')
+];
+
+/**
+ * Middleware to handle validation errors
+ */
+const handleValidationErrors = (req: RequestWithUser, res: any, next: any) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({
+      success: false,
+      error: {
+        code: ErrorCode.VALIDATION_ERROR,
+        message: 'Invalid request parameters',
+        details: errors.array()
+      }
+    });
+  }
+  next();
+};
+
+/**
+ * @route GET /api/v1/exchange-rates
+ * @desc List the rates in force on a date, the business date by default
+ * @access Private
+ */
+router.get(
+  '/',
+  [query('date').optional().isISO8601().withMessage('Valid date required')],
+  handleValidationErrors,
+  exchangeRateController.getTable
+);
+
+/**
+ * @route POST /api/v1/exchange-rates
+ * @desc Load the table of one day, replacing rates loaded for that day
+ * @access Private
+ */
+router.post(
+  '/',
+  validateTable,
+  handleValidationErrors,
+  exchangeRateController.loadTable
+);
+
+/**
+ * @route POST /api/v1/exchange-rates/import
+ * @desc Load a rate file of date,currency,rate lines
+ * @access Private
+ */
+router.post(
+  '/import',
+  [body('content').isString().notEmpty().withMessage('Rate file content required')],
+  handleValidationErrors,
+  exchangeRateController.importRates
+);
+
+/**
+ * @route GET /api/v1/exchange-rates/convert
+ * @desc Convert an amount between two currencies
+ * @access Private
+ */
+router.get(
+  '/convert',
+  validateConversion,
+  handleValidationErrors,
+  exchangeRateController.convert
+);
+
+export default router;
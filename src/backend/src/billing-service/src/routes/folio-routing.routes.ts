@@ -0,0 +1,123 @@
+/**
+ * @fileoverview Express router configuration for folio routing instruction and charge transfer
+ * endpoints in the billing service.
+ * @version 1.0.0
+ */
+
+// External imports
+import { Router } from 'express'; // v4.18.0
+import { body, param, query, validationResult } from 'express-validator'; // v7.0.0
+
+// Internal imports
+import { FolioRoutingController } from '../controllers/folio-routing.controller';
+import { ErrorCode } from '../../../shared/constants/error-codes';
+import { RequestWithUser } from '../../../shared/interfaces/base-controller.interface';
+
+// Initialize router
+const router = Router();
+const folioRoutingController = new FolioRoutingController();
+
+/**
+ * Validation middleware for a new routing instruction
+ */
+const validateInstruction = [
+  body('reservationId').isUUID().withMessage('Valid reservation ID required'),
+  body('targetFolioId').isUUID().withMessage('Valid target folio ID required'),
+  body('chargeCategories').optional().isArray().withMessage('Charge categories must be a list'),
+  body('chargeCategories.*').isString().notEmpty().withMessage('Valid charge category required'),
+  body('departments').optional().isArray().withMessage('Departments must be a list'),
+  body('departments.*').isString().notEmpty().withMessage('Valid department required'),
+  body('priority').optional().isInt({ min: 0 }).withMessage('Valid priority required'),
+  body('description').optional().isString().trim().isLength({ max: 200 }).withMessage('Description too long')
+];
+
+/**
+ * Validation middleware for a charge transfer
+ */
+const validateTransfer = [
+  param('id').isUUID().withMessage('Valid folio ID required'),
+  body('toFolioId').isUUID().withMessage('Valid target folio ID required'),
+  body('chargeIds').isArray({ min: 1 }).withMessage('At least one charge required'),
+  body('chargeIds.*').isUUID().withMessage('Valid charge ID required'),
+  body('reason').isString().trim().notEmpty().withMessage('Transfer reason required')
+];
+
+/**
+ * Middleware to handle validation errors
+ */
+const handleValidationErrors = (req: RequestWithUser, res: any, next: any) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({
+      success: false,
+      error: {
+        code: ErrorCode.VALIDATION_ERROR,
+        message: 'Invalid request parameters',
+        details: errors.array()
+      }
+    });
+  }
+  next();
+};
+
+/**
+ * @route GET /api/v1/folios/routing
+ * @desc List a booking's routing instructions in evaluation order
+ * @access Private
+ */
+router.get(
+  '/routing',
+  [query('reservationId').isUUID().withMessage('Valid reservation ID required')],
+  handleValidationErrors,
+  folioRoutingController.listInstructions
+);
+
+/**
+ * @route POST /api/v1/folios/routing
+ * @desc Route a booking's charges of some categories or departments to another folio
+ * @access Private
+ */
+router.post(
+  '/routing',
+  validateInstruction,
+  handleValidationErrors,
+  folioRoutingController.createInstruction
+);
+
+/**
+ * @route DELETE /api/v1/folios/routing/:instructionId
+ * @desc Stop routing charges with an instruction
+ * @access Private
+ */
+router.delete(
+  '/routing/:instructionId',
+  [param('instructionId').isUUID().withMessage('Valid instruction ID required')],
+  handleValidationErrors,
+  folioRoutingController.removeInstruction
+);
+
+/**
+ * @route GET /api/v1/folios/:id/transfers
+ * @desc Audit trail of charges moved onto or off the folio
+ * @access Private
+ */
+router.get(
+  '/:id/transfers',
+  [param('id').isUUID().withMessage('Valid folio ID required')],
+  handleValidationErrors,
+  folioRoutingController.listTransfers
+);
+
+/**
+ * @route POST /api/v1/folios/:id/transfers
+ * @desc Move charges from the folio to another open folio
+ * @access Private
+ */
+router.post(
+  '/:id/transfers',
+  validateTransfer,
+  handleValidationErrors,
+  folioRoutingController.transferCharges
+);
+
+export default router;
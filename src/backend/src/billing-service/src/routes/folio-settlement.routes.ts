@@ -0,0 +1,76 @@
+/**
+ * @fileoverview Express router configuration for folio settlement endpoints in the billing service.
+ * @version 1.0.0
+ */
+
+// External imports
+import { Router } from 'express'; // v4.18.0
+import { body, param, query, validationResult } from 'express-validator'; // v7.0.0
+
+// Internal imports
+import { FolioSettlementController } from '../controllers/folio-settlement.controller';
+import { PaymentMethod } from '../models/payment.model';
+import { ErrorCode } from '../../../shared/constants/error-codes';
+import { RequestWithUser } from '../../../shared/interfaces/base-controller.interface';
+
+/**
+ * Middleware to handle validation errors
+ */
+const handleValidationErrors = (req: RequestWithUser, res: any, next: any) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({
+      success: false,
+      error: {
+        code: ErrorCode.VALIDATION_ERROR,
+        message: 'Invalid request parameters',
+        details: errors.array()
+      }
+    });
+  }
+  next();
+};
+
+/**
+ * Creates folio settlement routes
+ * @param controller - Folio settlement controller bound to a payment gateway
+ * @returns Configured Express router
+ */
+export default function createFolioSettlementRoutes(controller: FolioSettlementController): Router {
+  const router = Router();
+
+  /**
+   * @route GET /api/v1/folios/:id/settlement
+   * @desc Amount due to settle the folio in a currency
+   * @access Private
+   */
+  router.get(
+    '/:id/settlement',
+    [
+      param('id').isUUID().withMessage('Valid folio ID required'),
+      query('currency').matches(/^[A-Z]{3}$/).withMessage('Valid currency code required')
+    ],
+    handleValidationErrors,
+    controller.quote
+  );
+
+  /**
+   * @route POST /api/v1/folios/:id/settlement
+   * @desc Pay the folio in any currency with a loaded exchange rate
+   * @access Private
+   */
+  router.post(
+    '/:id/settlement',
+    [
+      param('id').isUUID().withMessage('Valid folio ID required'),
+      body('currency').matches(/^[A-Z]{3}$/).withMessage('Valid currency code required'),
+      body('amount').optional().isFloat({ gt: 0 }).withMessage('Valid amount required'),
+      body('paymentMethod').isIn(Object.values(PaymentMethod)).withMessage('Valid payment method required'),
+      body('cardToken').optional().isString().notEmpty().withMessage('Valid card token required')
+    ],
+    handleValidationErrors,
+    controller.settle
+  );
+
+  return router;
+}
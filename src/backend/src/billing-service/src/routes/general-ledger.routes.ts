@@ -0,0 +1,238 @@
+/**
+ * @fileoverview Express router configuration for general ledger endpoints in the billing service.
+ * @version 1.0.0
+ */
+
+// External imports
+import { Router } from 'express'; // v4.18.0
+import { body, param, query, validationResult } from 'express-validator'; // v7.0.0
+
+// Internal imports
+import { GeneralLedgerController } from '../controllers/general-ledger.controller';
+import {
+  ControlAccount,
+  GlAccountType,
+  GlMappingSource,
+  JournalExportFormat
+} from '../models/general-ledger.model';
+import { PaymentMethod } from '../models/payment.model';
+import { ErrorCode } from '../../../shared/constants/error-codes';
+import { RequestWithUser } from '../../../shared/interfaces/base-controller.interface';
+
+// Initialize router
+const router = Router();
+const generalLedgerController = new GeneralLedgerController();
+
+/**
+ * Accounting period in YYYY-MM format
+ */
+const PERIOD_FORMAT = /^\d{4}-(0[1-9]|1[0-2])$/;
+
+/**
+ * Validation middleware for a new account
+ */
+const validateAccount = [
+  body('code').isString().trim().notEmpty().withMessage('Account code required'),
+  body('name').isString().trim().notEmpty().withMessage('Account name required'),
+  body('type').isIn(Object.values(GlAccountType)).withMessage('Valid account type required'),
+  body('controlAccount').optional().isIn(Object.values(ControlAccount)).withMessage('Valid control account required')
+];
+
+/**
+ * Validation middleware for an account change
+ */
+const validateAccountUpdate = [
+  param('id').isUUID().withMessage('Valid account ID required'),
+  body('name').optional().isString().trim().notEmpty().withMessage('Valid account name required'),
+  body('controlAccount').optional({ values: 'null' }).isIn(Object.values(ControlAccount)).withMessage('Valid control account required'),
+  body('isActive').optional().isBoolean().withMessage('isActive must be a boolean')
+];
+
+/**
+ * Validation middleware for a new mapping rule
+ */
+const validateMapping = [
+  body('source').isIn(Object.values(GlMappingSource)).withMessage('Valid mapping source required'),
+  body('category').optional().isString().trim().notEmpty().withMessage('Valid charge category required'),
+  body('department').optional().isString().trim().notEmpty().withMessage('Valid department required'),
+  body('paymentMethod').optional().isIn(Object.values(PaymentMethod)).withMessage('Valid payment method required'),
+  body('accountCode').isString().trim().notEmpty().withMessage('Account code required')
+];
+
+/**
+ * Middleware to handle validation errors
+ */
+const handleValidationErrors = (req: RequestWithUser, res: any, next: any) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({
+      success: false,
+      error: {
+        code: ErrorCode.VALIDATION_ERROR,
+        message: 'Invalid request parameters',
+        details: errors.array()
+      }
+    });
+  }
+  next();
+};
+
+/**
+ * @route GET /api/v1/general-ledger/accounts
+ * @desc List the chart of accounts
+ * @access Private
+ */
+router.get(
+  '/accounts',
+  generalLedgerController.listAccounts
+);
+
+/**
+ * @route POST /api/v1/general-ledger/accounts
+ * @desc Add an account to the chart of accounts
+ * @access Private
+ */
+router.post(
+  '/accounts',
+  validateAccount,
+  handleValidationErrors,
+  generalLedgerController.createAccount
+);
+
+/**
+ * @route PATCH /api/v1/general-ledger/accounts/:id
+ * @desc Rename an account, change its role or take it out of use
+ * @access Private
+ */
+router.patch(
+  '/accounts/:id',
+  validateAccountUpdate,
+  handleValidationErrors,
+  generalLedgerController.updateAccount
+);
+
+/**
+ * @route GET /api/v1/general-ledger/mappings
+ * @desc List mapping rules, optionally for one source
+ * @access Private
+ */
+router.get(
+  '/mappings',
+  [query('source').optional().isIn(Object.values(GlMappingSource)).withMessage('Valid mapping source required')],
+  handleValidationErrors,
+  generalLedgerController.listMappings
+);
+
+/**
+ * @route POST /api/v1/general-ledger/mappings
+ * @desc Map a charge category and department, or a payment method, to an account
+ * @access Private
+ */
+router.post(
+  '/mappings',
+  validateMapping,
+  handleValidationErrors,
+  generalLedgerController.createMapping
+);
+
+/**
+ * @route DELETE /api/v1/general-ledger/mappings/:mappingId
+ * @desc Remove a mapping rule
+ * @access Private
+ */
+router.delete(
+  '/mappings/:mappingId',
+  [param('mappingId').isUUID().withMessage('Valid mapping ID required')],
+  handleValidationErrors,
+  generalLedgerController.removeMapping
+);
+
+/**
+ * @route GET /api/v1/general-ledger/batches
+ * @desc List journal batches between two business dates
+ * @access Private
+ */
+router.get(
+  '/batches',
+  [
+    query('from').optional().isISO8601().withMessage('Valid from date required'),
+    query('to').optional().isISO8601().withMessage('Valid to date required')
+  ],
+  handleValidationErrors,
+  generalLedgerController.listBatches
+);
+
+/**
+ * @route POST /api/v1/general-ledger/batches
+ * @desc Post a closed business date to the ledger
+ * @access Private
+ */
+router.post(
+  '/batches',
+  [body('businessDate').isISO8601().withMessage('Valid business date required')],
+  handleValidationErrors,
+  generalLedgerController.postBusinessDate
+);
+
+/**
+ * @route GET /api/v1/general-ledger/batches/:id
+ * @desc Retrieve a journal batch with its entries
+ * @access Private
+ */
+router.get(
+  '/batches/:id',
+  [param('id').isUUID().withMessage('Valid batch ID required')],
+  handleValidationErrors,
+  generalLedgerController.getBatch
+);
+
+/**
+ * @route GET /api/v1/general-ledger/batches/:id/export
+ * @desc Download a journal batch as CSV or accounting-import JSON
+ * @access Private
+ */
+router.get(
+  '/batches/:id/export',
+  [
+    param('id').isUUID().withMessage('Valid batch ID required'),
+    query('format').optional().isIn(Object.values(JournalExportFormat)).withMessage('Valid export format required')
+  ],
+  handleValidationErrors,
+  generalLedgerController.exportBatch
+);
+
+/**
+ * @route GET /api/v1/general-ledger/trial-balance
+ * @desc Trial balance of a period
+ * @access Private
+ */
+router.get(
+  '/trial-balance',
+  [query('period').matches(PERIOD_FORMAT).withMessage('Valid period (YYYY-MM) required')],
+  handleValidationErrors,
+  generalLedgerController.getTrialBalance
+);
+
+/**
+ * @route GET /api/v1/general-ledger/periods
+ * @desc List locked accounting periods
+ * @access Private
+ */
+router.get(
+  '/periods',
+  generalLedgerController.listPeriods
+);
+
+/**
+ * @route POST /api/v1/general-ledger/periods/:period/lock
+ * @desc Lock a period once its trial balance nets to zero
+ * @access Private
+ */
+router.post(
+  '/periods/:period/lock',
+  [param('period').matches(PERIOD_FORMAT).withMessage('Valid period (YYYY-MM) required')],
+  handleValidationErrors,
+  generalLedgerController.lockPeriod
+);
+
+export default router;
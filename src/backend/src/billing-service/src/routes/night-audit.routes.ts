@@ -0,0 +1,81 @@
+/**
+ * @fileoverview Express router configuration for night audit endpoints in the billing service.
+ * @version 1.0.0
+ */
+
+// External imports
+import { Router } from 'express'; // v4.18.0
+import { param, query, validationResult } from 'express-validator'; // v7.0.0
+
+// Internal imports
+import { NightAuditController } from '../controllers/night-audit.controller';
+import { ErrorCode } from '../../../shared/constants/error-codes';
+import { RequestWithUser } from '../../../shared/interfaces/base-controller.interface';
+
+// Initialize router
+const router = Router();
+const nightAuditController = new NightAuditController();
+
+/**
+ * Middleware to handle validation errors
+ */
+const handleValidationErrors = (req: RequestWithUser, res: any, next: any) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({
+      success: false,
+      error: {
+        code: ErrorCode.VALIDATION_ERROR,
+        message: 'Invalid request parameters',
+        details: errors.array()
+      }
+    });
+  }
+  next();
+};
+
+/**
+ * @route GET /api/v1/night-audit/business-date
+ * @desc Get the current business date
+ * @access Private
+ */
+router.get(
+  '/business-date',
+  nightAuditController.getBusinessDate
+);
+
+/**
+ * @route POST /api/v1/night-audit/run
+ * @desc Run the night audit and roll the business date
+ * @access Private
+ */
+router.post(
+  '/run',
+  nightAuditController.run
+);
+
+/**
+ * @route GET /api/v1/night-audit/runs
+ * @desc List recent night audit runs
+ * @access Private
+ */
+router.get(
+  '/runs',
+  [query('limit').optional().isInt({ min: 1, max: 365 }).withMessage('Valid limit required')],
+  handleValidationErrors,
+  nightAuditController.findAll
+);
+
+/**
+ * @route GET /api/v1/night-audit/runs/:businessDate
+ * @desc Get the night audit run for a business date
+ * @access Private
+ */
+router.get(
+  '/runs/:businessDate',
+  [param('businessDate').isISO8601().withMessage('Valid business date required')],
+  handleValidationErrors,
+  nightAuditController.findByBusinessDate
+);
+
+export default router;
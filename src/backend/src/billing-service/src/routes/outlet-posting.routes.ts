@@ -0,0 +1,144 @@
+/**
+ * @fileoverview Express router configuration for outlet posting endpoints in the billing service.
+ * @version 1.0.0
+ */
+
+// External imports
+import { Router } from 'express'; // v4.18.0
+import { body, param, query, validationResult } from 'express-validator'; // v7.0.0
+
+// Internal imports
+import { OutletPostingController } from '../controllers/outlet-posting.controller';
+import { Outlet } from '../models/outlet-posting.model';
+import { ErrorCode } from '../../../shared/constants/error-codes';
+import { RequestWithUser } from '../../../shared/interfaces/base-controller.interface';
+
+// Initialize router
+const router = Router();
+const outletPostingController = new OutletPostingController();
+
+/**
+ * Validation middleware for the outlet and check number in the path
+ */
+const validateCheckPath = [
+  param('outlet').isIn(Object.values(Outlet)).withMessage('Valid outlet required'),
+  param('checkNumber').isString().trim().notEmpty().withMessage('Check number required')
+];
+
+/**
+ * Validation middleware for a check charged to a room
+ */
+const validateCheck = [
+  param('outlet').isIn(Object.values(Outlet)).withMessage('Valid outlet required'),
+  body('checkNumber').isString().trim().notEmpty().withMessage('Check number required'),
+  body('roomNumber').isString().trim().notEmpty().withMessage('Room number required'),
+  body('guestName').isString().trim().notEmpty().withMessage('Guest name required'),
+  body('lines').isArray({ min: 1 }).withMessage('At least one check line required'),
+  body('lines.*.description').isString().trim().notEmpty().withMessage('Line description required'),
+  body('lines.*.quantity').isInt({ min: 1 }).withMessage('Line quantity must be a positive integer').toInt(),
+  body('lines.*.unitPrice').isFloat({ min: 0 }).withMessage('Line unit price must be zero or more').toFloat(),
+  body('lines.*.category').optional().isString().trim().notEmpty().withMessage('Valid charge category required')
+];
+
+/**
+ * Validation middleware for a void
+ */
+const validateVoid = [
+  ...validateCheckPath,
+  body('lineNumber').optional().isInt({ min: 1 }).withMessage('Valid line number required').toInt(),
+  body('reason').isString().trim().notEmpty().withMessage('Reason required')
+];
+
+/**
+ * Validation middleware for a line correction
+ */
+const validateCorrection = [
+  ...validateCheckPath,
+  body('lineNumber').isInt({ min: 1 }).withMessage('Valid line number required').toInt(),
+  body('quantity').isInt({ min: 1 }).withMessage('Quantity must be a positive integer').toInt(),
+  body('unitPrice').isFloat({ min: 0 }).withMessage('Unit price must be zero or more').toFloat(),
+  body('reason').isString().trim().notEmpty().withMessage('Reason required')
+];
+
+/**
+ * Middleware to handle validation errors
+ */
+const handleValidationErrors = (req: RequestWithUser, res: any, next: any) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({
+      success: false,
+      error: {
+        code: ErrorCode.VALIDATION_ERROR,
+        message: 'Invalid request parameters',
+        details: errors.array()
+      }
+    });
+  }
+  next();
+};
+
+/**
+ * @route GET /api/v1/outlets/guests
+ * @desc Find the in-house guest of a room by last name or full name
+ * @access Private
+ */
+router.get(
+  '/guests',
+  [
+    query('roomNumber').isString().trim().notEmpty().withMessage('Room number required'),
+    query('guestName').isString().trim().notEmpty().withMessage('Guest name required')
+  ],
+  handleValidationErrors,
+  outletPostingController.findGuest
+);
+
+/**
+ * @route POST /api/v1/outlets/:outlet/checks
+ * @desc Charge a check to a guest's room; resending a check number returns the posted check
+ * @access Private
+ */
+router.post(
+  '/:outlet/checks',
+  validateCheck,
+  handleValidationErrors,
+  outletPostingController.postCheck
+);
+
+/**
+ * @route GET /api/v1/outlets/:outlet/checks/:checkNumber
+ * @desc Retrieve a posted check
+ * @access Private
+ */
+router.get(
+  '/:outlet/checks/:checkNumber',
+  validateCheckPath,
+  handleValidationErrors,
+  outletPostingController.getCheck
+);
+
+/**
+ * @route POST /api/v1/outlets/:outlet/checks/:checkNumber/void
+ * @desc Void a check, or one line of it, with a reason
+ * @access Private
+ */
+router.post(
+  '/:outlet/checks/:checkNumber/void',
+  validateVoid,
+  handleValidationErrors,
+  outletPostingController.voidCheck
+);
+
+/**
+ * @route POST /api/v1/outlets/:outlet/checks/:checkNumber/corrections
+ * @desc Correct the quantity or unit price of a check line with a reason
+ * @access Private
+ */
+router.post(
+  '/:outlet/checks/:checkNumber/corrections',
+  validateCorrection,
+  handleValidationErrors,
+  outletPostingController.correctLine
+);
+
+export default router;
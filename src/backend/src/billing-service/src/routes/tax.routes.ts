@@ -0,0 +1,104 @@
+/**
+ * @fileoverview Express router configuration for tax rule and tax calculation endpoints in the
+ * billing service.
+ * @version 1.0.0
+ */
+
+// External imports
+import { Router } from 'express'; // v4.18.0
+import { body, query, validationResult } from 'express-validator'; // v7.0.0
+
+// Internal imports
+import { TaxController } from '../controllers/tax.controller';
+import { TaxBasis } from '../../../shared/models/tax.model';
+import { ErrorCode } from '../../../shared/constants/error-codes';
+import { RequestWithUser } from '../../../shared/interfaces/base-controller.interface';
+
+// Initialize router
+const router = Router();
+const taxController = new TaxController();
+
+/**
+ * Validation middleware for a new tax rule
+ */
+const validateTaxRule = [
+  body('code').isString().trim().notEmpty().withMessage('Tax code required'),
+  body('name').isString().trim().notEmpty().withMessage('Tax name required'),
+  body('jurisdiction').isString().trim().notEmpty().withMessage('Jurisdiction required'),
+  body('chargeCategories').isArray({ min: 1 }).withMessage('At least one charge category required'),
+  body('chargeCategories.*').isString().notEmpty().withMessage('Valid charge category required'),
+  body('basis').isIn(Object.values(TaxBasis)).withMessage('Valid tax basis required'),
+  body('rate').isFloat({ min: 0 }).withMessage('Valid tax rate required'),
+  body('inclusive').optional().isBoolean().withMessage('Inclusive must be a boolean'),
+  body('exemptAfterNights').optional({ nullable: true }).isInt({ min: 1 }).withMessage('Valid exemption night required'),
+  body('effectiveFrom').isISO8601().withMessage('Valid effective date required'),
+  body('effectiveTo').optional({ nullable: true }).isISO8601().withMessage('Valid end date required')
+];
+
+/**
+ * Validation middleware for a tax calculation
+ */
+const validateCalculation = [
+  body('charges').isArray({ min: 1 }).withMessage('At least one charge required'),
+  body('charges.*.category').isString().notEmpty().withMessage('Valid charge category required'),
+  body('charges.*.amount').isFloat({ min: 0 }).withMessage('Valid amount required'),
+  body('charges.*.date').isISO8601().withMessage('Valid charge date required'),
+  body('charges.*.persons').optional().isInt({ min: 1 }).withMessage('Valid number of persons required'),
+  body('charges.*.stayNight').optional().isInt({ min: 1 }).withMessage('Valid stay night required')
+];
+
+/**
+ * Middleware to handle validation errors
+ */
+const handleValidationErrors = (req: RequestWithUser, res: any, next: any) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({
+      success: false,
+      error: {
+        code: ErrorCode.VALIDATION_ERROR,
+        message: 'Invalid request parameters',
+        details: errors.array()
+      }
+    });
+  }
+  next();
+};
+
+/**
+ * @route GET /api/v1/taxes/rules
+ * @desc List tax rules, optionally in force on a date, for a jurisdiction or charge category
+ * @access Private
+ */
+router.get(
+  '/rules',
+  [query('date').optional().isISO8601().withMessage('Valid date required')],
+  handleValidationErrors,
+  taxController.listRules
+);
+
+/**
+ * @route POST /api/v1/taxes/rules
+ * @desc Add a tax rule or a new version of one
+ * @access Private
+ */
+router.post(
+  '/rules',
+  validateTaxRule,
+  handleValidationErrors,
+  taxController.createRule
+);
+
+/**
+ * @route POST /api/v1/taxes/calculate
+ * @desc Tax charges with the rules in force on their dates
+ * @access Private
+ */
+router.post(
+  '/calculate',
+  validateCalculation,
+  handleValidationErrors,
+  taxController.calculate
+);
+
+export default router;
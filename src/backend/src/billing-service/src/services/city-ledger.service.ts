@@ -0,0 +1,668 @@
+/**
+ * @fileoverview City ledger service managing accounts receivable for companies billed directly.
+ * Folio balances are transferred to an account at checkout as invoices due on the account's
+ * terms; payments are applied across invoices, open invoices are aged and stated monthly, and a
+ * daily dunning run moves unpaid invoices to OVERDUE and then to COLLECTION.
+ * @version 1.0.0
+ */
+
+// External imports
+import { Injectable, Logger } from '@nestjs/common'; // v10.0.0
+import { Prisma, PrismaClient } from '@prisma/client'; // v5.0.0
+import { addDays, endOfMonth, format, startOfDay, startOfMonth, subDays } from 'date-fns'; // v2.30.0
+import { randomUUID } from 'crypto';
+
+// Internal imports
+import { prisma as billingPrisma } from '../config/database';
+import { ChargeStatus, Folio, FolioCharge, FolioStatus } from '../models/folio.model';
+import { Invoice, InvoiceStatus } from '../models/invoice.model';
+import { PaymentGateway, PaymentMethod, PaymentStatus } from '../models/payment.model';
+import { TaxLine, summarizeTaxLines } from '../../../shared/models/tax.model';
+import { PROPERTY_CURRENCY, roundToCurrency } from '../models/exchange-rate.model';
+import {
+  AgedReceivablesLine,
+  AgedReceivablesReport,
+  ApplyArPaymentDto,
+  ArAccount,
+  ArAccountStatus,
+  ArPayment,
+  ArPaymentAllocation,
+  ArStatement,
+  ArStatementLine,
+  AgingBuckets,
+  COLLECTION_AFTER_DAYS,
+  CreateArAccountDto,
+  DunningRun,
+  OPEN_AR_INVOICE_STATUSES,
+  TransferFolioToAccountDto,
+  UpdateArAccountDto,
+  agingBucket,
+  createEmptyAgingBuckets
+} from '../models/city-ledger.model';
+import { ExchangeRateService } from './exchange-rate.service';
+import { BusinessDateService } from '../../../shared/services/business-date.service';
+import { ErrorCode, createErrorDetails } from '../../../shared/constants/error-codes';
+
+/**
+ * User recorded on changes made by the scheduled dunning run
+ */
+export const CITY_LEDGER_USER = 'CITY_LEDGER';
+
+/**
+ * Charge statuses billed on the invoice
+ */
+const BILLABLE_CHARGE_STATUSES = [ChargeStatus.POSTED, ChargeStatus.ADJUSTED];
+
+/**
+ * Invoice statuses that never counted towards an account balance
+ */
+const UNBILLED_INVOICE_STATUSES = [InvoiceStatus.DRAFT, InvoiceStatus.CANCELLED, InvoiceStatus.VOID];
+
+/**
+ * Service managing the city ledger
+ */
+@Injectable()
+export class CityLedgerService {
+  private readonly logger = new Logger(CityLedgerService.name);
+  private scheduledRun: NodeJS.Timeout | null = null;
+
+  constructor(
+    private readonly prisma: PrismaClient = billingPrisma,
+    private readonly businessDates: BusinessDateService = new BusinessDateService(prisma),
+    private readonly exchangeRates: ExchangeRateService = new ExchangeRateService(prisma, businessDates)
+  ) {}
+
+  /**
+   * Lists accounts by company name
+   * @param status - Only accounts in this status
+   */
+  async listAccounts(status?: ArAccountStatus): Promise<ArAccount[]> {
+    return this.prisma.arAccount.findMany({
+      where: status ? { status } : {},
+      orderBy: { companyName: 'asc' }
+    }) as Promise<ArAccount[]>;
+  }
+
+  /**
+   * Retrieves an account
+   * @param id - Account ID
+   * @throws ErrorCode.RESOURCE_NOT_FOUND if the account does not exist
+   */
+  async getAccount(id: string): Promise<ArAccount> {
+    const account = await this.prisma.arAccount.findUnique({ where: { id } }) as ArAccount | null;
+
+    if (!account) {
+      throw createErrorDetails(ErrorCode.RESOURCE_NOT_FOUND, {
+        message: 'City ledger account not found',
+        arAccountId: id
+      });
+    }
+
+    return account;
+  }
+
+  /**
+   * Opens an account for a company
+   * @param data - Company details, credit limit and payment terms
+   * @throws ErrorCode.RESOURCE_CONFLICT if the account number is taken
+   */
+  async createAccount(data: CreateArAccountDto): Promise<ArAccount> {
+    const existing = await this.prisma.arAccount.findFirst({ where: { accountNumber: data.accountNumber } });
+    if (existing) {
+      throw createErrorDetails(ErrorCode.RESOURCE_CONFLICT, {
+        message: `Account number ${data.accountNumber} is already in use`,
+        accountNumber: data.accountNumber
+      });
+    }
+
+    const account = await this.prisma.arAccount.create({
+      data: {
+        accountNumber: data.accountNumber,
+        companyName: data.companyName,
+        contactName: data.contactName || null,
+        contactEmail: data.contactEmail || null,
+        billingAddress: data.billingAddress,
+        taxIdentifier: data.taxIdentifier || null,
+        currency: data.currency,
+        creditLimit: new Prisma.Decimal(data.creditLimit),
+        paymentTermsDays: data.paymentTermsDays,
+        balance: new Prisma.Decimal(0),
+        status: ArAccountStatus.ACTIVE
+      }
+    }) as ArAccount;
+
+    this.logger.log(`City ledger account ${account.accountNumber} opened by ${data.userId}`);
+    return account;
+  }
+
+  /**
+   * Changes an account's details, terms or status. New terms apply to invoices issued afterwards.
+   * @param id - Account ID
+   * @param data - Fields to change
+   * @throws ErrorCode.RESOURCE_NOT_FOUND if the account does not exist
+   * @throws ErrorCode.BUSINESS_RULE_VIOLATION if an account with a balance is closed
+   */
+  async updateAccount(id: string, data: UpdateArAccountDto): Promise<ArAccount> {
+    const account = await this.getAccount(id);
+    const { userId, creditLimit, ...changes } = data;
+
+    if (changes.status === ArAccountStatus.CLOSED && !new Prisma.Decimal(account.balance).isZero()) {
+      throw createErrorDetails(ErrorCode.BUSINESS_RULE_VIOLATION, {
+        message: 'An account with a balance cannot be closed',
+        arAccountId: id,
+        balance: Number(account.balance)
+      });
+    }
+
+    const updated = await this.prisma.arAccount.update({
+      where: { id },
+      data: {
+        ...changes,
+        ...(creditLimit !== undefined && { creditLimit: new Prisma.Decimal(creditLimit) }),
+        updatedAt: new Date()
+      }
+    }) as ArAccount;
+
+    this.logger.log(`City ledger account ${account.accountNumber} updated by ${userId}`);
+    return updated;
+  }
+
+  /**
+   * Transfers a folio balance to an account at checkout. The folio is closed with a direct
+   * billing payment and the account is issued an invoice for the folio's charges, with the
+   * balance transferred due on the account's payment terms.
+   * @param data - Folio, account and the user checking out
+   * @returns Invoice issued to the account
+   * @throws ErrorCode.RESOURCE_NOT_FOUND if the folio or account does not exist
+   * @throws ErrorCode.BUSINESS_RULE_VIOLATION if the account is not active, the folio is not
+   * open or has nothing to transfer, the currencies differ or the credit limit would be exceeded
+   * @throws ErrorCode.RESOURCE_CONFLICT if the folio or account balance changed meanwhile
+   */
+  async transferFolioBalance(data: TransferFolioToAccountDto): Promise<Invoice> {
+    const account = await this.getAccount(data.arAccountId);
+    if (account.status !== ArAccountStatus.ACTIVE) {
+      throw createErrorDetails(ErrorCode.BUSINESS_RULE_VIOLATION, {
+        message: `City ledger account is ${account.status.toLowerCase()}`,
+        arAccountId: account.id
+      });
+    }
+
+    const folio = await this.prisma.folio.findUnique({
+      where: { id: data.folioId },
+      include: { charges: true }
+    }) as Folio | null;
+    if (!folio) {
+      throw createErrorDetails(ErrorCode.RESOURCE_NOT_FOUND, {
+        message: 'Folio not found',
+        folioId: data.folioId
+      });
+    }
+
+    const balance = new Prisma.Decimal(folio.balance);
+    if (folio.status !== FolioStatus.OPEN || balance.lte(0)) {
+      throw createErrorDetails(ErrorCode.BUSINESS_RULE_VIOLATION, {
+        message: folio.status !== FolioStatus.OPEN ? `Folio is ${folio.status.toLowerCase()}` : 'Folio has no balance to transfer',
+        folioId: folio.id
+      });
+    }
+
+    if (folio.currency !== account.currency) {
+      throw createErrorDetails(ErrorCode.BUSINESS_RULE_VIOLATION, {
+        message: `Cannot bill a ${folio.currency} folio to a ${account.currency} account`,
+        folioId: folio.id,
+        arAccountId: account.id
+      });
+    }
+
+    if (new Prisma.Decimal(account.balance).plus(balance).gt(account.creditLimit)) {
+      throw createErrorDetails(ErrorCode.BUSINESS_RULE_VIOLATION, {
+        message: `Transfer of ${balance} would take account ${account.accountNumber} over its credit limit`,
+        arAccountId: account.id,
+        balance: Number(account.balance),
+        creditLimit: Number(account.creditLimit)
+      });
+    }
+
+    const businessDate = await this.businessDates.getBusinessDate();
+    const exchangeRate = await this.exchangeRates.getRate(account.currency, PROPERTY_CURRENCY, businessDate);
+    const { subtotal, taxAmount, taxLines } = this.totalCharges(folio.charges || []);
+
+    const invoice = await this.prisma.$transaction(async (tx) => {
+      const closed = await tx.folio.updateMany({
+        where: { id: folio.id, status: FolioStatus.OPEN, balance },
+        data: { balance: new Prisma.Decimal(0), status: FolioStatus.CLOSED, closeDate: businessDate, updatedAt: new Date() }
+      });
+      const billed = await tx.arAccount.updateMany({
+        where: { id: account.id, balance: account.balance },
+        data: { balance: { increment: balance }, updatedAt: new Date() }
+      });
+
+      if (closed.count === 0 || billed.count === 0) {
+        throw createErrorDetails(ErrorCode.RESOURCE_CONFLICT, {
+          message: closed.count === 0
+            ? 'Folio balance changed while it was being transferred'
+            : 'Account balance changed while the folio was being transferred',
+          folioId: folio.id,
+          arAccountId: account.id
+        });
+      }
+
+      await tx.payment.create({
+        data: {
+          transactionId: randomUUID(),
+          folioId: folio.id,
+          guestId: folio.guestId,
+          amount: balance,
+          currency: folio.currency,
+          businessDate,
+          method: PaymentMethod.DIRECT_BILLING,
+          status: PaymentStatus.CAPTURED,
+          gateway: PaymentGateway.MANUAL,
+          refundedAmount: new Prisma.Decimal(0),
+          metadata: { arAccountId: account.id, accountNumber: account.accountNumber, transferredBy: data.userId }
+        }
+      });
+
+      const created = await tx.invoice.create({
+        data: {
+          invoiceNumber: `INV-${folio.folioNumber}`,
+          folioId: folio.id,
+          guestId: folio.guestId,
+          reservationId: folio.reservationId,
+          arAccountId: account.id,
+          subtotal,
+          taxAmount,
+          taxLines,
+          totalAmount: subtotal.plus(taxAmount),
+          billedAmount: balance,
+          balanceDue: balance,
+          currency: account.currency,
+          exchangeRate: new Prisma.Decimal(exchangeRate),
+          status: InvoiceStatus.ISSUED,
+          issueDate: businessDate,
+          dueDate: addDays(businessDate, account.paymentTermsDays),
+          paidDate: null,
+          billingAddress: account.billingAddress,
+          taxIdentifier: account.taxIdentifier,
+          companyName: account.companyName,
+          isProformaInvoice: false,
+          paymentTerms: `Net ${account.paymentTermsDays} days`
+        }
+      }) as Invoice;
+
+      await tx.folioCharge.updateMany({
+        where: { folioId: folio.id, status: { in: BILLABLE_CHARGE_STATUSES }, invoiceId: null },
+        data: { invoiceId: created.id }
+      });
+
+      return created;
+    });
+
+    this.logger.log(
+      `Folio ${folio.folioNumber} balance of ${balance} ${account.currency} transferred to ` +
+      `${account.accountNumber} as ${invoice.invoiceNumber} by ${data.userId}`
+    );
+    return invoice;
+  }
+
+  /**
+   * Transfers the balance of a booking's folio to an account as the booking checks out
+   * @param reservationId - Booking checking out
+   * @param arAccountId - Account billed
+   * @param userId - User checking the booking out
+   * @param folioId - Folio to transfer, by default the booking's main open folio
+   * @throws ErrorCode.RESOURCE_NOT_FOUND if the booking has no such open folio
+   */
+  async transferAtCheckout(reservationId: string, arAccountId: string, userId: string, folioId?: string): Promise<Invoice> {
+    const folio = await this.prisma.folio.findFirst({
+      where: {
+        reservationId,
+        status: FolioStatus.OPEN,
+        ...(folioId ? { id: folioId } : { isMainFolio: true })
+      }
+    });
+
+    if (!folio) {
+      throw createErrorDetails(ErrorCode.RESOURCE_NOT_FOUND, {
+        message: 'No open folio to transfer for the booking',
+        reservationId,
+        folioId
+      });
+    }
+
+    return this.transferFolioBalance({ folioId: folio.id, arAccountId, userId });
+  }
+
+  /**
+   * Records a payment from an account and applies it to its open invoices, as the remittance
+   * advice allocates it or else oldest invoice first. An invoice paid in part keeps the rest
+   * due; any amount left over is held as unapplied credit.
+   * @param data - Account, amount, method, reference and optional allocation per invoice
+   * @throws ErrorCode.RESOURCE_NOT_FOUND if the account does not exist
+   * @throws ErrorCode.VALIDATION_ERROR if the allocations exceed the payment
+   * @throws ErrorCode.BUSINESS_RULE_VIOLATION if an allocation names an invoice that is not open
+   * on the account or exceeds what it owes
+   * @throws ErrorCode.RESOURCE_CONFLICT if an invoice balance changed meanwhile
+   */
+  async applyPayment(data: ApplyArPaymentDto): Promise<ArPayment> {
+    const account = await this.getAccount(data.arAccountId);
+    const businessDate = await this.businessDates.getBusinessDate();
+    const amount = new Prisma.Decimal(data.amount);
+
+    const openInvoices = await this.prisma.invoice.findMany({
+      where: { arAccountId: account.id, status: { in: OPEN_AR_INVOICE_STATUSES } },
+      orderBy: [{ dueDate: 'asc' }, { issueDate: 'asc' }]
+    }) as Invoice[];
+
+    const allocations = data.allocations
+      ? this.checkAllocations(data, openInvoices)
+      : this.allocateOldestFirst(amount, openInvoices);
+    const applied = allocations.reduce((sum, allocation) => sum.plus(allocation.amount), new Prisma.Decimal(0));
+
+    const payment = await this.prisma.$transaction(async (tx) => {
+      for (const allocation of allocations) {
+        const invoice = openInvoices.find(candidate => candidate.id === allocation.invoiceId) as Invoice;
+        const balanceDue = new Prisma.Decimal(invoice.balanceDue || 0).minus(allocation.amount);
+        const paid = balanceDue.isZero();
+
+        // Only apply against the balance read above
+        const { count } = await tx.invoice.updateMany({
+          where: { id: invoice.id, balanceDue: invoice.balanceDue },
+          data: {
+            balanceDue,
+            status: paid
+              ? InvoiceStatus.PAID
+              : invoice.status === InvoiceStatus.ISSUED ? InvoiceStatus.PARTIALLY_PAID : invoice.status,
+            paidDate: paid ? businessDate : null,
+            updatedAt: new Date()
+          }
+        });
+
+        if (count === 0) {
+          throw createErrorDetails(ErrorCode.RESOURCE_CONFLICT, {
+            message: `Invoice ${invoice.invoiceNumber} changed while the payment was applied`,
+            invoiceId: invoice.id
+          });
+        }
+      }
+
+      await tx.arAccount.update({
+        where: { id: account.id },
+        data: { balance: { decrement: amount }, updatedAt: new Date() }
+      });
+
+      return tx.arPayment.create({
+        data: {
+          arAccountId: account.id,
+          amount,
+          unappliedAmount: amount.minus(applied),
+          method: data.method,
+          reference: data.reference,
+          receivedDate: businessDate,
+          allocations,
+          recordedBy: data.userId
+        }
+      });
+    }) as ArPayment;
+
+    this.logger.log(
+      `Payment of ${amount} ${account.currency} from ${account.accountNumber} applied to ` +
+      `${allocations.length} invoices, ${payment.unappliedAmount} unapplied`
+    );
+    return payment;
+  }
+
+  /**
+   * Ages every account's open invoices by days since issue. Accounts are reported in their own
+   * currency; the totals convert them to the property currency at the date's rates.
+   * @param asOf - Date to age at, by default the business date
+   */
+  async getAgedReceivables(asOf?: Date): Promise<AgedReceivablesReport> {
+    const date = startOfDay(asOf || await this.businessDates.getBusinessDate());
+
+    const invoices = await this.prisma.invoice.findMany({
+      where: { arAccountId: { not: null }, status: { in: OPEN_AR_INVOICE_STATUSES }, issueDate: { lte: date } }
+    }) as Invoice[];
+    const accounts = await this.prisma.arAccount.findMany({
+      where: { id: { in: Array.from(new Set(invoices.map(invoice => invoice.arAccountId as string))) } },
+      orderBy: { companyName: 'asc' }
+    }) as ArAccount[];
+
+    const lines: AgedReceivablesLine[] = accounts.map(account => ({
+      arAccountId: account.id,
+      accountNumber: account.accountNumber,
+      companyName: account.companyName,
+      ...this.ageInvoices(invoices.filter(invoice => invoice.arAccountId === account.id), date, account.currency)
+    }));
+
+    const totals = createEmptyAgingBuckets();
+    for (const [index, line] of lines.entries()) {
+      const rate = await this.exchangeRates.getRate(accounts[index].currency, PROPERTY_CURRENCY, date);
+      for (const key of Object.keys(totals) as (keyof AgingBuckets)[]) {
+        totals[key] = roundToCurrency(totals[key] + line[key] * rate, PROPERTY_CURRENCY);
+      }
+    }
+
+    return { asOf: date, accounts: lines, totals };
+  }
+
+  /**
+   * Builds an account's statement for a calendar month: the balance brought forward, the
+   * invoices issued and payments received in the month, and the open invoices by age
+   * @param arAccountId - Account ID
+   * @param month - Any date in the month
+   * @throws ErrorCode.RESOURCE_NOT_FOUND if the account does not exist
+   */
+  async getStatement(arAccountId: string, month: Date): Promise<ArStatement> {
+    const account = await this.getAccount(arAccountId);
+    const periodStart = startOfMonth(month);
+    const periodEnd = startOfDay(endOfMonth(month));
+
+    const [invoices, payments] = await Promise.all([
+      this.prisma.invoice.findMany({
+        where: { arAccountId, status: { notIn: UNBILLED_INVOICE_STATUSES }, issueDate: { lte: periodEnd } },
+        orderBy: { issueDate: 'asc' }
+      }) as Promise<Invoice[]>,
+      this.prisma.arPayment.findMany({
+        where: { arAccountId, receivedDate: { lte: periodEnd } },
+        orderBy: { receivedDate: 'asc' }
+      }) as Promise<ArPayment[]>
+    ]);
+
+    const round = (value: number) => roundToCurrency(value, account.currency);
+    const openingBalance = round(
+      invoices.filter(invoice => invoice.issueDate < periodStart)
+        .reduce((sum, invoice) => sum + Number(invoice.billedAmount ?? invoice.totalAmount), 0) -
+      payments.filter(payment => payment.receivedDate < periodStart)
+        .reduce((sum, payment) => sum + Number(payment.amount), 0)
+    );
+
+    const entries = [
+      ...invoices.filter(invoice => invoice.issueDate >= periodStart).map(invoice => ({
+        date: invoice.issueDate,
+        type: 'INVOICE' as const,
+        reference: invoice.invoiceNumber,
+        amount: Number(invoice.billedAmount ?? invoice.totalAmount)
+      })),
+      ...payments.filter(payment => payment.receivedDate >= periodStart).map(payment => ({
+        date: payment.receivedDate,
+        type: 'PAYMENT' as const,
+        reference: payment.reference,
+        amount: -Number(payment.amount)
+      }))
+    ].sort((a, b) => a.date.getTime() - b.date.getTime() || (a.type === b.type ? 0 : a.type === 'INVOICE' ? -1 : 1));
+
+    let balance = openingBalance;
+    const lines: ArStatementLine[] = entries.map(entry => {
+      balance = round(balance + entry.amount);
+      return { ...entry, amount: round(entry.amount), balance };
+    });
+
+    return {
+      arAccountId: account.id,
+      accountNumber: account.accountNumber,
+      companyName: account.companyName,
+      billingAddress: account.billingAddress,
+      currency: account.currency,
+      periodStart,
+      periodEnd,
+      openingBalance,
+      lines,
+      closingBalance: balance,
+      aging: this.ageInvoices(
+        invoices.filter(invoice => OPEN_AR_INVOICE_STATUSES.includes(invoice.status)),
+        periodEnd,
+        account.currency
+      )
+    };
+  }
+
+  /**
+   * Moves unpaid invoices past their due date to OVERDUE and overdue invoices more than
+   * `COLLECTION_AFTER_DAYS` past due to COLLECTION. An invoice takes one step per run.
+   * @param userId - User or job starting the run
+   */
+  async runDunning(userId: string = CITY_LEDGER_USER): Promise<DunningRun> {
+    const businessDate = await this.businessDates.getBusinessDate();
+
+    const collection = await this.prisma.invoice.updateMany({
+      where: {
+        arAccountId: { not: null },
+        status: InvoiceStatus.OVERDUE,
+        dueDate: { lt: subDays(businessDate, COLLECTION_AFTER_DAYS) }
+      },
+      data: { status: InvoiceStatus.COLLECTION, updatedAt: new Date() }
+    });
+
+    const overdue = await this.prisma.invoice.updateMany({
+      where: {
+        arAccountId: { not: null },
+        status: { in: [InvoiceStatus.ISSUED, InvoiceStatus.PARTIALLY_PAID] },
+        dueDate: { lt: businessDate }
+      },
+      data: { status: InvoiceStatus.OVERDUE, updatedAt: new Date() }
+    });
+
+    const run: DunningRun = { businessDate, overdue: overdue.count, collection: collection.count };
+    this.logger.log(`Dunning for ${format(businessDate, 'yyyy-MM-dd')} run by ${userId}`, run);
+    return run;
+  }
+
+  /**
+   * Schedules the dunning run daily at the configured local time
+   * @param time - Time of day in HH:mm format
+   */
+  scheduleDaily(time: string = process.env.AR_DUNNING_TIME || '07:00'): void {
+    const [hours, minutes] = time.split(':').map(Number);
+    const now = new Date();
+    const nextRun = new Date(now);
+    nextRun.setHours(hours, minutes, 0, 0);
+    if (nextRun <= now) {
+      nextRun.setDate(nextRun.getDate() + 1);
+    }
+
+    this.cancelSchedule();
+    this.scheduledRun = setTimeout(async () => {
+      try {
+        await this.runDunning(CITY_LEDGER_USER);
+      } catch (error) {
+        this.logger.error(`Scheduled dunning failed: ${error.message || error.code}`);
+      }
+      this.scheduleDaily(time);
+    }, nextRun.getTime() - now.getTime());
+  }
+
+  /**
+   * Cancels the scheduled dunning run
+   */
+  cancelSchedule(): void {
+    if (this.scheduledRun) {
+      clearTimeout(this.scheduledRun);
+      this.scheduledRun = null;
+    }
+  }
+
+  /**
+   * Validates the allocations of a remittance advice against the open invoices
+   */
+  private checkAllocations(data: ApplyArPaymentDto, openInvoices: Invoice[]): ArPaymentAllocation[] {
+    const allocations = (data.allocations || []).map(allocation => ({
+      invoiceId: allocation.invoiceId,
+      amount: new Prisma.Decimal(allocation.amount)
+    }));
+
+    const total = allocations.reduce((sum, allocation) => sum.plus(allocation.amount), new Prisma.Decimal(0));
+    if (total.gt(data.amount)) {
+      throw createErrorDetails(ErrorCode.VALIDATION_ERROR, {
+        message: `Allocations of ${total} exceed the payment of ${data.amount}`,
+        arAccountId: data.arAccountId
+      });
+    }
+
+    allocations.forEach((allocation, index) => {
+      const invoice = openInvoices.find(candidate => candidate.id === allocation.invoiceId);
+      const duplicate = allocations.findIndex(other => other.invoiceId === allocation.invoiceId) !== index;
+
+      if (!invoice || duplicate || allocation.amount.lte(0) || allocation.amount.gt(invoice.balanceDue || 0)) {
+        throw createErrorDetails(ErrorCode.BUSINESS_RULE_VIOLATION, {
+          message: invoice
+            ? `Allocation of ${allocation.amount} to ${invoice.invoiceNumber} is not within its balance of ${invoice.balanceDue}`
+            : 'Invoice is not open on the account',
+          invoiceId: allocation.invoiceId
+        });
+      }
+    });
+
+    return allocations;
+  }
+
+  /**
+   * Applies an amount to open invoices in due date order until it runs out
+   */
+  private allocateOldestFirst(amount: Prisma.Decimal, openInvoices: Invoice[]): ArPaymentAllocation[] {
+    const allocations: ArPaymentAllocation[] = [];
+    let remaining = amount;
+
+    for (const invoice of openInvoices) {
+      if (remaining.lte(0)) {
+        break;
+      }
+      const allocated = Prisma.Decimal.min(remaining, invoice.balanceDue || 0);
+      if (allocated.gt(0)) {
+        allocations.push({ invoiceId: invoice.id, amount: allocated });
+        remaining = remaining.minus(allocated);
+      }
+    }
+
+    return allocations;
+  }
+
+  /**
+   * Adds open invoice balances to the bucket of their age
+   */
+  private ageInvoices(invoices: Invoice[], asOf: Date, currency: string): AgingBuckets {
+    const buckets = createEmptyAgingBuckets();
+
+    for (const invoice of invoices) {
+      const balanceDue = Number(invoice.balanceDue ?? invoice.totalAmount);
+      const bucket = agingBucket(invoice.issueDate, asOf);
+      buckets[bucket] = roundToCurrency(buckets[bucket] + balanceDue, currency);
+      buckets.total = roundToCurrency(buckets.total + balanceDue, currency);
+    }
+
+    return buckets;
+  }
+
+  /**
+   * Totals the charges billed on the invoice with their tax lines
+   */
+  private totalCharges(charges: FolioCharge[]): { subtotal: Prisma.Decimal; taxAmount: Prisma.Decimal; taxLines: TaxLine[] } {
+    const billable = charges.filter(charge => BILLABLE_CHARGE_STATUSES.includes(charge.status) && !charge.invoiceId);
+
+    return {
+      subtotal: billable.reduce((sum, charge) => sum.plus(charge.amount), new Prisma.Decimal(0)),
+      taxAmount: billable.reduce((sum, charge) => sum.plus(charge.taxAmount), new Prisma.Decimal(0)),
+      taxLines: summarizeTaxLines(billable.flatMap(charge => charge.taxLines || []))
+    };
+  }
+}
@@ -0,0 +1,336 @@
+/**
+ * @fileoverview Credit limit service tracking each folio's exposure: the balance less the card
+ * pre-authorizations held on it, or less the house limit when there are none. Postings update the
+ * exposure; a folio passing the threshold alerts the front desk once, and outlet postings that
+ * would take it past the threshold can be refused. Lists the open folios over their limit.
+ * @version 1.0.0
+ */
+
+// External imports
+import { Injectable, Logger } from '@nestjs/common'; // v10.0.0
+import { Prisma, PrismaClient } from '@prisma/client'; // v5.0.0
+import { randomUUID } from 'crypto';
+
+// Internal imports
+import { prisma as billingPrisma } from '../config/database';
+import { Folio, FolioStatus } from '../models/folio.model';
+import { PaymentMethod, PaymentStatus } from '../models/payment.model';
+import {
+  AuthorizeCreditDto,
+  CreditExposure,
+  DEFAULT_CREDIT_EXPOSURE_THRESHOLD,
+  OverCreditLimitReport,
+  authorizedAmountOf,
+  exposureOf
+} from '../models/credit-limit.model';
+import { PaymentGatewayService } from './payment-gateway.service';
+import { Booking } from '../../../reservation-service/src/models/booking.model';
+import { Guest } from '../../../guest-service/src/models/guest.model';
+import { RoomModel } from '../../../room-service/src/models/room.model';
+import {
+  NotificationSender,
+  NotificationType,
+  NotificationPriority,
+  DeliveryStatus
+} from '../../../shared/interfaces/notification.interface';
+import { WebSocketNamespaces } from '../../../websocket-service/src/config/websocket';
+import { BusinessDateService } from '../../../shared/services/business-date.service';
+import { ErrorCode, createErrorDetails } from '../../../shared/constants/error-codes';
+
+/**
+ * Attempts at updating a folio's exposure before the failure is reported
+ */
+const EXPOSURE_UPDATE_ATTEMPTS = 3;
+
+/**
+ * Service monitoring guest credit limits
+ */
+@Injectable()
+export class CreditLimitService {
+  private readonly logger = new Logger(CreditLimitService.name);
+  private readonly threshold = Number(process.env.CREDIT_EXPOSURE_THRESHOLD) || DEFAULT_CREDIT_EXPOSURE_THRESHOLD;
+  private readonly blockPostings = process.env.CREDIT_LIMIT_BLOCK_POSTINGS === 'true';
+
+  constructor(
+    private readonly prisma: PrismaClient = billingPrisma,
+    private readonly businessDates: BusinessDateService = new BusinessDateService(prisma),
+    private readonly notifications?: NotificationSender,
+    private readonly paymentGateway?: PaymentGatewayService
+  ) {}
+
+  /**
+   * Pre-authorizes the guest's card for an amount held against the folio. The folio's
+   * authorized amount becomes its card pre-authorizations in place of the house limit.
+   * @param data - Folio, amount, card token and the user
+   * @throws ErrorCode.RESOURCE_NOT_FOUND if the folio does not exist
+   * @throws ErrorCode.BUSINESS_RULE_VIOLATION if the folio is not open
+   * @throws ErrorCode.EXTERNAL_SERVICE_ERROR if no gateway is configured or it declines the card
+   */
+  async authorizeCard(data: AuthorizeCreditDto): Promise<CreditExposure> {
+    const folio = await this.getFolio(data.folioId);
+    if (folio.status !== FolioStatus.OPEN) {
+      throw createErrorDetails(ErrorCode.BUSINESS_RULE_VIOLATION, {
+        message: 'Cards can only be authorized against an open folio',
+        folioId: folio.id
+      });
+    }
+
+    if (!this.paymentGateway) {
+      throw createErrorDetails(ErrorCode.EXTERNAL_SERVICE_ERROR, {
+        message: 'No payment gateway is configured for card authorizations',
+        folioId: folio.id
+      });
+    }
+
+    const authorization = await this.paymentGateway.authorize({
+      amount: data.amount,
+      currency: folio.currency,
+      paymentMethod: PaymentMethod.CREDIT_CARD,
+      cardToken: data.cardToken,
+      guestId: folio.guestId,
+      folioId: folio.id,
+      metadata: { preAuthorization: true, authorizedBy: data.userId }
+    }).toPromise();
+
+    if (!authorization?.success) {
+      throw createErrorDetails(ErrorCode.EXTERNAL_SERVICE_ERROR, {
+        message: authorization?.errorMessage || 'Authorization declined by gateway',
+        folioId: folio.id
+      });
+    }
+
+    const businessDate = await this.businessDates.getBusinessDate();
+    await this.prisma.$transaction(async (tx) => {
+      await tx.payment.create({
+        data: {
+          transactionId: authorization.transactionId,
+          folioId: folio.id,
+          guestId: folio.guestId,
+          amount: new Prisma.Decimal(data.amount),
+          currency: folio.currency,
+          businessDate,
+          method: PaymentMethod.CREDIT_CARD,
+          status: PaymentStatus.AUTHORIZED,
+          gatewayReference: authorization.gatewayReference,
+          authorizationCode: authorization.authorizationCode || null,
+          refundedAmount: new Prisma.Decimal(0),
+          metadata: { preAuthorization: true, authorizedBy: data.userId },
+          riskScore: authorization.riskScore ?? null
+        }
+      });
+
+      await tx.folio.update({
+        where: { id: folio.id },
+        data: { authorizedAmount: { increment: new Prisma.Decimal(data.amount) }, updatedAt: new Date() }
+      });
+    });
+
+    this.logger.log(`${data.amount} ${folio.currency} authorized on folio ${folio.folioNumber} by ${data.userId}`);
+
+    await this.recordPostings([folio.id]);
+    return this.getExposure(folio.id);
+  }
+
+  /**
+   * Returns the credit position of a folio
+   * @param folioId - Folio to measure
+   * @throws ErrorCode.RESOURCE_NOT_FOUND if the folio does not exist
+   */
+  async getExposure(folioId: string): Promise<CreditExposure> {
+    return this.positionOf(await this.getFolio(folioId));
+  }
+
+  /**
+   * Refuses a posting that would take the folio past the threshold when blocking is turned on
+   * with CREDIT_LIMIT_BLOCK_POSTINGS=true
+   * @param folio - Folio the amount is posted to
+   * @param amount - Amount about to be posted, including tax
+   * @throws ErrorCode.BUSINESS_RULE_VIOLATION if the folio would be over its credit limit
+   */
+  assertCanPost(folio: Folio, amount: Prisma.Decimal): void {
+    if (!this.blockPostings) {
+      return;
+    }
+
+    const exposure = exposureOf(folio, new Prisma.Decimal(folio.balance).plus(amount));
+    if (exposure.gt(this.threshold)) {
+      throw createErrorDetails(ErrorCode.BUSINESS_RULE_VIOLATION, {
+        message: `Posting ${amount} would take folio ${folio.folioNumber} over its credit limit of ${authorizedAmountOf(folio)}`,
+        folioId: folio.id,
+        balance: Number(folio.balance),
+        authorizedAmount: Number(authorizedAmountOf(folio)),
+        exposure: Number(exposure)
+      });
+    }
+  }
+
+  /**
+   * Brings the exposure of folios up to date after postings to them, alerting the front desk
+   * about folios that passed the threshold. Each folio is retried before it is given up on.
+   * @param folioIds - Folios posted to
+   * @throws ErrorCode.DATABASE_ERROR listing the folios whose exposure could not be updated; the
+   * postings themselves are already committed
+   */
+  async recordPostings(folioIds: string[]): Promise<void> {
+    const failedFolioIds: string[] = [];
+
+    for (const folioId of Array.from(new Set(folioIds))) {
+      for (let attempt = 1; attempt <= EXPOSURE_UPDATE_ATTEMPTS; attempt++) {
+        try {
+          await this.updateExposure(folioId);
+          break;
+        } catch (error) {
+          this.logger.warn(
+            `Exposure of folio ${folioId} could not be updated (attempt ${attempt}): ${error.message || error.code}`
+          );
+          if (attempt === EXPOSURE_UPDATE_ATTEMPTS) {
+            failedFolioIds.push(folioId);
+          }
+        }
+      }
+    }
+
+    if (failedFolioIds.length > 0) {
+      this.logger.error(`Credit exposure is stale for folios ${failedFolioIds.join(', ')}`);
+      throw createErrorDetails(ErrorCode.DATABASE_ERROR, {
+        message: 'The postings were recorded but the credit exposure of their folios could not be updated',
+        folioIds: failedFolioIds
+      });
+    }
+  }
+
+  /**
+   * Lists the open folios over their credit limit, largest exposure first, with the guest and
+   * room for the front desk
+   */
+  async getOverLimitReport(): Promise<OverCreditLimitReport> {
+    const businessDate = await this.businessDates.getBusinessDate();
+    const folios = (await this.prisma.folio.findMany({ where: { status: FolioStatus.OPEN } }) as Folio[])
+      .filter(folio => exposureOf(folio).gt(this.threshold));
+
+    const bookings = await this.prisma.booking.findMany({
+      where: { id: { in: folios.map(folio => folio.reservationId) } }
+    }) as Booking[];
+    const guests = await this.prisma.guest.findMany({
+      where: { id: { in: folios.map(folio => folio.guestId) } }
+    }) as Guest[];
+    const rooms = await this.prisma.room.findMany({
+      where: { id: { in: bookings.map(booking => booking.roomId).filter(Boolean) } }
+    }) as RoomModel[];
+
+    return {
+      businessDate,
+      threshold: this.threshold,
+      folios: folios
+        .map(folio => {
+          const booking = bookings.find(candidate => candidate.id === folio.reservationId);
+          const guest = guests.find(candidate => candidate.id === folio.guestId);
+          const room = booking && rooms.find(candidate => candidate.id === booking.roomId);
+
+          return {
+            ...this.positionOf(folio),
+            bookingNumber: booking?.bookingNumber || '',
+            guestName: guest ? `${guest.firstName} ${guest.lastName}` : '',
+            roomNumber: room?.roomNumber || null,
+            alertedAt: folio.creditAlertedAt
+          };
+        })
+        .sort((a, b) => b.exposure - a.exposure)
+    };
+  }
+
+  /**
+   * Stores the folio's exposure. The first update past the threshold claims the alert on the
+   * folio, so concurrent postings alert once; falling back below the threshold clears it.
+   */
+  private async updateExposure(folioId: string): Promise<void> {
+    const folio = await this.prisma.folio.findUnique({ where: { id: folioId } }) as Folio | null;
+    if (!folio) {
+      return;
+    }
+
+    const exposure = exposureOf(folio);
+    const overLimit = exposure.gt(this.threshold);
+
+    if (overLimit && !folio.creditAlertedAt) {
+      const { count } = await this.prisma.folio.updateMany({
+        where: { id: folio.id, creditAlertedAt: null },
+        data: { exposure, creditAlertedAt: new Date() }
+      });
+      if (count > 0) {
+        await this.alert(folio);
+      }
+      return;
+    }
+
+    await this.prisma.folio.update({
+      where: { id: folio.id },
+      data: { exposure, ...(overLimit ? {} : { creditAlertedAt: null }) }
+    });
+  }
+
+  /**
+   * Sends the front desk a billing update for a folio that passed the threshold
+   */
+  private async alert(folio: Folio): Promise<void> {
+    const position = this.positionOf(folio);
+    this.logger.warn(
+      `Folio ${folio.folioNumber} is ${position.exposure} ${folio.currency} over its authorized amount of ` +
+      `${position.authorizedAmount}`
+    );
+
+    if (!this.notifications) {
+      return;
+    }
+
+    try {
+      await this.notifications.sendNotification({
+        id: randomUUID(),
+        correlationId: folio.reservationId,
+        type: NotificationType.BILLING_UPDATE,
+        targetGroup: WebSocketNamespaces.FRONT_DESK,
+        payload: {
+          alert: 'CREDIT_LIMIT_EXCEEDED',
+          threshold: this.threshold,
+          ...position
+        },
+        priority: NotificationPriority.HIGH,
+        timestamp: new Date(),
+        deliveryStatus: DeliveryStatus.PENDING
+      });
+    } catch (error) {
+      // The exposure is stored and the folio is on the over-limit list; a failed alert must not fail the posting
+      this.logger.warn(`Credit limit alert for folio ${folio.folioNumber} could not be sent: ${error.message || error.code}`);
+    }
+  }
+
+  private positionOf(folio: Folio): CreditExposure {
+    const authorized = new Prisma.Decimal(folio.authorizedAmount || 0);
+    const exposure = exposureOf(folio);
+
+    return {
+      folioId: folio.id,
+      folioNumber: folio.folioNumber,
+      reservationId: folio.reservationId,
+      currency: folio.currency,
+      balance: Number(folio.balance),
+      authorizedAmount: Number(authorizedAmountOf(folio)),
+      houseLimit: !authorized.gt(0),
+      exposure: Number(exposure),
+      overLimit: exposure.gt(this.threshold)
+    };
+  }
+
+  private async getFolio(folioId: string): Promise<Folio> {
+    const folio = await this.prisma.folio.findUnique({ where: { id: folioId } }) as Folio | null;
+
+    if (!folio) {
+      throw createErrorDetails(ErrorCode.RESOURCE_NOT_FOUND, {
+        message: 'Folio not found',
+        folioId
+      });
+    }
+
+    return folio;
+  }
+}
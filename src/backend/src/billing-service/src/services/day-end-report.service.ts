@@ -0,0 +1,466 @@
+/**
+ * @fileoverview Day-end report service producing the report pack for a closed business date:
+ * trial balance, manager's flash, in-house guests, arrivals/departures, cancellations and
+ * payments by method. Each report is stored once as an immutable, checksummed snapshot.
+ * @version 1.0.0
+ */
+
+// External imports
+import { Injectable, Logger } from '@nestjs/common'; // v10.0.0
+import { Prisma, PrismaClient } from '@prisma/client'; // v5.0.0
+import { addDays, format } from 'date-fns'; // v2.30.0
+import { createHash } from 'crypto';
+
+// Internal imports
+import { prisma as billingPrisma } from '../config/database';
+import { ChargeStatus, FolioCharge } from '../models/folio.model';
+import { Payment, PaymentMethod, PaymentStatus } from '../models/payment.model';
+import { DayEndReport, DayEndReportContent, DayEndReportType } from '../models/day-end-report.model';
+import { PROPERTY_CURRENCY } from '../models/exchange-rate.model';
+import { Booking, BookingStatus } from '../../../reservation-service/src/models/booking.model';
+import { ROOM_CHARGE_DEPARTMENT } from '../../../shared/models/charge-category.model';
+import { ErrorCode, createErrorDetails } from '../../../shared/constants/error-codes';
+
+/**
+ * Currency in which day-end reports are stated
+ */
+const REPORT_CURRENCY = PROPERTY_CURRENCY;
+
+/**
+ * Payment statuses counted as money received
+ */
+const RECEIVED_PAYMENT_STATUSES = [
+  PaymentStatus.CAPTURED,
+  PaymentStatus.PARTIALLY_REFUNDED,
+  PaymentStatus.REFUNDED
+];
+
+/**
+ * Service generating and serving day-end report snapshots
+ */
+@Injectable()
+export class DayEndReportService {
+  private readonly logger = new Logger(DayEndReportService.name);
+
+  constructor(private readonly prisma: PrismaClient = billingPrisma) {}
+
+  /**
+   * Generates every report in the day-end pack that is not yet stored for the business date.
+   * Existing snapshots are never overwritten.
+   * @param businessDate - Closed business date
+   * @param userId - User or job generating the pack
+   * @param nightAuditRunId - Night audit run that closed the date
+   * @returns Reports stored for the business date
+   */
+  async generateReportPack(
+    businessDate: Date,
+    userId: string,
+    nightAuditRunId: string | null = null
+  ): Promise<DayEndReport[]> {
+    const existing = await this.findByBusinessDate(businessDate);
+    const existingTypes = new Set(existing.map(report => report.type));
+    const missingTypes = Object.values(DayEndReportType).filter(type => !existingTypes.has(type));
+
+    if (missingTypes.length === 0) {
+      return existing;
+    }
+
+    const data = await this.loadDayData(businessDate);
+    const builders: Record<DayEndReportType, () => Promise<DayEndReportContent>> = {
+      [DayEndReportType.TRIAL_BALANCE]: async () => this.buildTrialBalance(data),
+      [DayEndReportType.MANAGER_FLASH]: async () => this.buildManagerFlash(data),
+      [DayEndReportType.IN_HOUSE_GUESTS]: async () => this.buildInHouseGuests(data),
+      [DayEndReportType.ARRIVALS_DEPARTURES]: async () => this.buildArrivalsDepartures(data),
+      [DayEndReportType.CANCELLATIONS]: async () => this.buildCancellations(data),
+      [DayEndReportType.PAYMENTS_BY_METHOD]: async () => this.buildPaymentsByMethod(data)
+    };
+
+    const generatedAt = new Date();
+    const created: DayEndReport[] = [];
+
+    for (const type of missingTypes) {
+      const content = await builders[type]();
+      const report = await this.prisma.dayEndReport.create({
+        data: {
+          ...content,
+          businessDate,
+          currency: REPORT_CURRENCY,
+          checksum: this.calculateChecksum(content),
+          nightAuditRunId,
+          generatedBy: userId,
+          generatedAt
+        }
+      }) as DayEndReport;
+      created.push(report);
+    }
+
+    this.logger.log(`Generated ${created.length} day-end reports for ${format(businessDate, 'yyyy-MM-dd')}`);
+    return [...existing, ...created];
+  }
+
+  /**
+   * Lists the stored reports for a business date
+   * @param businessDate - Business date to look up
+   */
+  async findByBusinessDate(businessDate: Date): Promise<DayEndReport[]> {
+    return this.prisma.dayEndReport.findMany({
+      where: { businessDate },
+      orderBy: { type: 'asc' }
+    }) as Promise<DayEndReport[]>;
+  }
+
+  /**
+   * Retrieves a stored report and verifies it has not been altered since it was frozen
+   * @param businessDate - Business date of the report
+   * @param type - Report type
+   * @throws ErrorCode.RESOURCE_NOT_FOUND if no snapshot exists
+   * @throws ErrorCode.BUSINESS_RULE_VIOLATION if the checksum does not match
+   */
+  async getReport(businessDate: Date, type: DayEndReportType): Promise<DayEndReport> {
+    const report = await this.prisma.dayEndReport.findFirst({
+      where: { businessDate, type }
+    }) as DayEndReport | null;
+
+    if (!report) {
+      throw createErrorDetails(ErrorCode.RESOURCE_NOT_FOUND, {
+        message: 'Day-end report not found',
+        businessDate: format(businessDate, 'yyyy-MM-dd'),
+        type
+      });
+    }
+
+    if (this.calculateChecksum(report) !== report.checksum) {
+      this.logger.error(`Checksum mismatch for day-end report ${report.id}`);
+      throw createErrorDetails(ErrorCode.BUSINESS_RULE_VIOLATION, {
+        message: 'Day-end report content does not match its checksum',
+        reportId: report.id
+      });
+    }
+
+    return report;
+  }
+
+  /**
+   * Calculates the checksum over the report content
+   */
+  private calculateChecksum(content: Pick<DayEndReportContent, 'columns' | 'rows' | 'totals'>): string {
+    return createHash('sha256')
+      .update(JSON.stringify({ columns: content.columns, rows: content.rows, totals: content.totals }))
+      .digest('hex');
+  }
+
+  /**
+   * Loads the bookings, charges and payments needed by the report pack in one pass
+   */
+  private async loadDayData(businessDate: Date): Promise<DayData> {
+    const nextDate = addDays(businessDate, 1);
+
+    const [charges, payments, inHouse, arrivals, departures, cancellations, totalRooms] = await Promise.all([
+      this.prisma.folioCharge.findMany({
+        where: {
+          postingDate: { gte: businessDate, lt: nextDate },
+          status: { in: [ChargeStatus.POSTED, ChargeStatus.ADJUSTED] }
+        }
+      }) as Promise<FolioCharge[]>,
+      this.prisma.payment.findMany({
+        where: {
+          businessDate: { gte: businessDate, lt: nextDate },
+          status: { in: RECEIVED_PAYMENT_STATUSES }
+        }
+      }) as Promise<Payment[]>,
+      this.prisma.booking.findMany({
+        where: {
+          status: { in: [BookingStatus.CHECKED_IN, BookingStatus.CHECKED_OUT] },
+          checkInDate: { lte: businessDate },
+          checkOutDate: { gt: businessDate }
+        }
+      }) as Promise<Booking[]>,
+      this.prisma.booking.findMany({
+        where: { checkInDate: { gte: businessDate, lt: nextDate } }
+      }) as Promise<Booking[]>,
+      this.prisma.booking.findMany({
+        where: { checkOutDate: { gte: businessDate, lt: nextDate } }
+      }) as Promise<Booking[]>,
+      this.prisma.booking.findMany({
+        where: {
+          status: BookingStatus.CANCELLED,
+          cancellationDate: { gte: businessDate, lt: nextDate }
+        }
+      }) as Promise<Booking[]>,
+      this.prisma.room.count({ where: { isActive: true } })
+    ]);
+
+    return { businessDate, charges, payments, inHouse, arrivals, departures, cancellations, totalRooms };
+  }
+
+  /**
+   * Trial balance: charges posted per department against payments received per method
+   */
+  private buildTrialBalance(data: DayData): DayEndReportContent {
+    const rows: Record<string, string | number>[] = [];
+    let totalDebit = new Prisma.Decimal(0);
+    let totalCredit = new Prisma.Decimal(0);
+
+    for (const [department, charges] of this.groupBy(data.charges, charge => charge.department)) {
+      const net = this.sum(charges.map(charge => charge.amount));
+      const tax = this.sum(charges.map(charge => charge.taxAmount));
+      const total = this.sum(charges.map(charge => charge.totalAmount));
+      totalDebit = totalDebit.plus(total);
+      rows.push({
+        account: department,
+        entries: charges.length,
+        net: net.toNumber(),
+        tax: tax.toNumber(),
+        debit: total.toNumber(),
+        credit: 0
+      });
+    }
+
+    for (const [method, payments] of this.groupBy(data.payments, payment => payment.method)) {
+      const received = this.sumReceived(payments);
+      totalCredit = totalCredit.plus(received);
+      rows.push({
+        account: `PAYMENT ${method}`,
+        entries: payments.length,
+        net: 0,
+        tax: 0,
+        debit: 0,
+        credit: received.toNumber()
+      });
+    }
+
+    return {
+      type: DayEndReportType.TRIAL_BALANCE,
+      title: 'Trial Balance',
+      columns: [
+        { key: 'account', label: 'Account', type: 'string' },
+        { key: 'entries', label: 'Entries', type: 'number' },
+        { key: 'net', label: 'Net', type: 'currency' },
+        { key: 'tax', label: 'Tax', type: 'currency' },
+        { key: 'debit', label: 'Debit', type: 'currency' },
+        { key: 'credit', label: 'Credit', type: 'currency' }
+      ],
+      rows,
+      totals: {
+        debit: totalDebit.toNumber(),
+        credit: totalCredit.toNumber(),
+        netMovement: totalDebit.minus(totalCredit).toNumber()
+      }
+    };
+  }
+
+  /**
+   * Manager's flash: rooms sold, occupancy, ADR and RevPAR for the business date
+   */
+  private buildManagerFlash(data: DayData): DayEndReportContent {
+    const roomRevenue = this.sum(
+      data.charges
+        .filter(charge => charge.department === ROOM_CHARGE_DEPARTMENT)
+        .map(charge => charge.amount)
+    );
+    const roomsSold = data.inHouse.length;
+    const occupancy = data.totalRooms > 0 ? roomsSold / data.totalRooms : 0;
+    const adr = roomsSold > 0 ? roomRevenue.dividedBy(roomsSold) : new Prisma.Decimal(0);
+    const revpar = data.totalRooms > 0 ? roomRevenue.dividedBy(data.totalRooms) : new Prisma.Decimal(0);
+    const totalRevenue = this.sum(data.charges.map(charge => charge.amount));
+
+    const figures: Record<string, string | number> = {
+      totalRooms: data.totalRooms,
+      roomsSold,
+      occupancy: Number(occupancy.toFixed(4)),
+      roomRevenue: roomRevenue.toDecimalPlaces(2).toNumber(),
+      adr: adr.toDecimalPlaces(2).toNumber(),
+      revpar: revpar.toDecimalPlaces(2).toNumber(),
+      totalRevenue: totalRevenue.toDecimalPlaces(2).toNumber(),
+      arrivals: data.arrivals.filter(booking => booking.status !== BookingStatus.CANCELLED).length,
+      departures: data.departures.filter(booking => booking.status !== BookingStatus.CANCELLED).length,
+      noShows: data.arrivals.filter(booking => booking.status === BookingStatus.NO_SHOW).length,
+      cancellations: data.cancellations.length
+    };
+
+    return {
+      type: DayEndReportType.MANAGER_FLASH,
+      title: "Manager's Flash Report",
+      columns: [
+        { key: 'metric', label: 'Metric', type: 'string' },
+        { key: 'value', label: 'Value', type: 'number' }
+      ],
+      rows: Object.entries(figures).map(([metric, value]) => ({ metric, value })),
+      totals: figures
+    };
+  }
+
+  /**
+   * In-house guest list for the business date
+   */
+  private buildInHouseGuests(data: DayData): DayEndReportContent {
+    return {
+      type: DayEndReportType.IN_HOUSE_GUESTS,
+      title: 'In-House Guest List',
+      columns: [
+        { key: 'bookingNumber', label: 'Booking', type: 'string' },
+        { key: 'guestId', label: 'Guest', type: 'string' },
+        { key: 'roomId', label: 'Room', type: 'string' },
+        { key: 'checkInDate', label: 'Arrival', type: 'date' },
+        { key: 'checkOutDate', label: 'Departure', type: 'date' },
+        { key: 'numberOfGuests', label: 'Guests', type: 'number' }
+      ],
+      rows: data.inHouse.map(booking => ({
+        bookingNumber: booking.bookingNumber,
+        guestId: booking.guestId,
+        roomId: booking.roomId,
+        checkInDate: format(booking.checkInDate, 'yyyy-MM-dd'),
+        checkOutDate: format(booking.checkOutDate, 'yyyy-MM-dd'),
+        numberOfGuests: booking.numberOfGuests
+      })),
+      totals: {
+        bookings: data.inHouse.length,
+        guests: data.inHouse.reduce((sum, booking) => sum + booking.numberOfGuests, 0)
+      }
+    };
+  }
+
+  /**
+   * Arrivals and departures for the business date
+   */
+  private buildArrivalsDepartures(data: DayData): DayEndReportContent {
+    const toRow = (movement: string) => (booking: Booking) => ({
+      movement,
+      bookingNumber: booking.bookingNumber,
+      guestId: booking.guestId,
+      roomType: booking.roomType,
+      roomId: booking.roomId,
+      status: booking.status,
+      numberOfGuests: booking.numberOfGuests
+    });
+
+    return {
+      type: DayEndReportType.ARRIVALS_DEPARTURES,
+      title: 'Arrivals and Departures',
+      columns: [
+        { key: 'movement', label: 'Movement', type: 'string' },
+        { key: 'bookingNumber', label: 'Booking', type: 'string' },
+        { key: 'guestId', label: 'Guest', type: 'string' },
+        { key: 'roomType', label: 'Room Type', type: 'string' },
+        { key: 'roomId', label: 'Room', type: 'string' },
+        { key: 'status', label: 'Status', type: 'string' },
+        { key: 'numberOfGuests', label: 'Guests', type: 'number' }
+      ],
+      rows: [
+        ...data.arrivals.map(toRow('ARRIVAL')),
+        ...data.departures.map(toRow('DEPARTURE'))
+      ],
+      totals: {
+        arrivals: data.arrivals.length,
+        departures: data.departures.length
+      }
+    };
+  }
+
+  /**
+   * Cancellations recorded on the business date with their fees
+   */
+  private buildCancellations(data: DayData): DayEndReportContent {
+    const totalFees = this.sum(data.cancellations.map(booking => booking.cancellationFee || 0));
+
+    return {
+      type: DayEndReportType.CANCELLATIONS,
+      title: 'Cancellations',
+      columns: [
+        { key: 'bookingNumber', label: 'Booking', type: 'string' },
+        { key: 'guestId', label: 'Guest', type: 'string' },
+        { key: 'checkInDate', label: 'Arrival', type: 'date' },
+        { key: 'reason', label: 'Reason', type: 'string' },
+        { key: 'cancellationFee', label: 'Fee', type: 'currency' }
+      ],
+      rows: data.cancellations.map(booking => ({
+        bookingNumber: booking.bookingNumber,
+        guestId: booking.guestId,
+        checkInDate: format(booking.checkInDate, 'yyyy-MM-dd'),
+        reason: booking.cancellationReason || null,
+        cancellationFee: Number(booking.cancellationFee || 0)
+      })),
+      totals: {
+        cancellations: data.cancellations.length,
+        cancellationFees: totalFees.toNumber()
+      }
+    };
+  }
+
+  /**
+   * Payments received on the business date grouped by payment method
+   */
+  private buildPaymentsByMethod(data: DayData): DayEndReportContent {
+    const grouped = this.groupBy(data.payments, payment => payment.method);
+    const rows = Object.values(PaymentMethod)
+      .filter(method => grouped.has(method))
+      .map(method => {
+        const payments = grouped.get(method) as Payment[];
+        return {
+          method,
+          count: payments.length,
+          amount: this.sum(payments.map(payment => payment.settledAmount ?? payment.amount)).toNumber(),
+          refunded: this.sum(payments.map(payment => this.refundedInFolioCurrency(payment))).toNumber(),
+          net: this.sumReceived(payments).toNumber()
+        };
+      });
+
+    return {
+      type: DayEndReportType.PAYMENTS_BY_METHOD,
+      title: 'Payments by Method',
+      columns: [
+        { key: 'method', label: 'Method', type: 'string' },
+        { key: 'count', label: 'Count', type: 'number' },
+        { key: 'amount', label: 'Amount', type: 'currency' },
+        { key: 'refunded', label: 'Refunded', type: 'currency' },
+        { key: 'net', label: 'Net', type: 'currency' }
+      ],
+      rows,
+      totals: {
+        count: data.payments.length,
+        net: this.sumReceived(data.payments).toNumber()
+      }
+    };
+  }
+
+  private groupBy<T>(items: T[], keyOf: (item: T) => string): Map<string, T[]> {
+    const groups = new Map<string, T[]>();
+    for (const item of items) {
+      const key = keyOf(item);
+      groups.set(key, [...(groups.get(key) || []), item]);
+    }
+    return groups;
+  }
+
+  private sum(values: Array<Prisma.Decimal | number>): Prisma.Decimal {
+    return values.reduce<Prisma.Decimal>((total, value) => total.plus(value), new Prisma.Decimal(0));
+  }
+
+  /**
+   * Net received in the folio currency; payments settling a folio in another currency count
+   * the amount credited to the folio
+   */
+  private sumReceived(payments: Payment[]): Prisma.Decimal {
+    return this.sum(payments.map(payment => payment.settledAmount ?? payment.amount))
+      .minus(this.sum(payments.map(payment => this.refundedInFolioCurrency(payment))));
+  }
+
+  private refundedInFolioCurrency(payment: Payment): Prisma.Decimal {
+    const refunded = new Prisma.Decimal(payment.refundedAmount || 0);
+    return payment.exchangeRate ? refunded.times(payment.exchangeRate) : refunded;
+  }
+}
+
+/**
+ * Bookings, charges and payments for one business date
+ */
+interface DayData {
+  businessDate: Date;
+  charges: FolioCharge[];
+  payments: Payment[];
+  inHouse: Booking[];
+  arrivals: Booking[];
+  departures: Booking[];
+  cancellations: Booking[];
+  totalRooms: number;
+}
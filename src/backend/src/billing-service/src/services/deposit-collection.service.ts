@@ -0,0 +1,450 @@
+/**
+ * @fileoverview Deposit collection service authorizing or capturing booking payment schedule
+ * installments through the payment gateway as they fall due. Authorized installments are held
+ * against the booking's folio towards its credit limit. Bookings with an overdue deposit move to
+ * PENDING_PAYMENT and return to CONFIRMED once the gateway accepts the payment.
+ * @version 1.0.0
+ */
+
+// External imports
+import { Injectable, Logger } from '@nestjs/common'; // v10.0.0
+import { Prisma, PrismaClient } from '@prisma/client'; // v5.0.0
+import { format } from 'date-fns'; // v2.30.0
+
+// Internal imports
+import { prisma as billingPrisma } from '../config/database';
+import { Folio, FolioStatus } from '../models/folio.model';
+import { PaymentMethod, PaymentStatus } from '../models/payment.model';
+import { exposureOf } from '../models/credit-limit.model';
+import { GatewayResponse, PaymentGatewayService } from './payment-gateway.service';
+import { CreditLimitService } from './credit-limit.service';
+import {
+  Booking,
+  BookingStatus,
+  PaymentStatus as BookingPaymentStatus
+} from '../../../reservation-service/src/models/booking.model';
+import {
+  DepositCollectionMode,
+  InstallmentStatus,
+  PaymentInstallment,
+  PaymentSchedule,
+  OUTSTANDING_INSTALLMENT_STATUSES
+} from '../../../reservation-service/src/models/payment-schedule.model';
+import { BusinessDateService } from '../../../shared/services/business-date.service';
+import { ErrorCode, createErrorDetails } from '../../../shared/constants/error-codes';
+
+/**
+ * User recorded on postings made by the scheduled deposit collection
+ */
+export const DEPOSIT_COLLECTION_USER = 'DEPOSIT_COLLECTION';
+
+/**
+ * Booking statuses whose installments are still collected
+ */
+const COLLECTIBLE_BOOKING_STATUSES = [
+  BookingStatus.PENDING,
+  BookingStatus.PENDING_CONFIRMATION,
+  BookingStatus.PENDING_PAYMENT,
+  BookingStatus.CONFIRMED,
+  BookingStatus.CHECKED_IN
+];
+
+/**
+ * Booking statuses moved to PENDING_PAYMENT when a deposit is overdue
+ */
+const GUARANTEE_REQUIRED_STATUSES = [BookingStatus.PENDING, BookingStatus.CONFIRMED];
+
+/**
+ * Installment joined with its schedule
+ */
+type DueInstallment = PaymentInstallment & { schedule: PaymentSchedule };
+
+/**
+ * Outcome of one deposit collection run
+ */
+export interface DepositCollectionRun {
+  businessDate: Date;
+  attempted: number;
+  collected: number;
+  failed: number;
+  /** Bookings moved to PENDING_PAYMENT */
+  pendingPayment: number;
+  /** Bookings moved back to CONFIRMED */
+  confirmed: number;
+}
+
+/**
+ * Service collecting scheduled deposits
+ */
+@Injectable()
+export class DepositCollectionService {
+  private readonly logger = new Logger(DepositCollectionService.name);
+  private scheduledRun: NodeJS.Timeout | null = null;
+
+  constructor(
+    private readonly paymentGateway: PaymentGatewayService,
+    private readonly prisma: PrismaClient = billingPrisma,
+    private readonly businessDates: BusinessDateService = new BusinessDateService(prisma),
+    private readonly creditLimits: CreditLimitService = new CreditLimitService(prisma, businessDates)
+  ) {}
+
+  /**
+   * Collects every outstanding installment due on or before the business date, then updates the
+   * status of the bookings involved
+   * @param userId - User or job starting the collection
+   */
+  async collectDueInstallments(userId: string = DEPOSIT_COLLECTION_USER): Promise<DepositCollectionRun> {
+    const businessDate = await this.businessDates.getBusinessDate();
+    const run: DepositCollectionRun = {
+      businessDate,
+      attempted: 0,
+      collected: 0,
+      failed: 0,
+      pendingPayment: 0,
+      confirmed: 0
+    };
+
+    const due = await this.prisma.paymentInstallment.findMany({
+      where: {
+        status: { in: OUTSTANDING_INSTALLMENT_STATUSES },
+        dueDate: { lte: businessDate }
+      },
+      include: { schedule: true },
+      orderBy: [{ dueDate: 'asc' }, { sequence: 'asc' }]
+    }) as DueInstallment[];
+
+    const bookings = new Map<string, Booking>();
+    for (const installment of due) {
+      const bookingId = installment.schedule.bookingId;
+      if (!bookings.has(bookingId)) {
+        const booking = await this.prisma.booking.findUnique({ where: { id: bookingId } }) as Booking | null;
+        if (!booking || !COLLECTIBLE_BOOKING_STATUSES.includes(booking.status)) {
+          continue;
+        }
+        bookings.set(bookingId, booking);
+      }
+
+      // One installment going wrong does not stop the others from being collected
+      run.attempted++;
+      try {
+        const status = await this.collect(installment, bookings.get(bookingId) as Booking, businessDate);
+        if (status === InstallmentStatus.FAILED) {
+          run.failed++;
+        } else {
+          run.collected++;
+        }
+      } catch (error) {
+        this.logger.error(`Recording installment ${installment.id} failed: ${error.message || error.code}`);
+        run.failed++;
+      }
+    }
+
+    for (const booking of bookings.values()) {
+      const status = await this.syncBookingStatus(booking, businessDate, userId);
+      if (status === BookingStatus.PENDING_PAYMENT) {
+        run.pendingPayment++;
+      } else if (status === BookingStatus.CONFIRMED) {
+        run.confirmed++;
+      }
+    }
+
+    this.logger.log(`Deposit collection for ${format(businessDate, 'yyyy-MM-dd')} completed`, run);
+    return run;
+  }
+
+  /**
+   * Collects a single outstanding installment now, regardless of its due date
+   * @param installmentId - Installment ID
+   * @param userId - User retrying the installment
+   * @throws ErrorCode.RESOURCE_NOT_FOUND if the installment does not exist
+   * @throws ErrorCode.BUSINESS_RULE_VIOLATION if the installment is not outstanding or its booking is closed
+   */
+  async collectInstallment(installmentId: string, userId: string): Promise<PaymentInstallment> {
+    const installment = await this.prisma.paymentInstallment.findUnique({
+      where: { id: installmentId },
+      include: { schedule: true }
+    }) as DueInstallment | null;
+
+    if (!installment) {
+      throw createErrorDetails(ErrorCode.RESOURCE_NOT_FOUND, {
+        message: 'Payment installment not found',
+        installmentId
+      });
+    }
+
+    if (!OUTSTANDING_INSTALLMENT_STATUSES.includes(installment.status)) {
+      throw createErrorDetails(ErrorCode.BUSINESS_RULE_VIOLATION, {
+        message: `Installment is already ${installment.status.toLowerCase()}`,
+        installmentId
+      });
+    }
+
+    const booking = await this.prisma.booking.findUnique({
+      where: { id: installment.schedule.bookingId }
+    }) as Booking | null;
+
+    if (!booking || !COLLECTIBLE_BOOKING_STATUSES.includes(booking.status)) {
+      throw createErrorDetails(ErrorCode.BUSINESS_RULE_VIOLATION, {
+        message: 'Deposits are no longer collected for this booking',
+        installmentId
+      });
+    }
+
+    const businessDate = await this.businessDates.getBusinessDate();
+    await this.collect(installment, booking, businessDate);
+    await this.syncBookingStatus(booking, businessDate, userId);
+
+    return this.prisma.paymentInstallment.findUnique({ where: { id: installmentId } }) as Promise<PaymentInstallment>;
+  }
+
+  /**
+   * Schedules the deposit collection daily at the configured local time
+   * @param time - Time of day in HH:mm format
+   */
+  scheduleDaily(time: string = process.env.DEPOSIT_COLLECTION_TIME || '06:00'): void {
+    const [hours, minutes] = time.split(':').map(Number);
+    const now = new Date();
+    const nextRun = new Date(now);
+    nextRun.setHours(hours, minutes, 0, 0);
+    if (nextRun <= now) {
+      nextRun.setDate(nextRun.getDate() + 1);
+    }
+
+    this.cancelSchedule();
+    this.scheduledRun = setTimeout(async () => {
+      try {
+        await this.collectDueInstallments(DEPOSIT_COLLECTION_USER);
+      } catch (error) {
+        this.logger.error(`Scheduled deposit collection failed: ${error.message || error.code}`);
+      }
+      this.scheduleDaily(time);
+    }, nextRun.getTime() - now.getTime());
+  }
+
+  /**
+   * Cancels the scheduled deposit collection
+   */
+  cancelSchedule(): void {
+    if (this.scheduledRun) {
+      clearTimeout(this.scheduledRun);
+      this.scheduledRun = null;
+    }
+  }
+
+  /**
+   * Authorizes, and for capture installments captures, the installment on the schedule's card
+   * and records the payment on the booking's main folio on the business date
+   * @returns Status the installment ended in
+   */
+  private async collect(installment: DueInstallment, booking: Booking, businessDate: Date): Promise<InstallmentStatus> {
+    const { schedule } = installment;
+    if (!schedule.cardToken) {
+      return this.recordFailure(installment, 'No card on file');
+    }
+
+    const folio = await this.getOrOpenFolio(booking, schedule.currency, businessDate);
+    const amount = Number(installment.amount);
+    const capture = installment.collectionMode === DepositCollectionMode.CAPTURE;
+
+    let authorization: GatewayResponse | undefined;
+    try {
+      authorization = await this.paymentGateway.authorize({
+        amount,
+        currency: schedule.currency,
+        paymentMethod: PaymentMethod.CREDIT_CARD,
+        cardToken: schedule.cardToken,
+        guestId: booking.guestId,
+        folioId: folio.id,
+        metadata: { bookingId: booking.id, installmentId: installment.id, sequence: installment.sequence }
+      }).toPromise();
+
+      if (authorization?.success && capture) {
+        const captured = await this.paymentGateway.capture(authorization.transactionId, amount).toPromise();
+        if (!captured?.success) {
+          return this.recordFailure(installment, captured?.errorMessage || 'Capture declined by gateway');
+        }
+      }
+    } catch (error) {
+      this.logger.error(`Collecting installment ${installment.id} failed: ${error.message || error.code}`);
+      return this.recordFailure(installment, error.message || String(error.code));
+    }
+
+    if (!authorization?.success) {
+      return this.recordFailure(installment, authorization?.errorMessage || 'Authorization declined by gateway');
+    }
+
+    const { transactionId, gatewayReference, authorizationCode, riskScore } = authorization;
+    const status = capture ? InstallmentStatus.CAPTURED : InstallmentStatus.AUTHORIZED;
+    await this.prisma.$transaction(async (tx) => {
+      // Guard on the status read so a concurrent run cannot record the same installment twice
+      const { count } = await tx.paymentInstallment.updateMany({
+        where: { id: installment.id, status: installment.status },
+        data: {
+          status,
+          transactionId,
+          attempts: { increment: 1 },
+          lastError: null,
+          collectedAt: new Date(),
+          updatedAt: new Date()
+        }
+      });
+
+      if (count === 0) {
+        throw createErrorDetails(ErrorCode.RESOURCE_CONFLICT, {
+          message: 'Installment was collected concurrently',
+          installmentId: installment.id,
+          transactionId
+        });
+      }
+
+      await tx.payment.create({
+        data: {
+          transactionId,
+          folioId: folio.id,
+          guestId: booking.guestId,
+          amount: new Prisma.Decimal(amount),
+          currency: schedule.currency,
+          businessDate,
+          method: PaymentMethod.CREDIT_CARD,
+          status: capture ? PaymentStatus.CAPTURED : PaymentStatus.AUTHORIZED,
+          gatewayReference,
+          authorizationCode: authorizationCode || null,
+          refundedAmount: new Prisma.Decimal(0),
+          metadata: { bookingId: booking.id, installmentId: installment.id },
+          riskScore: riskScore ?? null
+        }
+      });
+
+      // Only captured money reduces what the guest owes; an authorization is held towards the credit limit
+      await tx.folio.update({
+        where: { id: folio.id },
+        data: capture
+          ? { balance: { decrement: new Prisma.Decimal(amount) }, updatedAt: new Date() }
+          : { authorizedAmount: { increment: new Prisma.Decimal(amount) }, updatedAt: new Date() }
+      });
+    });
+    await this.creditLimits.recordPostings([folio.id]);
+
+    this.logger.log(`Installment ${installment.sequence} of ${booking.bookingNumber} ${status.toLowerCase()} (${amount})`);
+    return status;
+  }
+
+  /**
+   * Marks an installment failed; it is retried on the next run while still outstanding
+   */
+  private async recordFailure(installment: PaymentInstallment, message: string): Promise<InstallmentStatus> {
+    await this.prisma.paymentInstallment.update({
+      where: { id: installment.id },
+      data: {
+        status: InstallmentStatus.FAILED,
+        attempts: { increment: 1 },
+        lastError: message,
+        updatedAt: new Date()
+      }
+    });
+
+    this.logger.warn(`Installment ${installment.id} not collected: ${message}`);
+    return InstallmentStatus.FAILED;
+  }
+
+  /**
+   * Main open folio of the booking; deposits collected before arrival open it
+   */
+  private async getOrOpenFolio(booking: Booking, currency: string, businessDate: Date): Promise<Folio> {
+    const folio = await this.prisma.folio.findFirst({
+      where: { reservationId: booking.id, status: FolioStatus.OPEN, isMainFolio: true }
+    }) as Folio | null;
+
+    if (folio) {
+      return folio;
+    }
+
+    return this.prisma.folio.create({
+      data: {
+        folioNumber: `F-${booking.bookingNumber}`,
+        guestId: booking.guestId,
+        reservationId: booking.id,
+        roomId: booking.roomId,
+        balance: new Prisma.Decimal(0),
+        currency,
+        status: FolioStatus.OPEN,
+        openDate: businessDate,
+        closeDate: null,
+        isMainFolio: true,
+        authorizedAmount: new Prisma.Decimal(0),
+        exposure: exposureOf({ balance: new Prisma.Decimal(0), authorizedAmount: new Prisma.Decimal(0) }),
+        creditAlertedAt: null,
+        parentFolioId: null,
+        notes: 'Opened for advance deposit'
+      }
+    }) as Promise<Folio>;
+  }
+
+  /**
+   * Moves a booking with an overdue installment to PENDING_PAYMENT and back to CONFIRMED once
+   * nothing is overdue, and derives its payment status from the captured installments
+   * @returns New booking status, or null when it did not change
+   */
+  private async syncBookingStatus(booking: Booking, businessDate: Date, userId: string): Promise<BookingStatus | null> {
+    const installments = await this.prisma.paymentInstallment.findMany({
+      where: { schedule: { bookingId: booking.id } }
+    }) as PaymentInstallment[];
+
+    const overdue = installments.some(installment =>
+      OUTSTANDING_INSTALLMENT_STATUSES.includes(installment.status) && installment.dueDate <= businessDate
+    );
+    const captured = installments
+      .filter(installment => installment.status === InstallmentStatus.CAPTURED)
+      .reduce((sum, installment) => sum + Number(installment.amount), 0);
+
+    const previousStatus = booking.status;
+    let status = previousStatus;
+    if (overdue && GUARANTEE_REQUIRED_STATUSES.includes(previousStatus)) {
+      status = BookingStatus.PENDING_PAYMENT;
+    } else if (!overdue && previousStatus === BookingStatus.PENDING_PAYMENT) {
+      status = BookingStatus.CONFIRMED;
+    }
+
+    let paymentStatus = booking.paymentStatus;
+    if (overdue) {
+      paymentStatus = BookingPaymentStatus.PAYMENT_FAILED;
+    } else if (captured >= Number(booking.totalAmount || 0)) {
+      paymentStatus = BookingPaymentStatus.PAID;
+    } else if (captured > 0) {
+      paymentStatus = BookingPaymentStatus.PARTIALLY_PAID;
+    } else if (paymentStatus === BookingPaymentStatus.PAYMENT_FAILED) {
+      paymentStatus = BookingPaymentStatus.UNPAID;
+    }
+
+    if (status === previousStatus && paymentStatus === booking.paymentStatus) {
+      return null;
+    }
+
+    // Guard on the status read so a concurrent cancellation or check-in is not overwritten
+    const { count } = await this.prisma.booking.updateMany({
+      where: { id: booking.id, status: booking.status },
+      data: {
+        status,
+        paymentStatus,
+        lastModifiedBy: userId,
+        updatedAt: new Date(),
+        auditTrail: [
+          ...booking.auditTrail,
+          {
+            timestamp: new Date(),
+            action: overdue ? 'DEPOSIT_OVERDUE' : 'DEPOSIT_RECEIVED',
+            userId,
+            changes: { status, paymentStatus, businessDate: format(businessDate, 'yyyy-MM-dd') }
+          }
+        ]
+      }
+    });
+
+    if (count === 0) {
+      this.logger.warn(`Booking ${booking.bookingNumber} changed during deposit collection; status left as is`);
+      return null;
+    }
+
+    return status !== previousStatus ? status : null;
+  }
+}
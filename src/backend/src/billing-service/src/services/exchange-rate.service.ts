@@ -0,0 +1,231 @@
+/**
+ * @fileoverview Exchange-rate service keeping the daily rate tables and converting amounts
+ * between currencies. Every rate is quoted against the property currency, so any two currencies
+ * convert through it; a table applies from its date until a later table lists the currency.
+ * @version 1.0.0
+ */
+
+// External imports
+import { Injectable, Logger } from '@nestjs/common'; // v10.0.0
+import { Prisma, PrismaClient } from '@prisma/client'; // v5.0.0
+import { format, parseISO, startOfDay } from 'date-fns'; // v2.30.0
+import { readFile } from 'fs/promises';
+
+// Internal imports
+import { prisma as billingPrisma } from '../config/database';
+import {
+  CurrencyConversion,
+  ExchangeRate,
+  ExchangeRateSource,
+  ExchangeRateTableDto,
+  PROPERTY_CURRENCY,
+  parseExchangeRateFile,
+  roundToCurrency
+} from '../models/exchange-rate.model';
+import { BusinessDateService } from '../../../shared/services/business-date.service';
+import { ErrorCode, createErrorDetails } from '../../../shared/constants/error-codes';
+
+const CURRENCY_CODE = /^[A-Z]{3}$/;
+
+/**
+ * Service managing exchange-rate tables and currency conversion
+ */
+@Injectable()
+export class ExchangeRateService {
+  private readonly logger = new Logger(ExchangeRateService.name);
+
+  constructor(
+    private readonly prisma: PrismaClient = billingPrisma,
+    private readonly businessDates: BusinessDateService = new BusinessDateService(prisma)
+  ) {}
+
+  /**
+   * Returns the rate of every currency in force on a date
+   * @param date - Day the rates apply to; the business date when omitted
+   */
+  async getTable(date?: Date): Promise<ExchangeRate[]> {
+    const day = startOfDay(date || await this.businessDates.getBusinessDate());
+
+    return this.prisma.exchangeRate.findMany({
+      where: { baseCurrency: PROPERTY_CURRENCY, effectiveDate: { lte: day } },
+      orderBy: [{ currency: 'asc' }, { effectiveDate: 'desc' }],
+      distinct: ['currency']
+    }) as Promise<ExchangeRate[]>;
+  }
+
+  /**
+   * Loads the table of one day, replacing rates already loaded for that day
+   * @param data - Day, rates by currency, source and the user loading them
+   * @throws ErrorCode.VALIDATION_ERROR if a currency code or rate is invalid
+   */
+  async loadTable(data: ExchangeRateTableDto): Promise<ExchangeRate[]> {
+    this.validateRates(data.rates);
+    const effectiveDate = startOfDay(data.effectiveDate);
+    const entries = Object.entries(data.rates);
+    const currencies = entries.map(([currency]) => currency);
+    await this.prisma.$transaction(async (tx) => {
+      await tx.exchangeRate.deleteMany({
+        where: { baseCurrency: PROPERTY_CURRENCY, effectiveDate, currency: { in: currencies } }
+      });
+      await tx.exchangeRate.createMany({
+        data: entries.map(([currency, rate]) => ({
+          currency,
+          baseCurrency: PROPERTY_CURRENCY,
+          rate: new Prisma.Decimal(rate),
+          effectiveDate,
+          source: data.source,
+          loadedBy: data.userId
+        }))
+      });
+    });
+
+    this.logger.log(`Loaded ${entries.length} exchange rates for ${format(effectiveDate, 'yyyy-MM-dd')} from ${data.source}`);
+
+    return this.prisma.exchangeRate.findMany({
+      where: { baseCurrency: PROPERTY_CURRENCY, effectiveDate, currency: { in: currencies } },
+      orderBy: { currency: 'asc' }
+    }) as Promise<ExchangeRate[]>;
+  }
+
+  /**
+   * Loads every table of a rate file's content
+   * @param content - Lines of `date,currency,rate`
+   * @param userId - User or job loading the file
+   * @param source - FILE for the provider's file, ADMIN when pasted in by staff
+   * @returns Rates loaded
+   * @throws ErrorCode.VALIDATION_ERROR if a line or rate is invalid; nothing is loaded then
+   */
+  async importRates(
+    content: string,
+    userId: string,
+    source: ExchangeRateSource = ExchangeRateSource.FILE
+  ): Promise<ExchangeRate[]> {
+    let tables: Map<string, Record<string, number>>;
+    try {
+      tables = parseExchangeRateFile(content);
+    } catch (error) {
+      throw createErrorDetails(ErrorCode.VALIDATION_ERROR, { message: error.message });
+    }
+
+    if (tables.size === 0) {
+      throw createErrorDetails(ErrorCode.VALIDATION_ERROR, {
+        message: 'Exchange-rate file has no rates'
+      });
+    }
+
+    // Check every table first so a bad line further down loads nothing
+    tables.forEach(rates => this.validateRates(rates));
+
+    const loaded: ExchangeRate[] = [];
+    for (const [date, rates] of tables) {
+      loaded.push(...await this.loadTable({ effectiveDate: parseISO(date), rates, source, userId }));
+    }
+    return loaded;
+  }
+
+  /**
+   * Loads the rate file the provider drops on disk
+   * @param userId - User or job loading the file
+   * @param path - File path; `EXCHANGE_RATE_FILE` when omitted
+   */
+  async loadFile(userId: string, path: string | undefined = process.env.EXCHANGE_RATE_FILE): Promise<ExchangeRate[]> {
+    if (!path) {
+      throw createErrorDetails(ErrorCode.VALIDATION_ERROR, {
+        message: 'No exchange-rate file configured'
+      });
+    }
+
+    return this.importRates(await readFile(path, 'utf8'), userId, ExchangeRateSource.FILE);
+  }
+
+  /**
+   * Returns the units of one currency a unit of another buys on a date
+   * @param fromCurrency - Currency converted from
+   * @param toCurrency - Currency converted to
+   * @param date - Day of the rate; the business date when omitted
+   * @throws ErrorCode.BUSINESS_RULE_VIOLATION if no table on or before the date lists a currency
+   */
+  async getRate(fromCurrency: string, toCurrency: string, date?: Date): Promise<number> {
+    if (fromCurrency === toCurrency) {
+      return 1;
+    }
+
+    const day = startOfDay(date || await this.businessDates.getBusinessDate());
+    const [fromRate, toRate] = await Promise.all([
+      this.getPropertyRate(fromCurrency, day),
+      this.getPropertyRate(toCurrency, day)
+    ]);
+
+    return Number((fromRate / toRate).toFixed(8));
+  }
+
+  /**
+   * Converts an amount, rounded to the minor units of the target currency
+   * @param amount - Amount in `fromCurrency`
+   * @param fromCurrency - Currency converted from
+   * @param toCurrency - Currency converted to
+   * @param date - Day of the rate; the business date when omitted
+   * @throws ErrorCode.BUSINESS_RULE_VIOLATION if no rate is loaded for a currency
+   */
+  async convert(amount: number, fromCurrency: string, toCurrency: string, date?: Date): Promise<CurrencyConversion> {
+    const rateDate = startOfDay(date || await this.businessDates.getBusinessDate());
+    const rate = await this.getRate(fromCurrency, toCurrency, rateDate);
+
+    return {
+      fromCurrency,
+      toCurrency,
+      rate,
+      rateDate,
+      amount,
+      convertedAmount: roundToCurrency(amount * rate, toCurrency)
+    };
+  }
+
+  private validateRates(rates: Record<string, number>): void {
+    const entries = Object.entries(rates);
+    if (entries.length === 0) {
+      throw createErrorDetails(ErrorCode.VALIDATION_ERROR, {
+        message: 'Exchange-rate table has no rates'
+      });
+    }
+
+    for (const [currency, rate] of entries) {
+      if (!CURRENCY_CODE.test(currency) || currency === PROPERTY_CURRENCY) {
+        throw createErrorDetails(ErrorCode.VALIDATION_ERROR, {
+          message: `${currency} is not a foreign currency code`,
+          currency
+        });
+      }
+      if (!Number.isFinite(rate) || rate <= 0) {
+        throw createErrorDetails(ErrorCode.VALIDATION_ERROR, {
+          message: `Rate of ${currency} must be greater than zero`,
+          currency,
+          rate
+        });
+      }
+    }
+  }
+
+  /**
+   * Units of the property currency one unit of a currency buys on a day
+   */
+  private async getPropertyRate(currency: string, day: Date): Promise<number> {
+    if (currency === PROPERTY_CURRENCY) {
+      return 1;
+    }
+
+    const rate = await this.prisma.exchangeRate.findFirst({
+      where: { currency, baseCurrency: PROPERTY_CURRENCY, effectiveDate: { lte: day } },
+      orderBy: { effectiveDate: 'desc' }
+    }) as ExchangeRate | null;
+
+    if (!rate) {
+      throw createErrorDetails(ErrorCode.BUSINESS_RULE_VIOLATION, {
+        message: `No exchange rate for ${currency} on or before ${format(day, 'yyyy-MM-dd')}`,
+        currency
+      });
+    }
+
+    return Number(rate.rate);
+  }
+}
@@ -0,0 +1,123 @@
+/**
+ * @fileoverview Folio posting service through which other services post charges to a booking's
+ * folios. Each charge goes to the folio routing picks for it, is refused when it would take that
+ * folio over its credit limit and lands as a POSTED charge the general ledger journals on its
+ * posting date. Refunds made through the payment gateway are recorded on their payment and folio
+ * the same way. The exposure of the folios posted to is updated once the postings are committed.
+ * @version 1.0.0
+ */
+
+// External imports
+import { Injectable } from '@nestjs/common'; // v10.0.0
+import { Prisma, PrismaClient } from '@prisma/client'; // v5.0.0
+
+// Internal imports
+import { prisma as billingPrisma } from '../config/database';
+import { ChargeStatus, Folio, FolioCharge, FolioChargePosting } from '../models/folio.model';
+import { Payment, PaymentStatus } from '../models/payment.model';
+import { FolioRoutingService } from './folio-routing.service';
+import { CreditLimitService } from './credit-limit.service';
+import { BusinessDateService } from '../../../shared/services/business-date.service';
+
+/**
+ * Service posting charges to guest folios on behalf of other services
+ */
+@Injectable()
+export class FolioPostingService {
+  constructor(
+    private readonly prisma: PrismaClient = billingPrisma,
+    private readonly businessDates: BusinessDateService = new BusinessDateService(prisma),
+    private readonly folioRouting: FolioRoutingService = new FolioRoutingService(prisma, businessDates),
+    private readonly creditLimits: CreditLimitService = new CreditLimitService(prisma, businessDates)
+  ) {}
+
+  /**
+   * Posts a charge to the folio routing picks for it and adds it to that folio's balance
+   * @param folio - Booking's main open folio
+   * @param posting - Charge to post
+   * @param client - Transaction to post in, with the change the charge belongs to
+   * @returns Posted charge; pass its folio to `recordPostings` once the transaction is committed
+   * @throws ErrorCode.BUSINESS_RULE_VIOLATION if the charge would take the folio over its credit limit
+   */
+  async postCharge(
+    folio: Folio,
+    posting: FolioChargePosting,
+    client: Prisma.TransactionClient | PrismaClient = this.prisma
+  ): Promise<FolioCharge> {
+    const target = await this.folioRouting.routeCharge(folio, {
+      category: posting.category,
+      department: posting.department
+    }, client);
+    const totalAmount = posting.amount.plus(posting.taxAmount);
+
+    // Credits only ever lower the exposure
+    if (totalAmount.gt(0)) {
+      this.creditLimits.assertCanPost(target, totalAmount);
+    }
+
+    const charge = await client.folioCharge.create({
+      data: {
+        folioId: target.id,
+        description: posting.description,
+        amount: posting.amount,
+        category: posting.category,
+        department: posting.department,
+        postingDate: posting.postingDate,
+        taxRate: posting.amount.isZero()
+          ? new Prisma.Decimal(0)
+          : posting.taxAmount.dividedBy(posting.amount).abs().toDecimalPlaces(4),
+        taxAmount: posting.taxAmount,
+        totalAmount,
+        invoiceId: null,
+        status: ChargeStatus.POSTED,
+        reference: posting.reference,
+        notes: posting.notes ?? null
+      }
+    }) as FolioCharge;
+
+    await client.folio.update({
+      where: { id: target.id },
+      data: { balance: { increment: totalAmount }, updatedAt: new Date() }
+    });
+
+    return charge;
+  }
+
+  /**
+   * Records a refund the payment gateway made on a payment and adds it back to the balance of the
+   * payment's folio; the general ledger journals it with the payment's other refunds
+   * @param payment - Refunded payment
+   * @param amount - Amount refunded
+   * @returns Updated payment; pass its folio to `recordPostings`
+   */
+  async recordRefund(payment: Payment, amount: Prisma.Decimal): Promise<Payment> {
+    const refundedAmount = new Prisma.Decimal(payment.refundedAmount || 0).plus(amount);
+
+    return this.prisma.$transaction(async (tx) => {
+      const refunded = await tx.payment.update({
+        where: { id: payment.id },
+        data: {
+          refundedAmount,
+          status: refundedAmount.gte(payment.amount) ? PaymentStatus.REFUNDED : PaymentStatus.PARTIALLY_REFUNDED,
+          updatedAt: new Date()
+        }
+      }) as Payment;
+
+      await tx.folio.update({
+        where: { id: payment.folioId },
+        data: { balance: { increment: amount }, updatedAt: new Date() }
+      });
+
+      return refunded;
+    });
+  }
+
+  /**
+   * Brings the credit exposure of folios up to date after postings to them were committed
+   * @param folioIds - Folios posted to
+   * @throws ErrorCode.DATABASE_ERROR listing the folios whose exposure could not be updated
+   */
+  async recordPostings(folioIds: string[]): Promise<void> {
+    await this.creditLimits.recordPostings(folioIds);
+  }
+}
@@ -0,0 +1,278 @@
+/**
+ * @fileoverview Folio routing service keeping a booking's routing instructions, choosing the folio
+ * each posting lands on and moving charges between folios with an audit trail. Every automatic
+ * posting asks this service for its folio so split billing holds whichever process posts.
+ * @version 1.0.0
+ */
+
+// External imports
+import { Injectable, Logger } from '@nestjs/common'; // v10.0.0
+import { Prisma, PrismaClient } from '@prisma/client'; // v5.0.0
+
+// Internal imports
+import { prisma as billingPrisma } from '../config/database';
+import { ChargeStatus, Folio, FolioCharge, FolioStatus } from '../models/folio.model';
+import {
+  CreateRoutingInstructionDto,
+  FolioChargeTransfer,
+  FolioRoutingInstruction,
+  RoutableCharge,
+  TransferChargesDto,
+  matchesRoutingInstruction
+} from '../models/folio-routing.model';
+import { BusinessDateService } from '../../../shared/services/business-date.service';
+import { ErrorCode, createErrorDetails } from '../../../shared/constants/error-codes';
+
+/**
+ * Charge statuses that count towards a folio balance and can be moved
+ */
+const TRANSFERABLE_CHARGE_STATUSES = [ChargeStatus.POSTED, ChargeStatus.ADJUSTED];
+
+/**
+ * Service routing charges between a booking's folios
+ */
+@Injectable()
+export class FolioRoutingService {
+  private readonly logger = new Logger(FolioRoutingService.name);
+
+  constructor(
+    private readonly prisma: PrismaClient = billingPrisma,
+    private readonly businessDates: BusinessDateService = new BusinessDateService(prisma)
+  ) {}
+
+  /**
+   * Lists a booking's active routing instructions in evaluation order
+   * @param reservationId - Booking ID
+   */
+  async listInstructions(reservationId: string): Promise<FolioRoutingInstruction[]> {
+    return this.prisma.folioRoutingInstruction.findMany({
+      where: { reservationId, isActive: true },
+      orderBy: [{ priority: 'asc' }, { createdAt: 'asc' }]
+    }) as Promise<FolioRoutingInstruction[]>;
+  }
+
+  /**
+   * Adds a routing instruction to a booking. Charges posted from now on follow it; charges
+   * already posted are moved with a transfer.
+   * @param data - Booking, target folio and the charges to route
+   * @throws ErrorCode.RESOURCE_NOT_FOUND if the booking or target folio does not exist
+   * @throws ErrorCode.BUSINESS_RULE_VIOLATION if the target folio is not open
+   */
+  async createInstruction(data: CreateRoutingInstructionDto): Promise<FolioRoutingInstruction> {
+    const booking = await this.prisma.booking.findUnique({ where: { id: data.reservationId } });
+    if (!booking) {
+      throw createErrorDetails(ErrorCode.RESOURCE_NOT_FOUND, {
+        message: 'Booking not found',
+        reservationId: data.reservationId
+      });
+    }
+
+    await this.getOpenFolio(data.targetFolioId);
+
+    const instruction = await this.prisma.folioRoutingInstruction.create({
+      data: {
+        reservationId: data.reservationId,
+        targetFolioId: data.targetFolioId,
+        chargeCategories: data.chargeCategories || [],
+        departments: data.departments || [],
+        priority: data.priority ?? 0,
+        description: data.description || null,
+        isActive: true,
+        createdBy: data.userId
+      }
+    }) as FolioRoutingInstruction;
+
+    this.logger.log(`Routing instruction ${instruction.id} added to booking ${data.reservationId} by ${data.userId}`);
+    return instruction;
+  }
+
+  /**
+   * Deactivates a routing instruction; charges it already routed stay where they are
+   * @param id - Instruction ID
+   * @param userId - User removing the instruction
+   * @throws ErrorCode.RESOURCE_NOT_FOUND if no active instruction has the ID
+   */
+  async removeInstruction(id: string, userId: string): Promise<FolioRoutingInstruction> {
+    const instruction = await this.prisma.folioRoutingInstruction.findFirst({ where: { id, isActive: true } });
+    if (!instruction) {
+      throw createErrorDetails(ErrorCode.RESOURCE_NOT_FOUND, {
+        message: 'Routing instruction not found',
+        instructionId: id
+      });
+    }
+
+    const removed = await this.prisma.folioRoutingInstruction.update({
+      where: { id },
+      data: { isActive: false, updatedAt: new Date() }
+    }) as FolioRoutingInstruction;
+
+    this.logger.log(`Routing instruction ${id} removed by ${userId}`);
+    return removed;
+  }
+
+  /**
+   * Returns the folio a charge of the booking owning `folio` is posted to: the target of the
+   * first matching instruction, or `folio` itself. A target that is no longer open is passed
+   * over so the charge is never lost.
+   * @param folio - Booking's main open folio
+   * @param charge - Category and department of the charge
+   * @param client - Client to read with, so postings inside a transaction see their own writes
+   */
+  async routeCharge(
+    folio: Folio,
+    charge: RoutableCharge,
+    client: Prisma.TransactionClient | PrismaClient = this.prisma
+  ): Promise<Folio> {
+    const instructions = await client.folioRoutingInstruction.findMany({
+      where: { reservationId: folio.reservationId, isActive: true },
+      orderBy: [{ priority: 'asc' }, { createdAt: 'asc' }]
+    }) as FolioRoutingInstruction[];
+
+    for (const instruction of instructions.filter(candidate => matchesRoutingInstruction(candidate, charge))) {
+      if (instruction.targetFolioId === folio.id) {
+        return folio;
+      }
+
+      const target = await client.folio.findFirst({
+        where: { id: instruction.targetFolioId, status: FolioStatus.OPEN }
+      }) as Folio | null;
+      if (target) {
+        return target;
+      }
+
+      this.logger.warn(`Routing target folio ${instruction.targetFolioId} is not open; instruction ${instruction.id} skipped`);
+    }
+
+    return folio;
+  }
+
+  /**
+   * Moves charges between two open folios of the same currency, adjusting both balances and
+   * recording a transfer per charge
+   * @param data - Source and target folio, charges to move and the reason
+   * @throws ErrorCode.RESOURCE_NOT_FOUND if a folio or charge does not exist on the source folio
+   * @throws ErrorCode.BUSINESS_RULE_VIOLATION if a folio is not open, the currencies differ or
+   * a charge is voided, disputed or already invoiced
+   * @throws ErrorCode.RESOURCE_CONFLICT if a charge changed while it was being moved
+   */
+  async transferCharges(data: TransferChargesDto): Promise<FolioChargeTransfer[]> {
+    if (data.fromFolioId === data.toFolioId) {
+      throw createErrorDetails(ErrorCode.BUSINESS_RULE_VIOLATION, {
+        message: 'Charges are already on the target folio',
+        folioId: data.toFolioId
+      });
+    }
+
+    const source = await this.getOpenFolio(data.fromFolioId);
+    const target = await this.getOpenFolio(data.toFolioId);
+    if (source.currency !== target.currency) {
+      throw createErrorDetails(ErrorCode.BUSINESS_RULE_VIOLATION, {
+        message: `Cannot move ${source.currency} charges to a ${target.currency} folio`,
+        folioId: target.id
+      });
+    }
+
+    const chargeIds = Array.from(new Set(data.chargeIds));
+    const charges = await this.prisma.folioCharge.findMany({
+      where: { id: { in: chargeIds }, folioId: source.id }
+    }) as FolioCharge[];
+
+    const missing = chargeIds.filter(id => !charges.some(charge => charge.id === id));
+    if (missing.length) {
+      throw createErrorDetails(ErrorCode.RESOURCE_NOT_FOUND, {
+        message: 'Charges not found on the source folio',
+        folioId: source.id,
+        chargeIds: missing
+      });
+    }
+
+    const blocked = charges.filter(charge => !TRANSFERABLE_CHARGE_STATUSES.includes(charge.status) || charge.invoiceId);
+    if (blocked.length) {
+      throw createErrorDetails(ErrorCode.BUSINESS_RULE_VIOLATION, {
+        message: 'Voided, disputed and invoiced charges cannot be moved',
+        folioId: source.id,
+        chargeIds: blocked.map(charge => charge.id)
+      });
+    }
+
+    const businessDate = await this.businessDates.getBusinessDate();
+    const total = charges.reduce((sum, charge) => sum.plus(charge.totalAmount), new Prisma.Decimal(0));
+
+    const transfers = await this.prisma.$transaction(async (tx) => {
+      const { count } = await tx.folioCharge.updateMany({
+        where: {
+          id: { in: chargeIds },
+          folioId: source.id,
+          status: { in: TRANSFERABLE_CHARGE_STATUSES },
+          invoiceId: null
+        },
+        data: { folioId: target.id }
+      });
+
+      if (count !== chargeIds.length) {
+        throw createErrorDetails(ErrorCode.RESOURCE_CONFLICT, {
+          message: 'Charges changed while they were being moved',
+          folioId: source.id
+        });
+      }
+
+      await tx.folio.update({
+        where: { id: source.id },
+        data: { balance: { decrement: total }, updatedAt: new Date() }
+      });
+      await tx.folio.update({
+        where: { id: target.id },
+        data: { balance: { increment: total }, updatedAt: new Date() }
+      });
+
+      return Promise.all(charges.map(charge => tx.folioChargeTransfer.create({
+        data: {
+          chargeId: charge.id,
+          fromFolioId: source.id,
+          toFolioId: target.id,
+          amount: charge.totalAmount,
+          reason: data.reason,
+          businessDate,
+          transferredBy: data.userId
+        }
+      })));
+    }) as FolioChargeTransfer[];
+
+    this.logger.log(
+      `${charges.length} charges totalling ${total} moved from folio ${source.folioNumber} ` +
+      `to ${target.folioNumber} by ${data.userId}`
+    );
+    return transfers;
+  }
+
+  /**
+   * Lists the charges moved onto or off a folio, latest first
+   * @param folioId - Folio ID
+   */
+  async listTransfers(folioId: string): Promise<FolioChargeTransfer[]> {
+    return this.prisma.folioChargeTransfer.findMany({
+      where: { OR: [{ fromFolioId: folioId }, { toFolioId: folioId }] },
+      orderBy: { createdAt: 'desc' }
+    }) as Promise<FolioChargeTransfer[]>;
+  }
+
+  private async getOpenFolio(folioId: string): Promise<Folio> {
+    const folio = await this.prisma.folio.findUnique({ where: { id: folioId } }) as Folio | null;
+
+    if (!folio) {
+      throw createErrorDetails(ErrorCode.RESOURCE_NOT_FOUND, {
+        message: 'Folio not found',
+        folioId
+      });
+    }
+
+    if (folio.status !== FolioStatus.OPEN) {
+      throw createErrorDetails(ErrorCode.BUSINESS_RULE_VIOLATION, {
+        message: `Folio is ${folio.status.toLowerCase()}`,
+        folioId
+      });
+    }
+
+    return folio;
+  }
+}
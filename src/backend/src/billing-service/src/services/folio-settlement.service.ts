@@ -0,0 +1,260 @@
+/**
+ * @fileoverview Folio settlement service taking payment of a folio balance in any currency with
+ * a loaded exchange rate. The payment records the rate applied, the amount credited to the folio
+ * and the realized exchange gain or loss in the property currency, and the folio's credit exposure
+ * is updated.
+ * @version 1.0.0
+ */
+
+// External imports
+import { Injectable, Logger } from '@nestjs/common'; // v10.0.0
+import { Prisma, PrismaClient } from '@prisma/client'; // v5.0.0
+import { format, startOfDay } from 'date-fns'; // v2.30.0
+import { randomUUID } from 'crypto';
+
+// Internal imports
+import { prisma as billingPrisma } from '../config/database';
+import { ChargeStatus, Folio, FolioCharge, FolioStatus } from '../models/folio.model';
+import { PaymentGateway, PaymentMethod, PaymentStatus } from '../models/payment.model';
+import {
+  FolioSettlement,
+  FolioSettlementQuote,
+  PROPERTY_CURRENCY,
+  SettleFolioDto,
+  roundToCurrency
+} from '../models/exchange-rate.model';
+import { ExchangeRateService } from './exchange-rate.service';
+import { PaymentGatewayService } from './payment-gateway.service';
+import { CreditLimitService } from './credit-limit.service';
+import { BusinessDateService } from '../../../shared/services/business-date.service';
+import { ErrorCode, createErrorDetails } from '../../../shared/constants/error-codes';
+
+/**
+ * Methods charged through the payment gateway; the others are recorded as taken at the desk
+ */
+const CARD_METHODS = [PaymentMethod.CREDIT_CARD, PaymentMethod.DEBIT_CARD];
+
+/**
+ * Service settling folios in the guest's currency
+ */
+@Injectable()
+export class FolioSettlementService {
+  private readonly logger = new Logger(FolioSettlementService.name);
+
+  constructor(
+    private readonly paymentGateway: PaymentGatewayService,
+    private readonly exchangeRates: ExchangeRateService = new ExchangeRateService(),
+    private readonly prisma: PrismaClient = billingPrisma,
+    private readonly businessDates: BusinessDateService = new BusinessDateService(prisma),
+    private readonly creditLimits: CreditLimitService = new CreditLimitService(prisma, businessDates)
+  ) {}
+
+  /**
+   * Returns what the guest pays to settle the folio balance in a currency at today's rate
+   * @param folioId - Folio to settle
+   * @param currency - Currency the guest pays in
+   * @throws ErrorCode.RESOURCE_NOT_FOUND if the folio does not exist
+   * @throws ErrorCode.BUSINESS_RULE_VIOLATION if the folio is not open or no rate is loaded
+   */
+  async quoteSettlement(folioId: string, currency: string): Promise<FolioSettlementQuote> {
+    const folio = await this.getOpenFolio(folioId);
+    const balance = Number(folio.balance);
+    const exchangeRate = await this.exchangeRates.getRate(currency, folio.currency);
+
+    return {
+      folioId,
+      folioCurrency: folio.currency,
+      balance,
+      currency,
+      exchangeRate,
+      amountDue: roundToCurrency(balance / exchangeRate, currency)
+    };
+  }
+
+  /**
+   * Takes a payment in any currency against the folio balance. The amount is converted at the
+   * business date's rate; paying the whole balance clears it exactly whatever the rounding.
+   * @param data - Folio, currency, amount, method and the cashier
+   * @throws ErrorCode.RESOURCE_NOT_FOUND if the folio does not exist
+   * @throws ErrorCode.BUSINESS_RULE_VIOLATION if the folio is not open, nothing is owed, the
+   * payment exceeds the balance or no rate is loaded
+   * @throws ErrorCode.EXTERNAL_SERVICE_ERROR if the gateway declines a card payment
+   * @throws ErrorCode.RESOURCE_CONFLICT if the balance changed while the payment was taken
+   */
+  async settleFolio(data: SettleFolioDto): Promise<FolioSettlement> {
+    const folio = await this.getOpenFolio(data.folioId);
+    const balance = Number(folio.balance);
+    if (balance <= 0) {
+      throw createErrorDetails(ErrorCode.BUSINESS_RULE_VIOLATION, {
+        message: 'Folio has no balance to settle',
+        folioId: folio.id
+      });
+    }
+
+    const businessDate = await this.businessDates.getBusinessDate();
+    const exchangeRate = await this.exchangeRates.getRate(data.currency, folio.currency, businessDate);
+    const amount = data.amount ?? roundToCurrency(balance / exchangeRate, data.currency);
+    const settledAmount = data.amount === undefined ? balance : roundToCurrency(amount * exchangeRate, folio.currency);
+
+    if (settledAmount > balance) {
+      throw createErrorDetails(ErrorCode.BUSINESS_RULE_VIOLATION, {
+        message: `Payment of ${amount} ${data.currency} exceeds the folio balance of ${balance} ${folio.currency}`,
+        folioId: folio.id
+      });
+    }
+
+    const fxGainLoss = await this.calculateGainLoss(folio, data.currency, amount, settledAmount, businessDate);
+    const transactionId = await this.takePayment(data, folio, amount);
+
+    const payment = await this.prisma.$transaction(async (tx) => {
+      // Only credit the folio if the balance still covers the payment
+      const { count } = await tx.folio.updateMany({
+        where: { id: folio.id, status: FolioStatus.OPEN, balance: { gte: new Prisma.Decimal(settledAmount) } },
+        data: { balance: { decrement: new Prisma.Decimal(settledAmount) }, updatedAt: new Date() }
+      });
+
+      if (count === 0) {
+        throw createErrorDetails(ErrorCode.RESOURCE_CONFLICT, {
+          message: 'Folio balance changed while the payment was taken',
+          folioId: folio.id,
+          transactionId
+        });
+      }
+
+      return tx.payment.create({
+        data: {
+          transactionId,
+          folioId: folio.id,
+          guestId: folio.guestId,
+          amount: new Prisma.Decimal(amount),
+          currency: data.currency,
+          businessDate,
+          exchangeRate: new Prisma.Decimal(exchangeRate),
+          settledAmount: new Prisma.Decimal(settledAmount),
+          fxGainLoss: new Prisma.Decimal(fxGainLoss),
+          method: data.paymentMethod,
+          status: PaymentStatus.CAPTURED,
+          ...(!CARD_METHODS.includes(data.paymentMethod) && { gateway: PaymentGateway.MANUAL }),
+          refundedAmount: new Prisma.Decimal(0),
+          metadata: { settledBy: data.userId }
+        }
+      });
+    });
+
+    this.logger.log(
+      `Folio ${folio.folioNumber} settled with ${amount} ${data.currency} at ${exchangeRate}: ` +
+      `${settledAmount} ${folio.currency}, FX ${fxGainLoss} ${PROPERTY_CURRENCY}`
+    );
+    await this.creditLimits.recordPostings([folio.id]);
+
+    return {
+      paymentId: payment.id,
+      transactionId,
+      currency: data.currency,
+      amount,
+      folioCurrency: folio.currency,
+      exchangeRate,
+      settledAmount,
+      fxGainLoss,
+      balance: roundToCurrency(balance - settledAmount, folio.currency)
+    };
+  }
+
+  /**
+   * Realized gain or loss in the property currency. The settled part of the balance is carried
+   * at the average rate of the days its charges were posted, weighted by their amounts; the
+   * payment is valued at the settlement date's rate.
+   */
+  private async calculateGainLoss(
+    folio: Folio,
+    currency: string,
+    amount: number,
+    settledAmount: number,
+    businessDate: Date
+  ): Promise<number> {
+    const received = amount * await this.exchangeRates.getRate(currency, PROPERTY_CURRENCY, businessDate);
+    const settlementRate = await this.exchangeRates.getRate(folio.currency, PROPERTY_CURRENCY, businessDate);
+
+    const charges = await this.prisma.folioCharge.findMany({
+      where: { folioId: folio.id, status: ChargeStatus.POSTED }
+    }) as FolioCharge[];
+
+    const ratesByDay = new Map<string, number>();
+    let charged = 0;
+    let carried = 0;
+    for (const charge of charges) {
+      const day = format(startOfDay(charge.postingDate), 'yyyy-MM-dd');
+      if (!ratesByDay.has(day)) {
+        // Charges posted before the first table loaded are carried at the settlement rate
+        ratesByDay.set(day, await this.exchangeRates
+          .getRate(folio.currency, PROPERTY_CURRENCY, charge.postingDate)
+          .catch(() => settlementRate));
+      }
+      charged += Number(charge.totalAmount);
+      carried += Number(charge.totalAmount) * (ratesByDay.get(day) as number);
+    }
+
+    const carryingRate = charged > 0 ? carried / charged : settlementRate;
+    return roundToCurrency(received - settledAmount * carryingRate, PROPERTY_CURRENCY);
+  }
+
+  /**
+   * Charges card payments through the gateway; other methods are taken at the desk
+   * @returns Transaction ID of the payment
+   */
+  private async takePayment(data: SettleFolioDto, folio: Folio, amount: number): Promise<string> {
+    if (!CARD_METHODS.includes(data.paymentMethod)) {
+      return randomUUID();
+    }
+
+    if (!data.cardToken) {
+      throw createErrorDetails(ErrorCode.VALIDATION_ERROR, {
+        message: 'Card payments require a card token',
+        folioId: folio.id
+      });
+    }
+
+    const authorization = await this.paymentGateway.authorize({
+      amount,
+      currency: data.currency,
+      paymentMethod: data.paymentMethod,
+      cardToken: data.cardToken,
+      guestId: folio.guestId,
+      folioId: folio.id,
+      metadata: { settlement: true, folioCurrency: folio.currency }
+    }).toPromise();
+
+    const captured = authorization?.success
+      ? await this.paymentGateway.capture(authorization.transactionId, amount).toPromise()
+      : authorization;
+
+    if (!captured?.success) {
+      throw createErrorDetails(ErrorCode.EXTERNAL_SERVICE_ERROR, {
+        message: captured?.errorMessage || 'Payment declined by gateway',
+        folioId: folio.id
+      });
+    }
+
+    return captured.transactionId;
+  }
+
+  private async getOpenFolio(folioId: string): Promise<Folio> {
+    const folio = await this.prisma.folio.findUnique({ where: { id: folioId } }) as Folio | null;
+
+    if (!folio) {
+      throw createErrorDetails(ErrorCode.RESOURCE_NOT_FOUND, {
+        message: 'Folio not found',
+        folioId
+      });
+    }
+
+    if (folio.status !== FolioStatus.OPEN) {
+      throw createErrorDetails(ErrorCode.BUSINESS_RULE_VIOLATION, {
+        message: `Folio is ${folio.status.toLowerCase()}`,
+        folioId
+      });
+    }
+
+    return folio;
+  }
+}
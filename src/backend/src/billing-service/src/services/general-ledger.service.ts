@@ -0,0 +1,822 @@
+/**
+ * @fileoverview General ledger service posting balanced journal entries for each closed business
+ * date: folio charges, voids and corrections of charges, payments, refunds, transfers to the city
+ * ledger and payments from city ledger accounts. Charges and payment methods are mapped to accounts by configurable rules;
+ * amounts are posted in the property currency. Periods are locked once their trial balance nets
+ * to zero, and batches are exported for the accounting system.
+ * @version 1.0.0
+ */
+
+// External imports
+import { Injectable, Logger } from '@nestjs/common'; // v10.0.0
+import { Prisma, PrismaClient } from '@prisma/client'; // v5.0.0
+import { addDays, endOfMonth, format, parseISO, startOfDay, startOfMonth } from 'date-fns'; // v2.30.0
+
+// Internal imports
+import { prisma as billingPrisma } from '../config/database';
+import {
+  ChargeAdjustmentType,
+  ChargeStatus,
+  Folio,
+  FolioCharge,
+  FolioChargeAdjustment
+} from '../models/folio.model';
+import { Payment, PaymentMethod, PaymentStatus } from '../models/payment.model';
+import { ArAccount, ArPayment } from '../models/city-ledger.model';
+import { PROPERTY_CURRENCY, roundToCurrency } from '../models/exchange-rate.model';
+import {
+  AccountingPeriod,
+  AccountingPeriodStatus,
+  ControlAccount,
+  CreateGlAccountDto,
+  CreateGlMappingDto,
+  GlAccount,
+  GlMapping,
+  GlMappingSource,
+  JournalBatch,
+  JournalBatchStatus,
+  JournalEntry,
+  JournalLine,
+  JournalSourceType,
+  TrialBalance,
+  TrialBalanceLine,
+  UpdateGlAccountDto,
+  accountingPeriodOf,
+  glMappingSpecificity,
+  matchesGlMapping
+} from '../models/general-ledger.model';
+import { ExchangeRateService } from './exchange-rate.service';
+import { BusinessDateService } from '../../../shared/services/business-date.service';
+import { ErrorCode, createErrorDetails } from '../../../shared/constants/error-codes';
+
+/**
+ * Charge statuses posted to revenue, at the amounts first posted; a voided charge is journaled
+ * when its void was recorded as an adjustment, which reverses it
+ */
+const POSTED_CHARGE_STATUSES = [ChargeStatus.POSTED, ChargeStatus.ADJUSTED, ChargeStatus.VOIDED];
+
+/**
+ * Payment statuses counted as money received
+ */
+const RECEIVED_PAYMENT_STATUSES = [
+  PaymentStatus.CAPTURED,
+  PaymentStatus.PARTIALLY_REFUNDED,
+  PaymentStatus.REFUNDED
+];
+
+/**
+ * Entry built for a source, before it is stored in a batch
+ */
+type PendingEntry = Pick<JournalEntry,
+  'sourceType' | 'sourceId' | 'sourceAmount' | 'sourceCurrency' | 'reference' | 'description' | 'lines'
+>;
+
+/**
+ * Chart of accounts and mapping rules in force while a date is posted
+ */
+type LedgerSetup = {
+  accounts: GlAccount[];
+  mappings: GlMapping[];
+};
+
+/**
+ * Service posting to and reporting on the general ledger
+ */
+@Injectable()
+export class GeneralLedgerService {
+  private readonly logger = new Logger(GeneralLedgerService.name);
+
+  constructor(
+    private readonly prisma: PrismaClient = billingPrisma,
+    private readonly businessDates: BusinessDateService = new BusinessDateService(prisma),
+    private readonly exchangeRates: ExchangeRateService = new ExchangeRateService(prisma, businessDates)
+  ) {}
+
+  /**
+   * Lists the chart of accounts by account code
+   */
+  async listAccounts(): Promise<GlAccount[]> {
+    return this.prisma.glAccount.findMany({ orderBy: { code: 'asc' } }) as Promise<GlAccount[]>;
+  }
+
+  /**
+   * Adds an account to the chart of accounts
+   * @param data - Code, name, type and optional control role
+   * @throws ErrorCode.RESOURCE_CONFLICT if the code is taken or another account holds the role
+   */
+  async createAccount(data: CreateGlAccountDto): Promise<GlAccount> {
+    const existing = await this.prisma.glAccount.findFirst({ where: { code: data.code } });
+    if (existing) {
+      throw createErrorDetails(ErrorCode.RESOURCE_CONFLICT, {
+        message: `Account code ${data.code} is already in use`,
+        code: data.code
+      });
+    }
+    if (data.controlAccount) {
+      await this.assertControlAccountFree(data.controlAccount);
+    }
+
+    const account = await this.prisma.glAccount.create({
+      data: {
+        code: data.code,
+        name: data.name,
+        type: data.type,
+        controlAccount: data.controlAccount || null,
+        isActive: true
+      }
+    }) as GlAccount;
+
+    this.logger.log(`GL account ${account.code} ${account.name} added by ${data.userId}`);
+    return account;
+  }
+
+  /**
+   * Renames an account, changes its role or takes it out of use. The code is kept because
+   * posted entries refer to it.
+   * @param id - Account ID
+   * @param data - Fields to change
+   * @throws ErrorCode.RESOURCE_NOT_FOUND if the account does not exist
+   * @throws ErrorCode.RESOURCE_CONFLICT if another account holds the role
+   */
+  async updateAccount(id: string, data: UpdateGlAccountDto): Promise<GlAccount> {
+    const account = await this.prisma.glAccount.findUnique({ where: { id } }) as GlAccount | null;
+    if (!account) {
+      throw createErrorDetails(ErrorCode.RESOURCE_NOT_FOUND, {
+        message: 'GL account not found',
+        glAccountId: id
+      });
+    }
+
+    const { userId, ...changes } = data;
+    if (changes.controlAccount && changes.controlAccount !== account.controlAccount) {
+      await this.assertControlAccountFree(changes.controlAccount);
+    }
+
+    const updated = await this.prisma.glAccount.update({
+      where: { id },
+      data: { ...changes, updatedAt: new Date() }
+    }) as GlAccount;
+
+    this.logger.log(`GL account ${account.code} updated by ${userId}`);
+    return updated;
+  }
+
+  /**
+   * Lists mapping rules, optionally for one source
+   * @param source - Only rules mapping charges or payments
+   */
+  async listMappings(source?: GlMappingSource): Promise<GlMapping[]> {
+    return this.prisma.glMapping.findMany({
+      where: source ? { source } : {},
+      orderBy: [{ source: 'asc' }, { accountCode: 'asc' }]
+    }) as Promise<GlMapping[]>;
+  }
+
+  /**
+   * Adds a rule mapping charges by category and department, or payments by method, to an account
+   * @param data - Fields matched and the account posted to
+   * @throws ErrorCode.VALIDATION_ERROR if the rule matches fields of the other source
+   * @throws ErrorCode.BUSINESS_RULE_VIOLATION if the account is not an active account
+   * @throws ErrorCode.RESOURCE_CONFLICT if a rule already matches the same fields
+   */
+  async createMapping(data: CreateGlMappingDto): Promise<GlMapping> {
+    const chargeFields = Boolean(data.category || data.department);
+    if (data.source === GlMappingSource.CHARGE ? Boolean(data.paymentMethod) : chargeFields) {
+      throw createErrorDetails(ErrorCode.VALIDATION_ERROR, {
+        message: data.source === GlMappingSource.CHARGE
+          ? 'Charge mappings match on category and department only'
+          : 'Payment mappings match on payment method only'
+      });
+    }
+
+    const account = await this.prisma.glAccount.findFirst({ where: { code: data.accountCode } }) as GlAccount | null;
+    if (!account || !account.isActive) {
+      throw createErrorDetails(ErrorCode.BUSINESS_RULE_VIOLATION, {
+        message: `${data.accountCode} is not an active GL account`,
+        accountCode: data.accountCode
+      });
+    }
+
+    const fields = {
+      source: data.source,
+      category: data.category || null,
+      department: data.department || null,
+      paymentMethod: data.paymentMethod || null
+    };
+    const duplicate = await this.prisma.glMapping.findFirst({ where: fields });
+    if (duplicate) {
+      throw createErrorDetails(ErrorCode.RESOURCE_CONFLICT, {
+        message: 'A mapping for these fields already exists',
+        glMappingId: duplicate.id
+      });
+    }
+
+    const mapping = await this.prisma.glMapping.create({
+      data: { ...fields, accountCode: account.code, createdBy: data.userId }
+    }) as GlMapping;
+
+    this.logger.log(`GL mapping ${mapping.id} to ${account.code} added by ${data.userId}`);
+    return mapping;
+  }
+
+  /**
+   * Removes a mapping rule. Entries already posted keep their accounts.
+   * @param id - Mapping ID
+   * @param userId - User removing the rule
+   * @returns Rule removed
+   * @throws ErrorCode.RESOURCE_NOT_FOUND if the rule does not exist
+   */
+  async removeMapping(id: string, userId: string): Promise<GlMapping> {
+    const mapping = await this.prisma.glMapping.findUnique({ where: { id } }) as GlMapping | null;
+    if (!mapping) {
+      throw createErrorDetails(ErrorCode.RESOURCE_NOT_FOUND, {
+        message: 'GL mapping not found',
+        glMappingId: id
+      });
+    }
+
+    await this.prisma.glMapping.delete({ where: { id } });
+    this.logger.log(`GL mapping ${id} removed by ${userId}`);
+    return mapping;
+  }
+
+  /**
+   * Posts a closed business date to the ledger as one batch: a balanced entry per charge,
+   * payment, refund, city ledger transfer and city ledger payment of the date not posted yet.
+   * Posting a date again picks up only what was recorded since.
+   * @param businessDate - Closed business date
+   * @param userId - User or job posting the date
+   * @returns Batch posted, or null if there was nothing new to post
+   * @throws ErrorCode.BUSINESS_RULE_VIOLATION if the date is not closed, its period is locked,
+   * an account is missing for a charge, payment method or role, or a rate is missing
+   */
+  async postBusinessDate(businessDate: Date, userId: string): Promise<JournalBatch | null> {
+    const date = startOfDay(businessDate);
+    const currentBusinessDate = await this.businessDates.getBusinessDate();
+    if (date >= startOfDay(currentBusinessDate)) {
+      throw createErrorDetails(ErrorCode.BUSINESS_RULE_VIOLATION, {
+        message: 'Only closed business dates can be posted to the ledger',
+        businessDate: format(date, 'yyyy-MM-dd')
+      });
+    }
+
+    const period = accountingPeriodOf(date);
+    await this.assertPeriodOpen(period);
+
+    const setup: LedgerSetup = {
+      accounts: await this.prisma.glAccount.findMany({ where: { isActive: true } }) as GlAccount[],
+      mappings: await this.prisma.glMapping.findMany() as GlMapping[]
+    };
+    const entries = await this.buildEntries(date, setup);
+
+    if (entries.length === 0) {
+      this.logger.log(`Nothing to post to the ledger for ${format(date, 'yyyy-MM-dd')}`);
+      return null;
+    }
+
+    const totalDebit = this.totalOf(entries.flatMap(entry => entry.lines), 'debit');
+    const totalCredit = this.totalOf(entries.flatMap(entry => entry.lines), 'credit');
+
+    const batch = await this.prisma.$transaction(async (tx) => {
+      const previous = await tx.journalBatch.count({ where: { businessDate: date } });
+      const created = await tx.journalBatch.create({
+        data: {
+          batchNumber: `GL-${format(date, 'yyyyMMdd')}-${previous + 1}`,
+          businessDate: date,
+          period,
+          currency: PROPERTY_CURRENCY,
+          entryCount: entries.length,
+          totalDebit: new Prisma.Decimal(totalDebit),
+          totalCredit: new Prisma.Decimal(totalCredit),
+          status: JournalBatchStatus.POSTED,
+          postedBy: userId,
+          exportedAt: null
+        }
+      }) as JournalBatch;
+
+      for (const entry of entries) {
+        await tx.journalEntry.create({
+          data: {
+            batchId: created.id,
+            businessDate: date,
+            sourceType: entry.sourceType,
+            sourceId: entry.sourceId,
+            sourceAmount: entry.sourceAmount,
+            sourceCurrency: entry.sourceCurrency,
+            reference: entry.reference,
+            description: entry.description,
+            lines: entry.lines,
+            totalDebit: new Prisma.Decimal(this.totalOf(entry.lines, 'debit')),
+            totalCredit: new Prisma.Decimal(this.totalOf(entry.lines, 'credit'))
+          }
+        });
+      }
+
+      return created;
+    });
+
+    this.logger.log(
+      `Ledger batch ${batch.batchNumber} posted by ${userId}: ${entries.length} entries, ` +
+      `${totalDebit} ${PROPERTY_CURRENCY}`
+    );
+    return batch;
+  }
+
+  /**
+   * Lists batches posted between two business dates
+   * @param from - First business date, inclusive
+   * @param to - Last business date, inclusive
+   */
+  async listBatches(from?: Date, to?: Date): Promise<JournalBatch[]> {
+    return this.prisma.journalBatch.findMany({
+      where: {
+        ...((from || to) && {
+          businessDate: {
+            ...(from && { gte: startOfDay(from) }),
+            ...(to && { lte: startOfDay(to) })
+          }
+        })
+      },
+      orderBy: [{ businessDate: 'desc' }, { batchNumber: 'desc' }]
+    }) as Promise<JournalBatch[]>;
+  }
+
+  /**
+   * Retrieves a batch with its entries
+   * @param batchId - Batch ID
+   * @throws ErrorCode.RESOURCE_NOT_FOUND if the batch does not exist
+   */
+  async getBatch(batchId: string): Promise<{ batch: JournalBatch; entries: JournalEntry[] }> {
+    const batch = await this.prisma.journalBatch.findUnique({ where: { id: batchId } }) as JournalBatch | null;
+    if (!batch) {
+      throw createErrorDetails(ErrorCode.RESOURCE_NOT_FOUND, {
+        message: 'Journal batch not found',
+        batchId
+      });
+    }
+
+    const entries = await this.prisma.journalEntry.findMany({
+      where: { batchId },
+      orderBy: [{ sourceType: 'asc' }, { reference: 'asc' }]
+    }) as JournalEntry[];
+
+    return { batch, entries };
+  }
+
+  /**
+   * Records that a batch was exported to the accounting system
+   * @param batchId - Batch ID
+   * @param userId - User exporting the batch
+   */
+  async markExported(batchId: string, userId: string): Promise<void> {
+    await this.prisma.journalBatch.update({
+      where: { id: batchId },
+      data: { status: JournalBatchStatus.EXPORTED, exportedAt: new Date(), updatedAt: new Date() }
+    });
+    this.logger.log(`Ledger batch ${batchId} exported by ${userId}`);
+  }
+
+  /**
+   * Totals the debits and credits posted to each account in a period
+   * @param period - Month as YYYY-MM
+   */
+  async getTrialBalance(period: string): Promise<TrialBalance> {
+    const periodStart = startOfMonth(parseISO(`${period}-01`));
+    const [entries, accounts] = await Promise.all([
+      this.prisma.journalEntry.findMany({
+        where: { businessDate: { gte: periodStart, lt: addDays(startOfDay(endOfMonth(periodStart)), 1) } }
+      }) as Promise<JournalEntry[]>,
+      this.listAccounts()
+    ]);
+
+    const round = (value: number) => roundToCurrency(value, PROPERTY_CURRENCY);
+    const byAccount = new Map<string, TrialBalanceLine>();
+
+    for (const line of entries.flatMap(entry => entry.lines)) {
+      const account = accounts.find(candidate => candidate.code === line.accountCode);
+      const total = byAccount.get(line.accountCode) || {
+        accountCode: line.accountCode,
+        accountName: account?.name || line.accountName,
+        type: account?.type as GlAccount['type'],
+        debit: 0,
+        credit: 0,
+        balance: 0
+      };
+
+      total.debit = round(total.debit + line.debit);
+      total.credit = round(total.credit + line.credit);
+      total.balance = round(total.debit - total.credit);
+      byAccount.set(line.accountCode, total);
+    }
+
+    const lines = Array.from(byAccount.values()).sort((a, b) => a.accountCode.localeCompare(b.accountCode));
+    const totalDebit = round(lines.reduce((sum, line) => sum + line.debit, 0));
+    const totalCredit = round(lines.reduce((sum, line) => sum + line.credit, 0));
+
+    return {
+      period,
+      currency: PROPERTY_CURRENCY,
+      lines,
+      totalDebit,
+      totalCredit,
+      balanced: totalDebit === totalCredit
+    };
+  }
+
+  /**
+   * Lists the accounting periods that have been locked
+   */
+  async listPeriods(): Promise<AccountingPeriod[]> {
+    return this.prisma.accountingPeriod.findMany({ orderBy: { period: 'desc' } }) as Promise<AccountingPeriod[]>;
+  }
+
+  /**
+   * Locks a period against further postings. The period must be over and its trial balance
+   * must net to zero.
+   * @param period - Month as YYYY-MM
+   * @param userId - User locking the period
+   * @throws ErrorCode.BUSINESS_RULE_VIOLATION if the period is not over, is already locked or
+   * its trial balance does not net to zero
+   * @throws ErrorCode.RESOURCE_CONFLICT if the period was locked meanwhile
+   */
+  async lockPeriod(period: string, userId: string): Promise<AccountingPeriod> {
+    const businessDate = await this.businessDates.getBusinessDate();
+    if (period >= accountingPeriodOf(businessDate)) {
+      throw createErrorDetails(ErrorCode.BUSINESS_RULE_VIOLATION, {
+        message: `Period ${period} is not over yet`,
+        period
+      });
+    }
+
+    const existing = await this.prisma.accountingPeriod.findFirst({ where: { period } }) as AccountingPeriod | null;
+    if (existing?.status === AccountingPeriodStatus.LOCKED) {
+      throw createErrorDetails(ErrorCode.BUSINESS_RULE_VIOLATION, {
+        message: `Period ${period} is already locked`,
+        period
+      });
+    }
+
+    const trialBalance = await this.getTrialBalance(period);
+    if (!trialBalance.balanced) {
+      throw createErrorDetails(ErrorCode.BUSINESS_RULE_VIOLATION, {
+        message: `Trial balance for ${period} does not net to zero`,
+        period,
+        totalDebit: trialBalance.totalDebit,
+        totalCredit: trialBalance.totalCredit
+      });
+    }
+
+    const lock = { status: AccountingPeriodStatus.LOCKED, lockedBy: userId, lockedAt: new Date() };
+    let locked: AccountingPeriod;
+
+    if (existing) {
+      const { count } = await this.prisma.accountingPeriod.updateMany({
+        where: { id: existing.id, status: AccountingPeriodStatus.OPEN },
+        data: { ...lock, updatedAt: new Date() }
+      });
+      if (count === 0) {
+        throw createErrorDetails(ErrorCode.RESOURCE_CONFLICT, {
+          message: `Period ${period} was locked meanwhile`,
+          period
+        });
+      }
+      locked = { ...existing, ...lock };
+    } else {
+      locked = await this.prisma.accountingPeriod.create({ data: { period, ...lock } }) as AccountingPeriod;
+    }
+
+    this.logger.log(`Accounting period ${period} locked by ${userId}`);
+    return locked;
+  }
+
+  private async assertPeriodOpen(period: string): Promise<void> {
+    const lockedPeriod = await this.prisma.accountingPeriod.findFirst({
+      where: { period, status: AccountingPeriodStatus.LOCKED }
+    });
+    if (lockedPeriod) {
+      throw createErrorDetails(ErrorCode.BUSINESS_RULE_VIOLATION, {
+        message: `Accounting period ${period} is locked`,
+        period
+      });
+    }
+  }
+
+  private async assertControlAccountFree(controlAccount: ControlAccount): Promise<void> {
+    const holder = await this.prisma.glAccount.findFirst({ where: { controlAccount, isActive: true } });
+    if (holder) {
+      throw createErrorDetails(ErrorCode.RESOURCE_CONFLICT, {
+        message: `Account ${holder.code} already holds the ${controlAccount} role`,
+        controlAccount
+      });
+    }
+  }
+
+  /**
+   * Builds the entries for everything on a date not posted yet
+   */
+  private async buildEntries(date: Date, setup: LedgerSetup): Promise<PendingEntry[]> {
+    const nextDate = addDays(date, 1);
+
+    const [postedCharges, payments, refundedPayments, arPayments, adjustments] = await Promise.all([
+      this.prisma.folioCharge.findMany({
+        where: { postingDate: { gte: date, lt: nextDate }, status: { in: POSTED_CHARGE_STATUSES } }
+      }) as Promise<FolioCharge[]>,
+      this.prisma.payment.findMany({
+        where: { businessDate: { gte: date, lt: nextDate }, status: { in: RECEIVED_PAYMENT_STATUSES } }
+      }) as Promise<Payment[]>,
+      this.prisma.payment.findMany({
+        where: {
+          updatedAt: { gte: date, lt: nextDate },
+          refundedAmount: { gt: 0 },
+          method: { not: PaymentMethod.DIRECT_BILLING }
+        }
+      }) as Promise<Payment[]>,
+      this.prisma.arPayment.findMany({
+        where: { receivedDate: { gte: date, lt: nextDate } }
+      }) as Promise<ArPayment[]>,
+      this.prisma.folioChargeAdjustment.findMany({
+        where: { businessDate: { gte: date, lt: nextDate } }
+      }) as Promise<FolioChargeAdjustment[]>
+    ]);
+
+    // Charges are journaled as first posted; their voids and corrections follow as adjustments
+    const chargeAdjustments = await this.prisma.folioChargeAdjustment.findMany({
+      where: { chargeId: { in: postedCharges.map(charge => charge.id) } },
+      orderBy: { createdAt: 'asc' }
+    }) as FolioChargeAdjustment[];
+    const firstAdjustmentOf = (chargeId: string) => chargeAdjustments.find(adjustment => adjustment.chargeId === chargeId);
+    const charges = postedCharges
+      .filter(charge => charge.status !== ChargeStatus.VOIDED || firstAdjustmentOf(charge.id))
+      .map(charge => {
+        const adjustment = firstAdjustmentOf(charge.id);
+        return adjustment
+          ? {
+            ...charge,
+            amount: adjustment.previousAmount,
+            taxAmount: adjustment.previousTaxAmount,
+            totalAmount: adjustment.previousTotalAmount
+          }
+          : charge;
+      });
+    const adjustedCharges = await this.prisma.folioCharge.findMany({
+      where: { id: { in: adjustments.map(adjustment => adjustment.chargeId) } }
+    }) as FolioCharge[];
+
+    const posted = await this.prisma.journalEntry.findMany({
+      where: {
+        sourceId: {
+          in: [...charges, ...payments, ...refundedPayments, ...arPayments, ...adjustments].map(source => source.id)
+        }
+      }
+    }) as JournalEntry[];
+    const isPosted = (sourceType: JournalSourceType, sourceId: string) =>
+      posted.some(entry => entry.sourceType === sourceType && entry.sourceId === sourceId);
+
+    const folioIds = Array.from(new Set([...charges, ...payments, ...adjustments].map(source => source.folioId)));
+    const folios = await this.prisma.folio.findMany({ where: { id: { in: folioIds } } }) as Folio[];
+    const accounts = await this.prisma.arAccount.findMany({
+      where: { id: { in: Array.from(new Set(arPayments.map(payment => payment.arAccountId))) } }
+    }) as ArAccount[];
+
+    const rates = new Map<string, number>();
+    const toProperty = async (amount: Prisma.Decimal | number, currency: string): Promise<number> => {
+      if (!rates.has(currency)) {
+        rates.set(currency, await this.exchangeRates.getRate(currency, PROPERTY_CURRENCY, date));
+      }
+      return roundToCurrency(Number(amount) * (rates.get(currency) as number), PROPERTY_CURRENCY);
+    };
+    const folioOf = (folioId: string) => folios.find(folio => folio.id === folioId) as Folio;
+
+    const entries: PendingEntry[] = [];
+
+    for (const charge of charges.filter(candidate => !isPosted(JournalSourceType.FOLIO_CHARGE, candidate.id))) {
+      const folio = folioOf(charge.folioId);
+      const revenue = await toProperty(charge.amount, folio.currency);
+      const tax = await toProperty(charge.taxAmount, folio.currency);
+
+      entries.push(this.balanced({
+        sourceType: JournalSourceType.FOLIO_CHARGE,
+        sourceId: charge.id,
+        sourceAmount: new Prisma.Decimal(charge.totalAmount),
+        sourceCurrency: folio.currency,
+        reference: folio.folioNumber,
+        description: charge.description,
+        lines: [
+          this.line(
+            this.controlAccount(setup, ControlAccount.GUEST_LEDGER),
+            roundToCurrency(revenue + tax, PROPERTY_CURRENCY),
+            charge.description
+          ),
+          this.line(this.chargeAccount(setup, charge), -revenue, charge.description),
+          this.line(this.controlAccount(setup, ControlAccount.TAX_PAYABLE), -tax, `Tax on ${charge.description}`)
+        ]
+      }));
+    }
+
+    for (const adjustment of adjustments.filter(candidate => !isPosted(JournalSourceType.CHARGE_ADJUSTMENT, candidate.id))) {
+      const charge = adjustedCharges.find(candidate => candidate.id === adjustment.chargeId) as FolioCharge;
+      const folio = folioOf(adjustment.folioId);
+      const revenue = await toProperty(new Prisma.Decimal(adjustment.amount).minus(adjustment.previousAmount), folio.currency);
+      const tax = await toProperty(new Prisma.Decimal(adjustment.taxAmount).minus(adjustment.previousTaxAmount), folio.currency);
+      const description = `${adjustment.type === ChargeAdjustmentType.VOID ? 'Void' : 'Correction'} of ${charge.description}`;
+
+      entries.push(this.balanced({
+        sourceType: JournalSourceType.CHARGE_ADJUSTMENT,
+        sourceId: adjustment.id,
+        sourceAmount: new Prisma.Decimal(adjustment.totalAmount).minus(adjustment.previousTotalAmount),
+        sourceCurrency: folio.currency,
+        reference: folio.folioNumber,
+        description,
+        lines: [
+          this.line(
+            this.controlAccount(setup, ControlAccount.GUEST_LEDGER),
+            roundToCurrency(revenue + tax, PROPERTY_CURRENCY),
+            description
+          ),
+          this.line(this.chargeAccount(setup, charge), -revenue, description),
+          this.line(this.controlAccount(setup, ControlAccount.TAX_PAYABLE), -tax, `Tax on ${description}`)
+        ]
+      }));
+    }
+
+    for (const payment of payments) {
+      const folio = folioOf(payment.folioId);
+      const transfer = payment.method === PaymentMethod.DIRECT_BILLING;
+      const sourceType = transfer ? JournalSourceType.AR_TRANSFER : JournalSourceType.PAYMENT;
+      if (isPosted(sourceType, payment.id)) {
+        continue;
+      }
+
+      const received = await toProperty(payment.amount, payment.currency);
+      const settled = await toProperty(payment.settledAmount ?? payment.amount, folio.currency);
+      const description = transfer ? 'Transfer to city ledger' : `${payment.method} payment`;
+
+      entries.push(this.balanced({
+        sourceType,
+        sourceId: payment.id,
+        sourceAmount: new Prisma.Decimal(payment.amount),
+        sourceCurrency: payment.currency,
+        reference: folio.folioNumber,
+        description,
+        lines: [
+          this.line(
+            transfer
+              ? this.controlAccount(setup, ControlAccount.CITY_LEDGER)
+              : this.paymentAccount(setup, payment.method),
+            received,
+            description
+          ),
+          this.line(this.controlAccount(setup, ControlAccount.GUEST_LEDGER), -settled, description),
+          ...(received !== settled
+            ? [this.line(
+              this.controlAccount(setup, ControlAccount.FX_GAIN_LOSS),
+              roundToCurrency(settled - received, PROPERTY_CURRENCY),
+              'Exchange difference'
+            )]
+            : [])
+        ]
+      }));
+    }
+
+    for (const payment of refundedPayments) {
+      const alreadyPosted = posted
+        .filter(entry => entry.sourceType === JournalSourceType.REFUND && entry.sourceId === payment.id)
+        .reduce((sum, entry) => sum.plus(entry.sourceAmount), new Prisma.Decimal(0));
+      const refunded = new Prisma.Decimal(payment.refundedAmount).minus(alreadyPosted);
+      if (refunded.lte(0)) {
+        continue;
+      }
+
+      const amount = await toProperty(refunded, payment.currency);
+      const description = `${payment.method} refund`;
+
+      entries.push(this.balanced({
+        sourceType: JournalSourceType.REFUND,
+        sourceId: payment.id,
+        sourceAmount: refunded,
+        sourceCurrency: payment.currency,
+        reference: payment.transactionId,
+        description,
+        lines: [
+          this.line(this.controlAccount(setup, ControlAccount.GUEST_LEDGER), amount, description),
+          this.line(this.paymentAccount(setup, payment.method), -amount, description)
+        ]
+      }));
+    }
+
+    for (const payment of arPayments.filter(candidate => !isPosted(JournalSourceType.AR_PAYMENT, candidate.id))) {
+      const account = accounts.find(candidate => candidate.id === payment.arAccountId) as ArAccount;
+      const amount = await toProperty(payment.amount, account.currency);
+      const description = `Payment from ${account.companyName}`;
+
+      entries.push(this.balanced({
+        sourceType: JournalSourceType.AR_PAYMENT,
+        sourceId: payment.id,
+        sourceAmount: new Prisma.Decimal(payment.amount),
+        sourceCurrency: account.currency,
+        reference: `${account.accountNumber} ${payment.reference}`,
+        description,
+        lines: [
+          this.line(this.paymentAccount(setup, payment.method), amount, description),
+          this.line(this.controlAccount(setup, ControlAccount.CITY_LEDGER), -amount, description)
+        ]
+      }));
+    }
+
+    return entries;
+  }
+
+  /**
+   * Drops empty lines and checks the entry's debits equal its credits
+   * @throws ErrorCode.BUSINESS_RULE_VIOLATION if the entry does not balance
+   */
+  private balanced(entry: PendingEntry): PendingEntry {
+    const lines = entry.lines.filter(line => line.debit !== 0 || line.credit !== 0);
+    const debit = this.totalOf(lines, 'debit');
+    const credit = this.totalOf(lines, 'credit');
+
+    if (debit !== credit) {
+      throw createErrorDetails(ErrorCode.BUSINESS_RULE_VIOLATION, {
+        message: `Journal entry for ${entry.sourceType} ${entry.sourceId} does not balance`,
+        totalDebit: debit,
+        totalCredit: credit
+      });
+    }
+
+    return { ...entry, lines };
+  }
+
+  /**
+   * Line debiting a positive amount or crediting a negative one
+   */
+  private line(account: GlAccount, amount: number, description: string): JournalLine {
+    return {
+      accountCode: account.code,
+      accountName: account.name,
+      debit: amount > 0 ? amount : 0,
+      credit: amount < 0 ? -amount : 0,
+      description
+    };
+  }
+
+  private totalOf(lines: JournalLine[], side: 'debit' | 'credit'): number {
+    return roundToCurrency(lines.reduce((sum, line) => sum + line[side], 0), PROPERTY_CURRENCY);
+  }
+
+  /**
+   * Account holding a control role
+   * @throws ErrorCode.BUSINESS_RULE_VIOLATION if no active account holds it
+   */
+  private controlAccount(setup: LedgerSetup, controlAccount: ControlAccount): GlAccount {
+    const account = setup.accounts.find(candidate => candidate.controlAccount === controlAccount);
+    if (!account) {
+      throw createErrorDetails(ErrorCode.BUSINESS_RULE_VIOLATION, {
+        message: `No GL account holds the ${controlAccount} role`,
+        controlAccount
+      });
+    }
+    return account;
+  }
+
+  /**
+   * Revenue account of a charge by the most specific matching rule
+   */
+  private chargeAccount(setup: LedgerSetup, charge: FolioCharge): GlAccount {
+    return this.mappedAccount(
+      setup,
+      GlMappingSource.CHARGE,
+      { category: charge.category, department: charge.department },
+      `charge category ${charge.category} in ${charge.department}`
+    );
+  }
+
+  /**
+   * Clearing account of a payment method by the most specific matching rule
+   */
+  private paymentAccount(setup: LedgerSetup, paymentMethod: PaymentMethod): GlAccount {
+    return this.mappedAccount(setup, GlMappingSource.PAYMENT, { paymentMethod }, `payment method ${paymentMethod}`);
+  }
+
+  /**
+   * @throws ErrorCode.BUSINESS_RULE_VIOLATION if no rule maps the subject to an active account
+   */
+  private mappedAccount(
+    setup: LedgerSetup,
+    source: GlMappingSource,
+    subject: { category?: string; department?: string; paymentMethod?: PaymentMethod },
+    label: string
+  ): GlAccount {
+    const mapping = setup.mappings
+      .filter(candidate => candidate.source === source && matchesGlMapping(candidate, subject))
+      .sort((a, b) => glMappingSpecificity(b) - glMappingSpecificity(a))[0];
+    const account = mapping && setup.accounts.find(candidate => candidate.code === mapping.accountCode);
+
+    if (!account) {
+      throw createErrorDetails(ErrorCode.BUSINESS_RULE_VIOLATION, {
+        message: `No active GL account is mapped for ${label}`,
+        ...subject
+      });
+    }
+    return account;
+  }
+}
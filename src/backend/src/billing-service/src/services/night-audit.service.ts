@@ -0,0 +1,620 @@
+/**
+ * @fileoverview Night audit service closing the hotel business day. Flags no-shows, posts the
+ * night's room and tax charges to guest folios and updates their credit exposure, reconciles
+ * folio balances against captured payments, rolls the persisted business date forward and posts
+ * the closed date to the general ledger.
+ * @version 1.0.0
+ */
+
+// External imports
+import { Injectable, Logger } from '@nestjs/common'; // v10.0.0
+import { Prisma, PrismaClient } from '@prisma/client'; // v5.0.0
+import { addDays, differenceInCalendarDays, format } from 'date-fns'; // v2.30.0
+
+// Internal imports
+import { prisma as billingPrisma } from '../config/database';
+import { Folio, FolioStatus, ChargeStatus } from '../models/folio.model';
+import { Payment, PaymentStatus } from '../models/payment.model';
+import { TaxLine } from '../../../shared/models/tax.model';
+import { ROOM_CHARGE_CATEGORY, ROOM_CHARGE_DEPARTMENT } from '../../../shared/models/charge-category.model';
+import {
+  NightAuditRun,
+  NightAuditStatus,
+  NightAuditStep,
+  ReconciliationDiscrepancy,
+  createEmptySummary
+} from '../models/night-audit.model';
+import { DayEndReportService } from './day-end-report.service';
+import { FolioRoutingService } from './folio-routing.service';
+import { GeneralLedgerService } from './general-ledger.service';
+import { CreditLimitService } from './credit-limit.service';
+import { Booking, BookingStatus } from '../../../reservation-service/src/models/booking.model';
+import { InventoryService } from '../../../reservation-service/src/services/inventory.service';
+import { WaitlistService } from '../../../reservation-service/src/services/waitlist.service';
+import { CancellationPolicyService } from '../../../reservation-service/src/services/cancellation-policy.service';
+import { PenaltyAssessment, PenaltyTrigger } from '../../../reservation-service/src/models/cancellation-policy.model';
+import { STAY_MODIFICATION_REFERENCE_PREFIX } from '../../../reservation-service/src/models/reservation-modification.model';
+import { ReservationRate } from '../../../reservation-service/src/models/reservation-rate.model';
+import { ADD_ON_REFERENCE_PREFIX, BookingAddOn } from '../../../reservation-service/src/models/add-on.model';
+import { AddOnService } from '../../../reservation-service/src/services/add-on.service';
+import { BusinessDateService } from '../../../shared/services/business-date.service';
+import { ErrorCode, createErrorDetails } from '../../../shared/constants/error-codes';
+
+/**
+ * User recorded on postings made by the scheduled night audit
+ */
+export const NIGHT_AUDIT_USER = 'NIGHT_AUDIT';
+
+/**
+ * Charge statuses that count towards a folio balance
+ */
+const BALANCE_CHARGE_STATUSES = [ChargeStatus.POSTED, ChargeStatus.ADJUSTED];
+
+/**
+ * Payment statuses that represent money actually collected
+ */
+const CAPTURED_PAYMENT_STATUSES = [
+  PaymentStatus.CAPTURED,
+  PaymentStatus.PARTIALLY_REFUNDED,
+  PaymentStatus.REFUNDED
+];
+
+/**
+ * Statuses of arrivals that become no-shows when they have not checked in by the end of their
+ * arrival date; bookings still awaiting their deposit hold inventory the same as confirmed ones
+ */
+const NO_SHOW_STATUSES = [BookingStatus.CONFIRMED, BookingStatus.PENDING_PAYMENT];
+
+/**
+ * Serializable, so two runs posting the same reference cannot both see it unposted
+ */
+const POSTING_TRANSACTION_OPTIONS = { isolationLevel: Prisma.TransactionIsolationLevel.Serializable };
+
+/**
+ * Minutes after which a run still RUNNING is taken to have been abandoned, for example by a
+ * process crash, and a new run may take over the business date
+ */
+const DEFAULT_STALE_RUN_MINUTES = 120;
+
+/**
+ * Service running the nightly close of the business day
+ */
+@Injectable()
+export class NightAuditService {
+  private readonly logger = new Logger(NightAuditService.name);
+  private scheduledRun: NodeJS.Timeout | null = null;
+  private readonly staleRunMinutes = Number(process.env.NIGHT_AUDIT_STALE_RUN_MINUTES) || DEFAULT_STALE_RUN_MINUTES;
+
+  constructor(
+    private readonly prisma: PrismaClient = billingPrisma,
+    private readonly businessDates: BusinessDateService = new BusinessDateService(prisma),
+    private readonly dayEndReports: DayEndReportService = new DayEndReportService(prisma),
+    private readonly inventory: InventoryService = new InventoryService(prisma),
+    private readonly waitlist?: WaitlistService,
+    private readonly cancellationPolicies?: CancellationPolicyService,
+    private readonly addOns?: AddOnService,
+    private readonly folioRouting: FolioRoutingService = new FolioRoutingService(prisma, businessDates),
+    private readonly generalLedger: GeneralLedgerService = new GeneralLedgerService(prisma, businessDates),
+    private readonly creditLimits: CreditLimitService = new CreditLimitService(prisma, businessDates)
+  ) {}
+
+  /**
+   * Runs the night audit for the current business date. A run left RUNNING for longer than the
+   * stale-run timeout is marked failed and taken over; its postings are not repeated.
+   * @param userId - User or job starting the audit
+   * @returns Completed night audit run
+   * @throws ErrorCode.RESOURCE_CONFLICT if the business date is already audited or in progress
+   */
+  async runNightAudit(userId: string = NIGHT_AUDIT_USER): Promise<NightAuditRun> {
+    const businessDate = await this.businessDates.getBusinessDate();
+
+    const existingRun = await this.prisma.nightAuditRun.findFirst({
+      where: {
+        businessDate,
+        status: { in: [NightAuditStatus.RUNNING, NightAuditStatus.COMPLETED, NightAuditStatus.COMPLETED_WITH_EXCEPTIONS] }
+      }
+    });
+
+    if (existingRun && !(await this.takeOverStaleRun(existingRun as NightAuditRun))) {
+      throw createErrorDetails(ErrorCode.RESOURCE_CONFLICT, {
+        message: `Night audit already ${existingRun.status.toLowerCase()} for business date`,
+        businessDate: format(businessDate, 'yyyy-MM-dd')
+      });
+    }
+
+    let run = await this.prisma.nightAuditRun.create({
+      data: {
+        businessDate,
+        status: NightAuditStatus.RUNNING,
+        completedSteps: [],
+        summary: createEmptySummary(),
+        discrepancies: [],
+        skippedBookingIds: [],
+        errorMessage: null,
+        startedBy: userId,
+        startedAt: new Date(),
+        completedAt: null
+      }
+    }) as NightAuditRun;
+
+    this.logger.log(`Night audit started for ${format(businessDate, 'yyyy-MM-dd')} by ${userId}`);
+
+    try {
+      run.summary.noShowCount = await this.processNoShows(businessDate, userId);
+      run = await this.completeStep(run, NightAuditStep.NO_SHOWS);
+
+      await this.postRoomAndTaxCharges(run, businessDate);
+      run = await this.completeStep(run, NightAuditStep.REVENUE_POSTING);
+
+      run.discrepancies = await this.reconcileFolios(run);
+      run = await this.completeStep(run, NightAuditStep.RECONCILIATION);
+
+      await this.businessDates.rollover(businessDate, userId);
+      run.completedSteps.push(NightAuditStep.DATE_ROLLOVER);
+
+      run = await this.prisma.nightAuditRun.update({
+        where: { id: run.id },
+        data: {
+          status: run.discrepancies.length > 0
+            ? NightAuditStatus.COMPLETED_WITH_EXCEPTIONS
+            : NightAuditStatus.COMPLETED,
+          completedSteps: run.completedSteps,
+          summary: run.summary,
+          discrepancies: run.discrepancies,
+          completedAt: new Date()
+        }
+      }) as NightAuditRun;
+
+      this.logger.log(`Night audit completed for ${format(businessDate, 'yyyy-MM-dd')}`, {
+        status: run.status,
+        summary: run.summary
+      });
+
+      // The day is closed at this point; a report failure is logged and can be regenerated
+      try {
+        await this.dayEndReports.generateReportPack(businessDate, userId, run.id);
+      } catch (error) {
+        this.logger.error(`Day-end report generation failed for ${format(businessDate, 'yyyy-MM-dd')}: ${error.message}`);
+      }
+
+      // A missing account mapping or rate leaves the date unposted until it is posted again
+      try {
+        await this.generalLedger.postBusinessDate(businessDate, userId);
+      } catch (error) {
+        this.logger.error(`Ledger posting failed for ${format(businessDate, 'yyyy-MM-dd')}: ${error.message}`);
+      }
+
+      return run;
+    } catch (error) {
+      this.logger.error(`Night audit failed for ${format(businessDate, 'yyyy-MM-dd')}: ${error.message}`);
+
+      await this.prisma.nightAuditRun.update({
+        where: { id: run.id },
+        data: {
+          status: NightAuditStatus.FAILED,
+          completedSteps: run.completedSteps,
+          summary: run.summary,
+          errorMessage: error.message || String(error.code || error),
+          completedAt: new Date()
+        }
+      });
+
+      throw error;
+    }
+  }
+
+  /**
+   * Retrieves the latest night audit run for a business date
+   * @param businessDate - Business date to look up
+   */
+  async findRunByBusinessDate(businessDate: Date): Promise<NightAuditRun | null> {
+    return this.prisma.nightAuditRun.findFirst({
+      where: { businessDate },
+      orderBy: { startedAt: 'desc' }
+    }) as Promise<NightAuditRun | null>;
+  }
+
+  /**
+   * Lists recent night audit runs, newest first
+   * @param limit - Maximum number of runs to return
+   */
+  async findRecentRuns(limit = 30): Promise<NightAuditRun[]> {
+    return this.prisma.nightAuditRun.findMany({
+      orderBy: { businessDate: 'desc' },
+      take: limit
+    }) as Promise<NightAuditRun[]>;
+  }
+
+  /**
+   * Schedules the night audit to run daily at the configured local time
+   * @param time - Time of day in HH:mm format
+   */
+  scheduleNightly(time: string = process.env.NIGHT_AUDIT_TIME || '03:00'): void {
+    const [hours, minutes] = time.split(':').map(Number);
+    const now = new Date();
+    const nextRun = new Date(now);
+    nextRun.setHours(hours, minutes, 0, 0);
+    if (nextRun <= now) {
+      nextRun.setDate(nextRun.getDate() + 1);
+    }
+
+    this.cancelSchedule();
+    this.scheduledRun = setTimeout(async () => {
+      try {
+        await this.runNightAudit(NIGHT_AUDIT_USER);
+      } catch (error) {
+        this.logger.error(`Scheduled night audit failed: ${error.message || error.code}`);
+      } finally {
+        this.scheduleNightly(time);
+      }
+    }, nextRun.getTime() - now.getTime());
+
+    this.logger.log(`Night audit scheduled for ${nextRun.toISOString()}`);
+  }
+
+  /**
+   * Cancels the scheduled nightly run
+   */
+  cancelSchedule(): void {
+    if (this.scheduledRun) {
+      clearTimeout(this.scheduledRun);
+      this.scheduledRun = null;
+    }
+  }
+
+  /**
+   * Marks a run abandoned while RUNNING as failed so a new run can close its business date.
+   * Only one caller can take a run over.
+   * @returns Whether the run was taken over
+   */
+  private async takeOverStaleRun(run: NightAuditRun): Promise<boolean> {
+    const staleBefore = new Date(Date.now() - this.staleRunMinutes * 60 * 1000);
+    if (run.status !== NightAuditStatus.RUNNING || run.startedAt >= staleBefore) {
+      return false;
+    }
+
+    const { count } = await this.prisma.nightAuditRun.updateMany({
+      where: { id: run.id, status: NightAuditStatus.RUNNING, startedAt: { lt: staleBefore } },
+      data: {
+        status: NightAuditStatus.FAILED,
+        errorMessage: `Abandoned while running; taken over after ${this.staleRunMinutes} minutes`,
+        completedAt: new Date()
+      }
+    });
+
+    if (count === 1) {
+      this.logger.warn(`Night audit run ${run.id} started by ${run.startedBy} was abandoned and is taken over`);
+    }
+    return count === 1;
+  }
+
+  /**
+   * Marks confirmed bookings and bookings awaiting payment due to arrive on or before the
+   * business date as no-shows
+   * @returns Number of bookings flagged
+   */
+  private async processNoShows(businessDate: Date, userId: string): Promise<number> {
+    const arrivals = await this.prisma.booking.findMany({
+      where: {
+        status: { in: NO_SHOW_STATUSES },
+        checkInDate: { lt: addDays(businessDate, 1) }
+      }
+    }) as Booking[];
+
+    for (const booking of arrivals) {
+      const assessment: PenaltyAssessment | null = this.cancellationPolicies
+        ? await this.cancellationPolicies.assess(booking, PenaltyTrigger.NO_SHOW)
+        : null;
+
+      await this.prisma.booking.update({
+        where: { id: booking.id },
+        data: {
+          status: BookingStatus.NO_SHOW,
+          ...(assessment && { cancellationFee: assessment.fee }),
+          lastModifiedBy: userId,
+          updatedAt: new Date(),
+          auditTrail: [
+            ...booking.auditTrail,
+            {
+              timestamp: new Date(),
+              action: 'BOOKING_NO_SHOW',
+              userId,
+              changes: { status: BookingStatus.NO_SHOW, businessDate: format(businessDate, 'yyyy-MM-dd') }
+            }
+          ]
+        }
+      });
+
+      // The no-show's remaining nights return to inventory and go to the waitlist;
+      // a failure here does not stop the audit
+      const releaseFrom = addDays(businessDate, 1);
+      try {
+        await this.inventory.release(booking.roomType, releaseFrom, booking.checkOutDate);
+        if (this.addOns) {
+          await this.addOns.release(booking.id, this.prisma, releaseFrom);
+        }
+        if (this.waitlist) {
+          await this.waitlist.offerReleasedInventory(booking.roomType, releaseFrom, booking.checkOutDate, userId);
+        }
+      } catch (error) {
+        this.logger.error(`Releasing inventory for no-show ${booking.id} failed: ${error.message || error.code}`);
+      }
+
+      // Post the no-show penalty and refund deposit above it; a failure is logged and the
+      // idempotent settlement can be retried
+      if (this.cancellationPolicies && assessment) {
+        try {
+          await this.cancellationPolicies.settle(booking, assessment, userId);
+        } catch (error) {
+          this.logger.error(`Settling no-show penalty for ${booking.id} failed: ${error.message || error.code}`);
+        }
+      }
+    }
+
+    return arrivals.length;
+  }
+
+  /**
+   * Posts the night's room and tax charge and the add-ons served that day for every in-house
+   * booking to the folio its routing instructions name, by default its main open folio. Postings
+   * carry a per-booking, per-date reference so a re-run never double posts, even after the
+   * charge was moved to another folio. The exposure of every folio posted to is then updated.
+   */
+  private async postRoomAndTaxCharges(run: NightAuditRun, businessDate: Date): Promise<void> {
+    const inHouse = await this.prisma.booking.findMany({
+      where: {
+        status: BookingStatus.CHECKED_IN,
+        checkInDate: { lte: businessDate },
+        checkOutDate: { gt: businessDate }
+      }
+    }) as Booking[];
+    const postedFolioIds: string[] = [];
+
+    for (const booking of inHouse) {
+      const folio = await this.prisma.folio.findFirst({
+        where: { reservationId: booking.id, status: FolioStatus.OPEN, isMainFolio: true }
+      }) as Folio | null;
+
+      if (!folio) {
+        this.logger.warn(`No open folio for in-house booking ${booking.bookingNumber}`);
+        run.skippedBookingIds.push(booking.id);
+        continue;
+      }
+
+      postedFolioIds.push(...await this.postAddOnCharges(run, booking, folio, businessDate));
+
+      const reference = `NA-${booking.bookingNumber}-${format(businessDate, 'yyyyMMdd')}`;
+      const { amount, taxAmount, taxLines } = await this.calculateNightlyCharge(booking, businessDate);
+      const totalAmount = amount.plus(taxAmount);
+      const target = await this.folioRouting.routeCharge(folio, {
+        category: ROOM_CHARGE_CATEGORY,
+        department: ROOM_CHARGE_DEPARTMENT
+      });
+
+      const posted = await this.prisma.$transaction(async (tx) => {
+        if (await tx.folioCharge.findFirst({ where: { reference } })) {
+          return false;
+        }
+
+        await tx.folioCharge.create({
+          data: {
+            folioId: target.id,
+            description: `Room charge ${format(businessDate, 'yyyy-MM-dd')}`,
+            amount,
+            category: ROOM_CHARGE_CATEGORY,
+            department: ROOM_CHARGE_DEPARTMENT,
+            postingDate: businessDate,
+            taxRate: amount.isZero() ? new Prisma.Decimal(0) : taxAmount.dividedBy(amount).toDecimalPlaces(4),
+            taxAmount,
+            taxLines,
+            totalAmount,
+            invoiceId: null,
+            status: ChargeStatus.POSTED,
+            reference,
+            notes: `Posted by night audit run ${run.id}`
+          }
+        });
+
+        await tx.folio.update({
+          where: { id: target.id },
+          data: { balance: { increment: totalAmount }, updatedAt: new Date() }
+        });
+        return true;
+      }, POSTING_TRANSACTION_OPTIONS);
+      if (!posted) {
+        continue;
+      }
+
+      postedFolioIds.push(target.id);
+      run.summary.roomChargesPosted += 1;
+      run.summary.roomRevenue = run.summary.roomRevenue.plus(amount);
+      run.summary.taxRevenue = run.summary.taxRevenue.plus(taxAmount);
+    }
+
+    await this.creditLimits.recordPostings(postedFolioIds);
+  }
+
+  /**
+   * Posts the add-ons served on the business date under their own category and department.
+   * Add-ons included in a package rate are part of the room charge and are not posted.
+   * @returns Folios posted to
+   */
+  private async postAddOnCharges(run: NightAuditRun, booking: Booking, folio: Folio, businessDate: Date): Promise<string[]> {
+    const lines = await this.prisma.bookingAddOn.findMany({
+      where: { bookingId: booking.id, serviceDate: businessDate, included: false }
+    }) as BookingAddOn[];
+    const postedFolioIds: string[] = [];
+
+    for (const line of lines) {
+      const reference = `${ADD_ON_REFERENCE_PREFIX}-${booking.bookingNumber}-${line.code}-${format(businessDate, 'yyyyMMdd')}`;
+      const amount = new Prisma.Decimal(line.amount);
+      const taxAmount = new Prisma.Decimal(line.taxAmount);
+      const totalAmount = new Prisma.Decimal(line.totalAmount);
+      const target = await this.folioRouting.routeCharge(folio, {
+        category: line.chargeCategory,
+        department: line.department
+      });
+
+      const posted = await this.prisma.$transaction(async (tx) => {
+        if (await tx.folioCharge.findFirst({ where: { reference } })) {
+          return false;
+        }
+
+        await tx.folioCharge.create({
+          data: {
+            folioId: target.id,
+            description: `${line.name} ${format(businessDate, 'yyyy-MM-dd')}`,
+            amount,
+            category: line.chargeCategory,
+            department: line.department,
+            postingDate: businessDate,
+            taxRate: amount.isZero() ? new Prisma.Decimal(0) : taxAmount.dividedBy(amount).toDecimalPlaces(4),
+            taxAmount,
+            taxLines: line.taxLines,
+            totalAmount,
+            invoiceId: null,
+            status: ChargeStatus.POSTED,
+            reference,
+            notes: `${line.units} x ${line.unitPrice}, posted by night audit run ${run.id}`
+          }
+        });
+
+        await tx.folio.update({
+          where: { id: target.id },
+          data: { balance: { increment: totalAmount }, updatedAt: new Date() }
+        });
+        return true;
+      }, POSTING_TRANSACTION_OPTIONS);
+      if (!posted) {
+        continue;
+      }
+
+      postedFolioIds.push(target.id);
+      run.summary.addOnChargesPosted += 1;
+      run.summary.addOnRevenue = run.summary.addOnRevenue.plus(amount);
+      run.summary.taxRevenue = run.summary.taxRevenue.plus(taxAmount);
+    }
+
+    return postedFolioIds;
+  }
+
+  /**
+   * Posts the night's price stored on the booking. Bookings priced before nightly prices were
+   * stored split what is left unposted of their stay totals evenly over the remaining nights;
+   * earlier night audit postings and stay modification adjustments count as posted, whichever
+   * folio they were routed or moved to, so a stay repriced mid-way still posts its total exactly once.
+   */
+  private async calculateNightlyCharge(
+    booking: Booking,
+    businessDate: Date
+  ): Promise<{ amount: Prisma.Decimal; taxAmount: Prisma.Decimal; taxLines?: TaxLine[] }> {
+    const nightlyRate = await this.prisma.reservationRate.findFirst({
+      where: { reservationId: booking.id, date: businessDate }
+    }) as ReservationRate | null;
+
+    if (nightlyRate) {
+      const nightlyTax = new Prisma.Decimal(nightlyRate.taxAmount);
+      return {
+        amount: new Prisma.Decimal(nightlyRate.totalRate).minus(nightlyTax),
+        taxAmount: nightlyTax,
+        taxLines: nightlyRate.taxLines
+      };
+    }
+
+    const remainingNights = Math.max(1, differenceInCalendarDays(booking.checkOutDate, businessDate));
+    const posted = await this.prisma.folioCharge.aggregate({
+      where: {
+        status: { in: BALANCE_CHARGE_STATUSES },
+        OR: [
+          { reference: { startsWith: `NA-${booking.bookingNumber}-` } },
+          { reference: { startsWith: `${STAY_MODIFICATION_REFERENCE_PREFIX}-${booking.bookingNumber}-` } }
+        ]
+      },
+      _sum: { amount: true, taxAmount: true }
+    });
+
+    const stayTax = new Prisma.Decimal(booking.taxAmount || 0);
+    const unpostedTax = stayTax.minus(posted._sum.taxAmount || 0);
+    const unpostedNet = new Prisma.Decimal(booking.totalAmount || 0).minus(stayTax).minus(posted._sum.amount || 0);
+
+    return {
+      amount: unpostedNet.dividedBy(remainingNights).toDecimalPlaces(2),
+      taxAmount: unpostedTax.dividedBy(remainingNights).toDecimalPlaces(2)
+    };
+  }
+
+  /**
+   * Compares every open folio's recorded balance with its posted charges less captured payments
+   * @returns Folios that do not reconcile
+   */
+  private async reconcileFolios(run: NightAuditRun): Promise<ReconciliationDiscrepancy[]> {
+    const folios = await this.prisma.folio.findMany({
+      where: { status: FolioStatus.OPEN },
+      include: { charges: true }
+    }) as Folio[];
+
+    const payments = await this.prisma.payment.findMany({
+      where: {
+        folioId: { in: folios.map(folio => folio.id) },
+        status: { in: CAPTURED_PAYMENT_STATUSES }
+      }
+    }) as Payment[];
+
+    const discrepancies: ReconciliationDiscrepancy[] = [];
+
+    for (const folio of folios) {
+      const postedCharges = folio.charges
+        .filter(charge => BALANCE_CHARGE_STATUSES.includes(charge.status))
+        .reduce((sum, charge) => sum.plus(charge.totalAmount), new Prisma.Decimal(0));
+
+      const capturedPayments = payments
+        .filter(payment => payment.folioId === folio.id)
+        .reduce(
+          (sum, payment) => sum.plus(payment.amount).minus(payment.refundedAmount || 0),
+          new Prisma.Decimal(0)
+        );
+
+      const expectedBalance = postedCharges.minus(capturedPayments);
+      const recordedBalance = new Prisma.Decimal(folio.balance);
+      const variance = recordedBalance.minus(expectedBalance);
+
+      run.summary.foliosReconciled += 1;
+      run.summary.capturedPayments = run.summary.capturedPayments.plus(capturedPayments);
+
+      if (!variance.isZero()) {
+        discrepancies.push({
+          folioId: folio.id,
+          folioNumber: folio.folioNumber,
+          postedCharges,
+          capturedPayments,
+          expectedBalance,
+          recordedBalance,
+          variance
+        });
+      }
+    }
+
+    if (discrepancies.length > 0) {
+      this.logger.warn(`Night audit found ${discrepancies.length} folio discrepancies`);
+    }
+
+    return discrepancies;
+  }
+
+  /**
+   * Records a completed step so a failed run shows how far it got
+   */
+  private async completeStep(run: NightAuditRun, step: NightAuditStep): Promise<NightAuditRun> {
+    run.completedSteps.push(step);
+    await this.prisma.nightAuditRun.update({
+      where: { id: run.id },
+      data: {
+        completedSteps: run.completedSteps,
+        summary: run.summary,
+        discrepancies: run.discrepancies,
+        skippedBookingIds: run.skippedBookingIds
+      }
+    });
+    return run;
+  }
+}
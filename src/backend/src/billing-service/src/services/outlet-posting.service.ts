@@ -0,0 +1,523 @@
+/**
+ * @fileoverview Outlet posting service charging point-of-sale checks to the rooms of in-house
+ * guests. The guest is found by room number and name, each check line is taxed and posted to the
+ * folio routing picks for it within the guest's credit limit, and a check is posted once per
+ * outlet check number however often the point of sale sends it. Voids and corrections mark the
+ * charges VOIDED or ADJUSTED and record the change with its reason.
+ * @version 1.0.0
+ */
+
+// External imports
+import { Injectable, Logger } from '@nestjs/common'; // v10.0.0
+import { Prisma, PrismaClient } from '@prisma/client'; // v5.0.0
+
+// Internal imports
+import { prisma as billingPrisma } from '../config/database';
+import {
+  ChargeAdjustmentType,
+  ChargeStatus,
+  Folio,
+  FolioCharge,
+  FolioStatus
+} from '../models/folio.model';
+import {
+  CorrectOutletCheckLineDto,
+  InHouseGuest,
+  OUTLET_CHARGE_CATEGORIES,
+  OUTLET_REFERENCE_PREFIX,
+  Outlet,
+  OutletCheck,
+  OutletCheckLine,
+  OutletCheckLineDto,
+  OutletPostingResult,
+  PostOutletCheckDto,
+  VoidOutletCheckDto
+} from '../models/outlet-posting.model';
+import { TaxCalculation } from '../../../shared/models/tax.model';
+import { TaxService } from './tax.service';
+import { FolioRoutingService } from './folio-routing.service';
+import { CreditLimitService } from './credit-limit.service';
+import { Booking, BookingStatus } from '../../../reservation-service/src/models/booking.model';
+import { Guest } from '../../../guest-service/src/models/guest.model';
+import { BusinessDateService } from '../../../shared/services/business-date.service';
+import { ErrorCode, createErrorDetails } from '../../../shared/constants/error-codes';
+
+/**
+ * Charge statuses that count towards a folio balance and can still be voided or corrected
+ */
+const LIVE_CHARGE_STATUSES = [ChargeStatus.POSTED, ChargeStatus.ADJUSTED];
+
+/**
+ * Service posting outlet checks to guest folios
+ */
+@Injectable()
+export class OutletPostingService {
+  private readonly logger = new Logger(OutletPostingService.name);
+
+  constructor(
+    private readonly prisma: PrismaClient = billingPrisma,
+    private readonly businessDates: BusinessDateService = new BusinessDateService(prisma),
+    private readonly taxes: TaxService = new TaxService(prisma),
+    private readonly folioRouting: FolioRoutingService = new FolioRoutingService(prisma, businessDates),
+    private readonly creditLimits: CreditLimitService = new CreditLimitService(prisma, businessDates)
+  ) {}
+
+  /**
+   * Finds the in-house guest a room charge is for
+   * @param roomNumber - Room the guest gave
+   * @param guestName - Last name, or first and last name, the guest gave
+   * @throws ErrorCode.RESOURCE_NOT_FOUND if no checked-in guest of that name is in the room or
+   * the guest's booking has no open folio
+   */
+  async findInHouseGuest(roomNumber: string, guestName: string): Promise<InHouseGuest> {
+    const { booking, guest, folio } = await this.resolveGuest(roomNumber, guestName);
+
+    return {
+      reservationId: booking.id,
+      bookingNumber: booking.bookingNumber,
+      roomNumber,
+      guestName: `${guest.firstName} ${guest.lastName}`,
+      folioId: folio.id
+    };
+  }
+
+  /**
+   * Charges a check to a guest's room. Each line is taxed by its category and posted to the
+   * folio routing picks for it; a check that would take a folio over its credit limit is refused
+   * whole. Sending a check number again returns the check already posted.
+   * @param data - Outlet, check number, room, guest name and lines
+   * @throws ErrorCode.RESOURCE_NOT_FOUND if the guest is not in house
+   * @throws ErrorCode.BUSINESS_RULE_VIOLATION if a folio's credit limit would be exceeded
+   * @throws ErrorCode.RESOURCE_CONFLICT if the check number was posted with other lines
+   */
+  async postCheck(data: PostOutletCheckDto): Promise<OutletPostingResult> {
+    const existing = await this.findCheck(data.outlet, data.checkNumber);
+    if (existing) {
+      return this.duplicateOf(existing, data);
+    }
+
+    const { booking, guest, folio } = await this.resolveGuest(data.roomNumber, data.guestName);
+    const businessDate = await this.businessDates.getBusinessDate();
+
+    const lines = data.lines.map(line => ({
+      ...line,
+      category: line.category || OUTLET_CHARGE_CATEGORIES[data.outlet]
+    }));
+    const taxes = await this.taxes.calculate(lines.map(line => ({
+      category: line.category,
+      amount: this.round(line.quantity * line.unitPrice),
+      date: businessDate
+    })));
+
+    const targets: Folio[] = [];
+    for (const line of lines) {
+      targets.push(await this.folioRouting.routeCharge(folio, { category: line.category, department: data.outlet }));
+    }
+
+    for (const target of targets.filter((candidate, index) => targets.findIndex(other => other.id === candidate.id) === index)) {
+      const amount = taxes
+        .filter((_, index) => targets[index].id === target.id)
+        .reduce((sum, tax) => sum.plus(tax.grossAmount), new Prisma.Decimal(0));
+      this.creditLimits.assertCanPost(target, amount);
+    }
+
+    let check: OutletCheck;
+    try {
+      check = await this.prisma.$transaction(async (tx) => {
+        const posted: OutletCheckLine[] = [];
+
+        for (const [index, line] of lines.entries()) {
+          const lineNumber = index + 1;
+          const tax = taxes[index];
+          const target = targets[index];
+
+          const charge = await tx.folioCharge.create({
+            data: {
+              folioId: target.id,
+              description: `${line.quantity} x ${line.description}`,
+              ...this.chargeAmounts(tax),
+              category: line.category,
+              department: data.outlet,
+              postingDate: businessDate,
+              invoiceId: null,
+              status: ChargeStatus.POSTED,
+              reference: `${OUTLET_REFERENCE_PREFIX}-${data.outlet}-${data.checkNumber}-${lineNumber}`,
+              notes: `${data.outlet} check ${data.checkNumber}, posted by ${data.userId}`
+            }
+          }) as FolioCharge;
+
+          await tx.folio.update({
+            where: { id: target.id },
+            data: { balance: { increment: charge.totalAmount }, updatedAt: new Date() }
+          });
+
+          posted.push({
+            lineNumber,
+            description: line.description,
+            quantity: line.quantity,
+            unitPrice: line.unitPrice,
+            category: line.category,
+            totalAmount: tax.grossAmount,
+            chargeId: charge.id,
+            folioId: target.id,
+            status: ChargeStatus.POSTED
+          });
+        }
+
+        // The unique outlet and check number make a concurrent resend roll this back
+        return tx.outletCheck.create({
+          data: {
+            outlet: data.outlet,
+            checkNumber: data.checkNumber,
+            reservationId: booking.id,
+            roomNumber: data.roomNumber,
+            guestName: `${guest.firstName} ${guest.lastName}`,
+            lines: posted,
+            totalAmount: new Prisma.Decimal(this.round(posted.reduce((sum, line) => sum + line.totalAmount, 0))),
+            currency: folio.currency,
+            status: ChargeStatus.POSTED,
+            postedBy: data.userId
+          }
+        });
+      }) as OutletCheck;
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        return this.duplicateOf(await this.getCheck(data.outlet, data.checkNumber), data);
+      }
+      throw error;
+    }
+
+    this.logger.log(
+      `${data.outlet} check ${data.checkNumber} of ${check.totalAmount} ${check.currency} posted to ` +
+      `booking ${booking.bookingNumber} by ${data.userId}`
+    );
+    await this.creditLimits.recordPostings(check.lines.map(line => line.folioId));
+    return { check, duplicate: false };
+  }
+
+  /**
+   * Retrieves a posted check
+   * @param outlet - Outlet that issued the check
+   * @param checkNumber - Outlet check number
+   * @throws ErrorCode.RESOURCE_NOT_FOUND if the check was not posted
+   */
+  async getCheck(outlet: Outlet, checkNumber: string): Promise<OutletCheck> {
+    const check = await this.findCheck(outlet, checkNumber);
+
+    if (!check) {
+      throw createErrorDetails(ErrorCode.RESOURCE_NOT_FOUND, {
+        message: `${outlet} check ${checkNumber} has not been posted`,
+        outlet,
+        checkNumber
+      });
+    }
+
+    return check;
+  }
+
+  /**
+   * Voids a check, or one line of it. The charges are marked VOIDED with the reason and taken
+   * off their folio balances.
+   * @param data - Check, optional line and the reason
+   * @throws ErrorCode.RESOURCE_NOT_FOUND if the check or line does not exist
+   * @throws ErrorCode.BUSINESS_RULE_VIOLATION if the lines are already voided or invoiced
+   * @throws ErrorCode.RESOURCE_CONFLICT if a charge changed meanwhile
+   */
+  async voidCheck(data: VoidOutletCheckDto): Promise<OutletCheck> {
+    const check = await this.getCheck(data.outlet, data.checkNumber);
+    const lines = data.lineNumber !== undefined
+      ? [this.getLine(check, data.lineNumber)]
+      : check.lines.filter(line => line.status !== ChargeStatus.VOIDED);
+
+    const charges = await this.getLiveCharges(check, lines);
+    const businessDate = await this.businessDates.getBusinessDate();
+
+    const updated = await this.prisma.$transaction(async (tx) => {
+      for (const charge of charges) {
+        const { count } = await tx.folioCharge.updateMany({
+          where: { id: charge.id, status: { in: LIVE_CHARGE_STATUSES }, invoiceId: null, totalAmount: charge.totalAmount },
+          data: { status: ChargeStatus.VOIDED, notes: `Voided by ${data.userId}: ${data.reason}` }
+        });
+        if (count === 0) {
+          throw createErrorDetails(ErrorCode.RESOURCE_CONFLICT, {
+            message: 'Charge changed while it was being voided',
+            chargeId: charge.id
+          });
+        }
+
+        await tx.folio.update({
+          where: { id: charge.folioId },
+          data: { balance: { decrement: charge.totalAmount }, updatedAt: new Date() }
+        });
+        await tx.folioChargeAdjustment.create({
+          data: {
+            ...this.adjustmentOf(charge, ChargeAdjustmentType.VOID, data.reason, businessDate, data.userId),
+            amount: new Prisma.Decimal(0),
+            taxAmount: new Prisma.Decimal(0),
+            totalAmount: new Prisma.Decimal(0)
+          }
+        });
+      }
+
+      const voided = lines.map(line => line.lineNumber);
+      return this.updateCheckLines(tx, check, check.lines.map(line =>
+        voided.includes(line.lineNumber) ? { ...line, status: ChargeStatus.VOIDED } : line
+      ));
+    });
+
+    this.logger.log(
+      `${data.outlet} check ${data.checkNumber} ${data.lineNumber !== undefined ? `line ${data.lineNumber} ` : ''}` +
+      `voided by ${data.userId}: ${data.reason}`
+    );
+    await this.creditLimits.recordPostings(charges.map(charge => charge.folioId));
+    return updated;
+  }
+
+  /**
+   * Corrects the quantity or unit price of a check line. The charge is retaxed, marked ADJUSTED
+   * with the reason and the folio balance moves by the difference.
+   * @param data - Check line, the corrected quantity and price and the reason
+   * @throws ErrorCode.RESOURCE_NOT_FOUND if the check or line does not exist
+   * @throws ErrorCode.BUSINESS_RULE_VIOLATION if the line is voided or invoiced, or an increase
+   * would take the folio over its credit limit
+   * @throws ErrorCode.RESOURCE_CONFLICT if the charge changed meanwhile
+   */
+  async correctLine(data: CorrectOutletCheckLineDto): Promise<OutletCheck> {
+    const check = await this.getCheck(data.outlet, data.checkNumber);
+    const line = this.getLine(check, data.lineNumber);
+    const [charge] = await this.getLiveCharges(check, [line]);
+    const businessDate = await this.businessDates.getBusinessDate();
+
+    const [tax] = await this.taxes.calculate([{
+      category: line.category,
+      amount: this.round(data.quantity * data.unitPrice),
+      date: charge.postingDate
+    }]);
+    const amounts = this.chargeAmounts(tax);
+    const difference = amounts.totalAmount.minus(charge.totalAmount);
+
+    if (difference.gt(0)) {
+      const folio = await this.prisma.folio.findUnique({ where: { id: charge.folioId } }) as Folio;
+      this.creditLimits.assertCanPost(folio, difference);
+    }
+
+    const updated = await this.prisma.$transaction(async (tx) => {
+      const { count } = await tx.folioCharge.updateMany({
+        where: { id: charge.id, status: { in: LIVE_CHARGE_STATUSES }, invoiceId: null, totalAmount: charge.totalAmount },
+        data: {
+          ...amounts,
+          description: `${data.quantity} x ${line.description}`,
+          status: ChargeStatus.ADJUSTED,
+          notes: `Corrected by ${data.userId}: ${data.reason}`
+        }
+      });
+      if (count === 0) {
+        throw createErrorDetails(ErrorCode.RESOURCE_CONFLICT, {
+          message: 'Charge changed while it was being corrected',
+          chargeId: charge.id
+        });
+      }
+
+      await tx.folio.update({
+        where: { id: charge.folioId },
+        data: { balance: { increment: difference }, updatedAt: new Date() }
+      });
+      await tx.folioChargeAdjustment.create({
+        data: {
+          ...this.adjustmentOf(charge, ChargeAdjustmentType.CORRECTION, data.reason, businessDate, data.userId),
+          amount: amounts.amount,
+          taxAmount: amounts.taxAmount,
+          totalAmount: amounts.totalAmount
+        }
+      });
+
+      return this.updateCheckLines(tx, check, check.lines.map(candidate => candidate.lineNumber === line.lineNumber
+        ? {
+          ...candidate,
+          quantity: data.quantity,
+          unitPrice: data.unitPrice,
+          totalAmount: tax.grossAmount,
+          status: ChargeStatus.ADJUSTED
+        }
+        : candidate
+      ));
+    });
+
+    this.logger.log(
+      `${data.outlet} check ${data.checkNumber} line ${data.lineNumber} corrected by ${difference} ` +
+      `by ${data.userId}: ${data.reason}`
+    );
+    await this.creditLimits.recordPostings([charge.folioId]);
+    return updated;
+  }
+
+  private async findCheck(outlet: Outlet, checkNumber: string): Promise<OutletCheck | null> {
+    return this.prisma.outletCheck.findFirst({ where: { outlet, checkNumber } }) as Promise<OutletCheck | null>;
+  }
+
+  /**
+   * A resent check must be the one posted; a different check under the same number is refused
+   */
+  private duplicateOf(check: OutletCheck, data: PostOutletCheckDto): OutletPostingResult {
+    const sent = data.lines.map(line => [line.description, line.quantity, line.unitPrice, line.category || OUTLET_CHARGE_CATEGORIES[data.outlet]]);
+    const posted = check.lines.map(line => [line.description, line.quantity, line.unitPrice, line.category]);
+
+    // Lines corrected since posting no longer match what the point of sale first sent
+    const sameLines = check.status !== ChargeStatus.POSTED || JSON.stringify(sent) === JSON.stringify(posted);
+    if (check.roomNumber !== data.roomNumber || !sameLines) {
+      throw createErrorDetails(ErrorCode.RESOURCE_CONFLICT, {
+        message: `${data.outlet} check ${data.checkNumber} was already posted with other details`,
+        outlet: data.outlet,
+        checkNumber: data.checkNumber
+      });
+    }
+
+    this.logger.log(`${data.outlet} check ${data.checkNumber} resent; already posted`);
+    return { check, duplicate: true };
+  }
+
+  /**
+   * Finds the checked-in booking in the room whose guest has the name given, with its main folio
+   */
+  private async resolveGuest(roomNumber: string, guestName: string): Promise<{ booking: Booking; guest: Guest; folio: Folio }> {
+    const notFound = () => createErrorDetails(ErrorCode.RESOURCE_NOT_FOUND, {
+      message: `No in-house guest named ${guestName} in room ${roomNumber}`,
+      roomNumber
+    });
+
+    const room = await this.prisma.room.findFirst({ where: { roomNumber } });
+    if (!room) {
+      throw notFound();
+    }
+
+    const bookings = await this.prisma.booking.findMany({
+      where: { roomId: room.id, status: BookingStatus.CHECKED_IN }
+    }) as Booking[];
+    const guests = await this.prisma.guest.findMany({
+      where: { id: { in: bookings.map(booking => booking.guestId) } }
+    }) as Guest[];
+
+    const guest = guests.find(candidate => this.matchesName(candidate, guestName));
+    const booking = guest && bookings.find(candidate => candidate.guestId === guest.id);
+    if (!guest || !booking) {
+      throw notFound();
+    }
+
+    const folio = await this.prisma.folio.findFirst({
+      where: { reservationId: booking.id, status: FolioStatus.OPEN, isMainFolio: true }
+    }) as Folio | null;
+    if (!folio) {
+      throw createErrorDetails(ErrorCode.RESOURCE_NOT_FOUND, {
+        message: `Booking ${booking.bookingNumber} has no open folio`,
+        reservationId: booking.id
+      });
+    }
+
+    return { booking, guest, folio };
+  }
+
+  /**
+   * Whether the name given is the guest's last name or full name, ignoring case and spacing
+   */
+  private matchesName(guest: Guest, name: string): boolean {
+    const normalize = (value: string) => value.trim().replace(/\s+/g, ' ').toLowerCase();
+    const given = normalize(name);
+
+    return given === normalize(guest.lastName) || given === normalize(`${guest.firstName} ${guest.lastName}`);
+  }
+
+  private getLine(check: OutletCheck, lineNumber: number): OutletCheckLine {
+    const line = check.lines.find(candidate => candidate.lineNumber === lineNumber);
+
+    if (!line) {
+      throw createErrorDetails(ErrorCode.RESOURCE_NOT_FOUND, {
+        message: `${check.outlet} check ${check.checkNumber} has no line ${lineNumber}`,
+        checkNumber: check.checkNumber,
+        lineNumber
+      });
+    }
+
+    return line;
+  }
+
+  /**
+   * Loads the charges of check lines, which must still count on a folio and not be invoiced
+   */
+  private async getLiveCharges(check: OutletCheck, lines: OutletCheckLine[]): Promise<FolioCharge[]> {
+    const charges = await this.prisma.folioCharge.findMany({
+      where: { id: { in: lines.map(line => line.chargeId) } }
+    }) as FolioCharge[];
+
+    const blocked = charges.filter(charge => !LIVE_CHARGE_STATUSES.includes(charge.status) || charge.invoiceId);
+    if (lines.length === 0 || blocked.length > 0) {
+      throw createErrorDetails(ErrorCode.BUSINESS_RULE_VIOLATION, {
+        message: lines.length === 0
+          ? `${check.outlet} check ${check.checkNumber} is already voided`
+          : 'Voided and invoiced charges cannot be changed',
+        checkNumber: check.checkNumber,
+        chargeIds: blocked.map(charge => charge.id)
+      });
+    }
+
+    return charges;
+  }
+
+  private async updateCheckLines(
+    tx: Prisma.TransactionClient,
+    check: OutletCheck,
+    lines: OutletCheckLine[]
+  ): Promise<OutletCheck> {
+    const live = lines.filter(line => line.status !== ChargeStatus.VOIDED);
+
+    return tx.outletCheck.update({
+      where: { id: check.id },
+      data: {
+        lines,
+        totalAmount: new Prisma.Decimal(this.round(live.reduce((sum, line) => sum + line.totalAmount, 0))),
+        status: live.length === 0
+          ? ChargeStatus.VOIDED
+          : lines.some(line => line.status !== ChargeStatus.POSTED) ? ChargeStatus.ADJUSTED : ChargeStatus.POSTED,
+        updatedAt: new Date()
+      }
+    }) as Promise<OutletCheck>;
+  }
+
+  private adjustmentOf(
+    charge: FolioCharge,
+    type: ChargeAdjustmentType,
+    reason: string,
+    businessDate: Date,
+    userId: string
+  ) {
+    return {
+      chargeId: charge.id,
+      folioId: charge.folioId,
+      type,
+      previousAmount: charge.amount,
+      previousTaxAmount: charge.taxAmount,
+      previousTotalAmount: charge.totalAmount,
+      reason,
+      businessDate,
+      adjustedBy: userId
+    };
+  }
+
+  /**
+   * Charge amounts of a taxed line
+   */
+  private chargeAmounts(tax: TaxCalculation) {
+    const amount = new Prisma.Decimal(tax.netAmount);
+
+    return {
+      amount,
+      taxRate: amount.isZero() ? new Prisma.Decimal(0) : new Prisma.Decimal(tax.taxAmount).dividedBy(amount).toDecimalPlaces(4),
+      taxAmount: new Prisma.Decimal(tax.taxAmount),
+      taxLines: tax.lines,
+      totalAmount: new Prisma.Decimal(tax.grossAmount)
+    };
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+}
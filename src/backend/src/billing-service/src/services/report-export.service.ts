@@ -0,0 +1,185 @@
+/**
+ * @fileoverview Renders stored report snapshots as CSV or PDF documents, and general ledger journal
+ * batches as CSV or accounting-import JSON, for download.
+ * @version 1.0.0
+ */
+
+// External imports
+import { Injectable } from '@nestjs/common'; // v10.0.0
+import PDFDocument from 'pdfkit'; // v0.13.0
+import { format } from 'date-fns'; // v2.30.0
+
+// Internal imports
+import { DayEndReport, ReportColumn, ReportValue } from '../models/day-end-report.model';
+import { AccountingImportDocument, JournalBatch, JournalEntry } from '../models/general-ledger.model';
+
+/**
+ * Service converting report snapshots to downloadable formats
+ */
+@Injectable()
+export class ReportExportService {
+  /**
+   * Renders a report as RFC 4180 CSV with a header row and a trailing totals block
+   * @param report - Report snapshot
+   * @returns CSV document
+   */
+  toCsv(report: DayEndReport): string {
+    const lines = [
+      report.columns.map(column => this.escapeCsv(column.label)).join(','),
+      ...report.rows.map(row =>
+        report.columns.map(column => this.escapeCsv(row[column.key])).join(',')
+      )
+    ];
+
+    const totals = Object.entries(report.totals);
+    if (totals.length > 0) {
+      lines.push('');
+      totals.forEach(([key, value]) => lines.push(`${this.escapeCsv(key)},${this.escapeCsv(value)}`));
+    }
+
+    return lines.join('\r\n');
+  }
+
+  /**
+   * Renders a report as a paginated PDF table
+   * @param report - Report snapshot
+   * @returns PDF document bytes
+   */
+  toPdf(report: DayEndReport): Promise<Buffer> {
+    return new Promise((resolve, reject) => {
+      const doc = new PDFDocument({
+        size: 'A4',
+        margin: 40,
+        layout: report.columns.length > 5 ? 'landscape' : 'portrait'
+      });
+      const chunks: Buffer[] = [];
+
+      doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+      doc.on('end', () => resolve(Buffer.concat(chunks)));
+      doc.on('error', reject);
+
+      const businessDate = format(report.businessDate, 'yyyy-MM-dd');
+      doc.fontSize(16).text(report.title);
+      doc.fontSize(9).fillColor('#555555')
+        .text(`Business date ${businessDate} · Generated ${report.generatedAt.toISOString()} · ${report.currency}`)
+        .text(`Checksum ${report.checksum}`)
+        .fillColor('#000000')
+        .moveDown();
+
+      const left = doc.page.margins.left;
+      const width = doc.page.width - doc.page.margins.left - doc.page.margins.right;
+      const columnWidth = width / report.columns.length;
+
+      const writeRow = (values: string[], bold = false): void => {
+        if (doc.y > doc.page.height - doc.page.margins.bottom - 20) {
+          doc.addPage();
+        }
+        const y = doc.y;
+        doc.font(bold ? 'Helvetica-Bold' : 'Helvetica').fontSize(8);
+        values.forEach((value, index) => {
+          doc.text(value, left + index * columnWidth, y, { width: columnWidth - 4, lineBreak: false, ellipsis: true });
+        });
+        doc.x = left;
+        doc.y = y + 14;
+      };
+
+      writeRow(report.columns.map(column => column.label), true);
+      report.rows.forEach(row => writeRow(report.columns.map(column => this.formatValue(row[column.key], column))));
+
+      doc.moveDown();
+      doc.font('Helvetica-Bold').fontSize(9).text('Totals', left);
+      doc.font('Helvetica');
+      Object.entries(report.totals).forEach(([key, value]) => doc.text(`${key}: ${value ?? ''}`, left));
+
+      doc.end();
+    });
+  }
+
+  /**
+   * Renders a journal batch as RFC 4180 CSV with one row per journal line
+   * @param batch - Journal batch
+   * @param entries - Entries of the batch
+   * @returns CSV document
+   */
+  journalBatchToCsv(batch: JournalBatch, entries: JournalEntry[]): string {
+    const header = ['Batch', 'Date', 'Reference', 'Source', 'Source ID', 'Account', 'Account Name', 'Debit', 'Credit', 'Memo'];
+    const date = format(batch.businessDate, 'yyyy-MM-dd');
+
+    const lines = [
+      header.join(','),
+      ...entries.flatMap(entry => entry.lines.map(line => [
+        batch.batchNumber,
+        date,
+        entry.reference,
+        entry.sourceType,
+        entry.sourceId,
+        line.accountCode,
+        line.accountName,
+        line.debit.toFixed(2),
+        line.credit.toFixed(2),
+        line.description
+      ].map(value => this.escapeCsv(value)).join(',')))
+    ];
+
+    return lines.join('\r\n');
+  }
+
+  /**
+   * Renders a journal batch in the generic accounting-import JSON format
+   * @param batch - Journal batch
+   * @param entries - Entries of the batch
+   * @returns Accounting-import document
+   */
+  journalBatchToImport(batch: JournalBatch, entries: JournalEntry[]): AccountingImportDocument {
+    const date = format(batch.businessDate, 'yyyy-MM-dd');
+
+    return {
+      format: 'accounting-import',
+      version: 1,
+      batch: {
+        number: batch.batchNumber,
+        date,
+        period: batch.period,
+        currency: batch.currency,
+        totalDebit: Number(batch.totalDebit),
+        totalCredit: Number(batch.totalCredit)
+      },
+      entries: entries.map(entry => ({
+        reference: entry.reference,
+        date,
+        source: entry.sourceType,
+        sourceId: entry.sourceId,
+        description: entry.description,
+        lines: entry.lines.map(line => ({
+          account: line.accountCode,
+          accountName: line.accountName,
+          debit: line.debit,
+          credit: line.credit,
+          memo: line.description
+        }))
+      }))
+    };
+  }
+
+  private formatValue(value: ReportValue | undefined, column: ReportColumn): string {
+    if (value === null || value === undefined) {
+      return '';
+    }
+    switch (column.type) {
+      case 'currency':
+        return Number(value).toFixed(2);
+      case 'percentage':
+        return `${(Number(value) * 100).toFixed(1)}%`;
+      default:
+        return String(value);
+    }
+  }
+
+  private escapeCsv(value: ReportValue | undefined): string {
+    if (value === null || value === undefined) {
+      return '';
+    }
+    const text = String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  }
+}
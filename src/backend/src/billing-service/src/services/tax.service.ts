@@ -0,0 +1,131 @@
+/**
+ * @fileoverview Tax engine keeping the effective-dated jurisdictional tax rules and taxing
+ * charges with them. Pricing, folio posting and invoicing all tax with the shared calculation
+ * this service extends, so a quote, the folio and the invoice carry the same tax lines.
+ * @version 1.0.0
+ */
+
+// External imports
+import { Injectable, Logger } from '@nestjs/common'; // v10.0.0
+import { PrismaClient } from '@prisma/client'; // v5.0.0
+import { format, startOfDay, subDays } from 'date-fns'; // v2.30.0
+
+// Internal imports
+import { prisma as billingPrisma } from '../config/database';
+import { CreateTaxRuleDto, TaxBasis, TaxRule, TaxRuleFilter } from '../../../shared/models/tax.model';
+import { TaxCalculationService } from '../../../shared/services/tax-calculation.service';
+import { ErrorCode, createErrorDetails } from '../../../shared/constants/error-codes';
+
+/**
+ * Service managing tax rules and calculating taxes
+ */
+@Injectable()
+export class TaxService extends TaxCalculationService {
+  private readonly logger = new Logger(TaxService.name);
+
+  constructor(prisma: PrismaClient = billingPrisma) {
+    super(prisma);
+  }
+
+  /**
+   * Lists tax rules ordered by jurisdiction, code and start date
+   * @param filter - Date in force, jurisdiction and charge category
+   */
+  async listRules(filter: TaxRuleFilter = {}): Promise<TaxRule[]> {
+    const date = filter.date && startOfDay(filter.date);
+
+    return this.prisma.taxRule.findMany({
+      where: {
+        ...(date && {
+          effectiveFrom: { lte: date },
+          OR: [{ effectiveTo: null }, { effectiveTo: { gte: date } }]
+        }),
+        ...(filter.jurisdiction && { jurisdiction: filter.jurisdiction }),
+        ...(filter.chargeCategory && { chargeCategories: { has: filter.chargeCategory } })
+      },
+      orderBy: [{ jurisdiction: 'asc' }, { code: 'asc' }, { effectiveFrom: 'asc' }]
+    }) as Promise<TaxRule[]>;
+  }
+
+  /**
+   * Adds a tax rule. A rule for a tax the jurisdiction already levies starts a new version: the
+   * open-ended version in force is ended the day before, and earlier charges keep their tax.
+   * @param data - Rule and the user adding it
+   * @throws ErrorCode.VALIDATION_ERROR if the rate, categories or dates are invalid
+   * @throws ErrorCode.RESOURCE_CONFLICT if the period overlaps a version that cannot be ended
+   */
+  async createRule(data: CreateTaxRuleDto): Promise<TaxRule> {
+    this.validateRule(data);
+    const effectiveFrom = startOfDay(data.effectiveFrom);
+    const effectiveTo = data.effectiveTo ? startOfDay(data.effectiveTo) : null;
+
+    return this.prisma.$transaction(async (tx) => {
+      const versions = await tx.taxRule.findMany({
+        where: { code: data.code, jurisdiction: data.jurisdiction }
+      }) as TaxRule[];
+
+      for (const version of versions) {
+        const overlaps = (effectiveTo === null || version.effectiveFrom <= effectiveTo)
+          && (version.effectiveTo === null || effectiveFrom <= version.effectiveTo);
+        if (!overlaps) {
+          continue;
+        }
+
+        if (version.effectiveTo !== null || version.effectiveFrom >= effectiveFrom) {
+          throw createErrorDetails(ErrorCode.RESOURCE_CONFLICT, {
+            message: `${data.jurisdiction} ${data.code} already has a version from ${format(version.effectiveFrom, 'yyyy-MM-dd')}`,
+            taxRuleId: version.id
+          });
+        }
+
+        await tx.taxRule.update({
+          where: { id: version.id },
+          data: { effectiveTo: subDays(effectiveFrom, 1), updatedAt: new Date() }
+        });
+      }
+
+      const rule = await tx.taxRule.create({
+        data: {
+          code: data.code,
+          name: data.name,
+          jurisdiction: data.jurisdiction,
+          chargeCategories: data.chargeCategories,
+          basis: data.basis,
+          rate: data.rate,
+          inclusive: data.inclusive ?? false,
+          exemptAfterNights: data.exemptAfterNights ?? null,
+          effectiveFrom,
+          effectiveTo,
+          createdBy: data.userId
+        }
+      }) as TaxRule;
+
+      this.logger.log(
+        `Tax rule ${rule.jurisdiction} ${rule.code} effective ${format(effectiveFrom, 'yyyy-MM-dd')} added by ${data.userId}`
+      );
+      return rule;
+    });
+  }
+
+  private validateRule(data: CreateTaxRuleDto): void {
+    const invalid = (message: string) => createErrorDetails(ErrorCode.VALIDATION_ERROR, {
+      message: `Tax rule ${data.jurisdiction} ${data.code}: ${message}`
+    });
+
+    if (data.chargeCategories.length === 0) {
+      throw invalid('at least one charge category is required');
+    }
+
+    if (data.rate < 0 || (data.basis === TaxBasis.PERCENTAGE && data.rate >= 100)) {
+      throw invalid('the rate must be a positive amount or a percentage below 100');
+    }
+
+    if (data.effectiveTo && startOfDay(data.effectiveTo) < startOfDay(data.effectiveFrom)) {
+      throw invalid('the rule cannot end before it starts');
+    }
+
+    if (data.exemptAfterNights !== undefined && data.exemptAfterNights !== null && data.exemptAfterNights < 1) {
+      throw invalid('long-stay exemptions start after at least one night');
+    }
+  }
+}
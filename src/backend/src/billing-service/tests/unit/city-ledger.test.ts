@@ -0,0 +1,271 @@
+/**
+ * @fileoverview Unit tests for the city ledger covering folio transfers at checkout against the
+ * credit limit, payment application across invoices, aged receivables, statements and dunning.
+ * @version 1.0.0
+ */
+
+// External imports
+import { describe, beforeEach, afterEach, it, expect, jest } from '@jest/globals';
+import { Prisma } from '@prisma/client';
+
+// Internal imports
+import { CityLedgerService } from '../../src/services/city-ledger.service';
+import { ArAccountStatus, AgingBucket } from '../../src/models/city-ledger.model';
+import { ChargeStatus, FolioStatus } from '../../src/models/folio.model';
+import { InvoiceStatus } from '../../src/models/invoice.model';
+import { PaymentMethod } from '../../src/models/payment.model';
+import { ErrorCode } from '../../../shared/constants/error-codes';
+
+jest.mock('../../src/config/database', () => ({ prisma: {} }));
+jest.mock('../../../shared/services/business-date.service', () => ({
+  BusinessDateService: jest.fn()
+}));
+
+describe('CityLedgerService', () => {
+  const businessDate = new Date('2024-12-02T00:00:00');
+  let service: CityLedgerService;
+  let mockPrisma: any;
+
+  const account = (overrides: Record<string, unknown> = {}) => ({
+    id: 'account-1',
+    accountNumber: 'AR-ACME',
+    companyName: 'Acme Corp',
+    billingAddress: '1 Main St',
+    taxIdentifier: 'US123',
+    currency: 'USD',
+    creditLimit: new Prisma.Decimal(5000),
+    paymentTermsDays: 30,
+    balance: new Prisma.Decimal(1000),
+    status: ArAccountStatus.ACTIVE,
+    ...overrides
+  });
+
+  const invoice = (id: string, issueDate: string, balanceDue: number, status = InvoiceStatus.ISSUED) => ({
+    id,
+    invoiceNumber: `INV-${id}`,
+    arAccountId: 'account-1',
+    issueDate: new Date(`${issueDate}T00:00:00`),
+    dueDate: new Date(`${issueDate}T00:00:00`),
+    totalAmount: new Prisma.Decimal(balanceDue),
+    billedAmount: new Prisma.Decimal(balanceDue),
+    balanceDue: new Prisma.Decimal(balanceDue),
+    status
+  });
+
+  const folio = {
+    id: 'folio-1',
+    folioNumber: 'F-BK001',
+    guestId: 'guest-1',
+    reservationId: 'booking-1',
+    balance: new Prisma.Decimal(336),
+    currency: 'USD',
+    status: FolioStatus.OPEN,
+    charges: [
+      { id: 'charge-1', amount: new Prisma.Decimal(300), taxAmount: new Prisma.Decimal(36), status: ChargeStatus.POSTED, invoiceId: null, taxLines: [] },
+      { id: 'charge-2', amount: new Prisma.Decimal(50), taxAmount: new Prisma.Decimal(0), status: ChargeStatus.VOIDED, invoiceId: null, taxLines: [] }
+    ]
+  };
+
+  beforeEach(() => {
+    const tx = {
+      folio: { updateMany: jest.fn().mockResolvedValue({ count: 1 }) },
+      folioCharge: { updateMany: jest.fn() },
+      arAccount: { updateMany: jest.fn().mockResolvedValue({ count: 1 }), update: jest.fn() },
+      payment: { create: jest.fn() },
+      invoice: {
+        create: jest.fn().mockImplementation(({ data }: any) => Promise.resolve({ id: 'invoice-1', ...data })),
+        updateMany: jest.fn().mockResolvedValue({ count: 1 })
+      },
+      arPayment: {
+        create: jest.fn().mockImplementation(({ data }: any) => Promise.resolve({ id: 'ar-payment-1', ...data }))
+      }
+    };
+
+    mockPrisma = {
+      arAccount: {
+        findUnique: jest.fn().mockResolvedValue(account()),
+        findMany: jest.fn().mockResolvedValue([account()])
+      },
+      folio: { findUnique: jest.fn().mockResolvedValue(folio) },
+      invoice: { findMany: jest.fn().mockResolvedValue([]) },
+      arPayment: { findMany: jest.fn().mockResolvedValue([]) },
+      $transaction: jest.fn().mockImplementation((callback: any) => callback(tx)),
+      tx
+    };
+
+    const mockBusinessDates: any = { getBusinessDate: jest.fn().mockResolvedValue(businessDate) };
+    const mockExchangeRates: any = { getRate: jest.fn().mockResolvedValue(1) };
+    service = new CityLedgerService(mockPrisma, mockBusinessDates, mockExchangeRates);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('transferFolioBalance', () => {
+    it('should close the folio and invoice the account on its payment terms', async () => {
+      const created = await service.transferFolioBalance({ folioId: 'folio-1', arAccountId: 'account-1', userId: 'agent-1' });
+
+      expect(mockPrisma.tx.folio.updateMany).toHaveBeenCalledWith({
+        where: { id: 'folio-1', status: FolioStatus.OPEN, balance: new Prisma.Decimal(336) },
+        data: expect.objectContaining({ balance: new Prisma.Decimal(0), status: FolioStatus.CLOSED })
+      });
+      expect(mockPrisma.tx.payment.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ method: PaymentMethod.DIRECT_BILLING, amount: new Prisma.Decimal(336) })
+      });
+      expect(created).toEqual(expect.objectContaining({
+        arAccountId: 'account-1',
+        subtotal: new Prisma.Decimal(300),
+        taxAmount: new Prisma.Decimal(36),
+        balanceDue: new Prisma.Decimal(336),
+        status: InvoiceStatus.ISSUED,
+        dueDate: new Date('2025-01-01T00:00:00')
+      }));
+      expect(mockPrisma.tx.arAccount.updateMany).toHaveBeenCalledWith(expect.objectContaining({
+        data: expect.objectContaining({ balance: { increment: new Prisma.Decimal(336) } })
+      }));
+    });
+
+    it('should refuse a transfer over the credit limit', async () => {
+      mockPrisma.arAccount.findUnique.mockResolvedValue(account({ balance: new Prisma.Decimal(4800) }));
+
+      await expect(service.transferFolioBalance({ folioId: 'folio-1', arAccountId: 'account-1', userId: 'agent-1' }))
+        .rejects.toMatchObject({ code: ErrorCode.BUSINESS_RULE_VIOLATION });
+      expect(mockPrisma.$transaction).not.toHaveBeenCalled();
+    });
+
+    it('should refuse a suspended account', async () => {
+      mockPrisma.arAccount.findUnique.mockResolvedValue(account({ status: ArAccountStatus.SUSPENDED }));
+
+      await expect(service.transferFolioBalance({ folioId: 'folio-1', arAccountId: 'account-1', userId: 'agent-1' }))
+        .rejects.toMatchObject({ code: ErrorCode.BUSINESS_RULE_VIOLATION });
+    });
+  });
+
+  describe('applyPayment', () => {
+    beforeEach(() => {
+      mockPrisma.invoice.findMany.mockResolvedValue([
+        invoice('invoice-1', '2024-10-01', 400, InvoiceStatus.OVERDUE),
+        invoice('invoice-2', '2024-11-01', 600)
+      ]);
+    });
+
+    it('should pay the oldest invoices first and part-pay the next', async () => {
+      const payment = await service.applyPayment({
+        arAccountId: 'account-1',
+        amount: 700,
+        method: PaymentMethod.BANK_TRANSFER,
+        reference: 'WIRE-881',
+        userId: 'ar-clerk'
+      });
+
+      expect(mockPrisma.tx.invoice.updateMany).toHaveBeenCalledWith({
+        where: { id: 'invoice-1', balanceDue: new Prisma.Decimal(400) },
+        data: expect.objectContaining({ balanceDue: new Prisma.Decimal(0), status: InvoiceStatus.PAID, paidDate: businessDate })
+      });
+      expect(mockPrisma.tx.invoice.updateMany).toHaveBeenCalledWith({
+        where: { id: 'invoice-2', balanceDue: new Prisma.Decimal(600) },
+        data: expect.objectContaining({ balanceDue: new Prisma.Decimal(300), status: InvoiceStatus.PARTIALLY_PAID })
+      });
+      expect(payment.unappliedAmount).toEqual(new Prisma.Decimal(0));
+    });
+
+    it('should follow the remittance advice and hold the rest as credit', async () => {
+      const payment = await service.applyPayment({
+        arAccountId: 'account-1',
+        amount: 500,
+        method: PaymentMethod.BANK_TRANSFER,
+        reference: 'WIRE-882',
+        allocations: [{ invoiceId: 'invoice-2', amount: 250 }],
+        userId: 'ar-clerk'
+      });
+
+      expect(mockPrisma.tx.invoice.updateMany).toHaveBeenCalledTimes(1);
+      expect(payment.allocations).toEqual([{ invoiceId: 'invoice-2', amount: new Prisma.Decimal(250) }]);
+      expect(payment.unappliedAmount).toEqual(new Prisma.Decimal(250));
+      expect(mockPrisma.tx.arAccount.update).toHaveBeenCalledWith({
+        where: { id: 'account-1' },
+        data: expect.objectContaining({ balance: { decrement: new Prisma.Decimal(500) } })
+      });
+    });
+
+    it('should reject an allocation above what the invoice owes', async () => {
+      await expect(service.applyPayment({
+        arAccountId: 'account-1',
+        amount: 1000,
+        method: PaymentMethod.BANK_TRANSFER,
+        reference: 'WIRE-883',
+        allocations: [{ invoiceId: 'invoice-1', amount: 450 }],
+        userId: 'ar-clerk'
+      })).rejects.toMatchObject({ code: ErrorCode.BUSINESS_RULE_VIOLATION });
+      expect(mockPrisma.$transaction).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('reports', () => {
+    it('should age open invoices by days since issue', async () => {
+      mockPrisma.invoice.findMany.mockResolvedValue([
+        invoice('invoice-1', '2024-11-20', 100),
+        invoice('invoice-2', '2024-10-15', 200, InvoiceStatus.OVERDUE),
+        invoice('invoice-3', '2024-09-20', 300, InvoiceStatus.OVERDUE),
+        invoice('invoice-4', '2024-06-01', 400, InvoiceStatus.COLLECTION)
+      ]);
+
+      const report = await service.getAgedReceivables();
+
+      expect(report.accounts[0]).toEqual(expect.objectContaining({
+        accountNumber: 'AR-ACME',
+        [AgingBucket.CURRENT]: 100,
+        [AgingBucket.DAYS_30]: 200,
+        [AgingBucket.DAYS_60]: 300,
+        [AgingBucket.DAYS_90_PLUS]: 400,
+        total: 1000
+      }));
+      expect(report.totals.total).toBe(1000);
+    });
+
+    it('should state the balance brought forward, the month activity and the closing balance', async () => {
+      mockPrisma.invoice.findMany.mockResolvedValue([
+        invoice('invoice-1', '2024-10-20', 400),
+        invoice('invoice-2', '2024-11-05', 600)
+      ]);
+      mockPrisma.arPayment.findMany.mockResolvedValue([
+        { reference: 'WIRE-880', amount: new Prisma.Decimal(150), receivedDate: new Date('2024-10-25T00:00:00') },
+        { reference: 'WIRE-881', amount: new Prisma.Decimal(250), receivedDate: new Date('2024-11-18T00:00:00') }
+      ]);
+
+      const statement = await service.getStatement('account-1', new Date('2024-11-15T00:00:00'));
+
+      expect(statement.periodStart).toEqual(new Date('2024-11-01T00:00:00'));
+      expect(statement.openingBalance).toBe(250);
+      expect(statement.lines).toEqual([
+        expect.objectContaining({ type: 'INVOICE', reference: 'INV-invoice-2', amount: 600, balance: 850 }),
+        expect.objectContaining({ type: 'PAYMENT', reference: 'WIRE-881', amount: -250, balance: 600 })
+      ]);
+      expect(statement.closingBalance).toBe(600);
+    });
+  });
+
+  describe('runDunning', () => {
+    it('should move unpaid invoices past due to OVERDUE and long overdue ones to COLLECTION', async () => {
+      mockPrisma.invoice.updateMany = jest.fn()
+        .mockResolvedValueOnce({ count: 1 })
+        .mockResolvedValueOnce({ count: 3 });
+
+      const run = await service.runDunning('ar-clerk');
+
+      expect(mockPrisma.invoice.updateMany).toHaveBeenCalledWith({
+        where: expect.objectContaining({ status: InvoiceStatus.OVERDUE, dueDate: { lt: new Date('2024-10-03T00:00:00') } }),
+        data: expect.objectContaining({ status: InvoiceStatus.COLLECTION })
+      });
+      expect(mockPrisma.invoice.updateMany).toHaveBeenCalledWith({
+        where: expect.objectContaining({
+          status: { in: [InvoiceStatus.ISSUED, InvoiceStatus.PARTIALLY_PAID] },
+          dueDate: { lt: businessDate }
+        }),
+        data: expect.objectContaining({ status: InvoiceStatus.OVERDUE })
+      });
+      expect(run).toEqual({ businessDate, overdue: 3, collection: 1 });
+    });
+  });
+});
@@ -0,0 +1,243 @@
+/**
+ * @fileoverview Unit tests for credit limit monitoring covering card pre-authorizations, exposure
+ * updates with front desk alerts, blocking postings and the over credit limit list.
+ * @version 1.0.0
+ */
+
+// External imports
+import { describe, beforeEach, afterEach, it, expect, jest } from '@jest/globals';
+import { Prisma } from '@prisma/client';
+import { of } from 'rxjs';
+
+// Internal imports
+import { CreditLimitService } from '../../src/services/credit-limit.service';
+import { FolioStatus } from '../../src/models/folio.model';
+import { PaymentStatus } from '../../src/models/payment.model';
+import { ErrorCode } from '../../../shared/constants/error-codes';
+
+jest.mock('../../src/config/database', () => ({ prisma: {} }));
+jest.mock('../../../shared/services/business-date.service', () => ({
+  BusinessDateService: jest.fn()
+}));
+jest.mock('../../src/services/payment-gateway.service', () => ({
+  PaymentGatewayService: jest.fn()
+}));
+jest.mock('../../../websocket-service/src/config/websocket', () => ({
+  WebSocketNamespaces: { FRONT_DESK: 'front_desk' }
+}));
+
+describe('CreditLimitService', () => {
+  const businessDate = new Date('2024-12-05T00:00:00');
+  let service: CreditLimitService;
+  let mockPrisma: any;
+  let mockBusinessDates: any;
+  let mockNotifications: any;
+  let mockGateway: any;
+  let folios: Record<string, any>;
+
+  const folio = (id: string, overrides: Record<string, unknown> = {}) => ({
+    id,
+    folioNumber: `F-${id}`,
+    guestId: `guest-${id}`,
+    reservationId: `booking-${id}`,
+    balance: new Prisma.Decimal(400),
+    currency: 'USD',
+    status: FolioStatus.OPEN,
+    authorizedAmount: new Prisma.Decimal(0),
+    creditAlertedAt: null,
+    ...overrides
+  });
+
+  const createService = () => new CreditLimitService(mockPrisma, mockBusinessDates, mockNotifications, mockGateway);
+
+  beforeEach(() => {
+    folios = {
+      'folio-1': folio('folio-1'),
+      'folio-2': folio('folio-2', { balance: new Prisma.Decimal(1250) }),
+      'folio-3': folio('folio-3', { balance: new Prisma.Decimal(2300), authorizedAmount: new Prisma.Decimal(2000) })
+    };
+
+    const tx = {
+      payment: { create: jest.fn() },
+      folio: { update: jest.fn() }
+    };
+
+    mockPrisma = {
+      folio: {
+        findUnique: jest.fn().mockImplementation(({ where }: any) => Promise.resolve(folios[where.id] || null)),
+        findMany: jest.fn().mockImplementation(() => Promise.resolve(Object.values(folios))),
+        update: jest.fn(),
+        updateMany: jest.fn().mockResolvedValue({ count: 1 })
+      },
+      booking: {
+        findMany: jest.fn().mockResolvedValue([
+          { id: 'booking-folio-2', bookingNumber: 'BK002', roomId: 'room-214' },
+          { id: 'booking-folio-3', bookingNumber: 'BK003', roomId: null }
+        ])
+      },
+      guest: {
+        findMany: jest.fn().mockResolvedValue([
+          { id: 'guest-folio-2', firstName: 'Ana', lastName: 'Silva' },
+          { id: 'guest-folio-3', firstName: 'Ben', lastName: 'Okafor' }
+        ])
+      },
+      room: { findMany: jest.fn().mockResolvedValue([{ id: 'room-214', roomNumber: '214' }]) },
+      $transaction: jest.fn().mockImplementation((callback: any) => callback(tx)),
+      tx
+    };
+
+    mockBusinessDates = { getBusinessDate: jest.fn().mockResolvedValue(businessDate) };
+    mockNotifications = { sendNotification: jest.fn() };
+    mockGateway = {
+      authorize: jest.fn().mockReturnValue(of({
+        success: true,
+        transactionId: 'txn-1',
+        gatewayReference: 'pi_1',
+        authorizationCode: 'A1'
+      }))
+    };
+    service = createService();
+  });
+
+  afterEach(() => {
+    delete process.env.CREDIT_LIMIT_BLOCK_POSTINGS;
+    jest.clearAllMocks();
+  });
+
+  describe('authorizeCard', () => {
+    it('should pre-authorize the card and hold the amount on the folio', async () => {
+      await service.authorizeCard({ folioId: 'folio-1', amount: 800, cardToken: 'tok_visa', userId: 'clerk-1' });
+
+      expect(mockGateway.authorize).toHaveBeenCalledWith(expect.objectContaining({
+        amount: 800,
+        currency: 'USD',
+        cardToken: 'tok_visa',
+        folioId: 'folio-1'
+      }));
+      expect(mockPrisma.tx.payment.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ transactionId: 'txn-1', status: PaymentStatus.AUTHORIZED })
+      });
+      expect(mockPrisma.tx.folio.update).toHaveBeenCalledWith({
+        where: { id: 'folio-1' },
+        data: expect.objectContaining({ authorizedAmount: { increment: new Prisma.Decimal(800) } })
+      });
+    });
+
+    it('should reject an authorization the gateway declines', async () => {
+      mockGateway.authorize.mockReturnValue(of({ success: false, errorMessage: 'Card declined' }));
+
+      await expect(service.authorizeCard({ folioId: 'folio-1', amount: 800, cardToken: 'tok_visa', userId: 'clerk-1' }))
+        .rejects.toMatchObject({ code: ErrorCode.EXTERNAL_SERVICE_ERROR });
+      expect(mockPrisma.$transaction).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getExposure', () => {
+    it('should measure against the house limit without a card pre-authorization', async () => {
+      const exposure = await service.getExposure('folio-2');
+
+      expect(exposure).toEqual(expect.objectContaining({
+        balance: 1250,
+        authorizedAmount: 1000,
+        houseLimit: true,
+        exposure: 250,
+        overLimit: true
+      }));
+    });
+  });
+
+  describe('recordPostings', () => {
+    it('should alert the front desk when a folio passes the threshold', async () => {
+      await service.recordPostings(['folio-2']);
+
+      expect(mockPrisma.folio.updateMany).toHaveBeenCalledWith({
+        where: { id: 'folio-2', creditAlertedAt: null },
+        data: { exposure: new Prisma.Decimal(250), creditAlertedAt: expect.any(Date) }
+      });
+      expect(mockNotifications.sendNotification).toHaveBeenCalledWith(expect.objectContaining({
+        type: 'BILLING_UPDATE',
+        targetGroup: 'front_desk',
+        correlationId: 'booking-folio-2',
+        payload: expect.objectContaining({ alert: 'CREDIT_LIMIT_EXCEEDED', folioId: 'folio-2', exposure: 250 })
+      }));
+    });
+
+    it('should alert once while the folio stays over the threshold', async () => {
+      folios['folio-2'].creditAlertedAt = new Date('2024-12-04T21:00:00');
+
+      await service.recordPostings(['folio-2', 'folio-2']);
+
+      expect(mockNotifications.sendNotification).not.toHaveBeenCalled();
+      expect(mockPrisma.folio.update).toHaveBeenCalledTimes(1);
+      expect(mockPrisma.folio.update).toHaveBeenCalledWith({
+        where: { id: 'folio-2' },
+        data: { exposure: new Prisma.Decimal(250) }
+      });
+    });
+
+    it('should not alert when a concurrent posting already claimed the alert', async () => {
+      mockPrisma.folio.updateMany.mockResolvedValue({ count: 0 });
+
+      await service.recordPostings(['folio-2']);
+
+      expect(mockNotifications.sendNotification).not.toHaveBeenCalled();
+    });
+
+    it('should clear the alert once the folio is back within its limit', async () => {
+      folios['folio-1'].creditAlertedAt = new Date('2024-12-04T21:00:00');
+
+      await service.recordPostings(['folio-1']);
+
+      expect(mockPrisma.folio.update).toHaveBeenCalledWith({
+        where: { id: 'folio-1' },
+        data: { exposure: new Prisma.Decimal(-600), creditAlertedAt: null }
+      });
+    });
+
+    it('should retry an exposure update that fails', async () => {
+      mockPrisma.folio.findUnique.mockRejectedValueOnce(new Error('database unavailable'));
+
+      await service.recordPostings(['folio-2']);
+
+      expect(mockPrisma.folio.findUnique).toHaveBeenCalledTimes(2);
+      expect(mockNotifications.sendNotification).toHaveBeenCalledTimes(1);
+    });
+
+    it('should report the folios whose exposure could not be updated', async () => {
+      mockPrisma.folio.findUnique.mockRejectedValue(new Error('database unavailable'));
+
+      await expect(service.recordPostings(['folio-1', 'folio-2'])).rejects.toMatchObject({
+        code: ErrorCode.DATABASE_ERROR,
+        details: expect.objectContaining({ folioIds: ['folio-1', 'folio-2'] })
+      });
+      expect(mockPrisma.folio.findUnique).toHaveBeenCalledTimes(6);
+    });
+  });
+
+  describe('assertCanPost', () => {
+    it('should refuse a posting that takes the folio past the threshold', () => {
+      process.env.CREDIT_LIMIT_BLOCK_POSTINGS = 'true';
+      service = createService();
+
+      expect(() => service.assertCanPost(folios['folio-1'], new Prisma.Decimal(700)))
+        .toThrow(expect.objectContaining({ code: ErrorCode.BUSINESS_RULE_VIOLATION }));
+      expect(() => service.assertCanPost(folios['folio-1'], new Prisma.Decimal(600))).not.toThrow();
+    });
+
+    it('should allow the posting when blocking is not turned on', () => {
+      expect(() => service.assertCanPost(folios['folio-1'], new Prisma.Decimal(700))).not.toThrow();
+    });
+  });
+
+  describe('getOverLimitReport', () => {
+    it('should list the open folios over their limit, largest exposure first', async () => {
+      const report = await service.getOverLimitReport();
+
+      expect(report.businessDate).toEqual(businessDate);
+      expect(report.folios.map(entry => [entry.folioNumber, entry.exposure, entry.guestName, entry.roomNumber])).toEqual([
+        ['F-folio-3', 300, 'Ben Okafor', null],
+        ['F-folio-2', 250, 'Ana Silva', '214']
+      ]);
+    });
+  });
+});
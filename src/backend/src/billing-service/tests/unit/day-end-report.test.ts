@@ -0,0 +1,71 @@
+/**
+ * @fileoverview Unit tests for the day-end report service covering pack generation and
+ * snapshot integrity checks.
+ * @version 1.0.0
+ */
+
+// External imports
+import { describe, beforeEach, afterEach, it, expect, jest } from '@jest/globals';
+
+// Internal imports
+import { DayEndReportService } from '../../src/services/day-end-report.service';
+import { DayEndReportType } from '../../src/models/day-end-report.model';
+import { ErrorCode } from '../../../shared/constants/error-codes';
+
+jest.mock('../../src/config/database', () => ({ prisma: {} }));
+
+describe('DayEndReportService', () => {
+  const businessDate = new Date('2024-07-15T00:00:00');
+  let service: DayEndReportService;
+  let mockPrisma: any;
+
+  beforeEach(() => {
+    mockPrisma = {
+      dayEndReport: {
+        findMany: jest.fn().mockResolvedValue([]),
+        findFirst: jest.fn(),
+        create: jest.fn().mockImplementation(({ data }: any) => Promise.resolve({ id: `report-${data.type}`, ...data }))
+      },
+      folioCharge: { findMany: jest.fn().mockResolvedValue([]) },
+      payment: { findMany: jest.fn().mockResolvedValue([]) },
+      booking: { findMany: jest.fn().mockResolvedValue([]) },
+      room: { count: jest.fn().mockResolvedValue(50) }
+    };
+
+    service = new DayEndReportService(mockPrisma);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should store only the reports missing from the pack', async () => {
+    mockPrisma.dayEndReport.findMany.mockResolvedValue([
+      { id: 'report-existing', type: DayEndReportType.TRIAL_BALANCE }
+    ]);
+
+    const reports = await service.generateReportPack(businessDate, 'auditor-1', 'run-1');
+
+    expect(reports).toHaveLength(Object.values(DayEndReportType).length);
+    expect(mockPrisma.dayEndReport.create).toHaveBeenCalledTimes(Object.values(DayEndReportType).length - 1);
+    expect(mockPrisma.dayEndReport.create).not.toHaveBeenCalledWith(expect.objectContaining({
+      data: expect.objectContaining({ type: DayEndReportType.TRIAL_BALANCE })
+    }));
+  });
+
+  it('should return a stored report whose checksum matches', async () => {
+    const [report] = await service.generateReportPack(businessDate, 'auditor-1');
+    mockPrisma.dayEndReport.findFirst.mockResolvedValue(report);
+
+    await expect(service.getReport(businessDate, report.type)).resolves.toEqual(report);
+  });
+
+  it('should reject a stored report that was altered after it was frozen', async () => {
+    const [report] = await service.generateReportPack(businessDate, 'auditor-1');
+    mockPrisma.dayEndReport.findFirst.mockResolvedValue({ ...report, totals: { ...report.totals, tampered: 1 } });
+
+    await expect(service.getReport(businessDate, report.type)).rejects.toMatchObject({
+      code: ErrorCode.BUSINESS_RULE_VIOLATION
+    });
+  });
+});
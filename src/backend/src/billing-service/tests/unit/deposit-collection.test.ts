@@ -0,0 +1,220 @@
+/**
+ * @fileoverview Unit tests for deposit collection covering capture of due installments, guarantee
+ * authorizations held on the folio, overdue deposits moving bookings to PENDING_PAYMENT and
+ * recovery back to CONFIRMED.
+ * @version 1.0.0
+ */
+
+// External imports
+import { describe, beforeEach, afterEach, it, expect, jest } from '@jest/globals';
+import { of } from 'rxjs';
+import { Prisma } from '@prisma/client';
+
+// Internal imports
+import { DepositCollectionService } from '../../src/services/deposit-collection.service';
+import { PaymentStatus } from '../../src/models/payment.model';
+import { BookingStatus, PaymentStatus as BookingPaymentStatus } from '../../../reservation-service/src/models/booking.model';
+import {
+  DepositCollectionMode,
+  InstallmentStatus
+} from '../../../reservation-service/src/models/payment-schedule.model';
+import { ErrorCode } from '../../../shared/constants/error-codes';
+
+jest.mock('../../src/config/database', () => ({ prisma: {} }));
+jest.mock('../../../shared/services/business-date.service', () => ({
+  BusinessDateService: jest.fn()
+}));
+jest.mock('../../src/services/payment-gateway.service', () => ({
+  PaymentGatewayService: jest.fn()
+}));
+jest.mock('../../src/services/credit-limit.service', () => ({
+  CreditLimitService: jest.fn()
+}));
+
+describe('DepositCollectionService', () => {
+  const businessDate = new Date('2024-10-01T00:00:00');
+  let service: DepositCollectionService;
+  let mockPrisma: any;
+  let mockGateway: any;
+  let mockCreditLimits: any;
+
+  const schedule = {
+    id: 'schedule-1',
+    bookingId: 'booking-1',
+    guestId: 'guest-1',
+    cardToken: 'tok_visa',
+    currency: 'USD'
+  };
+
+  const installment = (overrides: Record<string, unknown> = {}) => ({
+    id: 'installment-1',
+    scheduleId: 'schedule-1',
+    sequence: 1,
+    amount: 112,
+    dueDate: businessDate,
+    collectionMode: DepositCollectionMode.CAPTURE,
+    status: InstallmentStatus.SCHEDULED,
+    transactionId: null,
+    attempts: 0,
+    lastError: null,
+    collectedAt: null,
+    schedule,
+    ...overrides
+  });
+
+  const booking = (overrides: Record<string, unknown> = {}) => ({
+    id: 'booking-1',
+    bookingNumber: 'BK001',
+    guestId: 'guest-1',
+    roomId: null,
+    status: BookingStatus.CONFIRMED,
+    paymentStatus: BookingPaymentStatus.UNPAID,
+    totalAmount: 336,
+    auditTrail: [],
+    ...overrides
+  });
+
+  beforeEach(() => {
+    const tx = {
+      paymentInstallment: { updateMany: jest.fn().mockResolvedValue({ count: 1 }) },
+      payment: { create: jest.fn() },
+      folio: { update: jest.fn() }
+    };
+
+    mockPrisma = {
+      paymentInstallment: {
+        findMany: jest.fn()
+          .mockResolvedValueOnce([installment()])
+          .mockResolvedValue([installment({ status: InstallmentStatus.CAPTURED })]),
+        findUnique: jest.fn(),
+        update: jest.fn()
+      },
+      booking: {
+        findUnique: jest.fn().mockResolvedValue(booking()),
+        updateMany: jest.fn().mockResolvedValue({ count: 1 })
+      },
+      folio: {
+        findFirst: jest.fn().mockResolvedValue({ id: 'folio-1' }),
+        create: jest.fn()
+      },
+      $transaction: jest.fn().mockImplementation((callback: any) => callback(tx)),
+      tx
+    };
+
+    mockGateway = {
+      authorize: jest.fn().mockReturnValue(of({ success: true, transactionId: 'txn-1', gatewayReference: 'pi_1' })),
+      capture: jest.fn().mockReturnValue(of({ success: true, transactionId: 'txn-1', gatewayReference: 'pi_1' }))
+    };
+
+    mockCreditLimits = { recordPostings: jest.fn() };
+
+    service = new DepositCollectionService(mockGateway, mockPrisma, {
+      getBusinessDate: jest.fn().mockResolvedValue(businessDate)
+    } as any, mockCreditLimits);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should capture a due installment and record it against the main folio', async () => {
+    const run = await service.collectDueInstallments('cashier-1');
+
+    expect(mockGateway.authorize).toHaveBeenCalledWith(expect.objectContaining({
+      amount: 112,
+      cardToken: 'tok_visa',
+      folioId: 'folio-1'
+    }));
+    expect(mockGateway.capture).toHaveBeenCalledWith('txn-1', 112);
+    expect(mockPrisma.tx.payment.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        transactionId: 'txn-1',
+        amount: new Prisma.Decimal(112),
+        businessDate,
+        status: PaymentStatus.CAPTURED
+      })
+    });
+    expect(mockPrisma.tx.folio.update).toHaveBeenCalledWith({
+      where: { id: 'folio-1' },
+      data: expect.objectContaining({ balance: { decrement: new Prisma.Decimal(112) } })
+    });
+    expect(mockPrisma.booking.updateMany).toHaveBeenCalledWith(expect.objectContaining({
+      data: expect.objectContaining({ paymentStatus: BookingPaymentStatus.PARTIALLY_PAID })
+    }));
+    expect(run).toEqual(expect.objectContaining({ attempted: 1, collected: 1, failed: 0 }));
+  });
+
+  it('should only authorize a guarantee installment and hold it on the folio', async () => {
+    mockPrisma.paymentInstallment.findMany
+      .mockReset()
+      .mockResolvedValueOnce([installment({ collectionMode: DepositCollectionMode.AUTHORIZE })])
+      .mockResolvedValue([installment({ status: InstallmentStatus.AUTHORIZED })]);
+
+    await service.collectDueInstallments('cashier-1');
+
+    expect(mockGateway.capture).not.toHaveBeenCalled();
+    expect(mockPrisma.tx.payment.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ status: PaymentStatus.AUTHORIZED })
+    });
+    expect(mockPrisma.tx.folio.update).toHaveBeenCalledWith({
+      where: { id: 'folio-1' },
+      data: { authorizedAmount: { increment: new Prisma.Decimal(112) }, updatedAt: expect.any(Date) }
+    });
+    expect(mockCreditLimits.recordPostings).toHaveBeenCalledWith(['folio-1']);
+  });
+
+  it('should move a booking with a declined deposit to pending payment', async () => {
+    mockGateway.authorize.mockReturnValue(of({ success: false, errorMessage: 'Insufficient funds' }));
+    mockPrisma.paymentInstallment.findMany
+      .mockReset()
+      .mockResolvedValueOnce([installment()])
+      .mockResolvedValue([installment({ status: InstallmentStatus.FAILED })]);
+
+    const run = await service.collectDueInstallments('cashier-1');
+
+    expect(mockPrisma.paymentInstallment.update).toHaveBeenCalledWith({
+      where: { id: 'installment-1' },
+      data: expect.objectContaining({ status: InstallmentStatus.FAILED, lastError: 'Insufficient funds' })
+    });
+    expect(mockPrisma.booking.updateMany).toHaveBeenCalledWith(expect.objectContaining({
+      where: { id: 'booking-1', status: BookingStatus.CONFIRMED },
+      data: expect.objectContaining({
+        status: BookingStatus.PENDING_PAYMENT,
+        paymentStatus: BookingPaymentStatus.PAYMENT_FAILED
+      })
+    }));
+    expect(run).toEqual(expect.objectContaining({ failed: 1, pendingPayment: 1 }));
+  });
+
+  it('should confirm a pending-payment booking once the retried deposit is captured', async () => {
+    mockPrisma.paymentInstallment.findUnique
+      .mockResolvedValueOnce(installment({ status: InstallmentStatus.FAILED }))
+      .mockResolvedValue(installment({ status: InstallmentStatus.CAPTURED }));
+    mockPrisma.booking.findUnique.mockResolvedValue(booking({
+      status: BookingStatus.PENDING_PAYMENT,
+      paymentStatus: BookingPaymentStatus.PAYMENT_FAILED
+    }));
+    mockPrisma.paymentInstallment.findMany
+      .mockReset()
+      .mockResolvedValue([installment({ status: InstallmentStatus.CAPTURED })]);
+
+    const collected = await service.collectInstallment('installment-1', 'cashier-1');
+
+    expect(collected.status).toBe(InstallmentStatus.CAPTURED);
+    expect(mockPrisma.booking.updateMany).toHaveBeenCalledWith(expect.objectContaining({
+      data: expect.objectContaining({
+        status: BookingStatus.CONFIRMED,
+        paymentStatus: BookingPaymentStatus.PARTIALLY_PAID
+      })
+    }));
+  });
+
+  it('should not collect an installment that was already captured', async () => {
+    mockPrisma.paymentInstallment.findUnique.mockResolvedValue(installment({ status: InstallmentStatus.CAPTURED }));
+
+    await expect(service.collectInstallment('installment-1', 'cashier-1')).rejects.toMatchObject({
+      code: ErrorCode.BUSINESS_RULE_VIOLATION
+    });
+    expect(mockGateway.authorize).not.toHaveBeenCalled();
+  });
+});
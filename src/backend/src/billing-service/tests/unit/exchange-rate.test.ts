@@ -0,0 +1,227 @@
+/**
+ * @fileoverview Unit tests for exchange-rate tables and folio settlement covering cross rates
+ * through the property currency, rate file loading, settlement in another currency and the
+ * realized exchange gain or loss recorded on the payment.
+ * @version 1.0.0
+ */
+
+// External imports
+import { describe, beforeEach, afterEach, it, expect, jest } from '@jest/globals';
+import { of } from 'rxjs';
+import { Prisma } from '@prisma/client';
+
+// Internal imports
+import { ExchangeRateService } from '../../src/services/exchange-rate.service';
+import { FolioSettlementService } from '../../src/services/folio-settlement.service';
+import { ExchangeRateSource, parseExchangeRateFile } from '../../src/models/exchange-rate.model';
+import { FolioStatus } from '../../src/models/folio.model';
+import { PaymentMethod, PaymentStatus } from '../../src/models/payment.model';
+import { ErrorCode } from '../../../shared/constants/error-codes';
+
+jest.mock('../../src/config/database', () => ({ prisma: {} }));
+jest.mock('../../../shared/services/business-date.service', () => ({
+  BusinessDateService: jest.fn()
+}));
+jest.mock('../../src/services/payment-gateway.service', () => ({
+  PaymentGatewayService: jest.fn()
+}));
+jest.mock('../../src/services/credit-limit.service', () => ({
+  CreditLimitService: jest.fn()
+}));
+
+describe('Exchange rates and folio settlement', () => {
+  const businessDate = new Date('2024-10-01T00:00:00');
+  let exchangeRates: ExchangeRateService;
+  let mockPrisma: any;
+  let mockBusinessDates: any;
+
+  // Units of USD, the property currency, per unit
+  const table = [
+    { currency: 'EUR', rate: 1.05, effectiveDate: new Date('2024-09-28T00:00:00') },
+    { currency: 'EUR', rate: 1.1, effectiveDate: new Date('2024-10-01T00:00:00') },
+    { currency: 'GBP', rate: 1.25, effectiveDate: new Date('2024-09-28T00:00:00') }
+  ];
+
+  beforeEach(() => {
+    const tx = {
+      exchangeRate: { deleteMany: jest.fn(), createMany: jest.fn() },
+      folio: { updateMany: jest.fn().mockResolvedValue({ count: 1 }) },
+      payment: { create: jest.fn().mockResolvedValue({ id: 'payment-1' }) }
+    };
+
+    mockPrisma = {
+      exchangeRate: {
+        findFirst: jest.fn().mockImplementation(({ where }: any) => Promise.resolve(
+          table
+            .filter(rate => rate.currency === where.currency && rate.effectiveDate <= where.effectiveDate.lte)
+            .sort((a, b) => b.effectiveDate.getTime() - a.effectiveDate.getTime())[0] || null
+        )),
+        findMany: jest.fn().mockResolvedValue([])
+      },
+      folio: {
+        findUnique: jest.fn().mockResolvedValue({
+          id: 'folio-1',
+          folioNumber: 'F-BK001',
+          guestId: 'guest-1',
+          balance: new Prisma.Decimal(200),
+          currency: 'EUR',
+          status: FolioStatus.OPEN
+        })
+      },
+      folioCharge: {
+        findMany: jest.fn().mockResolvedValue([
+          { postingDate: new Date('2024-09-29T00:00:00'), totalAmount: new Prisma.Decimal(200) }
+        ])
+      },
+      $transaction: jest.fn().mockImplementation((callback: any) => callback(tx)),
+      tx
+    };
+
+    mockBusinessDates = { getBusinessDate: jest.fn().mockResolvedValue(businessDate) };
+    exchangeRates = new ExchangeRateService(mockPrisma, mockBusinessDates);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('ExchangeRateService', () => {
+    it('should convert between foreign currencies through the property currency', async () => {
+      const conversion = await exchangeRates.convert(100, 'EUR', 'GBP');
+
+      expect(conversion).toEqual(expect.objectContaining({ rate: 0.88, convertedAmount: 88 }));
+    });
+
+    it('should apply the latest table on or before the date', async () => {
+      await expect(exchangeRates.getRate('EUR', 'USD', new Date('2024-09-30T00:00:00'))).resolves.toBe(1.05);
+      await expect(exchangeRates.getRate('USD', 'USD')).resolves.toBe(1);
+    });
+
+    it('should reject a conversion without a rate loaded for the currency', async () => {
+      await expect(exchangeRates.convert(100, 'CHF', 'USD')).rejects.toMatchObject({
+        code: ErrorCode.BUSINESS_RULE_VIOLATION
+      });
+    });
+
+    it('should load each day of a rate file, replacing rates already loaded', async () => {
+      await exchangeRates.importRates(
+        'date,currency,rate\n2024-10-02,EUR,1.09\n2024-10-02,gbp,1.26\n2024-10-03,EUR,1.08\n',
+        'accountant-1'
+      );
+
+      expect(mockPrisma.tx.exchangeRate.deleteMany).toHaveBeenCalledTimes(2);
+      expect(mockPrisma.tx.exchangeRate.createMany).toHaveBeenCalledWith({
+        data: [
+          expect.objectContaining({ currency: 'EUR', baseCurrency: 'USD', rate: new Prisma.Decimal(1.09), source: ExchangeRateSource.FILE }),
+          expect.objectContaining({ currency: 'GBP', rate: new Prisma.Decimal(1.26) })
+        ]
+      });
+    });
+
+    it('should load nothing from a file with an invalid rate', async () => {
+      await expect(exchangeRates.importRates('2024-10-02,EUR,1.09\n2024-10-03,EUR,0\n', 'accountant-1'))
+        .rejects.toMatchObject({ code: ErrorCode.VALIDATION_ERROR });
+      await expect(exchangeRates.importRates('2024-10-02;EUR;1.09', 'accountant-1'))
+        .rejects.toMatchObject({ code: ErrorCode.VALIDATION_ERROR });
+
+      expect(mockPrisma.tx.exchangeRate.createMany).not.toHaveBeenCalled();
+    });
+
+    it('should skip headers and comments when parsing a rate file', () => {
+      const tables = parseExchangeRateFile('# ECB reference rates\nDate,Currency,Rate\n2024-10-02,EUR,1.09\n');
+
+      expect(Array.from(tables.entries())).toEqual([['2024-10-02', { EUR: 1.09 }]]);
+    });
+  });
+
+  describe('FolioSettlementService', () => {
+    let service: FolioSettlementService;
+    let mockGateway: any;
+    let mockCreditLimits: any;
+
+    beforeEach(() => {
+      mockGateway = {
+        authorize: jest.fn().mockReturnValue(of({ success: true, transactionId: 'txn-1', gatewayReference: 'pi_1' })),
+        capture: jest.fn().mockReturnValue(of({ success: true, transactionId: 'txn-1', gatewayReference: 'pi_1' }))
+      };
+      mockCreditLimits = { recordPostings: jest.fn() };
+      service = new FolioSettlementService(mockGateway, exchangeRates, mockPrisma, mockBusinessDates, mockCreditLimits);
+    });
+
+    it('should quote the balance in the guest currency', async () => {
+      const quote = await service.quoteSettlement('folio-1', 'USD');
+
+      expect(quote).toEqual(expect.objectContaining({ balance: 200, folioCurrency: 'EUR', amountDue: 220 }));
+    });
+
+    it('should settle a euro folio in dollars and record the rate and exchange gain', async () => {
+      const settlement = await service.settleFolio({
+        folioId: 'folio-1',
+        currency: 'USD',
+        paymentMethod: PaymentMethod.CREDIT_CARD,
+        cardToken: 'tok_visa',
+        userId: 'cashier-1'
+      });
+
+      expect(mockGateway.capture).toHaveBeenCalledWith('txn-1', 220);
+      // Charged when a euro bought 1.05 dollars, paid when it bought 1.10
+      expect(settlement).toEqual(expect.objectContaining({
+        amount: 220,
+        settledAmount: 200,
+        fxGainLoss: 10,
+        balance: 0
+      }));
+      expect(mockPrisma.tx.payment.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          transactionId: 'txn-1',
+          amount: new Prisma.Decimal(220),
+          currency: 'USD',
+          businessDate,
+          settledAmount: new Prisma.Decimal(200),
+          fxGainLoss: new Prisma.Decimal(10),
+          status: PaymentStatus.CAPTURED
+        })
+      });
+      expect(mockPrisma.tx.folio.updateMany).toHaveBeenCalledWith({
+        where: expect.objectContaining({ id: 'folio-1', balance: { gte: new Prisma.Decimal(200) } }),
+        data: expect.objectContaining({ balance: { decrement: new Prisma.Decimal(200) } })
+      });
+      expect(mockCreditLimits.recordPostings).toHaveBeenCalledWith(['folio-1']);
+    });
+
+    it('should credit a partial cash payment at the business date rate', async () => {
+      const settlement = await service.settleFolio({
+        folioId: 'folio-1',
+        currency: 'USD',
+        amount: 110,
+        paymentMethod: PaymentMethod.CASH,
+        userId: 'cashier-1'
+      });
+
+      expect(mockGateway.authorize).not.toHaveBeenCalled();
+      expect(settlement).toEqual(expect.objectContaining({ settledAmount: 100, fxGainLoss: 5, balance: 100 }));
+    });
+
+    it('should reject a payment exceeding the balance', async () => {
+      await expect(service.settleFolio({
+        folioId: 'folio-1',
+        currency: 'USD',
+        amount: 300,
+        paymentMethod: PaymentMethod.CASH,
+        userId: 'cashier-1'
+      })).rejects.toMatchObject({ code: ErrorCode.BUSINESS_RULE_VIOLATION });
+    });
+
+    it('should not credit the folio when its balance changed meanwhile', async () => {
+      mockPrisma.tx.folio.updateMany.mockResolvedValue({ count: 0 });
+
+      await expect(service.settleFolio({
+        folioId: 'folio-1',
+        currency: 'EUR',
+        paymentMethod: PaymentMethod.CASH,
+        userId: 'cashier-1'
+      })).rejects.toMatchObject({ code: ErrorCode.RESOURCE_CONFLICT });
+      expect(mockPrisma.tx.payment.create).not.toHaveBeenCalled();
+    });
+  });
+});
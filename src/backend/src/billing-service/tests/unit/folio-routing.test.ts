@@ -0,0 +1,200 @@
+/**
+ * @fileoverview Unit tests for folio routing covering instruction matching, fallback to the main
+ * folio and moving charges between folios with an audit trail.
+ * @version 1.0.0
+ */
+
+// External imports
+import { describe, beforeEach, afterEach, it, expect, jest } from '@jest/globals';
+import { Prisma } from '@prisma/client';
+
+// Internal imports
+import { FolioRoutingService } from '../../src/services/folio-routing.service';
+import { ChargeStatus, FolioStatus } from '../../src/models/folio.model';
+import { ErrorCode } from '../../../shared/constants/error-codes';
+
+jest.mock('../../src/config/database', () => ({ prisma: {} }));
+jest.mock('../../../shared/services/business-date.service', () => ({
+  BusinessDateService: jest.fn()
+}));
+
+describe('FolioRoutingService', () => {
+  const businessDate = new Date('2024-11-04T00:00:00');
+  let service: FolioRoutingService;
+  let mockPrisma: any;
+
+  const folio = (id: string, overrides: Record<string, unknown> = {}) => ({
+    id,
+    folioNumber: `F-${id}`,
+    reservationId: 'booking-1',
+    balance: new Prisma.Decimal(300),
+    currency: 'USD',
+    status: FolioStatus.OPEN,
+    isMainFolio: id === 'guest-folio',
+    ...overrides
+  });
+
+  const instruction = (id: string, targetFolioId: string, chargeCategories: string[], departments: string[] = []) => ({
+    id,
+    reservationId: 'booking-1',
+    targetFolioId,
+    chargeCategories,
+    departments,
+    priority: 0,
+    isActive: true
+  });
+
+  const charge = (id: string, overrides: Record<string, unknown> = {}) => ({
+    id,
+    folioId: 'guest-folio',
+    totalAmount: new Prisma.Decimal(112),
+    status: ChargeStatus.POSTED,
+    invoiceId: null,
+    ...overrides
+  });
+
+  const folios: Record<string, any> = {
+    'guest-folio': folio('guest-folio'),
+    'company-folio': folio('company-folio', { balance: new Prisma.Decimal(0) }),
+    'group-master': folio('group-master', { reservationId: 'booking-9' })
+  };
+
+  beforeEach(() => {
+    const tx = {
+      folioCharge: { updateMany: jest.fn().mockResolvedValue({ count: 2 }) },
+      folio: { update: jest.fn() },
+      folioChargeTransfer: {
+        create: jest.fn().mockImplementation(({ data }: any) => Promise.resolve({ id: `transfer-${data.chargeId}`, ...data }))
+      }
+    };
+
+    mockPrisma = {
+      booking: { findUnique: jest.fn().mockResolvedValue({ id: 'booking-1' }) },
+      folio: {
+        findUnique: jest.fn().mockImplementation(({ where }: any) => Promise.resolve(folios[where.id] || null)),
+        findFirst: jest.fn().mockImplementation(({ where }: any) => Promise.resolve(
+          folios[where.id]?.status === where.status ? folios[where.id] : null
+        ))
+      },
+      folioCharge: {
+        findMany: jest.fn().mockResolvedValue([charge('charge-1'), charge('charge-2', { totalAmount: new Prisma.Decimal(44) })])
+      },
+      folioRoutingInstruction: {
+        findMany: jest.fn().mockResolvedValue([
+          instruction('route-1', 'company-folio', ['ROOM']),
+          instruction('route-2', 'group-master', ['FOOD_AND_BEVERAGE'], ['RESTAURANT'])
+        ]),
+        create: jest.fn().mockImplementation(({ data }: any) => Promise.resolve({ id: 'route-3', ...data }))
+      },
+      $transaction: jest.fn().mockImplementation((callback: any) => callback(tx)),
+      tx
+    };
+
+    service = new FolioRoutingService(mockPrisma, {
+      getBusinessDate: jest.fn().mockResolvedValue(businessDate)
+    } as any);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('routeCharge', () => {
+    it('should send room charges to the company folio', async () => {
+      const target = await service.routeCharge(folios['guest-folio'], { category: 'ROOM', department: 'ROOMS' });
+
+      expect(target.id).toBe('company-folio');
+    });
+
+    it('should match on department as well as category', async () => {
+      const dinner = await service.routeCharge(folios['guest-folio'], { category: 'FOOD_AND_BEVERAGE', department: 'RESTAURANT' });
+      const minibar = await service.routeCharge(folios['guest-folio'], { category: 'FOOD_AND_BEVERAGE', department: 'MINIBAR' });
+
+      expect(dinner.id).toBe('group-master');
+      expect(minibar.id).toBe('guest-folio');
+    });
+
+    it('should keep the charge on the main folio when the target is closed', async () => {
+      mockPrisma.folio.findFirst.mockResolvedValueOnce(null);
+
+      const target = await service.routeCharge(folios['guest-folio'], { category: 'ROOM', department: 'ROOMS' });
+
+      expect(mockPrisma.folio.findFirst).toHaveBeenCalledWith({
+        where: { id: 'company-folio', status: FolioStatus.OPEN }
+      });
+      expect(target.id).toBe('guest-folio');
+    });
+  });
+
+  describe('createInstruction', () => {
+    it('should route every category when none are given', async () => {
+      const created = await service.createInstruction({
+        reservationId: 'booking-1',
+        targetFolioId: 'company-folio',
+        userId: 'agent-1'
+      });
+
+      expect(created).toEqual(expect.objectContaining({ chargeCategories: [], departments: [], priority: 0, isActive: true }));
+    });
+
+    it('should reject a target folio that does not exist', async () => {
+      await expect(service.createInstruction({
+        reservationId: 'booking-1',
+        targetFolioId: 'missing-folio',
+        userId: 'agent-1'
+      })).rejects.toMatchObject({ code: ErrorCode.RESOURCE_NOT_FOUND });
+    });
+  });
+
+  describe('transferCharges', () => {
+    const transfer = {
+      fromFolioId: 'guest-folio',
+      toFolioId: 'company-folio',
+      chargeIds: ['charge-1', 'charge-2'],
+      reason: 'Company agreed to cover the stay',
+      userId: 'cashier-1'
+    };
+
+    it('should move the charges, adjust both balances and record each transfer', async () => {
+      const transfers = await service.transferCharges(transfer);
+
+      expect(mockPrisma.tx.folioCharge.updateMany).toHaveBeenCalledWith({
+        where: expect.objectContaining({ id: { in: ['charge-1', 'charge-2'] }, folioId: 'guest-folio', invoiceId: null }),
+        data: { folioId: 'company-folio' }
+      });
+      expect(mockPrisma.tx.folio.update).toHaveBeenCalledWith({
+        where: { id: 'guest-folio' },
+        data: expect.objectContaining({ balance: { decrement: new Prisma.Decimal(156) } })
+      });
+      expect(mockPrisma.tx.folio.update).toHaveBeenCalledWith({
+        where: { id: 'company-folio' },
+        data: expect.objectContaining({ balance: { increment: new Prisma.Decimal(156) } })
+      });
+      expect(transfers).toEqual([
+        expect.objectContaining({ chargeId: 'charge-1', amount: new Prisma.Decimal(112), businessDate, transferredBy: 'cashier-1' }),
+        expect.objectContaining({ chargeId: 'charge-2', amount: new Prisma.Decimal(44), reason: transfer.reason })
+      ]);
+    });
+
+    it('should reject invoiced charges', async () => {
+      mockPrisma.folioCharge.findMany.mockResolvedValue([charge('charge-1', { invoiceId: 'invoice-1' }), charge('charge-2')]);
+
+      await expect(service.transferCharges(transfer)).rejects.toMatchObject({ code: ErrorCode.BUSINESS_RULE_VIOLATION });
+      expect(mockPrisma.$transaction).not.toHaveBeenCalled();
+    });
+
+    it('should reject charges that are not on the source folio', async () => {
+      mockPrisma.folioCharge.findMany.mockResolvedValue([charge('charge-1')]);
+
+      await expect(service.transferCharges(transfer)).rejects.toMatchObject({ code: ErrorCode.RESOURCE_NOT_FOUND });
+    });
+
+    it('should not adjust balances when a charge moved meanwhile', async () => {
+      mockPrisma.tx.folioCharge.updateMany.mockResolvedValue({ count: 1 });
+
+      await expect(service.transferCharges(transfer)).rejects.toMatchObject({ code: ErrorCode.RESOURCE_CONFLICT });
+      expect(mockPrisma.tx.folio.update).not.toHaveBeenCalled();
+      expect(mockPrisma.tx.folioChargeTransfer.create).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,337 @@
+/**
+ * @fileoverview Unit tests for the general ledger covering balanced postings for charges, their
+ * voids and corrections, payments, refunds and city ledger transfers, account mapping, period locking and the trial
+ * balance.
+ * @version 1.0.0
+ */
+
+// External imports
+import { describe, beforeEach, afterEach, it, expect, jest } from '@jest/globals';
+import { Prisma } from '@prisma/client';
+
+// Internal imports
+import { GeneralLedgerService } from '../../src/services/general-ledger.service';
+import {
+  AccountingPeriodStatus,
+  ControlAccount,
+  GlAccountType,
+  GlMappingSource,
+  JournalSourceType
+} from '../../src/models/general-ledger.model';
+import { ChargeAdjustmentType, ChargeStatus } from '../../src/models/folio.model';
+import { PaymentMethod, PaymentStatus } from '../../src/models/payment.model';
+import { ErrorCode } from '../../../shared/constants/error-codes';
+
+jest.mock('../../src/config/database', () => ({ prisma: {} }));
+jest.mock('../../../shared/services/business-date.service', () => ({
+  BusinessDateService: jest.fn()
+}));
+
+describe('GeneralLedgerService', () => {
+  const businessDate = new Date('2024-12-01T00:00:00');
+  let service: GeneralLedgerService;
+  let mockPrisma: any;
+  let mockBusinessDates: any;
+  let mockExchangeRates: any;
+
+  const glAccount = (code: string, type: GlAccountType, controlAccount: ControlAccount | null = null) => ({
+    id: `gl-${code}`,
+    code,
+    name: `Account ${code}`,
+    type,
+    controlAccount,
+    isActive: true
+  });
+
+  const accounts = [
+    glAccount('1100', GlAccountType.ASSET, ControlAccount.GUEST_LEDGER),
+    glAccount('1200', GlAccountType.ASSET, ControlAccount.CITY_LEDGER),
+    glAccount('1010', GlAccountType.ASSET),
+    glAccount('1020', GlAccountType.ASSET),
+    glAccount('2200', GlAccountType.LIABILITY, ControlAccount.TAX_PAYABLE),
+    glAccount('4000', GlAccountType.REVENUE),
+    glAccount('4100', GlAccountType.REVENUE),
+    glAccount('7900', GlAccountType.EXPENSE, ControlAccount.FX_GAIN_LOSS)
+  ];
+
+  const mapping = (id: string, accountCode: string, fields: Record<string, unknown>) => ({
+    id,
+    source: fields.paymentMethod !== undefined ? GlMappingSource.PAYMENT : GlMappingSource.CHARGE,
+    category: null,
+    department: null,
+    paymentMethod: null,
+    accountCode,
+    ...fields
+  });
+
+  const mappings = [
+    mapping('map-1', '4000', { category: null }),
+    mapping('map-2', '4100', { category: 'ROOM', department: 'ROOMS' }),
+    mapping('map-3', '1020', { paymentMethod: null }),
+    mapping('map-4', '1010', { paymentMethod: PaymentMethod.CASH })
+  ];
+
+  const charge = {
+    id: 'charge-1',
+    folioId: 'folio-1',
+    description: 'Room charge',
+    category: 'ROOM',
+    department: 'ROOMS',
+    amount: new Prisma.Decimal(200),
+    taxAmount: new Prisma.Decimal(24),
+    totalAmount: new Prisma.Decimal(224),
+    status: ChargeStatus.POSTED
+  };
+
+  const payment = (id: string, overrides: Record<string, unknown> = {}) => ({
+    id,
+    transactionId: `txn-${id}`,
+    folioId: 'folio-1',
+    amount: new Prisma.Decimal(100),
+    currency: 'USD',
+    method: PaymentMethod.CASH,
+    status: PaymentStatus.CAPTURED,
+    refundedAmount: new Prisma.Decimal(0),
+    ...overrides
+  });
+
+  const linesOf = (sourceType: JournalSourceType) =>
+    mockPrisma.tx.journalEntry.create.mock.calls
+      .map(([args]: any) => args.data)
+      .find((entry: any) => entry.sourceType === sourceType).lines
+      .map((line: any) => [line.accountCode, line.debit, line.credit]);
+
+  beforeEach(() => {
+    const tx = {
+      journalBatch: {
+        count: jest.fn().mockResolvedValue(0),
+        create: jest.fn().mockImplementation(({ data }: any) => Promise.resolve({ id: 'batch-1', ...data }))
+      },
+      journalEntry: { create: jest.fn() }
+    };
+
+    mockPrisma = {
+      glAccount: { findMany: jest.fn().mockResolvedValue(accounts) },
+      glMapping: { findMany: jest.fn().mockResolvedValue(mappings) },
+      folioCharge: { findMany: jest.fn().mockResolvedValue([charge]) },
+      payment: { findMany: jest.fn().mockResolvedValue([]) },
+      arPayment: { findMany: jest.fn().mockResolvedValue([]) },
+      folioChargeAdjustment: { findMany: jest.fn().mockResolvedValue([]) },
+      journalEntry: { findMany: jest.fn().mockResolvedValue([]) },
+      folio: { findMany: jest.fn().mockResolvedValue([{ id: 'folio-1', folioNumber: 'F-BK001', currency: 'USD' }]) },
+      arAccount: { findMany: jest.fn().mockResolvedValue([]) },
+      accountingPeriod: {
+        findFirst: jest.fn().mockResolvedValue(null),
+        create: jest.fn().mockImplementation(({ data }: any) => Promise.resolve({ id: 'period-1', ...data })),
+        updateMany: jest.fn().mockResolvedValue({ count: 1 })
+      },
+      $transaction: jest.fn().mockImplementation((callback: any) => callback(tx)),
+      tx
+    };
+
+    mockBusinessDates = { getBusinessDate: jest.fn().mockResolvedValue(new Date('2024-12-02T00:00:00')) };
+    mockExchangeRates = { getRate: jest.fn().mockResolvedValue(1) };
+    service = new GeneralLedgerService(mockPrisma, mockBusinessDates, mockExchangeRates);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('postBusinessDate', () => {
+    it('should post a charge to its most specific revenue account with tax and guest ledger lines', async () => {
+      const batch = await service.postBusinessDate(businessDate, 'auditor-1');
+
+      expect(batch).toEqual(expect.objectContaining({
+        batchNumber: 'GL-20241201-1',
+        period: '2024-12',
+        entryCount: 1,
+        totalDebit: new Prisma.Decimal(224),
+        totalCredit: new Prisma.Decimal(224)
+      }));
+      expect(linesOf(JournalSourceType.FOLIO_CHARGE)).toEqual([
+        ['1100', 224, 0],
+        ['4100', 0, 200],
+        ['2200', 0, 24]
+      ]);
+    });
+
+    it('should post a charge as first posted and reverse its void as an adjustment', async () => {
+      const voided = {
+        id: 'adjustment-1',
+        chargeId: 'charge-1',
+        folioId: 'folio-1',
+        type: ChargeAdjustmentType.VOID,
+        previousAmount: new Prisma.Decimal(200),
+        previousTaxAmount: new Prisma.Decimal(24),
+        previousTotalAmount: new Prisma.Decimal(224),
+        amount: new Prisma.Decimal(0),
+        taxAmount: new Prisma.Decimal(0),
+        totalAmount: new Prisma.Decimal(0),
+        businessDate
+      };
+      mockPrisma.folioCharge.findMany.mockResolvedValue([{ ...charge, status: ChargeStatus.VOIDED }]);
+      mockPrisma.folioChargeAdjustment.findMany.mockResolvedValue([voided]);
+
+      const batch = await service.postBusinessDate(businessDate, 'auditor-1');
+
+      expect(batch).toEqual(expect.objectContaining({ entryCount: 2 }));
+      expect(linesOf(JournalSourceType.FOLIO_CHARGE)).toEqual([
+        ['1100', 224, 0],
+        ['4100', 0, 200],
+        ['2200', 0, 24]
+      ]);
+      expect(linesOf(JournalSourceType.CHARGE_ADJUSTMENT)).toEqual([
+        ['1100', 0, 224],
+        ['4100', 200, 0],
+        ['2200', 24, 0]
+      ]);
+    });
+
+    it('should post payments to the clearing account of their method and transfers to the city ledger', async () => {
+      mockPrisma.folioCharge.findMany.mockResolvedValue([]);
+      mockPrisma.payment.findMany.mockImplementation(({ where }: any) => Promise.resolve(where.refundedAmount
+        ? []
+        : [payment('payment-1'), payment('payment-2', { method: PaymentMethod.DIRECT_BILLING, amount: new Prisma.Decimal(124) })]
+      ));
+
+      await service.postBusinessDate(businessDate, 'auditor-1');
+
+      expect(linesOf(JournalSourceType.PAYMENT)).toEqual([['1010', 100, 0], ['1100', 0, 100]]);
+      expect(linesOf(JournalSourceType.AR_TRANSFER)).toEqual([['1200', 124, 0], ['1100', 0, 124]]);
+    });
+
+    it('should post the difference between a foreign payment and the balance it settled as exchange', async () => {
+      mockPrisma.folioCharge.findMany.mockResolvedValue([]);
+      mockPrisma.payment.findMany.mockImplementation(({ where }: any) => Promise.resolve(where.refundedAmount
+        ? []
+        : [payment('payment-1', {
+          method: PaymentMethod.CREDIT_CARD,
+          currency: 'EUR',
+          amount: new Prisma.Decimal(90),
+          settledAmount: new Prisma.Decimal(100)
+        })]
+      ));
+      mockExchangeRates.getRate.mockImplementation((currency: string) => Promise.resolve(currency === 'EUR' ? 1.1 : 1));
+
+      await service.postBusinessDate(businessDate, 'auditor-1');
+
+      expect(linesOf(JournalSourceType.PAYMENT)).toEqual([
+        ['1020', 99, 0],
+        ['1100', 0, 100],
+        ['7900', 1, 0]
+      ]);
+    });
+
+    it('should post only the part of a refund not posted before', async () => {
+      mockPrisma.folioCharge.findMany.mockResolvedValue([]);
+      const refunded = payment('payment-1', { refundedAmount: new Prisma.Decimal(60), status: PaymentStatus.PARTIALLY_REFUNDED });
+      mockPrisma.payment.findMany.mockImplementation(({ where }: any) => Promise.resolve(where.refundedAmount ? [refunded] : []));
+      mockPrisma.journalEntry.findMany.mockResolvedValue([
+        { sourceType: JournalSourceType.REFUND, sourceId: 'payment-1', sourceAmount: new Prisma.Decimal(40) }
+      ]);
+
+      await service.postBusinessDate(businessDate, 'auditor-1');
+
+      expect(linesOf(JournalSourceType.REFUND)).toEqual([['1100', 20, 0], ['1010', 0, 20]]);
+    });
+
+    it('should credit the city ledger for payments received from accounts', async () => {
+      mockPrisma.folioCharge.findMany.mockResolvedValue([]);
+      mockPrisma.arPayment.findMany.mockResolvedValue([
+        { id: 'ar-payment-1', arAccountId: 'account-1', amount: new Prisma.Decimal(500), method: PaymentMethod.BANK_TRANSFER, reference: 'REMIT-1' }
+      ]);
+      mockPrisma.arAccount.findMany.mockResolvedValue([
+        { id: 'account-1', accountNumber: 'AR-ACME', companyName: 'Acme Corp', currency: 'USD' }
+      ]);
+
+      await service.postBusinessDate(businessDate, 'auditor-1');
+
+      expect(linesOf(JournalSourceType.AR_PAYMENT)).toEqual([['1020', 500, 0], ['1200', 0, 500]]);
+    });
+
+    it('should not post a source twice', async () => {
+      mockPrisma.journalEntry.findMany.mockResolvedValue([
+        { sourceType: JournalSourceType.FOLIO_CHARGE, sourceId: 'charge-1', sourceAmount: new Prisma.Decimal(224) }
+      ]);
+
+      const batch = await service.postBusinessDate(businessDate, 'auditor-1');
+
+      expect(batch).toBeNull();
+      expect(mockPrisma.$transaction).not.toHaveBeenCalled();
+    });
+
+    it('should refuse a charge with no mapped revenue account', async () => {
+      mockPrisma.glMapping.findMany.mockResolvedValue(mappings.filter(rule => rule.source === GlMappingSource.PAYMENT));
+
+      await expect(service.postBusinessDate(businessDate, 'auditor-1')).rejects.toMatchObject({
+        code: ErrorCode.BUSINESS_RULE_VIOLATION
+      });
+      expect(mockPrisma.$transaction).not.toHaveBeenCalled();
+    });
+
+    it('should refuse a date in a locked period', async () => {
+      mockPrisma.accountingPeriod.findFirst.mockResolvedValue({ id: 'period-1', period: '2024-12', status: AccountingPeriodStatus.LOCKED });
+
+      await expect(service.postBusinessDate(businessDate, 'auditor-1')).rejects.toMatchObject({
+        code: ErrorCode.BUSINESS_RULE_VIOLATION
+      });
+    });
+
+    it('should refuse the open business date', async () => {
+      await expect(service.postBusinessDate(new Date('2024-12-02T00:00:00'), 'auditor-1')).rejects.toMatchObject({
+        code: ErrorCode.BUSINESS_RULE_VIOLATION
+      });
+    });
+  });
+
+  describe('trial balance and period locking', () => {
+    const entry = (lines: [string, number, number][]) => ({
+      lines: lines.map(([accountCode, debit, credit]) => ({ accountCode, accountName: '', debit, credit, description: '' }))
+    });
+
+    beforeEach(() => {
+      mockBusinessDates.getBusinessDate.mockResolvedValue(new Date('2025-01-02T00:00:00'));
+    });
+
+    it('should total the lines per account', async () => {
+      mockPrisma.journalEntry.findMany.mockResolvedValue([
+        entry([['1100', 224, 0], ['4100', 0, 200], ['2200', 0, 24]]),
+        entry([['1010', 100, 0], ['1100', 0, 100]])
+      ]);
+
+      const trialBalance = await service.getTrialBalance('2024-12');
+
+      expect(trialBalance.lines.find(line => line.accountCode === '1100')).toEqual(expect.objectContaining({
+        debit: 224,
+        credit: 100,
+        balance: 124,
+        type: GlAccountType.ASSET
+      }));
+      expect(trialBalance).toEqual(expect.objectContaining({ totalDebit: 324, totalCredit: 324, balanced: true }));
+    });
+
+    it('should lock a finished period whose trial balance nets to zero', async () => {
+      mockPrisma.journalEntry.findMany.mockResolvedValue([entry([['1010', 100, 0], ['1100', 0, 100]])]);
+
+      const period = await service.lockPeriod('2024-12', 'controller-1');
+
+      expect(period).toEqual(expect.objectContaining({ period: '2024-12', status: AccountingPeriodStatus.LOCKED, lockedBy: 'controller-1' }));
+    });
+
+    it('should refuse to lock a period that does not net to zero', async () => {
+      mockPrisma.journalEntry.findMany.mockResolvedValue([entry([['1010', 100, 0], ['1100', 0, 90]])]);
+
+      await expect(service.lockPeriod('2024-12', 'controller-1')).rejects.toMatchObject({
+        code: ErrorCode.BUSINESS_RULE_VIOLATION
+      });
+      expect(mockPrisma.accountingPeriod.create).not.toHaveBeenCalled();
+    });
+
+    it('should refuse to lock the current period', async () => {
+      await expect(service.lockPeriod('2025-01', 'controller-1')).rejects.toMatchObject({
+        code: ErrorCode.BUSINESS_RULE_VIOLATION
+      });
+    });
+  });
+});
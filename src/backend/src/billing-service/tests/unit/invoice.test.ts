@@ -59,7 +59,7 @@ describe('InvoiceController', () => {
     };
 
     mockReq = {
-      user: { id: 'test-user-id', role: 'staff' },
+      user: { id: 'test-user-id', role: 'staff', permissions: [] },
       params: {},
       query: {},
       body: {}
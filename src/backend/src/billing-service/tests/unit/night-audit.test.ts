@@ -0,0 +1,530 @@
+/**
+ * @fileoverview Unit tests for the night audit service covering no-show processing,
+ * room and tax posting, folio reconciliation and business date rollover.
+ * @version 1.0.0
+ */
+
+// External imports
+import { describe, beforeEach, afterEach, it, expect, jest } from '@jest/globals';
+import { Prisma } from '@prisma/client';
+
+// Internal imports
+import { NightAuditService } from '../../src/services/night-audit.service';
+import { NightAuditStatus, NightAuditStep } from '../../src/models/night-audit.model';
+import { ChargeStatus, FolioStatus } from '../../src/models/folio.model';
+import { TaxBasis } from '../../../shared/models/tax.model';
+import { BookingStatus } from '../../../reservation-service/src/models/booking.model';
+import { ErrorCode } from '../../../shared/constants/error-codes';
+
+jest.mock('../../src/config/database', () => ({ prisma: {} }));
+jest.mock('../../../shared/services/business-date.service', () => ({
+  BusinessDateService: jest.fn()
+}));
+jest.mock('../../../reservation-service/src/services/inventory.service', () => ({
+  InventoryService: jest.fn()
+}));
+jest.mock('../../../reservation-service/src/services/waitlist.service', () => ({
+  WaitlistService: jest.fn()
+}));
+jest.mock('../../../reservation-service/src/services/cancellation-policy.service', () => ({
+  CancellationPolicyService: jest.fn()
+}));
+jest.mock('../../../reservation-service/src/services/add-on.service', () => ({
+  AddOnService: jest.fn()
+}));
+jest.mock('../../src/services/credit-limit.service', () => ({
+  CreditLimitService: jest.fn()
+}));
+
+describe('NightAuditService', () => {
+  const businessDate = new Date('2024-07-15T00:00:00');
+  let service: NightAuditService;
+  let mockPrisma: any;
+  let mockBusinessDates: any;
+  let mockDayEndReports: any;
+  let mockInventory: any;
+  let mockWaitlist: any;
+  let mockCancellationPolicies: any;
+  let mockGeneralLedger: any;
+  let mockCreditLimits: any;
+
+  const inHouseBooking = {
+    id: 'booking-1',
+    bookingNumber: 'BK001',
+    status: BookingStatus.CHECKED_IN,
+    checkInDate: new Date('2024-07-14T00:00:00'),
+    checkOutDate: new Date('2024-07-17T00:00:00'),
+    totalAmount: 336,
+    taxAmount: 36,
+    auditTrail: []
+  };
+
+  const openFolio = {
+    id: 'folio-1',
+    folioNumber: 'F-001',
+    reservationId: 'booking-1',
+    status: FolioStatus.OPEN,
+    isMainFolio: true,
+    balance: new Prisma.Decimal(112),
+    charges: [
+      {
+        id: 'charge-1',
+        status: ChargeStatus.POSTED,
+        totalAmount: new Prisma.Decimal(112)
+      }
+    ]
+  };
+
+  beforeEach(() => {
+    const tx = {
+      folioCharge: {
+        findFirst: jest.fn().mockResolvedValue(null),
+        create: jest.fn()
+      },
+      folio: { update: jest.fn() }
+    };
+
+    mockPrisma = {
+      nightAuditRun: {
+        findFirst: jest.fn().mockResolvedValue(null),
+        updateMany: jest.fn().mockResolvedValue({ count: 1 }),
+        create: jest.fn().mockImplementation(({ data }: any) => Promise.resolve({ id: 'run-1', ...data })),
+        update: jest.fn().mockImplementation(({ data }: any) => Promise.resolve({ id: 'run-1', ...data }))
+      },
+      booking: {
+        findMany: jest.fn(),
+        update: jest.fn()
+      },
+      folio: {
+        findFirst: jest.fn().mockResolvedValue(openFolio),
+        findMany: jest.fn().mockResolvedValue([openFolio])
+      },
+      folioCharge: {
+        aggregate: jest.fn().mockResolvedValue({
+          _sum: { amount: new Prisma.Decimal(100), taxAmount: new Prisma.Decimal(12) }
+        })
+      },
+      payment: {
+        findMany: jest.fn().mockResolvedValue([])
+      },
+      reservationRate: {
+        findFirst: jest.fn().mockResolvedValue(null)
+      },
+      bookingAddOn: {
+        findMany: jest.fn().mockResolvedValue([])
+      },
+      folioRoutingInstruction: {
+        findMany: jest.fn().mockResolvedValue([])
+      },
+      $transaction: jest.fn().mockImplementation((callback: any) => callback(tx)),
+      tx
+    };
+
+    mockBusinessDates = {
+      getBusinessDate: jest.fn().mockResolvedValue(businessDate),
+      rollover: jest.fn().mockResolvedValue({ currentDate: new Date('2024-07-16T00:00:00') })
+    };
+
+    mockDayEndReports = {
+      generateReportPack: jest.fn().mockResolvedValue([])
+    };
+
+    mockInventory = {
+      release: jest.fn()
+    };
+
+    mockWaitlist = {
+      offerReleasedInventory: jest.fn().mockResolvedValue(null)
+    };
+
+    mockCancellationPolicies = {
+      assess: jest.fn().mockResolvedValue({ fee: 0 }),
+      settle: jest.fn().mockResolvedValue({ refunds: [] })
+    };
+
+    mockGeneralLedger = {
+      postBusinessDate: jest.fn().mockResolvedValue(null)
+    };
+
+    mockCreditLimits = {
+      recordPostings: jest.fn()
+    };
+
+    service = new NightAuditService(
+      mockPrisma,
+      mockBusinessDates,
+      mockDayEndReports,
+      mockInventory,
+      mockWaitlist,
+      mockCancellationPolicies,
+      undefined,
+      undefined,
+      mockGeneralLedger,
+      mockCreditLimits
+    );
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should flag unarrived confirmed and unpaid bookings as no-shows', async () => {
+    mockPrisma.booking.findMany
+      .mockResolvedValueOnce([{ id: 'booking-2', status: BookingStatus.CONFIRMED, auditTrail: [] }])
+      .mockResolvedValueOnce([]);
+    mockPrisma.folio.findMany.mockResolvedValue([]);
+
+    const run = await service.runNightAudit('auditor-1');
+
+    expect(mockPrisma.booking.findMany).toHaveBeenCalledWith({
+      where: {
+        status: { in: [BookingStatus.CONFIRMED, BookingStatus.PENDING_PAYMENT] },
+        checkInDate: { lt: new Date('2024-07-16T00:00:00') }
+      }
+    });
+    expect(mockPrisma.booking.update).toHaveBeenCalledWith(expect.objectContaining({
+      where: { id: 'booking-2' },
+      data: expect.objectContaining({ status: BookingStatus.NO_SHOW })
+    }));
+    expect(run.summary.noShowCount).toBe(1);
+  });
+
+  it('should release the remaining nights of a no-show and offer them to the waitlist', async () => {
+    mockPrisma.booking.findMany
+      .mockResolvedValueOnce([{
+        id: 'booking-2',
+        roomType: 'DELUXE',
+        status: BookingStatus.CONFIRMED,
+        checkOutDate: new Date('2024-07-18T00:00:00'),
+        auditTrail: []
+      }])
+      .mockResolvedValueOnce([]);
+    mockPrisma.folio.findMany.mockResolvedValue([]);
+
+    await service.runNightAudit('auditor-1');
+
+    expect(mockInventory.release).toHaveBeenCalledWith(
+      'DELUXE',
+      new Date('2024-07-16T00:00:00'),
+      new Date('2024-07-18T00:00:00')
+    );
+    expect(mockWaitlist.offerReleasedInventory).toHaveBeenCalledWith(
+      'DELUXE',
+      new Date('2024-07-16T00:00:00'),
+      new Date('2024-07-18T00:00:00'),
+      'auditor-1'
+    );
+  });
+
+  it('should charge the no-show penalty of the rate policy', async () => {
+    const noShow = { id: 'booking-2', bookingNumber: 'BK002', status: BookingStatus.CONFIRMED, auditTrail: [] };
+    const assessment = { bookingId: 'booking-2', trigger: 'NO_SHOW', fee: 112, taxAmount: 12 };
+    mockPrisma.booking.findMany
+      .mockResolvedValueOnce([noShow])
+      .mockResolvedValueOnce([]);
+    mockPrisma.folio.findMany.mockResolvedValue([]);
+    mockCancellationPolicies.assess.mockResolvedValue(assessment);
+
+    await service.runNightAudit('auditor-1');
+
+    expect(mockCancellationPolicies.assess).toHaveBeenCalledWith(noShow, 'NO_SHOW');
+    expect(mockPrisma.booking.update).toHaveBeenCalledWith(expect.objectContaining({
+      data: expect.objectContaining({ status: BookingStatus.NO_SHOW, cancellationFee: 112 })
+    }));
+    expect(mockCancellationPolicies.settle).toHaveBeenCalledWith(noShow, assessment, 'auditor-1');
+  });
+
+  it('should post one night of room and tax to the main folio', async () => {
+    mockPrisma.booking.findMany
+      .mockResolvedValueOnce([])
+      .mockResolvedValueOnce([inHouseBooking]);
+
+    const run = await service.runNightAudit('auditor-1');
+
+    expect(mockPrisma.tx.folioCharge.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        folioId: 'folio-1',
+        amount: new Prisma.Decimal(100),
+        taxAmount: new Prisma.Decimal(12),
+        totalAmount: new Prisma.Decimal(112),
+        postingDate: businessDate,
+        status: ChargeStatus.POSTED,
+        reference: 'NA-BK001-20240715'
+      })
+    });
+    expect(run.summary.roomChargesPosted).toBe(1);
+    expect(run.summary.roomRevenue.toNumber()).toBe(100);
+  });
+
+  it('should post room and tax to the folio named by the booking routing instructions', async () => {
+    mockPrisma.booking.findMany
+      .mockResolvedValueOnce([])
+      .mockResolvedValueOnce([inHouseBooking]);
+    mockPrisma.folioRoutingInstruction.findMany.mockResolvedValue([
+      { id: 'route-1', targetFolioId: 'company-folio', chargeCategories: ['ROOM'], departments: [], isActive: true }
+    ]);
+    mockPrisma.folio.findFirst
+      .mockResolvedValueOnce(openFolio)
+      .mockResolvedValueOnce({ ...openFolio, id: 'company-folio', isMainFolio: false });
+
+    await service.runNightAudit('auditor-1');
+
+    expect(mockPrisma.tx.folioCharge.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ folioId: 'company-folio', reference: 'NA-BK001-20240715' })
+    });
+    expect(mockPrisma.tx.folio.update).toHaveBeenCalledWith({
+      where: { id: 'company-folio' },
+      data: expect.objectContaining({ balance: { increment: new Prisma.Decimal(112) } })
+    });
+    expect(mockCreditLimits.recordPostings).toHaveBeenCalledWith(['company-folio']);
+  });
+
+  it('should spread the unposted stay total over the remaining nights after a stay modification', async () => {
+    mockPrisma.booking.findMany
+      .mockResolvedValueOnce([])
+      .mockResolvedValueOnce([{ ...inHouseBooking, checkOutDate: new Date('2024-07-18T00:00:00'), totalAmount: 448, taxAmount: 48 }]);
+    mockPrisma.folioCharge.aggregate.mockResolvedValue({
+      _sum: { amount: new Prisma.Decimal(200), taxAmount: new Prisma.Decimal(24) }
+    });
+
+    await service.runNightAudit('auditor-1');
+
+    expect(mockPrisma.folioCharge.aggregate).toHaveBeenCalledWith(expect.objectContaining({
+      where: expect.objectContaining({
+        OR: [
+          { reference: { startsWith: 'NA-BK001-' } },
+          { reference: { startsWith: 'MOD-BK001-' } }
+        ]
+      })
+    }));
+    expect(mockPrisma.tx.folioCharge.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        amount: new Prisma.Decimal(66.67),
+        taxAmount: new Prisma.Decimal(8)
+      })
+    });
+  });
+
+  it('should post the nightly price and tax lines stored on the booking', async () => {
+    const vatLine = {
+      code: 'VAT', name: 'VAT', jurisdiction: 'US', basis: TaxBasis.PERCENTAGE, rate: 12, inclusive: false, amount: 15
+    };
+
+    mockPrisma.booking.findMany
+      .mockResolvedValueOnce([])
+      .mockResolvedValueOnce([inHouseBooking]);
+    mockPrisma.reservationRate.findFirst.mockResolvedValue({
+      reservationId: 'booking-1',
+      date: businessDate,
+      baseRate: 100,
+      adjustmentAmount: 25,
+      taxRate: 0.12,
+      taxAmount: 15,
+      taxLines: [vatLine],
+      totalRate: 140
+    });
+
+    await service.runNightAudit('auditor-1');
+
+    expect(mockPrisma.reservationRate.findFirst).toHaveBeenCalledWith({
+      where: { reservationId: inHouseBooking.id, date: businessDate }
+    });
+    expect(mockPrisma.folioCharge.aggregate).not.toHaveBeenCalled();
+    expect(mockPrisma.tx.folioCharge.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        amount: new Prisma.Decimal(125),
+        taxAmount: new Prisma.Decimal(15),
+        taxLines: [vatLine],
+        totalAmount: new Prisma.Decimal(140)
+      })
+    });
+  });
+
+  it('should post the add-ons served on the business date under their department', async () => {
+    mockPrisma.booking.findMany
+      .mockResolvedValueOnce([])
+      .mockResolvedValueOnce([inHouseBooking]);
+    mockPrisma.bookingAddOn.findMany.mockResolvedValue([{
+      code: 'BRKF',
+      name: 'Breakfast',
+      serviceDate: businessDate,
+      units: 2,
+      unitPrice: 20,
+      included: false,
+      chargeCategory: 'FOOD_AND_BEVERAGE',
+      department: 'F&B',
+      amount: 40,
+      taxAmount: 4,
+      taxLines: [],
+      totalAmount: 44
+    }]);
+
+    const run = await service.runNightAudit('auditor-1');
+
+    expect(mockPrisma.bookingAddOn.findMany).toHaveBeenCalledWith({
+      where: { bookingId: 'booking-1', serviceDate: businessDate, included: false }
+    });
+    expect(mockPrisma.tx.folioCharge.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        amount: new Prisma.Decimal(40),
+        category: 'FOOD_AND_BEVERAGE',
+        department: 'F&B',
+        totalAmount: new Prisma.Decimal(44),
+        reference: 'AO-BK001-BRKF-20240715'
+      })
+    });
+    expect(run.summary.addOnChargesPosted).toBe(1);
+    expect(run.summary.addOnRevenue.toNumber()).toBe(40);
+    expect(mockCreditLimits.recordPostings).toHaveBeenCalledWith(['folio-1', 'folio-1']);
+  });
+
+  it('should not post a charge twice for the same business date', async () => {
+    mockPrisma.booking.findMany
+      .mockResolvedValueOnce([])
+      .mockResolvedValueOnce([inHouseBooking]);
+    mockPrisma.tx.folioCharge.findFirst.mockResolvedValue({ id: 'existing-charge' });
+
+    const run = await service.runNightAudit('auditor-1');
+
+    expect(mockPrisma.tx.folioCharge.findFirst).toHaveBeenCalledWith({ where: { reference: 'NA-BK001-20240715' } });
+    expect(mockPrisma.$transaction).toHaveBeenCalledWith(expect.any(Function), { isolationLevel: 'Serializable' });
+    expect(mockPrisma.tx.folioCharge.create).not.toHaveBeenCalled();
+    expect(run.summary.roomChargesPosted).toBe(0);
+  });
+
+  it('should report folios whose balance does not reconcile with captured payments', async () => {
+    mockPrisma.booking.findMany.mockResolvedValue([]);
+    mockPrisma.payment.findMany.mockResolvedValue([
+      { folioId: 'folio-1', amount: new Prisma.Decimal(50), refundedAmount: new Prisma.Decimal(0) }
+    ]);
+
+    const run = await service.runNightAudit('auditor-1');
+
+    expect(run.status).toBe(NightAuditStatus.COMPLETED_WITH_EXCEPTIONS);
+    expect(run.discrepancies).toHaveLength(1);
+    expect(run.discrepancies[0].variance.toNumber()).toBe(50);
+  });
+
+  it('should roll the business date over once all steps complete', async () => {
+    mockPrisma.booking.findMany.mockResolvedValue([]);
+    mockPrisma.folio.findMany.mockResolvedValue([]);
+
+    const run = await service.runNightAudit('auditor-1');
+
+    expect(mockBusinessDates.rollover).toHaveBeenCalledWith(businessDate, 'auditor-1');
+    expect(run.status).toBe(NightAuditStatus.COMPLETED);
+    expect(run.completedSteps).toEqual([
+      NightAuditStep.NO_SHOWS,
+      NightAuditStep.REVENUE_POSTING,
+      NightAuditStep.RECONCILIATION,
+      NightAuditStep.DATE_ROLLOVER
+    ]);
+  });
+
+  it('should generate the day-end report pack for the closed business date', async () => {
+    mockPrisma.booking.findMany.mockResolvedValue([]);
+    mockPrisma.folio.findMany.mockResolvedValue([]);
+
+    await service.runNightAudit('auditor-1');
+
+    expect(mockDayEndReports.generateReportPack).toHaveBeenCalledWith(businessDate, 'auditor-1', 'run-1');
+  });
+
+  it('should complete the audit even if report generation fails', async () => {
+    mockPrisma.booking.findMany.mockResolvedValue([]);
+    mockPrisma.folio.findMany.mockResolvedValue([]);
+    mockDayEndReports.generateReportPack.mockRejectedValue(new Error('storage unavailable'));
+
+    const run = await service.runNightAudit('auditor-1');
+
+    expect(run.status).toBe(NightAuditStatus.COMPLETED);
+  });
+
+  it('should post the closed business date to the general ledger', async () => {
+    mockPrisma.booking.findMany.mockResolvedValue([]);
+    mockPrisma.folio.findMany.mockResolvedValue([]);
+
+    await service.runNightAudit('auditor-1');
+
+    expect(mockGeneralLedger.postBusinessDate).toHaveBeenCalledWith(businessDate, 'auditor-1');
+  });
+
+  it('should complete the audit even if ledger posting fails', async () => {
+    mockPrisma.booking.findMany.mockResolvedValue([]);
+    mockPrisma.folio.findMany.mockResolvedValue([]);
+    mockGeneralLedger.postBusinessDate.mockRejectedValue(new Error('No GL account holds the TAX_PAYABLE role'));
+
+    const run = await service.runNightAudit('auditor-1');
+
+    expect(run.status).toBe(NightAuditStatus.COMPLETED);
+  });
+
+  it('should refuse to audit a business date that was already closed', async () => {
+    mockPrisma.nightAuditRun.findFirst.mockResolvedValue({ id: 'run-0', status: NightAuditStatus.COMPLETED });
+
+    await expect(service.runNightAudit('auditor-1')).rejects.toMatchObject({
+      code: ErrorCode.RESOURCE_CONFLICT
+    });
+    expect(mockBusinessDates.rollover).not.toHaveBeenCalled();
+  });
+
+  it('should refuse to audit a business date while a recent run is still in progress', async () => {
+    mockPrisma.nightAuditRun.findFirst.mockResolvedValue({
+      id: 'run-0',
+      status: NightAuditStatus.RUNNING,
+      startedBy: 'auditor-2',
+      startedAt: new Date(Date.now() - 10 * 60 * 1000)
+    });
+
+    await expect(service.runNightAudit('auditor-1')).rejects.toMatchObject({
+      code: ErrorCode.RESOURCE_CONFLICT
+    });
+    expect(mockPrisma.nightAuditRun.updateMany).not.toHaveBeenCalled();
+  });
+
+  it('should take over a run abandoned while running and close the business date', async () => {
+    mockPrisma.nightAuditRun.findFirst.mockResolvedValue({
+      id: 'run-0',
+      status: NightAuditStatus.RUNNING,
+      startedBy: 'auditor-2',
+      startedAt: new Date(Date.now() - 5 * 60 * 60 * 1000)
+    });
+    mockPrisma.booking.findMany.mockResolvedValue([]);
+    mockPrisma.folio.findMany.mockResolvedValue([]);
+
+    const run = await service.runNightAudit('auditor-1');
+
+    expect(mockPrisma.nightAuditRun.updateMany).toHaveBeenCalledWith(expect.objectContaining({
+      where: expect.objectContaining({ id: 'run-0', status: NightAuditStatus.RUNNING }),
+      data: expect.objectContaining({ status: NightAuditStatus.FAILED })
+    }));
+    expect(run.status).toBe(NightAuditStatus.COMPLETED);
+    expect(mockBusinessDates.rollover).toHaveBeenCalledWith(businessDate, 'auditor-1');
+  });
+
+  it('should refuse to audit when another run took over the abandoned run first', async () => {
+    mockPrisma.nightAuditRun.findFirst.mockResolvedValue({
+      id: 'run-0',
+      status: NightAuditStatus.RUNNING,
+      startedBy: 'auditor-2',
+      startedAt: new Date(Date.now() - 5 * 60 * 60 * 1000)
+    });
+    mockPrisma.nightAuditRun.updateMany.mockResolvedValue({ count: 0 });
+
+    await expect(service.runNightAudit('auditor-1')).rejects.toMatchObject({
+      code: ErrorCode.RESOURCE_CONFLICT
+    });
+    expect(mockPrisma.nightAuditRun.create).not.toHaveBeenCalled();
+  });
+
+  it('should mark the run failed and keep the business date when a step fails', async () => {
+    mockPrisma.booking.findMany.mockRejectedValue(new Error('database unavailable'));
+
+    await expect(service.runNightAudit('auditor-1')).rejects.toThrow('database unavailable');
+
+    expect(mockPrisma.nightAuditRun.update).toHaveBeenCalledWith(expect.objectContaining({
+      data: expect.objectContaining({ status: NightAuditStatus.FAILED })
+    }));
+    expect(mockBusinessDates.rollover).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,386 @@
+/**
+ * @fileoverview Unit tests for outlet postings covering the in-house guest lookup, routed and
+ * taxed check lines, the credit limit and exposure, idempotent check numbers, voids and
+ * corrections, driven by a stub point-of-sale client.
+ * @version 1.0.0
+ */
+
+// External imports
+import { describe, beforeEach, afterEach, it, expect, jest } from '@jest/globals';
+import { Prisma } from '@prisma/client';
+
+// Internal imports
+import { OutletPostingService } from '../../src/services/outlet-posting.service';
+import { CreditLimitService } from '../../src/services/credit-limit.service';
+import {
+  Outlet,
+  OutletCheckLineDto,
+  OutletPostingResult,
+  PostOutletCheckDto
+} from '../../src/models/outlet-posting.model';
+import { ChargeAdjustmentType, ChargeStatus, FolioStatus } from '../../src/models/folio.model';
+import { BookingStatus } from '../../../reservation-service/src/models/booking.model';
+import { ErrorCode } from '../../../shared/constants/error-codes';
+
+jest.mock('../../src/config/database', () => ({ prisma: {} }));
+jest.mock('../../../shared/services/business-date.service', () => ({
+  BusinessDateService: jest.fn()
+}));
+jest.mock('../../../websocket-service/src/config/websocket', () => ({
+  WebSocketNamespaces: { FRONT_DESK: 'front_desk' }
+}));
+
+/**
+ * Point-of-sale client of one outlet, numbering its checks and resending the last one as a POS
+ * does after a timeout
+ */
+class StubPosClient {
+  private nextCheckNumber = 1001;
+  private lastRequest?: PostOutletCheckDto;
+
+  constructor(private readonly outlet: Outlet, private readonly postings: OutletPostingService) {}
+
+  chargeToRoom(roomNumber: string, guestName: string, lines: OutletCheckLineDto[]): Promise<OutletPostingResult> {
+    this.lastRequest = {
+      outlet: this.outlet,
+      checkNumber: String(this.nextCheckNumber++),
+      roomNumber,
+      guestName,
+      lines,
+      userId: `pos-${this.outlet.toLowerCase()}`
+    };
+    return this.postings.postCheck(this.lastRequest);
+  }
+
+  resend(changes: Partial<PostOutletCheckDto> = {}): Promise<OutletPostingResult> {
+    return this.postings.postCheck({ ...(this.lastRequest as PostOutletCheckDto), ...changes });
+  }
+}
+
+describe('OutletPostingService', () => {
+  const businessDate = new Date('2024-12-05T00:00:00');
+  let service: OutletPostingService;
+  let restaurant: StubPosClient;
+  let mockPrisma: any;
+  let mockTaxes: any;
+  let mockRouting: any;
+  let checks: any[];
+  let charges: Record<string, any>;
+
+  const folio = (id: string, overrides: Record<string, unknown> = {}) => ({
+    id,
+    folioNumber: `F-${id}`,
+    reservationId: 'booking-1',
+    balance: new Prisma.Decimal(200),
+    currency: 'USD',
+    status: FolioStatus.OPEN,
+    isMainFolio: id === 'guest-folio',
+    authorizedAmount: new Prisma.Decimal(0),
+    creditAlertedAt: null,
+    ...overrides
+  });
+
+  const folios: Record<string, any> = {
+    'guest-folio': folio('guest-folio'),
+    'company-folio': folio('company-folio', { balance: new Prisma.Decimal(0), authorizedAmount: new Prisma.Decimal(5000) }),
+    'roommate-folio': folio('roommate-folio', { reservationId: 'booking-2', isMainFolio: true })
+  };
+
+  const dinner: OutletCheckLineDto[] = [
+    { description: 'Tasting menu', quantity: 2, unitPrice: 90 },
+    { description: 'Bottle of wine', quantity: 1, unitPrice: 60, category: 'BEVERAGE' }
+  ];
+
+  beforeEach(() => {
+    checks = [];
+    charges = {};
+
+    const tx = {
+      folioCharge: {
+        create: jest.fn().mockImplementation(({ data }: any) => {
+          const charge = { id: `charge-${Object.keys(charges).length + 1}`, ...data };
+          charges[charge.id] = charge;
+          return Promise.resolve(charge);
+        }),
+        updateMany: jest.fn().mockResolvedValue({ count: 1 })
+      },
+      folio: { update: jest.fn() },
+      folioChargeAdjustment: {
+        create: jest.fn().mockImplementation(({ data }: any) => Promise.resolve({ id: 'adjustment-1', ...data }))
+      },
+      outletCheck: {
+        create: jest.fn().mockImplementation(({ data }: any) => {
+          const check = { id: `check-${checks.length + 1}`, ...data };
+          checks.push(check);
+          return Promise.resolve(check);
+        }),
+        update: jest.fn().mockImplementation(({ where, data }: any) =>
+          Promise.resolve({ ...checks.find(check => check.id === where.id), ...data }))
+      }
+    };
+
+    mockPrisma = {
+      room: {
+        findFirst: jest.fn().mockImplementation(({ where }: any) =>
+          Promise.resolve(where.roomNumber === '412' ? { id: 'room-412', roomNumber: '412' } : null))
+      },
+      booking: {
+        findMany: jest.fn().mockResolvedValue([
+          { id: 'booking-1', bookingNumber: 'BK001', guestId: 'guest-1', roomId: 'room-412', status: BookingStatus.CHECKED_IN },
+          { id: 'booking-2', bookingNumber: 'BK002', guestId: 'guest-2', roomId: 'room-412', status: BookingStatus.CHECKED_IN }
+        ])
+      },
+      guest: {
+        findMany: jest.fn().mockResolvedValue([
+          { id: 'guest-1', firstName: 'Ana', lastName: 'Silva' },
+          { id: 'guest-2', firstName: 'Ben', lastName: 'Okafor' }
+        ])
+      },
+      folio: {
+        findFirst: jest.fn().mockImplementation(({ where }: any) =>
+          Promise.resolve(Object.values(folios).find(candidate =>
+            candidate.reservationId === where.reservationId && candidate.isMainFolio) || null)),
+        findUnique: jest.fn().mockImplementation(({ where }: any) => Promise.resolve(folios[where.id])),
+        update: jest.fn(),
+        updateMany: jest.fn().mockResolvedValue({ count: 1 })
+      },
+      outletCheck: {
+        findFirst: jest.fn().mockImplementation(({ where }: any) => Promise.resolve(
+          checks.find(check => check.outlet === where.outlet && check.checkNumber === where.checkNumber) || null
+        ))
+      },
+      folioCharge: {
+        findMany: jest.fn().mockImplementation(({ where }: any) =>
+          Promise.resolve(where.id.in.map((id: string) => charges[id])))
+      },
+      $transaction: jest.fn().mockImplementation((callback: any) => callback(tx)),
+      tx
+    };
+
+    mockTaxes = {
+      calculate: jest.fn().mockImplementation((lines: any[]) => Promise.resolve(lines.map(line => ({
+        netAmount: line.amount,
+        taxAmount: Math.round(line.amount * 10) / 100,
+        grossAmount: Math.round(line.amount * 110) / 100,
+        effectiveRate: 0.1,
+        lines: []
+      }))))
+    };
+    mockRouting = {
+      routeCharge: jest.fn().mockImplementation((main: any, charge: any) =>
+        Promise.resolve(charge.category === 'BEVERAGE' ? folios['company-folio'] : main))
+    };
+
+    const businessDates = { getBusinessDate: jest.fn().mockResolvedValue(businessDate) } as any;
+    process.env.CREDIT_LIMIT_BLOCK_POSTINGS = 'true';
+    service = new OutletPostingService(
+      mockPrisma,
+      businessDates,
+      mockTaxes,
+      mockRouting,
+      new CreditLimitService(mockPrisma, businessDates)
+    );
+    restaurant = new StubPosClient(Outlet.RESTAURANT, service);
+  });
+
+  afterEach(() => {
+    delete process.env.CREDIT_LIMIT_BLOCK_POSTINGS;
+    jest.clearAllMocks();
+  });
+
+  describe('findInHouseGuest', () => {
+    it('should find the guest of the room by last name or full name', async () => {
+      const byLastName = await service.findInHouseGuest('412', 'okafor');
+      const byFullName = await service.findInHouseGuest('412', ' Ana  Silva ');
+
+      expect(byLastName).toEqual(expect.objectContaining({
+        reservationId: 'booking-2',
+        guestName: 'Ben Okafor',
+        folioId: 'roommate-folio'
+      }));
+      expect(byFullName).toEqual({
+        reservationId: 'booking-1',
+        bookingNumber: 'BK001',
+        roomNumber: '412',
+        guestName: 'Ana Silva',
+        folioId: 'guest-folio'
+      });
+    });
+
+    it('should reject a name that is not in the room', async () => {
+      await expect(service.findInHouseGuest('412', 'Jones'))
+        .rejects.toMatchObject({ code: ErrorCode.RESOURCE_NOT_FOUND });
+      await expect(service.findInHouseGuest('999', 'Silva'))
+        .rejects.toMatchObject({ code: ErrorCode.RESOURCE_NOT_FOUND });
+    });
+  });
+
+  describe('postCheck', () => {
+    it('should post each line taxed to its routed folio', async () => {
+      const { check, duplicate } = await restaurant.chargeToRoom('412', 'Silva', dinner);
+
+      expect(duplicate).toBe(false);
+      expect(mockPrisma.tx.folioCharge.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          folioId: 'guest-folio',
+          category: 'FOOD_AND_BEVERAGE',
+          department: Outlet.RESTAURANT,
+          amount: new Prisma.Decimal(180),
+          taxAmount: new Prisma.Decimal(18),
+          totalAmount: new Prisma.Decimal(198),
+          status: ChargeStatus.POSTED,
+          reference: 'POS-RESTAURANT-1001-1'
+        })
+      });
+      expect(mockPrisma.tx.folioCharge.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ folioId: 'company-folio', category: 'BEVERAGE', reference: 'POS-RESTAURANT-1001-2' })
+      });
+      expect(mockPrisma.tx.folio.update).toHaveBeenCalledWith({
+        where: { id: 'company-folio' },
+        data: expect.objectContaining({ balance: { increment: new Prisma.Decimal(66) } })
+      });
+      expect(check).toEqual(expect.objectContaining({
+        checkNumber: '1001',
+        reservationId: 'booking-1',
+        totalAmount: new Prisma.Decimal(264),
+        status: ChargeStatus.POSTED
+      }));
+      expect(check.lines.map(line => [line.lineNumber, line.chargeId, line.folioId])).toEqual([
+        [1, 'charge-1', 'guest-folio'],
+        [2, 'charge-2', 'company-folio']
+      ]);
+    });
+
+    it('should return the posted check when the check number is resent', async () => {
+      const first = await restaurant.chargeToRoom('412', 'Silva', dinner);
+      const resent = await restaurant.resend();
+
+      expect(resent).toEqual({ check: first.check, duplicate: true });
+      expect(mockPrisma.tx.folioCharge.create).toHaveBeenCalledTimes(2);
+    });
+
+    it('should reject a different check sent under a posted check number', async () => {
+      await restaurant.chargeToRoom('412', 'Silva', dinner);
+
+      await expect(restaurant.resend({ lines: [{ description: 'Espresso', quantity: 1, unitPrice: 4 }] }))
+        .rejects.toMatchObject({ code: ErrorCode.RESOURCE_CONFLICT });
+    });
+
+    it('should return the check posted by a concurrent resend', async () => {
+      mockPrisma.$transaction.mockImplementationOnce(() => {
+        checks.push({
+          id: 'check-9',
+          outlet: Outlet.RESTAURANT,
+          checkNumber: '1001',
+          roomNumber: '412',
+          lines: dinner.map((line, index) => ({
+            ...line,
+            lineNumber: index + 1,
+            category: line.category || 'FOOD_AND_BEVERAGE'
+          })),
+          status: ChargeStatus.POSTED
+        });
+        return Promise.reject(
+          new Prisma.PrismaClientKnownRequestError('Unique constraint failed', { code: 'P2002', clientVersion: '5.0.0' })
+        );
+      });
+
+      const result = await restaurant.chargeToRoom('412', 'Silva', dinner);
+
+      expect(result.duplicate).toBe(true);
+      expect(result.check.id).toBe('check-9');
+    });
+
+    it('should refuse a check that takes a folio over its credit limit', async () => {
+      await expect(restaurant.chargeToRoom('412', 'Silva', [{ description: 'Private dining', quantity: 1, unitPrice: 800 }]))
+        .rejects.toMatchObject({ code: ErrorCode.BUSINESS_RULE_VIOLATION });
+      expect(mockPrisma.$transaction).not.toHaveBeenCalled();
+    });
+
+    it('should update the exposure of the folios posted to', async () => {
+      await restaurant.chargeToRoom('412', 'Silva', dinner);
+
+      expect(mockPrisma.folio.update).toHaveBeenCalledWith({
+        where: { id: 'guest-folio' },
+        data: { exposure: new Prisma.Decimal(-800), creditAlertedAt: null }
+      });
+      expect(mockPrisma.folio.update).toHaveBeenCalledWith({
+        where: { id: 'company-folio' },
+        data: { exposure: new Prisma.Decimal(-5000), creditAlertedAt: null }
+      });
+    });
+  });
+
+  describe('voidCheck', () => {
+    it('should void one line with its reason and take it off the folio', async () => {
+      await restaurant.chargeToRoom('412', 'Silva', dinner);
+
+      const check = await service.voidCheck({
+        outlet: Outlet.RESTAURANT,
+        checkNumber: '1001',
+        lineNumber: 2,
+        reason: 'Wine returned',
+        userId: 'manager-1'
+      });
+
+      expect(mockPrisma.tx.folioCharge.updateMany).toHaveBeenCalledWith({
+        where: expect.objectContaining({ id: 'charge-2', invoiceId: null }),
+        data: { status: ChargeStatus.VOIDED, notes: 'Voided by manager-1: Wine returned' }
+      });
+      expect(mockPrisma.tx.folio.update).toHaveBeenLastCalledWith({
+        where: { id: 'company-folio' },
+        data: expect.objectContaining({ balance: { decrement: new Prisma.Decimal(66) } })
+      });
+      expect(mockPrisma.tx.folioChargeAdjustment.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          chargeId: 'charge-2',
+          type: ChargeAdjustmentType.VOID,
+          previousTotalAmount: new Prisma.Decimal(66),
+          totalAmount: new Prisma.Decimal(0),
+          reason: 'Wine returned'
+        })
+      });
+      expect(check.status).toBe(ChargeStatus.ADJUSTED);
+      expect(check.totalAmount).toEqual(new Prisma.Decimal(198));
+    });
+
+    it('should refuse to void an invoiced charge', async () => {
+      await restaurant.chargeToRoom('412', 'Silva', dinner);
+      charges['charge-1'].invoiceId = 'invoice-1';
+
+      await expect(service.voidCheck({ outlet: Outlet.RESTAURANT, checkNumber: '1001', reason: 'Walkout', userId: 'manager-1' }))
+        .rejects.toMatchObject({ code: ErrorCode.BUSINESS_RULE_VIOLATION });
+    });
+  });
+
+  describe('correctLine', () => {
+    it('should retax the corrected line and move the folio balance by the difference', async () => {
+      await restaurant.chargeToRoom('412', 'Silva', dinner);
+
+      const check = await service.correctLine({
+        outlet: Outlet.RESTAURANT,
+        checkNumber: '1001',
+        lineNumber: 1,
+        quantity: 3,
+        unitPrice: 90,
+        reason: 'Third cover missed',
+        userId: 'manager-1'
+      });
+
+      expect(mockPrisma.tx.folioCharge.updateMany).toHaveBeenCalledWith({
+        where: expect.objectContaining({ id: 'charge-1', totalAmount: new Prisma.Decimal(198) }),
+        data: expect.objectContaining({
+          totalAmount: new Prisma.Decimal(297),
+          status: ChargeStatus.ADJUSTED,
+          notes: 'Corrected by manager-1: Third cover missed'
+        })
+      });
+      expect(mockPrisma.tx.folio.update).toHaveBeenLastCalledWith({
+        where: { id: 'guest-folio' },
+        data: expect.objectContaining({ balance: { increment: new Prisma.Decimal(99) } })
+      });
+      expect(check.lines[0]).toEqual(expect.objectContaining({ quantity: 3, totalAmount: 297, status: ChargeStatus.ADJUSTED }));
+      expect(check.totalAmount).toEqual(new Prisma.Decimal(363));
+    });
+  });
+});
@@ -0,0 +1,199 @@
+/**
+ * @fileoverview Unit tests for the tax engine covering stacked jurisdictional taxes, inclusive
+ * prices, per-person levies, long-stay exemptions and versioning of tax rules.
+ * @version 1.0.0
+ */
+
+// External imports
+import { describe, beforeEach, afterEach, it, expect, jest } from '@jest/globals';
+
+// Internal imports
+import { TaxService } from '../../src/services/tax.service';
+import { TaxBasis, TaxRule, calculateTaxes, summarizeTaxLines } from '../../../shared/models/tax.model';
+import { ErrorCode } from '../../../shared/constants/error-codes';
+
+jest.mock('../../src/config/database', () => ({ prisma: {} }));
+
+describe('Tax engine', () => {
+  const stayDate = new Date('2024-07-15T00:00:00');
+
+  const rule = (overrides: Partial<TaxRule>): TaxRule => ({
+    id: 'tax-1',
+    code: 'VAT',
+    name: 'Value added tax',
+    jurisdiction: 'FR',
+    chargeCategories: ['ROOM'],
+    basis: TaxBasis.PERCENTAGE,
+    rate: 10,
+    inclusive: false,
+    exemptAfterNights: null,
+    effectiveFrom: new Date('2024-01-01T00:00:00'),
+    effectiveTo: null,
+    createdBy: 'admin',
+    ...overrides
+  } as TaxRule);
+
+  const vat = rule({});
+  const cityTax = rule({ code: 'CITY', name: 'City tax', jurisdiction: 'FR-75', basis: TaxBasis.PERCENTAGE, rate: 2 });
+  const tourismLevy = rule({
+    code: 'TOUR', name: 'Tourism levy', jurisdiction: 'FR-75', basis: TaxBasis.PER_PERSON_PER_NIGHT, rate: 1.5
+  });
+  const occupancyTax = rule({
+    code: 'OCC', name: 'Occupancy tax', jurisdiction: 'FR-75', basis: TaxBasis.FIXED, rate: 3, exemptAfterNights: 30
+  });
+
+  describe('calculateTaxes', () => {
+    it('should stack every tax of every jurisdiction on the net amount', () => {
+      const result = calculateTaxes(
+        { category: 'ROOM', amount: 200, date: stayDate, persons: 2, stayNight: 1 },
+        [vat, cityTax, tourismLevy, occupancyTax]
+      );
+
+      expect(result.lines.map(line => [line.code, line.amount])).toEqual([
+        ['VAT', 20], ['CITY', 4], ['TOUR', 3], ['OCC', 3]
+      ]);
+      expect(result).toEqual(expect.objectContaining({
+        netAmount: 200,
+        taxAmount: 30,
+        grossAmount: 230,
+        effectiveRate: 0.15
+      }));
+    });
+
+    it('should take inclusive taxes out of the price sold', () => {
+      const result = calculateTaxes(
+        { category: 'ROOM', amount: 111.5, date: stayDate, persons: 1 },
+        [rule({ inclusive: true }), rule({ ...tourismLevy, inclusive: true })]
+      );
+
+      // (111.50 - 1.50) / 1.10 = 100 net
+      expect(result.netAmount).toBe(100);
+      expect(result.taxAmount).toBe(11.5);
+      expect(result.grossAmount).toBe(111.5);
+    });
+
+    it('should only add exclusive taxes on top of an inclusive price', () => {
+      const result = calculateTaxes(
+        { category: 'ROOM', amount: 110, date: stayDate },
+        [rule({ inclusive: true }), cityTax]
+      );
+
+      expect(result.netAmount).toBe(100);
+      expect(result.taxAmount).toBe(12);
+      expect(result.grossAmount).toBe(112);
+    });
+
+    it('should stop the occupancy tax after the 30th night of a stay', () => {
+      const night = (stayNight: number) => calculateTaxes(
+        { category: 'ROOM', amount: 100, date: stayDate, stayNight },
+        [vat, occupancyTax]
+      );
+
+      expect(night(30).lines.map(line => line.code)).toEqual(['VAT', 'OCC']);
+      expect(night(31).lines.map(line => line.code)).toEqual(['VAT']);
+    });
+
+    it('should ignore rules of other charge categories and outside their dates', () => {
+      const result = calculateTaxes(
+        { category: 'F&B', amount: 50, date: stayDate },
+        [vat, rule({ chargeCategories: ['F&B'], rate: 5.5, effectiveTo: new Date('2024-06-30T00:00:00') })]
+      );
+
+      expect(result.lines).toEqual([]);
+      expect(result.grossAmount).toBe(50);
+    });
+
+    it('should total tax lines by tax and jurisdiction', () => {
+      const lines = [1, 2].flatMap(stayNight => calculateTaxes(
+        { category: 'ROOM', amount: 100, date: stayDate, stayNight },
+        [vat, cityTax]
+      ).lines);
+
+      expect(summarizeTaxLines(lines).map(line => [line.code, line.amount])).toEqual([['VAT', 20], ['CITY', 4]]);
+    });
+  });
+
+  describe('TaxService', () => {
+    let service: TaxService;
+    let mockPrisma: any;
+
+    beforeEach(() => {
+      mockPrisma = {
+        taxRule: {
+          findMany: jest.fn().mockResolvedValue([]),
+          create: jest.fn((args: any) => Promise.resolve({ id: 'tax-2', ...args.data })),
+          update: jest.fn()
+        },
+        $transaction: jest.fn((callback: any) => callback(mockPrisma))
+      };
+
+      service = new TaxService(mockPrisma);
+    });
+
+    afterEach(() => {
+      jest.clearAllMocks();
+    });
+
+    it('should end the version in force the day before a new version starts', async () => {
+      mockPrisma.taxRule.findMany.mockResolvedValue([vat]);
+
+      const created = await service.createRule({
+        code: 'VAT',
+        name: 'Value added tax',
+        jurisdiction: 'FR',
+        chargeCategories: ['ROOM'],
+        basis: TaxBasis.PERCENTAGE,
+        rate: 12,
+        effectiveFrom: new Date('2025-01-01T00:00:00'),
+        userId: 'admin'
+      });
+
+      expect(mockPrisma.taxRule.update).toHaveBeenCalledWith({
+        where: { id: 'tax-1' },
+        data: { effectiveTo: new Date('2024-12-31T00:00:00'), updatedAt: expect.any(Date) }
+      });
+      expect(created).toEqual(expect.objectContaining({ rate: 12, inclusive: false, effectiveTo: null }));
+    });
+
+    it('should refuse a version overlapping one that has an end date', async () => {
+      mockPrisma.taxRule.findMany.mockResolvedValue([{ ...vat, effectiveTo: new Date('2024-12-31T00:00:00') }]);
+
+      await expect(service.createRule({
+        code: 'VAT',
+        name: 'Value added tax',
+        jurisdiction: 'FR',
+        chargeCategories: ['ROOM'],
+        basis: TaxBasis.PERCENTAGE,
+        rate: 12,
+        effectiveFrom: new Date('2024-10-01T00:00:00'),
+        userId: 'admin'
+      })).rejects.toMatchObject({ code: ErrorCode.RESOURCE_CONFLICT });
+      expect(mockPrisma.taxRule.create).not.toHaveBeenCalled();
+    });
+
+    it('should refuse a percentage of 100 or more', async () => {
+      await expect(service.createRule({
+        code: 'VAT',
+        name: 'Value added tax',
+        jurisdiction: 'FR',
+        chargeCategories: ['ROOM'],
+        basis: TaxBasis.PERCENTAGE,
+        rate: 120,
+        effectiveFrom: stayDate,
+        userId: 'admin'
+      })).rejects.toMatchObject({ code: ErrorCode.VALIDATION_ERROR });
+    });
+
+    it('should tax every charge with one lookup of the rules in force over their dates', async () => {
+      mockPrisma.taxRule.findMany.mockResolvedValue([vat, tourismLevy]);
+
+      const result = await service.calculate([
+        { category: 'ROOM', amount: 100, date: stayDate, persons: 2 },
+        { category: 'ROOM', amount: 120, date: new Date('2024-07-16T00:00:00'), persons: 2 }
+      ]);
+
+      expect(mockPrisma.taxRule.findMany).toHaveBeenCalledTimes(1);
+      expect(result.map(calculation => calculation.grossAmount)).toEqual([113, 135]);
+    });
+  });
+});
@@ -0,0 +1,88 @@
+/**
+ * @fileoverview Controller exposing the add-on catalog, its daily inventory and add-on quotes.
+ * @version 1.0.0
+ */
+
+// External imports
+import { Controller, Get, Post, Put, Body, Param, Query, HttpStatus } from '@nestjs/common'; // v10.0.0
+import { ApiTags, ApiOperation, ApiResponse, ApiQuery, ApiParam } from '@nestjs/swagger'; // v7.0.0
+
+// Internal imports
+import {
+  AddOn,
+  AddOnAvailability,
+  AddOnQuote,
+  AddOnSelection,
+  AddOnStay,
+  CreateAddOnDto
+} from '../models/add-on.model';
+import { AddOnService } from '../services/add-on.service';
+
+/**
+ * Inclusive date range of an availability query
+ */
+interface AvailabilityQuery {
+  startDate: Date;
+  endDate: Date;
+}
+
+@Controller('add-ons')
+@ApiTags('Add-ons')
+export class AddOnController {
+  constructor(private readonly addOnService: AddOnService) {}
+
+  /**
+   * Lists the add-on catalog
+   */
+  @Get()
+  @ApiOperation({ summary: 'List add-ons' })
+  @ApiQuery({ name: 'includeInactive', required: false })
+  async findAll(@Query('includeInactive') includeInactive?: boolean): Promise<AddOn[]> {
+    return this.addOnService.listAddOns(!includeInactive);
+  }
+
+  /**
+   * Adds an add-on to the catalog
+   */
+  @Post()
+  @ApiOperation({ summary: 'Create add-on' })
+  @ApiResponse({ status: HttpStatus.CREATED, description: 'Add-on created' })
+  @ApiResponse({ status: HttpStatus.CONFLICT, description: 'Add-on code already used' })
+  async create(@Body() data: CreateAddOnDto): Promise<AddOn> {
+    return this.addOnService.createAddOn(data);
+  }
+
+  /**
+   * Changes an add-on's price, limit or status
+   */
+  @Put(':id')
+  @ApiOperation({ summary: 'Update add-on' })
+  @ApiParam({ name: 'id', required: true })
+  async update(
+    @Param('id') id: string,
+    @Body() data: Partial<CreateAddOnDto> & { isActive?: boolean }
+  ): Promise<AddOn> {
+    return this.addOnService.updateAddOn(id, data);
+  }
+
+  /**
+   * Returns the units of an add-on left on each date of a range
+   */
+  @Get(':id/availability')
+  @ApiOperation({ summary: 'Get add-on availability' })
+  @ApiParam({ name: 'id', required: true })
+  async getAvailability(@Param('id') id: string, @Query() query: AvailabilityQuery): Promise<AddOnAvailability[]> {
+    return this.addOnService.getAvailability(id, query.startDate, query.endDate);
+  }
+
+  /**
+   * Prices add-ons for a stay, with the add-ons its package rate includes
+   */
+  @Post('quote')
+  @ApiOperation({ summary: 'Quote add-ons for a stay' })
+  @ApiResponse({ status: HttpStatus.CONFLICT, description: 'Add-on sold out on a service date' })
+  async quote(@Body() data: AddOnStay & { addOns: AddOnSelection[] }): Promise<AddOnQuote> {
+    const { addOns, ...stay } = data;
+    return this.addOnService.quote(addOns, stay);
+  }
+}
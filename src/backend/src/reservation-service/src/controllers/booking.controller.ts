@@ -22,6 +22,22 @@ import {
   CreateBookingDto, BookingFilterDto, BatchBookingDto 
 } from '../models/booking.model';
 import { AvailabilityService } from '../services/availability.service';
+import { WaitlistService } from '../services/waitlist.service';
+import { RoomAssignmentService } from '../services/room-assignment.service';
+import { ModificationQuote, StayModificationService } from '../services/stay-modification.service';
+import { ModifyStayDto, ReservationModification } from '../models/reservation-modification.model';
+import { CancellationPolicyService } from '../services/cancellation-policy.service';
+import { PenaltyTrigger } from '../models/cancellation-policy.model';
+import { PaymentScheduleService } from '../services/payment-schedule.service';
+import { PaymentSchedule } from '../models/payment-schedule.model';
+import { StayRestrictionService } from '../services/stay-restriction.service';
+import { ReservationRate, summarizeNightlyRates } from '../models/reservation-rate.model';
+import { AddOnService } from '../services/add-on.service';
+import { AddOnSelection } from '../models/add-on.model';
+import { PromotionService } from '../services/promotion.service';
+import { promotionModifiers } from '../models/promotion.model';
+import { RoomType } from '../../../room-service/src/models/room.model';
+import { CityLedgerService } from '../../../billing-service/src/services/city-ledger.service';
 import { ErrorCode } from '../../../shared/constants/error-codes';
 
 @Controller('bookings')
@@ -35,7 +51,16 @@ export class BookingController implements BaseController<Booking> {
     private readonly availabilityService: AvailabilityService,
     private readonly pricingService: PricingService,
     private readonly cacheManager: CacheManager,
-    private readonly auditLogger: AuditLogger
+    private readonly auditLogger: AuditLogger,
+    private readonly waitlistService: WaitlistService,
+    private readonly stayModificationService: StayModificationService,
+    private readonly cancellationPolicyService: CancellationPolicyService,
+    private readonly paymentScheduleService: PaymentScheduleService,
+    private readonly stayRestrictionService: StayRestrictionService,
+    private readonly addOnService: AddOnService,
+    private readonly promotionService: PromotionService,
+    private readonly cityLedgerService: CityLedgerService,
+    private readonly roomAssignmentService: RoomAssignmentService
   ) {}
 
   /**
@@ -46,12 +71,25 @@ export class BookingController implements BaseController<Booking> {
   @UseGuards(ThrottleGuard)
   @ApiResponse({ status: HttpStatus.CREATED, description: 'Booking created successfully' })
   @ApiResponse({ status: HttpStatus.BAD_REQUEST, description: 'Invalid booking data' })
-  @ApiResponse({ status: HttpStatus.CONFLICT, description: 'Room not available' })
-  async create(@Body() bookingData: CreateBookingDto): Promise<Booking> {
+  @ApiResponse({ status: HttpStatus.CONFLICT, description: 'Room type sold out' })
+  async create(
+    @Body() data: CreateBookingDto & { paymentCardToken?: string; addOns?: AddOnSelection[]; promoCodes?: string[] }
+  ): Promise<Booking> {
+    const { paymentCardToken, addOns, promoCodes, ...bookingData } = data;
+
     try {
-      // Check room availability
-      const isAvailable = await this.availabilityService.validateAvailability(
-        [bookingData.roomId],
+      // Enforce the rate's stay restrictions before touching inventory
+      await this.stayRestrictionService.validateStay({
+        rateId: bookingData.rateId,
+        roomType: bookingData.roomType,
+        checkInDate: bookingData.checkInDate,
+        checkOutDate: bookingData.checkOutDate,
+        channel: bookingData.bookingSource
+      });
+
+      // Check room-type inventory; the physical room is assigned close to arrival
+      const isAvailable = await this.availabilityService.validateRoomTypeAvailability(
+        bookingData.roomType,
         bookingData.checkInDate,
         bookingData.checkOutDate
       ).toPromise();
@@ -60,20 +98,44 @@ export class BookingController implements BaseController<Booking> {
         throw new Error(ErrorCode.RESOURCE_CONFLICT);
       }
 
-      // Calculate dynamic rate
-      const rate = await this.pricingService.calculateRate(
+      // Check the promotion codes the guest entered against the stay
+      const promotions = await this.promotionService.validateCodes(promoCodes ?? [], {
+        rateId: bookingData.rateId,
+        roomType: bookingData.roomType,
+        checkInDate: bookingData.checkInDate,
+        checkOutDate: bookingData.checkOutDate,
+        guestId: bookingData.guestId
+      });
+
+      // Price every night; the nightly prices are stored so later rate changes never reprice the stay
+      const nightlyRates = await this.pricingService.calculateNightlyRates(
         bookingData.rateId,
         bookingData.checkInDate,
         bookingData.checkOutDate,
         await this.availabilityService.getCurrentOccupancy(),
-        bookingData.bookingSource
-      );
+        bookingData.bookingSource,
+        promotionModifiers(promotions),
+        bookingData.numberOfGuests
+      ).toPromise();
+      const { totalAmount, taxAmount } = summarizeNightlyRates(nightlyRates);
+
+      // Price the chosen add-ons and the rate's package inclusions; their units are held with the room
+      const addOnQuote = await this.addOnService.quote(addOns ?? [], {
+        rateId: bookingData.rateId,
+        checkInDate: bookingData.checkInDate,
+        checkOutDate: bookingData.checkOutDate,
+        numberOfGuests: bookingData.numberOfGuests
+      });
 
       // Create booking with audit trail
       const booking = await this.bookingModel.create({
         ...bookingData,
         status: BookingStatus.PENDING,
-        totalAmount: rate,
+        totalAmount: Math.round((totalAmount + addOnQuote.totalAmount) * 100) / 100,
+        taxAmount: Math.round((taxAmount + addOnQuote.taxAmount) * 100) / 100,
+        nightlyRates,
+        addOns: addOnQuote.lines,
+        promotions,
         auditTrail: [{
           timestamp: new Date(),
           action: 'BOOKING_CREATED',
@@ -82,8 +144,11 @@ export class BookingController implements BaseController<Booking> {
         }]
       });
 
+      // Schedule the deposits the rate requires; billing collects them as they fall due
+      await this.paymentScheduleService.createSchedule(booking, paymentCardToken);
+
       // Invalidate availability cache
-      await this.cacheManager.del(`availability:${bookingData.roomId}`);
+      await this.cacheManager.del(`availability:${bookingData.roomType}`);
 
       // Log audit trail
       await this.auditLogger.log({
@@ -111,24 +176,45 @@ export class BookingController implements BaseController<Booking> {
   @ApiResponse({ status: HttpStatus.CREATED, description: 'Bookings created successfully' })
   async createBatch(@Body() batchData: BatchBookingDto): Promise<Booking[]> {
     try {
-      // Validate all rooms availability
-      const roomIds = batchData.bookings.map(booking => booking.roomId);
-      const isAvailable = await this.availabilityService.checkBatchAvailability(
-        roomIds,
-        batchData.checkInDate,
-        batchData.checkOutDate
-      ).toPromise();
+      for (const booking of batchData.bookings) {
+        await this.stayRestrictionService.validateStay({
+          rateId: booking.rateId,
+          roomType: booking.roomType,
+          checkInDate: batchData.checkInDate,
+          checkOutDate: batchData.checkOutDate,
+          channel: booking.bookingSource
+        });
+      }
 
-      if (!isAvailable) {
+      // Validate room-type inventory for all requested rooms
+      const roomsByType = batchData.bookings.reduce((counts, booking) => {
+        counts.set(booking.roomType, (counts.get(booking.roomType) || 0) + 1);
+        return counts;
+      }, new Map<RoomType, number>());
+      const availability = await Promise.all(
+        Array.from(roomsByType.entries()).map(([roomType, rooms]) =>
+          this.availabilityService.validateRoomTypeAvailability(
+            roomType,
+            batchData.checkInDate,
+            batchData.checkOutDate,
+            rooms
+          ).toPromise()
+        )
+      );
+
+      if (!availability.every(Boolean)) {
         throw new Error(ErrorCode.RESOURCE_CONFLICT);
       }
 
       // Create bookings in transaction
       const bookings = await this.bookingModel.createBatch(batchData.bookings);
+      for (const booking of bookings) {
+        await this.paymentScheduleService.createSchedule(booking);
+      }
 
-      // Invalidate cache for all affected rooms
+      // Invalidate cache for all affected room types
       await Promise.all(
-        roomIds.map(roomId => this.cacheManager.del(`availability:${roomId}`))
+        Array.from(roomsByType.keys()).map(roomType => this.cacheManager.del(`availability:${roomType}`))
       );
 
       return bookings;
@@ -178,12 +264,8 @@ export class BookingController implements BaseController<Booking> {
     @Body() updateData: Partial<Booking>
   ): Promise<Booking> {
     try {
+      // Stay dates, room and guest count change through the modification flow
       const booking = await this.bookingModel.update(id, updateData);
-      
-      // Invalidate cache if dates changed
-      if (updateData.checkInDate || updateData.checkOutDate) {
-        await this.cacheManager.del(`availability:${booking.roomId}`);
-      }
 
       await this.auditLogger.log({
         action: 'UPDATE_BOOKING',
@@ -204,7 +286,8 @@ export class BookingController implements BaseController<Booking> {
   }
 
   /**
-   * Processes booking cancellation
+   * Processes booking cancellation, charging the rate's cancellation penalty and refunding
+   * deposit above it
    */
   @Put(':id/cancel')
   @ApiOperation({ summary: 'Cancel booking' })
@@ -214,22 +297,63 @@ export class BookingController implements BaseController<Booking> {
     @Body() cancellationData: { reason: string; userId: string }
   ): Promise<Booking> {
     try {
+      const cancellationDate = new Date();
+      const assessment = await this.cancellationPolicyService.assess(
+        await this.bookingModel.findById(id),
+        PenaltyTrigger.CANCELLATION,
+        cancellationDate
+      );
+
       const booking = await this.bookingModel.update(id, {
         status: BookingStatus.CANCELLED,
         cancellationReason: cancellationData.reason,
-        cancellationDate: new Date(),
+        cancellationDate,
+        cancellationFee: assessment.fee,
         lastModifiedBy: cancellationData.userId
       });
 
-      await this.cacheManager.del(`availability:${booking.roomId}`);
+      await this.cacheManager.del(`availability:${booking.roomType}`);
+      await this.paymentScheduleService.cancelSchedule(id);
 
       await this.auditLogger.log({
         action: 'CANCEL_BOOKING',
         resourceId: id,
         userId: cancellationData.userId,
-        details: { reason: cancellationData.reason }
+        details: { reason: cancellationData.reason, cancellationFee: assessment.fee }
       });
 
+      // Post the penalty and refund the excess deposit; the postings are idempotent, so a
+      // failure is logged and the settlement can be retried without undoing the cancellation
+      try {
+        const settlement = await this.cancellationPolicyService.settle(booking, assessment, cancellationData.userId);
+        await this.auditLogger.log({
+          action: 'SETTLE_CANCELLATION',
+          resourceId: id,
+          userId: cancellationData.userId,
+          details: settlement
+        });
+      } catch (error) {
+        this.auditLogger.error('Cancellation penalty settlement failed', {
+          error,
+          bookingId: id
+        });
+      }
+
+      // Offer the released room to the waitlist; the cancellation stands either way
+      try {
+        await this.waitlistService.offerReleasedInventory(
+          booking.roomType,
+          booking.checkInDate,
+          booking.checkOutDate,
+          cancellationData.userId
+        );
+      } catch (error) {
+        this.auditLogger.error('Waitlist offer after cancellation failed', {
+          error,
+          bookingId: id
+        });
+      }
+
       return booking;
     } catch (error) {
       this.auditLogger.error('Booking cancellation failed', {
@@ -241,7 +365,114 @@ export class BookingController implements BaseController<Booking> {
   }
 
   /**
-   * Processes guest check-in
+   * Prices a stay modification without applying it
+   */
+  @Post(':id/modifications/quote')
+  @ApiOperation({ summary: 'Quote stay modification' })
+  @ApiParam({ name: 'id', required: true })
+  @ApiResponse({ status: HttpStatus.CONFLICT, description: 'Added nights or room not available' })
+  async quoteModification(
+    @Param('id') id: string,
+    @Body() changes: ModifyStayDto
+  ): Promise<ModificationQuote> {
+    return this.stayModificationService.quote(id, changes);
+  }
+
+  /**
+   * Extends, shortens or shifts a stay, moves room or changes the guest count with repricing
+   */
+  @Post(':id/modifications')
+  @ApiOperation({ summary: 'Modify stay' })
+  @ApiParam({ name: 'id', required: true })
+  @ApiResponse({ status: HttpStatus.CREATED, description: 'Stay modified and difference posted' })
+  @ApiResponse({ status: HttpStatus.CONFLICT, description: 'Added nights or room not available' })
+  async modify(
+    @Param('id') id: string,
+    @Body() data: ModifyStayDto & { userId: string }
+  ): Promise<ReservationModification> {
+    const { userId, ...changes } = data;
+
+    try {
+      const modification = await this.stayModificationService.modify(id, changes, userId);
+
+      // Invalidate availability cache for the current and any previous room type
+      const booking = await this.bookingModel.findById(id);
+      const roomTypes = new Set([booking.roomType, modification.previousValue.roomType].filter(Boolean));
+      await Promise.all(Array.from(roomTypes).map(roomType => this.cacheManager.del(`availability:${roomType}`)));
+
+      await this.auditLogger.log({
+        action: 'MODIFY_STAY',
+        resourceId: id,
+        userId,
+        details: modification
+      });
+
+      return modification;
+    } catch (error) {
+      this.auditLogger.error('Stay modification failed', {
+        error,
+        bookingId: id,
+        changes
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Lists the modifications made to a booking
+   */
+  @Get(':id/modifications')
+  @ApiOperation({ summary: 'Get stay modifications' })
+  @ApiParam({ name: 'id', required: true })
+  async findModifications(@Param('id') id: string): Promise<ReservationModification[]> {
+    return this.stayModificationService.findModifications(id);
+  }
+
+  /**
+   * Retrieves the price of every night of a booking
+   */
+  @Get(':id/rates')
+  @ApiOperation({ summary: 'Get nightly rates' })
+  @ApiParam({ name: 'id', required: true })
+  async findNightlyRates(@Param('id') id: string): Promise<ReservationRate[]> {
+    return this.bookingModel.findNightlyRates(id);
+  }
+
+  /**
+   * Retrieves the deposit installments of a booking
+   */
+  @Get(':id/payment-schedule')
+  @ApiOperation({ summary: 'Get payment schedule' })
+  @ApiParam({ name: 'id', required: true })
+  @ApiResponse({ status: HttpStatus.NOT_FOUND, description: 'Booking has no payment schedule' })
+  async findPaymentSchedule(@Param('id') id: string): Promise<PaymentSchedule> {
+    return this.paymentScheduleService.getSchedule(id);
+  }
+
+  /**
+   * Replaces the card deposit installments are charged to
+   */
+  @Put(':id/payment-schedule/card')
+  @ApiOperation({ summary: 'Update payment schedule card' })
+  @ApiParam({ name: 'id', required: true })
+  async updatePaymentCard(
+    @Param('id') id: string,
+    @Body() data: { cardToken: string; userId: string }
+  ): Promise<PaymentSchedule> {
+    const schedule = await this.paymentScheduleService.updateCard(id, data.cardToken, data.userId);
+
+    await this.auditLogger.log({
+      action: 'UPDATE_PAYMENT_CARD',
+      resourceId: id,
+      userId: data.userId,
+      details: { scheduleId: schedule.id }
+    });
+
+    return schedule;
+  }
+
+  /**
+   * Processes guest check-in, assigning the best matching room first when the booking has none
    */
   @Put(':id/check-in')
   @ApiOperation({ summary: 'Process check-in' })
@@ -251,6 +482,11 @@ export class BookingController implements BaseController<Booking> {
     @Body() checkInData: { userId: string }
   ): Promise<Booking> {
     try {
+      // A guest cannot be in house without a room; the assignment refuses if none fits the stay
+      if (!(await this.bookingModel.findById(id)).roomId) {
+        await this.roomAssignmentService.assignRoom(id, checkInData.userId);
+      }
+
       const booking = await this.bookingModel.update(id, {
         status: BookingStatus.CHECKED_IN,
         lastModifiedBy: checkInData.userId
@@ -274,22 +510,33 @@ export class BookingController implements BaseController<Booking> {
   }
 
   /**
-   * Processes guest check-out
+   * Processes guest check-out, transferring the balance of a direct-billed folio to the company's
+   * city ledger account
    */
   @Put(':id/check-out')
   @ApiOperation({ summary: 'Process check-out' })
   @ApiParam({ name: 'id', required: true })
   async checkOut(
     @Param('id') id: string,
-    @Body() checkOutData: { userId: string }
+    @Body() checkOutData: { userId: string; arAccountId?: string; folioId?: string }
   ): Promise<Booking> {
     try {
+      // Bill the company before the stay is closed so a refused transfer keeps the guest in house
+      if (checkOutData.arAccountId) {
+        await this.cityLedgerService.transferAtCheckout(
+          id,
+          checkOutData.arAccountId,
+          checkOutData.userId,
+          checkOutData.folioId
+        );
+      }
+
       const booking = await this.bookingModel.update(id, {
         status: BookingStatus.CHECKED_OUT,
         lastModifiedBy: checkOutData.userId
       });
 
-      await this.cacheManager.del(`availability:${booking.roomId}`);
+      await this.cacheManager.del(`availability:${booking.roomType}`);
 
       await this.auditLogger.log({
         action: 'CHECK_OUT',
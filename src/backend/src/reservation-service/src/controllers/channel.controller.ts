@@ -0,0 +1,115 @@
+/**
+ * @fileoverview Controller exposing the channel manager: OTA reservation delivery as JSON or
+ * OpenTravel XML, reservation pulls and the ARI outbox.
+ * @version 1.0.0
+ */
+
+// External imports
+import { Controller, Get, Post, Body, Param, Query, Header, HttpCode, HttpStatus } from '@nestjs/common'; // v10.0.0
+import { ApiTags, ApiOperation, ApiResponse, ApiParam, ApiQuery, ApiConsumes, ApiProduces } from '@nestjs/swagger'; // v7.0.0
+
+// Internal imports
+import {
+  ChannelDispatchRun,
+  ChannelOutboxMessage,
+  ChannelOutboxStatus,
+  DistributionChannel,
+  OtaIngestResult,
+  OtaReservation
+} from '../models/channel.model';
+import { ChannelManagerService } from '../services/channel-manager.service';
+import { ChannelOutboxService } from '../services/channel-outbox.service';
+import { OtaXmlService } from '../services/ota-xml.service';
+
+/**
+ * Filter of the outbox listing
+ */
+interface OutboxQuery {
+  status?: ChannelOutboxStatus;
+  channel?: DistributionChannel;
+}
+
+@Controller('channels')
+@ApiTags('Channel Manager')
+export class ChannelController {
+  constructor(
+    private readonly channelManagerService: ChannelManagerService,
+    private readonly channelOutboxService: ChannelOutboxService,
+    private readonly otaXmlService: OtaXmlService
+  ) {}
+
+  /**
+   * Receives a reservation, modification or cancellation pushed by a channel
+   */
+  @Post(':channel/reservations')
+  @ApiOperation({ summary: 'Receive OTA reservation' })
+  @ApiParam({ name: 'channel', required: true })
+  @ApiResponse({ status: HttpStatus.OK, description: 'Outcome; duplicates are reported, not re-applied' })
+  async receive(
+    @Param('channel') channel: DistributionChannel,
+    @Body() reservation: OtaReservation
+  ): Promise<OtaIngestResult> {
+    return this.channelManagerService.ingestReservation(channel, reservation);
+  }
+
+  /**
+   * Receives an OpenTravel XML reservation, availability or rate amount notification and
+   * returns its RS message
+   */
+  @Post(':channel/ota')
+  @HttpCode(HttpStatus.OK)
+  @Header('Content-Type', 'application/xml')
+  @ApiOperation({ summary: 'Receive OpenTravel XML message' })
+  @ApiParam({ name: 'channel', required: true })
+  @ApiConsumes('application/xml', 'text/xml')
+  @ApiProduces('application/xml')
+  @ApiResponse({ status: HttpStatus.OK, description: 'RS message with Success and Warnings, or Errors' })
+  @ApiResponse({ status: HttpStatus.BAD_REQUEST, description: 'Malformed XML or unsupported message' })
+  async receiveOta(
+    @Param('channel') channel: DistributionChannel,
+    @Body() xml: string
+  ): Promise<string> {
+    return this.otaXmlService.handle(channel, xml);
+  }
+
+  /**
+   * Pulls and applies the reservations waiting on a channel
+   */
+  @Post(':channel/pull')
+  @ApiOperation({ summary: 'Pull OTA reservations' })
+  @ApiParam({ name: 'channel', required: true })
+  async pull(@Param('channel') channel: DistributionChannel): Promise<OtaIngestResult[]> {
+    return this.channelManagerService.pullReservations(channel);
+  }
+
+  /**
+   * Lists ARI outbox messages
+   */
+  @Get('outbox')
+  @ApiOperation({ summary: 'List ARI outbox' })
+  @ApiQuery({ name: 'status', required: false })
+  @ApiQuery({ name: 'channel', required: false })
+  async findOutbox(@Query() query: OutboxQuery): Promise<ChannelOutboxMessage[]> {
+    return this.channelOutboxService.list(query.status, query.channel);
+  }
+
+  /**
+   * Pushes the ARI changes due for delivery now
+   */
+  @Post('outbox/dispatch')
+  @ApiOperation({ summary: 'Dispatch ARI outbox' })
+  async dispatch(): Promise<ChannelDispatchRun> {
+    return this.channelManagerService.dispatchOutbox();
+  }
+
+  /**
+   * Queues a failed outbox message for another delivery
+   */
+  @Post('outbox/:id/retry')
+  @ApiOperation({ summary: 'Retry failed ARI message' })
+  @ApiParam({ name: 'id', required: true })
+  @ApiResponse({ status: HttpStatus.UNPROCESSABLE_ENTITY, description: 'Message has not failed' })
+  async retry(@Param('id') id: string): Promise<ChannelOutboxMessage> {
+    return this.channelOutboxService.retry(id);
+  }
+}
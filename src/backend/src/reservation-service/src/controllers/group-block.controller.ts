@@ -0,0 +1,92 @@
+/**
+ * @fileoverview Controller exposing group blocks: contracting allotments, rooming-list import,
+ * pickup reporting and cancellation.
+ * @version 1.0.0
+ */
+
+// External imports
+import { Controller, Post, Get, Put, Body, Param, Query, HttpStatus } from '@nestjs/common'; // v10.0.0
+import { ApiTags, ApiOperation, ApiResponse, ApiParam, ApiQuery } from '@nestjs/swagger'; // v7.0.0
+
+// Internal imports
+import {
+  CreateGroupBlockDto,
+  GroupBlock,
+  GroupPickupReport,
+  RoomingListEntry,
+  RoomingListResult
+} from '../models/group-block.model';
+import { GroupBlockFilter, GroupBlockService } from '../services/group-block.service';
+
+@Controller('groups')
+@ApiTags('Group Blocks')
+export class GroupBlockController {
+  constructor(private readonly groupBlockService: GroupBlockService) {}
+
+  /**
+   * Contracts a group block and holds its rooms
+   */
+  @Post()
+  @ApiOperation({ summary: 'Create group block' })
+  @ApiResponse({ status: HttpStatus.CREATED, description: 'Group block contracted' })
+  @ApiResponse({ status: HttpStatus.CONFLICT, description: 'Group code taken or room type sold out' })
+  async create(@Body() data: CreateGroupBlockDto & { userId: string }): Promise<GroupBlock> {
+    const { userId, ...block } = data;
+    return this.groupBlockService.createBlock(block, userId);
+  }
+
+  /**
+   * Lists group blocks
+   */
+  @Get()
+  @ApiOperation({ summary: 'List group blocks' })
+  @ApiQuery({ name: 'status', required: false })
+  @ApiQuery({ name: 'groupCode', required: false })
+  async findAll(@Query() filter: GroupBlockFilter): Promise<GroupBlock[]> {
+    return this.groupBlockService.findBlocks(filter);
+  }
+
+  /**
+   * Retrieves a group block with its allotments
+   */
+  @Get(':id')
+  @ApiOperation({ summary: 'Get group block' })
+  @ApiParam({ name: 'id', required: true })
+  async findById(@Param('id') id: string): Promise<GroupBlock> {
+    return this.groupBlockService.getBlock(id);
+  }
+
+  /**
+   * Reports contracted versus picked-up rooms
+   */
+  @Get(':id/pickup')
+  @ApiOperation({ summary: 'Get group pickup report' })
+  @ApiParam({ name: 'id', required: true })
+  async pickup(@Param('id') id: string): Promise<GroupPickupReport> {
+    return this.groupBlockService.getPickupReport(id);
+  }
+
+  /**
+   * Books a rooming list against the block
+   */
+  @Post(':id/rooming-list')
+  @ApiOperation({ summary: 'Import rooming list' })
+  @ApiParam({ name: 'id', required: true })
+  @ApiResponse({ status: HttpStatus.OK, description: 'Booked and rejected rows' })
+  async importRoomingList(
+    @Param('id') id: string,
+    @Body() data: { entries: RoomingListEntry[]; userId: string }
+  ): Promise<RoomingListResult> {
+    return this.groupBlockService.importRoomingList(id, data.entries, data.userId);
+  }
+
+  /**
+   * Cancels a block and returns its unpicked rooms to inventory
+   */
+  @Put(':id/cancel')
+  @ApiOperation({ summary: 'Cancel group block' })
+  @ApiParam({ name: 'id', required: true })
+  async cancel(@Param('id') id: string, @Body() data: { userId: string }): Promise<GroupBlock> {
+    return this.groupBlockService.cancelBlock(id, data.userId);
+  }
+}
@@ -0,0 +1,99 @@
+/**
+ * @fileoverview Controller exposing promotion codes, code checks for a stay and the redemption report.
+ * @version 1.0.0
+ */
+
+// External imports
+import { Controller, Get, Post, Put, Body, Param, Query, HttpStatus } from '@nestjs/common'; // v10.0.0
+import { ApiTags, ApiOperation, ApiResponse, ApiQuery, ApiParam } from '@nestjs/swagger'; // v7.0.0
+
+// Internal imports
+import {
+  CreatePromoCodeDto,
+  PromoCode,
+  PromoRedemptionSummary,
+  PromoStay
+} from '../models/promotion.model';
+import { PromotionService } from '../services/promotion.service';
+
+/**
+ * Inclusive date range of the redemption report
+ */
+interface RedemptionReportQuery {
+  startDate: Date;
+  endDate: Date;
+}
+
+/**
+ * Discount the codes entered for a stay would give
+ */
+interface PromoCheckResult {
+  codes: string[];
+  /** Percentage taken off each night by the codes together */
+  discountPercentage: number;
+}
+
+@Controller('promo-codes')
+@ApiTags('Promotions')
+export class PromotionController {
+  constructor(private readonly promotionService: PromotionService) {}
+
+  /**
+   * Lists promotion codes
+   */
+  @Get()
+  @ApiOperation({ summary: 'List promotion codes' })
+  @ApiQuery({ name: 'includeInactive', required: false })
+  async findAll(@Query('includeInactive') includeInactive?: boolean): Promise<PromoCode[]> {
+    return this.promotionService.listPromoCodes(!includeInactive);
+  }
+
+  /**
+   * Creates a promotion code
+   */
+  @Post()
+  @ApiOperation({ summary: 'Create promotion code' })
+  @ApiResponse({ status: HttpStatus.CREATED, description: 'Promotion code created' })
+  @ApiResponse({ status: HttpStatus.CONFLICT, description: 'Code already used' })
+  async create(@Body() data: CreatePromoCodeDto): Promise<PromoCode> {
+    return this.promotionService.createPromoCode(data);
+  }
+
+  /**
+   * Changes a promotion code's conditions or switches it off
+   */
+  @Put(':id')
+  @ApiOperation({ summary: 'Update promotion code' })
+  @ApiParam({ name: 'id', required: true })
+  async update(
+    @Param('id') id: string,
+    @Body() data: Partial<Omit<CreatePromoCodeDto, 'code' | 'createdBy'>> & { isActive?: boolean }
+  ): Promise<PromoCode> {
+    return this.promotionService.updatePromoCode(id, data);
+  }
+
+  /**
+   * Checks codes entered by a guest against a stay before booking
+   */
+  @Post('check')
+  @ApiOperation({ summary: 'Check promotion codes for a stay' })
+  @ApiResponse({ status: HttpStatus.BAD_REQUEST, description: 'A code does not apply to the stay' })
+  async check(@Body() data: PromoStay & { codes: string[] }): Promise<PromoCheckResult> {
+    const { codes, ...stay } = data;
+    const promotions = await this.promotionService.validateCodes(codes, stay);
+
+    return {
+      codes: promotions.map(promotion => promotion.code),
+      discountPercentage: promotions.reduce((sum, promotion) => sum + promotion.discountPercentage, 0)
+    };
+  }
+
+  /**
+   * Summarizes redemptions by code over a period
+   */
+  @Get('redemptions/report')
+  @ApiOperation({ summary: 'Promotion redemption report' })
+  async getRedemptionReport(@Query() query: RedemptionReportQuery): Promise<PromoRedemptionSummary[]> {
+    return this.promotionService.getRedemptionReport(query.startDate, query.endDate);
+  }
+}
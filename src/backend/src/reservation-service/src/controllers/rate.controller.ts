@@ -27,24 +27,48 @@ import {
   ApiParam, 
   ApiBody 
 } from '@nestjs/swagger'; // v7.0.0
-import { Observable, from, throwError } from 'rxjs'; // v7.8.0
-import { map, catchError } from 'rxjs/operators';
+import { Observable, from, of, throwError } from 'rxjs'; // v7.8.0
+import { map, catchError, mergeMap } from 'rxjs/operators';
 
 // Internal imports
 import { BaseController } from '../../../shared/interfaces/base-controller.interface';
 import { Rate, RateType, RateStatus } from '../models/rate.model';
 import { PricingService } from '../services/pricing.service';
+import { StayRestrictionService } from '../services/stay-restriction.service';
+import { RateParityService } from '../services/rate-parity.service';
+import { BaseRateChange, RateHierarchyService } from '../services/rate-hierarchy.service';
+import { RateSimulationService } from '../services/rate-simulation.service';
+import { PromotionService } from '../services/promotion.service';
+import { promotionModifiers } from '../models/promotion.model';
+import { RateParityCheck, RateParityFilter, RateParityViolation } from '../models/rate-parity.model';
+import { RateAudit, RateDerivation, RateHistoryFilter } from '../models/rate-derivation.model';
+import { UpdateYieldRulesDto, YieldRuleSet } from '../models/yield-rule.model';
+import { RateSimulationRequest, RateSimulationResult } from '../models/rate-simulation.model';
+import { TaxLine } from '../../../shared/models/tax.model';
+import { ExchangeRateService } from '../../../billing-service/src/services/exchange-rate.service';
+import { roundToCurrency } from '../../../billing-service/src/models/exchange-rate.model';
+import { RoomType } from '../../../room-service/src/models/room.model';
 import { parseDate, isValidBookingRange } from '../../../shared/utils/date.util';
 import { ErrorCode } from '../../../shared/constants/error-codes';
+import { prisma as reservationPrisma } from '../config/database';
+import { BusinessDateService } from '../../../shared/services/business-date.service';
 
 /**
  * Interface for rate calculation request
  */
 interface RateCalculationRequest {
   roomTypeId: string;
+  /** Room type whose stay restrictions apply; the strictest across types when omitted */
+  roomType?: RoomType;
   checkInDate: string;
   checkOutDate: string;
   channelId: string;
+  /** Guests staying, for per-person taxes; one when omitted */
+  guests?: number;
+  /** Promotion codes entered by the guest; requires the room type */
+  promoCodes?: string[];
+  /** Guest's currency to quote in besides the rate's own */
+  currency?: string;
   occupancyData?: {
     currentOccupancy: number;
     forecastedOccupancy: number;
@@ -61,9 +85,21 @@ interface RateCalculationResponse {
     seasonalAdjustment: number;
     occupancyAdjustment: number;
     losAdjustment: number;
+    yieldAdjustment: number;
+    promotionAdjustment: number;
     channelMarkup: number;
     taxes: number;
   };
+  taxLines: TaxLine[];
+  currencyCode?: string;
+  /** Rate in the guest's currency at the business date's exchange rate */
+  quote?: {
+    currency: string;
+    exchangeRate: number;
+    baseRate: number;
+    finalRate: number;
+    taxes: number;
+  };
   appliedRules: string[];
   validUntil: Date;
 }
@@ -78,7 +114,14 @@ export class RateController implements BaseController<Rate> {
   private readonly logger = new Logger(RateController.name);
 
   constructor(
-    private readonly pricingService: PricingService
+    private readonly pricingService: PricingService,
+    private readonly rateParityService: RateParityService,
+    private readonly stayRestrictionService: StayRestrictionService = new StayRestrictionService(),
+    private readonly rateHierarchyService: RateHierarchyService = new RateHierarchyService(),
+    private readonly rateSimulationService: RateSimulationService = new RateSimulationService(pricingService),
+    private readonly promotionService: PromotionService = new PromotionService(),
+    private readonly exchangeRateService: ExchangeRateService = new ExchangeRateService(),
+    private readonly businessDates: BusinessDateService = new BusinessDateService(reservationPrisma)
   ) {}
 
   /**
@@ -97,30 +140,63 @@ export class RateController implements BaseController<Rate> {
       const checkIn = parseDate(request.checkInDate);
       const checkOut = parseDate(request.checkOutDate);
 
-      if (!isValidBookingRange(checkIn, checkOut)) {
-        return throwError(() => new BadRequestException(
-          'Invalid booking date range'
-        ));
-      }
-
       // Get current occupancy or use provided data
       const occupancyPercentage = request.occupancyData?.currentOccupancy || 70;
 
-      return this.pricingService.calculateRoomRate(
-        request.roomTypeId,
-        checkIn,
-        checkOut,
-        occupancyPercentage,
-        request.channelId
-      ).pipe(
+      return from(this.businessDates.getBusinessDate()).pipe(
+        mergeMap(businessDate => {
+          if (!isValidBookingRange(checkIn, checkOut, { referenceDate: businessDate })) {
+            return throwError(() => new BadRequestException(
+              'Invalid booking date range'
+            ));
+          }
+
+          // Stays the restriction calendar rejects are not quoted
+          return from(this.stayRestrictionService.validateStay({
+            rateId: request.roomTypeId,
+            roomType: request.roomType,
+            checkInDate: checkIn,
+            checkOutDate: checkOut,
+            channel: request.channelId
+          })).pipe(
+            // Promotion codes that do not apply to the stay are rejected rather than ignored
+            mergeMap(() => request.promoCodes?.length
+              ? this.promotionService.validateCodes(request.promoCodes, {
+                rateId: request.roomTypeId,
+                roomType: request.roomType!,
+                checkInDate: checkIn,
+                checkOutDate: checkOut
+              })
+              : Promise.resolve([])
+            ),
+            mergeMap(promotions => this.pricingService.calculateRoomRate(
+              request.roomTypeId,
+              checkIn,
+              checkOut,
+              occupancyPercentage,
+              request.channelId,
+              promotionModifiers(promotions),
+              request.guests
+            ))
+          );
+        }),
         map(result => ({
           baseRate: result.baseRate,
           finalRate: result.finalRate,
           breakdown: result.breakdown,
+          taxLines: result.taxLines,
+          currencyCode: result.currencyCode,
           appliedRules: result.appliedRules,
           validUntil: result.validUntil
         })),
+        mergeMap(response => request.currency && response.currencyCode && request.currency !== response.currencyCode
+          ? from(this.quoteInCurrency(response, request.currency))
+          : of(response)
+        ),
         catchError(error => {
+          if (error.code === ErrorCode.BUSINESS_RULE_VIOLATION || error.code === ErrorCode.VALIDATION_ERROR) {
+            return throwError(() => error);
+          }
           this.logger.error(
             `Rate calculation failed: ${error.message}`,
             error.stack
@@ -145,8 +221,8 @@ export class RateController implements BaseController<Rate> {
   @ApiParam({ name: 'rateId', description: 'Rate ID to validate' })
   validateRateParity(
     @Param('rateId') rateId: string
-  ): Observable<{ isValid: boolean; violations: any[] }> {
-    return from(this.pricingService.validateRateParity(rateId)).pipe(
+  ): Observable<{ isValid: boolean; violations: RateParityViolation[] }> {
+    return from(this.rateParityService.validateRateParity(rateId)).pipe(
       map(result => ({
         isValid: result.isValid,
         violations: result.violations
@@ -163,6 +239,106 @@ export class RateController implements BaseController<Rate> {
     );
   }
 
+  /**
+   * Lists rate parity violations with their history
+   */
+  @Get('parity-violations')
+  @ApiOperation({ summary: 'List rate parity violations' })
+  findParityViolations(
+    @Query() filter: RateParityFilter
+  ): Observable<RateParityViolation[]> {
+    return from(this.rateParityService.listViolations(filter)).pipe(
+      catchError(error => throwError(() => new BadRequestException(error.message)))
+    );
+  }
+
+  /**
+   * Runs the rate parity check across all active rates now
+   */
+  @Post('parity-check')
+  @ApiOperation({ summary: 'Check rate parity across channels' })
+  checkParity(): Observable<RateParityCheck> {
+    return from(this.rateParityService.checkParity()).pipe(
+      catchError(error => {
+        this.logger.error(
+          `Rate parity check failed: ${error.message}`,
+          error.stack
+        );
+        return throwError(() => new BadRequestException(
+          error.message || 'Rate parity check failed'
+        ));
+      })
+    );
+  }
+
+  /**
+   * Derives a rate from a parent rate and recomputes its base rate
+   */
+  @Put(':id/parent')
+  @ApiOperation({ summary: 'Derive a rate from a parent rate' })
+  @ApiParam({ name: 'id', description: 'Rate ID to derive' })
+  linkRate(
+    @Param('id') id: string,
+    @Body() request: { parentRateId: string; derivation: RateDerivation; userId: string }
+  ): Observable<BaseRateChange> {
+    return from(this.rateHierarchyService.linkRate(id, request.parentRateId, request.derivation, request.userId)).pipe(
+      catchError(error => throwError(() => new BadRequestException(error.message)))
+    );
+  }
+
+  /**
+   * Stops deriving a rate from its parent rate
+   */
+  @Delete(':id/parent')
+  @ApiOperation({ summary: 'Unlink a derived rate from its parent rate' })
+  @ApiParam({ name: 'id', description: 'Derived rate ID' })
+  unlinkRate(
+    @Param('id') id: string,
+    @Body() request: { userId: string }
+  ): Observable<Rate> {
+    return from(this.rateHierarchyService.unlinkRate(id, request.userId)).pipe(
+      catchError(error => throwError(() => new BadRequestException(error.message)))
+    );
+  }
+
+  /**
+   * Sets a base rate and recomputes every rate derived from it
+   */
+  @Put(':id/base-rate')
+  @ApiOperation({ summary: 'Set a base rate and recompute derived rates' })
+  @ApiParam({ name: 'id', description: 'Rate ID' })
+  updateBaseRate(
+    @Param('id') id: string,
+    @Body() request: { baseRate: number; userId: string }
+  ): Observable<BaseRateChange> {
+    return from(this.rateHierarchyService.updateBaseRate(id, request.baseRate, request.userId)).pipe(
+      catchError(error => {
+        this.logger.error(
+          `Base rate update failed: ${error.message}`,
+          error.stack
+        );
+        return throwError(() => new BadRequestException(
+          error.message || 'Base rate update failed'
+        ));
+      })
+    );
+  }
+
+  /**
+   * Retrieves the change history of a rate, propagated changes included
+   */
+  @Get('history/:id')
+  @ApiOperation({ summary: 'Get rate change history' })
+  @ApiParam({ name: 'id', description: 'Rate ID' })
+  getRateHistory(
+    @Param('id') id: string,
+    @Query() filter: RateHistoryFilter
+  ): Observable<RateAudit[]> {
+    return from(this.rateHierarchyService.getHistory(id, filter)).pipe(
+      catchError(error => throwError(() => new BadRequestException(error.message)))
+    );
+  }
+
   /**
    * Synchronizes rates across all channels
    */
@@ -189,15 +365,38 @@ export class RateController implements BaseController<Rate> {
   }
 
   /**
-   * Updates yield management rules
+   * Retrieves the yield rules in force
+   */
+  @Get('yield-rules')
+  @ApiOperation({ summary: 'Get yield management rules' })
+  getYieldRules(): Observable<YieldRuleSet | null> {
+    return from(this.pricingService.getYieldRules()).pipe(
+      catchError(error => throwError(() => new BadRequestException(error.message)))
+    );
+  }
+
+  /**
+   * Lists the versions of the yield rules
+   */
+  @Get('yield-rules/versions')
+  @ApiOperation({ summary: 'List yield management rule versions' })
+  getYieldRuleVersions(
+    @Query('limit') limit?: number
+  ): Observable<YieldRuleSet[]> {
+    return from(this.pricingService.getYieldRuleVersions(limit)).pipe(
+      catchError(error => throwError(() => new BadRequestException(error.message)))
+    );
+  }
+
+  /**
+   * Updates yield management rules as a new version
    */
   @Put('yield-rules')
   @ApiOperation({ summary: 'Update yield management rules' })
   updateYieldRules(
-    @Body() rules: any
-  ): Observable<{ success: boolean }> {
-    return from(this.pricingService.updateYieldRules(rules)).pipe(
-      map(() => ({ success: true })),
+    @Body() request: UpdateYieldRulesDto
+  ): Observable<YieldRuleSet> {
+    return from(this.pricingService.updateYieldRules(request)).pipe(
       catchError(error => {
         this.logger.error(
           `Yield rules update failed: ${error.message}`,
@@ -210,6 +409,29 @@ export class RateController implements BaseController<Rate> {
     );
   }
 
+  /**
+   * Replays the bookings of a date range under candidate yield rules and seasonal modifiers and
+   * compares projected revenue, ADR and rule hits with the live configuration
+   */
+  @Post('simulations')
+  @ApiOperation({ summary: 'Simulate pricing scenario against bookings' })
+  @ApiBody({ description: 'Date range and candidate pricing scenario' })
+  simulateRates(
+    @Body() request: RateSimulationRequest
+  ): Observable<RateSimulationResult> {
+    return from(this.rateSimulationService.simulate(request)).pipe(
+      catchError(error => {
+        this.logger.error(
+          `Rate simulation failed: ${error.message}`,
+          error.stack
+        );
+        return throwError(() => new BadRequestException(
+          error.message || 'Rate simulation failed'
+        ));
+      })
+    );
+  }
+
   // Implementing required BaseController methods
 
   @Post()
@@ -246,4 +468,25 @@ export class RateController implements BaseController<Rate> {
       catchError(error => throwError(() => new BadRequestException(error.message)))
     );
   }
+
+  /**
+   * Adds the rate converted to the guest's currency; the rate's own figures stay as priced
+   */
+  private async quoteInCurrency(
+    response: RateCalculationResponse,
+    currency: string
+  ): Promise<RateCalculationResponse> {
+    const exchangeRate = await this.exchangeRateService.getRate(response.currencyCode as string, currency);
+
+    return {
+      ...response,
+      quote: {
+        currency,
+        exchangeRate,
+        baseRate: roundToCurrency(response.baseRate * exchangeRate, currency),
+        finalRate: roundToCurrency(response.finalRate * exchangeRate, currency),
+        taxes: roundToCurrency(response.breakdown.taxes * exchangeRate, currency)
+      }
+    };
+  }
 }
\ No newline at end of file
@@ -0,0 +1,58 @@
+/**
+ * @fileoverview Controller exposing room assignment: the automatic run for upcoming arrivals
+ * and manual assignment or removal of a booking's physical room.
+ * @version 1.0.0
+ */
+
+// External imports
+import { Controller, Post, Put, Delete, Body, Param, HttpStatus } from '@nestjs/common'; // v10.0.0
+import { ApiTags, ApiOperation, ApiResponse, ApiParam } from '@nestjs/swagger'; // v7.0.0
+
+// Internal imports
+import { Booking } from '../models/booking.model';
+import {
+  RoomAssignment,
+  RoomAssignmentResult,
+  RoomAssignmentService
+} from '../services/room-assignment.service';
+
+@Controller('room-assignments')
+@ApiTags('Room Assignments')
+export class RoomAssignmentController {
+  constructor(private readonly roomAssignmentService: RoomAssignmentService) {}
+
+  /**
+   * Assigns rooms to confirmed arrivals that do not have one yet
+   */
+  @Post('run')
+  @ApiOperation({ summary: 'Run room assignment for upcoming arrivals' })
+  @ApiResponse({ status: HttpStatus.OK, description: 'Assigned and unassigned arrivals' })
+  async run(@Body() data: { userId: string; daysAhead?: number }): Promise<RoomAssignmentResult> {
+    return this.roomAssignmentService.assignArrivals(data.userId, data.daysAhead);
+  }
+
+  /**
+   * Assigns the requested room, or the best matching room, to a booking
+   */
+  @Put(':bookingId')
+  @ApiOperation({ summary: 'Assign room to booking' })
+  @ApiParam({ name: 'bookingId', required: true })
+  @ApiResponse({ status: HttpStatus.UNPROCESSABLE_ENTITY, description: 'Room does not fit the booking' })
+  @ApiResponse({ status: HttpStatus.CONFLICT, description: 'No matching room available' })
+  async assign(
+    @Param('bookingId') bookingId: string,
+    @Body() data: { userId: string; roomId?: string }
+  ): Promise<RoomAssignment> {
+    return this.roomAssignmentService.assignRoom(bookingId, data.userId, data.roomId);
+  }
+
+  /**
+   * Removes the physical room from a booking, keeping its room-type hold
+   */
+  @Delete(':bookingId')
+  @ApiOperation({ summary: 'Unassign room from booking' })
+  @ApiParam({ name: 'bookingId', required: true })
+  async unassign(@Param('bookingId') bookingId: string, @Body() data: { userId: string }): Promise<Booking> {
+    return this.roomAssignmentService.unassignRoom(bookingId, data.userId);
+  }
+}
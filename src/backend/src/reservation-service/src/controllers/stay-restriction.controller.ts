@@ -0,0 +1,67 @@
+/**
+ * @fileoverview Controller exposing the stay restriction calendar to revenue managers.
+ * @version 1.0.0
+ */
+
+// External imports
+import { Controller, Get, Put, Delete, Body, Query, HttpStatus } from '@nestjs/common'; // v10.0.0
+import { ApiTags, ApiOperation, ApiResponse, ApiQuery } from '@nestjs/swagger'; // v7.0.0
+
+// Internal imports
+import { SetStayRestrictionsDto, StayRestriction } from '../models/stay-restriction.model';
+import { StayRestrictionService } from '../services/stay-restriction.service';
+import { RoomType } from '../../../room-service/src/models/room.model';
+
+/**
+ * Rate, room type and inclusive date range addressed by a calendar query
+ */
+interface RestrictionRangeQuery {
+  rateId: string;
+  roomType?: RoomType;
+  startDate: Date;
+  endDate: Date;
+}
+
+@Controller('restrictions')
+@ApiTags('Stay Restrictions')
+export class StayRestrictionController {
+  constructor(private readonly stayRestrictionService: StayRestrictionService) {}
+
+  /**
+   * Returns the restriction calendar of a rate
+   */
+  @Get()
+  @ApiOperation({ summary: 'Get restriction calendar' })
+  @ApiQuery({ name: 'rateId', required: true })
+  @ApiQuery({ name: 'roomType', required: false })
+  async findCalendar(@Query() query: RestrictionRangeQuery): Promise<StayRestriction[]> {
+    return this.stayRestrictionService.getCalendar(query.rateId, query.roomType, query.startDate, query.endDate);
+  }
+
+  /**
+   * Sets restrictions on a range of dates
+   */
+  @Put()
+  @ApiOperation({ summary: 'Set stay restrictions' })
+  @ApiResponse({ status: HttpStatus.OK, description: 'Updated restriction calendar' })
+  async set(@Body() data: SetStayRestrictionsDto & { userId: string }): Promise<StayRestriction[]> {
+    const { userId, ...restrictions } = data;
+    return this.stayRestrictionService.setRestrictions(restrictions, userId);
+  }
+
+  /**
+   * Removes restrictions from a range of dates
+   */
+  @Delete()
+  @ApiOperation({ summary: 'Clear stay restrictions' })
+  async clear(@Body() data: Required<RestrictionRangeQuery> & { userId: string }): Promise<{ cleared: number }> {
+    const cleared = await this.stayRestrictionService.clearRestrictions(
+      data.rateId,
+      data.roomType,
+      data.startDate,
+      data.endDate,
+      data.userId
+    );
+    return { cleared };
+  }
+}
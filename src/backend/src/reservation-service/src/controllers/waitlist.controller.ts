@@ -0,0 +1,73 @@
+/**
+ * @fileoverview Controller exposing the waitlist for sold-out room types: joining the list,
+ * reviewing entries and handling timed room offers.
+ * @version 1.0.0
+ */
+
+// External imports
+import { Controller, Post, Get, Put, Body, Param, Query, HttpStatus } from '@nestjs/common'; // v10.0.0
+import { ApiTags, ApiOperation, ApiResponse, ApiParam, ApiQuery } from '@nestjs/swagger'; // v7.0.0
+
+// Internal imports
+import { CreateWaitlistEntryDto, WaitlistEntry } from '../models/waitlist.model';
+import { WaitlistFilter, WaitlistService } from '../services/waitlist.service';
+
+@Controller('waitlist')
+@ApiTags('Waitlist')
+export class WaitlistController {
+  constructor(private readonly waitlistService: WaitlistService) {}
+
+  /**
+   * Places a guest on the waitlist for a room type and stay
+   */
+  @Post()
+  @ApiOperation({ summary: 'Join waitlist' })
+  @ApiResponse({ status: HttpStatus.CREATED, description: 'Guest added to waitlist' })
+  @ApiResponse({ status: HttpStatus.BAD_REQUEST, description: 'Invalid stay dates' })
+  async join(@Body() data: CreateWaitlistEntryDto & { userId: string }): Promise<WaitlistEntry> {
+    const { userId, ...entry } = data;
+    return this.waitlistService.joinWaitlist(entry, userId);
+  }
+
+  /**
+   * Lists waitlist entries in the order they will be offered rooms
+   */
+  @Get()
+  @ApiOperation({ summary: 'List waitlist entries' })
+  @ApiQuery({ name: 'roomType', required: false })
+  @ApiQuery({ name: 'status', required: false })
+  async findAll(@Query() filter: WaitlistFilter): Promise<WaitlistEntry[]> {
+    return this.waitlistService.findEntries(filter);
+  }
+
+  /**
+   * Accepts the room currently offered to an entry
+   */
+  @Put(':id/accept')
+  @ApiOperation({ summary: 'Accept waitlist offer' })
+  @ApiParam({ name: 'id', required: true })
+  @ApiResponse({ status: HttpStatus.UNPROCESSABLE_ENTITY, description: 'No open offer' })
+  async accept(@Param('id') id: string, @Body() data: { userId: string }): Promise<WaitlistEntry> {
+    return this.waitlistService.acceptOffer(id, data.userId);
+  }
+
+  /**
+   * Declines the room currently offered to an entry
+   */
+  @Put(':id/decline')
+  @ApiOperation({ summary: 'Decline waitlist offer' })
+  @ApiParam({ name: 'id', required: true })
+  async decline(@Param('id') id: string, @Body() data: { userId: string }): Promise<WaitlistEntry> {
+    return this.waitlistService.declineOffer(id, data.userId);
+  }
+
+  /**
+   * Removes a guest from the waitlist
+   */
+  @Put(':id/cancel')
+  @ApiOperation({ summary: 'Cancel waitlist entry' })
+  @ApiParam({ name: 'id', required: true })
+  async cancel(@Param('id') id: string, @Body() data: { userId: string }): Promise<WaitlistEntry> {
+    return this.waitlistService.cancelEntry(id, data.userId);
+  }
+}
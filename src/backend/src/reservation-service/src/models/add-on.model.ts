@@ -0,0 +1,148 @@
+/**
+ * @fileoverview Defines the add-on catalog sold with bookings (breakfast, parking, spa), its
+ * optional daily inventory and the add-on lines a booking carries for each service date.
+ * @version 1.0.0
+ */
+
+// External imports
+import { UUID } from 'crypto';
+
+// Internal imports
+import { BaseModel } from '../../../shared/interfaces/base-model.interface';
+import { TaxLine } from '../../../shared/models/tax.model';
+
+/**
+ * Reference prefix of the folio charges posted for add-ons
+ */
+export const ADD_ON_REFERENCE_PREFIX = 'AO';
+
+/**
+ * How an add-on's price is multiplied over a stay
+ */
+export enum AddOnPricing {
+  /** Once per stay, e.g. a spa treatment */
+  PER_STAY = 'PER_STAY',
+  /** Every night of the stay, e.g. parking */
+  PER_NIGHT = 'PER_NIGHT',
+  /** Once per guest, e.g. a welcome dinner */
+  PER_PERSON = 'PER_PERSON',
+  /** Every night for every guest, e.g. breakfast */
+  PER_PERSON_PER_NIGHT = 'PER_PERSON_PER_NIGHT'
+}
+
+/**
+ * Product sold with bookings
+ */
+export interface AddOn extends BaseModel {
+  /** Short code used in folio references, e.g. BRKF */
+  code: string;
+  name: string;
+  description: string | null;
+  pricing: AddOnPricing;
+  /** Price of one unit before tax */
+  price: number;
+  /** Folio charge category; also picks the tax rules */
+  chargeCategory: string;
+  /** Department the revenue is posted to, e.g. F&B */
+  department: string;
+  /** Units that can be sold per service date, e.g. parking spaces; unlimited when null */
+  dailyLimit: number | null;
+  isActive: boolean;
+}
+
+/**
+ * Request adding an add-on to the catalog
+ */
+export type CreateAddOnDto = Omit<AddOn, keyof BaseModel | 'isActive' | 'description' | 'dailyLimit'> & {
+  description?: string | null;
+  dailyLimit?: number | null;
+};
+
+/**
+ * Units of an add-on held on one service date
+ */
+export interface AddOnInventory extends BaseModel {
+  addOnId: UUID;
+  date: Date;
+  allocatedUnits: number;
+}
+
+/**
+ * Remaining units of an add-on on one service date
+ */
+export interface AddOnAvailability {
+  addOnId: UUID;
+  date: Date;
+  /** Null when the add-on is unlimited */
+  dailyLimit: number | null;
+  allocatedUnits: number;
+  availableUnits: number | null;
+}
+
+/**
+ * Add-on of a package rate, included in its nightly price
+ */
+export interface PackageInclusion {
+  addOnId: UUID;
+  /** Units per pricing period; 1 when absent */
+  quantity?: number;
+}
+
+/**
+ * Add-on chosen for a booking
+ */
+export interface AddOnSelection {
+  addOnId: UUID;
+  /** Units per pricing period, e.g. two parking spaces; 1 when absent */
+  quantity?: number;
+  /** Day a per-stay or per-person add-on is served; the arrival date when absent */
+  serviceDate?: Date;
+}
+
+/**
+ * Stay an add-on is priced for
+ */
+export interface AddOnStay {
+  rateId?: UUID;
+  checkInDate: Date;
+  checkOutDate: Date;
+  numberOfGuests: number;
+}
+
+/**
+ * Add-on served on one date of a booking, posted to the folio by the night audit of that date
+ */
+export interface BookingAddOn extends BaseModel {
+  bookingId: UUID;
+  addOnId: UUID;
+  code: string;
+  name: string;
+  serviceDate: Date;
+  /** Units served on the date, guests included for per-person add-ons */
+  units: number;
+  unitPrice: number;
+  /** Part of a package rate: priced in the room rate and not posted on its own */
+  included: boolean;
+  chargeCategory: string;
+  department: string;
+  /** Price before tax */
+  amount: number;
+  taxAmount: number;
+  taxLines: TaxLine[];
+  totalAmount: number;
+}
+
+/**
+ * Add-on line before it is stored with a booking
+ */
+export type AddOnLine = Omit<BookingAddOn, keyof BaseModel | 'bookingId'>;
+
+/**
+ * Priced add-ons of a stay
+ */
+export interface AddOnQuote {
+  lines: AddOnLine[];
+  amount: number;
+  taxAmount: number;
+  totalAmount: number;
+}
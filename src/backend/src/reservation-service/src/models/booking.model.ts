@@ -5,13 +5,21 @@
  */
 
 // External imports - v5.0.0
-import { PrismaClient } from '@prisma/client';
+import { Prisma, PrismaClient } from '@prisma/client';
 import { Logger } from 'winston';  // v3.8.2
 import { MetricsCollector } from '@opentelemetry/metrics'; // v1.12.0
 import { UUID } from 'crypto';
 
 // Internal imports
 import { BaseModel } from '../../../shared/interfaces/base-model.interface';
+import { RoomType } from '../../../room-service/src/models/room.model';
+import { InventoryService } from '../services/inventory.service';
+import { GroupBlockStatus } from './group-block.model';
+import { NightlyRate, ReservationRate } from './reservation-rate.model';
+import { AddOnLine, BookingAddOn } from './add-on.model';
+import { AddOnService } from '../services/add-on.service';
+import { PromoCode, PromoRedemption } from './promotion.model';
+import { PromotionService } from '../services/promotion.service';
 
 /**
  * Enum defining all possible booking statuses with comprehensive lifecycle tracking
@@ -25,9 +33,27 @@ export enum BookingStatus {
   NO_SHOW = 'NO_SHOW',
   PENDING_CONFIRMATION = 'PENDING_CONFIRMATION',
   PENDING_PAYMENT = 'PENDING_PAYMENT',
-  ON_HOLD = 'ON_HOLD'
+  ON_HOLD = 'ON_HOLD',
+  WAITING_LIST = 'WAITING_LIST'
 }
 
+/**
+ * Booking statuses that occupy room inventory for their stay dates
+ */
+export const INVENTORY_HOLDING_STATUSES = [
+  BookingStatus.PENDING,
+  BookingStatus.PENDING_PAYMENT,
+  BookingStatus.CONFIRMED,
+  BookingStatus.CHECKED_IN,
+  BookingStatus.PENDING_CONFIRMATION,
+  BookingStatus.ON_HOLD
+];
+
+/**
+ * Booking statuses that return held inventory when a booking moves into them
+ */
+const RELEASING_STATUSES = [BookingStatus.CANCELLED, BookingStatus.NO_SHOW];
+
 /**
  * Enum defining payment status tracking for bookings
  */
@@ -65,7 +91,13 @@ interface SpecialRequests {
  */
 export interface Booking extends BaseModel {
   guestId: UUID;
-  roomId: UUID;
+  roomType: RoomType;
+  /** Physical room, assigned close to arrival by the room assignment engine */
+  roomId: UUID | null;
+  /** Booking in the same party whose room must connect to this one */
+  connectingBookingId?: UUID | null;
+  /** Group block the booking was picked up from */
+  groupBlockId?: UUID | null;
   rateId: UUID;
   bookingNumber: string;
   status: BookingStatus;
@@ -81,6 +113,12 @@ export interface Booking extends BaseModel {
   cancellationReason?: string;
   cancellationDate?: Date;
   cancellationFee?: number;
+  /** Price of every night, fixed when the booking was priced */
+  nightlyRates?: ReservationRate[];
+  /** Add-ons served on each date of the stay, priced when booked */
+  addOns?: BookingAddOn[];
+  /** Promotion codes applied when the booking was made */
+  promoRedemptions?: PromoRedemption[];
   auditTrail: AuditEntry[];
   lastModifiedBy: string;
 }
@@ -101,8 +139,17 @@ export class BookingModel {
   private readonly prisma: PrismaClient;
   private readonly logger: Logger;
   private readonly metrics: MetricsCollector;
+  private readonly inventory: InventoryService;
+  private readonly addOns: AddOnService;
+  private readonly promotions: PromotionService;
 
-  constructor(logger: Logger, metrics: MetricsCollector) {
+  constructor(
+    logger: Logger,
+    metrics: MetricsCollector,
+    inventory?: InventoryService,
+    addOns?: AddOnService,
+    promotions?: PromotionService
+  ) {
     this.prisma = new PrismaClient({
       log: ['error', 'warn'],
       errorFormat: 'minimal',
@@ -110,24 +157,35 @@ export class BookingModel {
     });
     this.logger = logger;
     this.metrics = metrics;
+    this.inventory = inventory || new InventoryService(this.prisma);
+    this.addOns = addOns || new AddOnService(this.prisma);
+    this.promotions = promotions || new PromotionService(this.prisma);
   }
 
   /**
    * Creates a new booking with comprehensive validation and transaction support
+   * @param client - Transaction to create the booking in, with the changes that go with it
    */
-  async create(data: Omit<Booking, keyof BaseModel>, options?: TransactionOptions): Promise<Booking> {
+  async create(
+    data: Omit<Booking, keyof BaseModel | 'nightlyRates' | 'addOns' | 'promoRedemptions'> & {
+      nightlyRates?: NightlyRate[];
+      addOns?: AddOnLine[];
+      promotions?: PromoCode[];
+    },
+    options?: TransactionOptions,
+    client?: Prisma.TransactionClient
+  ): Promise<Booking> {
     const startTime = Date.now();
+    const { nightlyRates, addOns, promotions, ...bookingData } = data;
     
     try {
-      return await this.prisma.$transaction(async (tx) => {
-        // Validate room availability
-        const room = await tx.room.findUnique({
-          where: { id: data.roomId },
-          select: { status: true, baseRate: true },
-        });
+      return await this.inTransaction(client, async (tx) => {
+        // Hold one room of the requested type for every night; the physical room is assigned near arrival
+        await this.inventory.allocate(data.roomType, data.checkInDate, data.checkOutDate, 1, tx);
 
-        if (!room || room.status !== 'AVAILABLE') {
-          throw new Error('Room not available for booking');
+        // Hold the add-on units on their service dates
+        if (addOns?.length) {
+          await this.addOns.allocate(addOns, tx);
         }
 
         // Generate unique booking number
@@ -136,7 +194,7 @@ export class BookingModel {
         // Create booking record with audit trail
         const booking = await tx.booking.create({
           data: {
-            ...data,
+            ...bookingData,
             bookingNumber,
             status: BookingStatus.PENDING,
             paymentStatus: PaymentStatus.UNPAID,
@@ -146,16 +204,18 @@ export class BookingModel {
               userId: data.lastModifiedBy,
               changes: { status: 'PENDING' }
             }],
+            ...(nightlyRates && { nightlyRates: { create: nightlyRates } }),
+            ...(addOns?.length && { addOns: { create: addOns } }),
             createdAt: new Date(),
             updatedAt: new Date(),
-          }
+          },
+          include: { nightlyRates: true, addOns: true }
         });
 
-        // Update room status
-        await tx.room.update({
-          where: { id: data.roomId },
-          data: { status: 'BOOKED' }
-        });
+        // Count the promotion codes against their caps with the booking
+        if (promotions?.length) {
+          booking.promoRedemptions = await this.promotions.redeem(promotions, booking, nightlyRates ?? [], tx);
+        }
 
         this.metrics.recordMetric('booking_creation_duration', Date.now() - startTime);
         this.logger.info(`Booking created successfully: ${bookingNumber}`);
@@ -175,10 +235,16 @@ export class BookingModel {
 
   /**
    * Updates an existing booking with status transition validation
+   * @param client - Transaction to update the booking in, with the changes that go with it
    */
-  async update(id: UUID, data: Partial<Booking>, options?: TransactionOptions): Promise<Booking> {
+  async update(
+    id: UUID,
+    data: Partial<Booking>,
+    options?: TransactionOptions,
+    client?: Prisma.TransactionClient
+  ): Promise<Booking> {
     try {
-      return await this.prisma.$transaction(async (tx) => {
+      return await this.inTransaction(client, async (tx) => {
         const existingBooking = await tx.booking.findUnique({
           where: { id }
         });
@@ -192,6 +258,34 @@ export class BookingModel {
           this.validateStatusTransition(existingBooking.status as BookingStatus, data.status as BookingStatus);
         }
 
+        // Cancelled and no-show bookings give their nights back to their group block while it
+        // is still active, otherwise to room-type inventory
+        if (
+          data.status &&
+          RELEASING_STATUSES.includes(data.status) &&
+          INVENTORY_HOLDING_STATUSES.includes(existingBooking.status as BookingStatus) &&
+          !(await this.returnToGroupBlock(tx, existingBooking as Booking))
+        ) {
+          await this.inventory.release(existingBooking.roomType as RoomType, existingBooking.checkInDate, existingBooking.checkOutDate, 1, tx);
+        }
+
+        // Add-on units go back to their daily inventory either way
+        if (
+          data.status &&
+          RELEASING_STATUSES.includes(data.status) &&
+          INVENTORY_HOLDING_STATUSES.includes(existingBooking.status as BookingStatus)
+        ) {
+          await this.addOns.release(id, tx);
+        }
+
+        // A cancelled booking gives its promotion codes back to their caps
+        if (
+          data.status === BookingStatus.CANCELLED &&
+          INVENTORY_HOLDING_STATUSES.includes(existingBooking.status as BookingStatus)
+        ) {
+          await this.promotions.reverse(id, tx);
+        }
+
         // Update booking with audit trail
         const updatedBooking = await tx.booking.update({
           where: { id },
@@ -222,20 +316,47 @@ export class BookingModel {
     }
   }
 
+  /**
+   * Returns the price of every night of a booking in date order
+   */
+  async findNightlyRates(id: string): Promise<ReservationRate[]> {
+    return this.prisma.reservationRate.findMany({
+      where: { reservationId: id },
+      orderBy: { date: 'asc' }
+    }) as Promise<ReservationRate[]>;
+  }
+
+  /**
+   * Runs the work in the caller's transaction when one is given, otherwise in a new one
+   */
+  private async inTransaction<T>(
+    client: Prisma.TransactionClient | undefined,
+    work: (tx: Prisma.TransactionClient) => Promise<T>,
+    options: { timeout: number; maxWait?: number; isolation: string }
+  ): Promise<T> {
+    return client ? work(client) : this.prisma.$transaction(work, options);
+  }
+
   /**
    * Validates booking status transitions
    */
   private validateStatusTransition(currentStatus: BookingStatus, newStatus: BookingStatus): void {
     const validTransitions = {
-      [BookingStatus.PENDING]: [BookingStatus.CONFIRMED, BookingStatus.CANCELLED],
-      [BookingStatus.CONFIRMED]: [BookingStatus.CHECKED_IN, BookingStatus.CANCELLED, BookingStatus.NO_SHOW],
+      [BookingStatus.PENDING]: [BookingStatus.CONFIRMED, BookingStatus.PENDING_PAYMENT, BookingStatus.CANCELLED],
+      [BookingStatus.CONFIRMED]: [
+        BookingStatus.CHECKED_IN,
+        BookingStatus.CANCELLED,
+        BookingStatus.NO_SHOW,
+        BookingStatus.PENDING_PAYMENT
+      ],
       [BookingStatus.CHECKED_IN]: [BookingStatus.CHECKED_OUT],
       [BookingStatus.CHECKED_OUT]: [],
       [BookingStatus.CANCELLED]: [],
       [BookingStatus.NO_SHOW]: [],
       [BookingStatus.PENDING_CONFIRMATION]: [BookingStatus.CONFIRMED, BookingStatus.CANCELLED],
       [BookingStatus.PENDING_PAYMENT]: [BookingStatus.CONFIRMED, BookingStatus.CANCELLED],
-      [BookingStatus.ON_HOLD]: [BookingStatus.PENDING, BookingStatus.CANCELLED]
+      [BookingStatus.ON_HOLD]: [BookingStatus.PENDING, BookingStatus.CONFIRMED, BookingStatus.CANCELLED],
+      [BookingStatus.WAITING_LIST]: [BookingStatus.ON_HOLD, BookingStatus.CANCELLED]
     };
 
     if (!validTransitions[currentStatus].includes(newStatus)) {
@@ -243,6 +364,36 @@ export class BookingModel {
     }
   }
 
+  /**
+   * Returns a group booking's nights to its block's pickup while the block still holds its rooms
+   * @returns Whether the nights went back to the block
+   */
+  private async returnToGroupBlock(tx: Prisma.TransactionClient, booking: Booking): Promise<boolean> {
+    if (!booking.groupBlockId) {
+      return false;
+    }
+
+    const block = await tx.groupBlock.findUnique({
+      where: { id: booking.groupBlockId },
+      select: { status: true }
+    });
+    if (block?.status !== GroupBlockStatus.ACTIVE) {
+      return false;
+    }
+
+    await tx.groupBlockAllotment.updateMany({
+      where: {
+        groupBlockId: booking.groupBlockId,
+        roomType: booking.roomType,
+        date: { gte: booking.checkInDate, lt: booking.checkOutDate },
+        pickedUpRooms: { gte: 1 }
+      },
+      data: { pickedUpRooms: { decrement: 1 } }
+    });
+
+    return true;
+  }
+
   /**
    * Generates a unique booking number
    */
@@ -0,0 +1,110 @@
+/**
+ * @fileoverview Cancellation policy model attached to rates, describing the free-cancellation
+ * window and the penalties charged on late cancellation and no-show.
+ * @version 1.0.0
+ */
+
+// External imports
+import { UUID } from 'crypto';
+
+/**
+ * Prefix of folio charge references posted for late-cancellation penalties
+ */
+export const CANCELLATION_PENALTY_REFERENCE_PREFIX = 'CXL';
+
+/**
+ * Prefix of folio charge references posted for no-show penalties
+ */
+export const NO_SHOW_PENALTY_REFERENCE_PREFIX = 'NOSHOW';
+
+/**
+ * How a penalty is measured against the stay
+ */
+export enum CancellationPenaltyType {
+  /** No charge */
+  NONE = 'NONE',
+  /** A number of nights at the stay's average nightly amount */
+  NIGHTS = 'NIGHTS',
+  /** A percentage of the stay total */
+  PERCENTAGE = 'PERCENTAGE',
+  /** The whole stay */
+  FULL_STAY = 'FULL_STAY'
+}
+
+/**
+ * Event the policy is evaluated for
+ */
+export enum PenaltyTrigger {
+  CANCELLATION = 'CANCELLATION',
+  NO_SHOW = 'NO_SHOW'
+}
+
+/**
+ * Penalty rule; the value is a night count for NIGHTS and a percentage for PERCENTAGE
+ */
+export interface CancellationPenalty {
+  type: CancellationPenaltyType;
+  value: number;
+}
+
+/**
+ * Cancellation policy carried by a rate. A non-refundable rate has no free window and charges
+ * the full stay.
+ */
+export interface CancellationPolicy {
+  /** Cancellations made at least this many hours before arrival are free */
+  freeCancellationHours: number;
+  /** Penalty for cancellations outside the free window */
+  cancellationPenalty: CancellationPenalty;
+  /** Penalty when the guest does not arrive */
+  noShowPenalty: CancellationPenalty;
+  description?: string;
+}
+
+/**
+ * Policy applied to rates that carry none: free until 24 hours before arrival, then one night
+ */
+export const DEFAULT_CANCELLATION_POLICY: CancellationPolicy = {
+  freeCancellationHours: 24,
+  cancellationPenalty: { type: CancellationPenaltyType.NIGHTS, value: 1 },
+  noShowPenalty: { type: CancellationPenaltyType.NIGHTS, value: 1 },
+  description: 'Free cancellation until 24 hours before arrival, then one night'
+};
+
+/**
+ * Penalty owed for a cancellation or no-show, before it is posted
+ */
+export interface PenaltyAssessment {
+  bookingId: UUID;
+  trigger: PenaltyTrigger;
+  policy: CancellationPolicy;
+  /** Whether the event fell inside the free-cancellation window */
+  withinFreeWindow: boolean;
+  /** Penalty including tax */
+  fee: number;
+  taxAmount: number;
+  assessedAt: Date;
+}
+
+/**
+ * Refund of deposit in excess of the penalty against one captured payment
+ */
+export interface PenaltyRefund {
+  paymentId: UUID;
+  transactionId: string;
+  amount: number;
+  success: boolean;
+  errorMessage?: string;
+}
+
+/**
+ * Result of posting a penalty and returning the excess deposit
+ */
+export interface PenaltySettlement {
+  assessment: PenaltyAssessment;
+  /** Folio charge carrying the penalty; null when there is no fee or no open folio */
+  folioChargeId: string | null;
+  /** Deposit captured against the booking before any refund */
+  depositHeld: number;
+  refunds: PenaltyRefund[];
+}
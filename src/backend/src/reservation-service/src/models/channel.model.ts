@@ -0,0 +1,232 @@
+/**
+ * @fileoverview Channel manager model: distribution channels, the ARI (availability, rates and
+ * inventory restrictions) outbox feeding them and the OTA reservations received from them.
+ * @version 1.0.0
+ */
+
+// External imports
+import { UUID } from 'crypto';
+
+// Internal imports
+import { BaseModel } from '../../../shared/interfaces/base-model.interface';
+import { RoomType } from '../../../room-service/src/models/room.model';
+import { ErrorCode } from '../../../shared/constants/error-codes';
+
+/**
+ * Channel a booking was sold through, recorded as the booking source
+ */
+export enum DistributionChannel {
+  DIRECT = 'DIRECT',
+  OTA = 'OTA',
+  GDS = 'GDS',
+  CORPORATE = 'CORPORATE',
+  WHOLESALE = 'WHOLESALE',
+  MOBILE_APP = 'MOBILE_APP'
+}
+
+/**
+ * Channels connected through the channel manager; direct and app bookings read inventory live
+ */
+export const CONNECTED_CHANNELS: DistributionChannel[] = [
+  DistributionChannel.OTA,
+  DistributionChannel.GDS,
+  DistributionChannel.CORPORATE,
+  DistributionChannel.WHOLESALE
+];
+
+/**
+ * Kind of ARI change pushed to a channel
+ */
+export enum AriUpdateType {
+  AVAILABILITY = 'AVAILABILITY',
+  RATE = 'RATE',
+  RESTRICTION = 'RESTRICTION'
+}
+
+/**
+ * Delivery state of an outbox message
+ */
+export enum ChannelOutboxStatus {
+  PENDING = 'PENDING',
+  SENT = 'SENT',
+  /** Gave up after the maximum number of attempts; retried by hand */
+  FAILED = 'FAILED'
+}
+
+/**
+ * Days ahead the channels sell, covered by full rate and inventory syncs
+ */
+export const ARI_HORIZON_DAYS = 365;
+
+/**
+ * Delivery attempts before an outbox message is marked failed
+ */
+export const MAX_OUTBOX_ATTEMPTS = 8;
+
+/**
+ * Dates an ARI change affects. Only the range is queued: the values pushed are read when the
+ * message is sent, so a delayed message never overwrites a channel with stale data.
+ */
+export interface AriDelta {
+  type: AriUpdateType;
+  /** Room type whose availability or restrictions changed */
+  roomType?: RoomType | null;
+  /** Rate whose prices or restrictions changed */
+  rateId?: string | null;
+  startDate: Date;
+  /** Last affected date, inclusive */
+  endDate: Date;
+}
+
+/**
+ * ARI change waiting to be pushed to one channel
+ */
+export interface ChannelOutboxMessage extends BaseModel {
+  channel: DistributionChannel;
+  type: AriUpdateType;
+  roomType: RoomType | null;
+  rateId: UUID | null;
+  startDate: Date;
+  endDate: Date;
+  status: ChannelOutboxStatus;
+  attempts: number;
+  /** Earliest time of the next delivery attempt */
+  nextAttemptAt: Date;
+  lastError: string | null;
+  sentAt: Date | null;
+}
+
+/**
+ * Availability of a room type on one date as pushed to a channel
+ */
+export interface AvailabilityUpdate {
+  date: string;
+  roomType: RoomType;
+  available: number;
+}
+
+/**
+ * Price of one night on a rate as pushed to a channel
+ */
+export interface RateUpdate {
+  date: string;
+  rateId: string;
+  amount: number;
+  taxAmount: number;
+  currencyCode: string;
+}
+
+/**
+ * Stay restrictions of a rate and room type on one date as pushed to a channel
+ */
+export interface RestrictionUpdate {
+  date: string;
+  rateId: string;
+  roomType: RoomType | null;
+  minimumLOS: number | null;
+  maximumLOS: number | null;
+  closedToArrival: boolean;
+  closedToDeparture: boolean;
+}
+
+/**
+ * One ARI push to a channel
+ */
+export interface AriMessage {
+  channel: DistributionChannel;
+  type: AriUpdateType;
+  updates: Array<AvailabilityUpdate | RateUpdate | RestrictionUpdate>;
+}
+
+/**
+ * What an OTA reservation message does to the booking
+ */
+export enum OtaReservationAction {
+  NEW = 'NEW',
+  MODIFY = 'MODIFY',
+  CANCEL = 'CANCEL'
+}
+
+/**
+ * Reservation, modification or cancellation received from a channel
+ */
+export interface OtaReservation {
+  action: OtaReservationAction;
+  /** Channel confirmation number, unique per channel */
+  confirmationNumber: string;
+  /** Increases with every message about the reservation; older revisions are ignored */
+  revision: number;
+  /** Guest profile the channel manager matched or created for the booker */
+  guestId: UUID;
+  guestName: string;
+  roomType: RoomType;
+  rateId: UUID;
+  checkInDate: Date;
+  checkOutDate: Date;
+  numberOfGuests: number;
+  /** Amount the channel sold the stay for, tax included */
+  totalAmount: number;
+  currencyCode: string;
+  specialRequests?: string;
+  cancellationReason?: string;
+}
+
+/**
+ * State of a reservation received from a channel
+ */
+export enum ChannelReservationStatus {
+  ACTIVE = 'ACTIVE',
+  CANCELLED = 'CANCELLED'
+}
+
+/**
+ * Booking created from a channel reservation, unique on channel and confirmation number
+ */
+export interface ChannelReservation extends BaseModel {
+  channel: DistributionChannel;
+  confirmationNumber: string;
+  /** Null while the booking is being created */
+  bookingId: UUID | null;
+  /** Latest revision applied */
+  revision: number;
+  status: ChannelReservationStatus;
+  guestName: string;
+  /** Amount the channel last quoted, tax included */
+  channelAmount: number;
+  currencyCode: string;
+}
+
+/**
+ * Outcome of ingesting an OTA reservation message
+ */
+export enum OtaIngestStatus {
+  CREATED = 'CREATED',
+  MODIFIED = 'MODIFIED',
+  CANCELLED = 'CANCELLED',
+  /** Already applied; nothing changed */
+  DUPLICATE = 'DUPLICATE',
+  REJECTED = 'REJECTED'
+}
+
+/**
+ * Result of ingesting one OTA reservation message, acknowledged back to the channel
+ */
+export interface OtaIngestResult {
+  channel: DistributionChannel;
+  confirmationNumber: string;
+  status: OtaIngestStatus;
+  bookingId?: string;
+  error?: string;
+  /** Why the message was rejected */
+  errorCode?: ErrorCode;
+}
+
+/**
+ * Result of one outbox dispatch run
+ */
+export interface ChannelDispatchRun {
+  sent: number;
+  failed: number;
+  /** Channels that could not be reached; their messages wait for the next run */
+  unreachableChannels: DistributionChannel[];
+}
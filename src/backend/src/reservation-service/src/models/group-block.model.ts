@@ -0,0 +1,122 @@
+/**
+ * @fileoverview Group block model for weddings, conferences and tour groups. A block holds a
+ * contracted number of rooms per room type per night under a group code and rate; rooms not
+ * picked up by the cutoff date return to general inventory.
+ * @version 1.0.0
+ */
+
+// External imports
+import { UUID } from 'crypto';
+
+// Internal imports
+import { BaseModel } from '../../../shared/interfaces/base-model.interface';
+import { RoomType } from '../../../room-service/src/models/room.model';
+
+/**
+ * Lifecycle of a group block
+ */
+export enum GroupBlockStatus {
+  /** Contracted rooms are held for the group */
+  ACTIVE = 'ACTIVE',
+  /** Cutoff passed; unpicked rooms were returned to general inventory */
+  RELEASED = 'RELEASED',
+  CANCELLED = 'CANCELLED'
+}
+
+/**
+ * Rooms of one type held for the group on one night
+ */
+export interface GroupBlockAllotment extends BaseModel {
+  groupBlockId: UUID;
+  roomType: RoomType;
+  /** Night of stay (midnight, property time) */
+  date: Date;
+  contractedRooms: number;
+  /** Rooms taken by rooming-list bookings */
+  pickedUpRooms: number;
+  /** Unpicked rooms returned to general inventory at cutoff or cancellation */
+  releasedRooms: number;
+}
+
+/**
+ * Group block with its per-night allotments
+ */
+export interface GroupBlock extends BaseModel {
+  groupCode: string;
+  name: string;
+  /** Rate of type `GROUP` applied to every booking in the block */
+  rateId: UUID;
+  /** Last day rooms can be picked up; unpicked rooms are released after it */
+  cutoffDate: Date;
+  status: GroupBlockStatus;
+  contactName?: string;
+  contactEmail?: string;
+  notes?: string;
+  releasedAt: Date | null;
+  allotments: GroupBlockAllotment[];
+  createdBy: string;
+}
+
+/**
+ * Data required to contract a group block
+ */
+export interface CreateGroupBlockDto {
+  groupCode: string;
+  name: string;
+  rateId: UUID;
+  cutoffDate: Date;
+  contactName?: string;
+  contactEmail?: string;
+  notes?: string;
+  allotments: { roomType: RoomType; date: Date; rooms: number }[];
+}
+
+/**
+ * One guest row of a rooming list
+ */
+export interface RoomingListEntry {
+  guestId: UUID;
+  roomType: RoomType;
+  checkInDate: Date;
+  checkOutDate: Date;
+  numberOfGuests: number;
+  specialRequests?: Record<string, unknown>;
+}
+
+/**
+ * Outcome of a rooming-list import; rows are booked independently
+ */
+export interface RoomingListResult {
+  created: { row: number; bookingId: UUID; bookingNumber: string }[];
+  rejected: { row: number; guestId: UUID; reason: string }[];
+}
+
+/**
+ * Contracted versus picked-up rooms for one room type on one night
+ */
+export interface GroupPickupLine {
+  roomType: RoomType;
+  date: Date;
+  contractedRooms: number;
+  pickedUpRooms: number;
+  releasedRooms: number;
+  remainingRooms: number;
+}
+
+/**
+ * Pickup report for a group block
+ */
+export interface GroupPickupReport {
+  groupBlockId: UUID;
+  groupCode: string;
+  status: GroupBlockStatus;
+  cutoffDate: Date;
+  lines: GroupPickupLine[];
+  totals: {
+    contractedRoomNights: number;
+    pickedUpRoomNights: number;
+    releasedRoomNights: number;
+    /** Picked-up share of contracted room nights, in percent */
+    pickupPercent: number;
+  };
+}
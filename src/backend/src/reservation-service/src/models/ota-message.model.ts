@@ -0,0 +1,79 @@
+/**
+ * @fileoverview OpenTravel Alliance (OTA) message model: supported message types and the error
+ * and warning codes returned in their responses.
+ * @version 1.0.0
+ */
+
+/**
+ * OpenTravel namespace of requests and responses
+ */
+export const OTA_NAMESPACE = 'http://www.opentravel.org/OTA/2003/05';
+
+/**
+ * Supported OTA request messages
+ */
+export enum OtaMessageType {
+  HOTEL_RES_NOTIF = 'OTA_HotelResNotifRQ',
+  HOTEL_AVAIL_NOTIF = 'OTA_HotelAvailNotifRQ',
+  HOTEL_RATE_AMOUNT_NOTIF = 'OTA_HotelRateAmountNotifRQ'
+}
+
+/**
+ * OTA error and warning types (EWT code list)
+ */
+export enum OtaErrorType {
+  UNKNOWN = '1',
+  NO_IMPLEMENTATION = '2',
+  BUSINESS_RULE = '3',
+  PROTOCOL_VIOLATION = '7',
+  REQUIRED_FIELD_MISSING = '10',
+  ADVISORY = '11',
+  PROCESSING_EXCEPTION = '12'
+}
+
+/**
+ * OTA error codes (ERR code list)
+ */
+export enum OtaErrorCode {
+  INVALID_DATE = '15',
+  INVALID_CURRENCY_CODE = '61',
+  BOOKING_ALREADY_CANCELLED = '95',
+  INVALID_CONFIRMATION_NUMBER = '245',
+  INVALID_RATE_CODE = '249',
+  REQUIRED_FIELD_MISSING = '321',
+  NO_AVAILABILITY = '322',
+  INVALID_HOTEL_CODE = '392',
+  INVALID_ROOM_TYPE = '402',
+  SYSTEM_ERROR = '448',
+  UNABLE_TO_PROCESS = '450'
+}
+
+/**
+ * Error or warning element of an OTA response
+ */
+export interface OtaNotice {
+  type: OtaErrorType;
+  code?: OtaErrorCode;
+  message: string;
+  /** Reservation confirmation number or status message the notice is about */
+  recordId?: string;
+}
+
+/**
+ * Reservation acknowledged in an OTA_HotelResNotifRS
+ */
+export interface OtaReservationReference {
+  confirmationNumber: string;
+  bookingId: string;
+}
+
+/**
+ * Outcome of an OTA request, rendered as its RS message. Any error fails the whole request:
+ * nothing is applied from a request failing validation, and reservations applied before a
+ * later one failed are reported as duplicates when the request is sent again.
+ */
+export interface OtaMessageResult {
+  errors: OtaNotice[];
+  warnings: OtaNotice[];
+  reservations: OtaReservationReference[];
+}
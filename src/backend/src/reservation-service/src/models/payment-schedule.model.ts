@@ -0,0 +1,102 @@
+/**
+ * @fileoverview Payment schedule model holding the deposit installments a booking owes under its
+ * rate's deposit policy, and the deposit policy carried by rates.
+ * @version 1.0.0
+ */
+
+// External imports
+import { UUID } from 'crypto';
+
+// Internal imports
+import { BaseModel } from '../../../shared/interfaces/base-model.interface';
+
+/**
+ * How a deposit installment is measured against the stay
+ */
+export enum DepositRuleType {
+  /** The stay's average nightly amount */
+  FIRST_NIGHT = 'FIRST_NIGHT',
+  /** A percentage of the stay total */
+  PERCENTAGE = 'PERCENTAGE',
+  /** Whatever is left of the stay total after earlier installments */
+  FULL_PREPAY = 'FULL_PREPAY'
+}
+
+/**
+ * Whether a due installment is only authorized as a guarantee or captured outright
+ */
+export enum DepositCollectionMode {
+  AUTHORIZE = 'AUTHORIZE',
+  CAPTURE = 'CAPTURE'
+}
+
+/**
+ * Lifecycle of a single installment
+ */
+export enum InstallmentStatus {
+  SCHEDULED = 'SCHEDULED',
+  AUTHORIZED = 'AUTHORIZED',
+  CAPTURED = 'CAPTURED',
+  FAILED = 'FAILED',
+  CANCELLED = 'CANCELLED'
+}
+
+/**
+ * Installment statuses that satisfy the deposit requirement
+ */
+export const SETTLED_INSTALLMENT_STATUSES = [InstallmentStatus.AUTHORIZED, InstallmentStatus.CAPTURED];
+
+/**
+ * Installment statuses still to be collected
+ */
+export const OUTSTANDING_INSTALLMENT_STATUSES = [InstallmentStatus.SCHEDULED, InstallmentStatus.FAILED];
+
+/**
+ * Deposit rule of a rate. The installment falls due at the earlier of the two offsets; with
+ * neither set it is due on the booking date.
+ */
+export interface DepositRule {
+  type: DepositRuleType;
+  /** Percentage of the stay total for PERCENTAGE rules */
+  value?: number;
+  collectionMode: DepositCollectionMode;
+  dueDaysAfterBooking?: number;
+  dueDaysBeforeArrival?: number;
+}
+
+/**
+ * Deposit policy carried by a rate; rules become installments in order
+ */
+export interface DepositPolicy {
+  rules: DepositRule[];
+  description?: string;
+}
+
+/**
+ * One installment of a booking's payment schedule
+ */
+export interface PaymentInstallment extends BaseModel {
+  scheduleId: UUID;
+  sequence: number;
+  amount: number;
+  dueDate: Date;
+  collectionMode: DepositCollectionMode;
+  status: InstallmentStatus;
+  /** Gateway transaction of the last successful authorization or capture */
+  transactionId: string | null;
+  attempts: number;
+  lastError: string | null;
+  collectedAt: Date | null;
+}
+
+/**
+ * Deposit installments owed by a booking
+ */
+export interface PaymentSchedule extends BaseModel {
+  bookingId: UUID;
+  guestId: UUID;
+  /** Gateway token of the card the installments are charged to */
+  cardToken: string | null;
+  currency: string;
+  installments: PaymentInstallment[];
+}
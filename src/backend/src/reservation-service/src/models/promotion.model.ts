@@ -0,0 +1,124 @@
+/**
+ * @fileoverview Defines promotion codes guests enter on direct bookings, the windows and stays
+ * they apply to, their usage caps and the redemptions recorded for reporting.
+ * @version 1.0.0
+ */
+
+// External imports
+import { UUID } from 'crypto';
+
+// Internal imports
+import { BaseModel } from '../../../shared/interfaces/base-model.interface';
+import { RoomType } from '../../../room-service/src/models/room.model';
+
+/**
+ * Prefix of the pricing modifier a code applies, e.g. "Promo SUMMER24"
+ */
+export const PROMOTION_MODIFIER_PREFIX = 'Promo';
+
+/**
+ * Discount code for direct bookings, applied as a percentage off every night
+ */
+export interface PromoCode extends BaseModel {
+  /** Code the guest enters, stored upper case */
+  code: string;
+  name: string;
+  description: string | null;
+  /** Percentage taken off each night before channel markup and rate bounds */
+  discountPercentage: number;
+  /** First day the code can be redeemed */
+  validFrom: Date;
+  /** Last day the code can be redeemed; open-ended when null */
+  validTo: Date | null;
+  /** Days between booking and arrival the booking window requires, e.g. 30 for early booking */
+  minimumLeadDays: number | null;
+  maximumLeadDays: number | null;
+  /** Every night of the stay must fall within the stay window */
+  stayFrom: Date | null;
+  stayTo: Date | null;
+  minimumNights: number | null;
+  /** Room types the code is valid for; every room type when empty */
+  eligibleRoomTypes: RoomType[];
+  /** Redemptions allowed across all guests; unlimited when null */
+  maxRedemptions: number | null;
+  /** Redemptions allowed per guest; unlimited when null */
+  maxRedemptionsPerGuest: number | null;
+  /** Redemptions not reversed by a cancellation */
+  redemptionCount: number;
+  /** Whether the code can be combined with other codes on one booking */
+  stackable: boolean;
+  /** Whether the code applies on rates already discounted (`Rate.isPromotional`) */
+  appliesToPromotionalRates: boolean;
+  isActive: boolean;
+  createdBy: string;
+}
+
+/**
+ * Request creating a promotion code
+ */
+export type CreatePromoCodeDto = Pick<PromoCode, 'code' | 'name' | 'discountPercentage' | 'validFrom' | 'createdBy'> &
+  Partial<Omit<PromoCode, keyof BaseModel | 'redemptionCount' | 'isActive'>>;
+
+/**
+ * Stay a set of codes is checked against
+ */
+export interface PromoStay {
+  rateId: string;
+  roomType: RoomType;
+  checkInDate: Date;
+  checkOutDate: Date;
+  /** Guest redeeming the codes; per-guest caps are only checked when known */
+  guestId?: string;
+}
+
+/**
+ * Lifecycle of a redemption
+ */
+export enum PromoRedemptionStatus {
+  REDEEMED = 'REDEEMED',
+  /** Booking cancelled; the redemption no longer counts towards the caps */
+  REVERSED = 'REVERSED'
+}
+
+/**
+ * Use of a code on one booking
+ */
+export interface PromoRedemption extends BaseModel {
+  promoCodeId: UUID;
+  bookingId: UUID;
+  guestId: UUID;
+  code: string;
+  discountPercentage: number;
+  /** Room revenue given away by the code, before tax */
+  discountAmount: number;
+  /** Room revenue of the booking after discounts, before tax */
+  roomRevenue: number;
+  status: PromoRedemptionStatus;
+  redeemedAt: Date;
+  reversedAt: Date | null;
+}
+
+/**
+ * Redemptions of one code over a reporting period
+ */
+export interface PromoRedemptionSummary {
+  code: string;
+  redemptions: number;
+  reversals: number;
+  /** Totals of redemptions still standing */
+  discountAmount: number;
+  roomRevenue: number;
+}
+
+/**
+ * Builds the pricing modifiers of codes, as fractions applied to every night
+ * @param promotions - Codes, or redemptions of a booking, with their discount
+ */
+export function promotionModifiers(
+  promotions: Pick<PromoCode, 'code' | 'discountPercentage'>[]
+): Record<string, number> {
+  return Object.fromEntries(promotions.map(promotion => [
+    `${PROMOTION_MODIFIER_PREFIX} ${promotion.code}`,
+    -promotion.discountPercentage / 100
+  ]));
+}
@@ -0,0 +1,148 @@
+/**
+ * @fileoverview Rate derivation model: rates priced off a parent rate (BAR minus a percentage,
+ * BAR plus a package amount per person) with their rounding rules, and the audit trail of base
+ * rate changes propagated down the rate hierarchy.
+ * @version 1.0.0
+ */
+
+// External imports
+import { UUID } from 'crypto';
+
+// Internal imports
+import { BaseModel } from '../../../shared/interfaces/base-model.interface';
+
+/**
+ * Levels a rate hierarchy may have below its root rate
+ */
+export const MAX_RATE_HIERARCHY_DEPTH = 5;
+
+/**
+ * How a derived rate's base rate is computed from its parent's
+ */
+export enum RateDerivationType {
+  /** Parent base rate adjusted by a percentage; -10 is 10% below the parent */
+  PERCENTAGE = 'PERCENTAGE',
+  /** Parent base rate plus a fixed amount per night; negative amounts discount */
+  AMOUNT = 'AMOUNT',
+  /** Parent base rate plus an amount per person per night, e.g. breakfast in a package */
+  PER_PERSON = 'PER_PERSON'
+}
+
+/**
+ * How a derived base rate is rounded
+ */
+export enum RateRoundingMode {
+  /** To the nearest multiple of the increment */
+  NEAREST = 'NEAREST',
+  /** Up to the next multiple of the increment */
+  UP = 'UP',
+  /** Down to the previous multiple of the increment */
+  DOWN = 'DOWN',
+  /** To the nearest amount ending in the given ending, e.g. .99 */
+  ENDING = 'ENDING'
+}
+
+/**
+ * Rounding applied to a derived base rate; amounts are rounded to the cent when absent
+ */
+export interface RateRounding {
+  mode: RateRoundingMode;
+  /** Step rounded to; 0.01 by default, 1 for ENDING */
+  increment?: number;
+  /** Amount the result ends in for ENDING, e.g. 0.99; smaller than the increment */
+  ending?: number;
+}
+
+/**
+ * Rule pricing a rate off its parent rate
+ */
+export interface RateDerivation {
+  type: RateDerivationType;
+  /** Percentage for PERCENTAGE, amount in the rate currency otherwise */
+  value: number;
+  /** Persons the PER_PERSON amount is charged for */
+  persons?: number;
+  rounding?: RateRounding | null;
+}
+
+/**
+ * Change recorded in a rate's history
+ */
+export enum RateAuditAction {
+  /** Base rate set directly */
+  BASE_RATE_CHANGED = 'BASE_RATE_CHANGED',
+  /** Base rate recomputed after an ancestor's base rate changed */
+  RECALCULATED = 'RECALCULATED',
+  /** Rate linked to a parent rate */
+  LINKED = 'LINKED',
+  /** Rate unlinked from its parent and priced on its own */
+  UNLINKED = 'UNLINKED'
+}
+
+/**
+ * Entry of a rate's change history
+ */
+export interface RateAudit extends BaseModel {
+  rateId: UUID;
+  action: RateAuditAction;
+  previousBaseRate: number;
+  newBaseRate: number;
+  /** Parent the rate was derived from at the time of the change */
+  parentRateId: UUID | null;
+  derivation: RateDerivation | null;
+  /** Rate whose base rate change caused the entry; the rate itself for direct changes */
+  sourceRateId: UUID;
+  changedBy: string;
+  changedAt: Date;
+}
+
+/**
+ * Filter for reading a rate's history
+ */
+export interface RateHistoryFilter {
+  startDate?: Date;
+  endDate?: Date;
+  limit?: number;
+}
+
+/**
+ * Rounds an amount by a rounding rule, to the cent when no rule is given
+ * @param amount - Amount to round
+ * @param rounding - Rounding rule
+ */
+export function roundRate(amount: number, rounding?: RateRounding | null): number {
+  const cents = (value: number) => Math.round(value * 100) / 100;
+  if (!rounding) {
+    return cents(amount);
+  }
+
+  if (rounding.mode === RateRoundingMode.ENDING) {
+    const increment = rounding.increment || 1;
+    const ending = rounding.ending || 0;
+    return cents(Math.round((amount - ending) / increment) * increment + ending);
+  }
+
+  const increment = rounding.increment || 0.01;
+  // Amounts already on a multiple must not move through floating point noise
+  const steps = cents(amount / increment * 100) / 100;
+  const rounded = rounding.mode === RateRoundingMode.UP
+    ? Math.ceil(steps)
+    : rounding.mode === RateRoundingMode.DOWN ? Math.floor(steps) : Math.round(steps);
+
+  return cents(rounded * increment);
+}
+
+/**
+ * Computes a derived rate's base rate from its parent's base rate
+ * @param parentBaseRate - Base rate of the parent rate
+ * @param derivation - Rule deriving the rate
+ */
+export function deriveBaseRate(parentBaseRate: number, derivation: RateDerivation): number {
+  const amount = derivation.type === RateDerivationType.PERCENTAGE
+    ? parentBaseRate * (1 + derivation.value / 100)
+    : derivation.type === RateDerivationType.PER_PERSON
+      ? parentBaseRate + derivation.value * (derivation.persons || 1)
+      : parentBaseRate + derivation.value;
+
+  return roundRate(amount, derivation.rounding);
+}
@@ -0,0 +1,95 @@
+/**
+ * @fileoverview Rate parity model: nights on which a channel with a parity rule sells a rate at a
+ * different price than the direct channel. Violations stay open while the difference persists
+ * and are kept as history once resolved.
+ * @version 1.0.0
+ */
+
+// External imports
+import { UUID } from 'crypto';
+
+// Internal imports
+import { BaseModel } from '../../../shared/interfaces/base-model.interface';
+import { DistributionChannel } from './channel.model';
+
+/**
+ * Channel whose sell rate the other channels must match
+ */
+export const PARITY_REFERENCE_CHANNEL = DistributionChannel.DIRECT;
+
+/**
+ * Number of nights ahead the parity checker prices
+ */
+export const RATE_PARITY_HORIZON_DAYS = 90;
+
+/**
+ * Difference from the direct rate tolerated before a night violates parity, in percent of the
+ * direct rate; differences of a cent or less are always tolerated
+ */
+export const DEFAULT_PARITY_TOLERANCE_PERCENT = 0;
+
+/**
+ * Lifecycle of a parity violation
+ */
+export enum RateParityStatus {
+  OPEN = 'OPEN',
+  RESOLVED = 'RESOLVED'
+}
+
+/**
+ * Side of the direct rate the channel sells on
+ */
+export enum RateParityDirection {
+  /** Channel is cheaper than the direct channel */
+  UNDERCUT = 'UNDERCUT',
+  /** Channel is more expensive than the direct channel */
+  ABOVE = 'ABOVE'
+}
+
+/**
+ * Night on which a channel's sell rate differs from the direct sell rate
+ */
+export interface RateParityViolation extends BaseModel {
+  rateId: UUID;
+  channel: DistributionChannel;
+  /** Night sold (midnight, property time) */
+  date: Date;
+  /** Direct sell rate including tax, as last checked */
+  referenceRate: number;
+  /** Channel sell rate including tax and markup, as last checked */
+  channelRate: number;
+  /** Channel rate minus direct rate */
+  difference: number;
+  currencyCode: string;
+  direction: RateParityDirection;
+  status: RateParityStatus;
+  detectedAt: Date;
+  lastCheckedAt: Date;
+  resolvedAt: Date | null;
+  /** Number of checks that found the violation */
+  occurrences: number;
+}
+
+/**
+ * Filter for listing parity violations
+ */
+export interface RateParityFilter {
+  status?: RateParityStatus;
+  rateId?: string;
+  channel?: DistributionChannel;
+  startDate?: Date;
+  endDate?: Date;
+}
+
+/**
+ * Outcome of one parity check
+ */
+export interface RateParityCheck {
+  checkedAt: Date;
+  ratesChecked: number;
+  nightsChecked: number;
+  opened: number;
+  resolved: number;
+  /** Violations open after the check */
+  open: number;
+}
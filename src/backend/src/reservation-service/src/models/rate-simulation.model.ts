@@ -0,0 +1,91 @@
+/**
+ * @fileoverview Rate simulation model: candidate yield rules and seasonal modifiers replayed
+ * against past and on-the-books bookings, and the projected revenue, ADR and rule hits compared
+ * with the live pricing configuration.
+ * @version 1.0.0
+ */
+
+// Internal imports
+import { Rate } from './rate.model';
+import { BookingStatus, INVENTORY_HOLDING_STATUSES } from './booking.model';
+import { NightlyRate } from './reservation-rate.model';
+import { YieldAdjustment, YieldRule } from './yield-rule.model';
+
+/**
+ * Longest stay-date range one simulation replays
+ */
+export const MAX_SIMULATION_RANGE_DAYS = 366;
+
+/**
+ * Hotel occupancy the rates' own occupancy modifiers are priced at when the request gives none
+ */
+export const DEFAULT_SIMULATION_OCCUPANCY = 70;
+
+/**
+ * Bookings replayed: stayed, staying or on the books
+ */
+export const SIMULATED_BOOKING_STATUSES = [...INVENTORY_HOLDING_STATUSES, BookingStatus.CHECKED_OUT];
+
+/**
+ * Pricing configuration to simulate; the live configuration applies to everything left out
+ */
+export interface PricingScenario {
+  /** Yield rules replacing the version in force; an empty list simulates no yield rules */
+  yieldRules?: YieldRule[];
+  /** Seasonal modifiers replacing the live ones of each listed rate, by rate ID */
+  seasonalModifiers?: Record<string, Rate['seasonalModifiers']>;
+}
+
+/**
+ * Stay priced under a scenario, with the yield adjustments each night received
+ */
+export interface ScenarioPricing {
+  nightlyRates: NightlyRate[];
+  /** Yield adjustments by night (yyyy-MM-dd) */
+  yieldAdjustments: Record<string, YieldAdjustment>;
+}
+
+/**
+ * Request to replay bookings under a candidate configuration
+ */
+export interface RateSimulationRequest {
+  /** First night replayed */
+  startDate: Date;
+  /** Last night replayed */
+  endDate: Date;
+  scenario: PricingScenario;
+  /** Hotel occupancy for the rates' own occupancy modifiers, in percent */
+  occupancyPercentage?: number;
+}
+
+/**
+ * Projection of one configuration over the replayed nights
+ */
+export interface SimulationMetrics {
+  /** Room revenue before tax */
+  revenue: number;
+  /** Average daily rate: revenue per room night */
+  adr: number;
+  /** Nights each yield rule priced, by rule name */
+  ruleHits: Record<string, number>;
+}
+
+/**
+ * Outcome of a simulation
+ */
+export interface RateSimulationResult {
+  startDate: Date;
+  endDate: Date;
+  simulatedAt: Date;
+  /** Bookings replayed */
+  bookings: number;
+  /** Nights of those bookings inside the range */
+  roomNights: number;
+  /** Bookings whose rate can no longer be priced, left out of both projections */
+  skippedBookings: number;
+  live: SimulationMetrics;
+  candidate: SimulationMetrics;
+  /** Candidate minus live */
+  revenueDifference: number;
+  adrDifference: number;
+}
@@ -7,8 +7,20 @@
 
 import { PrismaClient } from '@prisma/client'; // v5.0.0
 import dayjs from 'dayjs'; // v1.11.0
+import isBetween from 'dayjs/plugin/isBetween'; // v1.11.0
 import { BaseModel } from '../../../shared/interfaces/base-model.interface';
 import { UUID } from 'crypto';
+import { CancellationPolicy } from './cancellation-policy.model';
+import { DepositPolicy } from './payment-schedule.model';
+import { RateDerivation } from './rate-derivation.model';
+import { PackageInclusion } from './add-on.model';
+import { YieldAdjustment } from './yield-rule.model';
+import { NightlyRate, summarizeNightlyRates } from './reservation-rate.model';
+import { TaxRule, calculateTaxes } from '../../../shared/models/tax.model';
+import { ROOM_CHARGE_CATEGORY } from '../../../shared/models/charge-category.model';
+import { TaxCalculationService } from '../../../shared/services/tax-calculation.service';
+
+dayjs.extend(isBetween);
 
 /**
  * Interface defining seasonal rate modifier structure
@@ -88,7 +100,6 @@ export interface Rate extends BaseModel {
   rateCode: string;
   rateName: string;
   baseRate: number;
-  taxRate: number;
   effectiveFrom: Date;
   effectiveTo: Date;
   type: RateType;
@@ -102,6 +113,16 @@ export interface Rate extends BaseModel {
   maximumRate: number;
   channelRules: Record<string, ChannelRule>;
   currencyCode: string;
+  /** Penalties on cancellation and no-show; the default policy applies when absent */
+  cancellationPolicy?: CancellationPolicy | null;
+  /** Deposit installments bookings on this rate owe; no deposit is required when absent */
+  depositPolicy?: DepositPolicy | null;
+  /** Rate the base rate is derived from; the rate is priced on its own when absent */
+  parentRateId?: UUID | null;
+  /** Rule deriving the base rate from the parent's; set together with parentRateId */
+  derivation?: RateDerivation | null;
+  /** Add-ons a PACKAGE rate includes in its nightly price */
+  includedAddOns?: PackageInclusion[] | null;
 }
 
 /**
@@ -109,15 +130,20 @@ export interface Rate extends BaseModel {
  */
 export class RateModel {
   private prisma: PrismaClient;
+  private taxService: TaxCalculationService;
   private rateCache: Map<string, { rate: number; expiresAt: Date }>;
 
-  constructor() {
-    this.prisma = new PrismaClient();
+  constructor(
+    prisma: PrismaClient = new PrismaClient(),
+    taxService: TaxCalculationService = new TaxCalculationService(prisma)
+  ) {
+    this.prisma = prisma;
+    this.taxService = taxService;
     this.rateCache = new Map();
   }
 
   /**
-   * Calculates final rate with all modifiers and channel rules
+   * Calculates the average nightly rate of a stay with all modifiers, channel rules and tax
    * @param rateId - UUID of the rate to calculate
    * @param checkInDate - Check-in date for the stay
    * @param checkOutDate - Check-out date for the stay
@@ -141,69 +167,180 @@ export class RateModel {
       return cachedRate.rate;
     }
 
+    const nightlyRates = await this.calculateNightlyRates(
+      rateId,
+      checkInDate,
+      checkOutDate,
+      occupancyPercentage,
+      channel
+    );
+    const finalRate = Number(
+      (summarizeNightlyRates(nightlyRates).totalAmount / nightlyRates.length).toFixed(2)
+    );
+
+    // Cache the calculated rate for 15 minutes
+    this.rateCache.set(cacheKey, {
+      rate: finalRate,
+      expiresAt: new Date(Date.now() + 15 * 60 * 1000)
+    });
+
+    return finalRate;
+  }
+
+  /**
+   * Prices every night of a stay on its own: seasonal modifiers apply to the nights inside the
+   * season, length-of-stay modifiers to every night of a stay long enough
+   * @param rateId - UUID of the rate to calculate
+   * @param checkInDate - Check-in date for the stay
+   * @param checkOutDate - Check-out date for the stay
+   * @param occupancyPercentage - Current hotel occupancy percentage
+   * @param channel - Distribution channel for the booking
+   * @param yieldAdjustments - Yield rule adjustments by night (yyyy-MM-dd)
+   * @param overrides - Rate fields priced in place of the stored ones, for simulations
+   * @param guests - Guests staying, for per-person taxes
+   * @returns Promise resolving to one price per night, at least one
+   */
+  async calculateNightlyRates(
+    rateId: UUID,
+    checkInDate: Date,
+    checkOutDate: Date,
+    occupancyPercentage: number,
+    channel: string,
+    yieldAdjustments: Record<string, YieldAdjustment> = {},
+    overrides: Partial<Rate> = {},
+    guests = 1
+  ): Promise<NightlyRate[]> {
     // Fetch base rate record
-    const rate = await this.prisma.rate.findUnique({
+    const stored = await this.prisma.rate.findUnique({
       where: { id: rateId }
     }) as Rate;
+    const rate = stored && { ...stored, ...overrides };
 
     if (!rate || rate.status !== RateStatus.ACTIVE) {
       throw new Error('Rate not found or inactive');
     }
 
+    const lengthOfStay = dayjs(checkOutDate).diff(dayjs(checkInDate), 'day');
+    const nights = Array.from({ length: Math.max(1, lengthOfStay) }, (_, index) =>
+      dayjs(checkInDate).startOf('day').add(index, 'day').toDate()
+    );
+
+    const taxRules = await this.taxService.getRules(nights[0], nights[nights.length - 1]);
+
+    return nights.map((night, index) => this.calculateNightlyRate(
+      rate, night, lengthOfStay, occupancyPercentage, channel, yieldAdjustments[dayjs(night).format('YYYY-MM-DD')],
+      { taxRules, guests, stayNight: index + 1 }
+    ));
+  }
+
+  /**
+   * Prices one night, recording how much each modifier added
+   */
+  private calculateNightlyRate(
+    rate: Rate,
+    night: Date,
+    lengthOfStay: number,
+    occupancyPercentage: number,
+    channel: string,
+    yieldAdjustment: YieldAdjustment | undefined,
+    tax: { taxRules: TaxRule[]; guests: number; stayNight: number }
+  ): NightlyRate {
+    const appliedRules: string[] = [];
     let finalRate = rate.baseRate;
 
     // Apply seasonal modifiers
-    const seasonalModifier = this.calculateSeasonalModifier(rate, checkInDate, checkOutDate);
-    finalRate *= (1 + seasonalModifier);
+    const seasonalModifier = this.calculateSeasonalModifier(rate, night, appliedRules);
+    const seasonalAdjustment = finalRate * seasonalModifier;
+    finalRate += seasonalAdjustment;
 
     // Apply occupancy-based modifiers
     const occupancyModifier = this.calculateOccupancyModifier(rate, occupancyPercentage);
-    finalRate *= (1 + occupancyModifier);
+    const occupancyAdjustment = finalRate * occupancyModifier;
+    finalRate += occupancyAdjustment;
+    if (occupancyModifier !== 0) appliedRules.push('Occupancy');
 
     // Apply length of stay modifiers
-    const lengthOfStay = dayjs(checkOutDate).diff(dayjs(checkInDate), 'day');
     const losModifier = this.calculateLOSModifier(rate, lengthOfStay);
-    finalRate *= (1 + losModifier);
+    const losAdjustment = finalRate * losModifier;
+    finalRate += losAdjustment;
+    if (losModifier !== 0) appliedRules.push('Length of stay');
+
+    // Apply yield rules and promotion codes on top of the rate's own modifiers
+    let yieldAmount = 0;
+    let promotionAmount = 0;
+    if (yieldAdjustment) {
+      const promotionPercentage = yieldAdjustment.promotionPercentage || 0;
+      promotionAmount = finalRate * promotionPercentage / 100;
+      yieldAmount = finalRate * (yieldAdjustment.percentage - promotionPercentage) / 100 + yieldAdjustment.amount;
+      finalRate += yieldAmount + promotionAmount;
+      appliedRules.push(...yieldAdjustment.appliedRules);
+    }
 
     // Apply channel-specific rules
+    let channelMarkup = 0;
     if (channel && rate.channelRules[channel]) {
       const channelRule = rate.channelRules[channel];
+      const beforeChannel = finalRate;
       finalRate *= (1 + channelRule.markup);
       
       // Ensure channel minimum markup
       const minimumChannelRate = rate.baseRate * (1 + channelRule.minimumMarkup);
       finalRate = Math.max(finalRate, minimumChannelRate);
+      channelMarkup = finalRate - beforeChannel;
+      appliedRules.push(`Channel ${channel}`);
     }
 
-    // Enforce rate bounds
-    finalRate = Math.max(rate.minimumRate, Math.min(finalRate, rate.maximumRate));
-
-    // Add tax
-    finalRate *= (1 + rate.taxRate);
+    // Enforce the rate's floor and ceiling
+    const boundedRate = Math.max(rate.minimumRate, Math.min(finalRate, rate.maximumRate));
+    if (boundedRate > finalRate) appliedRules.push(`Rate floor ${rate.minimumRate.toFixed(2)}`);
+    if (boundedRate < finalRate) appliedRules.push(`Rate ceiling ${rate.maximumRate.toFixed(2)}`);
 
-    // Cache the calculated rate for 15 minutes
-    this.rateCache.set(cacheKey, {
-      rate: finalRate,
-      expiresAt: new Date(Date.now() + 15 * 60 * 1000)
-    });
+    // Tax the price sold; inclusive taxes come out of it, exclusive ones are added
+    const taxes = calculateTaxes({
+      category: ROOM_CHARGE_CATEGORY,
+      amount: this.round(boundedRate),
+      date: night,
+      persons: tax.guests,
+      stayNight: tax.stayNight
+    }, tax.taxRules);
 
-    return Number(finalRate.toFixed(2));
+    return {
+      rateId: rate.id,
+      date: night,
+      baseRate: rate.baseRate,
+      adjustmentAmount: this.round(taxes.netAmount - rate.baseRate),
+      adjustmentReason: appliedRules.length > 0 ? appliedRules.join(', ') : null,
+      taxRate: taxes.effectiveRate,
+      taxAmount: taxes.taxAmount,
+      taxLines: taxes.lines,
+      totalRate: taxes.grossAmount,
+      currencyCode: rate.currencyCode,
+      breakdown: {
+        seasonalAdjustment: this.round(seasonalAdjustment),
+        occupancyAdjustment: this.round(occupancyAdjustment),
+        losAdjustment: this.round(losAdjustment),
+        yieldAdjustment: this.round(yieldAmount),
+        promotionAdjustment: this.round(promotionAmount),
+        channelMarkup: this.round(channelMarkup),
+        taxes: taxes.taxAmount
+      }
+    };
   }
 
   /**
-   * Calculates seasonal modifier based on date range
+   * Calculates the seasonal modifier of the seasons covering a night
    */
-  private calculateSeasonalModifier(rate: Rate, checkIn: Date, checkOut: Date): number {
+  private calculateSeasonalModifier(rate: Rate, night: Date, appliedRules: string[]): number {
     let modifier = 0;
     
     for (const seasonal of rate.seasonalModifiers) {
-      if (dayjs(checkIn).isBetween(seasonal.startDate, seasonal.endDate, 'day', '[]') ||
-          dayjs(checkOut).isBetween(seasonal.startDate, seasonal.endDate, 'day', '[]')) {
+      if (dayjs(night).isBetween(seasonal.startDate, seasonal.endDate, 'day', '[]')) {
         if (seasonal.adjustmentType === 'PERCENTAGE') {
           modifier += seasonal.adjustmentValue / 100;
         } else {
           modifier += seasonal.adjustmentValue / rate.baseRate;
         }
+        appliedRules.push(seasonal.description);
       }
     }
     
@@ -247,4 +384,11 @@ export class RateModel {
     
     return modifier;
   }
-}
\ No newline at end of file
+
+  /**
+   * Rounds an amount to cents
+   */
+  private round(amount: number): number {
+    return Math.round(amount * 100) / 100;
+  }
+}
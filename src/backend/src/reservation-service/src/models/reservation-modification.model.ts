@@ -0,0 +1,89 @@
+/**
+ * @fileoverview Reservation modification model recording stay changes (dates, room, guest count)
+ * together with the repriced difference posted to the guest folio.
+ * @version 1.0.0
+ */
+
+// External imports
+import { UUID } from 'crypto';
+
+// Internal imports
+import { RoomType } from '../../../room-service/src/models/room.model';
+import { RateCalculationResult } from '../services/pricing.service';
+
+/**
+ * Prefix of folio charge references posted by stay modifications
+ */
+export const STAY_MODIFICATION_REFERENCE_PREFIX = 'MOD';
+
+/**
+ * Kind of stay change; a request changing several fields is recorded under the first that applies
+ */
+export enum ModificationType {
+  EXTEND = 'EXTEND',
+  SHORTEN = 'SHORTEN',
+  SHIFT_DATES = 'SHIFT_DATES',
+  ROOM_MOVE = 'ROOM_MOVE',
+  GUEST_COUNT_CHANGE = 'GUEST_COUNT_CHANGE'
+}
+
+/**
+ * Stay fields a modification can change
+ */
+export interface StayDetails {
+  checkInDate: Date;
+  checkOutDate: Date;
+  roomType: RoomType;
+  roomId: UUID | null;
+  rateId: UUID;
+  numberOfGuests: number;
+}
+
+/**
+ * Requested stay change; omitted fields keep their current value
+ */
+export interface ModifyStayDto {
+  checkInDate?: Date;
+  checkOutDate?: Date;
+  /** New room type; requires a rate for that type */
+  roomType?: RoomType;
+  rateId?: UUID;
+  /** Specific room to move the guest to */
+  roomId?: UUID;
+  numberOfGuests?: number;
+  reason: string;
+}
+
+/**
+ * Difference between the repriced and the current stay, in the same breakdown as the pricing service
+ */
+export interface PriceDelta {
+  previousAmount: number;
+  newAmount: number;
+  /** Amount including tax to add to (or, when negative, credit from) the stay */
+  difference: number;
+  taxDifference: number;
+  baseRateDifference: number;
+  breakdown: RateCalculationResult['breakdown'];
+  appliedRules: string[];
+}
+
+/**
+ * Server-side record of a reservation modification
+ */
+export interface ReservationModification {
+  id: UUID;
+  reservationId: UUID;
+  modificationType: ModificationType;
+  previousValue: Partial<StayDetails>;
+  newValue: Partial<StayDetails>;
+  modifiedBy: string;
+  modifiedAt: Date;
+  reason: string;
+  priceDelta: PriceDelta;
+  /**
+   * Folio charge carrying the difference; null when the booking has no open folio, nothing changed
+   * in price or the booking carries nightly prices, which the night audit posts
+   */
+  folioChargeId: UUID | null;
+}
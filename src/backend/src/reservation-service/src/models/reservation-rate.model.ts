@@ -0,0 +1,76 @@
+/**
+ * @fileoverview Reservation rate model holding the nightly price breakdown stored on a booking
+ * when it is priced, so later rate changes never alter a confirmed guest's price and folio
+ * posting can use each night's exact amount.
+ * @version 1.0.0
+ */
+
+// External imports
+import { UUID } from 'crypto';
+
+// Internal imports
+import { BaseModel } from '../../../shared/interfaces/base-model.interface';
+import { TaxLine } from '../../../shared/models/tax.model';
+
+/**
+ * Modifier amounts that moved one night away from the base rate
+ */
+export interface NightlyRateBreakdown {
+  seasonalAdjustment: number;
+  occupancyAdjustment: number;
+  losAdjustment: number;
+  /** Yield rule adjustments; absent on nights priced before yield rules were applied */
+  yieldAdjustment?: number;
+  /** Promotion code discounts; absent on nights priced before promotion codes */
+  promotionAdjustment?: number;
+  channelMarkup: number;
+  taxes: number;
+}
+
+/**
+ * Price of one night of a booking
+ */
+export interface ReservationRate extends BaseModel {
+  reservationId: UUID;
+  rateId: UUID;
+  /** Night the price applies to (midnight, property time) */
+  date: Date;
+  baseRate: number;
+  /** Net amount above (or below) the base rate after modifiers and rate bounds */
+  adjustmentAmount: number;
+  adjustmentReason: string | null;
+  /** Tax amount as a fraction of the net amount */
+  taxRate: number;
+  taxAmount: number;
+  /** Taxes making up the tax amount; absent on nights priced before the tax engine */
+  taxLines?: TaxLine[];
+  /** Amount including adjustments and tax */
+  totalRate: number;
+  /** Currency the rate is sold in; absent on nights priced before multi-currency quotes */
+  currencyCode?: string;
+  /** Modifiers as applied; rate bounds enforcement is not itemized */
+  breakdown: NightlyRateBreakdown;
+}
+
+/**
+ * Nightly price before it is stored on a booking
+ */
+export type NightlyRate = Omit<ReservationRate, keyof BaseModel | 'reservationId'>;
+
+/**
+ * Sums a stay's nightly prices into booking totals
+ */
+export function summarizeNightlyRates(rates: NightlyRate[]): { totalAmount: number; taxAmount: number } {
+  const totals = rates.reduce(
+    (sum, rate) => ({
+      totalAmount: sum.totalAmount + rate.totalRate,
+      taxAmount: sum.taxAmount + rate.taxAmount
+    }),
+    { totalAmount: 0, taxAmount: 0 }
+  );
+
+  return {
+    totalAmount: Math.round(totals.totalAmount * 100) / 100,
+    taxAmount: Math.round(totals.taxAmount * 100) / 100
+  };
+}
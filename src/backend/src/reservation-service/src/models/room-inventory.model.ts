@@ -0,0 +1,33 @@
+/**
+ * @fileoverview Room-type inventory model. Bookings are held against a room type with a
+ * per-date count; physical rooms are assigned close to arrival.
+ * @version 1.0.0
+ */
+
+// Internal imports
+import { BaseModel } from '../../../shared/interfaces/base-model.interface';
+import { RoomType } from '../../../room-service/src/models/room.model';
+
+/**
+ * Inventory count for one room type on one night
+ */
+export interface RoomTypeInventory extends BaseModel {
+  roomType: RoomType;
+  /** Night of stay (midnight, property time) */
+  date: Date;
+  /** Sellable rooms of the type on the night */
+  totalRooms: number;
+  /** Rooms held by bookings and waitlist offers */
+  allocatedRooms: number;
+}
+
+/**
+ * Remaining inventory for one room type on one night
+ */
+export interface RoomTypeAvailability {
+  roomType: RoomType;
+  date: Date;
+  totalRooms: number;
+  allocatedRooms: number;
+  availableRooms: number;
+}
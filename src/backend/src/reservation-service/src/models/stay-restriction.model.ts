@@ -0,0 +1,79 @@
+/**
+ * @fileoverview Stay restriction model holding the per-date restriction calendar of a rate and
+ * room type: minimum and maximum length of stay, closed to arrival and closed to departure.
+ * @version 1.0.0
+ */
+
+// External imports
+import { UUID } from 'crypto';
+
+// Internal imports
+import { BaseModel } from '../../../shared/interfaces/base-model.interface';
+import { RoomType } from '../../../room-service/src/models/room.model';
+
+/**
+ * Restriction a stay can fail
+ */
+export enum StayRestrictionType {
+  MINIMUM_LOS = 'MINIMUM_LOS',
+  MAXIMUM_LOS = 'MAXIMUM_LOS',
+  CLOSED_TO_ARRIVAL = 'CLOSED_TO_ARRIVAL',
+  CLOSED_TO_DEPARTURE = 'CLOSED_TO_DEPARTURE'
+}
+
+/**
+ * Restrictions of one rate and room type on one date. Length-of-stay limits apply to every stay
+ * covering the night; closed to arrival and departure apply to stays starting or ending on it.
+ */
+export interface StayRestriction extends BaseModel {
+  rateId: UUID;
+  roomType: RoomType;
+  /** Calendar date (midnight, property time) */
+  date: Date;
+  minimumLOS: number | null;
+  maximumLOS: number | null;
+  closedToArrival: boolean;
+  closedToDeparture: boolean;
+  updatedBy: string;
+}
+
+/**
+ * Restrictions to set on every date of a range
+ */
+export interface SetStayRestrictionsDto {
+  rateId: UUID;
+  roomType: RoomType;
+  startDate: Date;
+  /** Last date of the range, inclusive */
+  endDate: Date;
+  /** Days of week to apply to (0 = Sunday); every day when omitted */
+  daysOfWeek?: number[];
+  minimumLOS?: number | null;
+  maximumLOS?: number | null;
+  closedToArrival?: boolean;
+  closedToDeparture?: boolean;
+}
+
+/**
+ * Stay checked against the restriction calendar
+ */
+export interface RestrictedStay {
+  rateId: string;
+  /** Strictest restriction across room types applies when omitted */
+  roomType?: RoomType;
+  checkInDate: Date;
+  checkOutDate: Date;
+  /** Booking channel whose channel-rule restrictions also apply */
+  channel?: string;
+}
+
+/**
+ * Restriction a stay failed
+ */
+export interface RestrictionViolation {
+  restriction: StayRestrictionType;
+  date: Date;
+  /** Length-of-stay limit that was not met */
+  limit?: number;
+  message: string;
+}
@@ -0,0 +1,63 @@
+/**
+ * @fileoverview Waitlist model for guests requesting a room type on sold-out dates. Entries are
+ * offered released room-type inventory in priority order and hold it for a limited time.
+ * @version 1.0.0
+ */
+
+// External imports
+import { UUID } from 'crypto';
+
+// Internal imports
+import { BaseModel } from '../../../shared/interfaces/base-model.interface';
+import { RoomType } from '../../../room-service/src/models/room.model';
+
+/**
+ * Lifecycle of a waitlist entry
+ */
+export enum WaitlistStatus {
+  WAITING = 'WAITING',
+  OFFERED = 'OFFERED',
+  ACCEPTED = 'ACCEPTED',
+  DECLINED = 'DECLINED',
+  EXPIRED = 'EXPIRED',
+  CANCELLED = 'CANCELLED'
+}
+
+/**
+ * Default number of minutes a released room is held for the offered entry
+ */
+export const DEFAULT_WAITLIST_HOLD_MINUTES = 60;
+
+/**
+ * Waitlist entry linked to a booking in `WAITING_LIST` status
+ */
+export interface WaitlistEntry extends BaseModel {
+  bookingId: UUID;
+  guestId: UUID;
+  roomType: RoomType;
+  checkInDate: Date;
+  checkOutDate: Date;
+  numberOfGuests: number;
+  /** Higher values are offered first; ties go to the earliest entry */
+  priority: number;
+  status: WaitlistStatus;
+  offeredAt: Date | null;
+  holdExpiresAt: Date | null;
+  notes?: string;
+  createdBy: string;
+}
+
+/**
+ * Data required to place a guest on the waitlist
+ */
+export interface CreateWaitlistEntryDto {
+  guestId: UUID;
+  rateId: UUID;
+  roomType: RoomType;
+  checkInDate: Date;
+  checkOutDate: Date;
+  numberOfGuests: number;
+  bookingSource: string;
+  priority?: number;
+  notes?: string;
+}
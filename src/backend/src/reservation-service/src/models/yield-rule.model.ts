@@ -0,0 +1,90 @@
+/**
+ * @fileoverview Yield rule model: versioned sets of revenue management rules adjusting each night's
+ * price by demand (on-the-books occupancy and booking pace), lead time and day of week, and the
+ * per-night adjustment they produce with its explanation.
+ * @version 1.0.0
+ */
+
+// Internal imports
+import { BaseModel } from '../../../shared/interfaces/base-model.interface';
+
+/**
+ * Days of bookings counted towards booking pace when a rule does not set its window
+ */
+export const DEFAULT_PACE_WINDOW_DAYS = 7;
+
+/**
+ * Longest booking pace window a rule may count
+ */
+export const MAX_PACE_WINDOW_DAYS = 90;
+
+/**
+ * Demand signal a yield rule is evaluated on, per night
+ */
+export enum YieldRuleFactor {
+  /** Rooms held for the night as a percentage of sellable rooms */
+  OCCUPANCY = 'OCCUPANCY',
+  /** Rooms booked for the night within the pace window as a percentage of sellable rooms */
+  BOOKING_PACE = 'BOOKING_PACE',
+  /** Days between today and the night */
+  LEAD_TIME = 'LEAD_TIME',
+  /** Weekday of the night */
+  DAY_OF_WEEK = 'DAY_OF_WEEK'
+}
+
+/**
+ * Revenue management rule adjusting the price of the nights whose factor falls in its range
+ */
+export interface YieldRule {
+  name: string;
+  factor: YieldRuleFactor;
+  /** Lowest factor value the rule applies to, inclusive */
+  min?: number;
+  /** Highest factor value the rule applies to, inclusive */
+  max?: number;
+  /** Weekdays the rule applies to for DAY_OF_WEEK, 0 (Sunday) to 6 */
+  daysOfWeek?: number[];
+  /** Days of bookings counted for BOOKING_PACE */
+  paceWindowDays?: number;
+  adjustmentType: 'PERCENTAGE' | 'FIXED';
+  /** Percentage of the night's rate, or amount in the rate currency */
+  adjustmentValue: number;
+  /** Rates the rule prices; every rate when empty */
+  rateIds?: string[];
+}
+
+/**
+ * Version of the yield rules; the latest version prices every rate
+ */
+export interface YieldRuleSet extends BaseModel {
+  version: number;
+  rules: YieldRule[];
+  comment: string | null;
+  createdBy: string;
+}
+
+/**
+ * Request replacing the yield rules with a new version
+ */
+export interface UpdateYieldRulesDto {
+  rules: YieldRule[];
+  userId: string;
+  comment?: string;
+}
+
+/**
+ * Adjustment the yield rules make to one night, applied after the rate's own modifiers and
+ * before channel markup and the rate's floor and ceiling
+ */
+export interface YieldAdjustment {
+  /** Sum of the percentage rules applied */
+  percentage: number;
+  /** Sum of the fixed amounts applied */
+  amount: number;
+  /** Part of the percentage coming from promotion codes, itemized apart from yield */
+  promotionPercentage?: number;
+  /** Names of the rules applied */
+  rules: string[];
+  /** One explanation per rule applied, e.g. "High demand: 86% on the books → +10%" */
+  appliedRules: string[];
+}
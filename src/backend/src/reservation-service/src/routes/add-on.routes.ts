@@ -0,0 +1,141 @@
+/**
+ * @fileoverview Defines add-on routes for maintaining the catalog of products sold with bookings,
+ * reading their daily inventory and quoting them for a stay.
+ * @version 1.0.0
+ */
+
+// External imports
+import { Router } from 'express'; // v4.18.0
+import { celebrate, Joi, Segments } from 'celebrate'; // v15.0.1
+
+// Internal imports
+import { AddOnController } from '../controllers/add-on.controller';
+import { AddOnPricing } from '../models/add-on.model';
+
+const idSchema = Joi.object({
+  id: Joi.string().uuid().required()
+});
+
+/**
+ * Add-ons chosen for a stay; shared with the booking routes
+ */
+export const addOnSelectionSchema = Joi.object({
+  addOnId: Joi.string().uuid().required(),
+  quantity: Joi.number().integer().min(1),
+  serviceDate: Joi.date().iso()
+});
+
+/**
+ * Initializes add-on routes
+ * @param addOnController - Instance of AddOnController
+ * @returns Configured Express router
+ */
+export function initializeAddOnRoutes(addOnController: AddOnController): Router {
+  const router = Router();
+
+  // List the catalog
+  router.get('/',
+    celebrate({
+      [Segments.QUERY]: Joi.object({
+        includeInactive: Joi.boolean()
+      })
+    }),
+    async (req, res, next) => {
+      try {
+        const addOns = await addOnController.findAll(req.query.includeInactive as unknown as boolean);
+        res.json(addOns);
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  // Add an add-on
+  router.post('/',
+    celebrate({
+      [Segments.BODY]: Joi.object({
+        code: Joi.string().alphanum().max(10).uppercase().required(),
+        name: Joi.string().max(100).required(),
+        description: Joi.string().max(500).allow(null),
+        pricing: Joi.string().valid(...Object.values(AddOnPricing)).required(),
+        price: Joi.number().min(0).required(),
+        chargeCategory: Joi.string().required(),
+        department: Joi.string().required(),
+        dailyLimit: Joi.number().integer().min(1).allow(null)
+      })
+    }),
+    async (req, res, next) => {
+      try {
+        const addOn = await addOnController.create(req.body);
+        res.status(201).json(addOn);
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  // Quote add-ons for a stay
+  router.post('/quote',
+    celebrate({
+      [Segments.BODY]: Joi.object({
+        rateId: Joi.string().uuid(),
+        checkInDate: Joi.date().iso().required(),
+        checkOutDate: Joi.date().iso().greater(Joi.ref('checkInDate')).required(),
+        numberOfGuests: Joi.number().integer().min(1).required(),
+        addOns: Joi.array().items(addOnSelectionSchema).required()
+      })
+    }),
+    async (req, res, next) => {
+      try {
+        const quote = await addOnController.quote(req.body);
+        res.json(quote);
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  // Change an add-on
+  router.put('/:id',
+    celebrate({
+      [Segments.PARAMS]: idSchema,
+      [Segments.BODY]: Joi.object({
+        name: Joi.string().max(100),
+        description: Joi.string().max(500).allow(null),
+        price: Joi.number().min(0),
+        department: Joi.string(),
+        dailyLimit: Joi.number().integer().min(1).allow(null),
+        isActive: Joi.boolean()
+      }).min(1)
+    }),
+    async (req, res, next) => {
+      try {
+        const addOn = await addOnController.update(req.params.id, req.body);
+        res.json(addOn);
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  // Units left per date
+  router.get('/:id/availability',
+    celebrate({
+      [Segments.PARAMS]: idSchema,
+      [Segments.QUERY]: Joi.object({
+        startDate: Joi.date().iso().required(),
+        endDate: Joi.date().iso().min(Joi.ref('startDate')).required()
+      })
+    }),
+    async (req, res, next) => {
+      try {
+        const availability = await addOnController.getAvailability(req.params.id, req.query as any);
+        res.json(availability);
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  return router;
+}
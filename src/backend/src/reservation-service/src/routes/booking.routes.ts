@@ -13,8 +13,11 @@ import { MetricsCollector } from '@opentelemetry/metrics'; // v1.12.0
 
 // Internal imports
 import { BookingController } from '../controllers/booking.controller';
+import { addOnSelectionSchema } from './add-on.routes';
+import { promoCodeSchema } from './promotion.routes';
 import { ErrorCode } from '../../../shared/constants/error-codes';
-import { RequestWithUser } from '../../../shared/interfaces/base-controller.interface';
+import { RoomType } from '../../../room-service/src/models/room.model';
+import { RequestWithUser, authenticatedUserId } from '../../../shared/interfaces/base-controller.interface';
 
 // Initialize authentication middleware
 const authMiddleware = auth({
@@ -35,12 +38,16 @@ const bookingValidation = {
   create: celebrate({
     [Segments.BODY]: Joi.object({
       guestId: Joi.string().uuid().required(),
-      roomId: Joi.string().uuid().required(),
+      roomType: Joi.string().valid(...Object.values(RoomType)).required(),
+      connectingBookingId: Joi.string().uuid(),
       rateId: Joi.string().uuid().required(),
       checkInDate: Joi.date().iso().greater('now').required(),
       checkOutDate: Joi.date().iso().greater(Joi.ref('checkInDate')).required(),
       numberOfGuests: Joi.number().integer().min(1).required(),
       bookingSource: Joi.string().required(),
+      paymentCardToken: Joi.string().max(255),
+      addOns: Joi.array().items(addOnSelectionSchema),
+      promoCodes: Joi.array().items(promoCodeSchema).max(5),
       specialRequests: Joi.object({
         dietary: Joi.array().items(Joi.string()),
         accessibility: Joi.array().items(Joi.string()),
@@ -55,9 +62,6 @@ const bookingValidation = {
       id: Joi.string().uuid().required()
     }),
     [Segments.BODY]: Joi.object({
-      checkInDate: Joi.date().iso().greater('now'),
-      checkOutDate: Joi.date().iso().greater(Joi.ref('checkInDate')),
-      numberOfGuests: Joi.number().integer().min(1),
       specialRequests: Joi.object({
         dietary: Joi.array().items(Joi.string()),
         accessibility: Joi.array().items(Joi.string()),
@@ -66,6 +70,21 @@ const bookingValidation = {
         notes: Joi.string()
       })
     }).min(1)
+  }),
+  modify: celebrate({
+    [Segments.PARAMS]: Joi.object({
+      id: Joi.string().uuid().required()
+    }),
+    [Segments.BODY]: Joi.object({
+      checkInDate: Joi.date().iso(),
+      checkOutDate: Joi.date().iso(),
+      roomType: Joi.string().valid(...Object.values(RoomType)),
+      rateId: Joi.string().uuid(),
+      roomId: Joi.string().uuid(),
+      numberOfGuests: Joi.number().integer().min(1),
+      reason: Joi.string().required()
+    }).or('checkInDate', 'checkOutDate', 'roomType', 'roomId', 'numberOfGuests')
+      .with('roomType', 'rateId')
   })
 };
 
@@ -194,6 +213,109 @@ export function initializeBookingRoutes(bookingController: BookingController): R
     }
   );
 
+  // Quote stay modification
+  router.post('/:id/modifications/quote',
+    bookingValidation.modify,
+    async (req, res, next) => {
+      try {
+        const quote = await bookingController.quoteModification(req.params.id, req.body);
+        res.json(quote);
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  // Modify stay
+  router.post('/:id/modifications',
+    bookingValidation.modify,
+    async (req: RequestWithUser, res, next) => {
+      try {
+        const modification = await bookingController.modify(req.params.id, {
+          ...req.body,
+          userId: authenticatedUserId(req)
+        });
+        res.status(201).json(modification);
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  // Get stay modifications
+  router.get('/:id/modifications',
+    celebrate({
+      [Segments.PARAMS]: Joi.object({
+        id: Joi.string().uuid().required()
+      })
+    }),
+    async (req, res, next) => {
+      try {
+        const modifications = await bookingController.findModifications(req.params.id);
+        res.json(modifications);
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  // Get nightly rates
+  router.get('/:id/rates',
+    celebrate({
+      [Segments.PARAMS]: Joi.object({
+        id: Joi.string().uuid().required()
+      })
+    }),
+    async (req, res, next) => {
+      try {
+        const rates = await bookingController.findNightlyRates(req.params.id);
+        res.json(rates);
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  // Get payment schedule
+  router.get('/:id/payment-schedule',
+    celebrate({
+      [Segments.PARAMS]: Joi.object({
+        id: Joi.string().uuid().required()
+      })
+    }),
+    async (req, res, next) => {
+      try {
+        const schedule = await bookingController.findPaymentSchedule(req.params.id);
+        res.json(schedule);
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  // Update payment schedule card
+  router.put('/:id/payment-schedule/card',
+    celebrate({
+      [Segments.PARAMS]: Joi.object({
+        id: Joi.string().uuid().required()
+      }),
+      [Segments.BODY]: Joi.object({
+        cardToken: Joi.string().max(255).required()
+      })
+    }),
+    async (req: RequestWithUser, res, next) => {
+      try {
+        const schedule = await bookingController.updatePaymentCard(req.params.id, {
+          cardToken: req.body.cardToken,
+          userId: authenticatedUserId(req)
+        });
+        res.json(schedule);
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
   // Process check-in
   router.put('/:id/check-in',
     celebrate({
@@ -218,12 +340,18 @@ export function initializeBookingRoutes(bookingController: BookingController): R
     celebrate({
       [Segments.PARAMS]: Joi.object({
         id: Joi.string().uuid().required()
+      }),
+      [Segments.BODY]: Joi.object({
+        arAccountId: Joi.string().uuid(),
+        folioId: Joi.string().uuid()
       })
     }),
     async (req: RequestWithUser, res, next) => {
       try {
         const booking = await bookingController.checkOut(req.params.id, {
-          userId: req.user?.id
+          userId: authenticatedUserId(req),
+          arAccountId: req.body?.arAccountId,
+          folioId: req.body?.folioId
         });
         res.json(booking);
       } catch (error) {
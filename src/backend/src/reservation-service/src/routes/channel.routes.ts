@@ -0,0 +1,141 @@
+/**
+ * @fileoverview Defines channel manager routes for receiving OTA reservations as JSON or
+ * OpenTravel XML, pulling reservations and monitoring the ARI outbox.
+ * @version 1.0.0
+ */
+
+// External imports
+import express, { Router } from 'express'; // v4.18.0
+import { celebrate, Joi, Segments } from 'celebrate'; // v15.0.1
+
+// Internal imports
+import { ChannelController } from '../controllers/channel.controller';
+import {
+  CONNECTED_CHANNELS,
+  ChannelOutboxStatus,
+  DistributionChannel,
+  OtaReservationAction
+} from '../models/channel.model';
+import { RoomType } from '../../../room-service/src/models/room.model';
+
+const channelValidation = celebrate({
+  [Segments.PARAMS]: Joi.object({
+    channel: Joi.string().valid(...CONNECTED_CHANNELS).required()
+  })
+});
+
+/**
+ * Initializes channel manager routes
+ * @param channelController - Instance of ChannelController
+ * @returns Configured Express router
+ */
+export function initializeChannelRoutes(channelController: ChannelController): Router {
+  const router = Router();
+
+  // List ARI outbox
+  router.get('/outbox',
+    celebrate({
+      [Segments.QUERY]: Joi.object({
+        status: Joi.string().valid(...Object.values(ChannelOutboxStatus)),
+        channel: Joi.string().valid(...Object.values(DistributionChannel))
+      })
+    }),
+    async (req, res, next) => {
+      try {
+        const messages = await channelController.findOutbox(req.query as any);
+        res.json(messages);
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  // Dispatch ARI outbox now
+  router.post('/outbox/dispatch',
+    async (req, res, next) => {
+      try {
+        const run = await channelController.dispatch();
+        res.json(run);
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  // Retry a failed ARI message
+  router.post('/outbox/:id/retry',
+    celebrate({
+      [Segments.PARAMS]: Joi.object({
+        id: Joi.string().uuid().required()
+      })
+    }),
+    async (req, res, next) => {
+      try {
+        const message = await channelController.retry(req.params.id);
+        res.json(message);
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  // Receive an OTA reservation, modification or cancellation
+  router.post('/:channel/reservations',
+    channelValidation,
+    celebrate({
+      [Segments.BODY]: Joi.object({
+        action: Joi.string().valid(...Object.values(OtaReservationAction)).required(),
+        confirmationNumber: Joi.string().max(64).required(),
+        revision: Joi.number().integer().min(1).required(),
+        guestId: Joi.string().uuid().required(),
+        guestName: Joi.string().max(200).required(),
+        roomType: Joi.string().valid(...Object.values(RoomType)).required(),
+        rateId: Joi.string().uuid().required(),
+        checkInDate: Joi.date().iso().required(),
+        checkOutDate: Joi.date().iso().greater(Joi.ref('checkInDate')).required(),
+        numberOfGuests: Joi.number().integer().min(1).required(),
+        totalAmount: Joi.number().min(0).required(),
+        currencyCode: Joi.string().length(3).required(),
+        specialRequests: Joi.string().max(1000),
+        cancellationReason: Joi.string().max(500)
+      })
+    }),
+    async (req, res, next) => {
+      try {
+        const result = await channelController.receive(req.params.channel as DistributionChannel, req.body);
+        res.json(result);
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  // Receive an OpenTravel XML message
+  router.post('/:channel/ota',
+    channelValidation,
+    express.text({ type: ['application/xml', 'text/xml'], limit: '1mb' }),
+    async (req, res, next) => {
+      try {
+        const response = await channelController.receiveOta(req.params.channel as DistributionChannel, req.body);
+        res.type('application/xml').send(response);
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  // Pull reservations waiting on a channel
+  router.post('/:channel/pull',
+    channelValidation,
+    async (req, res, next) => {
+      try {
+        const results = await channelController.pull(req.params.channel as DistributionChannel);
+        res.json(results);
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  return router;
+}
@@ -0,0 +1,150 @@
+/**
+ * @fileoverview Defines group block routes for contracting allotments, importing rooming lists
+ * and tracking pickup.
+ * @version 1.0.0
+ */
+
+// External imports
+import { Router } from 'express'; // v4.18.0
+import { celebrate, Joi, Segments } from 'celebrate'; // v15.0.1
+
+// Internal imports
+import { GroupBlockController } from '../controllers/group-block.controller';
+import { GroupBlockStatus } from '../models/group-block.model';
+import { RoomType } from '../../../room-service/src/models/room.model';
+import { RequestWithUser, authenticatedUserId } from '../../../shared/interfaces/base-controller.interface';
+
+const blockIdValidation = celebrate({
+  [Segments.PARAMS]: Joi.object({
+    id: Joi.string().uuid().required()
+  })
+});
+
+/**
+ * Initializes group block routes
+ * @param groupBlockController - Instance of GroupBlockController
+ * @returns Configured Express router
+ */
+export function initializeGroupBlockRoutes(groupBlockController: GroupBlockController): Router {
+  const router = Router();
+
+  // Contract group block
+  router.post('/',
+    celebrate({
+      [Segments.BODY]: Joi.object({
+        groupCode: Joi.string().alphanum().max(20).required(),
+        name: Joi.string().max(200).required(),
+        rateId: Joi.string().uuid().required(),
+        cutoffDate: Joi.date().iso().required(),
+        contactName: Joi.string().max(200),
+        contactEmail: Joi.string().email(),
+        notes: Joi.string(),
+        allotments: Joi.array().items(Joi.object({
+          roomType: Joi.string().valid(...Object.values(RoomType)).required(),
+          date: Joi.date().iso().required(),
+          rooms: Joi.number().integer().min(1).required()
+        })).min(1).required()
+      })
+    }),
+    async (req: RequestWithUser, res, next) => {
+      try {
+        const block = await groupBlockController.create({
+          ...req.body,
+          userId: authenticatedUserId(req)
+        });
+        res.status(201).json(block);
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  // List group blocks
+  router.get('/',
+    celebrate({
+      [Segments.QUERY]: Joi.object({
+        status: Joi.string().valid(...Object.values(GroupBlockStatus)),
+        groupCode: Joi.string().alphanum()
+      })
+    }),
+    async (req, res, next) => {
+      try {
+        const blocks = await groupBlockController.findAll(req.query);
+        res.json(blocks);
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  // Get group block
+  router.get('/:id',
+    blockIdValidation,
+    async (req, res, next) => {
+      try {
+        const block = await groupBlockController.findById(req.params.id);
+        res.json(block);
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  // Get pickup report
+  router.get('/:id/pickup',
+    blockIdValidation,
+    async (req, res, next) => {
+      try {
+        const report = await groupBlockController.pickup(req.params.id);
+        res.json(report);
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  // Import rooming list
+  router.post('/:id/rooming-list',
+    blockIdValidation,
+    celebrate({
+      [Segments.BODY]: Joi.object({
+        entries: Joi.array().items(Joi.object({
+          guestId: Joi.string().uuid().required(),
+          roomType: Joi.string().valid(...Object.values(RoomType)).required(),
+          checkInDate: Joi.date().iso().required(),
+          checkOutDate: Joi.date().iso().greater(Joi.ref('checkInDate')).required(),
+          numberOfGuests: Joi.number().integer().min(1).max(10).required(),
+          specialRequests: Joi.object()
+        })).min(1).max(500).required()
+      })
+    }),
+    async (req: RequestWithUser, res, next) => {
+      try {
+        const result = await groupBlockController.importRoomingList(req.params.id, {
+          entries: req.body.entries,
+          userId: authenticatedUserId(req)
+        });
+        res.json(result);
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  // Cancel group block
+  router.put('/:id/cancel',
+    blockIdValidation,
+    async (req: RequestWithUser, res, next) => {
+      try {
+        const block = await groupBlockController.cancel(req.params.id, {
+          userId: authenticatedUserId(req)
+        });
+        res.json(block);
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  return router;
+}
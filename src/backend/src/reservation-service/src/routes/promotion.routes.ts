@@ -0,0 +1,149 @@
+/**
+ * @fileoverview Defines promotion code routes for maintaining codes, checking them against a
+ * stay and reporting their redemptions.
+ * @version 1.0.0
+ */
+
+// External imports
+import { Router } from 'express'; // v4.18.0
+import { celebrate, Joi, Segments } from 'celebrate'; // v15.0.1
+
+// Internal imports
+import { PromotionController } from '../controllers/promotion.controller';
+import { RoomType } from '../../../room-service/src/models/room.model';
+
+/**
+ * Code as a guest enters it; shared with the booking and rate routes
+ */
+export const promoCodeSchema = Joi.string().trim().alphanum().max(20).uppercase();
+
+const idSchema = Joi.object({
+  id: Joi.string().uuid().required()
+});
+
+const promoConditions = {
+  name: Joi.string().max(100),
+  description: Joi.string().max(500).allow(null),
+  discountPercentage: Joi.number().greater(0).max(100),
+  validFrom: Joi.date().iso(),
+  validTo: Joi.date().iso().allow(null),
+  minimumLeadDays: Joi.number().integer().min(0).allow(null),
+  maximumLeadDays: Joi.number().integer().min(0).allow(null),
+  stayFrom: Joi.date().iso().allow(null),
+  stayTo: Joi.date().iso().allow(null),
+  minimumNights: Joi.number().integer().min(1).allow(null),
+  eligibleRoomTypes: Joi.array().items(Joi.string().valid(...Object.values(RoomType))).unique(),
+  maxRedemptions: Joi.number().integer().min(1).allow(null),
+  maxRedemptionsPerGuest: Joi.number().integer().min(1).allow(null),
+  stackable: Joi.boolean(),
+  appliesToPromotionalRates: Joi.boolean()
+};
+
+/**
+ * Initializes promotion code routes
+ * @param promotionController - Instance of PromotionController
+ * @returns Configured Express router
+ */
+export function initializePromotionRoutes(promotionController: PromotionController): Router {
+  const router = Router();
+
+  // List codes
+  router.get('/',
+    celebrate({
+      [Segments.QUERY]: Joi.object({
+        includeInactive: Joi.boolean()
+      })
+    }),
+    async (req, res, next) => {
+      try {
+        const promoCodes = await promotionController.findAll(req.query.includeInactive as unknown as boolean);
+        res.json(promoCodes);
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  // Create a code
+  router.post('/',
+    celebrate({
+      [Segments.BODY]: Joi.object({
+        ...promoConditions,
+        code: promoCodeSchema.required(),
+        name: promoConditions.name.required(),
+        discountPercentage: promoConditions.discountPercentage.required(),
+        validFrom: promoConditions.validFrom.required(),
+        createdBy: Joi.string().required()
+      })
+    }),
+    async (req, res, next) => {
+      try {
+        const promoCode = await promotionController.create(req.body);
+        res.status(201).json(promoCode);
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  // Check codes against a stay
+  router.post('/check',
+    celebrate({
+      [Segments.BODY]: Joi.object({
+        codes: Joi.array().items(promoCodeSchema).min(1).max(5).required(),
+        rateId: Joi.string().uuid().required(),
+        roomType: Joi.string().valid(...Object.values(RoomType)).required(),
+        checkInDate: Joi.date().iso().required(),
+        checkOutDate: Joi.date().iso().greater(Joi.ref('checkInDate')).required(),
+        guestId: Joi.string().uuid()
+      })
+    }),
+    async (req, res, next) => {
+      try {
+        const result = await promotionController.check(req.body);
+        res.json(result);
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  // Redemptions by code
+  router.get('/redemptions/report',
+    celebrate({
+      [Segments.QUERY]: Joi.object({
+        startDate: Joi.date().iso().required(),
+        endDate: Joi.date().iso().min(Joi.ref('startDate')).required()
+      })
+    }),
+    async (req, res, next) => {
+      try {
+        const report = await promotionController.getRedemptionReport(req.query as any);
+        res.json(report);
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  // Change a code
+  router.put('/:id',
+    celebrate({
+      [Segments.PARAMS]: idSchema,
+      [Segments.BODY]: Joi.object({
+        ...promoConditions,
+        isActive: Joi.boolean()
+      }).min(1)
+    }),
+    async (req, res, next) => {
+      try {
+        const promoCode = await promotionController.update(req.params.id, req.body);
+        res.json(promoCode);
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  return router;
+}
@@ -11,9 +11,102 @@ import { rateCache } from 'redis'; // v4.6.0
 
 // Internal imports
 import { RateController } from '../controllers/rate.controller';
+import { CancellationPenaltyType } from '../models/cancellation-policy.model';
+import { DepositCollectionMode, DepositRuleType } from '../models/payment-schedule.model';
+import { RateParityStatus } from '../models/rate-parity.model';
+import { RateDerivationType, RateRoundingMode } from '../models/rate-derivation.model';
+import { MAX_PACE_WINDOW_DAYS, YieldRuleFactor } from '../models/yield-rule.model';
+import { DistributionChannel } from '../models/channel.model';
+import { promoCodeSchema } from './promotion.routes';
+import { RoomType } from '../../../room-service/src/models/room.model';
 import { ErrorCode } from '../../../shared/constants/error-codes';
 import { DateFormat } from '../../../shared/utils/date.util';
 
+const penaltySchema = Joi.object({
+  type: Joi.string().valid(...Object.values(CancellationPenaltyType)).required(),
+  value: Joi.number().min(0).when('type', {
+    is: Joi.valid(CancellationPenaltyType.NIGHTS, CancellationPenaltyType.PERCENTAGE),
+    then: Joi.required(),
+    otherwise: Joi.default(0)
+  })
+});
+
+const cancellationPolicySchema = Joi.object({
+  freeCancellationHours: Joi.number().integer().min(0).required(),
+  cancellationPenalty: penaltySchema.required(),
+  noShowPenalty: penaltySchema.required(),
+  description: Joi.string().max(500)
+});
+
+const depositPolicySchema = Joi.object({
+  rules: Joi.array().items(Joi.object({
+    type: Joi.string().valid(...Object.values(DepositRuleType)).required(),
+    value: Joi.number().min(0).max(100).when('type', {
+      is: DepositRuleType.PERCENTAGE,
+      then: Joi.required()
+    }),
+    collectionMode: Joi.string().valid(...Object.values(DepositCollectionMode)).required(),
+    dueDaysAfterBooking: Joi.number().integer().min(0),
+    dueDaysBeforeArrival: Joi.number().integer().min(0)
+  })).min(1).required(),
+  description: Joi.string().max(500)
+});
+
+const includedAddOnSchema = Joi.object({
+  addOnId: Joi.string().uuid().required(),
+  quantity: Joi.number().integer().min(1)
+});
+
+const derivationSchema = Joi.object({
+  type: Joi.string().valid(...Object.values(RateDerivationType)).required(),
+  value: Joi.number().when('type', {
+    is: RateDerivationType.PERCENTAGE,
+    then: Joi.number().greater(-100)
+  }).required(),
+  persons: Joi.number().integer().min(1).when('type', {
+    is: RateDerivationType.PER_PERSON,
+    then: Joi.required(),
+    otherwise: Joi.forbidden()
+  }),
+  rounding: Joi.object({
+    mode: Joi.string().valid(...Object.values(RateRoundingMode)).required(),
+    increment: Joi.number().positive(),
+    ending: Joi.number().min(0).when('mode', {
+      is: RateRoundingMode.ENDING,
+      then: Joi.required(),
+      otherwise: Joi.forbidden()
+    })
+  }).allow(null)
+});
+
+const seasonalModifierSchema = Joi.object({
+  startDate: Joi.date().iso().required(),
+  endDate: Joi.date().iso().greater(Joi.ref('startDate')).required(),
+  adjustmentType: Joi.string().valid('PERCENTAGE', 'FIXED').required(),
+  adjustmentValue: Joi.number().required(),
+  description: Joi.string()
+});
+
+const yieldRuleSchema = Joi.object({
+  // Explanations are listed comma-separated on nightly prices
+  name: Joi.string().max(100).pattern(/^[^,]+$/).required(),
+  factor: Joi.string().valid(...Object.values(YieldRuleFactor)).required(),
+  min: Joi.number().min(0),
+  max: Joi.number().min(Joi.ref('min')),
+  daysOfWeek: Joi.array().items(Joi.number().integer().min(0).max(6)).min(1).unique().when('factor', {
+    is: YieldRuleFactor.DAY_OF_WEEK,
+    then: Joi.required(),
+    otherwise: Joi.forbidden()
+  }),
+  paceWindowDays: Joi.number().integer().min(1).max(MAX_PACE_WINDOW_DAYS).when('factor', {
+    is: YieldRuleFactor.BOOKING_PACE,
+    otherwise: Joi.forbidden()
+  }),
+  adjustmentType: Joi.string().valid('PERCENTAGE', 'FIXED').required(),
+  adjustmentValue: Joi.number().required(),
+  rateIds: Joi.array().items(Joi.string().uuid())
+});
+
 /**
  * Configures and returns the router with all rate-related routes
  * @param controller - Instance of RateController
@@ -33,20 +126,11 @@ export function setupRateRoutes(controller: RateController): Router {
         rateCode: Joi.string().required(),
         rateName: Joi.string().required(),
         baseRate: Joi.number().positive().required(),
-        taxRate: Joi.number().min(0).max(1).required(),
         effectiveFrom: Joi.date().iso().required(),
         effectiveTo: Joi.date().iso().greater(Joi.ref('effectiveFrom')).required(),
         type: Joi.string().valid(...Object.values(RateType)).required(),
         status: Joi.string().valid(...Object.values(RateStatus)).required(),
-        seasonalModifiers: Joi.array().items(
-          Joi.object({
-            startDate: Joi.date().iso().required(),
-            endDate: Joi.date().iso().greater(Joi.ref('startDate')).required(),
-            adjustmentType: Joi.string().valid('PERCENTAGE', 'FIXED').required(),
-            adjustmentValue: Joi.number().required(),
-            description: Joi.string()
-          })
-        ),
+        seasonalModifiers: Joi.array().items(seasonalModifierSchema),
         occupancyModifiers: Joi.array().items(
           Joi.object({
             occupancyThreshold: Joi.number().min(0).max(100).required(),
@@ -67,7 +151,13 @@ export function setupRateRoutes(controller: RateController): Router {
               closedToDeparture: Joi.boolean()
             })
           })
-        )
+        ),
+        cancellationPolicy: cancellationPolicySchema,
+        depositPolicy: depositPolicySchema,
+        includedAddOns: Joi.array().items(includedAddOnSchema).when('type', {
+          is: RateType.PACKAGE,
+          otherwise: Joi.forbidden()
+        })
       })
     }),
     controller.create
@@ -81,9 +171,14 @@ export function setupRateRoutes(controller: RateController): Router {
     celebrate({
       [Segments.QUERY]: Joi.object({
         roomTypeId: Joi.string().uuid().required(),
+        roomType: Joi.string().valid(...Object.values(RoomType))
+          .when('promoCodes', { is: Joi.exist(), then: Joi.required() }),
         checkInDate: Joi.date().iso().required(),
         checkOutDate: Joi.date().iso().greater(Joi.ref('checkInDate')).required(),
         channelId: Joi.string().required(),
+        guests: Joi.number().integer().min(1),
+        promoCodes: Joi.array().items(promoCodeSchema).single().max(5),
+        currency: Joi.string().pattern(/^[A-Z]{3}$/),
         occupancyData: Joi.object({
           currentOccupancy: Joi.number().min(0).max(100),
           forecastedOccupancy: Joi.number().min(0).max(100)
@@ -110,6 +205,87 @@ export function setupRateRoutes(controller: RateController): Router {
     controller.findAll
   );
 
+  /**
+   * GET /rates/parity-violations - List rate parity violations
+   * Lists open and resolved parity violations by rate, channel and night
+   */
+  router.get('/parity-violations',
+    celebrate({
+      [Segments.QUERY]: Joi.object({
+        status: Joi.string().valid(...Object.values(RateParityStatus)),
+        rateId: Joi.string().uuid(),
+        channel: Joi.string().valid(...Object.values(DistributionChannel)),
+        startDate: Joi.date().iso(),
+        endDate: Joi.date().iso().min(Joi.ref('startDate'))
+      })
+    }),
+    controller.findParityViolations
+  );
+
+  /**
+   * POST /rates/parity-check - Check rate parity
+   * Prices the coming nights of active rates on every parity channel now
+   */
+  router.post('/parity-check',
+    controller.checkParity
+  );
+
+  /**
+   * GET /rates/yield-rules - Get yield rules
+   * Retrieves the version of the yield rules in force
+   */
+  router.get('/yield-rules',
+    controller.getYieldRules
+  );
+
+  /**
+   * GET /rates/yield-rules/versions - List yield rule versions
+   * Lists earlier versions of the yield rules, most recent first
+   */
+  router.get('/yield-rules/versions',
+    celebrate({
+      [Segments.QUERY]: Joi.object({
+        limit: Joi.number().integer().min(1).max(100).default(20)
+      })
+    }),
+    controller.getYieldRuleVersions
+  );
+
+  /**
+   * PUT /rates/yield-rules - Update yield rules
+   * Replaces the yield rules with a new version pricing every rate from now on
+   */
+  router.put('/yield-rules',
+    celebrate({
+      [Segments.BODY]: Joi.object({
+        rules: Joi.array().items(yieldRuleSchema).required(),
+        userId: Joi.string().required(),
+        comment: Joi.string().max(500)
+      })
+    }),
+    controller.updateYieldRules
+  );
+
+  /**
+   * POST /rates/simulations - Simulate a pricing scenario
+   * Re-prices the bookings of a date range under candidate yield rules and seasonal modifiers
+   * and compares the projection with the live configuration; nothing is stored
+   */
+  router.post('/simulations',
+    celebrate({
+      [Segments.BODY]: Joi.object({
+        startDate: Joi.date().required(),
+        endDate: Joi.date().min(Joi.ref('startDate')).required(),
+        scenario: Joi.object({
+          yieldRules: Joi.array().items(yieldRuleSchema),
+          seasonalModifiers: Joi.object().pattern(Joi.string().uuid(), Joi.array().items(seasonalModifierSchema))
+        }).required(),
+        occupancyPercentage: Joi.number().min(0).max(100)
+      })
+    }),
+    controller.simulateRates
+  );
+
   /**
    * GET /rates/:id - Get rate by ID
    * Retrieves specific rate details
@@ -135,21 +311,67 @@ export function setupRateRoutes(controller: RateController): Router {
       [Segments.BODY]: Joi.object({
         baseRate: Joi.number().positive(),
         status: Joi.string().valid(...Object.values(RateStatus)),
-        seasonalModifiers: Joi.array().items(
-          Joi.object({
-            startDate: Joi.date().iso().required(),
-            endDate: Joi.date().iso().greater(Joi.ref('startDate')).required(),
-            adjustmentType: Joi.string().valid('PERCENTAGE', 'FIXED').required(),
-            adjustmentValue: Joi.number().required(),
-            description: Joi.string()
-          })
-        ),
-        channelRules: Joi.object()
+        seasonalModifiers: Joi.array().items(seasonalModifierSchema),
+        channelRules: Joi.object(),
+        cancellationPolicy: cancellationPolicySchema.allow(null),
+        depositPolicy: depositPolicySchema.allow(null),
+        includedAddOns: Joi.array().items(includedAddOnSchema).allow(null)
       })
     }),
     controller.update
   );
 
+  /**
+   * PUT /rates/:id/parent - Derive rate
+   * Prices the rate off a parent rate and recomputes its base rate and its descendants'
+   */
+  router.put('/:id/parent',
+    celebrate({
+      [Segments.PARAMS]: Joi.object({
+        id: Joi.string().uuid().required()
+      }),
+      [Segments.BODY]: Joi.object({
+        parentRateId: Joi.string().uuid().required(),
+        derivation: derivationSchema.required(),
+        userId: Joi.string().required()
+      })
+    }),
+    controller.linkRate
+  );
+
+  /**
+   * DELETE /rates/:id/parent - Unlink derived rate
+   * Prices the rate on its own from its current base rate
+   */
+  router.delete('/:id/parent',
+    celebrate({
+      [Segments.PARAMS]: Joi.object({
+        id: Joi.string().uuid().required()
+      }),
+      [Segments.BODY]: Joi.object({
+        userId: Joi.string().required()
+      })
+    }),
+    controller.unlinkRate
+  );
+
+  /**
+   * PUT /rates/:id/base-rate - Set base rate
+   * Sets the base rate and recomputes every rate derived from it, recording each change
+   */
+  router.put('/:id/base-rate',
+    celebrate({
+      [Segments.PARAMS]: Joi.object({
+        id: Joi.string().uuid().required()
+      }),
+      [Segments.BODY]: Joi.object({
+        baseRate: Joi.number().positive().required(),
+        userId: Joi.string().required()
+      })
+    }),
+    controller.updateBaseRate
+  );
+
   /**
    * POST /rates/sync - Synchronize channel rates
    * Synchronizes rates across all distribution channels
@@ -0,0 +1,86 @@
+/**
+ * @fileoverview Defines room assignment routes for the arrival assignment run and manual
+ * front desk assignment.
+ * @version 1.0.0
+ */
+
+// External imports
+import { Router } from 'express'; // v4.18.0
+import { celebrate, Joi, Segments } from 'celebrate'; // v15.0.1
+
+// Internal imports
+import { RoomAssignmentController } from '../controllers/room-assignment.controller';
+import { RequestWithUser, authenticatedUserId } from '../../../shared/interfaces/base-controller.interface';
+
+const bookingIdValidation = celebrate({
+  [Segments.PARAMS]: Joi.object({
+    bookingId: Joi.string().uuid().required()
+  })
+});
+
+/**
+ * Initializes room assignment routes
+ * @param roomAssignmentController - Instance of RoomAssignmentController
+ * @returns Configured Express router
+ */
+export function initializeRoomAssignmentRoutes(roomAssignmentController: RoomAssignmentController): Router {
+  const router = Router();
+
+  // Run assignment for upcoming arrivals
+  router.post('/run',
+    celebrate({
+      [Segments.BODY]: Joi.object({
+        daysAhead: Joi.number().integer().min(0).max(14)
+      })
+    }),
+    async (req: RequestWithUser, res, next) => {
+      try {
+        const result = await roomAssignmentController.run({
+          ...req.body,
+          userId: authenticatedUserId(req)
+        });
+        res.json(result);
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  // Assign room to booking
+  router.put('/:bookingId',
+    bookingIdValidation,
+    celebrate({
+      [Segments.BODY]: Joi.object({
+        roomId: Joi.string().uuid()
+      })
+    }),
+    async (req: RequestWithUser, res, next) => {
+      try {
+        const assignment = await roomAssignmentController.assign(req.params.bookingId, {
+          ...req.body,
+          userId: authenticatedUserId(req)
+        });
+        res.json(assignment);
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  // Unassign room from booking
+  router.delete('/:bookingId',
+    bookingIdValidation,
+    async (req: RequestWithUser, res, next) => {
+      try {
+        const booking = await roomAssignmentController.unassign(req.params.bookingId, {
+          userId: authenticatedUserId(req)
+        });
+        res.json(booking);
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  return router;
+}
@@ -0,0 +1,96 @@
+/**
+ * @fileoverview Defines stay restriction routes for maintaining the per-date minimum and maximum
+ * length of stay and closed-to-arrival/departure calendar of each rate and room type.
+ * @version 1.0.0
+ */
+
+// External imports
+import { Router } from 'express'; // v4.18.0
+import { celebrate, Joi, Segments } from 'celebrate'; // v15.0.1
+
+// Internal imports
+import { StayRestrictionController } from '../controllers/stay-restriction.controller';
+import { RoomType } from '../../../room-service/src/models/room.model';
+import { RequestWithUser, authenticatedUserId } from '../../../shared/interfaces/base-controller.interface';
+
+const rangeSchema = {
+  rateId: Joi.string().uuid().required(),
+  startDate: Joi.date().iso().required(),
+  endDate: Joi.date().iso().min(Joi.ref('startDate')).required()
+};
+
+/**
+ * Initializes stay restriction routes
+ * @param stayRestrictionController - Instance of StayRestrictionController
+ * @returns Configured Express router
+ */
+export function initializeStayRestrictionRoutes(stayRestrictionController: StayRestrictionController): Router {
+  const router = Router();
+
+  // Get restriction calendar
+  router.get('/',
+    celebrate({
+      [Segments.QUERY]: Joi.object({
+        ...rangeSchema,
+        roomType: Joi.string().valid(...Object.values(RoomType))
+      })
+    }),
+    async (req, res, next) => {
+      try {
+        const calendar = await stayRestrictionController.findCalendar(req.query as any);
+        res.json(calendar);
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  // Set restrictions on a date range
+  router.put('/',
+    celebrate({
+      [Segments.BODY]: Joi.object({
+        ...rangeSchema,
+        roomType: Joi.string().valid(...Object.values(RoomType)).required(),
+        daysOfWeek: Joi.array().items(Joi.number().integer().min(0).max(6)).unique(),
+        minimumLOS: Joi.number().integer().min(1).allow(null),
+        maximumLOS: Joi.number().integer().min(1).allow(null),
+        closedToArrival: Joi.boolean(),
+        closedToDeparture: Joi.boolean()
+      }).or('minimumLOS', 'maximumLOS', 'closedToArrival', 'closedToDeparture')
+    }),
+    async (req: RequestWithUser, res, next) => {
+      try {
+        const calendar = await stayRestrictionController.set({
+          ...req.body,
+          userId: authenticatedUserId(req)
+        });
+        res.json(calendar);
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  // Clear restrictions from a date range
+  router.delete('/',
+    celebrate({
+      [Segments.BODY]: Joi.object({
+        ...rangeSchema,
+        roomType: Joi.string().valid(...Object.values(RoomType)).required()
+      })
+    }),
+    async (req: RequestWithUser, res, next) => {
+      try {
+        const result = await stayRestrictionController.clear({
+          ...req.body,
+          userId: authenticatedUserId(req)
+        });
+        res.json(result);
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  return router;
+}
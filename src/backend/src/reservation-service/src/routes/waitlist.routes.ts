@@ -0,0 +1,123 @@
+/**
+ * @fileoverview Defines waitlist routes for placing guests on sold-out dates and handling
+ * timed room offers.
+ * @version 1.0.0
+ */
+
+// External imports
+import { Router } from 'express'; // v4.18.0
+import { celebrate, Joi, Segments } from 'celebrate'; // v15.0.1
+
+// Internal imports
+import { WaitlistController } from '../controllers/waitlist.controller';
+import { WaitlistStatus } from '../models/waitlist.model';
+import { RoomType } from '../../../room-service/src/models/room.model';
+import { RequestWithUser, authenticatedUserId } from '../../../shared/interfaces/base-controller.interface';
+
+const entryIdValidation = celebrate({
+  [Segments.PARAMS]: Joi.object({
+    id: Joi.string().uuid().required()
+  })
+});
+
+/**
+ * Initializes waitlist routes
+ * @param waitlistController - Instance of WaitlistController
+ * @returns Configured Express router
+ */
+export function initializeWaitlistRoutes(waitlistController: WaitlistController): Router {
+  const router = Router();
+
+  // Join waitlist
+  router.post('/',
+    celebrate({
+      [Segments.BODY]: Joi.object({
+        guestId: Joi.string().uuid().required(),
+        rateId: Joi.string().uuid().required(),
+        roomType: Joi.string().valid(...Object.values(RoomType)).required(),
+        checkInDate: Joi.date().iso().required(),
+        checkOutDate: Joi.date().iso().greater(Joi.ref('checkInDate')).required(),
+        numberOfGuests: Joi.number().integer().min(1).required(),
+        bookingSource: Joi.string().required(),
+        priority: Joi.number().integer().min(0),
+        notes: Joi.string()
+      })
+    }),
+    async (req: RequestWithUser, res, next) => {
+      try {
+        const entry = await waitlistController.join({
+          ...req.body,
+          userId: authenticatedUserId(req)
+        });
+        res.status(201).json(entry);
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  // List waitlist entries
+  router.get('/',
+    celebrate({
+      [Segments.QUERY]: Joi.object({
+        roomType: Joi.string().valid(...Object.values(RoomType)),
+        status: Joi.string().valid(...Object.values(WaitlistStatus))
+      })
+    }),
+    async (req, res, next) => {
+      try {
+        const entries = await waitlistController.findAll(req.query);
+        res.json(entries);
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  // Accept room offer
+  router.put('/:id/accept',
+    entryIdValidation,
+    async (req: RequestWithUser, res, next) => {
+      try {
+        const entry = await waitlistController.accept(req.params.id, {
+          userId: authenticatedUserId(req)
+        });
+        res.json(entry);
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  // Decline room offer
+  router.put('/:id/decline',
+    entryIdValidation,
+    async (req: RequestWithUser, res, next) => {
+      try {
+        const entry = await waitlistController.decline(req.params.id, {
+          userId: authenticatedUserId(req)
+        });
+        res.json(entry);
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  // Cancel waitlist entry
+  router.put('/:id/cancel',
+    entryIdValidation,
+    async (req: RequestWithUser, res, next) => {
+      try {
+        const entry = await waitlistController.cancel(req.params.id, {
+          userId: authenticatedUserId(req)
+        });
+        res.json(entry);
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  return router;
+}
@@ -0,0 +1,423 @@
+/**
+ * @fileoverview Add-on service keeping the catalog of products sold with bookings, pricing them
+ * per stay, night or guest with the tax engine, and holding their daily inventory. Inventory is
+ * counted per service date and guarded against concurrent updates like room-type inventory.
+ * @version 1.0.0
+ */
+
+// External imports
+import { Injectable, Logger } from '@nestjs/common'; // v10.0.0
+import { Prisma, PrismaClient } from '@prisma/client'; // v5.0.0
+import { addDays, eachDayOfInterval, format, startOfDay } from 'date-fns'; // v2.30.0
+
+// Internal imports
+import { prisma as reservationPrisma } from '../config/database';
+import {
+  AddOn,
+  AddOnAvailability,
+  AddOnInventory,
+  AddOnLine,
+  AddOnPricing,
+  AddOnQuote,
+  AddOnSelection,
+  AddOnStay,
+  BookingAddOn,
+  CreateAddOnDto,
+  PackageInclusion
+} from '../models/add-on.model';
+import { Rate } from '../models/rate.model';
+import { TaxCalculationService } from '../../../shared/services/tax-calculation.service';
+import { ErrorCode, createErrorDetails } from '../../../shared/constants/error-codes';
+
+/**
+ * Client used for inventory reads and writes; a transaction client when called inside a booking transaction
+ */
+type AddOnClient = PrismaClient | Prisma.TransactionClient;
+
+/**
+ * Units of one add-on on one service date
+ */
+interface ServiceDateUnits {
+  addOnId: string;
+  date: Date;
+  units: number;
+}
+
+/**
+ * Service managing the add-on catalog, pricing and inventory
+ */
+@Injectable()
+export class AddOnService {
+  private readonly logger = new Logger(AddOnService.name);
+
+  constructor(
+    private readonly prisma: PrismaClient = reservationPrisma,
+    private readonly taxes: TaxCalculationService = new TaxCalculationService(prisma)
+  ) {}
+
+  /**
+   * Lists the catalog ordered by name
+   * @param activeOnly - Leave out add-ons no longer sold
+   */
+  async listAddOns(activeOnly = true): Promise<AddOn[]> {
+    return this.prisma.addOn.findMany({
+      where: activeOnly ? { isActive: true } : {},
+      orderBy: { name: 'asc' }
+    }) as Promise<AddOn[]>;
+  }
+
+  /**
+   * Adds an add-on to the catalog
+   * @throws ErrorCode.VALIDATION_ERROR if the price or daily limit is invalid
+   * @throws ErrorCode.RESOURCE_CONFLICT if the code is already used
+   */
+  async createAddOn(data: CreateAddOnDto): Promise<AddOn> {
+    this.validateAddOn(data);
+
+    const existing = await this.prisma.addOn.findFirst({ where: { code: data.code } });
+    if (existing) {
+      throw createErrorDetails(ErrorCode.RESOURCE_CONFLICT, {
+        message: `Add-on code ${data.code} is already used`,
+        addOnId: existing.id
+      });
+    }
+
+    const addOn = await this.prisma.addOn.create({
+      data: {
+        ...data,
+        description: data.description ?? null,
+        dailyLimit: data.dailyLimit ?? null,
+        isActive: true
+      }
+    }) as AddOn;
+
+    this.logger.log(`Add-on ${addOn.code} added at ${addOn.price} ${addOn.pricing}`);
+    return addOn;
+  }
+
+  /**
+   * Changes an add-on. New prices apply to bookings made from now on; booked add-ons keep theirs.
+   * @throws ErrorCode.RESOURCE_NOT_FOUND if the add-on does not exist
+   * @throws ErrorCode.VALIDATION_ERROR if the price or daily limit is invalid
+   */
+  async updateAddOn(id: string, data: Partial<CreateAddOnDto> & { isActive?: boolean }): Promise<AddOn> {
+    await this.getAddOn(id);
+    this.validateAddOn(data);
+
+    return this.prisma.addOn.update({
+      where: { id },
+      data: { ...data, updatedAt: new Date() }
+    }) as Promise<AddOn>;
+  }
+
+  /**
+   * Returns the units left on each date of a range
+   * @param addOnId - Add-on
+   * @param startDate - First date
+   * @param endDate - Last date
+   * @throws ErrorCode.RESOURCE_NOT_FOUND if the add-on does not exist
+   */
+  async getAvailability(addOnId: string, startDate: Date, endDate: Date): Promise<AddOnAvailability[]> {
+    const addOn = await this.getAddOn(addOnId);
+    const dates = eachDayOfInterval({ start: startOfDay(startDate), end: startOfDay(endDate) });
+    const rows = await this.prisma.addOnInventory.findMany({
+      where: { addOnId, date: { in: dates } }
+    }) as AddOnInventory[];
+
+    return dates.map(date => {
+      const allocatedUnits = rows.find(row => row.date.getTime() === date.getTime())?.allocatedUnits ?? 0;
+      return {
+        addOnId: addOn.id,
+        date,
+        dailyLimit: addOn.dailyLimit,
+        allocatedUnits,
+        availableUnits: addOn.dailyLimit === null ? null : Math.max(0, addOn.dailyLimit - allocatedUnits)
+      };
+    });
+  }
+
+  /**
+   * Prices the add-ons of a stay: those chosen by the guest and those a package rate includes.
+   * Each add-on gets a line per service date, taxed with the rules of its charge category.
+   * Inventory is checked but not held.
+   * @param selections - Add-ons chosen by the guest
+   * @param stay - Stay dates, guests and the rate whose package inclusions are added
+   * @throws ErrorCode.VALIDATION_ERROR if an add-on is repeated, not sold or served outside the stay
+   * @throws ErrorCode.RESOURCE_CONFLICT if an add-on is sold out on a service date
+   */
+  async quote(selections: AddOnSelection[], stay: AddOnStay): Promise<AddOnQuote> {
+    const nights = this.nightsOf(stay.checkInDate, stay.checkOutDate);
+    const inclusions = stay.rateId ? await this.getPackageInclusions(stay.rateId) : [];
+    const requested = [
+      ...inclusions.map(inclusion => ({ selection: inclusion, included: true })),
+      ...selections.map(selection => ({ selection, included: false }))
+    ];
+
+    if (requested.length === 0 || nights.length === 0) {
+      return { lines: [], amount: 0, taxAmount: 0, totalAmount: 0 };
+    }
+
+    // Each add-on is posted once per service date, so more units are asked for with a quantity
+    const chosen = selections.map(selection => selection.addOnId);
+    const repeated = chosen.find((addOnId, index) => chosen.indexOf(addOnId) !== index);
+    if (repeated) {
+      throw createErrorDetails(ErrorCode.VALIDATION_ERROR, {
+        message: 'Add-on chosen more than once; use a quantity instead',
+        addOnId: repeated
+      });
+    }
+
+    const addOns = await this.prisma.addOn.findMany({
+      where: { id: { in: Array.from(new Set(requested.map(({ selection }) => selection.addOnId))) } }
+    }) as AddOn[];
+
+    const lines = requested.flatMap(({ selection, included }) => {
+      const addOn = addOns.find(candidate => candidate.id === selection.addOnId);
+      if (!addOn || !addOn.isActive) {
+        throw createErrorDetails(ErrorCode.VALIDATION_ERROR, {
+          message: 'Add-on is not sold',
+          addOnId: selection.addOnId
+        });
+      }
+      return this.linesFor(addOn, selection, included, nights, stay.numberOfGuests);
+    });
+
+    await this.checkAvailability(this.prisma, addOns, lines);
+
+    // Included add-ons are priced and taxed in the package's room rate
+    const sold = lines.filter(line => !line.included);
+    const taxes = await this.taxes.calculate(sold.map(line => ({
+      category: line.chargeCategory,
+      amount: line.amount,
+      date: line.serviceDate,
+      persons: stay.numberOfGuests
+    })));
+    sold.forEach((line, index) => {
+      line.amount = taxes[index].netAmount;
+      line.taxAmount = taxes[index].taxAmount;
+      line.taxLines = taxes[index].lines;
+      line.totalAmount = taxes[index].grossAmount;
+    });
+
+    const sum = (amount: (line: AddOnLine) => number) => this.round(lines.reduce((total, line) => total + amount(line), 0));
+
+    return {
+      lines,
+      amount: sum(line => line.amount),
+      taxAmount: sum(line => line.taxAmount),
+      totalAmount: sum(line => line.totalAmount)
+    };
+  }
+
+  /**
+   * Holds the units of every line on its service date
+   * @param lines - Priced add-on lines of a booking
+   * @param client - Transaction client of the booking
+   * @throws ErrorCode.RESOURCE_CONFLICT if an add-on is sold out on a service date
+   */
+  async allocate(lines: AddOnLine[], client: Prisma.TransactionClient): Promise<void> {
+    if (lines.length === 0) {
+      return;
+    }
+
+    const addOns = await client.addOn.findMany({
+      where: { id: { in: Array.from(new Set(lines.map(line => line.addOnId))) } }
+    }) as AddOn[];
+
+    for (const { addOnId, date, units } of this.unitsByDate(lines)) {
+      const addOn = addOns.find(candidate => candidate.id === addOnId)!;
+      const row = await client.addOnInventory.upsert({
+        where: { addOnId_date: { addOnId, date } },
+        create: { addOnId, date, allocatedUnits: 0 },
+        update: {}
+      }) as AddOnInventory;
+
+      if (addOn.dailyLimit !== null && row.allocatedUnits + units > addOn.dailyLimit) {
+        throw this.soldOutError(addOn, date);
+      }
+
+      // Guard on the count we read so a concurrent booking cannot oversell the date
+      const { count } = await client.addOnInventory.updateMany({
+        where: { id: row.id, allocatedUnits: row.allocatedUnits },
+        data: { allocatedUnits: { increment: units } }
+      });
+
+      if (count === 0) {
+        throw this.soldOutError(addOn, date);
+      }
+    }
+  }
+
+  /**
+   * Returns the units of a booking's add-ons to inventory
+   * @param bookingId - Booking
+   * @param client - Client of the booking change; a transaction client when called inside one
+   * @param fromDate - First service date released; every date when omitted
+   */
+  async release(bookingId: string, client: AddOnClient, fromDate?: Date): Promise<void> {
+    const lines = await client.bookingAddOn.findMany({
+      where: {
+        bookingId,
+        ...(fromDate && { serviceDate: { gte: startOfDay(fromDate) } })
+      }
+    }) as BookingAddOn[];
+
+    for (const { addOnId, date, units } of this.unitsByDate(lines)) {
+      const { count } = await client.addOnInventory.updateMany({
+        where: { addOnId, date, allocatedUnits: { gte: units } },
+        data: { allocatedUnits: { decrement: units } }
+      });
+
+      if (count === 0) {
+        this.logger.warn(`Could not release ${units} unit(s) of add-on ${addOnId} on ${format(date, 'yyyy-MM-dd')}`);
+      }
+    }
+  }
+
+  /**
+   * Builds the lines of one add-on: one per night for nightly add-ons, one on the service date
+   * otherwise
+   */
+  private linesFor(
+    addOn: AddOn,
+    selection: AddOnSelection,
+    included: boolean,
+    nights: Date[],
+    guests: number
+  ): AddOnLine[] {
+    const quantity = selection.quantity ?? 1;
+    const perPerson = addOn.pricing === AddOnPricing.PER_PERSON || addOn.pricing === AddOnPricing.PER_PERSON_PER_NIGHT;
+    const nightly = addOn.pricing === AddOnPricing.PER_NIGHT || addOn.pricing === AddOnPricing.PER_PERSON_PER_NIGHT;
+    const units = quantity * (perPerson ? guests : 1);
+    const unitPrice = included ? 0 : addOn.price;
+
+    let dates = nights;
+    if (!nightly) {
+      const serviceDate = selection.serviceDate ? startOfDay(selection.serviceDate) : nights[0];
+      if (!nights.some(night => night.getTime() === serviceDate.getTime())) {
+        throw createErrorDetails(ErrorCode.VALIDATION_ERROR, {
+          message: `${addOn.name} must be served during the stay`,
+          addOnId: addOn.id,
+          serviceDate: format(serviceDate, 'yyyy-MM-dd')
+        });
+      }
+      dates = [serviceDate];
+    }
+
+    return dates.map(serviceDate => ({
+      addOnId: addOn.id,
+      code: addOn.code,
+      name: addOn.name,
+      serviceDate,
+      units,
+      unitPrice,
+      included,
+      chargeCategory: addOn.chargeCategory,
+      department: addOn.department,
+      amount: this.round(unitPrice * units),
+      taxAmount: 0,
+      taxLines: [],
+      totalAmount: this.round(unitPrice * units)
+    }));
+  }
+
+  /**
+   * Checks that every limited add-on has the units left on its service dates
+   */
+  private async checkAvailability(client: AddOnClient, addOns: AddOn[], lines: AddOnLine[]): Promise<void> {
+    const limited = this.unitsByDate(lines).filter(({ addOnId }) =>
+      addOns.find(addOn => addOn.id === addOnId)?.dailyLimit !== null
+    );
+    if (limited.length === 0) {
+      return;
+    }
+
+    const rows = await client.addOnInventory.findMany({
+      where: {
+        addOnId: { in: limited.map(({ addOnId }) => addOnId) },
+        date: { in: limited.map(({ date }) => date) }
+      }
+    }) as AddOnInventory[];
+
+    for (const { addOnId, date, units } of limited) {
+      const addOn = addOns.find(candidate => candidate.id === addOnId)!;
+      const allocated = rows.find(row => row.addOnId === addOnId && row.date.getTime() === date.getTime())?.allocatedUnits ?? 0;
+      if (allocated + units > addOn.dailyLimit!) {
+        throw this.soldOutError(addOn, date);
+      }
+    }
+  }
+
+  private async getPackageInclusions(rateId: string): Promise<PackageInclusion[]> {
+    const rate = await this.prisma.rate.findUnique({
+      where: { id: rateId },
+      select: { includedAddOns: true }
+    }) as Pick<Rate, 'includedAddOns'> | null;
+
+    return rate?.includedAddOns ?? [];
+  }
+
+  private async getAddOn(id: string): Promise<AddOn> {
+    const addOn = await this.prisma.addOn.findUnique({ where: { id } }) as AddOn | null;
+    if (!addOn) {
+      throw createErrorDetails(ErrorCode.RESOURCE_NOT_FOUND, {
+        message: 'Add-on not found',
+        addOnId: id
+      });
+    }
+    return addOn;
+  }
+
+  private validateAddOn(data: Partial<CreateAddOnDto>): void {
+    if (data.price !== undefined && data.price < 0) {
+      throw createErrorDetails(ErrorCode.VALIDATION_ERROR, {
+        message: 'Add-on price cannot be negative',
+        price: data.price
+      });
+    }
+
+    if (data.dailyLimit !== undefined && data.dailyLimit !== null && data.dailyLimit < 1) {
+      throw createErrorDetails(ErrorCode.VALIDATION_ERROR, {
+        message: 'Daily limit must be at least one unit; leave it empty for unlimited add-ons',
+        dailyLimit: data.dailyLimit
+      });
+    }
+  }
+
+  /**
+   * Totals the units of lines by add-on and service date
+   */
+  private unitsByDate(lines: Pick<AddOnLine, 'addOnId' | 'serviceDate' | 'units'>[]): ServiceDateUnits[] {
+    const totals = new Map<string, ServiceDateUnits>();
+
+    for (const line of lines) {
+      const key = `${line.addOnId}:${format(line.serviceDate, 'yyyy-MM-dd')}`;
+      const total = totals.get(key);
+      if (total) {
+        total.units += line.units;
+      } else {
+        totals.set(key, { addOnId: line.addOnId, date: startOfDay(line.serviceDate), units: line.units });
+      }
+    }
+
+    return Array.from(totals.values());
+  }
+
+  private soldOutError(addOn: AddOn, date: Date) {
+    return createErrorDetails(ErrorCode.RESOURCE_CONFLICT, {
+      message: `${addOn.name} is sold out on ${format(date, 'yyyy-MM-dd')}`,
+      addOnId: addOn.id,
+      date: format(date, 'yyyy-MM-dd')
+    });
+  }
+
+  private nightsOf(checkInDate: Date, checkOutDate: Date): Date[] {
+    const firstNight = startOfDay(checkInDate);
+    const lastNight = addDays(startOfDay(checkOutDate), -1);
+    return lastNight < firstNight ? [] : eachDayOfInterval({ start: firstNight, end: lastNight });
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+}
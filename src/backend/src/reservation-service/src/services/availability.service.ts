@@ -13,10 +13,15 @@ import { createClient } from 'redis'; // v4.6.0
 
 // Internal imports
 import { BaseService } from '../../../shared/interfaces/base-service.interface';
-import { Booking, BookingStatus } from '../models/booking.model';
+import { Booking, INVENTORY_HOLDING_STATUSES } from '../models/booking.model';
 import { RoomModel, RoomStatus, RoomType } from '../../../room-service/src/models/room.model';
 import { Rate, RateStatus } from '../models/rate.model';
 import { ErrorCode } from '../../../shared/constants/error-codes';
+import { prisma as reservationPrisma } from '../config/database';
+import { BusinessDateService } from '../../../shared/services/business-date.service';
+import { InventoryService } from './inventory.service';
+import { StayRestrictionService } from './stay-restriction.service';
+import { RestrictionViolation } from '../models/stay-restriction.model';
 
 /**
  * Interface defining availability search criteria
@@ -42,6 +47,8 @@ interface AvailabilityResult {
   dynamicRate: number;
   isAvailable: boolean;
   unavailableDates: string[];
+  /** Stay restrictions of the room's rate the searched stay fails */
+  restrictionViolations: RestrictionViolation[];
   maintenanceBlocks?: {
     startDate: Date;
     endDate: Date;
@@ -83,7 +90,10 @@ export class AvailabilityService implements BaseService<AvailabilityResult> {
   constructor(
     private readonly bookingModel: typeof Booking,
     private readonly roomModel: typeof RoomModel,
-    private readonly rateModel: typeof Rate
+    private readonly rateModel: typeof Rate,
+    private readonly inventoryService: InventoryService = new InventoryService(),
+    private readonly stayRestrictions: StayRestrictionService = new StayRestrictionService(),
+    private readonly businessDates: BusinessDateService = new BusinessDateService(reservationPrisma)
   ) {
     this.availabilityStream = new Subject<AvailabilityUpdate>();
     this.cacheClient = createClient({
@@ -133,8 +143,9 @@ export class AvailabilityService implements BaseService<AvailabilityResult> {
   private async performAvailabilityCheck(filter: AvailabilityFilter): Promise<AvailabilityResult[]> {
     const { startDate, endDate, roomType, guests } = filter;
 
-    // Validate date range
-    if (!this.isValidDateRange(startDate, endDate)) {
+    // Validate date range against the hotel business date
+    const businessDate = await this.businessDates.getBusinessDate();
+    if (!this.isValidDateRange(startDate, endDate, businessDate)) {
       throw new Error(ErrorCode.VALIDATION_ERROR);
     }
 
@@ -148,26 +159,42 @@ export class AvailabilityService implements BaseService<AvailabilityResult> {
       }
     });
 
-    // Get existing bookings for date range
-    const bookings = await this.bookingModel.findAll({
-      where: {
-        status: {
-          in: [
-            BookingStatus.CONFIRMED,
-            BookingStatus.CHECKED_IN,
-            BookingStatus.PENDING_CONFIRMATION
-          ]
-        },
-        checkInDate: { lte: endDate },
-        checkOutDate: { gte: startDate }
+    // Rooms of a type are interchangeable until assignment, so availability comes from
+    // the room-type inventory rather than from bookings on individual rooms
+    const roomTypes = Array.from(new Set(rooms.map((room) => room.type)));
+    const soldOutDates = new Map<RoomType, string[]>(
+      await Promise.all(roomTypes.map(async (type): Promise<[RoomType, string[]]> => {
+        const nights = await this.inventoryService.getAvailability(type, startDate, endDate);
+        return [
+          type,
+          nights
+            .filter((night) => night.availableRooms < 1)
+            .map((night) => dayjs(night.date).format('YYYY-MM-DD'))
+        ];
+      }))
+    );
+
+    // Restrictions are set per rate and room type, so rooms sharing both share the outcome
+    const restrictionChecks = new Map<string, Promise<RestrictionViolation[]>>();
+    const findViolations = (rateId: string, type: RoomType): Promise<RestrictionViolation[]> => {
+      const key = `${rateId}:${type}`;
+      if (!restrictionChecks.has(key)) {
+        restrictionChecks.set(key, this.stayRestrictions.findViolations({
+          rateId,
+          roomType: type,
+          checkInDate: startDate,
+          checkOutDate: endDate,
+          channel: 'DIRECT'
+        }));
       }
-    });
+      return restrictionChecks.get(key) as Promise<RestrictionViolation[]>;
+    };
 
     // Calculate availability for each room
     const availabilityResults = await Promise.all(
       rooms.map(async (room) => {
-        const roomBookings = bookings.filter((b) => b.roomId === room.id);
-        const unavailableDates = this.calculateUnavailableDates(roomBookings, startDate, endDate);
+        const unavailableDates = soldOutDates.get(room.type) || [];
+        const restrictionViolations = await findViolations(room.rateId, room.type);
         
         // Calculate dynamic rate
         const baseRate = await this.rateModel.calculateRate(
@@ -184,8 +211,9 @@ export class AvailabilityService implements BaseService<AvailabilityResult> {
           roomType: room.type,
           baseRate,
           dynamicRate: this.applyDynamicPricing(baseRate, await this.getCurrentOccupancy()),
-          isAvailable: unavailableDates.length === 0,
+          isAvailable: unavailableDates.length === 0 && restrictionViolations.length === 0,
           unavailableDates,
+          restrictionViolations,
           maintenanceBlocks: filter.includeMaintenanceBlocks ? room.maintenanceHistory.records : undefined,
           amenities: room.amenities
         };
@@ -232,6 +260,23 @@ export class AvailabilityService implements BaseService<AvailabilityResult> {
     );
   }
 
+  /**
+   * Validates that a room type has enough rooms left on every night of a stay
+   */
+  public validateRoomTypeAvailability(
+    roomType: RoomType,
+    checkIn: Date,
+    checkOut: Date,
+    rooms = 1
+  ): Observable<boolean> {
+    return from(this.inventoryService.hasAvailability(roomType, checkIn, checkOut, rooms)).pipe(
+      catchError((error) => {
+        console.error('Room type availability validation failed:', error);
+        throw new Error(ErrorCode.INTERNAL_SERVER_ERROR);
+      })
+    );
+  }
+
   /**
    * Generates cache key for availability results
    */
@@ -244,38 +289,11 @@ export class AvailabilityService implements BaseService<AvailabilityResult> {
   /**
    * Validates date range for availability check
    */
-  private isValidDateRange(startDate: Date, endDate: Date): boolean {
+  private isValidDateRange(startDate: Date, endDate: Date, businessDate: Date): boolean {
     return dayjs(startDate).isValid() &&
            dayjs(endDate).isValid() &&
            dayjs(startDate).isBefore(endDate) &&
-           dayjs(startDate).isAfter(dayjs().startOf('day').subtract(1, 'day'));
-  }
-
-  /**
-   * Calculates unavailable dates for a room
-   */
-  private calculateUnavailableDates(
-    bookings: Booking[],
-    startDate: Date,
-    endDate: Date
-  ): string[] {
-    const unavailableDates: string[] = [];
-    const currentDate = dayjs(startDate);
-    const end = dayjs(endDate);
-
-    while (currentDate.isBefore(end)) {
-      const dateStr = currentDate.format('YYYY-MM-DD');
-      const isBooked = bookings.some((booking) =>
-        currentDate.isBetween(booking.checkInDate, booking.checkOutDate, 'day', '[]')
-      );
-
-      if (isBooked) {
-        unavailableDates.push(dateStr);
-      }
-      currentDate.add(1, 'day');
-    }
-
-    return unavailableDates;
+           dayjs(startDate).isAfter(dayjs(businessDate).startOf('day').subtract(1, 'day'));
   }
 
   /**
@@ -289,7 +307,7 @@ export class AvailabilityService implements BaseService<AvailabilityResult> {
   /**
    * Calculates current occupancy percentage
    */
-  private async getCurrentOccupancy(): Promise<number> {
+  async getCurrentOccupancy(): Promise<number> {
     const [totalRooms, occupiedRooms] = await Promise.all([
       this.roomModel.count({ where: { isActive: true } }),
       this.roomModel.count({
@@ -325,13 +343,7 @@ export class AvailabilityService implements BaseService<AvailabilityResult> {
     const bookings = await this.bookingModel.findAll({
       where: {
         roomId: { in: roomIds },
-        status: {
-          in: [
-            BookingStatus.CONFIRMED,
-            BookingStatus.CHECKED_IN,
-            BookingStatus.PENDING_CONFIRMATION
-          ]
-        },
+        status: { in: INVENTORY_HOLDING_STATUSES },
         checkInDate: { lte: checkOut },
         checkOutDate: { gte: checkIn }
       }
@@ -0,0 +1,250 @@
+/**
+ * @fileoverview Cancellation policy engine evaluating the rate's cancellation policy when a
+ * booking is cancelled or becomes a no-show, posting the penalty to the guest folio and
+ * refunding captured deposit in excess of the penalty through the payment gateway.
+ * @version 1.0.0
+ */
+
+// External imports
+import { Injectable, Logger } from '@nestjs/common'; // v10.0.0
+import { Prisma, PrismaClient } from '@prisma/client'; // v5.0.0
+import { differenceInCalendarDays, differenceInHours } from 'date-fns'; // v2.30.0
+
+// Internal imports
+import { prisma as reservationPrisma } from '../config/database';
+import { Booking } from '../models/booking.model';
+import { Rate } from '../models/rate.model';
+import {
+  CancellationPenalty,
+  CancellationPenaltyType,
+  CancellationPolicy,
+  PenaltyAssessment,
+  PenaltyRefund,
+  PenaltySettlement,
+  PenaltyTrigger,
+  CANCELLATION_PENALTY_REFERENCE_PREFIX,
+  DEFAULT_CANCELLATION_POLICY,
+  NO_SHOW_PENALTY_REFERENCE_PREFIX
+} from '../models/cancellation-policy.model';
+import { PaymentGatewayService } from '../../../billing-service/src/services/payment-gateway.service';
+import { Payment, PaymentStatus } from '../../../billing-service/src/models/payment.model';
+import { Folio, FolioCharge, FolioStatus } from '../../../billing-service/src/models/folio.model';
+import { FolioPostingService } from '../../../billing-service/src/services/folio-posting.service';
+import { ROOM_CHARGE_CATEGORY, ROOM_CHARGE_DEPARTMENT } from '../../../shared/models/charge-category.model';
+import { BusinessDateService } from '../../../shared/services/business-date.service';
+
+/**
+ * Payment statuses whose remaining amount can still be refunded
+ */
+const REFUNDABLE_PAYMENT_STATUSES = [PaymentStatus.CAPTURED, PaymentStatus.PARTIALLY_REFUNDED];
+
+/**
+ * Service evaluating and settling cancellation and no-show penalties
+ */
+@Injectable()
+export class CancellationPolicyService {
+  private readonly logger = new Logger(CancellationPolicyService.name);
+
+  constructor(
+    private readonly paymentGateway: PaymentGatewayService,
+    private readonly prisma: PrismaClient = reservationPrisma,
+    private readonly businessDates: BusinessDateService = new BusinessDateService(prisma),
+    private readonly folioPosting: FolioPostingService = new FolioPostingService(prisma, businessDates)
+  ) {}
+
+  /**
+   * Evaluates the booking rate's policy for a cancellation or no-show
+   * @param booking - Booking being cancelled or flagged as no-show
+   * @param trigger - Event the penalty is assessed for
+   * @param at - Time of the event
+   */
+  async assess(booking: Booking, trigger: PenaltyTrigger, at: Date = new Date()): Promise<PenaltyAssessment> {
+    const policy = await this.getPolicy(booking.rateId);
+
+    // A no-show is past arrival by definition, so only cancellations can fall inside the window;
+    // a non-refundable rate has no window at all
+    const withinFreeWindow = trigger === PenaltyTrigger.CANCELLATION &&
+      policy.freeCancellationHours > 0 &&
+      differenceInHours(booking.checkInDate, at) >= policy.freeCancellationHours;
+
+    const penalty = trigger === PenaltyTrigger.NO_SHOW ? policy.noShowPenalty : policy.cancellationPenalty;
+    const fee = withinFreeWindow ? 0 : this.calculateFee(booking, penalty);
+    const totalAmount = Number(booking.totalAmount || 0);
+    const taxAmount = totalAmount > 0 ? this.round(fee * Number(booking.taxAmount || 0) / totalAmount) : 0;
+
+    return {
+      bookingId: booking.id,
+      trigger,
+      policy,
+      withinFreeWindow,
+      fee,
+      taxAmount,
+      assessedAt: at
+    };
+  }
+
+  /**
+   * Posts an assessed penalty through the billing service to the folio the booking routes room
+   * charges to and refunds captured deposit above the penalty. Posting is keyed on a per-booking
+   * reference, so settling again never charges twice and only refunds what is still in excess.
+   * @param booking - Cancelled or no-show booking
+   * @param assessment - Penalty returned by assess
+   * @param userId - User or job settling the penalty
+   * @throws ErrorCode.BUSINESS_RULE_VIOLATION if the penalty would take the folio over its credit limit
+   */
+  async settle(booking: Booking, assessment: PenaltyAssessment, userId: string): Promise<PenaltySettlement> {
+    const businessDate = await this.businessDates.getBusinessDate();
+    const charge = await this.postPenalty(booking, assessment, businessDate);
+    const postedFolioIds = charge ? [charge.folioId] : [];
+
+    const folios = await this.prisma.folio.findMany({
+      where: { reservationId: booking.id },
+      select: { id: true }
+    });
+    const payments = await this.prisma.payment.findMany({
+      where: {
+        folioId: { in: folios.map(folio => folio.id) },
+        status: { in: REFUNDABLE_PAYMENT_STATUSES }
+      },
+      orderBy: { createdAt: 'desc' }
+    }) as Payment[];
+
+    const depositHeld = this.round(payments.reduce(
+      (sum, payment) => sum + Number(payment.amount) - Number(payment.refundedAmount || 0),
+      0
+    ));
+
+    // Refund the most recent payments first until the excess over the penalty is returned
+    const refunds: PenaltyRefund[] = [];
+    let excess = this.round(depositHeld - assessment.fee);
+    for (const payment of payments) {
+      if (excess <= 0) {
+        break;
+      }
+      const refundable = this.round(Number(payment.amount) - Number(payment.refundedAmount || 0));
+      const amount = Math.min(excess, refundable);
+      if (amount <= 0) {
+        continue;
+      }
+
+      const refund = await this.refundPayment(payment, amount);
+      refunds.push(refund);
+      if (refund.success) {
+        excess = this.round(excess - amount);
+        postedFolioIds.push(payment.folioId);
+      }
+    }
+    await this.folioPosting.recordPostings(postedFolioIds);
+
+    this.logger.log(
+      `${assessment.trigger} penalty ${assessment.fee} settled for ${booking.bookingNumber} by ${userId}, ` +
+      `refunded ${this.round(depositHeld - assessment.fee - excess)}`
+    );
+
+    return { assessment, folioChargeId: charge?.id ?? null, depositHeld, refunds };
+  }
+
+  /**
+   * Resolves the cancellation policy of a rate, falling back to the default policy
+   */
+  private async getPolicy(rateId: string): Promise<CancellationPolicy> {
+    const rate = await this.prisma.rate.findUnique({ where: { id: rateId } }) as Rate | null;
+    return rate?.cancellationPolicy || DEFAULT_CANCELLATION_POLICY;
+  }
+
+  /**
+   * Penalty amount including tax, never more than the stay total
+   */
+  private calculateFee(booking: Booking, penalty: CancellationPenalty): number {
+    const totalAmount = Number(booking.totalAmount || 0);
+    const nights = Math.max(differenceInCalendarDays(booking.checkOutDate, booking.checkInDate), 1);
+
+    switch (penalty.type) {
+      case CancellationPenaltyType.NIGHTS:
+        return this.round(totalAmount / nights * Math.min(penalty.value, nights));
+      case CancellationPenaltyType.PERCENTAGE:
+        return this.round(totalAmount * Math.min(penalty.value, 100) / 100);
+      case CancellationPenaltyType.FULL_STAY:
+        return this.round(totalAmount);
+      default:
+        return 0;
+    }
+  }
+
+  /**
+   * Posts the penalty to the folio the booking routes room charges to unless it was already posted
+   * @returns Penalty charge, or null when there is no penalty or no open folio
+   */
+  private async postPenalty(booking: Booking, assessment: PenaltyAssessment, businessDate: Date): Promise<FolioCharge | null> {
+    if (assessment.fee <= 0) {
+      return null;
+    }
+
+    const prefix = assessment.trigger === PenaltyTrigger.NO_SHOW
+      ? NO_SHOW_PENALTY_REFERENCE_PREFIX
+      : CANCELLATION_PENALTY_REFERENCE_PREFIX;
+    const reference = `${prefix}-${booking.bookingNumber}`;
+
+    return this.prisma.$transaction(async (tx) => {
+      const folio = await tx.folio.findFirst({
+        where: { reservationId: booking.id, status: FolioStatus.OPEN, isMainFolio: true }
+      });
+      if (!folio) {
+        this.logger.warn(`No open folio to post the ${assessment.trigger} penalty for ${booking.bookingNumber}`);
+        return null;
+      }
+
+      const existing = await tx.folioCharge.findFirst({ where: { reference } });
+      if (existing) {
+        return existing as FolioCharge;
+      }
+
+      const taxAmount = new Prisma.Decimal(assessment.taxAmount);
+
+      return this.folioPosting.postCharge(folio as Folio, {
+        description: assessment.trigger === PenaltyTrigger.NO_SHOW ? 'No-show penalty' : 'Late cancellation penalty',
+        amount: new Prisma.Decimal(assessment.fee).minus(taxAmount),
+        taxAmount,
+        category: ROOM_CHARGE_CATEGORY,
+        department: ROOM_CHARGE_DEPARTMENT,
+        postingDate: businessDate,
+        reference,
+        notes: assessment.policy.description || null
+      }, tx);
+    });
+  }
+
+  /**
+   * Refunds part of a captured payment and records it on the payment and its folio. A gateway
+   * failure is reported on the refund instead of thrown so the remaining payments are still tried.
+   */
+  private async refundPayment(payment: Payment, amount: number): Promise<PenaltyRefund> {
+    const refund: PenaltyRefund = {
+      paymentId: payment.id,
+      transactionId: payment.transactionId,
+      amount,
+      success: false
+    };
+
+    try {
+      const response = await this.paymentGateway.refund(payment.transactionId, amount).toPromise();
+      if (!response?.success) {
+        refund.errorMessage = response?.errorMessage || 'Refund declined by gateway';
+        return refund;
+      }
+    } catch (error) {
+      this.logger.error(`Refund of ${amount} on ${payment.transactionId} failed: ${error.message || error.code}`);
+      refund.errorMessage = error.message || String(error.code);
+      return refund;
+    }
+
+    await this.folioPosting.recordRefund(payment, new Prisma.Decimal(amount));
+
+    refund.success = true;
+    return refund;
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+}
@@ -0,0 +1,97 @@
+/**
+ * @fileoverview Channel connector pushing ARI messages to the channel manager and pulling the
+ * reservations it collected from each channel over its REST API.
+ * @version 1.0.0
+ */
+
+// External imports
+import { Injectable } from '@nestjs/common'; // v10.0.0
+
+// Internal imports
+import {
+  AriMessage,
+  DistributionChannel,
+  OtaIngestResult,
+  OtaReservation
+} from '../models/channel.model';
+import { ErrorCode, createErrorDetails } from '../../../shared/constants/error-codes';
+
+/**
+ * Time allowed for one channel manager request
+ */
+const REQUEST_TIMEOUT_MS = 10 * 1000;
+
+/**
+ * Transport to the distribution channels
+ */
+export interface ChannelConnector {
+  /** Pushes ARI updates to a channel; rejects when the channel cannot be reached */
+  pushAri(message: AriMessage): Promise<void>;
+  /** Returns the reservation messages a channel has not had acknowledged yet */
+  pullReservations(channel: DistributionChannel): Promise<OtaReservation[]>;
+  /** Tells a channel the outcome of a reservation message so it is not delivered again */
+  acknowledge(result: OtaIngestResult): Promise<void>;
+}
+
+/**
+ * Connector calling the channel manager's REST API
+ */
+@Injectable()
+export class HttpChannelConnector implements ChannelConnector {
+  constructor(
+    private readonly baseUrl: string = process.env.CHANNEL_MANAGER_URL || 'http://localhost:4100',
+    private readonly apiKey: string | undefined = process.env.CHANNEL_MANAGER_API_KEY
+  ) {}
+
+  async pushAri(message: AriMessage): Promise<void> {
+    await this.request('POST', `/channels/${message.channel}/ari`, message);
+  }
+
+  async pullReservations(channel: DistributionChannel): Promise<OtaReservation[]> {
+    const reservations = await this.request('GET', `/channels/${channel}/reservations`) as OtaReservation[];
+
+    return reservations.map(reservation => ({
+      ...reservation,
+      checkInDate: new Date(reservation.checkInDate),
+      checkOutDate: new Date(reservation.checkOutDate)
+    }));
+  }
+
+  async acknowledge(result: OtaIngestResult): Promise<void> {
+    await this.request(
+      'POST',
+      `/channels/${result.channel}/reservations/${encodeURIComponent(result.confirmationNumber)}/ack`,
+      result
+    );
+  }
+
+  private async request(method: 'GET' | 'POST', path: string, body?: unknown): Promise<unknown> {
+    let response: Response;
+    try {
+      response = await fetch(`${this.baseUrl}${path}`, {
+        method,
+        headers: {
+          'Content-Type': 'application/json',
+          ...(this.apiKey && { Authorization: `Bearer ${this.apiKey}` })
+        },
+        body: body === undefined ? undefined : JSON.stringify(body),
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS)
+      });
+    } catch (error) {
+      throw createErrorDetails(ErrorCode.EXTERNAL_SERVICE_ERROR, {
+        message: `Channel manager unreachable: ${(error as Error).message}`,
+        path
+      });
+    }
+
+    if (!response.ok) {
+      throw createErrorDetails(ErrorCode.EXTERNAL_SERVICE_ERROR, {
+        message: `Channel manager responded ${response.status}`,
+        path,
+        status: response.status
+      });
+    }
+
+    return response.status === 204 ? undefined : response.json();
+  }
+}
@@ -0,0 +1,558 @@
+/**
+ * @fileoverview Channel manager service pushing queued ARI changes to each distribution channel
+ * and ingesting the reservations, modifications and cancellations the channels send back.
+ * ARI values are read when a message is sent; OTA messages are applied at most once per
+ * channel confirmation number and revision.
+ * @version 1.0.0
+ */
+
+// External imports
+import { Injectable, Logger } from '@nestjs/common'; // v10.0.0
+import { Prisma, PrismaClient } from '@prisma/client'; // v5.0.0
+import { addDays, eachDayOfInterval, format, isSameDay } from 'date-fns'; // v2.30.0
+
+// Internal imports
+import { prisma as reservationPrisma } from '../config/database';
+import { Booking, BookingModel, BookingStatus, PaymentStatus } from '../models/booking.model';
+import { Rate, RateStatus } from '../models/rate.model';
+import { ModifyStayDto } from '../models/reservation-modification.model';
+import { summarizeNightlyRates } from '../models/reservation-rate.model';
+import {
+  AriUpdateType,
+  AvailabilityUpdate,
+  CONNECTED_CHANNELS,
+  ChannelDispatchRun,
+  ChannelOutboxMessage,
+  ChannelReservation,
+  ChannelReservationStatus,
+  DistributionChannel,
+  OtaIngestResult,
+  OtaIngestStatus,
+  OtaReservation,
+  OtaReservationAction,
+  RateUpdate,
+  RestrictionUpdate
+} from '../models/channel.model';
+import { RoomType } from '../../../room-service/src/models/room.model';
+import { AvailabilityService } from './availability.service';
+import { ChannelConnector, HttpChannelConnector } from './channel-connector.service';
+import { ChannelOutboxService } from './channel-outbox.service';
+import { InventoryService } from './inventory.service';
+import { PaymentScheduleService } from './payment-schedule.service';
+import { PricingService } from './pricing.service';
+import { StayModificationService } from './stay-modification.service';
+import { StayRestrictionService } from './stay-restriction.service';
+import { ErrorCode, createErrorDetails } from '../../../shared/constants/error-codes';
+
+/**
+ * User recorded on bookings created and changed by channel reservations
+ */
+export const CHANNEL_MANAGER_USER = 'CHANNEL_MANAGER';
+
+/**
+ * Difference between the channel amount and our price above which a booking is flagged
+ */
+const AMOUNT_TOLERANCE = 0.01;
+
+/**
+ * Builds the result of an OTA message; a rejection carries the error that caused it
+ */
+type IngestResultFactory = (status: OtaIngestStatus, bookingId?: string | null, error?: unknown) => OtaIngestResult;
+
+/**
+ * Outbox messages pushed together: same channel, kind of change, room type and rate
+ */
+interface OutboxBatch {
+  type: AriUpdateType;
+  roomType: RoomType | null;
+  rateId: string | null;
+  startDate: Date;
+  endDate: Date;
+  messages: ChannelOutboxMessage[];
+}
+
+/**
+ * Service synchronizing ARI and reservations with the distribution channels
+ */
+@Injectable()
+export class ChannelManagerService {
+  private readonly logger = new Logger(ChannelManagerService.name);
+  private scheduledRun: NodeJS.Timeout | null = null;
+
+  constructor(
+    private readonly bookingModel: BookingModel,
+    private readonly pricingService: PricingService,
+    private readonly availabilityService: AvailabilityService,
+    private readonly stayModificationService: StayModificationService,
+    private readonly connector: ChannelConnector = new HttpChannelConnector(),
+    private readonly prisma: PrismaClient = reservationPrisma,
+    private readonly outbox: ChannelOutboxService = new ChannelOutboxService(prisma),
+    private readonly inventory: InventoryService = new InventoryService(prisma, outbox),
+    private readonly stayRestrictions: StayRestrictionService = new StayRestrictionService(prisma, outbox),
+    private readonly paymentSchedules: PaymentScheduleService = new PaymentScheduleService(prisma)
+  ) {}
+
+  /**
+   * Pushes the outbox messages due for delivery. Messages of one channel, kind of change, room
+   * type and rate are merged into a single push; the first failed push of a channel stops its
+   * queue until the next run.
+   * @param now - Time of the run
+   */
+  async dispatchOutbox(now: Date = new Date()): Promise<ChannelDispatchRun> {
+    const due = await this.outbox.findDue(now);
+    const run: ChannelDispatchRun = { sent: 0, failed: 0, unreachableChannels: [] };
+
+    for (const channel of CONNECTED_CHANNELS) {
+      const batches = this.batch(due.filter(message => message.channel === channel));
+
+      for (let index = 0; index < batches.length; index++) {
+        const batch = batches[index];
+        try {
+          const updates = await this.buildUpdates(channel, batch);
+          if (updates.length > 0) {
+            await this.connector.pushAri({ channel, type: batch.type, updates });
+          }
+          await this.outbox.markSent(batch.messages, now);
+          run.sent += batch.messages.length;
+        } catch (error) {
+          // Leave the rest of the channel's queue for the next run, keeping its order
+          const pending = batches.slice(index).flatMap(remaining => remaining.messages);
+          await this.outbox.markFailed(pending, this.describe(error), now);
+          run.failed += pending.length;
+          run.unreachableChannels.push(channel);
+          this.logger.warn(`ARI push to ${channel} failed, ${pending.length} message(s) deferred: ${this.describe(error)}`);
+          break;
+        }
+      }
+    }
+
+    if (run.sent > 0 || run.failed > 0) {
+      this.logger.log(`Channel outbox dispatched: ${run.sent} sent, ${run.failed} deferred`);
+    }
+
+    return run;
+  }
+
+  /**
+   * Pulls the reservation messages waiting on a channel, applies them in revision order and
+   * acknowledges each outcome to the channel
+   * @param channel - Distribution channel
+   */
+  async pullReservations(channel: DistributionChannel): Promise<OtaIngestResult[]> {
+    const reservations = await this.connector.pullReservations(channel);
+    const results: OtaIngestResult[] = [];
+
+    for (const reservation of [...reservations].sort((a, b) => a.revision - b.revision)) {
+      const result = await this.ingestReservation(channel, reservation);
+      results.push(result);
+
+      // An unacknowledged message is delivered again and then recognized as a duplicate
+      try {
+        await this.connector.acknowledge(result);
+      } catch (error) {
+        this.logger.warn(`Acknowledging ${channel} reservation ${reservation.confirmationNumber} failed: ${this.describe(error)}`);
+      }
+    }
+
+    return results;
+  }
+
+  /**
+   * Applies a reservation, modification or cancellation received from a channel. Messages
+   * already applied for the confirmation number and revision are reported as duplicates.
+   * @param channel - Channel that sent the message
+   * @param reservation - OTA reservation message
+   */
+  async ingestReservation(channel: DistributionChannel, reservation: OtaReservation): Promise<OtaIngestResult> {
+    const result: IngestResultFactory = (status, bookingId, error) => ({
+      channel,
+      confirmationNumber: reservation.confirmationNumber,
+      status,
+      ...(bookingId && { bookingId }),
+      ...(error !== undefined && { error: this.describe(error), errorCode: this.errorCodeOf(error) })
+    });
+
+    if (reservation.action === OtaReservationAction.NEW) {
+      return this.createReservation(channel, reservation, result);
+    }
+
+    const existing = await this.prisma.channelReservation.findUnique({
+      where: { channel_confirmationNumber: { channel, confirmationNumber: reservation.confirmationNumber } }
+    }) as ChannelReservation | null;
+
+    if (!existing || !existing.bookingId) {
+      return result(OtaIngestStatus.REJECTED, null, createErrorDetails(ErrorCode.RESOURCE_NOT_FOUND, {
+        message: 'Reservation not found'
+      }));
+    }
+
+    if (reservation.action === OtaReservationAction.CANCEL) {
+      return this.cancelReservation(existing, reservation, result);
+    }
+
+    return this.modifyReservation(existing, reservation, result);
+  }
+
+  /**
+   * Runs the outbox dispatch and reservation pull on a fixed interval
+   * @param intervalMs - Time between two runs
+   */
+  scheduleSync(intervalMs: number = Number(process.env.CHANNEL_SYNC_INTERVAL_MS) || 60 * 1000): void {
+    this.cancelSchedule();
+    this.scheduledRun = setTimeout(async () => {
+      try {
+        await this.dispatchOutbox();
+        for (const channel of CONNECTED_CHANNELS) {
+          try {
+            await this.pullReservations(channel);
+          } catch (error) {
+            this.logger.warn(`Reservation pull from ${channel} failed: ${this.describe(error)}`);
+          }
+        }
+      } catch (error) {
+        this.logger.error(`Scheduled channel sync failed: ${this.describe(error)}`);
+      }
+      this.scheduleSync(intervalMs);
+    }, intervalMs);
+  }
+
+  /**
+   * Cancels the scheduled channel sync
+   */
+  cancelSchedule(): void {
+    if (this.scheduledRun) {
+      clearTimeout(this.scheduledRun);
+      this.scheduledRun = null;
+    }
+  }
+
+  private async createReservation(
+    channel: DistributionChannel,
+    reservation: OtaReservation,
+    result: IngestResultFactory
+  ): Promise<OtaIngestResult> {
+    // Claim the confirmation number first so a redelivered message cannot create a second booking
+    let claim: ChannelReservation;
+    try {
+      claim = await this.prisma.channelReservation.create({
+        data: {
+          channel,
+          confirmationNumber: reservation.confirmationNumber,
+          bookingId: null,
+          revision: reservation.revision,
+          status: ChannelReservationStatus.ACTIVE,
+          guestName: reservation.guestName,
+          channelAmount: reservation.totalAmount,
+          currencyCode: reservation.currencyCode
+        }
+      }) as ChannelReservation;
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        const existing = await this.prisma.channelReservation.findUnique({
+          where: { channel_confirmationNumber: { channel, confirmationNumber: reservation.confirmationNumber } }
+        }) as ChannelReservation | null;
+        return result(OtaIngestStatus.DUPLICATE, existing?.bookingId);
+      }
+      throw error;
+    }
+
+    try {
+      // The stay is priced as the channel was sent it; a differing channel amount is only flagged
+      const nightlyRates = await this.pricingService.calculateNightlyRates(
+        reservation.rateId,
+        reservation.checkInDate,
+        reservation.checkOutDate,
+        await this.availabilityService.getCurrentOccupancy(),
+        channel,
+        undefined,
+        reservation.numberOfGuests
+      ).toPromise();
+      if (!nightlyRates) {
+        throw createErrorDetails(ErrorCode.INTERNAL_SERVER_ERROR, {
+          message: `No price for ${reservation.rateId}`
+        });
+      }
+      const { totalAmount, taxAmount } = summarizeNightlyRates(nightlyRates);
+
+      if (Math.abs(totalAmount - reservation.totalAmount) > AMOUNT_TOLERANCE) {
+        this.logger.warn(
+          `${channel} reservation ${reservation.confirmationNumber} sold at ${reservation.totalAmount}, priced at ${totalAmount}`
+        );
+      }
+
+      // The booking, its confirmation, deposit schedule and the claim's link to it commit together,
+      // so a failure leaves no booking holding inventory behind the released claim
+      const booking = await this.prisma.$transaction(async (tx) => {
+        const created = await this.bookingModel.create({
+          guestId: reservation.guestId,
+          roomType: reservation.roomType,
+          roomId: null,
+          rateId: reservation.rateId,
+          bookingNumber: '',
+          status: BookingStatus.PENDING,
+          checkInDate: reservation.checkInDate,
+          checkOutDate: reservation.checkOutDate,
+          numberOfGuests: reservation.numberOfGuests,
+          totalAmount,
+          taxAmount,
+          nightlyRates,
+          bookingSource: channel,
+          paymentStatus: PaymentStatus.UNPAID,
+          specialRequests: reservation.specialRequests ? { notes: reservation.specialRequests } : {},
+          isConfirmed: false,
+          auditTrail: [],
+          lastModifiedBy: CHANNEL_MANAGER_USER
+        }, undefined, tx);
+
+        // The channel has already confirmed the stay to the guest
+        const confirmed = await this.bookingModel.update(created.id, {
+          status: BookingStatus.CONFIRMED,
+          isConfirmed: true,
+          lastModifiedBy: CHANNEL_MANAGER_USER
+        }, undefined, tx);
+
+        // Deposits the rate requires are scheduled as for direct bookings; the card follows separately
+        await this.paymentSchedules.createSchedule(confirmed, null, tx);
+
+        await tx.channelReservation.update({
+          where: { id: claim.id },
+          data: { bookingId: confirmed.id, updatedAt: new Date() }
+        });
+
+        return confirmed;
+      });
+
+      this.logger.log(`${channel} reservation ${reservation.confirmationNumber} booked as ${booking.bookingNumber}`);
+      return result(OtaIngestStatus.CREATED, booking.id);
+    } catch (error) {
+      // Release the claim so the channel can send the reservation again
+      await this.prisma.channelReservation.delete({ where: { id: claim.id } });
+      this.logger.warn(`${channel} reservation ${reservation.confirmationNumber} rejected: ${this.describe(error)}`);
+      return result(OtaIngestStatus.REJECTED, null, error);
+    }
+  }
+
+  private async modifyReservation(
+    existing: ChannelReservation,
+    reservation: OtaReservation,
+    result: IngestResultFactory
+  ): Promise<OtaIngestResult> {
+    if (existing.status === ChannelReservationStatus.CANCELLED) {
+      return result(OtaIngestStatus.REJECTED, existing.bookingId, createErrorDetails(ErrorCode.BUSINESS_RULE_VIOLATION, {
+        message: 'Reservation is cancelled'
+      }));
+    }
+
+    // Claim the revision so the same modification is applied once
+    const { count } = await this.prisma.channelReservation.updateMany({
+      where: { id: existing.id, revision: { lt: reservation.revision }, status: ChannelReservationStatus.ACTIVE },
+      data: { revision: reservation.revision, updatedAt: new Date() }
+    });
+    if (count === 0) {
+      return result(OtaIngestStatus.DUPLICATE, existing.bookingId);
+    }
+
+    try {
+      const booking = await this.prisma.booking.findUnique({ where: { id: existing.bookingId as string } }) as Booking;
+      const changes = this.stayChanges(booking, reservation);
+
+      if (changes) {
+        await this.stayModificationService.modify(booking.id, changes, CHANNEL_MANAGER_USER);
+      }
+
+      await this.prisma.channelReservation.update({
+        where: { id: existing.id },
+        data: { guestName: reservation.guestName, channelAmount: reservation.totalAmount, updatedAt: new Date() }
+      });
+
+      return result(OtaIngestStatus.MODIFIED, existing.bookingId);
+    } catch (error) {
+      await this.prisma.channelReservation.updateMany({
+        where: { id: existing.id, revision: reservation.revision },
+        data: { revision: existing.revision, updatedAt: new Date() }
+      });
+      this.logger.warn(
+        `${existing.channel} modification ${reservation.confirmationNumber} revision ${reservation.revision} rejected: ${this.describe(error)}`
+      );
+      return result(OtaIngestStatus.REJECTED, existing.bookingId, error);
+    }
+  }
+
+  private async cancelReservation(
+    existing: ChannelReservation,
+    reservation: OtaReservation,
+    result: IngestResultFactory
+  ): Promise<OtaIngestResult> {
+    const { count } = await this.prisma.channelReservation.updateMany({
+      where: { id: existing.id, status: ChannelReservationStatus.ACTIVE },
+      data: {
+        status: ChannelReservationStatus.CANCELLED,
+        revision: Math.max(existing.revision, reservation.revision),
+        updatedAt: new Date()
+      }
+    });
+    if (count === 0) {
+      return result(OtaIngestStatus.DUPLICATE, existing.bookingId);
+    }
+
+    try {
+      // Cancelling the booking returns its nights to inventory, which queues the availability push
+      await this.bookingModel.update(existing.bookingId as Booking['id'], {
+        status: BookingStatus.CANCELLED,
+        cancellationReason: reservation.cancellationReason || `Cancelled on ${existing.channel}`,
+        cancellationDate: new Date(),
+        lastModifiedBy: CHANNEL_MANAGER_USER
+      });
+
+      return result(OtaIngestStatus.CANCELLED, existing.bookingId);
+    } catch (error) {
+      await this.prisma.channelReservation.update({
+        where: { id: existing.id },
+        data: { status: existing.status, revision: existing.revision, updatedAt: new Date() }
+      });
+      this.logger.warn(`${existing.channel} cancellation ${reservation.confirmationNumber} rejected: ${this.describe(error)}`);
+      return result(OtaIngestStatus.REJECTED, existing.bookingId, error);
+    }
+  }
+
+  /**
+   * Stay fields a channel modification changes; null when only guest details changed
+   */
+  private stayChanges(booking: Booking, reservation: OtaReservation): ModifyStayDto | null {
+    const changes: ModifyStayDto = { reason: `Modified on ${booking.bookingSource} (revision ${reservation.revision})` };
+
+    if (!isSameDay(booking.checkInDate, reservation.checkInDate)) changes.checkInDate = reservation.checkInDate;
+    if (!isSameDay(booking.checkOutDate, reservation.checkOutDate)) changes.checkOutDate = reservation.checkOutDate;
+    if (booking.roomType !== reservation.roomType) changes.roomType = reservation.roomType;
+    if (booking.rateId !== reservation.rateId) changes.rateId = reservation.rateId;
+    if (booking.numberOfGuests !== reservation.numberOfGuests) changes.numberOfGuests = reservation.numberOfGuests;
+
+    return Object.keys(changes).length > 1 ? changes : null;
+  }
+
+  /**
+   * Groups a channel's due messages by kind of change, room type and rate, covering the union
+   * of their date ranges, in the order the first message of each group was queued
+   */
+  private batch(messages: ChannelOutboxMessage[]): OutboxBatch[] {
+    const batches = new Map<string, OutboxBatch>();
+
+    for (const message of messages) {
+      const key = `${message.type}:${message.roomType ?? ''}:${message.rateId ?? ''}`;
+      const batch = batches.get(key);
+
+      if (!batch) {
+        batches.set(key, {
+          type: message.type,
+          roomType: message.roomType,
+          rateId: message.rateId,
+          startDate: message.startDate,
+          endDate: message.endDate,
+          messages: [message]
+        });
+        continue;
+      }
+
+      if (message.startDate < batch.startDate) batch.startDate = message.startDate;
+      if (message.endDate > batch.endDate) batch.endDate = message.endDate;
+      batch.messages.push(message);
+    }
+
+    return Array.from(batches.values());
+  }
+
+  /**
+   * Reads the current ARI values of a batch's dates for a channel
+   */
+  private async buildUpdates(
+    channel: DistributionChannel,
+    batch: OutboxBatch
+  ): Promise<Array<AvailabilityUpdate | RateUpdate | RestrictionUpdate>> {
+    const dates = eachDayOfInterval({ start: batch.startDate, end: batch.endDate });
+
+    switch (batch.type) {
+      case AriUpdateType.AVAILABILITY: {
+        const nights = await this.inventory.getAvailability(
+          batch.roomType as RoomType,
+          batch.startDate,
+          addDays(batch.endDate, 1)
+        );
+        return nights.map(night => ({
+          date: format(night.date, 'yyyy-MM-dd'),
+          roomType: night.roomType,
+          available: night.availableRooms
+        }));
+      }
+
+      case AriUpdateType.RATE: {
+        const rate = await this.prisma.rate.findUnique({ where: { id: batch.rateId as string } }) as Rate | null;
+        if (!rate || rate.status !== RateStatus.ACTIVE) {
+          return [];
+        }
+
+        const occupancy = await this.availabilityService.getCurrentOccupancy();
+        const updates: RateUpdate[] = [];
+        for (const date of dates) {
+          const [night] = (await this.pricingService.calculateNightlyRates(
+            rate.id,
+            date,
+            addDays(date, 1),
+            occupancy,
+            channel
+          ).toPromise()) ?? [];
+          if (!night) {
+            // A night the pricing service cannot price keeps the amount the channel has
+            continue;
+          }
+          updates.push({
+            date: format(date, 'yyyy-MM-dd'),
+            rateId: rate.id,
+            amount: night.totalRate,
+            taxAmount: night.taxAmount,
+            currencyCode: rate.currencyCode
+          });
+        }
+        return updates;
+      }
+
+      case AriUpdateType.RESTRICTION: {
+        const rate = await this.prisma.rate.findUnique({ where: { id: batch.rateId as string } }) as Rate | null;
+        const channelRestrictions = rate?.channelRules?.[channel]?.restrictions;
+        const calendar = await this.stayRestrictions.getCalendar(
+          batch.rateId as string,
+          batch.roomType ?? undefined,
+          batch.startDate,
+          batch.endDate
+        );
+        const roomTypes = batch.roomType ? [batch.roomType] : Object.values(RoomType);
+
+        // Every date is sent, so dates whose restrictions were cleared open up on the channel
+        return dates.flatMap(date => roomTypes.map(roomType => {
+          const row = calendar.find(entry => entry.roomType === roomType && isSameDay(entry.date, date));
+          return {
+            date: format(date, 'yyyy-MM-dd'),
+            rateId: batch.rateId as string,
+            roomType,
+            minimumLOS: this.strictest(Math.max, row?.minimumLOS, channelRestrictions?.minimumLOS),
+            maximumLOS: this.strictest(Math.min, row?.maximumLOS, channelRestrictions?.maximumLOS),
+            closedToArrival: Boolean(row?.closedToArrival || channelRestrictions?.closedToArrival),
+            closedToDeparture: Boolean(row?.closedToDeparture || channelRestrictions?.closedToDeparture)
+          };
+        }));
+      }
+    }
+  }
+
+  private strictest(pick: (...values: number[]) => number, ...limits: Array<number | null | undefined>): number | null {
+    const set = limits.filter((limit): limit is number => typeof limit === 'number' && limit > 0);
+    return set.length > 0 ? pick(...set) : null;
+  }
+
+  private describe(error: any): string {
+    return error?.details?.message || error?.message || error?.code || String(error);
+  }
+
+  private errorCodeOf(error: any): ErrorCode {
+    return Object.values(ErrorCode).includes(error?.code) ? error.code : ErrorCode.INTERNAL_SERVER_ERROR;
+  }
+}
@@ -0,0 +1,189 @@
+/**
+ * @fileoverview Channel outbox service recording ARI changes for every connected channel in the
+ * same transaction as the change, and tracking their delivery with exponential backoff so a
+ * channel that is down catches up once it is reachable again.
+ * @version 1.0.0
+ */
+
+// External imports
+import { Injectable, Logger } from '@nestjs/common'; // v10.0.0
+import { Prisma, PrismaClient } from '@prisma/client'; // v5.0.0
+import { startOfDay } from 'date-fns'; // v2.30.0
+
+// Internal imports
+import { prisma as reservationPrisma } from '../config/database';
+import { Rate } from '../models/rate.model';
+import {
+  AriDelta,
+  CONNECTED_CHANNELS,
+  ChannelOutboxMessage,
+  ChannelOutboxStatus,
+  DistributionChannel,
+  MAX_OUTBOX_ATTEMPTS
+} from '../models/channel.model';
+import { ErrorCode, createErrorDetails } from '../../../shared/constants/error-codes';
+
+/**
+ * Delay before the first retry; doubled on every further attempt
+ */
+const RETRY_BASE_DELAY_MS = 30 * 1000;
+
+/**
+ * Longest delay between two attempts
+ */
+const RETRY_MAX_DELAY_MS = 60 * 60 * 1000;
+
+/**
+ * Messages picked up by one dispatch run
+ */
+const DISPATCH_BATCH_SIZE = 200;
+
+/**
+ * Client the outbox is written with; the caller's transaction client so the message commits with the change
+ */
+type OutboxClient = PrismaClient | Prisma.TransactionClient;
+
+/**
+ * Service managing the channel ARI outbox
+ */
+@Injectable()
+export class ChannelOutboxService {
+  private readonly logger = new Logger(ChannelOutboxService.name);
+
+  constructor(private readonly prisma: PrismaClient = reservationPrisma) {}
+
+  /**
+   * Queues an ARI change for every connected channel selling it; rate changes go only to the
+   * channels the rate is distributed on
+   * @param delta - Kind of change and affected dates
+   * @param client - Transaction client of the change; the outbox is written directly when omitted
+   * @returns Channels the change was queued for
+   */
+  async queue(delta: AriDelta, client: OutboxClient = this.prisma): Promise<DistributionChannel[]> {
+    const channels = await this.channelsFor(client, delta.rateId);
+    if (channels.length === 0) {
+      return [];
+    }
+
+    const now = new Date();
+    await client.channelOutboxMessage.createMany({
+      data: channels.map(channel => ({
+        channel,
+        type: delta.type,
+        roomType: delta.roomType ?? null,
+        rateId: delta.rateId ?? null,
+        startDate: startOfDay(delta.startDate),
+        endDate: startOfDay(delta.endDate),
+        status: ChannelOutboxStatus.PENDING,
+        attempts: 0,
+        nextAttemptAt: now,
+        lastError: null,
+        sentAt: null
+      }))
+    });
+
+    return channels;
+  }
+
+  /**
+   * Returns pending messages due for delivery, oldest first
+   * @param now - Time of the dispatch run
+   */
+  async findDue(now: Date = new Date()): Promise<ChannelOutboxMessage[]> {
+    return this.prisma.channelOutboxMessage.findMany({
+      where: { status: ChannelOutboxStatus.PENDING, nextAttemptAt: { lte: now } },
+      orderBy: { createdAt: 'asc' },
+      take: DISPATCH_BATCH_SIZE
+    }) as Promise<ChannelOutboxMessage[]>;
+  }
+
+  /**
+   * Lists outbox messages, newest first
+   * @param status - Delivery state; every state when omitted
+   * @param channel - Channel; every channel when omitted
+   */
+  async list(status?: ChannelOutboxStatus, channel?: DistributionChannel): Promise<ChannelOutboxMessage[]> {
+    return this.prisma.channelOutboxMessage.findMany({
+      where: {
+        ...(status && { status }),
+        ...(channel && { channel })
+      },
+      orderBy: { createdAt: 'desc' },
+      take: DISPATCH_BATCH_SIZE
+    }) as Promise<ChannelOutboxMessage[]>;
+  }
+
+  /**
+   * Marks messages delivered
+   */
+  async markSent(messages: ChannelOutboxMessage[], sentAt: Date = new Date()): Promise<void> {
+    await this.prisma.channelOutboxMessage.updateMany({
+      where: { id: { in: messages.map(message => message.id) }, status: ChannelOutboxStatus.PENDING },
+      data: { status: ChannelOutboxStatus.SENT, sentAt, lastError: null, updatedAt: sentAt }
+    });
+  }
+
+  /**
+   * Schedules the next attempt of messages that could not be delivered, marking them failed
+   * once they have used all their attempts
+   * @param messages - Undelivered messages
+   * @param error - Delivery error
+   */
+  async markFailed(messages: ChannelOutboxMessage[], error: string, now: Date = new Date()): Promise<void> {
+    for (const message of messages) {
+      const attempts = message.attempts + 1;
+      const delay = Math.min(RETRY_BASE_DELAY_MS * 2 ** message.attempts, RETRY_MAX_DELAY_MS);
+      const exhausted = attempts >= MAX_OUTBOX_ATTEMPTS;
+
+      await this.prisma.channelOutboxMessage.update({
+        where: { id: message.id },
+        data: {
+          attempts,
+          lastError: error,
+          nextAttemptAt: new Date(now.getTime() + delay),
+          status: exhausted ? ChannelOutboxStatus.FAILED : ChannelOutboxStatus.PENDING,
+          updatedAt: now
+        }
+      });
+
+      if (exhausted) {
+        this.logger.error(`Outbox message ${message.id} to ${message.channel} failed after ${attempts} attempts: ${error}`);
+      }
+    }
+  }
+
+  /**
+   * Puts a failed message back in the queue for immediate delivery
+   * @param id - Outbox message ID
+   * @throws ErrorCode.RESOURCE_NOT_FOUND if the message does not exist
+   * @throws ErrorCode.BUSINESS_RULE_VIOLATION if the message has not failed
+   */
+  async retry(id: string): Promise<ChannelOutboxMessage> {
+    const message = await this.prisma.channelOutboxMessage.findUnique({ where: { id } }) as ChannelOutboxMessage | null;
+    if (!message) {
+      throw createErrorDetails(ErrorCode.RESOURCE_NOT_FOUND, { message: 'Outbox message not found', id });
+    }
+
+    if (message.status !== ChannelOutboxStatus.FAILED) {
+      throw createErrorDetails(ErrorCode.BUSINESS_RULE_VIOLATION, {
+        message: 'Only failed outbox messages can be retried',
+        id,
+        status: message.status
+      });
+    }
+
+    return this.prisma.channelOutboxMessage.update({
+      where: { id },
+      data: { status: ChannelOutboxStatus.PENDING, attempts: 0, nextAttemptAt: new Date(), updatedAt: new Date() }
+    }) as Promise<ChannelOutboxMessage>;
+  }
+
+  private async channelsFor(client: OutboxClient, rateId?: string | null): Promise<DistributionChannel[]> {
+    if (!rateId) {
+      return CONNECTED_CHANNELS;
+    }
+
+    const rate = await client.rate.findUnique({ where: { id: rateId } }) as Rate | null;
+    return CONNECTED_CHANNELS.filter(channel => rate?.applicableChannels?.includes(channel));
+  }
+}
@@ -0,0 +1,531 @@
+/**
+ * @fileoverview Group block service contracting room-type allotments for groups, booking rooming
+ * lists against them, tracking pickup and releasing unpicked rooms to general inventory at the
+ * cutoff date.
+ * @version 1.0.0
+ */
+
+// External imports
+import { Injectable, Logger } from '@nestjs/common'; // v10.0.0
+import { Prisma, PrismaClient } from '@prisma/client'; // v5.0.0
+import { addDays, differenceInCalendarDays, eachDayOfInterval, format, startOfDay } from 'date-fns'; // v2.30.0
+
+// Internal imports
+import { prisma as reservationPrisma } from '../config/database';
+import { Booking, BookingStatus, PaymentStatus } from '../models/booking.model';
+import {
+  CreateGroupBlockDto,
+  GroupBlock,
+  GroupBlockAllotment,
+  GroupBlockStatus,
+  GroupPickupReport,
+  RoomingListEntry,
+  RoomingListResult
+} from '../models/group-block.model';
+import { Rate, RateStatus, RateType } from '../models/rate.model';
+import { NightlyRate, summarizeNightlyRates } from '../models/reservation-rate.model';
+import { RoomType } from '../../../room-service/src/models/room.model';
+import { InventoryService } from './inventory.service';
+import { WaitlistService } from './waitlist.service';
+import { TaxCalculationService } from '../../../shared/services/tax-calculation.service';
+import { ROOM_CHARGE_CATEGORY } from '../../../shared/models/charge-category.model';
+import { BusinessDateService } from '../../../shared/services/business-date.service';
+import { ErrorCode, createErrorDetails } from '../../../shared/constants/error-codes';
+
+/**
+ * User recorded on releases made by the scheduled cutoff run
+ */
+export const GROUP_CUTOFF_USER = 'GROUP_CUTOFF';
+
+/**
+ * Booking source recorded on rooming-list bookings
+ */
+export const GROUP_BOOKING_SOURCE = 'GROUP';
+
+/**
+ * Filter for listing group blocks
+ */
+export interface GroupBlockFilter {
+  status?: GroupBlockStatus;
+  groupCode?: string;
+}
+
+/**
+ * Service managing group blocks and their pickup
+ */
+@Injectable()
+export class GroupBlockService {
+  private readonly logger = new Logger(GroupBlockService.name);
+  private scheduledRun: NodeJS.Timeout | null = null;
+
+  constructor(
+    private readonly prisma: PrismaClient = reservationPrisma,
+    private readonly businessDates: BusinessDateService = new BusinessDateService(prisma),
+    private readonly inventory: InventoryService = new InventoryService(prisma),
+    private readonly waitlist?: WaitlistService,
+    private readonly taxes: TaxCalculationService = new TaxCalculationService(prisma)
+  ) {}
+
+  /**
+   * Contracts a group block and takes its rooms out of general inventory
+   * @param data - Group code, rate, cutoff and per-night allotments
+   * @param userId - User contracting the block
+   * @throws ErrorCode.VALIDATION_ERROR if the rate, cutoff or allotments are invalid
+   * @throws ErrorCode.RESOURCE_CONFLICT if the group code is taken or a night is sold out
+   */
+  async createBlock(data: CreateGroupBlockDto, userId: string): Promise<GroupBlock> {
+    const businessDate = await this.businessDates.getBusinessDate();
+    const firstNight = data.allotments.reduce(
+      (earliest, allotment) => allotment.date < earliest ? allotment.date : earliest,
+      data.allotments[0]?.date
+    );
+
+    if (!firstNight || startOfDay(firstNight) < businessDate) {
+      throw createErrorDetails(ErrorCode.VALIDATION_ERROR, {
+        message: 'Group block needs allotments on or after the business date',
+        businessDate: format(businessDate, 'yyyy-MM-dd')
+      });
+    }
+    if (data.cutoffDate < businessDate || data.cutoffDate > firstNight) {
+      throw createErrorDetails(ErrorCode.VALIDATION_ERROR, {
+        message: 'Cutoff date must fall between the business date and the first night of the block',
+        cutoffDate: format(data.cutoffDate, 'yyyy-MM-dd')
+      });
+    }
+
+    const rate = await this.prisma.rate.findUnique({ where: { id: data.rateId } }) as Rate | null;
+    if (!rate || rate.type !== RateType.GROUP || rate.status !== RateStatus.ACTIVE) {
+      throw createErrorDetails(ErrorCode.VALIDATION_ERROR, {
+        message: 'Group blocks require an active rate of type GROUP',
+        rateId: data.rateId
+      });
+    }
+
+    const existing = await this.prisma.groupBlock.findUnique({ where: { groupCode: data.groupCode } });
+    if (existing) {
+      throw createErrorDetails(ErrorCode.RESOURCE_CONFLICT, {
+        message: 'Group code is already in use',
+        groupCode: data.groupCode
+      });
+    }
+
+    const block = await this.prisma.$transaction(async (tx) => {
+      for (const allotment of data.allotments) {
+        const night = startOfDay(allotment.date);
+        await this.inventory.allocate(allotment.roomType, night, addDays(night, 1), allotment.rooms, tx);
+      }
+
+      return tx.groupBlock.create({
+        data: {
+          groupCode: data.groupCode,
+          name: data.name,
+          rateId: data.rateId,
+          cutoffDate: startOfDay(data.cutoffDate),
+          status: GroupBlockStatus.ACTIVE,
+          contactName: data.contactName,
+          contactEmail: data.contactEmail,
+          notes: data.notes,
+          releasedAt: null,
+          createdBy: userId,
+          allotments: {
+            create: data.allotments.map(allotment => ({
+              roomType: allotment.roomType,
+              date: startOfDay(allotment.date),
+              contractedRooms: allotment.rooms,
+              pickedUpRooms: 0,
+              releasedRooms: 0
+            }))
+          }
+        },
+        include: { allotments: true }
+      }) as Promise<GroupBlock>;
+    });
+
+    this.logger.log(`Group block ${block.groupCode} contracted with ${data.allotments.length} allotments`);
+    return block;
+  }
+
+  /**
+   * Lists group blocks by cutoff date
+   * @param filter - Optional status and group code filter
+   */
+  async findBlocks(filter: GroupBlockFilter = {}): Promise<GroupBlock[]> {
+    return this.prisma.groupBlock.findMany({
+      where: {
+        status: filter.status,
+        groupCode: filter.groupCode
+      },
+      include: { allotments: true },
+      orderBy: { cutoffDate: 'asc' }
+    }) as Promise<GroupBlock[]>;
+  }
+
+  /**
+   * Retrieves a group block with its allotments
+   * @param blockId - Group block ID
+   * @throws ErrorCode.RESOURCE_NOT_FOUND if the block does not exist
+   */
+  async getBlock(blockId: string): Promise<GroupBlock> {
+    const block = await this.prisma.groupBlock.findUnique({
+      where: { id: blockId },
+      include: { allotments: true }
+    }) as GroupBlock | null;
+
+    if (!block) {
+      throw createErrorDetails(ErrorCode.RESOURCE_NOT_FOUND, {
+        message: 'Group block not found',
+        blockId
+      });
+    }
+
+    return block;
+  }
+
+  /**
+   * Books a rooming list against the block. Each row is booked on its own, so rows that do not
+   * fit the block are reported without rejecting the rest of the list.
+   * @param blockId - Group block ID
+   * @param entries - Rooming-list rows
+   * @param userId - User importing the list
+   * @throws ErrorCode.BUSINESS_RULE_VIOLATION if the block no longer holds rooms
+   */
+  async importRoomingList(blockId: string, entries: RoomingListEntry[], userId: string): Promise<RoomingListResult> {
+    const block = await this.getBlock(blockId);
+
+    if (block.status !== GroupBlockStatus.ACTIVE) {
+      throw createErrorDetails(ErrorCode.BUSINESS_RULE_VIOLATION, {
+        message: `Cannot pick up rooms from a ${block.status.toLowerCase()} group block`,
+        blockId
+      });
+    }
+
+    const rate = await this.prisma.rate.findUnique({ where: { id: block.rateId } }) as Rate;
+    const result: RoomingListResult = { created: [], rejected: [] };
+
+    for (const [index, entry] of entries.entries()) {
+      const row = index + 1;
+      try {
+        const booking = await this.pickUp(block, rate, entry, userId);
+        result.created.push({ row, bookingId: booking.id, bookingNumber: booking.bookingNumber });
+      } catch (error) {
+        if (error.code !== ErrorCode.RESOURCE_CONFLICT && error.code !== ErrorCode.VALIDATION_ERROR) {
+          throw error;
+        }
+        result.rejected.push({ row, guestId: entry.guestId, reason: error.details?.message || error.message });
+      }
+    }
+
+    this.logger.log(
+      `Rooming list for ${block.groupCode}: ${result.created.length} booked, ${result.rejected.length} rejected`
+    );
+
+    return result;
+  }
+
+  /**
+   * Reports contracted, picked-up and released rooms per room type and night
+   * @param blockId - Group block ID
+   */
+  async getPickupReport(blockId: string): Promise<GroupPickupReport> {
+    const block = await this.getBlock(blockId);
+
+    const lines = [...block.allotments]
+      .sort((a, b) => a.date.getTime() - b.date.getTime() || a.roomType.localeCompare(b.roomType))
+      .map(allotment => ({
+        roomType: allotment.roomType,
+        date: allotment.date,
+        contractedRooms: allotment.contractedRooms,
+        pickedUpRooms: allotment.pickedUpRooms,
+        releasedRooms: allotment.releasedRooms,
+        remainingRooms: this.unpickedRooms(allotment)
+      }));
+
+    const contractedRoomNights = lines.reduce((sum, line) => sum + line.contractedRooms, 0);
+    const pickedUpRoomNights = lines.reduce((sum, line) => sum + line.pickedUpRooms, 0);
+
+    return {
+      groupBlockId: block.id,
+      groupCode: block.groupCode,
+      status: block.status,
+      cutoffDate: block.cutoffDate,
+      lines,
+      totals: {
+        contractedRoomNights,
+        pickedUpRoomNights,
+        releasedRoomNights: lines.reduce((sum, line) => sum + line.releasedRooms, 0),
+        pickupPercent: contractedRoomNights === 0
+          ? 0
+          : Math.round((pickedUpRoomNights / contractedRoomNights) * 10000) / 100
+      }
+    };
+  }
+
+  /**
+   * Releases the unpicked rooms of every active block whose cutoff date has passed
+   * @param userId - User or job running the release
+   * @returns Number of blocks released
+   */
+  async releaseExpiredBlocks(userId: string = GROUP_CUTOFF_USER): Promise<number> {
+    const businessDate = await this.businessDates.getBusinessDate();
+
+    const expired = await this.prisma.groupBlock.findMany({
+      where: {
+        status: GroupBlockStatus.ACTIVE,
+        cutoffDate: { lt: businessDate }
+      },
+      include: { allotments: true }
+    }) as GroupBlock[];
+
+    for (const block of expired) {
+      await this.releaseBlock(block, GroupBlockStatus.RELEASED, userId);
+    }
+
+    return expired.length;
+  }
+
+  /**
+   * Cancels a block, returning its unpicked rooms to general inventory. Rooms already picked
+   * up stay booked.
+   * @param blockId - Group block ID
+   * @param userId - User cancelling the block
+   */
+  async cancelBlock(blockId: string, userId: string): Promise<GroupBlock> {
+    const block = await this.getBlock(blockId);
+
+    if (block.status !== GroupBlockStatus.ACTIVE) {
+      throw createErrorDetails(ErrorCode.BUSINESS_RULE_VIOLATION, {
+        message: `Group block is already ${block.status.toLowerCase()}`,
+        blockId
+      });
+    }
+
+    return this.releaseBlock(block, GroupBlockStatus.CANCELLED, userId);
+  }
+
+  /**
+   * Schedules the cutoff release daily at the configured local time
+   * @param time - Time of day in HH:mm format
+   */
+  scheduleDaily(time: string = process.env.GROUP_CUTOFF_RELEASE_TIME || '03:00'): void {
+    const [hours, minutes] = time.split(':').map(Number);
+    const now = new Date();
+    const nextRun = new Date(now);
+    nextRun.setHours(hours, minutes, 0, 0);
+    if (nextRun <= now) {
+      nextRun.setDate(nextRun.getDate() + 1);
+    }
+
+    this.cancelSchedule();
+    this.scheduledRun = setTimeout(async () => {
+      try {
+        await this.releaseExpiredBlocks(GROUP_CUTOFF_USER);
+      } catch (error) {
+        this.logger.error(`Group cutoff release failed: ${error.message || error.code}`);
+      }
+      this.scheduleDaily(time);
+    }, nextRun.getTime() - now.getTime());
+  }
+
+  /**
+   * Cancels the scheduled cutoff release
+   */
+  cancelSchedule(): void {
+    if (this.scheduledRun) {
+      clearTimeout(this.scheduledRun);
+      this.scheduledRun = null;
+    }
+  }
+
+  /**
+   * Takes one room of the entry's type from the block for every night of the stay and books it
+   * at the group rate. Pickup is guarded on the count read so concurrent imports cannot exceed
+   * the contracted rooms.
+   */
+  private async pickUp(block: GroupBlock, rate: Rate, entry: RoomingListEntry, userId: string): Promise<Booking> {
+    const nights = this.nightsOf(entry.checkInDate, entry.checkOutDate);
+    if (nights.length === 0) {
+      throw createErrorDetails(ErrorCode.VALIDATION_ERROR, {
+        message: 'Check-out must be after check-in',
+        guestId: entry.guestId
+      });
+    }
+
+    const taxes = await this.taxes.calculate(nights.map((night, index) => ({
+      category: ROOM_CHARGE_CATEGORY,
+      amount: rate.baseRate,
+      date: night,
+      persons: entry.numberOfGuests,
+      stayNight: index + 1
+    })));
+
+    return this.prisma.$transaction(async (tx) => {
+      const allotments = await tx.groupBlockAllotment.findMany({
+        where: {
+          groupBlockId: block.id,
+          roomType: entry.roomType,
+          date: { in: nights }
+        }
+      }) as GroupBlockAllotment[];
+
+      for (const night of nights) {
+        const allotment = allotments.find(candidate => candidate.date.getTime() === night.getTime());
+        if (!allotment || this.unpickedRooms(allotment) < 1) {
+          throw this.blockFullError(block, entry.roomType, night);
+        }
+
+        const { count } = await tx.groupBlockAllotment.updateMany({
+          where: { id: allotment.id, pickedUpRooms: allotment.pickedUpRooms },
+          data: { pickedUpRooms: { increment: 1 } }
+        });
+
+        if (count === 0) {
+          throw this.blockFullError(block, entry.roomType, night);
+        }
+      }
+
+      // Group rooms are contracted at the rate's base price every night
+      const nightlyRates: NightlyRate[] = nights.map((night, index) => ({
+        rateId: rate.id,
+        date: night,
+        baseRate: rate.baseRate,
+        adjustmentAmount: Math.round((taxes[index].netAmount - rate.baseRate) * 100) / 100,
+        adjustmentReason: null,
+        taxRate: taxes[index].effectiveRate,
+        taxAmount: taxes[index].taxAmount,
+        taxLines: taxes[index].lines,
+        totalRate: taxes[index].grossAmount,
+        breakdown: {
+          seasonalAdjustment: 0,
+          occupancyAdjustment: 0,
+          losAdjustment: 0,
+          channelMarkup: 0,
+          taxes: taxes[index].taxAmount
+        }
+      }));
+      const { totalAmount, taxAmount } = summarizeNightlyRates(nightlyRates);
+
+      return tx.booking.create({
+        data: {
+          guestId: entry.guestId,
+          roomType: entry.roomType,
+          roomId: null,
+          rateId: block.rateId,
+          groupBlockId: block.id,
+          bookingNumber: this.generateBookingNumber(),
+          status: BookingStatus.CONFIRMED,
+          checkInDate: entry.checkInDate,
+          checkOutDate: entry.checkOutDate,
+          numberOfGuests: entry.numberOfGuests,
+          totalAmount,
+          taxAmount,
+          nightlyRates: { create: nightlyRates },
+          bookingSource: GROUP_BOOKING_SOURCE,
+          paymentStatus: PaymentStatus.UNPAID,
+          specialRequests: entry.specialRequests || {},
+          isConfirmed: true,
+          lastModifiedBy: userId,
+          auditTrail: [{
+            timestamp: new Date(),
+            action: 'GROUP_ROOM_PICKED_UP',
+            userId,
+            changes: { status: BookingStatus.CONFIRMED, groupCode: block.groupCode, roomType: entry.roomType }
+          }],
+          createdAt: new Date(),
+          updatedAt: new Date()
+        }
+      }) as Promise<Booking>;
+    });
+  }
+
+  /**
+   * Returns the unpicked rooms of future nights to general inventory, closes the block and
+   * offers the released rooms to the waitlist
+   */
+  private async releaseBlock(block: GroupBlock, status: GroupBlockStatus, userId: string): Promise<GroupBlock> {
+    const businessDate = await this.businessDates.getBusinessDate();
+    const releasable = block.allotments.filter(allotment =>
+      allotment.date >= businessDate && this.unpickedRooms(allotment) > 0
+    );
+
+    const released = await this.prisma.$transaction(async (tx) => {
+      const { count } = await tx.groupBlock.updateMany({
+        where: { id: block.id, status: GroupBlockStatus.ACTIVE },
+        data: { status, releasedAt: new Date(), updatedAt: new Date() }
+      });
+
+      // Another release or cancellation already closed the block
+      if (count === 0) {
+        throw createErrorDetails(ErrorCode.RESOURCE_CONFLICT, {
+          message: 'Group block was closed concurrently',
+          blockId: block.id
+        });
+      }
+
+      for (const allotment of releasable) {
+        await this.releaseAllotment(tx, allotment);
+      }
+
+      return tx.groupBlock.findUnique({
+        where: { id: block.id },
+        include: { allotments: true }
+      }) as Promise<GroupBlock>;
+    });
+
+    this.logger.log(
+      `Group block ${block.groupCode} ${status.toLowerCase()} by ${userId}: ` +
+      `${releasable.reduce((sum, allotment) => sum + this.unpickedRooms(allotment), 0)} room nights returned to inventory`
+    );
+
+    // Released rooms go to the waitlist; a failed offer does not undo the release
+    if (this.waitlist) {
+      for (const roomType of new Set(releasable.map(allotment => allotment.roomType))) {
+        const dates = releasable.filter(allotment => allotment.roomType === roomType).map(allotment => allotment.date);
+        const from = new Date(Math.min(...dates.map(date => date.getTime())));
+        const to = addDays(new Date(Math.max(...dates.map(date => date.getTime()))), 1);
+        try {
+          await this.waitlist.offerReleasedInventory(roomType, from, to, userId);
+        } catch (error) {
+          this.logger.error(`Waitlist offer for group ${block.groupCode} failed: ${error.message || error.code}`);
+        }
+      }
+    }
+
+    return released;
+  }
+
+  private async releaseAllotment(tx: Prisma.TransactionClient, allotment: GroupBlockAllotment): Promise<void> {
+    const rooms = this.unpickedRooms(allotment);
+
+    await this.inventory.release(allotment.roomType, allotment.date, addDays(allotment.date, 1), rooms, tx);
+    await tx.groupBlockAllotment.update({
+      where: { id: allotment.id },
+      data: { releasedRooms: { increment: rooms } }
+    });
+  }
+
+  private unpickedRooms(allotment: GroupBlockAllotment): number {
+    return Math.max(0, allotment.contractedRooms - allotment.pickedUpRooms - allotment.releasedRooms);
+  }
+
+  private blockFullError(block: GroupBlock, roomType: RoomType, date: Date) {
+    return createErrorDetails(ErrorCode.RESOURCE_CONFLICT, {
+      message: `Group block has no ${roomType} room left on ${format(date, 'yyyy-MM-dd')}`,
+      groupCode: block.groupCode,
+      roomType,
+      date: format(date, 'yyyy-MM-dd')
+    });
+  }
+
+  private nightsOf(checkInDate: Date, checkOutDate: Date): Date[] {
+    const firstNight = startOfDay(checkInDate);
+    return differenceInCalendarDays(checkOutDate, checkInDate) < 1
+      ? []
+      : eachDayOfInterval({ start: firstNight, end: addDays(startOfDay(checkOutDate), -1) });
+  }
+
+  private generateBookingNumber(): string {
+    const timestamp = Date.now().toString(36).toUpperCase();
+    const random = Math.random().toString(36).substring(2, 5).toUpperCase();
+    return `BK${timestamp}${random}`;
+  }
+}
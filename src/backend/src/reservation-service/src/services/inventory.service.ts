@@ -0,0 +1,242 @@
+/**
+ * @fileoverview Room-type inventory service keeping a per-night count of rooms held for each room
+ * type. Allocation is all-or-nothing across the nights of a stay and guarded against concurrent
+ * updates, so two bookings can never take the last room of a type on the same night. Every
+ * change is queued for the distribution channels in the same transaction.
+ * @version 1.0.0
+ */
+
+// External imports
+import { Injectable, Logger } from '@nestjs/common'; // v10.0.0
+import { Prisma, PrismaClient } from '@prisma/client'; // v5.0.0
+import { addDays, eachDayOfInterval, format, startOfDay } from 'date-fns'; // v2.30.0
+
+// Internal imports
+import { prisma as reservationPrisma } from '../config/database';
+import { RoomTypeAvailability, RoomTypeInventory } from '../models/room-inventory.model';
+import { ARI_HORIZON_DAYS, AriUpdateType } from '../models/channel.model';
+import { ChannelOutboxService } from './channel-outbox.service';
+import { RoomStatus, RoomType } from '../../../room-service/src/models/room.model';
+import { ErrorCode, createErrorDetails } from '../../../shared/constants/error-codes';
+
+/**
+ * Client used for inventory reads and writes; a transaction client when called inside a booking transaction
+ */
+type InventoryClient = PrismaClient | Prisma.TransactionClient;
+
+/**
+ * Service managing per-night room-type inventory
+ */
+@Injectable()
+export class InventoryService {
+  private readonly logger = new Logger(InventoryService.name);
+
+  constructor(
+    private readonly prisma: PrismaClient = reservationPrisma,
+    private readonly outbox: ChannelOutboxService = new ChannelOutboxService(prisma)
+  ) {}
+
+  /**
+   * Returns remaining inventory for each night of a stay
+   * @param roomType - Room type
+   * @param checkInDate - First night
+   * @param checkOutDate - Departure date (not a night of stay)
+   */
+  async getAvailability(roomType: RoomType, checkInDate: Date, checkOutDate: Date): Promise<RoomTypeAvailability[]> {
+    const rows = await this.ensureInventory(this.prisma, roomType, checkInDate, checkOutDate);
+
+    return rows.map(row => ({
+      roomType,
+      date: row.date,
+      totalRooms: row.totalRooms,
+      allocatedRooms: row.allocatedRooms,
+      availableRooms: Math.max(0, row.totalRooms - row.allocatedRooms)
+    }));
+  }
+
+  /**
+   * Checks whether the room type has enough rooms left on every night of a stay
+   * @param roomType - Room type
+   * @param checkInDate - First night
+   * @param checkOutDate - Departure date
+   * @param rooms - Number of rooms required
+   */
+  async hasAvailability(roomType: RoomType, checkInDate: Date, checkOutDate: Date, rooms = 1): Promise<boolean> {
+    const nights = await this.getAvailability(roomType, checkInDate, checkOutDate);
+    return nights.every(night => night.availableRooms >= rooms);
+  }
+
+  /**
+   * Holds rooms of a type for every night of a stay
+   * @param roomType - Room type
+   * @param checkInDate - First night
+   * @param checkOutDate - Departure date
+   * @param rooms - Number of rooms to hold
+   * @param client - Transaction client; a new transaction is opened when omitted
+   * @throws ErrorCode.RESOURCE_CONFLICT if any night is sold out
+   */
+  async allocate(
+    roomType: RoomType,
+    checkInDate: Date,
+    checkOutDate: Date,
+    rooms = 1,
+    client?: Prisma.TransactionClient
+  ): Promise<void> {
+    if (!client) {
+      return this.prisma.$transaction(tx => this.allocate(roomType, checkInDate, checkOutDate, rooms, tx));
+    }
+
+    const nights = await this.ensureInventory(client, roomType, checkInDate, checkOutDate);
+
+    for (const night of nights) {
+      if (night.allocatedRooms + rooms > night.totalRooms) {
+        throw this.soldOutError(roomType, night.date);
+      }
+
+      // Guard on the count we read so a concurrent allocation cannot oversell the night
+      const { count } = await client.roomTypeInventory.updateMany({
+        where: { id: night.id, allocatedRooms: night.allocatedRooms },
+        data: { allocatedRooms: { increment: rooms } }
+      });
+
+      if (count === 0) {
+        throw this.soldOutError(roomType, night.date);
+      }
+    }
+
+    await this.queueAvailability(client, roomType, nights.map(night => night.date));
+  }
+
+  /**
+   * Returns rooms of a type to inventory for every night of a stay
+   * @param roomType - Room type
+   * @param checkInDate - First released night
+   * @param checkOutDate - Departure date
+   * @param rooms - Number of rooms to release
+   * @param client - Transaction client; a new transaction is opened when omitted
+   */
+  async release(
+    roomType: RoomType,
+    checkInDate: Date,
+    checkOutDate: Date,
+    rooms = 1,
+    client?: Prisma.TransactionClient
+  ): Promise<void> {
+    if (!client) {
+      return this.prisma.$transaction(tx => this.release(roomType, checkInDate, checkOutDate, rooms, tx));
+    }
+
+    const dates = this.nightsOf(checkInDate, checkOutDate);
+    if (dates.length === 0) {
+      return;
+    }
+
+    const { count } = await client.roomTypeInventory.updateMany({
+      where: {
+        roomType,
+        date: { in: dates },
+        allocatedRooms: { gte: rooms }
+      },
+      data: { allocatedRooms: { decrement: rooms } }
+    });
+
+    if (count < dates.length) {
+      this.logger.warn(`Released ${count} of ${dates.length} nights for ${roomType} from ${format(dates[0], 'yyyy-MM-dd')}`);
+    }
+
+    if (count > 0) {
+      await this.queueAvailability(client, roomType, dates);
+    }
+  }
+
+  /**
+   * Updates the sellable room count on future nights after rooms of a type are added,
+   * removed or taken out of order
+   * @param roomType - Room type
+   * @param fromDate - First night to update
+   */
+  async syncTotalRooms(roomType: RoomType, fromDate: Date): Promise<number> {
+    const totalRooms = await this.countSellableRooms(this.prisma, roomType);
+
+    const { count } = await this.prisma.roomTypeInventory.updateMany({
+      where: { roomType, date: { gte: startOfDay(fromDate) } },
+      data: { totalRooms }
+    });
+
+    if (count > 0) {
+      await this.queueAvailability(this.prisma, roomType, [startOfDay(fromDate), addDays(startOfDay(fromDate), ARI_HORIZON_DAYS)]);
+    }
+
+    return count;
+  }
+
+  /**
+   * Loads the inventory rows for each night of a stay, creating missing rows from the
+   * current sellable room count
+   */
+  private async ensureInventory(
+    client: InventoryClient,
+    roomType: RoomType,
+    checkInDate: Date,
+    checkOutDate: Date
+  ): Promise<RoomTypeInventory[]> {
+    const dates = this.nightsOf(checkInDate, checkOutDate);
+    const existing = await client.roomTypeInventory.findMany({
+      where: { roomType, date: { in: dates } }
+    }) as RoomTypeInventory[];
+
+    if (existing.length === dates.length) {
+      return existing.sort((a, b) => a.date.getTime() - b.date.getTime());
+    }
+
+    const totalRooms = await this.countSellableRooms(client, roomType);
+
+    return Promise.all(dates.map(date =>
+      client.roomTypeInventory.upsert({
+        where: { roomType_date: { roomType, date } },
+        create: { roomType, date, totalRooms, allocatedRooms: 0 },
+        update: {}
+      }) as Promise<RoomTypeInventory>
+    ));
+  }
+
+  /**
+   * Queues the availability of the nights for the distribution channels
+   */
+  private async queueAvailability(client: InventoryClient, roomType: RoomType, dates: Date[]): Promise<void> {
+    if (dates.length === 0) {
+      return;
+    }
+
+    await this.outbox.queue({
+      type: AriUpdateType.AVAILABILITY,
+      roomType,
+      startDate: dates[0],
+      endDate: dates[dates.length - 1]
+    }, client);
+  }
+
+  private countSellableRooms(client: InventoryClient, roomType: RoomType): Promise<number> {
+    return client.room.count({
+      where: {
+        type: roomType,
+        isActive: true,
+        status: { not: RoomStatus.OUT_OF_ORDER }
+      }
+    });
+  }
+
+  private soldOutError(roomType: RoomType, date: Date) {
+    return createErrorDetails(ErrorCode.RESOURCE_CONFLICT, {
+      message: 'Room type is sold out for the requested dates',
+      roomType,
+      date: format(date, 'yyyy-MM-dd')
+    });
+  }
+
+  private nightsOf(checkInDate: Date, checkOutDate: Date): Date[] {
+    const firstNight = startOfDay(checkInDate);
+    const lastNight = addDays(startOfDay(checkOutDate), -1);
+    return lastNight < firstNight ? [] : eachDayOfInterval({ start: firstNight, end: lastNight });
+  }
+}
@@ -0,0 +1,893 @@
+/**
+ * @fileoverview OpenTravel XML service accepting OTA_HotelResNotifRQ, OTA_HotelAvailNotifRQ and
+ * OTA_HotelRateAmountNotifRQ from channel partners. Each request is validated against the
+ * schema of the supported message subset and fully mapped before anything is applied; the
+ * matching RS message reports success with warnings, or the errors found.
+ * @version 1.0.0
+ */
+
+// External imports
+import { Injectable, Logger } from '@nestjs/common'; // v10.0.0
+import { PrismaClient } from '@prisma/client'; // v5.0.0
+import { XMLBuilder, XMLParser, XMLValidator } from 'fast-xml-parser'; // v4.3.2
+import Joi from 'joi'; // v17.9.0
+import { addDays, differenceInCalendarDays, isValid, parseISO, startOfDay } from 'date-fns'; // v2.30.0
+
+// Internal imports
+import { prisma as reservationPrisma } from '../config/database';
+import { Rate } from '../models/rate.model';
+import {
+  AriUpdateType,
+  DistributionChannel,
+  OtaIngestStatus,
+  OtaReservation,
+  OtaReservationAction
+} from '../models/channel.model';
+import {
+  OTA_NAMESPACE,
+  OtaErrorCode,
+  OtaErrorType,
+  OtaMessageResult,
+  OtaMessageType,
+  OtaNotice
+} from '../models/ota-message.model';
+import { SetStayRestrictionsDto } from '../models/stay-restriction.model';
+import { RoomType } from '../../../room-service/src/models/room.model';
+import { calculateTaxes } from '../../../shared/models/tax.model';
+import { ROOM_CHARGE_CATEGORY } from '../../../shared/models/charge-category.model';
+import { TaxCalculationService } from '../../../shared/services/tax-calculation.service';
+import { CHANNEL_MANAGER_USER, ChannelManagerService } from './channel-manager.service';
+import { ChannelOutboxService } from './channel-outbox.service';
+import { StayRestrictionService } from './stay-restriction.service';
+import { RateHierarchyService } from './rate-hierarchy.service';
+import { ErrorCode, createErrorDetails } from '../../../shared/constants/error-codes';
+
+/**
+ * Elements parsed as lists even when they occur once
+ */
+const REPEATED_ELEMENTS = new Set([
+  'HotelReservation',
+  'UniqueID',
+  'RoomStay',
+  'GuestCount',
+  'ResGuest',
+  'SpecialRequest',
+  'AvailStatusMessage',
+  'LengthOfStay',
+  'RateAmountMessage',
+  'Rate',
+  'BaseByGuestAmt'
+]);
+
+/**
+ * Description marking seasonal modifiers written from OTA rate amount messages
+ */
+const OTA_RATE_AMOUNT_SOURCE = 'OTA rate amount';
+
+/**
+ * Days of week in OTA status application control attributes, by JavaScript day number
+ */
+const OTA_WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Weds', 'Thur', 'Fri', 'Sat'];
+
+/**
+ * OTA error code of a field failing validation for a reason other than being missing
+ */
+const FIELD_ERROR_CODES: Record<string, OtaErrorCode> = {
+  Start: OtaErrorCode.INVALID_DATE,
+  End: OtaErrorCode.INVALID_DATE,
+  CreateDateTime: OtaErrorCode.INVALID_DATE,
+  LastModifyDateTime: OtaErrorCode.INVALID_DATE,
+  RoomTypeCode: OtaErrorCode.INVALID_ROOM_TYPE,
+  InvTypeCode: OtaErrorCode.INVALID_ROOM_TYPE,
+  CurrencyCode: OtaErrorCode.INVALID_CURRENCY_CODE,
+  HotelCode: OtaErrorCode.INVALID_HOTEL_CODE
+};
+
+/**
+ * OTA error code of a rejected reservation, by the error that rejected it
+ */
+const INGEST_ERROR_CODES: Partial<Record<ErrorCode, OtaErrorCode>> = {
+  [ErrorCode.RESOURCE_CONFLICT]: OtaErrorCode.NO_AVAILABILITY,
+  [ErrorCode.RESOURCE_NOT_FOUND]: OtaErrorCode.INVALID_CONFIRMATION_NUMBER,
+  [ErrorCode.BUSINESS_RULE_VIOLATION]: OtaErrorCode.BOOKING_ALREADY_CANCELLED
+};
+
+/**
+ * OTA DateOrDateTime; date-only values are read as property-local dates
+ */
+const otaDate = Joi.string().custom((value: string, helpers) => {
+  const date = parseISO(value);
+  return isValid(date) ? date : helpers.error('any.invalid');
+}, 'ISO 8601 date');
+
+const weekdaySchema = Object.fromEntries(OTA_WEEKDAYS.map(day => [day, Joi.boolean().truthy('1').falsy('0')]));
+
+const statusApplicationControlSchema = Joi.object({
+  $: Joi.object({
+    RatePlanCode: Joi.string().required(),
+    InvTypeCode: Joi.string().valid(...Object.values(RoomType)),
+    Start: otaDate,
+    End: otaDate,
+    ...weekdaySchema
+  }).and('Start', 'End').required()
+}).required();
+
+const resNotifSchema = Joi.object({
+  $: Joi.object({
+    EchoToken: Joi.string(),
+    ResStatus: Joi.string().valid('Book', 'Commit', 'Modify', 'Cancel')
+  }),
+  HotelReservations: Joi.object({
+    HotelReservation: Joi.array().min(1).items(Joi.object({
+      $: Joi.object({
+        CreateDateTime: otaDate,
+        LastModifyDateTime: otaDate,
+        ResStatus: Joi.string().valid('Book', 'Commit', 'Modify', 'Cancel')
+      }).or('CreateDateTime', 'LastModifyDateTime').required(),
+      UniqueID: Joi.array().has(Joi.object({
+        $: Joi.object({ Type: Joi.string().valid('14').required(), ID: Joi.string().max(64).required() })
+      })).required(),
+      RoomStays: Joi.object({
+        RoomStay: Joi.array().length(1).items(Joi.object({
+          RoomTypes: Joi.object({
+            RoomType: Joi.object({
+              $: Joi.object({ RoomTypeCode: Joi.string().valid(...Object.values(RoomType)).required() }).required()
+            }).required()
+          }).required(),
+          RatePlans: Joi.object({
+            RatePlan: Joi.object({
+              $: Joi.object({ RatePlanCode: Joi.string().required() }).required()
+            }).required()
+          }).required(),
+          GuestCounts: Joi.object({
+            GuestCount: Joi.array().min(1).items(Joi.object({
+              $: Joi.object({ Count: Joi.number().integer().min(1).required() }).required()
+            })).required()
+          }).required(),
+          TimeSpan: Joi.object({
+            $: Joi.object({
+              Start: otaDate.required(),
+              End: otaDate.required()
+            }).required()
+          }).required(),
+          Total: Joi.object({
+            $: Joi.object({
+              AmountAfterTax: Joi.number().min(0).required(),
+              CurrencyCode: Joi.string().length(3).required()
+            }).required()
+          }).required(),
+          BasicPropertyInfo: Joi.object({
+            $: Joi.object({ HotelCode: Joi.string().required() }).required()
+          })
+        })).required()
+      }).required(),
+      ResGuests: Joi.object({
+        ResGuest: Joi.array().min(1).items(Joi.object({
+          Profiles: Joi.object({
+            ProfileInfo: Joi.object({
+              Profile: Joi.object({
+                UniqueID: Joi.array().has(Joi.object({
+                  $: Joi.object({ Type: Joi.string().valid('1').required(), ID: Joi.string().uuid().required() })
+                })).required(),
+                Customer: Joi.object({
+                  PersonName: Joi.object({
+                    GivenName: Joi.string(),
+                    Surname: Joi.string().required()
+                  }).required()
+                }).required()
+              }).required()
+            }).required()
+          }).required()
+        })).required()
+      }).required(),
+      ResGlobalInfo: Joi.object({
+        SpecialRequests: Joi.object({
+          SpecialRequest: Joi.array().items(Joi.object({ Text: Joi.string() }))
+        })
+      })
+    }))
+  }).required()
+});
+
+const availNotifSchema = Joi.object({
+  $: Joi.object({ EchoToken: Joi.string() }),
+  AvailStatusMessages: Joi.object({
+    $: Joi.object({ HotelCode: Joi.string().required() }).required(),
+    AvailStatusMessage: Joi.array().min(1).items(Joi.object({
+      $: Joi.object({ BookingLimit: Joi.number().integer().min(0) }),
+      StatusApplicationControl: statusApplicationControlSchema,
+      LengthsOfStay: Joi.object({
+        LengthOfStay: Joi.array().items(Joi.object({
+          $: Joi.object({
+            MinMaxMessageType: Joi.string()
+              .valid('SetMinLOS', 'SetMaxLOS', 'SetForwardMinStay', 'SetForwardMaxStay')
+              .required(),
+            Time: Joi.number().integer().min(0).required(),
+            TimeUnit: Joi.string().valid('Day')
+          }).required()
+        }))
+      }),
+      RestrictionStatus: Joi.object({
+        $: Joi.object({
+          Restriction: Joi.string().valid('Arrival', 'Departure', 'Master'),
+          Status: Joi.string().valid('Open', 'Close').required()
+        }).required()
+      })
+    }))
+  }).required()
+});
+
+const rateAmountNotifSchema = Joi.object({
+  $: Joi.object({ EchoToken: Joi.string() }),
+  RateAmountMessages: Joi.object({
+    $: Joi.object({ HotelCode: Joi.string().required() }).required(),
+    RateAmountMessage: Joi.array().min(1).items(Joi.object({
+      StatusApplicationControl: statusApplicationControlSchema,
+      Rates: Joi.object({
+        Rate: Joi.array().min(1).items(Joi.object({
+          $: Joi.object({ CurrencyCode: Joi.string().length(3) }),
+          BaseByGuestAmts: Joi.object({
+            BaseByGuestAmt: Joi.array().min(1).items(Joi.object({
+              $: Joi.object({
+                AmountBeforeTax: Joi.number().min(0),
+                AmountAfterTax: Joi.number().min(0),
+                CurrencyCode: Joi.string().length(3),
+                NumberOfGuests: Joi.number().integer().min(1)
+              }).or('AmountBeforeTax', 'AmountAfterTax').required()
+            })).required()
+          }).required()
+        })).required()
+      }).required()
+    }))
+  }).required()
+});
+
+const SCHEMAS: Record<OtaMessageType, Joi.ObjectSchema> = {
+  [OtaMessageType.HOTEL_RES_NOTIF]: resNotifSchema,
+  [OtaMessageType.HOTEL_AVAIL_NOTIF]: availNotifSchema,
+  [OtaMessageType.HOTEL_RATE_AMOUNT_NOTIF]: rateAmountNotifSchema
+};
+
+/**
+ * Restriction change mapped from one AvailStatusMessage
+ */
+interface RestrictionChange {
+  recordId: string;
+  rate: Rate;
+  /** Dated changes go to the restriction calendar, undated ones to the channel rule */
+  calendar: SetStayRestrictionsDto[] | null;
+  values: Pick<SetStayRestrictionsDto, 'minimumLOS' | 'maximumLOS' | 'closedToArrival' | 'closedToDeparture'>;
+}
+
+/**
+ * Price change mapped from one RateAmountMessage
+ */
+interface RateAmountChange {
+  recordId: string;
+  rate: Rate;
+  /** Amount before tax */
+  amount: number;
+  startDate: Date | null;
+  endDate: Date | null;
+}
+
+/**
+ * Service translating OpenTravel XML messages
+ */
+@Injectable()
+export class OtaXmlService {
+  private readonly logger = new Logger(OtaXmlService.name);
+  private readonly parser = new XMLParser({
+    ignoreAttributes: false,
+    attributesGroupName: '$',
+    attributeNamePrefix: '',
+    removeNSPrefix: true,
+    parseTagValue: false,
+    parseAttributeValue: false,
+    isArray: name => REPEATED_ELEMENTS.has(name)
+  });
+  private readonly builder = new XMLBuilder({
+    ignoreAttributes: false,
+    attributesGroupName: '$',
+    attributeNamePrefix: '',
+    suppressEmptyNode: true,
+    format: true
+  });
+
+  constructor(
+    private readonly channelManager: ChannelManagerService,
+    private readonly prisma: PrismaClient = reservationPrisma,
+    private readonly outbox: ChannelOutboxService = new ChannelOutboxService(prisma),
+    private readonly stayRestrictions: StayRestrictionService = new StayRestrictionService(prisma, outbox),
+    private readonly rateHierarchy: RateHierarchyService = new RateHierarchyService(prisma, outbox),
+    private readonly taxes: TaxCalculationService = new TaxCalculationService(prisma),
+    private readonly hotelCode: string | undefined = process.env.OTA_HOTEL_CODE
+  ) {}
+
+  /**
+   * Handles an OTA request from a channel partner and returns its RS message
+   * @param channel - Channel the partner sells on
+   * @param xml - OTA request document
+   * @throws ErrorCode.VALIDATION_ERROR if the document is not well-formed XML or not a supported request
+   */
+  async handle(channel: DistributionChannel, xml: string): Promise<string> {
+    const wellFormed = XMLValidator.validate(xml);
+    if (wellFormed !== true) {
+      throw createErrorDetails(ErrorCode.VALIDATION_ERROR, {
+        message: `Malformed OTA message: ${wellFormed.err.msg} at line ${wellFormed.err.line}`
+      });
+    }
+
+    const document = this.parser.parse(xml);
+    const messageType = Object.values(OtaMessageType).find(type => type in document);
+    if (!messageType) {
+      throw createErrorDetails(ErrorCode.VALIDATION_ERROR, {
+        message: 'Unsupported OTA message',
+        supported: Object.values(OtaMessageType)
+      });
+    }
+
+    const request = document[messageType];
+    const result: OtaMessageResult = { errors: [], warnings: [], reservations: [] };
+
+    const { error: invalid, value } = SCHEMAS[messageType].validate(request, { abortEarly: false, allowUnknown: true });
+    if (invalid) {
+      result.errors.push(...invalid.details.map(detail => this.schemaError(detail)));
+    } else {
+      try {
+        switch (messageType) {
+          case OtaMessageType.HOTEL_RES_NOTIF:
+            await this.handleReservations(channel, value, result);
+            break;
+          case OtaMessageType.HOTEL_AVAIL_NOTIF:
+            await this.handleRestrictions(channel, value, result);
+            break;
+          case OtaMessageType.HOTEL_RATE_AMOUNT_NOTIF:
+            await this.handleRateAmounts(channel, value, result);
+            break;
+        }
+      } catch (error) {
+        this.logger.error(`${messageType} from ${channel} failed: ${error.details?.message || error.message || error.code}`);
+        result.errors.push({
+          type: OtaErrorType.PROCESSING_EXCEPTION,
+          code: OtaErrorCode.SYSTEM_ERROR,
+          message: 'Message could not be processed'
+        });
+      }
+    }
+
+    if (result.errors.length > 0) {
+      this.logger.warn(`${messageType} from ${channel} failed with ${result.errors.length} error(s)`);
+    }
+
+    return this.buildResponse(messageType, request?.$, result);
+  }
+
+  /**
+   * Maps every reservation of an OTA_HotelResNotifRQ, then ingests them in order
+   */
+  private async handleReservations(channel: DistributionChannel, request: any, result: OtaMessageResult): Promise<void> {
+    const reservations: OtaReservation[] = [];
+
+    for (const hotelReservation of request.HotelReservations.HotelReservation) {
+      const reservation = await this.mapReservation(hotelReservation, request.$?.ResStatus, result);
+      if (reservation) {
+        reservations.push(reservation);
+      }
+    }
+
+    if (result.errors.length > 0) {
+      return;
+    }
+
+    for (const reservation of reservations) {
+      const ingested = await this.channelManager.ingestReservation(channel, reservation);
+
+      if (ingested.status === OtaIngestStatus.REJECTED) {
+        result.errors.push({
+          type: OtaErrorType.BUSINESS_RULE,
+          code: (ingested.errorCode && INGEST_ERROR_CODES[ingested.errorCode]) || OtaErrorCode.UNABLE_TO_PROCESS,
+          message: ingested.error || 'Reservation rejected',
+          recordId: reservation.confirmationNumber
+        });
+        continue;
+      }
+
+      if (ingested.status === OtaIngestStatus.DUPLICATE) {
+        result.warnings.push({
+          type: OtaErrorType.ADVISORY,
+          message: 'Reservation revision already processed',
+          recordId: reservation.confirmationNumber
+        });
+      }
+
+      if (ingested.bookingId) {
+        result.reservations.push({ confirmationNumber: reservation.confirmationNumber, bookingId: ingested.bookingId });
+      }
+    }
+  }
+
+  private async mapReservation(hotelReservation: any, requestStatus: string | undefined, result: OtaMessageResult): Promise<OtaReservation | null> {
+    const confirmationNumber: string = hotelReservation.UniqueID.find((id: any) => id.$.Type === '14').$.ID;
+    const [roomStay] = hotelReservation.RoomStays.RoomStay;
+    const profile = hotelReservation.ResGuests.ResGuest[0].Profiles.ProfileInfo.Profile;
+    const personName = profile.Customer.PersonName;
+    const errorCount = result.errors.length;
+
+    this.checkHotelCode(roomStay.BasicPropertyInfo?.$.HotelCode, confirmationNumber, result);
+    this.checkDateRange(roomStay.TimeSpan.$.Start, roomStay.TimeSpan.$.End, false, confirmationNumber, result);
+
+    const rate = await this.findRate(roomStay.RatePlans.RatePlan.$.RatePlanCode, confirmationNumber, result);
+    if (rate && rate.currencyCode !== roomStay.Total.$.CurrencyCode) {
+      result.errors.push({
+        type: OtaErrorType.BUSINESS_RULE,
+        code: OtaErrorCode.INVALID_CURRENCY_CODE,
+        message: `Rate ${rate.rateCode} is sold in ${rate.currencyCode}`,
+        recordId: confirmationNumber
+      });
+    }
+
+    if (!rate || result.errors.length > errorCount) {
+      return null;
+    }
+
+    const modified: Date = hotelReservation.$.LastModifyDateTime || hotelReservation.$.CreateDateTime;
+    const specialRequests = (hotelReservation.ResGlobalInfo?.SpecialRequests?.SpecialRequest || [])
+      .map((request: any) => request.Text)
+      .filter(Boolean);
+
+    const action = this.reservationAction(hotelReservation.$.ResStatus || requestStatus);
+
+    return {
+      action,
+      confirmationNumber,
+      // Channels send no revision number; the last modification time orders the messages
+      revision: Math.floor(modified.getTime() / 1000),
+      guestId: profile.UniqueID.find((id: any) => id.$.Type === '1').$.ID,
+      guestName: [personName.GivenName, personName.Surname].filter(Boolean).join(' '),
+      roomType: roomStay.RoomTypes.RoomType.$.RoomTypeCode,
+      rateId: rate.id,
+      checkInDate: startOfDay(roomStay.TimeSpan.$.Start),
+      checkOutDate: startOfDay(roomStay.TimeSpan.$.End),
+      numberOfGuests: roomStay.GuestCounts.GuestCount.reduce((sum: number, count: any) => sum + count.$.Count, 0),
+      totalAmount: roomStay.Total.$.AmountAfterTax,
+      currencyCode: roomStay.Total.$.CurrencyCode,
+      ...(specialRequests.length > 0 && { specialRequests: specialRequests.join('; ') }),
+      ...(action === OtaReservationAction.CANCEL && { cancellationReason: 'Cancelled on channel' })
+    };
+  }
+
+  /**
+   * Maps every status message of an OTA_HotelAvailNotifRQ onto the restriction calendar or the
+   * sending channel's rule, applying them only when all are valid
+   */
+  private async handleRestrictions(channel: DistributionChannel, request: any, result: OtaMessageResult): Promise<void> {
+    const messages = request.AvailStatusMessages;
+    this.checkHotelCode(messages.$.HotelCode, undefined, result);
+
+    const changes: RestrictionChange[] = [];
+    for (const [index, message] of messages.AvailStatusMessage.entries()) {
+      const change = await this.mapRestriction(message, String(index + 1), result);
+      if (change) {
+        changes.push(change);
+      }
+    }
+
+    if (result.errors.length > 0) {
+      return;
+    }
+
+    for (const change of changes) {
+      if (change.calendar) {
+        for (const restrictions of change.calendar) {
+          await this.stayRestrictions.setRestrictions(restrictions, `${CHANNEL_MANAGER_USER}:${channel}`);
+        }
+        continue;
+      }
+
+      const rule = change.rate.channelRules?.[channel];
+      const { values } = change;
+      // A lifted length of stay limit (null) is stored on the channel rule as 0
+      const lengthOfStay = (value: number | null | undefined, current: number | undefined) =>
+        value === undefined ? current ?? 0 : value ?? 0;
+
+      await this.updateRate(change.rate, {
+        channelRules: {
+          ...change.rate.channelRules,
+          [channel]: {
+            ...rule,
+            channelId: channel,
+            markup: rule?.markup ?? 0,
+            minimumMarkup: rule?.minimumMarkup ?? 0,
+            rateParity: rule?.rateParity ?? true,
+            restrictions: {
+              minimumLOS: lengthOfStay(values.minimumLOS, rule?.restrictions?.minimumLOS),
+              maximumLOS: lengthOfStay(values.maximumLOS, rule?.restrictions?.maximumLOS),
+              closedToArrival: values.closedToArrival ?? rule?.restrictions?.closedToArrival ?? false,
+              closedToDeparture: values.closedToDeparture ?? rule?.restrictions?.closedToDeparture ?? false
+            }
+          }
+        }
+      }, AriUpdateType.RESTRICTION);
+    }
+  }
+
+  private async mapRestriction(message: any, recordId: string, result: OtaMessageResult): Promise<RestrictionChange | null> {
+    const control = message.StatusApplicationControl.$;
+    if (control.Start && !this.checkDateRange(control.Start, control.End, true, recordId, result)) {
+      return null;
+    }
+
+    const rate = await this.findRate(control.RatePlanCode, recordId, result);
+    if (!rate) {
+      return null;
+    }
+
+    if (message.$?.BookingLimit !== undefined) {
+      result.warnings.push({
+        type: OtaErrorType.ADVISORY,
+        message: 'BookingLimit ignored: inventory is managed by the property',
+        recordId
+      });
+    }
+
+    const values: RestrictionChange['values'] = {};
+    for (const lengthOfStay of message.LengthsOfStay?.LengthOfStay || []) {
+      const limit = lengthOfStay.$.Time > 0 ? lengthOfStay.$.Time : null;
+      if (lengthOfStay.$.MinMaxMessageType.includes('Min')) {
+        values.minimumLOS = limit;
+      } else {
+        values.maximumLOS = limit;
+      }
+    }
+
+    const status = message.RestrictionStatus?.$;
+    if (status) {
+      const closed = status.Status === 'Close';
+      if (status.Restriction === 'Departure') {
+        values.closedToDeparture = closed;
+      } else {
+        values.closedToArrival = closed;
+      }
+
+      // There is no stop-sell; closing the master status stops new arrivals
+      if (status.Restriction !== 'Arrival' && status.Restriction !== 'Departure') {
+        result.warnings.push({
+          type: OtaErrorType.ADVISORY,
+          message: 'Master status applied as closed to arrival',
+          recordId
+        });
+      }
+    }
+
+    if (values.minimumLOS && values.maximumLOS && values.maximumLOS < values.minimumLOS) {
+      result.errors.push({
+        type: OtaErrorType.BUSINESS_RULE,
+        code: OtaErrorCode.UNABLE_TO_PROCESS,
+        message: 'Maximum length of stay cannot be shorter than the minimum',
+        recordId
+      });
+      return null;
+    }
+
+    if (Object.keys(values).length === 0) {
+      result.warnings.push({ type: OtaErrorType.ADVISORY, message: 'No restriction in status message', recordId });
+      return null;
+    }
+
+    const daysOfWeek = this.daysOfWeek(control);
+    if (!control.Start) {
+      if (daysOfWeek) {
+        result.errors.push({
+          type: OtaErrorType.NO_IMPLEMENTATION,
+          code: OtaErrorCode.UNABLE_TO_PROCESS,
+          message: 'Day-of-week restrictions need a Start and End date',
+          recordId
+        });
+        return null;
+      }
+      return { recordId, rate, calendar: null, values };
+    }
+
+    const roomTypes: RoomType[] = control.InvTypeCode ? [control.InvTypeCode] : Object.values(RoomType);
+    return {
+      recordId,
+      rate,
+      values,
+      calendar: roomTypes.map(roomType => ({
+        rateId: rate.id,
+        roomType,
+        startDate: startOfDay(control.Start),
+        endDate: startOfDay(control.End),
+        ...(daysOfWeek && { daysOfWeek }),
+        ...values
+      }))
+    };
+  }
+
+  /**
+   * Maps every rate amount message of an OTA_HotelRateAmountNotifRQ onto its rate, applying
+   * them only when all are valid
+   */
+  private async handleRateAmounts(channel: DistributionChannel, request: any, result: OtaMessageResult): Promise<void> {
+    const messages = request.RateAmountMessages;
+    this.checkHotelCode(messages.$.HotelCode, undefined, result);
+
+    const changes: RateAmountChange[] = [];
+    for (const [index, message] of messages.RateAmountMessage.entries()) {
+      const change = await this.mapRateAmount(message, String(index + 1), result);
+      if (change) {
+        changes.push(change);
+      }
+    }
+
+    if (result.errors.length > 0) {
+      return;
+    }
+
+    for (const change of changes) {
+      // Read again so several messages for one rate build on each other
+      const rate = await this.prisma.rate.findUnique({ where: { id: change.rate.id } }) as Rate;
+
+      if (!change.startDate || !change.endDate) {
+        // Rates derived from this one are recomputed with it
+        await this.rateHierarchy.updateBaseRate(rate.id, change.amount, `${CHANNEL_MANAGER_USER}:${channel}`);
+        continue;
+      }
+
+      await this.updateRate(rate, {
+        seasonalModifiers: [
+          ...this.withoutRange(rate.seasonalModifiers || [], change.startDate, change.endDate),
+          {
+            startDate: change.startDate,
+            endDate: change.endDate,
+            adjustmentType: 'FIXED',
+            adjustmentValue: this.round(change.amount - rate.baseRate),
+            description: `${OTA_RATE_AMOUNT_SOURCE} (${channel})`
+          }
+        ]
+      }, AriUpdateType.RATE);
+    }
+  }
+
+  private async mapRateAmount(message: any, recordId: string, result: OtaMessageResult): Promise<RateAmountChange | null> {
+    const control = message.StatusApplicationControl.$;
+    if (control.Start && !this.checkDateRange(control.Start, control.End, true, recordId, result)) {
+      return null;
+    }
+
+    const rate = await this.findRate(control.RatePlanCode, recordId, result);
+    if (!rate) {
+      return null;
+    }
+
+    if (this.daysOfWeek(control)) {
+      result.errors.push({
+        type: OtaErrorType.NO_IMPLEMENTATION,
+        code: OtaErrorCode.UNABLE_TO_PROCESS,
+        message: 'Day-of-week rate amounts are not supported',
+        recordId
+      });
+      return null;
+    }
+
+    if (!control.Start && rate.parentRateId) {
+      result.errors.push({
+        type: OtaErrorType.BUSINESS_RULE,
+        code: OtaErrorCode.UNABLE_TO_PROCESS,
+        message: `Rate ${rate.rateCode} is derived from another rate; send its parent's amount instead`,
+        recordId
+      });
+      return null;
+    }
+
+    const [otaRate, ...otherRates] = message.Rates.Rate;
+    const [amount, ...otherAmounts] = otaRate.BaseByGuestAmts.BaseByGuestAmt;
+    if (otherRates.length > 0 || otherAmounts.length > 0) {
+      result.warnings.push({
+        type: OtaErrorType.ADVISORY,
+        message: 'Only the first rate amount is applied; rates are not priced by occupancy',
+        recordId
+      });
+    }
+
+    const currencyCode = amount.$.CurrencyCode || otaRate.$?.CurrencyCode || rate.currencyCode;
+    if (currencyCode !== rate.currencyCode) {
+      result.errors.push({
+        type: OtaErrorType.BUSINESS_RULE,
+        code: OtaErrorCode.INVALID_CURRENCY_CODE,
+        message: `Rate ${rate.rateCode} is sold in ${rate.currencyCode}`,
+        recordId
+      });
+      return null;
+    }
+
+    let beforeTax = amount.$.AmountBeforeTax;
+    if (beforeTax === undefined) {
+      // Taxes in force on the first date sold, all treated as included in the amount
+      const date = control.Start ? startOfDay(control.Start) : startOfDay(new Date());
+      const rules = await this.taxes.getRules(date);
+      beforeTax = calculateTaxes(
+        { category: ROOM_CHARGE_CATEGORY, amount: amount.$.AmountAfterTax, date, persons: amount.$.NumberOfGuests },
+        rules,
+        true
+      ).netAmount;
+    }
+    if (beforeTax < rate.minimumRate || beforeTax > rate.maximumRate) {
+      result.warnings.push({
+        type: OtaErrorType.ADVISORY,
+        message: `Amount outside the rate bounds ${rate.minimumRate}-${rate.maximumRate}; prices are capped`,
+        recordId
+      });
+    }
+
+    return {
+      recordId,
+      rate,
+      amount: beforeTax,
+      startDate: control.Start ? startOfDay(control.Start) : null,
+      endDate: control.End ? startOfDay(control.End) : null
+    };
+  }
+
+  /**
+   * Updates a rate and queues the change for the distribution channels in one transaction
+   */
+  private async updateRate(rate: Rate, data: Partial<Rate>, type: AriUpdateType): Promise<void> {
+    const startDate = startOfDay(new Date());
+
+    await this.prisma.$transaction(async (tx) => {
+      await tx.rate.update({ where: { id: rate.id }, data });
+      await this.outbox.queue({
+        type,
+        rateId: rate.id,
+        startDate,
+        endDate: addDays(startDate, Math.max(1, differenceInCalendarDays(rate.effectiveTo, startDate)))
+      }, tx);
+    });
+  }
+
+  /**
+   * Removes the part of earlier OTA rate amounts a new range covers
+   */
+  private withoutRange(modifiers: Rate['seasonalModifiers'], startDate: Date, endDate: Date): Rate['seasonalModifiers'] {
+    return modifiers.flatMap(modifier => {
+      const from = startOfDay(new Date(modifier.startDate));
+      const to = startOfDay(new Date(modifier.endDate));
+      if (!modifier.description.startsWith(OTA_RATE_AMOUNT_SOURCE) || to < startDate || from > endDate) {
+        return [modifier];
+      }
+
+      return [
+        ...(from < startDate ? [{ ...modifier, startDate: from, endDate: addDays(startDate, -1) }] : []),
+        ...(to > endDate ? [{ ...modifier, startDate: addDays(endDate, 1), endDate: to }] : [])
+      ];
+    });
+  }
+
+  private async findRate(rateCode: string, recordId: string | undefined, result: OtaMessageResult): Promise<Rate | null> {
+    const rate = await this.prisma.rate.findFirst({ where: { rateCode } }) as Rate | null;
+    if (!rate) {
+      result.errors.push({
+        type: OtaErrorType.BUSINESS_RULE,
+        code: OtaErrorCode.INVALID_RATE_CODE,
+        message: `Unknown rate plan ${rateCode}`,
+        recordId
+      });
+    }
+    return rate;
+  }
+
+  private checkHotelCode(hotelCode: string | undefined, recordId: string | undefined, result: OtaMessageResult): void {
+    if (this.hotelCode && hotelCode && hotelCode !== this.hotelCode) {
+      result.errors.push({
+        type: OtaErrorType.BUSINESS_RULE,
+        code: OtaErrorCode.INVALID_HOTEL_CODE,
+        message: `Unknown hotel ${hotelCode}`,
+        recordId
+      });
+    }
+  }
+
+  /**
+   * Checks a date range ends after it starts, or on the same day when it is inclusive
+   */
+  private checkDateRange(start: Date, end: Date, inclusive: boolean, recordId: string, result: OtaMessageResult): boolean {
+    const nights = differenceInCalendarDays(end, start);
+    if (nights > 0 || (inclusive && nights === 0)) {
+      return true;
+    }
+
+    result.errors.push({
+      type: OtaErrorType.BUSINESS_RULE,
+      code: OtaErrorCode.INVALID_DATE,
+      message: inclusive ? 'End date must not be before the start date' : 'End date must be after the start date',
+      recordId
+    });
+    return false;
+  }
+
+  /**
+   * Days of week a status application control is limited to; null when it applies to every day
+   */
+  private daysOfWeek(control: Record<string, unknown>): number[] | null {
+    const flagged = OTA_WEEKDAYS.filter(day => control[day] !== undefined);
+    if (flagged.length === 0) {
+      return null;
+    }
+
+    const days = OTA_WEEKDAYS.map((day, index) => (control[day] === false ? -1 : index)).filter(day => day >= 0);
+    return days.length === OTA_WEEKDAYS.length ? null : days;
+  }
+
+  private reservationAction(status: string | undefined): OtaReservationAction {
+    if (status === 'Modify') return OtaReservationAction.MODIFY;
+    if (status === 'Cancel') return OtaReservationAction.CANCEL;
+    return OtaReservationAction.NEW;
+  }
+
+  private schemaError(detail: Joi.ValidationErrorItem): OtaNotice {
+    const field = String(detail.path[detail.path.length - 1] ?? '');
+    const missing = detail.type === 'any.required' || detail.type === 'object.and' || detail.type === 'object.missing';
+
+    return {
+      type: missing ? OtaErrorType.REQUIRED_FIELD_MISSING : OtaErrorType.BUSINESS_RULE,
+      code: missing
+        ? OtaErrorCode.REQUIRED_FIELD_MISSING
+        : FIELD_ERROR_CODES[field] || OtaErrorCode.UNABLE_TO_PROCESS,
+      message: detail.message,
+      recordId: detail.path.filter(segment => segment !== '$').join('/')
+    };
+  }
+
+  /**
+   * Renders the RS message of a request: success with warnings, or the errors
+   */
+  private buildResponse(messageType: OtaMessageType, requestAttributes: Record<string, string> | undefined, result: OtaMessageResult): string {
+    const notice = (item: OtaNotice) => ({
+      $: {
+        Type: item.type,
+        ...(item.code && { Code: item.code }),
+        ...(item.recordId && { RecordID: item.recordId }),
+        ShortText: item.message
+      }
+    });
+
+    const body = result.errors.length > 0
+      ? { Errors: { Error: result.errors.map(notice) } }
+      : {
+          Success: '',
+          ...(result.warnings.length > 0 && { Warnings: { Warning: result.warnings.map(notice) } }),
+          ...(messageType === OtaMessageType.HOTEL_RES_NOTIF && result.reservations.length > 0 && {
+            HotelReservations: {
+              HotelReservation: result.reservations.map(reservation => ({
+                UniqueID: { $: { Type: '14', ID: reservation.confirmationNumber } },
+                ResGlobalInfo: {
+                  HotelReservationIDs: {
+                    HotelReservationID: { $: { ResID_Type: '10', ResID_Value: reservation.bookingId } }
+                  }
+                }
+              }))
+            }
+          })
+        };
+
+    const response = {
+      [messageType.replace(/RQ$/, 'RS')]: {
+        $: {
+          xmlns: OTA_NAMESPACE,
+          ...(requestAttributes?.EchoToken && { EchoToken: requestAttributes.EchoToken }),
+          TimeStamp: new Date().toISOString(),
+          Version: requestAttributes?.Version || '1.0'
+        },
+        ...body
+      }
+    };
+
+    return `<?xml version="1.0" encoding="UTF-8"?>\n${this.builder.build(response)}`;
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+}
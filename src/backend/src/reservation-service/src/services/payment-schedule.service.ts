@@ -0,0 +1,191 @@
+/**
+ * @fileoverview Payment schedule service turning a rate's deposit policy into the installments a
+ * booking owes. Billing-service collects the installments as they fall due.
+ * @version 1.0.0
+ */
+
+// External imports
+import { Injectable, Logger } from '@nestjs/common'; // v10.0.0
+import { Prisma, PrismaClient } from '@prisma/client'; // v5.0.0
+import { addDays, differenceInCalendarDays, max, min, subDays } from 'date-fns'; // v2.30.0
+
+// Internal imports
+import { prisma as reservationPrisma } from '../config/database';
+import { Booking } from '../models/booking.model';
+import { Rate } from '../models/rate.model';
+import { BaseModel } from '../../../shared/interfaces/base-model.interface';
+import {
+  DepositRule,
+  DepositRuleType,
+  InstallmentStatus,
+  PaymentInstallment,
+  PaymentSchedule,
+  OUTSTANDING_INSTALLMENT_STATUSES
+} from '../models/payment-schedule.model';
+import { BusinessDateService } from '../../../shared/services/business-date.service';
+import { ErrorCode, createErrorDetails } from '../../../shared/constants/error-codes';
+
+/**
+ * Service creating and maintaining booking payment schedules
+ */
+@Injectable()
+export class PaymentScheduleService {
+  private readonly logger = new Logger(PaymentScheduleService.name);
+
+  constructor(
+    private readonly prisma: PrismaClient = reservationPrisma,
+    private readonly businessDates: BusinessDateService = new BusinessDateService(prisma)
+  ) {}
+
+  /**
+   * Creates the payment schedule of a new booking from its rate's deposit policy
+   * @param booking - Newly created booking
+   * @param cardToken - Gateway token of the card to charge
+   * @param client - Transaction to create the schedule in, with the booking change that needs it
+   * @returns Created schedule, or null when the rate requires no deposit
+   */
+  async createSchedule(
+    booking: Booking,
+    cardToken?: string | null,
+    client: Prisma.TransactionClient | PrismaClient = this.prisma
+  ): Promise<PaymentSchedule | null> {
+    const rate = await client.rate.findUnique({ where: { id: booking.rateId } }) as Rate | null;
+    if (!rate?.depositPolicy?.rules.length) {
+      return null;
+    }
+
+    const businessDate = await this.businessDates.getBusinessDate();
+    const totalAmount = Number(booking.totalAmount || 0);
+    const nights = Math.max(differenceInCalendarDays(booking.checkOutDate, booking.checkInDate), 1);
+
+    let scheduled = 0;
+    const installments: Omit<PaymentInstallment, keyof BaseModel | 'scheduleId'>[] = [];
+    for (const rule of rate.depositPolicy.rules) {
+      const amount = this.round(Math.min(this.ruleAmount(rule, totalAmount, nights, scheduled), totalAmount - scheduled));
+      if (amount <= 0) {
+        continue;
+      }
+      scheduled = this.round(scheduled + amount);
+
+      installments.push({
+        sequence: installments.length + 1,
+        amount,
+        dueDate: this.dueDate(rule, businessDate, booking.checkInDate),
+        collectionMode: rule.collectionMode,
+        status: InstallmentStatus.SCHEDULED,
+        transactionId: null,
+        attempts: 0,
+        lastError: null,
+        collectedAt: null
+      });
+    }
+
+    if (installments.length === 0) {
+      return null;
+    }
+
+    const schedule = await client.paymentSchedule.create({
+      data: {
+        bookingId: booking.id,
+        guestId: booking.guestId,
+        cardToken: cardToken || null,
+        currency: rate.currencyCode,
+        installments: { create: installments }
+      },
+      include: { installments: { orderBy: { sequence: 'asc' } } }
+    }) as PaymentSchedule;
+
+    this.logger.log(`Payment schedule with ${installments.length} installment(s) created for ${booking.bookingNumber}`);
+    return schedule;
+  }
+
+  /**
+   * Retrieves the payment schedule of a booking
+   * @param bookingId - Booking ID
+   * @throws ErrorCode.RESOURCE_NOT_FOUND if the booking has no schedule
+   */
+  async getSchedule(bookingId: string): Promise<PaymentSchedule> {
+    const schedule = await this.prisma.paymentSchedule.findUnique({
+      where: { bookingId },
+      include: { installments: { orderBy: { sequence: 'asc' } } }
+    }) as PaymentSchedule | null;
+
+    if (!schedule) {
+      throw createErrorDetails(ErrorCode.RESOURCE_NOT_FOUND, {
+        message: 'Booking has no payment schedule',
+        bookingId
+      });
+    }
+
+    return schedule;
+  }
+
+  /**
+   * Replaces the card outstanding installments are charged to; failed installments are retried
+   * with it on the next collection run
+   * @param bookingId - Booking ID
+   * @param cardToken - Gateway token of the new card
+   * @param userId - User making the change
+   */
+  async updateCard(bookingId: string, cardToken: string, userId: string): Promise<PaymentSchedule> {
+    const schedule = await this.getSchedule(bookingId);
+
+    await this.prisma.paymentSchedule.update({
+      where: { id: schedule.id },
+      data: { cardToken, updatedAt: new Date() }
+    });
+
+    this.logger.log(`Payment card of schedule ${schedule.id} replaced by ${userId}`);
+    return this.getSchedule(bookingId);
+  }
+
+  /**
+   * Cancels the installments a booking has not paid yet
+   * @param bookingId - Booking ID
+   * @returns Number of installments cancelled
+   */
+  async cancelSchedule(bookingId: string): Promise<number> {
+    const { count } = await this.prisma.paymentInstallment.updateMany({
+      where: {
+        schedule: { bookingId },
+        status: { in: OUTSTANDING_INSTALLMENT_STATUSES }
+      },
+      data: { status: InstallmentStatus.CANCELLED, updatedAt: new Date() }
+    });
+
+    return count;
+  }
+
+  /**
+   * Amount a deposit rule asks for before capping at what is left of the stay total
+   */
+  private ruleAmount(rule: DepositRule, totalAmount: number, nights: number, scheduled: number): number {
+    switch (rule.type) {
+      case DepositRuleType.FIRST_NIGHT:
+        return totalAmount / nights;
+      case DepositRuleType.PERCENTAGE:
+        return totalAmount * Math.min(rule.value || 0, 100) / 100;
+      case DepositRuleType.FULL_PREPAY:
+        return totalAmount - scheduled;
+      default:
+        return 0;
+    }
+  }
+
+  /**
+   * Earlier of the rule's offsets, never before the business date nor after arrival
+   */
+  private dueDate(rule: DepositRule, businessDate: Date, checkInDate: Date): Date {
+    const candidates = [
+      rule.dueDaysAfterBooking !== undefined ? addDays(businessDate, rule.dueDaysAfterBooking) : null,
+      rule.dueDaysBeforeArrival !== undefined ? subDays(checkInDate, rule.dueDaysBeforeArrival) : null
+    ].filter((date): date is Date => date !== null);
+
+    const due = candidates.length > 0 ? min(candidates) : businessDate;
+    return min([max([due, businessDate]), checkInDate]);
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+}
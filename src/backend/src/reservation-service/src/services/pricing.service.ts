@@ -7,33 +7,44 @@
 
 // External imports
 import { Injectable, Logger } from '@nestjs/common'; // v10.0.0
-import { Observable, from, of } from 'rxjs'; // v7.8.0
+import { Observable, from } from 'rxjs'; // v7.8.0
 import { map, catchError, retry } from 'rxjs/operators';
+import { addDays, differenceInCalendarDays, format, startOfDay } from 'date-fns'; // v2.30.0
 
 // Internal imports
 import { BaseService } from '../../../shared/interfaces/base-service.interface';
 import { 
   Rate, RateModel, RateType, RateStatus, RateAudit, ChannelRate 
 } from '../models/rate.model';
-import { 
-  formatDate, parseDate, calculateNights, isValidBookingRange, 
-  getSeasonType 
-} from '../../../shared/utils/date.util';
+import { NightlyRate, summarizeNightlyRates } from '../models/reservation-rate.model';
+import { ARI_HORIZON_DAYS, AriUpdateType, DistributionChannel } from '../models/channel.model';
+import { UpdateYieldRulesDto, YieldAdjustment, YieldRuleSet } from '../models/yield-rule.model';
+import { PricingScenario, ScenarioPricing } from '../models/rate-simulation.model';
+import { TaxLine, summarizeTaxLines } from '../../../shared/models/tax.model';
+import { ChannelOutboxService } from './channel-outbox.service';
+import { YieldManagementService } from './yield-management.service';
 import { ErrorCode } from '../../../shared/constants/error-codes';
 
 /**
  * Interface for rate calculation result with detailed breakdown
  */
-interface RateCalculationResult {
+export interface RateCalculationResult {
   finalRate: number;
   baseRate: number;
   breakdown: {
     seasonalAdjustment: number;
     occupancyAdjustment: number;
     losAdjustment: number;
+    yieldAdjustment: number;
+    promotionAdjustment: number;
     channelMarkup: number;
     taxes: number;
   };
+  /** Taxes of the whole stay by tax and jurisdiction */
+  taxLines: TaxLine[];
+  /** Currency the rate is sold in */
+  currencyCode?: string;
+  /** Modifiers, yield rule explanations and rate bounds applied, with the nights they applied to */
   appliedRules: string[];
   validUntil: Date;
 }
@@ -44,13 +55,14 @@ interface RateCalculationResult {
 @Injectable()
 export class PricingService implements BaseService<Rate> {
   private readonly CACHE_TTL = 15 * 60 * 1000; // 15 minutes
-  private readonly RATE_BOUNDS_MARGIN = 0.15; // 15% margin for rate bounds
 
   constructor(
     private readonly rateModel: RateModel,
     private readonly logger: Logger,
     private readonly cacheManager: any,
-    private readonly rateAuditService: any
+    private readonly rateAuditService: any,
+    private readonly channelOutbox: ChannelOutboxService = new ChannelOutboxService(),
+    private readonly yieldManagement: YieldManagementService = new YieldManagementService()
   ) {
     this.logger.setContext('PricingService');
   }
@@ -62,8 +74,9 @@ export class PricingService implements BaseService<Rate> {
    * @param checkOutDate - Check-out date
    * @param occupancyPercentage - Current hotel occupancy
    * @param channelId - Distribution channel identifier
-   * @param additionalModifiers - Additional rate modifiers
-   * @returns Observable with detailed rate calculation result
+   * @param additionalModifiers - Promotion code modifiers as fractions, applied to every night
+   * @param guests - Guests staying, for per-person taxes
+   * @returns Observable with the average nightly rate and its breakdown
    */
   calculateRoomRate(
     roomTypeId: string,
@@ -71,9 +84,11 @@ export class PricingService implements BaseService<Rate> {
     checkOutDate: Date,
     occupancyPercentage: number,
     channelId: string,
-    additionalModifiers?: Record<string, number>
+    additionalModifiers?: Record<string, number>,
+    guests = 1
   ): Observable<RateCalculationResult> {
-    const cacheKey = `rate:${roomTypeId}:${checkInDate}:${checkOutDate}:${occupancyPercentage}:${channelId}`;
+    const modifierKey = Object.entries(additionalModifiers || {}).map(([name, modifier]) => `:${name}=${modifier}`).join('');
+    const cacheKey = `rate:${roomTypeId}:${checkInDate}:${checkOutDate}:${occupancyPercentage}:${channelId}:${guests}${modifierKey}`;
 
     return from(this.cacheManager.get(cacheKey)).pipe(
       map(cached => {
@@ -90,7 +105,8 @@ export class PricingService implements BaseService<Rate> {
           checkOutDate,
           occupancyPercentage,
           channelId,
-          additionalModifiers
+          additionalModifiers,
+          guests
         ).pipe(
           map(result => {
             this.cacheManager.set(cacheKey, result, this.CACHE_TTL);
@@ -103,84 +119,227 @@ export class PricingService implements BaseService<Rate> {
   }
 
   /**
-   * Performs detailed rate calculation with all modifiers
+   * Prices every night of a stay for storing on a booking, yield rules included; never served
+   * from cache so a booking is priced on the rate and demand as they stand
+   * @param rateId - Rate identifier
+   * @param checkInDate - Check-in date
+   * @param checkOutDate - Check-out date
+   * @param occupancyPercentage - Current hotel occupancy
+   * @param channelId - Distribution channel identifier
+   * @param additionalModifiers - Promotion code modifiers as fractions, applied to every night
+   * @param guests - Guests staying, for per-person taxes
+   * @returns Observable with one price per night
    */
-  private performRateCalculation(
-    roomTypeId: string,
+  calculateNightlyRates(
+    rateId: string,
     checkInDate: Date,
     checkOutDate: Date,
     occupancyPercentage: number,
     channelId: string,
-    additionalModifiers?: Record<string, number>
-  ): Observable<RateCalculationResult> {
-    return from(this.rateModel.calculateRate(
-      roomTypeId,
+    additionalModifiers?: Record<string, number>,
+    guests = 1
+  ): Observable<NightlyRate[]> {
+    return from(this.priceNights(
+      rateId,
       checkInDate,
       checkOutDate,
       occupancyPercentage,
-      channelId
+      channelId,
+      additionalModifiers,
+      guests
     )).pipe(
-      map(baseRate => {
-        const nights = calculateNights(checkInDate, checkOutDate);
-        const breakdown = {
-          seasonalAdjustment: 0,
-          occupancyAdjustment: 0,
-          losAdjustment: 0,
-          channelMarkup: 0,
-          taxes: 0
-        };
+      catchError(error => {
+        this.logger.error(
+          `Nightly rate calculation failed: ${error.message}`,
+          error.stack
+        );
+        throw new Error(ErrorCode.INTERNAL_SERVER_ERROR);
+      })
+    );
+  }
 
-        // Calculate seasonal adjustment
-        const seasonalModifier = this.calculateSeasonalModifier(checkInDate, checkOutDate);
-        breakdown.seasonalAdjustment = baseRate * seasonalModifier;
+  /**
+   * Queues a full push of the prices and restrictions of rates to every connected channel
+   * they are distributed on, covering the selling horizon
+   * @param rateIds - Rates to synchronize
+   * @returns Channels the rates were queued for
+   */
+  async syncChannelRates(rateIds: string[]): Promise<{ channels: DistributionChannel[] }> {
+    const startDate = startOfDay(new Date());
+    const endDate = addDays(startDate, ARI_HORIZON_DAYS);
+    const channels = new Set<DistributionChannel>();
+
+    for (const rateId of rateIds) {
+      for (const type of [AriUpdateType.RATE, AriUpdateType.RESTRICTION]) {
+        const queued = await this.channelOutbox.queue({ type, rateId, startDate, endDate });
+        queued.forEach(channel => channels.add(channel));
+      }
+    }
 
-        // Calculate occupancy adjustment
-        const occupancyModifier = this.calculateOccupancyModifier(occupancyPercentage);
-        breakdown.occupancyAdjustment = baseRate * occupancyModifier;
+    this.logger.log(`Queued channel sync of ${rateIds.length} rate(s) to ${channels.size} channel(s)`);
+    return { channels: Array.from(channels) };
+  }
 
-        // Calculate length of stay discount
-        const losModifier = this.calculateLOSModifier(nights);
-        breakdown.losAdjustment = baseRate * losModifier;
+  /**
+   * Returns the yield rules in force, or null before any were set
+   */
+  async getYieldRules(): Promise<YieldRuleSet | null> {
+    return this.yieldManagement.getRuleSet();
+  }
+
+  /**
+   * Lists the versions of the yield rules, most recent first
+   * @param limit - Number of versions to return
+   */
+  async getYieldRuleVersions(limit?: number): Promise<YieldRuleSet[]> {
+    return this.yieldManagement.listVersions(limit);
+  }
+
+  /**
+   * Replaces the yield rules with a new version and drops cached quotes priced on the old one
+   * @param data - Rules, the user making the change and a comment
+   */
+  async updateYieldRules(data: UpdateYieldRulesDto): Promise<YieldRuleSet> {
+    const ruleSet = await this.yieldManagement.updateRules(data);
+    await this.cacheManager.reset();
+    return ruleSet;
+  }
+
+  /**
+   * Prices a stay as it would have been priced at a given time under a pricing scenario, through
+   * the same pipeline as live quotes; nothing is cached or stored
+   * @param rateId - Rate identifier
+   * @param checkInDate - Check-in date
+   * @param checkOutDate - Check-out date
+   * @param occupancyPercentage - Hotel occupancy for the rate's occupancy modifiers
+   * @param channelId - Distribution channel identifier
+   * @param scenario - Yield rules and seasonal modifiers replacing the live ones; live when empty
+   * @param pricedAt - Time of pricing; lead time and booking pace are measured from it
+   * @param guests - Guests staying, for per-person taxes
+   */
+  async priceScenario(
+    rateId: string,
+    checkInDate: Date,
+    checkOutDate: Date,
+    occupancyPercentage: number,
+    channelId: string,
+    scenario: PricingScenario = {},
+    pricedAt: Date = new Date(),
+    guests = 1
+  ): Promise<ScenarioPricing> {
+    const yieldAdjustments = await this.yieldManagement.evaluate(
+      rateId, checkInDate, checkOutDate, pricedAt, scenario.yieldRules
+    );
+    const seasonalModifiers = scenario.seasonalModifiers?.[rateId];
+    const nightlyRates = await this.rateModel.calculateNightlyRates(
+      rateId,
+      checkInDate,
+      checkOutDate,
+      occupancyPercentage,
+      channelId,
+      yieldAdjustments,
+      seasonalModifiers ? { seasonalModifiers } : {},
+      guests
+    );
 
-        // Apply channel markup
-        const channelModifier = this.calculateChannelModifier(channelId);
-        breakdown.channelMarkup = baseRate * channelModifier;
+    return { nightlyRates, yieldAdjustments };
+  }
 
-        // Calculate final rate before tax
-        let finalRate = baseRate + 
-          breakdown.seasonalAdjustment +
-          breakdown.occupancyAdjustment +
-          breakdown.losAdjustment +
-          breakdown.channelMarkup;
+  /**
+   * Prices each night on the rate with the yield rules applying to it; additional modifiers are
+   * applied with the yield rules and itemized as the promotion adjustment
+   */
+  private async priceNights(
+    rateId: string,
+    checkInDate: Date,
+    checkOutDate: Date,
+    occupancyPercentage: number,
+    channelId: string,
+    additionalModifiers?: Record<string, number>,
+    guests = 1
+  ): Promise<NightlyRate[]> {
+    const adjustments = await this.yieldManagement.evaluate(rateId, checkInDate, checkOutDate);
 
-        // Apply additional modifiers if provided
-        if (additionalModifiers) {
-          Object.values(additionalModifiers).forEach(modifier => {
-            finalRate *= (1 + modifier);
-          });
+    if (additionalModifiers && Object.keys(additionalModifiers).length > 0) {
+      const nights = Math.max(1, differenceInCalendarDays(checkOutDate, checkInDate));
+      for (let index = 0; index < nights; index++) {
+        const key = format(addDays(startOfDay(checkInDate), index), 'yyyy-MM-dd');
+        const adjustment: YieldAdjustment = adjustments[key] || { percentage: 0, amount: 0, rules: [], appliedRules: [] };
+        for (const [name, modifier] of Object.entries(additionalModifiers)) {
+          const percentage = Number((modifier * 100).toFixed(4));
+          adjustment.percentage += percentage;
+          adjustment.promotionPercentage = (adjustment.promotionPercentage || 0) + percentage;
+          adjustment.rules.push(name);
+          adjustment.appliedRules.push(`${name} ${percentage >= 0 ? '+' : ''}${percentage}%`);
         }
+        adjustments[key] = adjustment;
+      }
+    }
 
-        // Apply rate bounds protection
-        finalRate = this.enforceRateBounds(finalRate, baseRate);
+    return this.rateModel.calculateNightlyRates(
+      rateId,
+      checkInDate,
+      checkOutDate,
+      occupancyPercentage,
+      channelId,
+      adjustments,
+      {},
+      guests
+    );
+  }
 
-        // Calculate tax
-        const TAX_RATE = 0.12; // 12% tax rate
-        breakdown.taxes = finalRate * TAX_RATE;
-        finalRate += breakdown.taxes;
+  /**
+   * Prices the stay night by night and averages the nights into one rate with its breakdown
+   */
+  private performRateCalculation(
+    rateId: string,
+    checkInDate: Date,
+    checkOutDate: Date,
+    occupancyPercentage: number,
+    channelId: string,
+    additionalModifiers?: Record<string, number>,
+    guests = 1
+  ): Observable<RateCalculationResult> {
+    return from(this.priceNights(
+      rateId,
+      checkInDate,
+      checkOutDate,
+      occupancyPercentage,
+      channelId,
+      additionalModifiers,
+      guests
+    )).pipe(
+      map(nightlyRates => {
+        const nights = nightlyRates.length;
+        const average = (amount: (night: NightlyRate) => number) =>
+          Number((nightlyRates.reduce((sum, night) => sum + amount(night), 0) / nights).toFixed(2));
+
+        const breakdown = {
+          seasonalAdjustment: average(night => night.breakdown.seasonalAdjustment),
+          occupancyAdjustment: average(night => night.breakdown.occupancyAdjustment),
+          losAdjustment: average(night => night.breakdown.losAdjustment),
+          yieldAdjustment: average(night => night.breakdown.yieldAdjustment || 0),
+          promotionAdjustment: average(night => night.breakdown.promotionAdjustment || 0),
+          channelMarkup: average(night => night.breakdown.channelMarkup),
+          taxes: average(night => night.taxAmount)
+        };
+        const finalRate = Number((summarizeNightlyRates(nightlyRates).totalAmount / nights).toFixed(2));
 
         // Audit the rate calculation
         this.auditRateCalculation(
-          roomTypeId,
+          rateId,
           finalRate,
           breakdown,
           channelId
         );
 
         return {
-          finalRate: Number(finalRate.toFixed(2)),
-          baseRate: baseRate,
+          finalRate,
+          baseRate: nightlyRates[0].baseRate,
           breakdown,
-          appliedRules: this.getAppliedRules(breakdown),
+          taxLines: summarizeTaxLines(nightlyRates.flatMap(night => night.taxLines || [])),
+          currencyCode: nightlyRates[0].currencyCode,
+          appliedRules: this.explainRules(nightlyRates),
           validUntil: new Date(Date.now() + this.CACHE_TTL)
         };
       }),
@@ -195,71 +354,21 @@ export class PricingService implements BaseService<Rate> {
   }
 
   /**
-   * Calculates seasonal rate modifier based on dates
+   * Lists the rules applied to the stay; rules that did not apply to every night name their nights
    */
-  private calculateSeasonalModifier(checkIn: Date, checkOut: Date): number {
-    const seasonType = getSeasonType(checkIn);
-    const modifiers = {
-      HIGH: 0.25,    // 25% increase
-      SHOULDER: 0.1, // 10% increase
-      LOW: -0.15     // 15% decrease
-    };
-    return modifiers[seasonType] || 0;
-  }
+  private explainRules(nightlyRates: NightlyRate[]): string[] {
+    const nightsByRule = new Map<string, Date[]>();
+    for (const night of nightlyRates) {
+      for (const rule of night.adjustmentReason ? night.adjustmentReason.split(', ') : []) {
+        nightsByRule.set(rule, [...(nightsByRule.get(rule) || []), night.date]);
+      }
+    }
 
-  /**
-   * Calculates occupancy-based rate modifier
-   */
-  private calculateOccupancyModifier(occupancyPercentage: number): number {
-    if (occupancyPercentage >= 90) return 0.2;  // 20% increase
-    if (occupancyPercentage >= 80) return 0.15; // 15% increase
-    if (occupancyPercentage >= 70) return 0.1;  // 10% increase
-    if (occupancyPercentage <= 30) return -0.1; // 10% decrease
-    return 0;
-  }
-
-  /**
-   * Calculates length of stay discount
-   */
-  private calculateLOSModifier(nights: number): number {
-    if (nights >= 14) return -0.2;  // 20% discount
-    if (nights >= 7) return -0.15;  // 15% discount
-    if (nights >= 4) return -0.1;   // 10% discount
-    return 0;
-  }
-
-  /**
-   * Calculates channel-specific markup
-   */
-  private calculateChannelModifier(channelId: string): number {
-    const channelMarkups = {
-      DIRECT: 0,      // No markup for direct bookings
-      OTA: 0.15,      // 15% markup for OTAs
-      CORPORATE: 0.1, // 10% markup for corporate bookings
-      WHOLESALE: 0.2  // 20% markup for wholesale
-    };
-    return channelMarkups[channelId] || 0;
-  }
-
-  /**
-   * Enforces minimum and maximum rate bounds
-   */
-  private enforceRateBounds(calculatedRate: number, baseRate: number): number {
-    const minRate = baseRate * (1 - this.RATE_BOUNDS_MARGIN);
-    const maxRate = baseRate * (1 + this.RATE_BOUNDS_MARGIN);
-    return Math.min(Math.max(calculatedRate, minRate), maxRate);
-  }
-
-  /**
-   * Generates list of applied pricing rules
-   */
-  private getAppliedRules(breakdown: any): string[] {
-    const rules = [];
-    if (breakdown.seasonalAdjustment !== 0) rules.push('Seasonal Adjustment');
-    if (breakdown.occupancyAdjustment !== 0) rules.push('Occupancy Based Pricing');
-    if (breakdown.losAdjustment !== 0) rules.push('Length of Stay Discount');
-    if (breakdown.channelMarkup !== 0) rules.push('Channel Markup');
-    return rules;
+    return Array.from(nightsByRule.entries()).map(([rule, dates]) =>
+      dates.length === nightlyRates.length
+        ? rule
+        : `${rule} (${dates.map(date => format(date, 'yyyy-MM-dd')).join(' ')})`
+    );
   }
 
   /**
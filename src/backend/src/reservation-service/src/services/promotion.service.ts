@@ -0,0 +1,393 @@
+/**
+ * @fileoverview Promotion service keeping the promotion codes of direct bookings, checking the
+ * codes a guest enters against their windows, stay conditions, caps and stacking rules, and
+ * recording redemptions. Caps are counted on redemptions still standing, so a cancelled booking
+ * gives its redemption back.
+ * @version 1.0.0
+ */
+
+// External imports
+import { Injectable, Logger } from '@nestjs/common'; // v10.0.0
+import { Prisma, PrismaClient } from '@prisma/client'; // v5.0.0
+import { addDays, differenceInCalendarDays, format, startOfDay } from 'date-fns'; // v2.30.0
+
+// Internal imports
+import { prisma as reservationPrisma } from '../config/database';
+import {
+  CreatePromoCodeDto,
+  PromoCode,
+  PromoRedemption,
+  PromoRedemptionStatus,
+  PromoRedemptionSummary,
+  PromoStay
+} from '../models/promotion.model';
+import { Booking } from '../models/booking.model';
+import { NightlyRate } from '../models/reservation-rate.model';
+import { Rate } from '../models/rate.model';
+import { BusinessDateService } from '../../../shared/services/business-date.service';
+import { ErrorCode, createErrorDetails } from '../../../shared/constants/error-codes';
+
+/**
+ * Client used for redemption writes; a transaction client when called inside a booking transaction
+ */
+type PromotionClient = PrismaClient | Prisma.TransactionClient;
+
+/**
+ * Service managing promotion codes and their redemptions
+ */
+@Injectable()
+export class PromotionService {
+  private readonly logger = new Logger(PromotionService.name);
+
+  constructor(
+    private readonly prisma: PrismaClient = reservationPrisma,
+    private readonly businessDates: BusinessDateService = new BusinessDateService(prisma)
+  ) {}
+
+  /**
+   * Lists promotion codes, newest first
+   * @param activeOnly - Leave out codes switched off
+   */
+  async listPromoCodes(activeOnly = true): Promise<PromoCode[]> {
+    return this.prisma.promoCode.findMany({
+      where: activeOnly ? { isActive: true } : {},
+      orderBy: { validFrom: 'desc' }
+    }) as Promise<PromoCode[]>;
+  }
+
+  /**
+   * Creates a promotion code
+   * @throws ErrorCode.VALIDATION_ERROR if the discount or a window is invalid
+   * @throws ErrorCode.RESOURCE_CONFLICT if the code is already used
+   */
+  async createPromoCode(data: CreatePromoCodeDto): Promise<PromoCode> {
+    const code = data.code.toUpperCase();
+    this.validatePromoCode(data);
+
+    const existing = await this.prisma.promoCode.findFirst({ where: { code } });
+    if (existing) {
+      throw createErrorDetails(ErrorCode.RESOURCE_CONFLICT, {
+        message: `Promotion code ${code} is already used`,
+        promoCodeId: existing.id
+      });
+    }
+
+    const promoCode = await this.prisma.promoCode.create({
+      data: {
+        description: null,
+        validTo: null,
+        minimumLeadDays: null,
+        maximumLeadDays: null,
+        stayFrom: null,
+        stayTo: null,
+        minimumNights: null,
+        eligibleRoomTypes: [],
+        maxRedemptions: null,
+        maxRedemptionsPerGuest: null,
+        stackable: false,
+        appliesToPromotionalRates: false,
+        ...data,
+        code,
+        validFrom: startOfDay(data.validFrom),
+        redemptionCount: 0,
+        isActive: true
+      }
+    }) as PromoCode;
+
+    this.logger.log(`Promotion code ${code} created by ${data.createdBy}: ${promoCode.discountPercentage}% off`);
+    return promoCode;
+  }
+
+  /**
+   * Changes a promotion code; bookings already made keep their discount
+   * @throws ErrorCode.RESOURCE_NOT_FOUND if the code does not exist
+   * @throws ErrorCode.VALIDATION_ERROR if the discount or a window is invalid
+   */
+  async updatePromoCode(
+    id: string,
+    data: Partial<Omit<CreatePromoCodeDto, 'code' | 'createdBy'>> & { isActive?: boolean }
+  ): Promise<PromoCode> {
+    const existing = await this.prisma.promoCode.findUnique({ where: { id } }) as PromoCode | null;
+    if (!existing) {
+      throw createErrorDetails(ErrorCode.RESOURCE_NOT_FOUND, {
+        message: 'Promotion code not found',
+        promoCodeId: id
+      });
+    }
+
+    this.validatePromoCode({ ...existing, ...data });
+
+    return this.prisma.promoCode.update({
+      where: { id },
+      data: { ...data, updatedAt: new Date() }
+    }) as Promise<PromoCode>;
+  }
+
+  /**
+   * Checks the codes a guest entered against a stay
+   * @param codes - Codes as entered; case does not matter
+   * @param stay - Rate, room type, dates and guest of the stay
+   * @returns Codes to apply, in the order entered
+   * @throws ErrorCode.VALIDATION_ERROR if a code is repeated or codes that cannot be combined are combined
+   * @throws ErrorCode.BUSINESS_RULE_VIOLATION if a code is unknown or does not apply to the stay
+   */
+  async validateCodes(codes: string[], stay: PromoStay): Promise<PromoCode[]> {
+    if (codes.length === 0) {
+      return [];
+    }
+
+    const entered = codes.map(code => code.trim().toUpperCase());
+    const repeated = entered.find((code, index) => entered.indexOf(code) !== index);
+    if (repeated) {
+      throw createErrorDetails(ErrorCode.VALIDATION_ERROR, {
+        message: `Promotion code ${repeated} entered more than once`,
+        promoCode: repeated
+      });
+    }
+
+    const found = await this.prisma.promoCode.findMany({
+      where: { code: { in: entered }, isActive: true }
+    }) as PromoCode[];
+    const promotions = entered.map(code => {
+      const promotion = found.find(candidate => candidate.code === code);
+      if (!promotion) {
+        throw this.ineligible(code, 'Promotion code is not valid');
+      }
+      return promotion;
+    });
+
+    if (promotions.length > 1) {
+      const single = promotions.find(promotion => !promotion.stackable);
+      if (single) {
+        throw createErrorDetails(ErrorCode.VALIDATION_ERROR, {
+          message: `Promotion code ${single.code} cannot be combined with other codes`,
+          promoCode: single.code
+        });
+      }
+    }
+
+    const bookingDate = await this.businessDates.getBusinessDate();
+    const rate = await this.prisma.rate.findUnique({
+      where: { id: stay.rateId },
+      select: { isPromotional: true }
+    }) as Pick<Rate, 'isPromotional'> | null;
+
+    for (const promotion of promotions) {
+      await this.checkEligibility(promotion, stay, bookingDate, rate?.isPromotional ?? false);
+    }
+
+    return promotions;
+  }
+
+  /**
+   * Records the codes applied to a new booking and counts them against the caps
+   * @param promotions - Codes validated for the stay
+   * @param booking - Booking made with the codes
+   * @param nightlyRates - Nightly prices of the booking, promotion discounts included
+   * @param client - Transaction client of the booking
+   * @throws ErrorCode.RESOURCE_CONFLICT if a code reached its cap since it was validated
+   */
+  async redeem(
+    promotions: PromoCode[],
+    booking: Pick<Booking, 'id' | 'guestId'>,
+    nightlyRates: NightlyRate[],
+    client: Prisma.TransactionClient
+  ): Promise<PromoRedemption[]> {
+    if (promotions.length === 0) {
+      return [];
+    }
+
+    // Share the stay's promotion discount between the codes by their percentage
+    const discount = -nightlyRates.reduce((sum, night) => sum + (night.breakdown.promotionAdjustment || 0), 0);
+    const roomRevenue = this.round(nightlyRates.reduce((sum, night) => sum + night.totalRate - night.taxAmount, 0));
+    const totalPercentage = promotions.reduce((sum, promotion) => sum + promotion.discountPercentage, 0);
+
+    const redemptions: PromoRedemption[] = [];
+    for (const promotion of promotions) {
+      // Increment only below the cap so concurrent bookings cannot exceed it
+      const { count } = await client.promoCode.updateMany({
+        where: {
+          id: promotion.id,
+          ...(promotion.maxRedemptions !== null && { redemptionCount: { lt: promotion.maxRedemptions } })
+        },
+        data: { redemptionCount: { increment: 1 } }
+      });
+
+      if (count === 0) {
+        throw createErrorDetails(ErrorCode.RESOURCE_CONFLICT, {
+          message: `Promotion code ${promotion.code} has been fully redeemed`,
+          promoCode: promotion.code
+        });
+      }
+
+      redemptions.push(await client.promoRedemption.create({
+        data: {
+          promoCodeId: promotion.id,
+          bookingId: booking.id,
+          guestId: booking.guestId,
+          code: promotion.code,
+          discountPercentage: promotion.discountPercentage,
+          discountAmount: totalPercentage > 0 ? this.round(discount * promotion.discountPercentage / totalPercentage) : 0,
+          roomRevenue,
+          status: PromoRedemptionStatus.REDEEMED,
+          redeemedAt: new Date(),
+          reversedAt: null
+        }
+      }) as PromoRedemption);
+    }
+
+    return redemptions;
+  }
+
+  /**
+   * Reverses the redemptions of a cancelled booking, giving them back to the caps
+   * @param bookingId - Booking
+   * @param client - Client of the booking change; a transaction client when called inside one
+   */
+  async reverse(bookingId: string, client: PromotionClient): Promise<void> {
+    const redemptions = await client.promoRedemption.findMany({
+      where: { bookingId, status: PromoRedemptionStatus.REDEEMED }
+    }) as PromoRedemption[];
+
+    for (const redemption of redemptions) {
+      await client.promoRedemption.update({
+        where: { id: redemption.id },
+        data: { status: PromoRedemptionStatus.REVERSED, reversedAt: new Date() }
+      });
+      await client.promoCode.updateMany({
+        where: { id: redemption.promoCodeId, redemptionCount: { gt: 0 } },
+        data: { redemptionCount: { decrement: 1 } }
+      });
+    }
+  }
+
+  /**
+   * Summarizes the redemptions made between two dates by code
+   * @param startDate - First redemption date
+   * @param endDate - Last redemption date, inclusive
+   */
+  async getRedemptionReport(startDate: Date, endDate: Date): Promise<PromoRedemptionSummary[]> {
+    const redemptions = await this.prisma.promoRedemption.findMany({
+      where: { redeemedAt: { gte: startOfDay(startDate), lt: addDays(startOfDay(endDate), 1) } },
+      orderBy: { code: 'asc' }
+    }) as PromoRedemption[];
+
+    const summaries = new Map<string, PromoRedemptionSummary>();
+    for (const redemption of redemptions) {
+      const summary = summaries.get(redemption.code) || {
+        code: redemption.code,
+        redemptions: 0,
+        reversals: 0,
+        discountAmount: 0,
+        roomRevenue: 0
+      };
+
+      summary.redemptions += 1;
+      if (redemption.status === PromoRedemptionStatus.REVERSED) {
+        summary.reversals += 1;
+      } else {
+        summary.discountAmount = this.round(summary.discountAmount + Number(redemption.discountAmount));
+        summary.roomRevenue = this.round(summary.roomRevenue + Number(redemption.roomRevenue));
+      }
+      summaries.set(redemption.code, summary);
+    }
+
+    return Array.from(summaries.values());
+  }
+
+  /**
+   * Checks one code against the booking date, the stay and its caps
+   */
+  private async checkEligibility(
+    promotion: PromoCode,
+    stay: PromoStay,
+    bookingDate: Date,
+    promotionalRate: boolean
+  ): Promise<void> {
+    const checkIn = startOfDay(stay.checkInDate);
+    const lastNight = addDays(startOfDay(stay.checkOutDate), -1);
+    const nights = differenceInCalendarDays(stay.checkOutDate, stay.checkInDate);
+    const leadDays = differenceInCalendarDays(checkIn, bookingDate);
+
+    if (bookingDate < startOfDay(promotion.validFrom) || (promotion.validTo && bookingDate > startOfDay(promotion.validTo))) {
+      throw this.ineligible(promotion.code, 'Promotion code is not valid today');
+    }
+
+    if (promotion.minimumLeadDays !== null && leadDays < promotion.minimumLeadDays) {
+      throw this.ineligible(promotion.code, `Book at least ${promotion.minimumLeadDays} days before arrival`);
+    }
+
+    if (promotion.maximumLeadDays !== null && leadDays > promotion.maximumLeadDays) {
+      throw this.ineligible(promotion.code, `Book at most ${promotion.maximumLeadDays} days before arrival`);
+    }
+
+    if ((promotion.stayFrom && checkIn < startOfDay(promotion.stayFrom)) || (promotion.stayTo && lastNight > startOfDay(promotion.stayTo))) {
+      throw this.ineligible(promotion.code, [
+        'Stay must fall',
+        promotion.stayFrom && `from ${format(promotion.stayFrom, 'yyyy-MM-dd')}`,
+        promotion.stayTo && `to ${format(promotion.stayTo, 'yyyy-MM-dd')}`
+      ].filter(Boolean).join(' '));
+    }
+
+    if (promotion.minimumNights !== null && nights < promotion.minimumNights) {
+      throw this.ineligible(promotion.code, `Stay at least ${promotion.minimumNights} nights`);
+    }
+
+    if (promotion.eligibleRoomTypes.length > 0 && !promotion.eligibleRoomTypes.includes(stay.roomType)) {
+      throw this.ineligible(promotion.code, `Not valid for ${stay.roomType} rooms`);
+    }
+
+    if (promotionalRate && !promotion.appliesToPromotionalRates) {
+      throw this.ineligible(promotion.code, 'Not valid on rates already discounted');
+    }
+
+    if (promotion.maxRedemptions !== null && promotion.redemptionCount >= promotion.maxRedemptions) {
+      throw this.ineligible(promotion.code, 'Promotion code has been fully redeemed');
+    }
+
+    if (promotion.maxRedemptionsPerGuest !== null && stay.guestId) {
+      const guestRedemptions = await this.prisma.promoRedemption.count({
+        where: { promoCodeId: promotion.id, guestId: stay.guestId, status: PromoRedemptionStatus.REDEEMED }
+      });
+      if (guestRedemptions >= promotion.maxRedemptionsPerGuest) {
+        throw this.ineligible(promotion.code, 'Promotion code already used the maximum number of times');
+      }
+    }
+  }
+
+  private validatePromoCode(data: Partial<CreatePromoCodeDto>): void {
+    if (data.discountPercentage !== undefined && (data.discountPercentage <= 0 || data.discountPercentage > 100)) {
+      throw createErrorDetails(ErrorCode.VALIDATION_ERROR, {
+        message: 'Discount must be more than 0% and at most 100%',
+        discountPercentage: data.discountPercentage
+      });
+    }
+
+    const windows: [string, Date | number | null | undefined, Date | number | null | undefined][] = [
+      ['Validity', data.validFrom, data.validTo],
+      ['Stay window', data.stayFrom, data.stayTo],
+      ['Booking window', data.minimumLeadDays, data.maximumLeadDays]
+    ];
+    for (const [name, from, to] of windows) {
+      if (from !== null && from !== undefined && to !== null && to !== undefined && to < from) {
+        throw createErrorDetails(ErrorCode.VALIDATION_ERROR, {
+          message: `${name} ends before it starts`,
+          from,
+          to
+        });
+      }
+    }
+  }
+
+  private ineligible(code: string, reason: string) {
+    return createErrorDetails(ErrorCode.BUSINESS_RULE_VIOLATION, {
+      message: `${code}: ${reason}`,
+      promoCode: code,
+      reason
+    });
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+}
@@ -0,0 +1,349 @@
+/**
+ * @fileoverview Rate hierarchy service linking derived rates to their parent rate and recomputing
+ * every descendant in the same transaction whenever a base rate changes, with an audit entry and
+ * a channel update for each rate whose price moved.
+ * @version 1.0.0
+ */
+
+// External imports
+import { Injectable, Logger } from '@nestjs/common'; // v10.0.0
+import { Prisma, PrismaClient } from '@prisma/client'; // v5.0.0
+import { addDays, differenceInCalendarDays, startOfDay } from 'date-fns'; // v2.30.0
+
+// Internal imports
+import { prisma as reservationPrisma } from '../config/database';
+import { Rate } from '../models/rate.model';
+import { AriUpdateType } from '../models/channel.model';
+import {
+  MAX_RATE_HIERARCHY_DEPTH,
+  RateAudit,
+  RateAuditAction,
+  RateDerivation,
+  RateHistoryFilter,
+  deriveBaseRate
+} from '../models/rate-derivation.model';
+import { ChannelOutboxService } from './channel-outbox.service';
+import { ErrorCode, createErrorDetails } from '../../../shared/constants/error-codes';
+
+/**
+ * Entries returned by a history read when no limit is given
+ */
+const DEFAULT_HISTORY_LIMIT = 50;
+
+/**
+ * Outcome of a base rate change and its propagation down the hierarchy
+ */
+export interface BaseRateChange {
+  rate: Rate;
+  /** Derived rates whose base rate was recomputed, parents before their children */
+  recalculated: Rate[];
+}
+
+/**
+ * Base rate change written to a rate's history
+ */
+interface AuditedChange {
+  action: RateAuditAction;
+  previousBaseRate: number;
+  sourceRateId: string;
+  changedBy: string;
+}
+
+/**
+ * Service managing derived rates and the propagation of base rate changes
+ */
+@Injectable()
+export class RateHierarchyService {
+  private readonly logger = new Logger(RateHierarchyService.name);
+
+  constructor(
+    private readonly prisma: PrismaClient = reservationPrisma,
+    private readonly outbox: ChannelOutboxService = new ChannelOutboxService(prisma)
+  ) {}
+
+  /**
+   * Derives a rate from a parent rate, recomputing its base rate and those of its own descendants
+   * @param rateId - Rate to derive
+   * @param parentRateId - Rate it is priced off
+   * @param derivation - Adjustment and rounding applied to the parent's base rate
+   * @param userId - Revenue manager making the change
+   * @throws ErrorCode.RESOURCE_NOT_FOUND if either rate does not exist
+   * @throws ErrorCode.VALIDATION_ERROR if the rates are sold in different currencies
+   * @throws ErrorCode.BUSINESS_RULE_VIOLATION if the link would create a cycle, nest the hierarchy
+   * too deep or price the rate at zero or less
+   */
+  async linkRate(rateId: string, parentRateId: string, derivation: RateDerivation, userId: string): Promise<BaseRateChange> {
+    const rate = await this.findRate(rateId);
+    const parent = await this.findRate(parentRateId);
+
+    if (parent.currencyCode !== rate.currencyCode) {
+      throw createErrorDetails(ErrorCode.VALIDATION_ERROR, {
+        message: `Rate ${rate.rateCode} is sold in ${rate.currencyCode} and cannot derive from ${parent.rateCode} sold in ${parent.currencyCode}`,
+        rateId,
+        parentRateId
+      });
+    }
+
+    // The parent and its ancestors, nearest first; meeting the rate itself means the link closes a cycle
+    const ancestors: Rate[] = [];
+    for (let current: Rate | null = parent; current && ancestors.length <= MAX_RATE_HIERARCHY_DEPTH; ) {
+      if (current.id === rate.id) {
+        throw createErrorDetails(ErrorCode.BUSINESS_RULE_VIOLATION, {
+          message: `Rate ${rate.rateCode} cannot derive from ${parent.rateCode}: ${parent.rateCode} is priced off ${rate.rateCode}`,
+          rateId,
+          parentRateId,
+          hierarchy: [rate, ...ancestors].map(ancestor => ancestor.rateCode)
+        });
+      }
+      ancestors.push(current);
+      current = current.parentRateId ? await this.findRate(current.parentRateId) : null;
+    }
+
+    const depth = ancestors.length + await this.subtreeDepth(rate.id);
+    if (depth > MAX_RATE_HIERARCHY_DEPTH) {
+      throw createErrorDetails(ErrorCode.BUSINESS_RULE_VIOLATION, {
+        message: `Rate hierarchies cannot be more than ${MAX_RATE_HIERARCHY_DEPTH} levels deep`,
+        rateId,
+        parentRateId,
+        depth
+      });
+    }
+
+    const baseRate = this.derive(rate, parent.baseRate, derivation);
+
+    const change = await this.prisma.$transaction(async (tx) => {
+      const linked = await tx.rate.update({
+        where: { id: rate.id },
+        data: { parentRateId: parent.id, derivation, baseRate }
+      }) as Rate;
+
+      await this.audit(tx, linked, { action: RateAuditAction.LINKED, previousBaseRate: rate.baseRate, sourceRateId: parent.id, changedBy: userId });
+      if (baseRate !== rate.baseRate) {
+        await this.queueRateChange(tx, linked);
+      }
+
+      const recalculated: Rate[] = [];
+      await this.propagate(tx, linked, parent.id, userId, recalculated, ancestors.length + 1);
+      return { rate: linked, recalculated };
+    });
+
+    this.logger.log(
+      `Rate ${rate.rateCode} derived from ${parent.rateCode} by ${userId}: ${rate.baseRate} -> ${baseRate}, ` +
+      `${change.recalculated.length} descendant(s) recomputed`
+    );
+
+    return change;
+  }
+
+  /**
+   * Stops deriving a rate from its parent; the rate keeps its current base rate
+   * @param rateId - Derived rate
+   * @param userId - Revenue manager making the change
+   * @throws ErrorCode.RESOURCE_NOT_FOUND if the rate does not exist
+   * @throws ErrorCode.BUSINESS_RULE_VIOLATION if the rate is not derived
+   */
+  async unlinkRate(rateId: string, userId: string): Promise<Rate> {
+    const rate = await this.findRate(rateId);
+    if (!rate.parentRateId) {
+      throw createErrorDetails(ErrorCode.BUSINESS_RULE_VIOLATION, {
+        message: `Rate ${rate.rateCode} is not derived from another rate`,
+        rateId
+      });
+    }
+
+    const unlinked = await this.prisma.$transaction(async (tx) => {
+      // The history keeps the parent the rate was derived from until now
+      await this.audit(tx, rate, { action: RateAuditAction.UNLINKED, previousBaseRate: rate.baseRate, sourceRateId: rate.id, changedBy: userId });
+      return tx.rate.update({
+        where: { id: rate.id },
+        data: { parentRateId: null, derivation: null }
+      }) as Promise<Rate>;
+    });
+
+    this.logger.log(`Rate ${rate.rateCode} unlinked from its parent by ${userId}`);
+
+    return unlinked;
+  }
+
+  /**
+   * Sets the base rate of a rate priced on its own and recomputes every rate derived from it
+   * @param rateId - Rate to change
+   * @param baseRate - New base rate, before tax
+   * @param userId - User or channel making the change
+   * @throws ErrorCode.RESOURCE_NOT_FOUND if the rate does not exist
+   * @throws ErrorCode.BUSINESS_RULE_VIOLATION if the rate is derived, or a descendant would be
+   * priced at zero or less
+   */
+  async updateBaseRate(rateId: string, baseRate: number, userId: string): Promise<BaseRateChange> {
+    const rate = await this.findRate(rateId);
+    if (rate.parentRateId) {
+      throw createErrorDetails(ErrorCode.BUSINESS_RULE_VIOLATION, {
+        message: `Rate ${rate.rateCode} is derived from another rate; change the parent rate or unlink it first`,
+        rateId,
+        parentRateId: rate.parentRateId
+      });
+    }
+
+    const change = await this.prisma.$transaction(async (tx) => {
+      const updated = await tx.rate.update({ where: { id: rate.id }, data: { baseRate } }) as Rate;
+
+      await this.audit(tx, updated, { action: RateAuditAction.BASE_RATE_CHANGED, previousBaseRate: rate.baseRate, sourceRateId: rate.id, changedBy: userId });
+      await this.queueRateChange(tx, updated);
+
+      const recalculated: Rate[] = [];
+      await this.propagate(tx, updated, rate.id, userId, recalculated, 1);
+      return { rate: updated, recalculated };
+    });
+
+    this.logger.log(
+      `Base rate of ${rate.rateCode} set by ${userId}: ${rate.baseRate} -> ${baseRate}, ` +
+      `${change.recalculated.length} derived rate(s) recomputed`
+    );
+
+    return change;
+  }
+
+  /**
+   * Returns the change history of a rate, most recent first
+   * @param rateId - Rate ID
+   * @param filter - Period and number of entries to return
+   */
+  async getHistory(rateId: string, filter: RateHistoryFilter = {}): Promise<RateAudit[]> {
+    return this.prisma.rateAudit.findMany({
+      where: {
+        rateId,
+        ...((filter.startDate || filter.endDate) && {
+          changedAt: {
+            ...(filter.startDate && { gte: filter.startDate }),
+            ...(filter.endDate && { lte: filter.endDate })
+          }
+        })
+      },
+      orderBy: { changedAt: 'desc' },
+      take: filter.limit || DEFAULT_HISTORY_LIMIT
+    }) as Promise<RateAudit[]>;
+  }
+
+  /**
+   * Recomputes the children of a rate, and theirs, from the rate's new base rate
+   */
+  private async propagate(
+    tx: Prisma.TransactionClient,
+    parent: Rate,
+    sourceRateId: string,
+    userId: string,
+    recalculated: Rate[],
+    depth: number
+  ): Promise<void> {
+    const children = await tx.rate.findMany({ where: { parentRateId: parent.id } }) as Rate[];
+    if (children.length === 0) {
+      return;
+    }
+
+    // Links are checked for cycles when made; this guards against hierarchies edited elsewhere
+    if (depth > MAX_RATE_HIERARCHY_DEPTH) {
+      throw createErrorDetails(ErrorCode.BUSINESS_RULE_VIOLATION, {
+        message: `Rate hierarchy below ${parent.rateCode} is more than ${MAX_RATE_HIERARCHY_DEPTH} levels deep`,
+        rateId: parent.id
+      });
+    }
+
+    for (const child of children) {
+      const baseRate = this.derive(child, parent.baseRate, child.derivation);
+      if (baseRate === child.baseRate) {
+        continue;
+      }
+
+      const updated = await tx.rate.update({ where: { id: child.id }, data: { baseRate } }) as Rate;
+      await this.audit(tx, updated, { action: RateAuditAction.RECALCULATED, previousBaseRate: child.baseRate, sourceRateId, changedBy: userId });
+      await this.queueRateChange(tx, updated);
+      recalculated.push(updated);
+
+      await this.propagate(tx, updated, sourceRateId, userId, recalculated, depth + 1);
+    }
+  }
+
+  /**
+   * Applies a derivation to a parent base rate
+   */
+  private derive(rate: Rate, parentBaseRate: number, derivation: RateDerivation | null | undefined): number {
+    if (!derivation) {
+      throw createErrorDetails(ErrorCode.BUSINESS_RULE_VIOLATION, {
+        message: `Rate ${rate.rateCode} has a parent rate but no derivation`,
+        rateId: rate.id
+      });
+    }
+
+    const baseRate = deriveBaseRate(parentBaseRate, derivation);
+    if (baseRate <= 0) {
+      throw createErrorDetails(ErrorCode.BUSINESS_RULE_VIOLATION, {
+        message: `Rate ${rate.rateCode} would be priced at ${baseRate} from a parent base rate of ${parentBaseRate}`,
+        rateId: rate.id,
+        derivation
+      });
+    }
+
+    return baseRate;
+  }
+
+  /**
+   * Levels of derived rates below a rate, the rate included
+   */
+  private async subtreeDepth(rateId: string): Promise<number> {
+    let depth = 1;
+    let level = [rateId];
+
+    while (depth <= MAX_RATE_HIERARCHY_DEPTH) {
+      const children = await this.prisma.rate.findMany({
+        where: { parentRateId: { in: level } },
+        select: { id: true }
+      });
+      if (children.length === 0) {
+        break;
+      }
+      level = children.map(child => child.id);
+      depth += 1;
+    }
+
+    return depth;
+  }
+
+  private async audit(tx: Prisma.TransactionClient, rate: Rate, change: AuditedChange): Promise<void> {
+    await tx.rateAudit.create({
+      data: {
+        rateId: rate.id,
+        action: change.action,
+        previousBaseRate: change.previousBaseRate,
+        newBaseRate: rate.baseRate,
+        parentRateId: rate.parentRateId ?? null,
+        derivation: rate.derivation ?? null,
+        sourceRateId: change.sourceRateId,
+        changedBy: change.changedBy,
+        changedAt: new Date()
+      }
+    });
+  }
+
+  /**
+   * Queues the rate's price for the distribution channels, from today until the rate ends
+   */
+  private async queueRateChange(tx: Prisma.TransactionClient, rate: Rate): Promise<void> {
+    const startDate = startOfDay(new Date());
+
+    await this.outbox.queue({
+      type: AriUpdateType.RATE,
+      rateId: rate.id,
+      startDate,
+      endDate: addDays(startDate, Math.max(1, differenceInCalendarDays(rate.effectiveTo, startDate)))
+    }, tx);
+  }
+
+  private async findRate(rateId: string): Promise<Rate> {
+    const rate = await this.prisma.rate.findUnique({ where: { id: rateId } }) as Rate | null;
+    if (!rate) {
+      throw createErrorDetails(ErrorCode.RESOURCE_NOT_FOUND, { message: 'Rate not found', rateId });
+    }
+
+    return rate;
+  }
+}
@@ -0,0 +1,324 @@
+/**
+ * @fileoverview Rate parity service pricing every night ahead on each channel with a parity rule
+ * against the direct channel, recording violations with their history and alerting on new ones.
+ * @version 1.0.0
+ */
+
+// External imports
+import { Injectable, Logger } from '@nestjs/common'; // v10.0.0
+import { PrismaClient } from '@prisma/client'; // v5.0.0
+import { addDays, differenceInCalendarDays, format, max, min, startOfDay } from 'date-fns'; // v2.30.0
+import { randomUUID } from 'crypto';
+
+// Internal imports
+import { prisma as reservationPrisma } from '../config/database';
+import { Rate, RateModel, RateStatus } from '../models/rate.model';
+import { DistributionChannel } from '../models/channel.model';
+import {
+  DEFAULT_PARITY_TOLERANCE_PERCENT,
+  PARITY_REFERENCE_CHANNEL,
+  RATE_PARITY_HORIZON_DAYS,
+  RateParityCheck,
+  RateParityDirection,
+  RateParityFilter,
+  RateParityStatus,
+  RateParityViolation
+} from '../models/rate-parity.model';
+import { AvailabilityService } from './availability.service';
+import {
+  NotificationSender,
+  NotificationType,
+  NotificationPriority,
+  DeliveryStatus
+} from '../../../shared/interfaces/notification.interface';
+import { WebSocketNamespaces } from '../../../websocket-service/src/config/websocket';
+import { ErrorCode, createErrorDetails } from '../../../shared/constants/error-codes';
+
+/**
+ * Night on which a channel was found out of parity
+ */
+interface ParityFinding {
+  channel: DistributionChannel;
+  date: Date;
+  referenceRate: number;
+  channelRate: number;
+}
+
+/**
+ * Service monitoring rate parity across distribution channels
+ */
+@Injectable()
+export class RateParityService {
+  private readonly logger = new Logger(RateParityService.name);
+  private readonly tolerancePercent = Number(process.env.RATE_PARITY_TOLERANCE_PERCENT) || DEFAULT_PARITY_TOLERANCE_PERCENT;
+  private scheduledRun: NodeJS.Timeout | null = null;
+
+  constructor(
+    private readonly rateModel: RateModel,
+    private readonly availabilityService: AvailabilityService,
+    private readonly notifications: NotificationSender,
+    private readonly prisma: PrismaClient = reservationPrisma
+  ) {}
+
+  /**
+   * Prices the coming nights of active rates on every channel whose rule requires parity, opens a
+   * violation for each night out of parity, resolves the ones back in parity and alerts on new ones
+   * @param now - Time of the check
+   * @param rateId - Checks only this rate when given
+   */
+  async checkParity(now: Date = new Date(), rateId?: string): Promise<RateParityCheck> {
+    const today = startOfDay(now);
+    const horizonEnd = addDays(today, RATE_PARITY_HORIZON_DAYS);
+
+    const rates = await this.prisma.rate.findMany({
+      where: {
+        ...(rateId && { id: rateId }),
+        status: RateStatus.ACTIVE,
+        effectiveFrom: { lt: horizonEnd },
+        effectiveTo: { gte: today }
+      }
+    }) as Rate[];
+
+    const occupancy = await this.availabilityService.getCurrentOccupancy();
+    const check: RateParityCheck = { checkedAt: now, ratesChecked: 0, nightsChecked: 0, opened: 0, resolved: 0, open: 0 };
+    const opened: RateParityViolation[] = [];
+
+    for (const rate of rates) {
+      const firstNight = max([today, startOfDay(rate.effectiveFrom)]);
+      const lastNight = min([addDays(horizonEnd, -1), startOfDay(rate.effectiveTo)]);
+      const nights = Array.from(
+        { length: differenceInCalendarDays(lastNight, firstNight) + 1 },
+        (_, index) => addDays(firstNight, index)
+      );
+
+      try {
+        const findings = await this.evaluate(rate, nights, occupancy);
+        const reconciled = await this.reconcile(rate, findings, now);
+        opened.push(...reconciled.opened);
+        check.resolved += reconciled.resolved;
+        check.ratesChecked += 1;
+        check.nightsChecked += nights.length;
+      } catch (error) {
+        // One rate failing to price must not stop the others from being checked
+        this.logger.error(`Parity check of rate ${rate.rateCode} failed: ${error.message || error.code}`);
+      }
+    }
+
+    check.opened = opened.length;
+    check.open = await this.prisma.rateParityViolation.count({
+      where: { status: RateParityStatus.OPEN, ...(rateId && { rateId }) }
+    });
+
+    if (opened.length > 0) {
+      await this.alert(opened, now);
+    }
+
+    this.logger.log(
+      `Parity check priced ${check.nightsChecked} nights of ${check.ratesChecked} rates: ` +
+      `${check.opened} opened, ${check.resolved} resolved, ${check.open} open`
+    );
+
+    return check;
+  }
+
+  /**
+   * Checks one rate now and returns its open violations
+   * @param rateId - Rate to check
+   * @throws ErrorCode.RESOURCE_NOT_FOUND if the rate does not exist
+   */
+  async validateRateParity(rateId: string): Promise<{ isValid: boolean; violations: RateParityViolation[] }> {
+    const rate = await this.prisma.rate.findUnique({ where: { id: rateId } });
+    if (!rate) {
+      throw createErrorDetails(ErrorCode.RESOURCE_NOT_FOUND, { message: 'Rate not found', rateId });
+    }
+
+    await this.checkParity(new Date(), rateId);
+    const violations = await this.listViolations({ rateId, status: RateParityStatus.OPEN });
+
+    return { isValid: violations.length === 0, violations };
+  }
+
+  /**
+   * Lists parity violations, open and resolved, in night order
+   * @param filter - Status, rate, channel and night range to list
+   */
+  async listViolations(filter: RateParityFilter = {}): Promise<RateParityViolation[]> {
+    return this.prisma.rateParityViolation.findMany({
+      where: {
+        ...(filter.status && { status: filter.status }),
+        ...(filter.rateId && { rateId: filter.rateId }),
+        ...(filter.channel && { channel: filter.channel }),
+        ...((filter.startDate || filter.endDate) && {
+          date: {
+            ...(filter.startDate && { gte: startOfDay(filter.startDate) }),
+            ...(filter.endDate && { lte: startOfDay(filter.endDate) })
+          }
+        })
+      },
+      orderBy: [{ date: 'asc' }, { channel: 'asc' }]
+    }) as Promise<RateParityViolation[]>;
+  }
+
+  /**
+   * Schedules the parity check to run every interval until cancelled
+   * @param intervalMs - Time between checks; RATE_PARITY_CHECK_INTERVAL_MS or one hour
+   */
+  scheduleChecks(intervalMs: number = Number(process.env.RATE_PARITY_CHECK_INTERVAL_MS) || 60 * 60 * 1000): void {
+    this.cancelSchedule();
+    this.scheduledRun = setTimeout(async () => {
+      try {
+        await this.checkParity();
+      } catch (error) {
+        this.logger.error(`Scheduled parity check failed: ${error.message || error.code}`);
+      }
+      this.scheduleChecks(intervalMs);
+    }, intervalMs);
+  }
+
+  /**
+   * Cancels the scheduled parity check
+   */
+  cancelSchedule(): void {
+    if (this.scheduledRun) {
+      clearTimeout(this.scheduledRun);
+      this.scheduledRun = null;
+    }
+  }
+
+  /**
+   * Prices each night on the direct channel and on the channels whose rule requires parity
+   */
+  private async evaluate(rate: Rate, nights: Date[], occupancy: number): Promise<ParityFinding[]> {
+    const channels = Object.values(rate.channelRules || {})
+      .filter(rule => rule.rateParity && rule.channelId !== PARITY_REFERENCE_CHANNEL)
+      .filter(rule => !rate.applicableChannels?.length || rate.applicableChannels.includes(rule.channelId))
+      .map(rule => rule.channelId as DistributionChannel);
+
+    if (channels.length === 0) {
+      return [];
+    }
+
+    const findings: ParityFinding[] = [];
+    for (const night of nights) {
+      const checkOut = addDays(night, 1);
+      // The sell rate of a one-night stay, with the channel's markup when a channel is given
+      const referenceRate = await this.rateModel.calculateRate(
+        rate.id, night, checkOut, occupancy, PARITY_REFERENCE_CHANNEL
+      );
+
+      for (const channel of channels) {
+        const channelRate = await this.rateModel.calculateRate(rate.id, night, checkOut, occupancy, channel);
+        const tolerance = Math.max(0.01, this.round(referenceRate * this.tolerancePercent / 100));
+
+        // Compared in cents so float noise such as 110.01 - 110 never exceeds a one-cent tolerance
+        if (Math.abs(this.round(channelRate - referenceRate)) > tolerance) {
+          findings.push({ channel, date: night, referenceRate, channelRate });
+        }
+      }
+    }
+
+    return findings;
+  }
+
+  /**
+   * Opens violations for new findings, refreshes the ones still found and resolves the rest
+   */
+  private async reconcile(
+    rate: Rate,
+    findings: ParityFinding[],
+    now: Date
+  ): Promise<{ opened: RateParityViolation[]; resolved: number }> {
+    const open = await this.prisma.rateParityViolation.findMany({
+      where: { rateId: rate.id, status: RateParityStatus.OPEN }
+    }) as RateParityViolation[];
+
+    const key = (channel: string, date: Date) => `${channel}:${format(date, 'yyyy-MM-dd')}`;
+    const openByKey = new Map(open.map(violation => [key(violation.channel, violation.date), violation]));
+    const opened: RateParityViolation[] = [];
+
+    for (const finding of findings) {
+      const difference = this.round(finding.channelRate - finding.referenceRate);
+      const values = {
+        referenceRate: finding.referenceRate,
+        channelRate: finding.channelRate,
+        difference,
+        direction: difference < 0 ? RateParityDirection.UNDERCUT : RateParityDirection.ABOVE,
+        lastCheckedAt: now
+      };
+
+      const existing = openByKey.get(key(finding.channel, finding.date));
+      if (existing) {
+        openByKey.delete(key(finding.channel, finding.date));
+        await this.prisma.rateParityViolation.update({
+          where: { id: existing.id },
+          data: { ...values, occurrences: { increment: 1 } }
+        });
+        continue;
+      }
+
+      opened.push(await this.prisma.rateParityViolation.create({
+        data: {
+          ...values,
+          rateId: rate.id,
+          channel: finding.channel,
+          date: finding.date,
+          currencyCode: rate.currencyCode,
+          status: RateParityStatus.OPEN,
+          detectedAt: now,
+          resolvedAt: null,
+          occurrences: 1
+        }
+      }) as RateParityViolation);
+    }
+
+    // Violations not found again are back in parity, or their night has passed
+    const resolvedIds = Array.from(openByKey.values()).map(violation => violation.id);
+    let resolved = 0;
+    if (resolvedIds.length > 0) {
+      ({ count: resolved } = await this.prisma.rateParityViolation.updateMany({
+        where: { id: { in: resolvedIds }, status: RateParityStatus.OPEN },
+        data: { status: RateParityStatus.RESOLVED, resolvedAt: now, lastCheckedAt: now }
+      }));
+    }
+
+    return { opened, resolved };
+  }
+
+  /**
+   * Raises one system alert listing the violations a check opened
+   */
+  private async alert(opened: RateParityViolation[], now: Date): Promise<void> {
+    try {
+      await this.notifications.sendNotification({
+        id: randomUUID(),
+        correlationId: randomUUID(),
+        type: NotificationType.SYSTEM_ALERT,
+        targetGroup: WebSocketNamespaces.SYSTEM,
+        payload: {
+          alert: 'RATE_PARITY_VIOLATION',
+          count: opened.length,
+          violations: opened.map(violation => ({
+            id: violation.id,
+            rateId: violation.rateId,
+            channel: violation.channel,
+            date: format(violation.date, 'yyyy-MM-dd'),
+            referenceRate: violation.referenceRate,
+            channelRate: violation.channelRate,
+            currencyCode: violation.currencyCode,
+            direction: violation.direction
+          }))
+        },
+        priority: NotificationPriority.HIGH,
+        timestamp: now,
+        deliveryStatus: DeliveryStatus.PENDING
+      });
+    } catch (error) {
+      // Violations are stored; a failed alert must not fail the check
+      this.logger.warn(`Parity alert could not be sent: ${error.message || error.code}`);
+    }
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+}
@@ -0,0 +1,183 @@
+/**
+ * @fileoverview Rate simulation service replaying past and on-the-books bookings through the
+ * pricing pipeline under a candidate pricing configuration and under the live one, projecting
+ * revenue, ADR and yield rule hits for both without changing any price or booking.
+ * @version 1.0.0
+ */
+
+// External imports
+import { Injectable, Logger } from '@nestjs/common'; // v10.0.0
+import { PrismaClient } from '@prisma/client'; // v5.0.0
+import { differenceInCalendarDays, format, startOfDay } from 'date-fns'; // v2.30.0
+
+// Internal imports
+import { prisma as reservationPrisma } from '../config/database';
+import { Booking } from '../models/booking.model';
+import {
+  DEFAULT_SIMULATION_OCCUPANCY,
+  MAX_SIMULATION_RANGE_DAYS,
+  PricingScenario,
+  RateSimulationRequest,
+  RateSimulationResult,
+  SIMULATED_BOOKING_STATUSES,
+  ScenarioPricing,
+  SimulationMetrics
+} from '../models/rate-simulation.model';
+import { PricingService } from './pricing.service';
+import { YieldManagementService } from './yield-management.service';
+import { ErrorCode, createErrorDetails } from '../../../shared/constants/error-codes';
+
+/**
+ * Booking fields a simulation replays
+ */
+type SimulatedBooking = Pick<
+  Booking, 'id' | 'rateId' | 'checkInDate' | 'checkOutDate' | 'numberOfGuests' | 'bookingSource' | 'createdAt'
+>;
+
+/**
+ * Running totals of one configuration
+ */
+interface SimulationTotals {
+  revenue: number;
+  ruleHits: Record<string, number>;
+}
+
+/**
+ * Service running what-if pricing simulations
+ */
+@Injectable()
+export class RateSimulationService {
+  private readonly logger = new Logger(RateSimulationService.name);
+
+  constructor(
+    private readonly pricingService: PricingService,
+    private readonly prisma: PrismaClient = reservationPrisma,
+    private readonly yieldManagement: YieldManagementService = new YieldManagementService(prisma)
+  ) {}
+
+  /**
+   * Re-prices every booking staying in the range as it was priced when it was made, once under
+   * the live configuration and once under the candidate. Only nights inside the range count;
+   * demand is read as it stands now
+   * @param request - Date range, candidate scenario and occupancy for the rates' occupancy modifiers
+   * @throws ErrorCode.VALIDATION_ERROR if the range or a candidate yield rule is invalid
+   */
+  async simulate(request: RateSimulationRequest): Promise<RateSimulationResult> {
+    const startDate = startOfDay(request.startDate);
+    const endDate = startOfDay(request.endDate);
+    const rangeDays = differenceInCalendarDays(endDate, startDate) + 1;
+
+    if (rangeDays < 1 || rangeDays > MAX_SIMULATION_RANGE_DAYS) {
+      throw createErrorDetails(ErrorCode.VALIDATION_ERROR, {
+        message: `Simulation range must cover 1 to ${MAX_SIMULATION_RANGE_DAYS} days`,
+        startDate: request.startDate,
+        endDate: request.endDate
+      });
+    }
+
+    if (request.scenario.yieldRules) {
+      this.yieldManagement.validateRules(request.scenario.yieldRules);
+    }
+
+    // Both configurations are priced on the same rules for the whole run
+    const liveRules = (await this.yieldManagement.getRuleSet())?.rules ?? [];
+    const live: PricingScenario = { yieldRules: liveRules };
+    const candidate: PricingScenario = {
+      yieldRules: request.scenario.yieldRules ?? liveRules,
+      seasonalModifiers: request.scenario.seasonalModifiers
+    };
+    const occupancy = request.occupancyPercentage ?? DEFAULT_SIMULATION_OCCUPANCY;
+
+    const bookings = await this.prisma.booking.findMany({
+      where: {
+        status: { in: SIMULATED_BOOKING_STATUSES },
+        checkInDate: { lte: endDate },
+        checkOutDate: { gt: startDate }
+      },
+      select: {
+        id: true,
+        rateId: true,
+        checkInDate: true,
+        checkOutDate: true,
+        numberOfGuests: true,
+        bookingSource: true,
+        createdAt: true
+      },
+      orderBy: { checkInDate: 'asc' }
+    }) as SimulatedBooking[];
+
+    const liveTotals: SimulationTotals = { revenue: 0, ruleHits: {} };
+    const candidateTotals: SimulationTotals = { revenue: 0, ruleHits: {} };
+    let roomNights = 0;
+    let skippedBookings = 0;
+
+    for (const booking of bookings) {
+      let pricings: ScenarioPricing[];
+      try {
+        pricings = await Promise.all([live, candidate].map(scenario => this.pricingService.priceScenario(
+          booking.rateId,
+          booking.checkInDate,
+          booking.checkOutDate,
+          occupancy,
+          booking.bookingSource,
+          scenario,
+          booking.createdAt,
+          booking.numberOfGuests
+        )));
+      } catch (error) {
+        this.logger.warn(`Booking ${booking.id} left out of simulation: ${error.message}`);
+        skippedBookings++;
+        continue;
+      }
+
+      roomNights += this.accumulate(liveTotals, pricings[0], startDate, endDate);
+      this.accumulate(candidateTotals, pricings[1], startDate, endDate);
+    }
+
+    const liveMetrics = this.toMetrics(liveTotals, roomNights);
+    const candidateMetrics = this.toMetrics(candidateTotals, roomNights);
+
+    this.logger.log(
+      `Simulated ${bookings.length - skippedBookings} booking(s) over ${format(startDate, 'yyyy-MM-dd')}` +
+      ` to ${format(endDate, 'yyyy-MM-dd')}: revenue ${liveMetrics.revenue} live, ${candidateMetrics.revenue} candidate`
+    );
+
+    return {
+      startDate,
+      endDate,
+      simulatedAt: new Date(),
+      bookings: bookings.length - skippedBookings,
+      roomNights,
+      skippedBookings,
+      live: liveMetrics,
+      candidate: candidateMetrics,
+      revenueDifference: Number((candidateMetrics.revenue - liveMetrics.revenue).toFixed(2)),
+      adrDifference: Number((candidateMetrics.adr - liveMetrics.adr).toFixed(2))
+    };
+  }
+
+  /**
+   * Adds the pre-tax price and yield rule hits of the nights inside the range to the totals
+   * @returns Number of nights counted
+   */
+  private accumulate(totals: SimulationTotals, pricing: ScenarioPricing, startDate: Date, endDate: Date): number {
+    const nights = pricing.nightlyRates.filter(night => night.date >= startDate && night.date <= endDate);
+
+    for (const night of nights) {
+      totals.revenue += night.baseRate + night.adjustmentAmount;
+      for (const rule of pricing.yieldAdjustments[format(night.date, 'yyyy-MM-dd')]?.rules ?? []) {
+        totals.ruleHits[rule] = (totals.ruleHits[rule] ?? 0) + 1;
+      }
+    }
+
+    return nights.length;
+  }
+
+  private toMetrics(totals: SimulationTotals, roomNights: number): SimulationMetrics {
+    return {
+      revenue: Number(totals.revenue.toFixed(2)),
+      adr: roomNights > 0 ? Number((totals.revenue / roomNights).toFixed(2)) : 0,
+      ruleHits: totals.ruleHits
+    };
+  }
+}
@@ -0,0 +1,489 @@
+/**
+ * @fileoverview Room assignment engine placing bookings held against a room type into physical
+ * rooms close to arrival. Honours accessibility, connecting-room and floor preferences and packs
+ * stays back to back to keep rooms free for long stays.
+ * @version 1.0.0
+ */
+
+// External imports
+import { Injectable, Logger } from '@nestjs/common'; // v10.0.0
+import { PrismaClient } from '@prisma/client'; // v5.0.0
+import { addDays, differenceInCalendarDays, format } from 'date-fns'; // v2.30.0
+
+// Internal imports
+import { prisma as reservationPrisma } from '../config/database';
+import { Booking, BookingStatus, INVENTORY_HOLDING_STATUSES } from '../models/booking.model';
+import { RoomModel, RoomStatus } from '../../../room-service/src/models/room.model';
+import { Preference } from '../../../guest-service/src/models/preference.model';
+import { BusinessDateService } from '../../../shared/services/business-date.service';
+import { ErrorCode, createErrorDetails } from '../../../shared/constants/error-codes';
+
+/**
+ * User recorded on assignments made by the scheduled run
+ */
+export const ROOM_ASSIGNMENT_USER = 'ROOM_ASSIGNMENT';
+
+/**
+ * Room statuses that cannot receive an assignment
+ */
+const UNASSIGNABLE_ROOM_STATUSES = [RoomStatus.OUT_OF_ORDER, RoomStatus.MAINTENANCE, RoomStatus.BLOCKED];
+
+/**
+ * Gap, in nights, treated as "no neighbouring stay" when scoring fragmentation
+ */
+const MAX_GAP_PENALTY = 14;
+
+/**
+ * Physical room assigned to a booking
+ */
+export interface RoomAssignment {
+  bookingId: string;
+  bookingNumber: string;
+  roomId: string;
+  roomNumber: string;
+}
+
+/**
+ * Outcome of an assignment run
+ */
+export interface RoomAssignmentResult {
+  assigned: RoomAssignment[];
+  unassigned: { bookingId: string; bookingNumber: string; reason: string }[];
+}
+
+/**
+ * Stay already occupying a room, used for conflict and fragmentation checks
+ */
+interface OccupiedStay {
+  bookingId: string;
+  roomId: string;
+  checkInDate: Date;
+  checkOutDate: Date;
+}
+
+/**
+ * Service assigning physical rooms to upcoming arrivals
+ */
+@Injectable()
+export class RoomAssignmentService {
+  private readonly logger = new Logger(RoomAssignmentService.name);
+  private scheduledRun: NodeJS.Timeout | null = null;
+
+  constructor(
+    private readonly prisma: PrismaClient = reservationPrisma,
+    private readonly businessDates: BusinessDateService = new BusinessDateService(prisma)
+  ) {}
+
+  /**
+   * Assigns rooms to confirmed arrivals without a room from the business date up to the horizon
+   * @param userId - User or job running the assignment
+   * @param daysAhead - Arrival horizon in days after the business date
+   */
+  async assignArrivals(
+    userId: string = ROOM_ASSIGNMENT_USER,
+    daysAhead: number = Number(process.env.ROOM_ASSIGNMENT_DAYS) || 1
+  ): Promise<RoomAssignmentResult> {
+    const businessDate = await this.businessDates.getBusinessDate();
+
+    const arrivals = await this.prisma.booking.findMany({
+      where: {
+        status: BookingStatus.CONFIRMED,
+        roomId: null,
+        checkInDate: { gte: businessDate, lt: addDays(businessDate, daysAhead + 1) }
+      }
+    }) as Booking[];
+
+    const result: RoomAssignmentResult = { assigned: [], unassigned: [] };
+    if (arrivals.length === 0) {
+      return result;
+    }
+
+    const preferences = await this.loadPreferences(arrivals);
+    const occupied = await this.loadOccupiedStays(
+      businessDate,
+      arrivals.reduce((latest, booking) => booking.checkOutDate > latest ? booking.checkOutDate : latest, businessDate)
+    );
+    const assignedRooms = new Map<string, string>();
+
+    for (const booking of this.orderForAssignment(arrivals, preferences)) {
+      const partnerRoomId = booking.connectingBookingId
+        ? assignedRooms.get(booking.connectingBookingId) || await this.findAssignedRoomId(booking.connectingBookingId)
+        : null;
+
+      const room = await this.chooseRoom(booking, preferences.get(booking.guestId), occupied, partnerRoomId);
+      if (!room) {
+        result.unassigned.push({
+          bookingId: booking.id,
+          bookingNumber: booking.bookingNumber,
+          reason: `No ${booking.roomType} room satisfies the stay and guest requirements`
+        });
+        continue;
+      }
+
+      if (!(await this.saveAssignment(booking, room, userId, true))) {
+        result.unassigned.push({
+          bookingId: booking.id,
+          bookingNumber: booking.bookingNumber,
+          reason: 'Booking was assigned concurrently'
+        });
+        continue;
+      }
+
+      occupied.push({
+        bookingId: booking.id,
+        roomId: room.id,
+        checkInDate: booking.checkInDate,
+        checkOutDate: booking.checkOutDate
+      });
+      assignedRooms.set(booking.id, room.id);
+      result.assigned.push({
+        bookingId: booking.id,
+        bookingNumber: booking.bookingNumber,
+        roomId: room.id,
+        roomNumber: room.roomNumber
+      });
+    }
+
+    this.logger.log(
+      `Room assignment for arrivals until ${format(addDays(businessDate, daysAhead), 'yyyy-MM-dd')}: ` +
+      `${result.assigned.length} assigned, ${result.unassigned.length} unassigned`
+    );
+
+    return result;
+  }
+
+  /**
+   * Assigns a room to a single booking, either the requested room or the best match
+   * @param bookingId - Booking ID
+   * @param userId - User making the assignment
+   * @param roomId - Room requested by the front desk; chosen by the engine when omitted
+   * @throws ErrorCode.BUSINESS_RULE_VIOLATION if the room does not fit the booking
+   */
+  async assignRoom(bookingId: string, userId: string, roomId?: string): Promise<RoomAssignment> {
+    const booking = await this.getBooking(bookingId);
+
+    if (!INVENTORY_HOLDING_STATUSES.includes(booking.status) || booking.status === BookingStatus.ON_HOLD) {
+      throw createErrorDetails(ErrorCode.BUSINESS_RULE_VIOLATION, {
+        message: `Cannot assign a room to a ${booking.status.toLowerCase()} booking`,
+        bookingId
+      });
+    }
+
+    let room: RoomModel | null;
+    if (roomId) {
+      room = await this.checkRoom(booking, roomId);
+    } else {
+      const occupied = (await this.loadOccupiedStays(booking.checkInDate, booking.checkOutDate))
+        .filter(stay => stay.bookingId !== booking.id);
+      const preference = (await this.loadPreferences([booking])).get(booking.guestId);
+      const partnerRoomId = booking.connectingBookingId
+        ? await this.findAssignedRoomId(booking.connectingBookingId)
+        : null;
+
+      room = await this.chooseRoom(booking, preference, occupied, partnerRoomId);
+      if (!room) {
+        throw createErrorDetails(ErrorCode.RESOURCE_CONFLICT, {
+          message: `No ${booking.roomType} room satisfies the stay and guest requirements`,
+          bookingId
+        });
+      }
+    }
+
+    await this.saveAssignment(booking, room, userId, false);
+
+    return {
+      bookingId: booking.id,
+      bookingNumber: booking.bookingNumber,
+      roomId: room.id,
+      roomNumber: room.roomNumber
+    };
+  }
+
+  /**
+   * Checks that a room can take a booking as given, e.g. a booking whose stay is being modified
+   * @param booking - Booking with the stay, room type and guest count to check
+   * @param roomId - Room to check
+   * @throws ErrorCode.BUSINESS_RULE_VIOLATION if the room does not fit the booking
+   */
+  async checkRoom(booking: Booking, roomId: string): Promise<RoomModel> {
+    const room = await this.prisma.room.findUnique({ where: { id: roomId } }) as RoomModel | null;
+    const occupied = (await this.loadOccupiedStays(booking.checkInDate, booking.checkOutDate))
+      .filter(stay => stay.bookingId !== booking.id);
+    const preference = (await this.loadPreferences([booking])).get(booking.guestId);
+
+    if (!room || !this.isEligible(room, booking, preference, occupied, null)) {
+      throw createErrorDetails(ErrorCode.BUSINESS_RULE_VIOLATION, {
+        message: 'Room does not match the booking room type, occupancy, requirements or dates',
+        bookingId: booking.id,
+        roomId
+      });
+    }
+
+    return room;
+  }
+
+  /**
+   * Removes the physical room from a booking that has not checked in; the room-type hold remains
+   * @param bookingId - Booking ID
+   * @param userId - User removing the assignment
+   */
+  async unassignRoom(bookingId: string, userId: string): Promise<Booking> {
+    const booking = await this.getBooking(bookingId);
+
+    if (booking.status === BookingStatus.CHECKED_IN) {
+      throw createErrorDetails(ErrorCode.BUSINESS_RULE_VIOLATION, {
+        message: 'Cannot unassign the room of an in-house booking',
+        bookingId
+      });
+    }
+
+    return this.prisma.booking.update({
+      where: { id: booking.id },
+      data: {
+        roomId: null,
+        lastModifiedBy: userId,
+        updatedAt: new Date(),
+        auditTrail: [
+          ...booking.auditTrail,
+          {
+            timestamp: new Date(),
+            action: 'ROOM_UNASSIGNED',
+            userId,
+            changes: { roomId: null, previousRoomId: booking.roomId }
+          }
+        ]
+      }
+    }) as Promise<Booking>;
+  }
+
+  /**
+   * Schedules the assignment run daily at the configured local time
+   * @param time - Time of day in HH:mm format
+   */
+  scheduleDaily(time: string = process.env.ROOM_ASSIGNMENT_TIME || '05:00'): void {
+    const [hours, minutes] = time.split(':').map(Number);
+    const now = new Date();
+    const nextRun = new Date(now);
+    nextRun.setHours(hours, minutes, 0, 0);
+    if (nextRun <= now) {
+      nextRun.setDate(nextRun.getDate() + 1);
+    }
+
+    this.cancelSchedule();
+    this.scheduledRun = setTimeout(async () => {
+      try {
+        await this.assignArrivals(ROOM_ASSIGNMENT_USER);
+      } catch (error) {
+        this.logger.error(`Scheduled room assignment failed: ${error.message || error.code}`);
+      } finally {
+        this.scheduleDaily(time);
+      }
+    }, nextRun.getTime() - now.getTime());
+  }
+
+  /**
+   * Cancels the scheduled daily run
+   */
+  cancelSchedule(): void {
+    if (this.scheduledRun) {
+      clearTimeout(this.scheduledRun);
+      this.scheduledRun = null;
+    }
+  }
+
+  /**
+   * Orders arrivals so the hardest bookings pick first: accessibility needs, then connecting
+   * parties, then the longest stays
+   */
+  private orderForAssignment(bookings: Booking[], preferences: Map<string, Preference>): Booking[] {
+    const weight = (booking: Booking): number =>
+      (this.needsAccessibleRoom(booking, preferences.get(booking.guestId)) ? 2 : 0) +
+      (booking.connectingBookingId ? 1 : 0);
+
+    return [...bookings].sort((a, b) =>
+      weight(b) - weight(a) ||
+      this.nights(b) - this.nights(a) ||
+      a.checkInDate.getTime() - b.checkInDate.getTime()
+    );
+  }
+
+  /**
+   * Picks the eligible room with the lowest penalty
+   */
+  private async chooseRoom(
+    booking: Booking,
+    preference: Preference | undefined,
+    occupied: OccupiedStay[],
+    partnerRoomId: string | null
+  ): Promise<RoomModel | null> {
+    const rooms = await this.prisma.room.findMany({
+      where: {
+        type: booking.roomType,
+        isActive: true,
+        status: { notIn: UNASSIGNABLE_ROOM_STATUSES }
+      }
+    }) as RoomModel[];
+
+    const candidates = rooms
+      .filter(room => this.isEligible(room, booking, preference, occupied, partnerRoomId))
+      .map(room => ({ room, penalty: this.penalty(room, booking, preference, occupied, rooms) }))
+      .sort((a, b) => a.penalty - b.penalty || a.room.roomNumber.localeCompare(b.room.roomNumber));
+
+    return candidates[0]?.room || null;
+  }
+
+  /**
+   * Hard requirements: room type, occupancy, accessibility, free for the stay and, when the
+   * party's other room is already assigned, a connecting door to it
+   */
+  private isEligible(
+    room: RoomModel,
+    booking: Booking,
+    preference: Preference | undefined,
+    occupied: OccupiedStay[],
+    partnerRoomId: string | null
+  ): boolean {
+    if (room.type !== booking.roomType || !room.isActive || UNASSIGNABLE_ROOM_STATUSES.includes(room.status)) {
+      return false;
+    }
+    if (room.maxOccupancy < booking.numberOfGuests) {
+      return false;
+    }
+    if (this.needsAccessibleRoom(booking, preference) && !room.isAccessible) {
+      return false;
+    }
+    if (partnerRoomId && room.connectingRoomId !== partnerRoomId) {
+      return false;
+    }
+
+    return !occupied.some(stay =>
+      stay.roomId === room.id &&
+      stay.checkInDate < booking.checkOutDate &&
+      stay.checkOutDate > booking.checkInDate
+    );
+  }
+
+  /**
+   * Soft preferences, lower is better: keep accessible and connecting rooms for guests who
+   * need them, stay close to the preferred floor and sit next to neighbouring stays
+   */
+  private penalty(
+    room: RoomModel,
+    booking: Booking,
+    preference: Preference | undefined,
+    occupied: OccupiedStay[],
+    rooms: RoomModel[]
+  ): number {
+    let penalty = 0;
+
+    if (room.isAccessible && !this.needsAccessibleRoom(booking, preference)) {
+      penalty += 100;
+    }
+
+    if (booking.connectingBookingId) {
+      const connecting = rooms.find(other => other.id === room.connectingRoomId);
+      const connectingFree = connecting && this.isEligible(connecting, { ...booking, connectingBookingId: null }, undefined, occupied, null);
+      penalty += connectingFree ? 0 : 50;
+    } else if (room.connectingRoomId) {
+      penalty += 20;
+    }
+
+    if (preference?.floorLevel) {
+      penalty += Math.abs(room.floor - preference.floorLevel) * 5;
+    }
+
+    const stays = occupied.filter(stay => stay.roomId === room.id);
+    const gapBefore = Math.min(MAX_GAP_PENALTY, ...stays
+      .filter(stay => stay.checkOutDate <= booking.checkInDate)
+      .map(stay => differenceInCalendarDays(booking.checkInDate, stay.checkOutDate)));
+    const gapAfter = Math.min(MAX_GAP_PENALTY, ...stays
+      .filter(stay => stay.checkInDate >= booking.checkOutDate)
+      .map(stay => differenceInCalendarDays(stay.checkInDate, booking.checkOutDate)));
+
+    return penalty + gapBefore + gapAfter;
+  }
+
+  /**
+   * Accessibility needs are stored encrypted on the preference, so only their presence is checked
+   */
+  private needsAccessibleRoom(booking: Booking, preference: Preference | undefined): boolean {
+    return (booking.specialRequests?.accessibility?.length ?? 0) > 0 || !!preference?.accessibilityNeeds?.trim();
+  }
+
+  /**
+   * Writes the assignment; bulk runs only claim bookings that are still unassigned
+   */
+  private async saveAssignment(booking: Booking, room: RoomModel, userId: string, onlyIfUnassigned: boolean): Promise<boolean> {
+    const { count } = await this.prisma.booking.updateMany({
+      where: onlyIfUnassigned ? { id: booking.id, roomId: null } : { id: booking.id },
+      data: {
+        roomId: room.id,
+        lastModifiedBy: userId,
+        updatedAt: new Date(),
+        auditTrail: [
+          ...booking.auditTrail,
+          {
+            timestamp: new Date(),
+            action: 'ROOM_ASSIGNED',
+            userId,
+            changes: { roomId: room.id, roomNumber: room.roomNumber, previousRoomId: booking.roomId }
+          }
+        ]
+      }
+    });
+
+    return count > 0;
+  }
+
+  private async loadOccupiedStays(from: Date, to: Date): Promise<OccupiedStay[]> {
+    const bookings = await this.prisma.booking.findMany({
+      where: {
+        roomId: { not: null },
+        status: { in: INVENTORY_HOLDING_STATUSES },
+        checkInDate: { lt: addDays(to, MAX_GAP_PENALTY) },
+        checkOutDate: { gt: addDays(from, -MAX_GAP_PENALTY) }
+      },
+      select: { id: true, roomId: true, checkInDate: true, checkOutDate: true }
+    });
+
+    return bookings.map(booking => ({
+      bookingId: booking.id,
+      roomId: booking.roomId,
+      checkInDate: booking.checkInDate,
+      checkOutDate: booking.checkOutDate
+    }));
+  }
+
+  private async loadPreferences(bookings: Booking[]): Promise<Map<string, Preference>> {
+    const preferences = await this.prisma.preference.findMany({
+      where: { guestId: { in: bookings.map(booking => booking.guestId) } }
+    }) as Preference[];
+
+    return new Map(preferences.map(preference => [preference.guestId, preference]));
+  }
+
+  private async findAssignedRoomId(bookingId: string): Promise<string | null> {
+    const booking = await this.prisma.booking.findUnique({
+      where: { id: bookingId },
+      select: { roomId: true }
+    });
+    return booking?.roomId || null;
+  }
+
+  private async getBooking(bookingId: string): Promise<Booking> {
+    const booking = await this.prisma.booking.findUnique({ where: { id: bookingId } }) as Booking | null;
+
+    if (!booking) {
+      throw createErrorDetails(ErrorCode.RESOURCE_NOT_FOUND, {
+        message: 'Booking not found',
+        bookingId
+      });
+    }
+
+    return booking;
+  }
+
+  private nights(booking: Booking): number {
+    return differenceInCalendarDays(booking.checkOutDate, booking.checkInDate);
+  }
+}
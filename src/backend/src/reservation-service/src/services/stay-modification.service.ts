@@ -0,0 +1,748 @@
+/**
+ * @fileoverview Stay modification service for extending, shortening or shifting a stay, moving
+ * room and changing the guest count. Each change is checked against room-type availability,
+ * repriced through the pricing service and the difference posted to the guest folio. Bookings
+ * carrying nightly prices keep the prices of unchanged nights and have the others repriced.
+ * @version 1.0.0
+ */
+
+// External imports
+import { Injectable, Logger } from '@nestjs/common'; // v10.0.0
+import { Prisma, PrismaClient } from '@prisma/client'; // v5.0.0
+import { addDays, differenceInCalendarDays, format, isSameDay, max } from 'date-fns'; // v2.30.0
+
+// Internal imports
+import { prisma as reservationPrisma } from '../config/database';
+import { Booking, BookingStatus } from '../models/booking.model';
+import { GroupBlockStatus } from '../models/group-block.model';
+import {
+  ModificationType,
+  ModifyStayDto,
+  PriceDelta,
+  ReservationModification,
+  StayDetails,
+  STAY_MODIFICATION_REFERENCE_PREFIX
+} from '../models/reservation-modification.model';
+import { RoomType } from '../../../room-service/src/models/room.model';
+import { AvailabilityService } from './availability.service';
+import { PricingService, RateCalculationResult } from './pricing.service';
+import { InventoryService } from './inventory.service';
+import { RoomAssignmentService } from './room-assignment.service';
+import { StayRestrictionService } from './stay-restriction.service';
+import { StayRestrictionType } from '../models/stay-restriction.model';
+import { WaitlistService } from './waitlist.service';
+import { PromoRedemptionStatus, promotionModifiers } from '../models/promotion.model';
+import { NightlyRate, ReservationRate } from '../models/reservation-rate.model';
+import { Folio, FolioCharge, FolioStatus } from '../../../billing-service/src/models/folio.model';
+import { FolioPostingService } from '../../../billing-service/src/services/folio-posting.service';
+import { ROOM_CHARGE_CATEGORY, ROOM_CHARGE_DEPARTMENT } from '../../../shared/models/charge-category.model';
+import { BusinessDateService } from '../../../shared/services/business-date.service';
+import { ErrorCode, createErrorDetails } from '../../../shared/constants/error-codes';
+
+/**
+ * Booking statuses whose stay can still be modified
+ */
+const MODIFIABLE_STATUSES = [
+  BookingStatus.PENDING,
+  BookingStatus.PENDING_PAYMENT,
+  BookingStatus.PENDING_CONFIRMATION,
+  BookingStatus.CONFIRMED,
+  BookingStatus.CHECKED_IN
+];
+
+/**
+ * Nights of one room type gained or given back by a modification
+ */
+interface StayRange {
+  roomType: RoomType;
+  from: Date;
+  to: Date;
+}
+
+/**
+ * Validated modification ready to be applied
+ */
+export interface ModificationQuote {
+  modificationType: ModificationType;
+  previous: StayDetails;
+  next: StayDetails;
+  priceDelta: PriceDelta;
+  /** Nightly prices of the modified stay; null for bookings priced as a whole */
+  nightlyRates: NightlyRate[] | null;
+}
+
+/**
+ * Priced stay, totals covering every night
+ */
+interface PricedStay {
+  total: number;
+  baseRate: number;
+  breakdown: RateCalculationResult['breakdown'];
+  appliedRules: string[];
+}
+
+/**
+ * Service applying stay modifications
+ */
+@Injectable()
+export class StayModificationService {
+  private readonly logger = new Logger(StayModificationService.name);
+
+  constructor(
+    private readonly availabilityService: AvailabilityService,
+    private readonly pricingService: PricingService,
+    private readonly prisma: PrismaClient = reservationPrisma,
+    private readonly businessDates: BusinessDateService = new BusinessDateService(prisma),
+    private readonly inventory: InventoryService = new InventoryService(prisma),
+    private readonly roomAssignment: RoomAssignmentService = new RoomAssignmentService(prisma, businessDates),
+    private readonly stayRestrictions: StayRestrictionService = new StayRestrictionService(prisma),
+    private readonly waitlist?: WaitlistService,
+    private readonly folioPosting: FolioPostingService = new FolioPostingService(prisma, businessDates)
+  ) {}
+
+  /**
+   * Validates and prices a stay change without applying it
+   * @param bookingId - Booking ID
+   * @param changes - Requested stay change
+   * @throws ErrorCode.VALIDATION_ERROR if the change is empty or the dates are invalid
+   * @throws ErrorCode.BUSINESS_RULE_VIOLATION if the booking cannot be modified
+   * @throws ErrorCode.RESOURCE_CONFLICT if the added nights or requested room are not available
+   */
+  async quote(bookingId: string, changes: ModifyStayDto): Promise<ModificationQuote> {
+    const booking = await this.getBooking(bookingId);
+    const businessDate = await this.businessDates.getBusinessDate();
+    return this.prepare(booking, changes, businessDate);
+  }
+
+  /**
+   * Applies a stay change: adjusts room-type inventory, reprices the stay, posts the difference
+   * to the folio routing picks and records the modification
+   * @param bookingId - Booking ID
+   * @param changes - Requested stay change
+   * @param userId - User making the change
+   * @throws ErrorCode.RESOURCE_CONFLICT if the booking changed concurrently or inventory ran out
+   * @throws ErrorCode.BUSINESS_RULE_VIOLATION if the difference would take the folio over its credit limit
+   */
+  async modify(bookingId: string, changes: ModifyStayDto, userId: string): Promise<ReservationModification> {
+    const booking = await this.getBooking(bookingId);
+    const businessDate = await this.businessDates.getBusinessDate();
+    const quote = await this.prepare(booking, changes, businessDate);
+    const { added, released } = this.inventoryChanges(quote.previous, quote.next, businessDate);
+
+    const { recorded: modification, charge } = await this.prisma.$transaction(async (tx) => {
+      // Guard on the version read so two concurrent modifications cannot both apply
+      const { count } = await tx.booking.updateMany({
+        where: { id: booking.id, updatedAt: booking.updatedAt },
+        data: {
+          ...quote.next,
+          totalAmount: quote.priceDelta.newAmount,
+          taxAmount: this.round(Number(booking.taxAmount || 0) + quote.priceDelta.taxDifference),
+          lastModifiedBy: userId,
+          updatedAt: new Date(),
+          auditTrail: [
+            ...booking.auditTrail,
+            {
+              timestamp: new Date(),
+              action: 'STAY_MODIFIED',
+              userId,
+              changes: {
+                modificationType: quote.modificationType,
+                ...this.changedFields(quote.previous, quote.next).newValue,
+                priceDifference: quote.priceDelta.difference
+              }
+            }
+          ]
+        }
+      });
+
+      if (count === 0) {
+        throw createErrorDetails(ErrorCode.RESOURCE_CONFLICT, {
+          message: 'Booking was modified concurrently',
+          bookingId
+        });
+      }
+
+      for (const range of released) {
+        await this.inventory.release(range.roomType, range.from, range.to, 1, tx);
+      }
+      for (const range of added) {
+        await this.inventory.allocate(range.roomType, range.from, range.to, 1, tx);
+      }
+
+      if (quote.nightlyRates) {
+        await this.replaceNightlyRates(tx, booking, quote.nightlyRates);
+      }
+
+      const charge = await this.postDifference(tx, booking, quote, businessDate);
+      const { previousValue, newValue } = this.changedFields(quote.previous, quote.next);
+
+      const recorded = await tx.reservationModification.create({
+        data: {
+          reservationId: booking.id,
+          modificationType: quote.modificationType,
+          previousValue,
+          newValue,
+          modifiedBy: userId,
+          modifiedAt: new Date(),
+          reason: changes.reason,
+          priceDelta: quote.priceDelta,
+          folioChargeId: charge?.id ?? null
+        }
+      }) as ReservationModification;
+
+      return { recorded, charge };
+    });
+
+    this.logger.log(
+      `Booking ${booking.bookingNumber} modified (${quote.modificationType}), difference ${quote.priceDelta.difference}`
+    );
+    if (charge) {
+      await this.folioPosting.recordPostings([charge.folioId]);
+    }
+
+    // Nights given back go to the waitlist; a failed offer does not undo the modification
+    if (this.waitlist) {
+      for (const range of released) {
+        try {
+          await this.waitlist.offerReleasedInventory(range.roomType, range.from, range.to, userId);
+        } catch (error) {
+          this.logger.error(`Waitlist offer after modifying ${booking.id} failed: ${error.message || error.code}`);
+        }
+      }
+    }
+
+    return modification;
+  }
+
+  /**
+   * Lists the modifications recorded for a booking, newest first
+   * @param bookingId - Booking ID
+   */
+  async findModifications(bookingId: string): Promise<ReservationModification[]> {
+    return this.prisma.reservationModification.findMany({
+      where: { reservationId: bookingId },
+      orderBy: { modifiedAt: 'desc' }
+    }) as Promise<ReservationModification[]>;
+  }
+
+  /**
+   * Builds the modified stay, enforces the modification rules, checks availability and the
+   * physical room and prices the difference
+   */
+  private async prepare(booking: Booking, changes: ModifyStayDto, businessDate: Date): Promise<ModificationQuote> {
+    if (!MODIFIABLE_STATUSES.includes(booking.status)) {
+      throw createErrorDetails(ErrorCode.BUSINESS_RULE_VIOLATION, {
+        message: `Cannot modify a ${booking.status.toLowerCase()} booking`,
+        bookingId: booking.id
+      });
+    }
+
+    const previous: StayDetails = {
+      checkInDate: booking.checkInDate,
+      checkOutDate: booking.checkOutDate,
+      roomType: booking.roomType,
+      roomId: booking.roomId,
+      rateId: booking.rateId,
+      numberOfGuests: booking.numberOfGuests
+    };
+    const next: StayDetails = {
+      checkInDate: changes.checkInDate ?? previous.checkInDate,
+      checkOutDate: changes.checkOutDate ?? previous.checkOutDate,
+      roomType: changes.roomType ?? previous.roomType,
+      roomId: changes.roomId ?? previous.roomId,
+      rateId: changes.rateId ?? previous.rateId,
+      numberOfGuests: changes.numberOfGuests ?? previous.numberOfGuests
+    };
+
+    const datesChanged = next.checkInDate.getTime() !== previous.checkInDate.getTime() ||
+      next.checkOutDate.getTime() !== previous.checkOutDate.getTime();
+    const typeChanged = next.roomType !== previous.roomType;
+
+    this.validateStay(booking, previous, next, businessDate, typeChanged, changes);
+
+    if ((datesChanged || typeChanged) && booking.groupBlockId) {
+      const block = await this.prisma.groupBlock.findUnique({
+        where: { id: booking.groupBlockId },
+        select: { status: true }
+      });
+      if (block?.status === GroupBlockStatus.ACTIVE) {
+        throw createErrorDetails(ErrorCode.BUSINESS_RULE_VIOLATION, {
+          message: 'Dates and room type of a group booking are set by its block until the cutoff',
+          bookingId: booking.id
+        });
+      }
+    }
+
+    if (datesChanged || typeChanged || next.rateId !== previous.rateId) {
+      await this.checkRestrictions(booking, previous, next);
+    }
+
+    const { added } = this.inventoryChanges(previous, next, businessDate);
+    for (const range of added) {
+      const isAvailable = await this.availabilityService.validateRoomTypeAvailability(
+        range.roomType,
+        range.from,
+        range.to
+      ).toPromise();
+
+      if (!isAvailable) {
+        throw createErrorDetails(ErrorCode.RESOURCE_CONFLICT, {
+          message: `${range.roomType} is sold out for the added nights`,
+          from: format(range.from, 'yyyy-MM-dd'),
+          to: format(range.to, 'yyyy-MM-dd')
+        });
+      }
+    }
+
+    next.roomId = await this.resolveRoom(booking, next, changes);
+
+    if (booking.nightlyRates?.length) {
+      const nightlyRates = await this.repriceNights(booking, previous, next, businessDate);
+      return {
+        modificationType: this.modificationType(previous, next, changes),
+        previous,
+        next,
+        priceDelta: this.nightlyPriceDelta(booking, booking.nightlyRates, nightlyRates),
+        nightlyRates
+      };
+    }
+
+    return {
+      modificationType: this.modificationType(previous, next, changes),
+      previous,
+      next,
+      priceDelta: await this.priceDelta(booking, previous, next),
+      nightlyRates: null
+    };
+  }
+
+  /**
+   * Checks the modified stay against the restriction calendar. Closed to arrival or departure
+   * only matter when the modification moves that date.
+   */
+  private async checkRestrictions(booking: Booking, previous: StayDetails, next: StayDetails): Promise<void> {
+    const arrivalMoved = next.checkInDate.getTime() !== previous.checkInDate.getTime();
+    const departureMoved = next.checkOutDate.getTime() !== previous.checkOutDate.getTime();
+
+    const violations = (await this.stayRestrictions.findViolations({
+      rateId: next.rateId,
+      roomType: next.roomType,
+      checkInDate: next.checkInDate,
+      checkOutDate: next.checkOutDate,
+      channel: booking.bookingSource
+    })).filter(violation =>
+      (violation.restriction !== StayRestrictionType.CLOSED_TO_ARRIVAL || arrivalMoved) &&
+      (violation.restriction !== StayRestrictionType.CLOSED_TO_DEPARTURE || departureMoved)
+    );
+
+    if (violations.length > 0) {
+      throw createErrorDetails(ErrorCode.BUSINESS_RULE_VIOLATION, {
+        message: violations.map(violation => violation.message).join('; '),
+        bookingId: booking.id,
+        violations
+      });
+    }
+  }
+
+  private validateStay(
+    booking: Booking,
+    previous: StayDetails,
+    next: StayDetails,
+    businessDate: Date,
+    typeChanged: boolean,
+    changes: ModifyStayDto
+  ): void {
+    const changed = Object.keys(this.changedFields(previous, next).newValue).length > 0;
+    if (!changed) {
+      throw createErrorDetails(ErrorCode.VALIDATION_ERROR, {
+        message: 'No stay change requested',
+        bookingId: booking.id
+      });
+    }
+
+    if (next.checkOutDate <= next.checkInDate) {
+      throw createErrorDetails(ErrorCode.VALIDATION_ERROR, {
+        message: 'Check-out must be after check-in',
+        bookingId: booking.id
+      });
+    }
+
+    if (typeChanged && !changes.rateId) {
+      throw createErrorDetails(ErrorCode.VALIDATION_ERROR, {
+        message: 'A rate for the new room type is required',
+        roomType: next.roomType
+      });
+    }
+
+    if (booking.status === BookingStatus.CHECKED_IN) {
+      if (next.checkInDate.getTime() !== previous.checkInDate.getTime()) {
+        throw createErrorDetails(ErrorCode.BUSINESS_RULE_VIOLATION, {
+          message: 'Cannot change the arrival date of an in-house booking',
+          bookingId: booking.id
+        });
+      }
+      if (next.checkOutDate <= businessDate) {
+        throw createErrorDetails(ErrorCode.VALIDATION_ERROR, {
+          message: 'In-house stays must depart after the business date',
+          businessDate: format(businessDate, 'yyyy-MM-dd')
+        });
+      }
+    } else if (next.checkInDate < businessDate) {
+      throw createErrorDetails(ErrorCode.VALIDATION_ERROR, {
+        message: 'Arrival must be on or after the business date',
+        businessDate: format(businessDate, 'yyyy-MM-dd')
+      });
+    }
+  }
+
+  /**
+   * Checks the requested room, or that the assigned room still fits the modified stay. An
+   * assigned room that no longer fits is cleared so the assignment engine picks another; an
+   * in-house guest has to be moved explicitly.
+   */
+  private async resolveRoom(booking: Booking, next: StayDetails, changes: ModifyStayDto): Promise<StayDetails['roomId']> {
+    const candidate = { ...booking, ...next };
+
+    if (changes.roomId) {
+      await this.roomAssignment.checkRoom(candidate, changes.roomId);
+      return changes.roomId;
+    }
+
+    if (!booking.roomId) {
+      return null;
+    }
+
+    try {
+      await this.roomAssignment.checkRoom(candidate, booking.roomId);
+      return booking.roomId;
+    } catch (error) {
+      if (error.code !== ErrorCode.BUSINESS_RULE_VIOLATION) {
+        throw error;
+      }
+      if (booking.status === BookingStatus.CHECKED_IN) {
+        throw createErrorDetails(ErrorCode.RESOURCE_CONFLICT, {
+          message: 'The guest\'s room is not available for the modified stay; move the guest to another room',
+          bookingId: booking.id,
+          roomId: booking.roomId
+        });
+      }
+      return null;
+    }
+  }
+
+  /**
+   * Prices the current and the modified stay under the same conditions and applies the
+   * difference to the booking's current amount, so earlier negotiated prices are kept
+   */
+  private async priceDelta(booking: Booking, previous: StayDetails, next: StayDetails): Promise<PriceDelta> {
+    const occupancy = await this.availabilityService.getCurrentOccupancy();
+    const [before, after] = await Promise.all([
+      this.priceStay(previous, occupancy, booking),
+      this.priceStay(next, occupancy, booking)
+    ]);
+
+    const difference = this.round(after.total - before.total);
+
+    return {
+      previousAmount: Number(booking.totalAmount || 0),
+      newAmount: this.round(Number(booking.totalAmount || 0) + difference),
+      difference,
+      taxDifference: this.round(after.breakdown.taxes - before.breakdown.taxes),
+      baseRateDifference: this.round(after.baseRate - before.baseRate),
+      breakdown: {
+        seasonalAdjustment: this.round(after.breakdown.seasonalAdjustment - before.breakdown.seasonalAdjustment),
+        occupancyAdjustment: this.round(after.breakdown.occupancyAdjustment - before.breakdown.occupancyAdjustment),
+        losAdjustment: this.round(after.breakdown.losAdjustment - before.breakdown.losAdjustment),
+        yieldAdjustment: this.round(after.breakdown.yieldAdjustment - before.breakdown.yieldAdjustment),
+        promotionAdjustment: this.round(after.breakdown.promotionAdjustment - before.breakdown.promotionAdjustment),
+        channelMarkup: this.round(after.breakdown.channelMarkup - before.breakdown.channelMarkup),
+        taxes: this.round(after.breakdown.taxes - before.breakdown.taxes)
+      },
+      appliedRules: after.appliedRules
+    };
+  }
+
+  /**
+   * Builds the nightly prices of the modified stay. Nights before the business date and nights
+   * kept on the same rate and guest count keep their stored price; the other nights are priced on
+   * the rate as it stands, with the promotion codes the booking was made with.
+   */
+  private async repriceNights(
+    booking: Booking,
+    previous: StayDetails,
+    next: StayDetails,
+    businessDate: Date
+  ): Promise<NightlyRate[]> {
+    const stored = new Map((booking.nightlyRates || []).map(rate => [format(rate.date, 'yyyy-MM-dd'), rate]));
+    const nights = Array.from(
+      { length: differenceInCalendarDays(next.checkOutDate, next.checkInDate) },
+      (_, index) => addDays(next.checkInDate, index)
+    );
+
+    const kept = (night: Date): ReservationRate | undefined => {
+      const rate = stored.get(format(night, 'yyyy-MM-dd'));
+      const unchanged = rate?.rateId === next.rateId && next.numberOfGuests === previous.numberOfGuests;
+      return rate && (night < businessDate || unchanged) ? rate : undefined;
+    };
+
+    let repriced: NightlyRate[] = [];
+    if (nights.some(night => !kept(night))) {
+      repriced = (await this.pricingService.calculateNightlyRates(
+        next.rateId,
+        next.checkInDate,
+        next.checkOutDate,
+        await this.availabilityService.getCurrentOccupancy(),
+        booking.bookingSource,
+        promotionModifiers(booking.promoRedemptions || []),
+        next.numberOfGuests
+      ).toPromise()) ?? [];
+    }
+
+    return nights.map(night => {
+      const rate = kept(night) || repriced.find(candidate => isSameDay(candidate.date, night));
+      if (!rate) {
+        throw createErrorDetails(ErrorCode.INTERNAL_SERVER_ERROR, {
+          message: `No price for ${format(night, 'yyyy-MM-dd')}`,
+          bookingId: booking.id
+        });
+      }
+      return {
+        rateId: rate.rateId,
+        date: rate.date,
+        baseRate: rate.baseRate,
+        adjustmentAmount: rate.adjustmentAmount,
+        adjustmentReason: rate.adjustmentReason,
+        taxRate: rate.taxRate,
+        taxAmount: rate.taxAmount,
+        taxLines: rate.taxLines,
+        totalRate: rate.totalRate,
+        currencyCode: rate.currencyCode,
+        breakdown: rate.breakdown
+      };
+    });
+  }
+
+  /**
+   * Differences between the stored and the modified stay's nightly prices
+   */
+  private nightlyPriceDelta(booking: Booking, previous: NightlyRate[], next: NightlyRate[]): PriceDelta {
+    const sum = (rates: NightlyRate[], amount: (rate: NightlyRate) => number) =>
+      rates.reduce((total, rate) => total + amount(rate), 0);
+    const delta = (amount: (rate: NightlyRate) => number) =>
+      this.round(sum(next, amount) - sum(previous, amount));
+
+    const difference = delta(rate => rate.totalRate);
+
+    return {
+      previousAmount: Number(booking.totalAmount || 0),
+      newAmount: this.round(Number(booking.totalAmount || 0) + difference),
+      difference,
+      taxDifference: delta(rate => rate.taxAmount),
+      baseRateDifference: delta(rate => rate.baseRate),
+      breakdown: {
+        seasonalAdjustment: delta(rate => rate.breakdown.seasonalAdjustment),
+        occupancyAdjustment: delta(rate => rate.breakdown.occupancyAdjustment),
+        losAdjustment: delta(rate => rate.breakdown.losAdjustment),
+        yieldAdjustment: delta(rate => rate.breakdown.yieldAdjustment || 0),
+        promotionAdjustment: delta(rate => rate.breakdown.promotionAdjustment || 0),
+        channelMarkup: delta(rate => rate.breakdown.channelMarkup),
+        taxes: delta(rate => rate.breakdown.taxes)
+      },
+      appliedRules: Array.from(new Set(
+        next.flatMap(rate => rate.adjustmentReason ? rate.adjustmentReason.split(', ') : [])
+      ))
+    };
+  }
+
+  /**
+   * Stores the modified stay's nightly prices in place of the current ones
+   */
+  private async replaceNightlyRates(
+    tx: Prisma.TransactionClient,
+    booking: Booking,
+    nightlyRates: NightlyRate[]
+  ): Promise<void> {
+    await tx.reservationRate.deleteMany({ where: { reservationId: booking.id } });
+    await tx.reservationRate.createMany({
+      data: nightlyRates.map(rate => ({ ...rate, reservationId: booking.id }))
+    });
+  }
+
+  /**
+   * Prices every night of a stay with the booking's promotion codes; the pricing service quotes one night
+   */
+  private async priceStay(stay: StayDetails, occupancy: number, booking: Booking): Promise<PricedStay> {
+    const nights = differenceInCalendarDays(stay.checkOutDate, stay.checkInDate);
+    const rate = await this.pricingService.calculateRoomRate(
+      stay.rateId,
+      stay.checkInDate,
+      stay.checkOutDate,
+      occupancy,
+      booking.bookingSource,
+      promotionModifiers(booking.promoRedemptions || []),
+      stay.numberOfGuests
+    ).toPromise();
+    if (!rate) {
+      throw createErrorDetails(ErrorCode.INTERNAL_SERVER_ERROR, {
+        message: 'No price for the modified stay',
+        bookingId: booking.id
+      });
+    }
+
+    return {
+      total: rate.finalRate * nights,
+      baseRate: rate.baseRate * nights,
+      breakdown: {
+        seasonalAdjustment: rate.breakdown.seasonalAdjustment * nights,
+        occupancyAdjustment: rate.breakdown.occupancyAdjustment * nights,
+        losAdjustment: rate.breakdown.losAdjustment * nights,
+        yieldAdjustment: rate.breakdown.yieldAdjustment * nights,
+        promotionAdjustment: (rate.breakdown.promotionAdjustment || 0) * nights,
+        channelMarkup: rate.breakdown.channelMarkup * nights,
+        taxes: rate.breakdown.taxes * nights
+      },
+      appliedRules: rate.appliedRules
+    };
+  }
+
+  /**
+   * Posts the price difference to the folio the booking routes room charges to. Nothing is posted
+   * for bookings carrying nightly prices: the night audit posts each remaining night at its new price.
+   * @returns Posted charge, or null when nothing was posted
+   */
+  private async postDifference(
+    tx: Prisma.TransactionClient,
+    booking: Booking,
+    quote: ModificationQuote,
+    businessDate: Date
+  ): Promise<FolioCharge | null> {
+    if (quote.priceDelta.difference === 0 || quote.nightlyRates) {
+      return null;
+    }
+
+    const folio = await tx.folio.findFirst({
+      where: { reservationId: booking.id, status: FolioStatus.OPEN, isMainFolio: true }
+    });
+    if (!folio) {
+      return null;
+    }
+
+    const taxAmount = new Prisma.Decimal(quote.priceDelta.taxDifference);
+
+    return this.folioPosting.postCharge(folio as Folio, {
+      description: `Stay modification: ${quote.modificationType.toLowerCase().replace(/_/g, ' ')}`,
+      amount: new Prisma.Decimal(quote.priceDelta.difference).minus(taxAmount),
+      taxAmount,
+      category: ROOM_CHARGE_CATEGORY,
+      department: ROOM_CHARGE_DEPARTMENT,
+      postingDate: businessDate,
+      reference: `${STAY_MODIFICATION_REFERENCE_PREFIX}-${booking.bookingNumber}-${Date.now().toString(36).toUpperCase()}`,
+      notes: `Repriced from ${quote.priceDelta.previousAmount} to ${quote.priceDelta.newAmount}`
+    }, tx);
+  }
+
+  /**
+   * Nights to take from and give back to room-type inventory. Nights before the business date
+   * are already consumed and never change hands.
+   */
+  private inventoryChanges(
+    previous: StayDetails,
+    next: StayDetails,
+    businessDate: Date
+  ): { added: StayRange[]; released: StayRange[] } {
+    const clamp = (roomType: RoomType, from: Date, to: Date): StayRange[] => {
+      const start = max([from, businessDate]);
+      return start < to ? [{ roomType, from: start, to }] : [];
+    };
+
+    if (previous.roomType !== next.roomType) {
+      return {
+        added: clamp(next.roomType, next.checkInDate, next.checkOutDate),
+        released: clamp(previous.roomType, previous.checkInDate, previous.checkOutDate)
+      };
+    }
+
+    const roomType = next.roomType;
+    const earliest = (a: Date, b: Date) => a < b ? a : b;
+    const latest = (a: Date, b: Date) => a > b ? a : b;
+
+    return {
+      added: [
+        ...clamp(roomType, next.checkInDate, earliest(previous.checkInDate, next.checkOutDate)),
+        ...clamp(roomType, latest(previous.checkOutDate, next.checkInDate), next.checkOutDate)
+      ],
+      released: [
+        ...clamp(roomType, previous.checkInDate, earliest(next.checkInDate, previous.checkOutDate)),
+        ...clamp(roomType, latest(next.checkOutDate, previous.checkInDate), previous.checkOutDate)
+      ]
+    };
+  }
+
+  /**
+   * Classifies the change from what was requested; a room cleared because it no longer fits the
+   * modified stay is a side effect, not a room move
+   */
+  private modificationType(previous: StayDetails, next: StayDetails, changes: ModifyStayDto): ModificationType {
+    const previousNights = differenceInCalendarDays(previous.checkOutDate, previous.checkInDate);
+    const nextNights = differenceInCalendarDays(next.checkOutDate, next.checkInDate);
+
+    if (nextNights > previousNights) {
+      return ModificationType.EXTEND;
+    }
+    if (nextNights < previousNights) {
+      return ModificationType.SHORTEN;
+    }
+    if (next.checkInDate.getTime() !== previous.checkInDate.getTime()) {
+      return ModificationType.SHIFT_DATES;
+    }
+    if (next.roomType !== previous.roomType || (changes.roomId && changes.roomId !== previous.roomId)) {
+      return ModificationType.ROOM_MOVE;
+    }
+    return ModificationType.GUEST_COUNT_CHANGE;
+  }
+
+  /**
+   * Splits two stays into the fields that differ, keyed the same on both sides
+   */
+  private changedFields(
+    previous: StayDetails,
+    next: StayDetails
+  ): { previousValue: Partial<StayDetails>; newValue: Partial<StayDetails> } {
+    const previousValue: Record<string, unknown> = {};
+    const newValue: Record<string, unknown> = {};
+
+    for (const key of Object.keys(next) as (keyof StayDetails)[]) {
+      const before = previous[key] instanceof Date ? (previous[key] as Date).getTime() : previous[key];
+      const after = next[key] instanceof Date ? (next[key] as Date).getTime() : next[key];
+      if (before !== after) {
+        previousValue[key] = previous[key];
+        newValue[key] = next[key];
+      }
+    }
+
+    return { previousValue, newValue } as { previousValue: Partial<StayDetails>; newValue: Partial<StayDetails> };
+  }
+
+  private async getBooking(bookingId: string): Promise<Booking> {
+    const booking = await this.prisma.booking.findUnique({
+      where: { id: bookingId },
+      include: {
+        nightlyRates: { orderBy: { date: 'asc' } },
+        promoRedemptions: { where: { status: PromoRedemptionStatus.REDEEMED } }
+      }
+    }) as Booking | null;
+
+    if (!booking) {
+      throw createErrorDetails(ErrorCode.RESOURCE_NOT_FOUND, {
+        message: 'Booking not found',
+        bookingId
+      });
+    }
+
+    return booking;
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+}
@@ -0,0 +1,282 @@
+/**
+ * @fileoverview Stay restriction service maintaining the per-date restriction calendar of each
+ * rate and room type and checking stays against it and against the booking channel's rule.
+ * Calendar changes are queued for the distribution channels.
+ * @version 1.0.0
+ */
+
+// External imports
+import { Injectable, Logger } from '@nestjs/common'; // v10.0.0
+import { PrismaClient } from '@prisma/client'; // v5.0.0
+import { differenceInCalendarDays, eachDayOfInterval, format, isSameDay, startOfDay } from 'date-fns'; // v2.30.0
+
+// Internal imports
+import { prisma as reservationPrisma } from '../config/database';
+import { Rate } from '../models/rate.model';
+import {
+  RestrictedStay,
+  RestrictionViolation,
+  SetStayRestrictionsDto,
+  StayRestriction,
+  StayRestrictionType
+} from '../models/stay-restriction.model';
+import { AriUpdateType } from '../models/channel.model';
+import { ChannelOutboxService } from './channel-outbox.service';
+import { RoomType } from '../../../room-service/src/models/room.model';
+import { ErrorCode, createErrorDetails } from '../../../shared/constants/error-codes';
+
+/**
+ * Longest range a single restriction update may cover
+ */
+const MAX_RESTRICTION_RANGE_DAYS = 366;
+
+/**
+ * Restriction values applying to one date, from the calendar or a channel rule
+ */
+interface RestrictionValues {
+  minimumLOS?: number | null;
+  maximumLOS?: number | null;
+  closedToArrival?: boolean;
+  closedToDeparture?: boolean;
+}
+
+/**
+ * Service managing and enforcing stay restrictions
+ */
+@Injectable()
+export class StayRestrictionService {
+  private readonly logger = new Logger(StayRestrictionService.name);
+
+  constructor(
+    private readonly prisma: PrismaClient = reservationPrisma,
+    private readonly outbox: ChannelOutboxService = new ChannelOutboxService(prisma)
+  ) {}
+
+  /**
+   * Sets restrictions on every date of a range; restrictions left out of the request keep their value
+   * @param data - Rate, room type, date range and restriction values
+   * @param userId - Revenue manager making the change
+   * @throws ErrorCode.VALIDATION_ERROR if the range or the length-of-stay limits are invalid
+   */
+  async setRestrictions(data: SetStayRestrictionsDto, userId: string): Promise<StayRestriction[]> {
+    const startDate = startOfDay(data.startDate);
+    const endDate = startOfDay(data.endDate);
+    const rangeDays = differenceInCalendarDays(endDate, startDate) + 1;
+
+    if (rangeDays < 1 || rangeDays > MAX_RESTRICTION_RANGE_DAYS) {
+      throw createErrorDetails(ErrorCode.VALIDATION_ERROR, {
+        message: `Restriction range must cover 1 to ${MAX_RESTRICTION_RANGE_DAYS} days`,
+        startDate: data.startDate,
+        endDate: data.endDate
+      });
+    }
+
+    if (data.minimumLOS && data.maximumLOS && data.maximumLOS < data.minimumLOS) {
+      throw createErrorDetails(ErrorCode.VALIDATION_ERROR, {
+        message: 'Maximum length of stay cannot be shorter than the minimum',
+        minimumLOS: data.minimumLOS,
+        maximumLOS: data.maximumLOS
+      });
+    }
+
+    const values: RestrictionValues = {
+      minimumLOS: data.minimumLOS,
+      maximumLOS: data.maximumLOS,
+      closedToArrival: data.closedToArrival,
+      closedToDeparture: data.closedToDeparture
+    };
+    const changes = Object.fromEntries(Object.entries(values).filter(([, value]) => value !== undefined));
+
+    const dates = eachDayOfInterval({ start: startDate, end: endDate })
+      .filter(date => !data.daysOfWeek?.length || data.daysOfWeek.includes(date.getDay()));
+
+    await this.prisma.$transaction(async (tx) => {
+      for (const date of dates) {
+        await tx.stayRestriction.upsert({
+          where: { rateId_roomType_date: { rateId: data.rateId, roomType: data.roomType, date } },
+          update: { ...changes, updatedBy: userId, updatedAt: new Date() },
+          create: {
+            rateId: data.rateId,
+            roomType: data.roomType,
+            date,
+            minimumLOS: null,
+            maximumLOS: null,
+            closedToArrival: false,
+            closedToDeparture: false,
+            ...changes,
+            updatedBy: userId
+          }
+        });
+      }
+
+      await this.outbox.queue({
+        type: AriUpdateType.RESTRICTION,
+        rateId: data.rateId,
+        roomType: data.roomType,
+        startDate,
+        endDate
+      }, tx);
+    });
+
+    this.logger.log(
+      `Restrictions set on ${dates.length} date(s) of rate ${data.rateId} ${data.roomType} by ${userId}`,
+      changes
+    );
+
+    return this.getCalendar(data.rateId, data.roomType, startDate, endDate);
+  }
+
+  /**
+   * Returns the restriction calendar of a rate between two dates, inclusive
+   * @param rateId - Rate ID
+   * @param roomType - Room type; every room type when omitted
+   * @param startDate - First date
+   * @param endDate - Last date
+   */
+  async getCalendar(rateId: string, roomType: RoomType | undefined, startDate: Date, endDate: Date): Promise<StayRestriction[]> {
+    return this.prisma.stayRestriction.findMany({
+      where: {
+        rateId,
+        ...(roomType && { roomType }),
+        date: { gte: startOfDay(startDate), lte: startOfDay(endDate) }
+      },
+      orderBy: [{ date: 'asc' }, { roomType: 'asc' }]
+    }) as Promise<StayRestriction[]>;
+  }
+
+  /**
+   * Removes the restrictions of a rate and room type between two dates, inclusive
+   * @returns Number of dates cleared
+   */
+  async clearRestrictions(rateId: string, roomType: RoomType, startDate: Date, endDate: Date, userId: string): Promise<number> {
+    const count = await this.prisma.$transaction(async (tx) => {
+      const { count: deleted } = await tx.stayRestriction.deleteMany({
+        where: {
+          rateId,
+          roomType,
+          date: { gte: startOfDay(startDate), lte: startOfDay(endDate) }
+        }
+      });
+
+      if (deleted > 0) {
+        await this.outbox.queue({ type: AriUpdateType.RESTRICTION, rateId, roomType, startDate, endDate }, tx);
+      }
+      return deleted;
+    });
+
+    this.logger.log(`Restrictions cleared on ${count} date(s) of rate ${rateId} ${roomType} by ${userId}`);
+    return count;
+  }
+
+  /**
+   * Lists the restrictions a stay fails, keeping the strictest of each kind
+   * @param stay - Rate, room type, dates and channel of the stay
+   */
+  async findViolations(stay: RestrictedStay): Promise<RestrictionViolation[]> {
+    const checkIn = startOfDay(stay.checkInDate);
+    const checkOut = startOfDay(stay.checkOutDate);
+    const nights = differenceInCalendarDays(checkOut, checkIn);
+
+    const rows = await this.prisma.stayRestriction.findMany({
+      where: {
+        rateId: stay.rateId,
+        ...(stay.roomType && { roomType: stay.roomType }),
+        date: { gte: checkIn, lte: checkOut }
+      }
+    }) as StayRestriction[];
+
+    const violations = new Map<StayRestrictionType, RestrictionViolation>();
+    for (const row of rows) {
+      this.check(row, row.date, checkIn, checkOut, nights, violations);
+    }
+
+    // Restrictions of the booking channel's rule apply to every date of the rate
+    if (stay.channel) {
+      const rate = await this.prisma.rate.findUnique({ where: { id: stay.rateId } }) as Rate | null;
+      const restrictions = rate?.channelRules?.[stay.channel]?.restrictions;
+      if (restrictions) {
+        this.check({
+          minimumLOS: restrictions.minimumLOS,
+          maximumLOS: restrictions.maximumLOS,
+          closedToArrival: restrictions.closedToArrival
+        }, checkIn, checkIn, checkOut, nights, violations);
+        this.check({ closedToDeparture: restrictions.closedToDeparture }, checkOut, checkIn, checkOut, nights, violations);
+      }
+    }
+
+    return Array.from(violations.values());
+  }
+
+  /**
+   * Checks a stay against the restriction calendar and channel rule
+   * @param stay - Rate, room type, dates and channel of the stay
+   * @throws ErrorCode.BUSINESS_RULE_VIOLATION naming each restriction the stay fails
+   */
+  async validateStay(stay: RestrictedStay): Promise<void> {
+    const violations = await this.findViolations(stay);
+
+    if (violations.length > 0) {
+      throw createErrorDetails(ErrorCode.BUSINESS_RULE_VIOLATION, {
+        message: violations.map(violation => violation.message).join('; '),
+        rateId: stay.rateId,
+        roomType: stay.roomType,
+        violations
+      });
+    }
+  }
+
+  /**
+   * Adds the violations of one date's restrictions, replacing a less strict one of the same kind
+   */
+  private check(
+    values: RestrictionValues,
+    date: Date,
+    checkIn: Date,
+    checkOut: Date,
+    nights: number,
+    violations: Map<StayRestrictionType, RestrictionViolation>
+  ): void {
+    const day = format(date, 'yyyy-MM-dd');
+    const isNight = date >= checkIn && date < checkOut;
+
+    if (isNight && values.minimumLOS && nights < values.minimumLOS) {
+      const current = violations.get(StayRestrictionType.MINIMUM_LOS);
+      if (!current || (current.limit as number) < values.minimumLOS) {
+        violations.set(StayRestrictionType.MINIMUM_LOS, {
+          restriction: StayRestrictionType.MINIMUM_LOS,
+          date,
+          limit: values.minimumLOS,
+          message: `Minimum stay of ${values.minimumLOS} nights applies on ${day}`
+        });
+      }
+    }
+
+    if (isNight && values.maximumLOS && nights > values.maximumLOS) {
+      const current = violations.get(StayRestrictionType.MAXIMUM_LOS);
+      if (!current || (current.limit as number) > values.maximumLOS) {
+        violations.set(StayRestrictionType.MAXIMUM_LOS, {
+          restriction: StayRestrictionType.MAXIMUM_LOS,
+          date,
+          limit: values.maximumLOS,
+          message: `Maximum stay of ${values.maximumLOS} nights applies on ${day}`
+        });
+      }
+    }
+
+    if (values.closedToArrival && isSameDay(date, checkIn)) {
+      violations.set(StayRestrictionType.CLOSED_TO_ARRIVAL, {
+        restriction: StayRestrictionType.CLOSED_TO_ARRIVAL,
+        date,
+        message: `Arrival is closed on ${day}`
+      });
+    }
+
+    if (values.closedToDeparture && isSameDay(date, checkOut)) {
+      violations.set(StayRestrictionType.CLOSED_TO_DEPARTURE, {
+        restriction: StayRestrictionType.CLOSED_TO_DEPARTURE,
+        date,
+        message: `Departure is closed on ${day}`
+      });
+    }
+  }
+}
@@ -0,0 +1,522 @@
+/**
+ * @fileoverview Waitlist service placing guests on a prioritized waitlist for sold-out room types
+ * and offering released inventory to the next eligible entry with a timed hold.
+ * @version 1.0.0
+ */
+
+// External imports
+import { Injectable, Logger } from '@nestjs/common'; // v10.0.0
+import { Prisma, PrismaClient } from '@prisma/client'; // v5.0.0
+import { addMinutes, format, max } from 'date-fns'; // v2.30.0
+import { randomUUID } from 'crypto';
+
+// Internal imports
+import { prisma as reservationPrisma } from '../config/database';
+import { Booking, BookingStatus, PaymentStatus } from '../models/booking.model';
+import { summarizeNightlyRates } from '../models/reservation-rate.model';
+import {
+  CreateWaitlistEntryDto,
+  WaitlistEntry,
+  WaitlistStatus,
+  DEFAULT_WAITLIST_HOLD_MINUTES
+} from '../models/waitlist.model';
+import { RoomType } from '../../../room-service/src/models/room.model';
+import { AvailabilityService } from './availability.service';
+import { InventoryService } from './inventory.service';
+import { PaymentScheduleService } from './payment-schedule.service';
+import { PricingService } from './pricing.service';
+import {
+  NotificationSender,
+  NotificationType,
+  NotificationPriority,
+  DeliveryStatus
+} from '../../../shared/interfaces/notification.interface';
+import { WebSocketNamespaces } from '../../../websocket-service/src/config/websocket';
+import { BusinessDateService } from '../../../shared/services/business-date.service';
+import { ErrorCode, createErrorDetails } from '../../../shared/constants/error-codes';
+
+/**
+ * User recorded on changes made by the hold expiry job
+ */
+export const WAITLIST_USER = 'WAITLIST';
+
+/**
+ * Filter for listing waitlist entries
+ */
+export interface WaitlistFilter {
+  roomType?: RoomType;
+  status?: WaitlistStatus;
+}
+
+/**
+ * Service managing the waitlist and its offers
+ */
+@Injectable()
+export class WaitlistService {
+  private readonly logger = new Logger(WaitlistService.name);
+  private readonly holdMinutes = Number(process.env.WAITLIST_HOLD_MINUTES) || DEFAULT_WAITLIST_HOLD_MINUTES;
+  private expiryTimer: NodeJS.Timeout | null = null;
+
+  constructor(
+    private readonly notifications: NotificationSender,
+    private readonly pricingService: PricingService,
+    private readonly availabilityService: AvailabilityService,
+    private readonly prisma: PrismaClient = reservationPrisma,
+    private readonly businessDates: BusinessDateService = new BusinessDateService(prisma),
+    private readonly inventory: InventoryService = new InventoryService(prisma),
+    private readonly paymentSchedules: PaymentScheduleService = new PaymentScheduleService(prisma, businessDates)
+  ) {}
+
+  /**
+   * Places a guest on the waitlist with a booking in `WAITING_LIST` status. The booking is
+   * priced when the guest accepts an offer.
+   * @param data - Requested room type, stay and priority
+   * @param userId - User creating the entry
+   * @throws ErrorCode.VALIDATION_ERROR if the stay starts before the business date
+   */
+  async joinWaitlist(data: CreateWaitlistEntryDto, userId: string): Promise<WaitlistEntry> {
+    const businessDate = await this.businessDates.getBusinessDate();
+
+    if (data.checkInDate < businessDate || data.checkOutDate <= data.checkInDate) {
+      throw createErrorDetails(ErrorCode.VALIDATION_ERROR, {
+        message: 'Waitlist stay must start on or after the business date and end after it starts',
+        businessDate: format(businessDate, 'yyyy-MM-dd')
+      });
+    }
+
+    return this.prisma.$transaction(async (tx) => {
+      const booking = await tx.booking.create({
+        data: {
+          guestId: data.guestId,
+          roomType: data.roomType,
+          roomId: null,
+          rateId: data.rateId,
+          bookingNumber: this.generateBookingNumber(),
+          status: BookingStatus.WAITING_LIST,
+          checkInDate: data.checkInDate,
+          checkOutDate: data.checkOutDate,
+          numberOfGuests: data.numberOfGuests,
+          totalAmount: 0,
+          taxAmount: 0,
+          bookingSource: data.bookingSource,
+          paymentStatus: PaymentStatus.UNPAID,
+          specialRequests: {},
+          isConfirmed: false,
+          lastModifiedBy: userId,
+          auditTrail: [{
+            timestamp: new Date(),
+            action: 'BOOKING_WAITLISTED',
+            userId,
+            changes: { status: BookingStatus.WAITING_LIST, roomType: data.roomType }
+          }],
+          createdAt: new Date(),
+          updatedAt: new Date()
+        }
+      });
+
+      return tx.waitlistEntry.create({
+        data: {
+          bookingId: booking.id,
+          guestId: data.guestId,
+          roomType: data.roomType,
+          checkInDate: data.checkInDate,
+          checkOutDate: data.checkOutDate,
+          numberOfGuests: data.numberOfGuests,
+          priority: data.priority ?? 0,
+          status: WaitlistStatus.WAITING,
+          offeredAt: null,
+          holdExpiresAt: null,
+          notes: data.notes,
+          createdBy: userId
+        }
+      }) as Promise<WaitlistEntry>;
+    });
+  }
+
+  /**
+   * Lists waitlist entries in offer order
+   * @param filter - Optional room type and status filter
+   */
+  async findEntries(filter: WaitlistFilter = {}): Promise<WaitlistEntry[]> {
+    return this.prisma.waitlistEntry.findMany({
+      where: {
+        roomType: filter.roomType,
+        status: filter.status
+      },
+      orderBy: [{ priority: 'desc' }, { createdAt: 'asc' }]
+    }) as Promise<WaitlistEntry[]>;
+  }
+
+  /**
+   * Offers room-type inventory released by a cancellation or no-show to the next eligible
+   * waitlist entry. An entry is eligible when it wants the released room type, overlaps the
+   * released dates and the room type has a room left on every night of its stay.
+   * @param roomType - Room type whose inventory was released
+   * @param releasedFrom - First released night
+   * @param releasedTo - Day after the last released night
+   * @param userId - User or job releasing the inventory
+   * @returns Entry that received the offer, or null if nobody is eligible
+   */
+  async offerReleasedInventory(
+    roomType: RoomType,
+    releasedFrom: Date,
+    releasedTo: Date,
+    userId: string
+  ): Promise<WaitlistEntry | null> {
+    const businessDate = await this.businessDates.getBusinessDate();
+    const from = max([releasedFrom, businessDate]);
+    if (from >= releasedTo) {
+      return null;
+    }
+
+    const candidates = await this.prisma.waitlistEntry.findMany({
+      where: {
+        status: WaitlistStatus.WAITING,
+        roomType,
+        checkInDate: { gte: businessDate, lt: releasedTo },
+        checkOutDate: { gt: from }
+      },
+      orderBy: [{ priority: 'desc' }, { createdAt: 'asc' }]
+    }) as WaitlistEntry[];
+
+    for (const entry of candidates) {
+      if (!(await this.inventory.hasAvailability(roomType, entry.checkInDate, entry.checkOutDate))) {
+        continue;
+      }
+
+      const offered = await this.offer(entry, userId);
+      if (offered) {
+        return offered;
+      }
+    }
+
+    this.logger.log(`No eligible waitlist entry for ${roomType} from ${format(from, 'yyyy-MM-dd')}`);
+    return null;
+  }
+
+  /**
+   * Accepts an open offer: prices every night of the stay, confirms the held booking with its
+   * nightly prices and schedules the deposits its rate requires
+   * @param entryId - Waitlist entry ID
+   * @param userId - User accepting the offer
+   * @throws ErrorCode.BUSINESS_RULE_VIOLATION if the entry has no open offer or the hold expired
+   */
+  async acceptOffer(entryId: string, userId: string): Promise<WaitlistEntry> {
+    const entry = await this.getEntry(entryId);
+    const offered = await this.prisma.booking.findUnique({ where: { id: entry.bookingId } }) as Booking;
+
+    const nightlyRates = await this.pricingService.calculateNightlyRates(
+      offered.rateId,
+      entry.checkInDate,
+      entry.checkOutDate,
+      await this.availabilityService.getCurrentOccupancy(),
+      offered.bookingSource,
+      undefined,
+      entry.numberOfGuests
+    ).toPromise();
+    if (!nightlyRates?.length) {
+      throw createErrorDetails(ErrorCode.INTERNAL_SERVER_ERROR, {
+        message: 'No price for the waitlisted stay',
+        entryId
+      });
+    }
+    const { totalAmount, taxAmount } = summarizeNightlyRates(nightlyRates);
+
+    return this.prisma.$transaction(async (tx) => {
+      // Guard on the open offer so a concurrent expiry cannot release the room being confirmed
+      const { count } = await tx.waitlistEntry.updateMany({
+        where: { id: entry.id, status: WaitlistStatus.OFFERED, holdExpiresAt: { gt: new Date() } },
+        data: { status: WaitlistStatus.ACCEPTED }
+      });
+
+      if (count === 0) {
+        throw createErrorDetails(ErrorCode.BUSINESS_RULE_VIOLATION, {
+          message: 'Waitlist entry has no open offer',
+          entryId,
+          status: entry.status
+        });
+      }
+
+      const booking = await tx.booking.findUnique({ where: { id: entry.bookingId } }) as Booking;
+      await tx.booking.update({
+        where: { id: booking.id },
+        data: {
+          ...this.bookingTransition(booking, BookingStatus.CONFIRMED, 'WAITLIST_OFFER_ACCEPTED', userId, {
+            totalAmount,
+            taxAmount
+          }),
+          totalAmount,
+          taxAmount,
+          nightlyRates: { create: nightlyRates },
+          isConfirmed: true
+        }
+      });
+
+      await this.paymentSchedules.createSchedule({ ...booking, totalAmount, taxAmount }, null, tx);
+
+      return { ...entry, status: WaitlistStatus.ACCEPTED };
+    });
+  }
+
+  /**
+   * Declines an open offer and passes the room to the next eligible entry
+   * @param entryId - Waitlist entry ID
+   * @param userId - User declining the offer
+   */
+  async declineOffer(entryId: string, userId: string): Promise<WaitlistEntry> {
+    const entry = await this.getEntry(entryId);
+
+    if (entry.status !== WaitlistStatus.OFFERED) {
+      throw createErrorDetails(ErrorCode.BUSINESS_RULE_VIOLATION, {
+        message: 'Waitlist entry has no open offer',
+        entryId,
+        status: entry.status
+      });
+    }
+
+    return this.closeOrReject(entry, WaitlistStatus.DECLINED, userId);
+  }
+
+  /**
+   * Removes a guest from the waitlist, releasing any room held for them
+   * @param entryId - Waitlist entry ID
+   * @param userId - User cancelling the entry
+   */
+  async cancelEntry(entryId: string, userId: string): Promise<WaitlistEntry> {
+    const entry = await this.getEntry(entryId);
+
+    if (entry.status !== WaitlistStatus.WAITING && entry.status !== WaitlistStatus.OFFERED) {
+      throw createErrorDetails(ErrorCode.BUSINESS_RULE_VIOLATION, {
+        message: `Waitlist entry is already ${entry.status.toLowerCase()}`,
+        entryId
+      });
+    }
+
+    return this.closeOrReject(entry, WaitlistStatus.CANCELLED, userId);
+  }
+
+  /**
+   * Expires offers whose hold has lapsed and passes each room to the next eligible entry
+   * @param userId - User or job running the expiry
+   * @returns Number of expired offers
+   */
+  async expireHolds(userId: string = WAITLIST_USER): Promise<number> {
+    const lapsed = await this.prisma.waitlistEntry.findMany({
+      where: {
+        status: WaitlistStatus.OFFERED,
+        holdExpiresAt: { lte: new Date() }
+      }
+    }) as WaitlistEntry[];
+
+    let expired = 0;
+    for (const entry of lapsed) {
+      // An offer accepted since it was read is left alone
+      if (await this.closeEntry(entry, WaitlistStatus.EXPIRED, userId, { holdExpiresAt: { lte: new Date() } })) {
+        expired++;
+      }
+    }
+
+    return expired;
+  }
+
+  /**
+   * Starts the periodic hold expiry job
+   * @param intervalMs - Interval between expiry checks
+   */
+  scheduleHoldExpiry(intervalMs = 60 * 1000): void {
+    this.cancelSchedule();
+    this.expiryTimer = setInterval(async () => {
+      try {
+        await this.expireHolds(WAITLIST_USER);
+      } catch (error) {
+        this.logger.error(`Waitlist hold expiry failed: ${error.message || error.code}`);
+      }
+    }, intervalMs);
+  }
+
+  /**
+   * Stops the periodic hold expiry job
+   */
+  cancelSchedule(): void {
+    if (this.expiryTimer) {
+      clearInterval(this.expiryTimer);
+      this.expiryTimer = null;
+    }
+  }
+
+  /**
+   * Holds a room of the entry's type and notifies the front desk. The status guard keeps two
+   * concurrent releases from offering the same entry twice.
+   */
+  private async offer(entry: WaitlistEntry, userId: string): Promise<WaitlistEntry | null> {
+    const offeredAt = new Date();
+    const holdExpiresAt = addMinutes(offeredAt, this.holdMinutes);
+
+    let offered: WaitlistEntry | null;
+    try {
+      offered = await this.prisma.$transaction(async (tx) => {
+        const { count } = await tx.waitlistEntry.updateMany({
+          where: { id: entry.id, status: WaitlistStatus.WAITING },
+          data: {
+            status: WaitlistStatus.OFFERED,
+            offeredAt,
+            holdExpiresAt
+          }
+        });
+
+        if (count === 0) {
+          return null;
+        }
+
+        await this.inventory.allocate(entry.roomType, entry.checkInDate, entry.checkOutDate, 1, tx);
+
+        const booking = await tx.booking.findUnique({ where: { id: entry.bookingId } }) as Booking;
+        await tx.booking.update({
+          where: { id: booking.id },
+          data: this.bookingTransition(booking, BookingStatus.ON_HOLD, 'WAITLIST_OFFER_MADE', userId, { holdExpiresAt })
+        });
+
+        return { ...entry, status: WaitlistStatus.OFFERED, offeredAt, holdExpiresAt };
+      });
+    } catch (error) {
+      // Another booking took the last room between the availability check and the hold
+      if (error.code === ErrorCode.RESOURCE_CONFLICT) {
+        return null;
+      }
+      throw error;
+    }
+
+    if (!offered) {
+      return null;
+    }
+
+    this.logger.log(`${entry.roomType} offered to waitlist entry ${entry.id} until ${holdExpiresAt.toISOString()}`);
+
+    await this.notifications.sendNotification({
+      id: randomUUID(),
+      correlationId: entry.bookingId,
+      type: NotificationType.WAITLIST_OFFER,
+      targetGroup: WebSocketNamespaces.FRONT_DESK,
+      payload: {
+        entryId: entry.id,
+        bookingId: entry.bookingId,
+        guestId: entry.guestId,
+        roomType: entry.roomType,
+        checkInDate: entry.checkInDate,
+        checkOutDate: entry.checkOutDate,
+        holdExpiresAt
+      },
+      priority: NotificationPriority.HIGH,
+      timestamp: offeredAt,
+      deliveryStatus: DeliveryStatus.PENDING
+    });
+
+    return offered;
+  }
+
+  /**
+   * Closes an entry on behalf of a user, refusing if its status changed since it was read
+   */
+  private async closeOrReject(entry: WaitlistEntry, status: WaitlistStatus, userId: string): Promise<WaitlistEntry> {
+    const closed = await this.closeEntry(entry, status, userId);
+
+    if (!closed) {
+      throw createErrorDetails(ErrorCode.RESOURCE_CONFLICT, {
+        message: 'Waitlist entry was changed concurrently',
+        entryId: entry.id
+      });
+    }
+
+    return closed;
+  }
+
+  /**
+   * Closes an entry, cancels its booking and re-offers any room it was holding. The status guard
+   * keeps an entry accepted or closed concurrently from being closed again.
+   * @returns Closed entry, or null if the entry no longer had the status it was read with
+   */
+  private async closeEntry(
+    entry: WaitlistEntry,
+    status: WaitlistStatus,
+    userId: string,
+    guard: Prisma.WaitlistEntryWhereInput = {}
+  ): Promise<WaitlistEntry | null> {
+    const wasOffered = entry.status === WaitlistStatus.OFFERED;
+
+    const closed = await this.prisma.$transaction(async (tx) => {
+      const { count } = await tx.waitlistEntry.updateMany({
+        where: { ...guard, id: entry.id, status: entry.status },
+        data: { status }
+      });
+
+      if (count === 0) {
+        return null;
+      }
+
+      const booking = await tx.booking.findUnique({ where: { id: entry.bookingId } }) as Booking;
+
+      if (wasOffered) {
+        await this.inventory.release(entry.roomType, entry.checkInDate, entry.checkOutDate, 1, tx);
+      }
+
+      await tx.booking.update({
+        where: { id: booking.id },
+        data: {
+          ...this.bookingTransition(booking, BookingStatus.CANCELLED, `WAITLIST_${status}`, userId),
+          cancellationReason: `Waitlist entry ${status.toLowerCase()}`,
+          cancellationDate: new Date()
+        }
+      });
+
+      return { ...entry, status };
+    });
+
+    if (closed && wasOffered) {
+      await this.offerReleasedInventory(entry.roomType, entry.checkInDate, entry.checkOutDate, userId);
+    }
+
+    return closed;
+  }
+
+  private async getEntry(entryId: string): Promise<WaitlistEntry> {
+    const entry = await this.prisma.waitlistEntry.findUnique({ where: { id: entryId } }) as WaitlistEntry | null;
+
+    if (!entry) {
+      throw createErrorDetails(ErrorCode.RESOURCE_NOT_FOUND, {
+        message: 'Waitlist entry not found',
+        entryId
+      });
+    }
+
+    return entry;
+  }
+
+  private bookingTransition(
+    booking: Booking,
+    status: BookingStatus,
+    action: string,
+    userId: string,
+    changes: Record<string, unknown> = {}
+  ) {
+    return {
+      status,
+      lastModifiedBy: userId,
+      updatedAt: new Date(),
+      auditTrail: [
+        ...booking.auditTrail,
+        {
+          timestamp: new Date(),
+          action,
+          userId,
+          changes: { status, ...changes }
+        }
+      ]
+    };
+  }
+
+  private generateBookingNumber(): string {
+    const timestamp = Date.now().toString(36).toUpperCase();
+    const random = Math.random().toString(36).substring(2, 5).toUpperCase();
+    return `BK${timestamp}${random}`;
+  }
+}
@@ -0,0 +1,283 @@
+/**
+ * @fileoverview Yield management service keeping the versioned yield rules and evaluating them
+ * for each night of a stay against on-the-books occupancy, booking pace, lead time and day of
+ * week, explaining every adjustment it makes.
+ * @version 1.0.0
+ */
+
+// External imports
+import { Injectable, Logger } from '@nestjs/common'; // v10.0.0
+import { PrismaClient } from '@prisma/client'; // v5.0.0
+import { addDays, differenceInCalendarDays, format, startOfDay, subDays } from 'date-fns'; // v2.30.0
+
+// Internal imports
+import { prisma as reservationPrisma } from '../config/database';
+import { INVENTORY_HOLDING_STATUSES } from '../models/booking.model';
+import { RoomTypeInventory } from '../models/room-inventory.model';
+import {
+  DEFAULT_PACE_WINDOW_DAYS,
+  MAX_PACE_WINDOW_DAYS,
+  UpdateYieldRulesDto,
+  YieldAdjustment,
+  YieldRule,
+  YieldRuleFactor,
+  YieldRuleSet
+} from '../models/yield-rule.model';
+import { ErrorCode, createErrorDetails } from '../../../shared/constants/error-codes';
+
+/**
+ * Weekday names used in explanations
+ */
+const WEEKDAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+/**
+ * Demand figures of one night the rules are evaluated on
+ */
+interface NightDemand {
+  date: Date;
+  /** Percentage of sellable rooms held */
+  occupancy: number;
+  sellableRooms: number;
+  leadTime: number;
+}
+
+/**
+ * Booking picked up for a night, as counted for booking pace
+ */
+interface Pickup {
+  checkInDate: Date;
+  checkOutDate: Date;
+  createdAt: Date;
+}
+
+/**
+ * Service managing and evaluating yield rules
+ */
+@Injectable()
+export class YieldManagementService {
+  private readonly logger = new Logger(YieldManagementService.name);
+
+  constructor(private readonly prisma: PrismaClient = reservationPrisma) {}
+
+  /**
+   * Returns the yield rules in force, or null before any were set
+   */
+  async getRuleSet(): Promise<YieldRuleSet | null> {
+    return this.prisma.yieldRuleSet.findFirst({ orderBy: { version: 'desc' } }) as Promise<YieldRuleSet | null>;
+  }
+
+  /**
+   * Lists earlier versions of the yield rules, most recent first
+   * @param limit - Number of versions to return
+   */
+  async listVersions(limit = 20): Promise<YieldRuleSet[]> {
+    return this.prisma.yieldRuleSet.findMany({
+      orderBy: { version: 'desc' },
+      take: limit
+    }) as Promise<YieldRuleSet[]>;
+  }
+
+  /**
+   * Replaces the yield rules with a new version; earlier versions are kept
+   * @param data - Rules of the new version, the user making the change and a comment
+   * @throws ErrorCode.VALIDATION_ERROR if a rule has no range, an inverted range or would price
+   * a night at nothing
+   */
+  async updateRules(data: UpdateYieldRulesDto): Promise<YieldRuleSet> {
+    this.validateRules(data.rules);
+
+    const current = await this.getRuleSet();
+    const ruleSet = await this.prisma.yieldRuleSet.create({
+      data: {
+        version: (current?.version ?? 0) + 1,
+        rules: data.rules,
+        comment: data.comment ?? null,
+        createdBy: data.userId
+      }
+    }) as YieldRuleSet;
+
+    this.logger.log(`Yield rules version ${ruleSet.version} with ${data.rules.length} rule(s) set by ${data.userId}`);
+
+    return ruleSet;
+  }
+
+  /**
+   * Checks that every rule has a valid range, window and adjustment
+   * @param rules - Rules to check
+   * @throws ErrorCode.VALIDATION_ERROR naming the first invalid rule
+   */
+  validateRules(rules: YieldRule[]): void {
+    rules.forEach((rule, index) => this.validateRule(rule, index));
+  }
+
+  /**
+   * Evaluates the yield rules for each night of a stay on a rate
+   * @param rateId - Rate priced
+   * @param checkInDate - First night
+   * @param checkOutDate - Departure date
+   * @param now - Time of pricing; lead time and booking pace are measured from it
+   * @param rules - Rules to evaluate in place of the version in force, for simulations
+   * @returns Adjustment of each night a rule applies to, keyed by yyyy-MM-dd
+   */
+  async evaluate(
+    rateId: string,
+    checkInDate: Date,
+    checkOutDate: Date,
+    now: Date = new Date(),
+    rules?: YieldRule[]
+  ): Promise<Record<string, YieldAdjustment>> {
+    const candidates = rules ?? (await this.getRuleSet())?.rules ?? [];
+    const applicable = candidates.filter(rule => !rule.rateIds?.length || rule.rateIds.includes(rateId));
+    if (applicable.length === 0) {
+      return {};
+    }
+
+    const nights = await this.loadDemand(checkInDate, checkOutDate, now);
+    const pickups = await this.loadPickups(applicable, nights, now);
+    const adjustments: Record<string, YieldAdjustment> = {};
+
+    for (const night of nights) {
+      const adjustment: YieldAdjustment = { percentage: 0, amount: 0, rules: [], appliedRules: [] };
+
+      for (const rule of applicable) {
+        const reason = this.match(rule, night, pickups, now);
+        if (reason === null) {
+          continue;
+        }
+
+        if (rule.adjustmentType === 'PERCENTAGE') {
+          adjustment.percentage += rule.adjustmentValue;
+        } else {
+          adjustment.amount += rule.adjustmentValue;
+        }
+        adjustment.rules.push(rule.name);
+        adjustment.appliedRules.push(`${rule.name}: ${reason} → ${this.describeAdjustment(rule)}`);
+      }
+
+      if (adjustment.appliedRules.length > 0) {
+        adjustments[format(night.date, 'yyyy-MM-dd')] = adjustment;
+      }
+    }
+
+    return adjustments;
+  }
+
+  /**
+   * Returns why a rule applies to a night, or null when it does not
+   */
+  private match(rule: YieldRule, night: NightDemand, pickups: Pickup[], now: Date): string | null {
+    switch (rule.factor) {
+      case YieldRuleFactor.OCCUPANCY:
+        return this.inRange(rule, night.occupancy) ? `${night.occupancy}% on the books` : null;
+
+      case YieldRuleFactor.BOOKING_PACE: {
+        const windowDays = rule.paceWindowDays || DEFAULT_PACE_WINDOW_DAYS;
+        const since = subDays(now, windowDays);
+        const pickedUp = pickups.filter(pickup =>
+          pickup.createdAt >= since && pickup.checkInDate <= night.date && pickup.checkOutDate > night.date
+        ).length;
+        const pace = night.sellableRooms > 0 ? Math.round(pickedUp / night.sellableRooms * 100) : 0;
+
+        return this.inRange(rule, pace) ? `${pace}% picked up in the last ${windowDays} days` : null;
+      }
+
+      case YieldRuleFactor.LEAD_TIME:
+        return this.inRange(rule, night.leadTime) ? `${night.leadTime} days before arrival` : null;
+
+      case YieldRuleFactor.DAY_OF_WEEK:
+        return rule.daysOfWeek?.includes(night.date.getDay()) ? WEEKDAYS[night.date.getDay()] : null;
+
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * Reads the rooms held and sellable on each night from the room-type inventory; nights no
+   * room type has inventory for yet have nothing on the books
+   */
+  private async loadDemand(checkInDate: Date, checkOutDate: Date, now: Date): Promise<NightDemand[]> {
+    const firstNight = startOfDay(checkInDate);
+    const dates = Array.from(
+      { length: Math.max(1, differenceInCalendarDays(checkOutDate, checkInDate)) },
+      (_, index) => addDays(firstNight, index)
+    );
+
+    const inventory = await this.prisma.roomTypeInventory.findMany({
+      where: { date: { in: dates } }
+    }) as RoomTypeInventory[];
+
+    return dates.map(date => {
+      const rows = inventory.filter(row => row.date.getTime() === date.getTime());
+      const sellableRooms = rows.reduce((sum, row) => sum + row.totalRooms, 0);
+      const heldRooms = rows.reduce((sum, row) => sum + row.allocatedRooms, 0);
+
+      return {
+        date,
+        occupancy: sellableRooms > 0 ? Math.round(heldRooms / sellableRooms * 100) : 0,
+        sellableRooms,
+        leadTime: Math.max(0, differenceInCalendarDays(date, startOfDay(now)))
+      };
+    });
+  }
+
+  /**
+   * Loads the bookings created within the longest pace window that stay on any of the nights
+   */
+  private async loadPickups(rules: YieldRule[], nights: NightDemand[], now: Date): Promise<Pickup[]> {
+    const paceRules = rules.filter(rule => rule.factor === YieldRuleFactor.BOOKING_PACE);
+    if (paceRules.length === 0) {
+      return [];
+    }
+
+    const windowDays = Math.max(...paceRules.map(rule => rule.paceWindowDays || DEFAULT_PACE_WINDOW_DAYS));
+
+    return this.prisma.booking.findMany({
+      where: {
+        status: { in: INVENTORY_HOLDING_STATUSES },
+        createdAt: { gte: subDays(now, windowDays) },
+        checkInDate: { lte: nights[nights.length - 1].date },
+        checkOutDate: { gt: nights[0].date }
+      },
+      select: { checkInDate: true, checkOutDate: true, createdAt: true }
+    }) as Promise<Pickup[]>;
+  }
+
+  private inRange(rule: YieldRule, value: number): boolean {
+    return (rule.min === undefined || value >= rule.min) && (rule.max === undefined || value <= rule.max);
+  }
+
+  private describeAdjustment(rule: YieldRule): string {
+    const sign = rule.adjustmentValue >= 0 ? '+' : '';
+    return rule.adjustmentType === 'PERCENTAGE'
+      ? `${sign}${rule.adjustmentValue}%`
+      : `${sign}${rule.adjustmentValue.toFixed(2)}`;
+  }
+
+  private validateRule(rule: YieldRule, index: number): void {
+    const invalid = (message: string) => createErrorDetails(ErrorCode.VALIDATION_ERROR, {
+      message: `Yield rule ${index + 1} (${rule.name}): ${message}`,
+      rule
+    });
+
+    if (rule.factor === YieldRuleFactor.DAY_OF_WEEK) {
+      if (!rule.daysOfWeek?.length) {
+        throw invalid('day-of-week rules need the weekdays they apply to');
+      }
+    } else if (rule.min === undefined && rule.max === undefined) {
+      throw invalid('a minimum or a maximum is required');
+    }
+
+    if (rule.min !== undefined && rule.max !== undefined && rule.max < rule.min) {
+      throw invalid('the maximum cannot be lower than the minimum');
+    }
+
+    if (rule.paceWindowDays !== undefined && (rule.paceWindowDays < 1 || rule.paceWindowDays > MAX_PACE_WINDOW_DAYS)) {
+      throw invalid(`the pace window must cover 1 to ${MAX_PACE_WINDOW_DAYS} days`);
+    }
+
+    if (rule.adjustmentType === 'PERCENTAGE' && rule.adjustmentValue <= -100) {
+      throw invalid('a percentage adjustment cannot take off the whole rate');
+    }
+  }
+}
@@ -14,9 +14,17 @@ import { describe, it, beforeEach, afterEach, expect, jest } from 'jest';
 // Internal imports
 import { BookingController } from '../../src/controllers/booking.controller';
 import { PricingService } from '../../src/services/pricing.service';
+import { WaitlistService } from '../../src/services/waitlist.service';
+import { StayModificationService } from '../../src/services/stay-modification.service';
+import { CancellationPolicyService } from '../../src/services/cancellation-policy.service';
+import { PaymentScheduleService } from '../../src/services/payment-schedule.service';
+import { StayRestrictionService } from '../../src/services/stay-restriction.service';
+import { AddOnService } from '../../src/services/add-on.service';
+import { PromotionService } from '../../src/services/promotion.service';
+import { CityLedgerService } from '../../../billing-service/src/services/city-ledger.service';
 import { ErrorCode } from '../../../shared/constants/error-codes';
 import { BookingStatus, PaymentStatus } from '../../src/models/booking.model';
-import { RoomStatus } from '../../../room-service/src/models/room.model';
+import { RoomStatus, RoomType } from '../../../room-service/src/models/room.model';
 
 describe('BookingController Integration Tests', () => {
   let app: any;
@@ -47,6 +55,60 @@ describe('BookingController Integration Tests', () => {
             error: jest.fn(),
           },
         },
+        {
+          provide: WaitlistService,
+          useValue: {
+            offerReleasedInventory: jest.fn(),
+          },
+        },
+        {
+          provide: StayModificationService,
+          useValue: {
+            quote: jest.fn(),
+            modify: jest.fn(),
+            findModifications: jest.fn(),
+          },
+        },
+        {
+          provide: CancellationPolicyService,
+          useValue: {
+            assess: jest.fn().mockResolvedValue({ fee: 0 }),
+            settle: jest.fn().mockResolvedValue({ refunds: [] }),
+          },
+        },
+        {
+          provide: PaymentScheduleService,
+          useValue: {
+            createSchedule: jest.fn().mockResolvedValue(null),
+            getSchedule: jest.fn(),
+            updateCard: jest.fn(),
+            cancelSchedule: jest.fn().mockResolvedValue(0),
+          },
+        },
+        {
+          provide: StayRestrictionService,
+          useValue: {
+            validateStay: jest.fn().mockResolvedValue(undefined),
+          },
+        },
+        {
+          provide: PromotionService,
+          useValue: {
+            validateCodes: jest.fn().mockResolvedValue([]),
+          },
+        },
+        {
+          provide: AddOnService,
+          useValue: {
+            quote: jest.fn().mockResolvedValue({ lines: [], amount: 0, taxAmount: 0, totalAmount: 0 }),
+          },
+        },
+        {
+          provide: CityLedgerService,
+          useValue: {
+            transferAtCheckout: jest.fn(),
+          },
+        },
       ],
     }).compile();
 
@@ -76,7 +138,7 @@ describe('BookingController Integration Tests', () => {
 
       const bookingData = {
         guestId: testGuestId,
-        roomId: testRoomId,
+        roomType: RoomType.DELUXE,
         checkInDate,
         checkOutDate,
         numberOfGuests: 2,
@@ -108,16 +170,16 @@ describe('BookingController Integration Tests', () => {
       );
       expect(response.body.totalAmount).toBe(calculatedRate);
 
-      // Verify inventory update
-      const roomStatus = await getRoomStatus(testRoomId);
-      expect(roomStatus).toBe(RoomStatus.RESERVED);
+      // Verify the booking holds room-type inventory without a physical room
+      expect(response.body).toHaveProperty('roomType', RoomType.DELUXE);
+      expect(response.body.roomId).toBeNull();
     });
 
     it('should handle concurrent booking requests correctly', async () => {
       // Prepare concurrent booking requests
       const bookingRequests = Array(5).fill(null).map(() => ({
         guestId: faker.string.uuid(),
-        roomId: testRoomId,
+        roomType: RoomType.DELUXE,
         checkInDate: new Date(Date.now() + 86400000),
         checkOutDate: new Date(Date.now() + 259200000),
         numberOfGuests: 2,
@@ -215,7 +277,7 @@ describe('BookingController Integration Tests', () => {
         .post('/api/v1/bookings')
         .send({
           guestId: testGuestId,
-          roomId: testRoomId,
+          roomType: RoomType.DELUXE,
           checkInDate: new Date(Date.now() + 86400000),
           checkOutDate: new Date(Date.now() + 259200000),
           numberOfGuests: 2,
@@ -261,7 +323,7 @@ describe('BookingController Integration Tests', () => {
   async function createTestBooking() {
     return bookingController.create({
       guestId: testGuestId,
-      roomId: testRoomId,
+      roomType: RoomType.DELUXE,
       checkInDate: new Date(Date.now() + 86400000),
       checkOutDate: new Date(Date.now() + 259200000),
       numberOfGuests: 2,
@@ -0,0 +1,337 @@
+/**
+ * @fileoverview Integration tests for the channel manager against the local mock channel server,
+ * covering merged ARI pushes, deferral while a channel is down and idempotent ingestion of OTA
+ * reservations, modifications and cancellations.
+ * @version 1.0.0
+ */
+
+// External imports
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach, jest } from '@jest/globals'; // v29.0.0
+import { Prisma } from '@prisma/client'; // v5.0.0
+import { of } from 'rxjs'; // v7.8.0
+
+// Internal imports
+import { CHANNEL_MANAGER_USER, ChannelManagerService } from '../../src/services/channel-manager.service';
+import { HttpChannelConnector } from '../../src/services/channel-connector.service';
+import {
+  AriUpdateType,
+  ChannelOutboxStatus,
+  ChannelReservationStatus,
+  DistributionChannel,
+  OtaIngestStatus,
+  OtaReservation,
+  OtaReservationAction
+} from '../../src/models/channel.model';
+import { BookingStatus } from '../../src/models/booking.model';
+import { RoomType } from '../../../room-service/src/models/room.model';
+import { ErrorCode, createErrorDetails } from '../../../shared/constants/error-codes';
+import { MockChannelServer, startMockChannelServer } from '../mocks/mock-channel-server';
+
+jest.mock('../../src/config/database', () => ({ prisma: {} }));
+jest.mock('../../../shared/services/business-date.service', () => ({
+  BusinessDateService: jest.fn()
+}));
+
+describe('ChannelManagerService', () => {
+  const now = new Date('2024-09-01T08:00:00');
+  let server: MockChannelServer;
+  let service: ChannelManagerService;
+  let mockPrisma: any;
+  let mockOutbox: any;
+  let mockBookingModel: any;
+  let mockModification: any;
+  let mockPaymentSchedules: any;
+
+  const message = (id: string, channel: DistributionChannel, overrides: Record<string, unknown> = {}) => ({
+    id,
+    channel,
+    type: AriUpdateType.AVAILABILITY,
+    roomType: RoomType.DELUXE,
+    rateId: null,
+    startDate: new Date('2024-09-01T00:00:00'),
+    endDate: new Date('2024-09-01T00:00:00'),
+    status: ChannelOutboxStatus.PENDING,
+    attempts: 0,
+    nextAttemptAt: now,
+    lastError: null,
+    sentAt: null,
+    ...overrides
+  });
+
+  const reservation = (overrides: Partial<OtaReservation> = {}): OtaReservation => ({
+    action: OtaReservationAction.NEW,
+    confirmationNumber: 'OTA-1001',
+    revision: 1,
+    guestId: '0b0e8d6a-5f7c-4c1e-9a51-3d2f7b8c9e10' as any,
+    guestName: 'Alex Morgan',
+    roomType: RoomType.DELUXE,
+    rateId: 'rate-1' as any,
+    checkInDate: new Date('2024-09-10T00:00:00'),
+    checkOutDate: new Date('2024-09-12T00:00:00'),
+    numberOfGuests: 2,
+    totalAmount: 224,
+    currencyCode: 'USD',
+    ...overrides
+  });
+
+  const channelReservation = (overrides: Record<string, unknown> = {}) => ({
+    id: 'channel-reservation-1',
+    channel: DistributionChannel.OTA,
+    confirmationNumber: 'OTA-1001',
+    bookingId: 'booking-1',
+    revision: 1,
+    status: ChannelReservationStatus.ACTIVE,
+    guestName: 'Alex Morgan',
+    channelAmount: 224,
+    currencyCode: 'USD',
+    ...overrides
+  });
+
+  const night = (date: string) => ({
+    rateId: 'rate-1',
+    date: new Date(`${date}T00:00:00`),
+    baseRate: 100,
+    adjustmentAmount: 0,
+    adjustmentReason: null,
+    taxRate: 0.12,
+    taxAmount: 12,
+    totalRate: 112,
+    breakdown: { seasonalAdjustment: 0, occupancyAdjustment: 0, losAdjustment: 0, channelMarkup: 0, taxes: 12 }
+  });
+
+  beforeAll(async () => {
+    server = await startMockChannelServer();
+  });
+
+  afterAll(async () => {
+    await server.close();
+  });
+
+  beforeEach(() => {
+    mockPrisma = {
+      channelReservation: {
+        create: jest.fn().mockImplementation(({ data }: any) => Promise.resolve({ id: 'channel-reservation-1', ...data })),
+        findUnique: jest.fn().mockResolvedValue(channelReservation()),
+        update: jest.fn(),
+        updateMany: jest.fn().mockResolvedValue({ count: 1 }),
+        delete: jest.fn()
+      },
+      booking: {
+        findUnique: jest.fn().mockResolvedValue({
+          id: 'booking-1',
+          roomType: RoomType.DELUXE,
+          rateId: 'rate-1',
+          checkInDate: new Date('2024-09-10T00:00:00'),
+          checkOutDate: new Date('2024-09-12T00:00:00'),
+          numberOfGuests: 2,
+          bookingSource: DistributionChannel.OTA
+        })
+      },
+      rate: { findUnique: jest.fn().mockResolvedValue(null) },
+      $transaction: jest.fn().mockImplementation((callback: any) => callback(mockPrisma))
+    };
+
+    mockOutbox = {
+      findDue: jest.fn().mockResolvedValue([]),
+      markSent: jest.fn(),
+      markFailed: jest.fn()
+    };
+
+    mockBookingModel = {
+      create: jest.fn().mockResolvedValue({ id: 'booking-1', bookingNumber: 'BK001' }),
+      update: jest.fn().mockResolvedValue({ id: 'booking-1', bookingNumber: 'BK001', status: BookingStatus.CONFIRMED })
+    };
+
+    mockModification = { modify: jest.fn().mockResolvedValue({ id: 'modification-1' }) };
+    mockPaymentSchedules = { createSchedule: jest.fn().mockResolvedValue(null) };
+
+    const mockInventory = {
+      getAvailability: jest.fn().mockImplementation((roomType: any, from: any, to: any) => {
+        const nights = [];
+        for (let date = new Date(from); date < to; date.setDate(date.getDate() + 1)) {
+          nights.push({ roomType, date: new Date(date), totalRooms: 10, allocatedRooms: 7, availableRooms: 3 });
+        }
+        return Promise.resolve(nights);
+      })
+    };
+
+    service = new ChannelManagerService(
+      mockBookingModel,
+      { calculateNightlyRates: jest.fn().mockReturnValue(of([night('2024-09-10'), night('2024-09-11')])) } as any,
+      { getCurrentOccupancy: jest.fn().mockResolvedValue(60) } as any,
+      mockModification,
+      new HttpChannelConnector(server.url),
+      mockPrisma,
+      mockOutbox,
+      mockInventory as any,
+      { getCalendar: jest.fn().mockResolvedValue([]) } as any,
+      mockPaymentSchedules
+    );
+
+    server.ariMessages.length = 0;
+    server.acknowledgements.length = 0;
+  });
+
+  afterEach(() => {
+    Object.values(DistributionChannel).forEach(channel => server.setDown(channel, false));
+    jest.clearAllMocks();
+  });
+
+  it('should merge the due messages of a channel into one push of current availability', async () => {
+    const first = message('message-1', DistributionChannel.OTA);
+    const second = message('message-2', DistributionChannel.OTA, {
+      startDate: new Date('2024-09-02T00:00:00'),
+      endDate: new Date('2024-09-03T00:00:00')
+    });
+    mockOutbox.findDue.mockResolvedValue([first, second, message('message-3', DistributionChannel.GDS)]);
+
+    const run = await service.dispatchOutbox(now);
+
+    expect(run).toEqual({ sent: 3, failed: 0, unreachableChannels: [] });
+    expect(server.ariMessages).toHaveLength(2);
+    expect(server.ariMessages[0]).toEqual({
+      channel: DistributionChannel.OTA,
+      type: AriUpdateType.AVAILABILITY,
+      updates: [
+        { date: '2024-09-01', roomType: RoomType.DELUXE, available: 3 },
+        { date: '2024-09-02', roomType: RoomType.DELUXE, available: 3 },
+        { date: '2024-09-03', roomType: RoomType.DELUXE, available: 3 }
+      ]
+    });
+    expect(mockOutbox.markSent).toHaveBeenCalledWith([first, second], now);
+  });
+
+  it('should defer the queue of an unreachable channel and keep pushing to the others', async () => {
+    server.setDown(DistributionChannel.OTA, true);
+    const availability = message('message-1', DistributionChannel.OTA);
+    const restriction = message('message-2', DistributionChannel.OTA, {
+      type: AriUpdateType.RESTRICTION,
+      rateId: 'rate-1'
+    });
+    mockOutbox.findDue.mockResolvedValue([availability, restriction, message('message-3', DistributionChannel.GDS)]);
+
+    const run = await service.dispatchOutbox(now);
+
+    expect(run).toEqual({ sent: 1, failed: 2, unreachableChannels: [DistributionChannel.OTA] });
+    expect(mockOutbox.markFailed).toHaveBeenCalledWith(
+      [availability, restriction],
+      'Channel manager responded 503',
+      now
+    );
+    expect(server.ariMessages).toEqual([expect.objectContaining({ channel: DistributionChannel.GDS })]);
+  });
+
+  it('should book a pulled reservation once and acknowledge the redelivery as a duplicate', async () => {
+    server.enqueueReservation(DistributionChannel.OTA, reservation());
+
+    const [created] = await service.pullReservations(DistributionChannel.OTA);
+
+    expect(created).toEqual(expect.objectContaining({ status: OtaIngestStatus.CREATED, bookingId: 'booking-1' }));
+    expect(mockBookingModel.create).toHaveBeenCalledWith(expect.objectContaining({
+      guestId: '0b0e8d6a-5f7c-4c1e-9a51-3d2f7b8c9e10',
+      bookingSource: DistributionChannel.OTA,
+      totalAmount: 224,
+      taxAmount: 24,
+      checkInDate: new Date('2024-09-10T00:00:00'),
+      lastModifiedBy: CHANNEL_MANAGER_USER
+    }), undefined, mockPrisma);
+    expect(mockBookingModel.update).toHaveBeenCalledWith('booking-1', expect.objectContaining({
+      status: BookingStatus.CONFIRMED
+    }), undefined, mockPrisma);
+    expect(mockPaymentSchedules.createSchedule).toHaveBeenCalledWith(
+      expect.objectContaining({ id: 'booking-1', status: BookingStatus.CONFIRMED }),
+      null,
+      mockPrisma
+    );
+    expect(mockPrisma.channelReservation.update).toHaveBeenCalledWith({
+      where: { id: 'channel-reservation-1' },
+      data: expect.objectContaining({ bookingId: 'booking-1' })
+    });
+
+    // The channel sends the same reservation again, e.g. after a lost acknowledgement
+    mockPrisma.channelReservation.create.mockRejectedValue(
+      new Prisma.PrismaClientKnownRequestError('Unique constraint failed', { code: 'P2002', clientVersion: '5.0.0' })
+    );
+    server.enqueueReservation(DistributionChannel.OTA, reservation());
+
+    const [duplicate] = await service.pullReservations(DistributionChannel.OTA);
+
+    expect(duplicate).toEqual(expect.objectContaining({ status: OtaIngestStatus.DUPLICATE, bookingId: 'booking-1' }));
+    expect(mockBookingModel.create).toHaveBeenCalledTimes(1);
+    expect(server.acknowledgements.map(ack => ack.status)).toEqual([OtaIngestStatus.CREATED, OtaIngestStatus.DUPLICATE]);
+  });
+
+  it('should release the confirmation number when the booking cannot be made', async () => {
+    mockBookingModel.create.mockRejectedValue(createErrorDetails(ErrorCode.RESOURCE_CONFLICT, {
+      message: 'Room type is sold out for the requested dates'
+    }));
+
+    const result = await service.ingestReservation(DistributionChannel.OTA, reservation());
+
+    expect(result).toEqual(expect.objectContaining({
+      status: OtaIngestStatus.REJECTED,
+      error: 'Room type is sold out for the requested dates',
+      errorCode: ErrorCode.RESOURCE_CONFLICT
+    }));
+    expect(mockPrisma.channelReservation.delete).toHaveBeenCalledWith({ where: { id: 'channel-reservation-1' } });
+  });
+
+  it('should create, confirm and link the booking in one transaction', async () => {
+    mockBookingModel.update.mockRejectedValue(new Error('Invalid status transition'));
+
+    const result = await service.ingestReservation(DistributionChannel.OTA, reservation());
+
+    expect(result.status).toBe(OtaIngestStatus.REJECTED);
+    expect(mockPrisma.$transaction).toHaveBeenCalledTimes(1);
+    expect(mockBookingModel.create).toHaveBeenCalledWith(expect.anything(), undefined, mockPrisma);
+    expect(mockPaymentSchedules.createSchedule).not.toHaveBeenCalled();
+    expect(mockPrisma.channelReservation.update).not.toHaveBeenCalled();
+    expect(mockPrisma.channelReservation.delete).toHaveBeenCalledWith({ where: { id: 'channel-reservation-1' } });
+  });
+
+  it('should apply a modification revision once', async () => {
+    const modification = reservation({
+      action: OtaReservationAction.MODIFY,
+      revision: 2,
+      checkOutDate: new Date('2024-09-13T00:00:00')
+    });
+
+    const modified = await service.ingestReservation(DistributionChannel.OTA, modification);
+
+    expect(modified.status).toBe(OtaIngestStatus.MODIFIED);
+    expect(mockModification.modify).toHaveBeenCalledWith('booking-1', {
+      checkOutDate: new Date('2024-09-13T00:00:00'),
+      reason: 'Modified on OTA (revision 2)'
+    }, CHANNEL_MANAGER_USER);
+
+    mockPrisma.channelReservation.updateMany.mockResolvedValue({ count: 0 });
+
+    const replayed = await service.ingestReservation(DistributionChannel.OTA, modification);
+
+    expect(replayed.status).toBe(OtaIngestStatus.DUPLICATE);
+    expect(mockModification.modify).toHaveBeenCalledTimes(1);
+  });
+
+  it('should cancel the booking of a cancelled reservation once', async () => {
+    const cancellation = reservation({
+      action: OtaReservationAction.CANCEL,
+      revision: 2,
+      cancellationReason: 'Guest cancelled on channel'
+    });
+
+    const cancelled = await service.ingestReservation(DistributionChannel.OTA, cancellation);
+
+    expect(cancelled.status).toBe(OtaIngestStatus.CANCELLED);
+    expect(mockBookingModel.update).toHaveBeenCalledWith('booking-1', expect.objectContaining({
+      status: BookingStatus.CANCELLED,
+      cancellationReason: 'Guest cancelled on channel'
+    }));
+
+    mockPrisma.channelReservation.updateMany.mockResolvedValue({ count: 0 });
+
+    await expect(service.ingestReservation(DistributionChannel.OTA, cancellation)).resolves.toEqual(
+      expect.objectContaining({ status: OtaIngestStatus.DUPLICATE })
+    );
+    expect(mockBookingModel.update).toHaveBeenCalledTimes(1);
+  });
+});
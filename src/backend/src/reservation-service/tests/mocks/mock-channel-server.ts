@@ -0,0 +1,97 @@
+/**
+ * @fileoverview Local mock of the channel manager REST API for tests. Records ARI pushes, serves
+ * queued OTA reservation messages until they are acknowledged and can take a channel down.
+ * @version 1.0.0
+ */
+
+// External imports
+import express from 'express'; // v4.18.2
+import { AddressInfo } from 'net';
+import { Server } from 'http';
+
+// Internal imports
+import {
+  AriMessage,
+  DistributionChannel,
+  OtaIngestResult,
+  OtaReservation
+} from '../../src/models/channel.model';
+
+/**
+ * Running mock channel manager
+ */
+export interface MockChannelServer {
+  /** Base URL to give the connector */
+  url: string;
+  /** ARI messages received, in order */
+  ariMessages: AriMessage[];
+  /** Acknowledgements received, in order */
+  acknowledgements: OtaIngestResult[];
+  /** Queues a reservation message for the next pull of a channel */
+  enqueueReservation(channel: DistributionChannel, reservation: OtaReservation): void;
+  /** Makes every request for a channel fail with 503 until brought back up */
+  setDown(channel: DistributionChannel, down: boolean): void;
+  close(): Promise<void>;
+}
+
+/**
+ * Starts the mock channel manager on a free local port
+ */
+export async function startMockChannelServer(): Promise<MockChannelServer> {
+  const ariMessages: AriMessage[] = [];
+  const acknowledgements: OtaIngestResult[] = [];
+  const queues = new Map<string, OtaReservation[]>();
+  const down = new Set<string>();
+
+  const app = express();
+  app.use(express.json());
+
+  app.use('/channels/:channel', (req, res, next) => {
+    if (down.has(req.params.channel)) {
+      res.status(503).json({ error: 'Channel unavailable' });
+      return;
+    }
+    next();
+  });
+
+  app.post('/channels/:channel/ari', (req, res) => {
+    ariMessages.push(req.body);
+    res.status(204).end();
+  });
+
+  app.get('/channels/:channel/reservations', (req, res) => {
+    res.json(queues.get(req.params.channel) || []);
+  });
+
+  app.post('/channels/:channel/reservations/:confirmationNumber/ack', (req, res) => {
+    acknowledgements.push(req.body);
+    const queue = queues.get(req.params.channel) || [];
+    queues.set(
+      req.params.channel,
+      queue.filter(reservation => reservation.confirmationNumber !== req.params.confirmationNumber)
+    );
+    res.status(204).end();
+  });
+
+  const server: Server = await new Promise(resolve => {
+    const listening = app.listen(0, '127.0.0.1', () => resolve(listening));
+  });
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    ariMessages,
+    acknowledgements,
+    enqueueReservation(channel, reservation) {
+      queues.set(channel, [...(queues.get(channel) || []), reservation]);
+    },
+    setDown(channel, isDown) {
+      if (isDown) {
+        down.add(channel);
+      } else {
+        down.delete(channel);
+      }
+    },
+    close: () => new Promise((resolve, reject) => server.close(error => (error ? reject(error) : resolve())))
+  };
+}
@@ -0,0 +1,140 @@
+/**
+ * @fileoverview Unit tests for add-on pricing per stay, night and guest, package inclusions and
+ * daily add-on inventory.
+ * @version 1.0.0
+ */
+
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals'; // v29.0.0
+import { AddOnService } from '../../src/services/add-on.service';
+import { AddOnPricing } from '../../src/models/add-on.model';
+import { ErrorCode } from '../../../shared/constants/error-codes';
+
+jest.mock('../../src/config/database', () => ({ prisma: {} }));
+
+describe('AddOnService', () => {
+  const stay = {
+    checkInDate: new Date('2024-09-01T00:00:00'),
+    checkOutDate: new Date('2024-09-04T00:00:00'),
+    numberOfGuests: 2
+  };
+  let service: AddOnService;
+  let mockPrisma: any;
+  let mockTaxes: any;
+
+  const addOn = (id: string, code: string, pricing: AddOnPricing, price: number, dailyLimit: number | null = null) => ({
+    id,
+    code,
+    name: code,
+    description: null,
+    pricing,
+    price,
+    chargeCategory: 'FOOD_AND_BEVERAGE',
+    department: 'F&B',
+    dailyLimit,
+    isActive: true
+  });
+
+  const breakfast = addOn('addon-1', 'BRKF', AddOnPricing.PER_PERSON_PER_NIGHT, 20);
+  const parking = addOn('addon-2', 'PARK', AddOnPricing.PER_NIGHT, 15, 10);
+  const spa = addOn('addon-3', 'SPA', AddOnPricing.PER_STAY, 90);
+
+  beforeEach(() => {
+    mockPrisma = {
+      addOn: {
+        findMany: jest.fn().mockResolvedValue([breakfast, parking, spa])
+      },
+      addOnInventory: {
+        findMany: jest.fn().mockResolvedValue([]),
+        upsert: jest.fn().mockImplementation(({ create }: any) => Promise.resolve({ id: 'inv-1', ...create })),
+        updateMany: jest.fn().mockResolvedValue({ count: 1 })
+      },
+      rate: {
+        findUnique: jest.fn().mockResolvedValue({ includedAddOns: null })
+      }
+    };
+
+    // 10% VAT added on top of every charge
+    mockTaxes = {
+      calculate: jest.fn().mockImplementation((charges: any[]) => Promise.resolve(charges.map(charge => ({
+        netAmount: charge.amount,
+        taxAmount: Math.round(charge.amount * 10) / 100,
+        grossAmount: Math.round(charge.amount * 110) / 100,
+        lines: []
+      }))))
+    };
+
+    service = new AddOnService(mockPrisma, mockTaxes);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should price nightly add-ons for every night and guest', async () => {
+    const quote = await service.quote([{ addOnId: 'addon-1' as any }], stay);
+
+    expect(quote.lines).toHaveLength(3);
+    expect(quote.lines[0]).toMatchObject({ units: 2, unitPrice: 20, amount: 40, taxAmount: 4, totalAmount: 44 });
+    expect(quote.lines.map(line => line.serviceDate)).toEqual([
+      new Date('2024-09-01T00:00:00'),
+      new Date('2024-09-02T00:00:00'),
+      new Date('2024-09-03T00:00:00')
+    ]);
+    expect(quote).toMatchObject({ amount: 120, taxAmount: 12, totalAmount: 132 });
+  });
+
+  it('should price a per-stay add-on once on its service date', async () => {
+    const quote = await service.quote([
+      { addOnId: 'addon-3' as any, serviceDate: new Date('2024-09-02T00:00:00') }
+    ], stay);
+
+    expect(quote.lines).toHaveLength(1);
+    expect(quote.lines[0]).toMatchObject({ serviceDate: new Date('2024-09-02T00:00:00'), units: 1, amount: 90 });
+  });
+
+  it('should reject a service date outside the stay', async () => {
+    await expect(service.quote([
+      { addOnId: 'addon-3' as any, serviceDate: new Date('2024-09-04T00:00:00') }
+    ], stay)).rejects.toMatchObject({ code: ErrorCode.VALIDATION_ERROR });
+  });
+
+  it('should reject an add-on chosen twice', async () => {
+    await expect(service.quote([
+      { addOnId: 'addon-2' as any },
+      { addOnId: 'addon-2' as any }
+    ], stay)).rejects.toMatchObject({ code: ErrorCode.VALIDATION_ERROR });
+  });
+
+  it('should include the add-ons of a package rate at no charge', async () => {
+    mockPrisma.rate.findUnique.mockResolvedValue({ includedAddOns: [{ addOnId: 'addon-1' }] });
+
+    const quote = await service.quote([], { ...stay, rateId: 'rate-1' as any });
+
+    expect(quote.lines).toHaveLength(3);
+    expect(quote.lines.every(line => line.included && line.amount === 0)).toBe(true);
+    expect(mockTaxes.calculate).toHaveBeenCalledWith([]);
+    expect(quote.totalAmount).toBe(0);
+  });
+
+  it('should reject a limited add-on sold out on a night of the stay', async () => {
+    mockPrisma.addOnInventory.findMany.mockResolvedValue([
+      { addOnId: 'addon-2', date: new Date('2024-09-02T00:00:00'), allocatedUnits: 9 }
+    ]);
+
+    await expect(service.quote([{ addOnId: 'addon-2' as any, quantity: 2 }], stay)).rejects.toMatchObject({
+      code: ErrorCode.RESOURCE_CONFLICT
+    });
+  });
+
+  it('should hold add-on units guarded on the count read', async () => {
+    const quote = await service.quote([{ addOnId: 'addon-2' as any }], stay);
+
+    await service.allocate(quote.lines, mockPrisma);
+
+    expect(mockPrisma.addOnInventory.updateMany).toHaveBeenCalledTimes(3);
+    expect(mockPrisma.addOnInventory.updateMany).toHaveBeenCalledWith({
+      where: { id: 'inv-1', allocatedUnits: 0 },
+      data: { allocatedUnits: { increment: 1 } }
+    });
+  });
+});
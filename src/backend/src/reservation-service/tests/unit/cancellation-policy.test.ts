@@ -0,0 +1,174 @@
+/**
+ * @fileoverview Unit tests for the cancellation policy engine covering the free-cancellation
+ * window, penalty posting and refund of deposit above the penalty.
+ * @version 1.0.0
+ */
+
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals'; // v29.0.0
+import { of, throwError } from 'rxjs'; // v7.8.0
+import { Prisma } from '@prisma/client'; // v5.0.0
+import { CancellationPolicyService } from '../../src/services/cancellation-policy.service';
+import { CancellationPenaltyType, PenaltyTrigger } from '../../src/models/cancellation-policy.model';
+import { BookingStatus } from '../../src/models/booking.model';
+import { PaymentStatus } from '../../../billing-service/src/models/payment.model';
+
+jest.mock('../../src/config/database', () => ({ prisma: {} }));
+jest.mock('../../../shared/services/business-date.service', () => ({
+  BusinessDateService: jest.fn()
+}));
+jest.mock('../../../billing-service/src/services/payment-gateway.service', () => ({
+  PaymentGatewayService: jest.fn()
+}));
+
+describe('CancellationPolicyService', () => {
+  const businessDate = new Date('2024-11-01T00:00:00');
+  let service: CancellationPolicyService;
+  let mockPrisma: any;
+  let mockGateway: any;
+
+  // Two nights at 100 plus 12 tax each
+  const booking = (overrides: Record<string, unknown> = {}) => ({
+    id: 'booking-1',
+    bookingNumber: 'BK001',
+    rateId: 'rate-1',
+    status: BookingStatus.CONFIRMED,
+    checkInDate: new Date('2024-11-10T00:00:00'),
+    checkOutDate: new Date('2024-11-12T00:00:00'),
+    totalAmount: 224,
+    taxAmount: 24,
+    ...overrides
+  }) as any;
+
+  const rate = (policy: unknown) => ({ id: 'rate-1', baseRate: 100, cancellationPolicy: policy });
+
+  const flexiblePolicy = {
+    freeCancellationHours: 48,
+    cancellationPenalty: { type: CancellationPenaltyType.NIGHTS, value: 1 },
+    noShowPenalty: { type: CancellationPenaltyType.PERCENTAGE, value: 50 }
+  };
+
+  const deposit = {
+    id: 'payment-1',
+    transactionId: 'txn-1',
+    folioId: 'folio-1',
+    amount: new Prisma.Decimal(224),
+    refundedAmount: new Prisma.Decimal(0),
+    status: PaymentStatus.CAPTURED
+  };
+
+  beforeEach(() => {
+    const tx = {
+      folio: {
+        findFirst: jest.fn().mockResolvedValue({ id: 'folio-1' }),
+        update: jest.fn()
+      },
+      folioCharge: {
+        findFirst: jest.fn().mockResolvedValue(null),
+        create: jest.fn().mockImplementation(({ data }: any) => Promise.resolve({ id: 'charge-1', ...data }))
+      },
+      folioRoutingInstruction: { findMany: jest.fn().mockResolvedValue([]) },
+      payment: { update: jest.fn() }
+    };
+
+    mockPrisma = {
+      rate: { findUnique: jest.fn().mockResolvedValue(rate(flexiblePolicy)) },
+      folio: {
+        findMany: jest.fn().mockResolvedValue([{ id: 'folio-1' }]),
+        findUnique: jest.fn().mockResolvedValue({
+          id: 'folio-1',
+          balance: new Prisma.Decimal(0),
+          authorizedAmount: new Prisma.Decimal(500),
+          creditAlertedAt: null
+        }),
+        update: jest.fn()
+      },
+      payment: { findMany: jest.fn().mockResolvedValue([deposit]) },
+      $transaction: jest.fn().mockImplementation((callback: any) => callback(tx)),
+      tx
+    };
+
+    mockGateway = {
+      refund: jest.fn().mockReturnValue(of({ success: true, transactionId: 'txn-1' }))
+    };
+
+    service = new CancellationPolicyService(mockGateway, mockPrisma, {
+      getBusinessDate: jest.fn().mockResolvedValue(businessDate)
+    } as any);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should not charge a cancellation made before the free window closes', async () => {
+    const assessment = await service.assess(booking(), PenaltyTrigger.CANCELLATION, new Date('2024-11-07T12:00:00'));
+
+    expect(assessment.withinFreeWindow).toBe(true);
+    expect(assessment.fee).toBe(0);
+  });
+
+  it('should post one night for a late cancellation and refund the rest of the deposit', async () => {
+    const assessment = await service.assess(booking(), PenaltyTrigger.CANCELLATION, new Date('2024-11-09T12:00:00'));
+    const settlement = await service.settle(booking(), assessment, 'agent-1');
+
+    expect(assessment.fee).toBe(112);
+    expect(assessment.taxAmount).toBe(12);
+    expect(mockPrisma.tx.folioCharge.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        folioId: 'folio-1',
+        amount: new Prisma.Decimal(100),
+        taxAmount: new Prisma.Decimal(12),
+        totalAmount: new Prisma.Decimal(112),
+        reference: 'CXL-BK001'
+      })
+    });
+    expect(mockGateway.refund).toHaveBeenCalledWith('txn-1', 112);
+    expect(mockPrisma.tx.payment.update).toHaveBeenCalledWith({
+      where: { id: 'payment-1' },
+      data: expect.objectContaining({
+        refundedAmount: new Prisma.Decimal(112),
+        status: PaymentStatus.PARTIALLY_REFUNDED
+      })
+    });
+    expect(settlement.folioChargeId).toBe('charge-1');
+    expect(settlement.depositHeld).toBe(224);
+    expect(mockPrisma.folio.update).toHaveBeenCalledWith({
+      where: { id: 'folio-1' },
+      data: expect.objectContaining({ exposure: new Prisma.Decimal(-500) })
+    });
+  });
+
+  it('should keep the whole deposit on a non-refundable rate', async () => {
+    mockPrisma.rate.findUnique.mockResolvedValue(rate({
+      freeCancellationHours: 0,
+      cancellationPenalty: { type: CancellationPenaltyType.FULL_STAY, value: 0 },
+      noShowPenalty: { type: CancellationPenaltyType.FULL_STAY, value: 0 }
+    }));
+
+    const assessment = await service.assess(booking(), PenaltyTrigger.CANCELLATION, new Date('2024-10-01T00:00:00'));
+    const settlement = await service.settle(booking(), assessment, 'agent-1');
+
+    expect(assessment.fee).toBe(224);
+    expect(settlement.refunds).toEqual([]);
+    expect(mockGateway.refund).not.toHaveBeenCalled();
+  });
+
+  it('should apply the no-show penalty regardless of the free window', async () => {
+    const assessment = await service.assess(booking(), PenaltyTrigger.NO_SHOW, new Date('2024-10-01T00:00:00'));
+
+    expect(assessment.withinFreeWindow).toBe(false);
+    expect(assessment.fee).toBe(112);
+  });
+
+  it('should report a declined refund without failing the settlement', async () => {
+    mockGateway.refund.mockReturnValue(throwError(() => new Error('Card expired')));
+
+    const assessment = await service.assess(booking(), PenaltyTrigger.CANCELLATION, new Date('2024-11-09T12:00:00'));
+    const settlement = await service.settle(booking(), assessment, 'agent-1');
+
+    expect(settlement.refunds).toEqual([
+      expect.objectContaining({ paymentId: 'payment-1', amount: 112, success: false, errorMessage: 'Card expired' })
+    ]);
+    expect(mockPrisma.tx.payment.update).not.toHaveBeenCalled();
+  });
+});
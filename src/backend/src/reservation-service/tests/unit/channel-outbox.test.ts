@@ -0,0 +1,152 @@
+/**
+ * @fileoverview Unit tests for the channel outbox covering per-channel queuing, queuing with
+ * inventory and restriction changes, and retry backoff.
+ * @version 1.0.0
+ */
+
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals'; // v29.0.0
+import { ChannelOutboxService } from '../../src/services/channel-outbox.service';
+import { InventoryService } from '../../src/services/inventory.service';
+import { StayRestrictionService } from '../../src/services/stay-restriction.service';
+import {
+  AriUpdateType,
+  ChannelOutboxStatus,
+  DistributionChannel,
+  MAX_OUTBOX_ATTEMPTS
+} from '../../src/models/channel.model';
+import { RoomType } from '../../../room-service/src/models/room.model';
+import { ErrorCode } from '../../../shared/constants/error-codes';
+
+jest.mock('../../src/config/database', () => ({ prisma: {} }));
+
+describe('ChannelOutboxService', () => {
+  const now = new Date('2024-09-01T08:00:00');
+  let service: ChannelOutboxService;
+  let mockPrisma: any;
+
+  const message = (attempts: number) => ({
+    id: 'message-1',
+    channel: DistributionChannel.OTA,
+    type: AriUpdateType.AVAILABILITY,
+    roomType: RoomType.DELUXE,
+    rateId: null,
+    startDate: new Date('2024-09-01T00:00:00'),
+    endDate: new Date('2024-09-01T00:00:00'),
+    status: ChannelOutboxStatus.PENDING,
+    attempts,
+    nextAttemptAt: now,
+    lastError: null,
+    sentAt: null
+  });
+
+  beforeEach(() => {
+    mockPrisma = {
+      channelOutboxMessage: {
+        createMany: jest.fn(),
+        findUnique: jest.fn(),
+        update: jest.fn()
+      },
+      roomTypeInventory: { updateMany: jest.fn().mockResolvedValue({ count: 2 }) },
+      stayRestriction: { deleteMany: jest.fn().mockResolvedValue({ count: 3 }) },
+      rate: { findUnique: jest.fn().mockResolvedValue({ id: 'rate-1', applicableChannels: ['DIRECT', 'OTA', 'GDS'] }) },
+      $transaction: jest.fn().mockImplementation((callback: any) => callback(mockPrisma))
+    };
+
+    service = new ChannelOutboxService(mockPrisma);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should queue availability for every connected channel', async () => {
+    const channels = await service.queue({
+      type: AriUpdateType.AVAILABILITY,
+      roomType: RoomType.DELUXE,
+      startDate: new Date('2024-09-01T15:00:00'),
+      endDate: new Date('2024-09-03T00:00:00')
+    });
+
+    expect(channels).toEqual([
+      DistributionChannel.OTA,
+      DistributionChannel.GDS,
+      DistributionChannel.CORPORATE,
+      DistributionChannel.WHOLESALE
+    ]);
+    expect(mockPrisma.channelOutboxMessage.createMany.mock.calls[0][0].data[0]).toEqual(expect.objectContaining({
+      channel: DistributionChannel.OTA,
+      startDate: new Date('2024-09-01T00:00:00'),
+      status: ChannelOutboxStatus.PENDING,
+      attempts: 0
+    }));
+  });
+
+  it('should queue rate changes only for the connected channels the rate is sold on', async () => {
+    const channels = await service.queue({
+      type: AriUpdateType.RATE,
+      rateId: 'rate-1',
+      startDate: new Date('2024-09-01T00:00:00'),
+      endDate: new Date('2024-09-30T00:00:00')
+    });
+
+    expect(channels).toEqual([DistributionChannel.OTA, DistributionChannel.GDS]);
+  });
+
+  it('should queue released inventory nights in the release transaction', async () => {
+    await new InventoryService(mockPrisma, service).release(
+      RoomType.DELUXE,
+      new Date('2024-09-01T00:00:00'),
+      new Date('2024-09-03T00:00:00')
+    );
+
+    expect(mockPrisma.$transaction).toHaveBeenCalled();
+    expect(mockPrisma.channelOutboxMessage.createMany.mock.calls[0][0].data[0]).toEqual(expect.objectContaining({
+      channel: DistributionChannel.OTA,
+      type: AriUpdateType.AVAILABILITY,
+      startDate: new Date('2024-09-01T00:00:00'),
+      endDate: new Date('2024-09-02T00:00:00')
+    }));
+  });
+
+  it('should queue cleared restrictions for the channels the rate is sold on', async () => {
+    await new StayRestrictionService(mockPrisma, service).clearRestrictions(
+      'rate-1',
+      RoomType.DELUXE,
+      new Date('2024-12-01T00:00:00'),
+      new Date('2024-12-14T00:00:00'),
+      'revenue-1'
+    );
+
+    expect(mockPrisma.channelOutboxMessage.createMany.mock.calls[0][0].data).toEqual([
+      expect.objectContaining({ channel: DistributionChannel.OTA, type: AriUpdateType.RESTRICTION, rateId: 'rate-1' }),
+      expect.objectContaining({ channel: DistributionChannel.GDS, type: AriUpdateType.RESTRICTION, rateId: 'rate-1' })
+    ]);
+  });
+
+  it('should back off exponentially and fail the message after the last attempt', async () => {
+    await service.markFailed([message(2)], 'Channel manager responded 503', now);
+
+    expect(mockPrisma.channelOutboxMessage.update).toHaveBeenCalledWith({
+      where: { id: 'message-1' },
+      data: expect.objectContaining({
+        attempts: 3,
+        status: ChannelOutboxStatus.PENDING,
+        nextAttemptAt: new Date(now.getTime() + 2 * 60 * 1000)
+      })
+    });
+
+    await service.markFailed([message(MAX_OUTBOX_ATTEMPTS - 1)], 'Channel manager responded 503', now);
+
+    expect(mockPrisma.channelOutboxMessage.update).toHaveBeenLastCalledWith({
+      where: { id: 'message-1' },
+      data: expect.objectContaining({ status: ChannelOutboxStatus.FAILED, lastError: 'Channel manager responded 503' })
+    });
+  });
+
+  it('should only retry a failed message', async () => {
+    mockPrisma.channelOutboxMessage.findUnique.mockResolvedValue(message(1));
+
+    await expect(service.retry('message-1')).rejects.toMatchObject({ code: ErrorCode.BUSINESS_RULE_VIOLATION });
+    expect(mockPrisma.channelOutboxMessage.update).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,214 @@
+/**
+ * @fileoverview Unit tests for group blocks covering rooming-list pickup, pickup reporting and
+ * release of unpicked rooms at the cutoff date.
+ * @version 1.0.0
+ */
+
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals'; // v29.0.0
+import { GroupBlockService } from '../../src/services/group-block.service';
+import { GroupBlockStatus } from '../../src/models/group-block.model';
+import { BookingStatus } from '../../src/models/booking.model';
+import { TaxBasis, calculateTaxes } from '../../../shared/models/tax.model';
+import { ErrorCode } from '../../../shared/constants/error-codes';
+
+jest.mock('../../src/config/database', () => ({ prisma: {} }));
+jest.mock('../../../shared/services/business-date.service', () => ({
+  BusinessDateService: jest.fn()
+}));
+jest.mock('../../src/services/waitlist.service', () => ({
+  WaitlistService: jest.fn()
+}));
+
+describe('GroupBlockService', () => {
+  const businessDate = new Date('2024-10-01T00:00:00');
+  let service: GroupBlockService;
+  let mockPrisma: any;
+  let mockInventory: any;
+  let mockWaitlist: any;
+  let mockTaxes: any;
+
+  // 10% VAT and a city tax of 2.00 per guest per night on rooms
+  const taxRules: any[] = [
+    { code: 'VAT', basis: TaxBasis.PERCENTAGE, rate: 10 },
+    { code: 'CITY', basis: TaxBasis.PER_PERSON_PER_NIGHT, rate: 2 }
+  ].map(rule => ({
+    ...rule,
+    name: rule.code,
+    jurisdiction: 'FR',
+    chargeCategories: ['ROOM'],
+    inclusive: false,
+    exemptAfterNights: null,
+    effectiveFrom: new Date('2024-01-01T00:00:00'),
+    effectiveTo: null
+  }));
+
+  const allotment = (id: string, date: string, contractedRooms: number, pickedUpRooms = 0) => ({
+    id,
+    groupBlockId: 'block-1',
+    roomType: 'DELUXE',
+    date: new Date(`${date}T00:00:00`),
+    contractedRooms,
+    pickedUpRooms,
+    releasedRooms: 0
+  });
+
+  const block = (overrides: Record<string, unknown> = {}) => ({
+    id: 'block-1',
+    groupCode: 'WED2024',
+    name: 'Smith Wedding',
+    rateId: 'rate-1',
+    cutoffDate: new Date('2024-10-05T00:00:00'),
+    status: GroupBlockStatus.ACTIVE,
+    releasedAt: null,
+    allotments: [
+      allotment('allot-1', '2024-10-10', 10, 6),
+      allotment('allot-2', '2024-10-11', 10, 2)
+    ],
+    ...overrides
+  });
+
+  beforeEach(() => {
+    const tx = {
+      groupBlock: {
+        updateMany: jest.fn().mockResolvedValue({ count: 1 }),
+        findUnique: jest.fn().mockResolvedValue(block({ status: GroupBlockStatus.RELEASED }))
+      },
+      groupBlockAllotment: {
+        findMany: jest.fn().mockResolvedValue([
+          allotment('allot-1', '2024-10-10', 10, 6),
+          allotment('allot-2', '2024-10-11', 10, 2)
+        ]),
+        updateMany: jest.fn().mockResolvedValue({ count: 1 }),
+        update: jest.fn()
+      },
+      booking: {
+        create: jest.fn().mockImplementation(({ data }: any) => Promise.resolve({ id: 'booking-1', ...data }))
+      }
+    };
+
+    mockPrisma = {
+      groupBlock: {
+        findUnique: jest.fn().mockResolvedValue(block()),
+        findMany: jest.fn().mockResolvedValue([])
+      },
+      rate: {
+        findUnique: jest.fn().mockResolvedValue({ id: 'rate-1', baseRate: 150 })
+      },
+      $transaction: jest.fn().mockImplementation((callback: any) => callback(tx)),
+      tx
+    };
+
+    mockInventory = { allocate: jest.fn(), release: jest.fn() };
+    mockWaitlist = { offerReleasedInventory: jest.fn().mockResolvedValue(null) };
+    mockTaxes = {
+      calculate: jest.fn((charges: any[]) => Promise.resolve(charges.map(charge => calculateTaxes(charge, taxRules))))
+    };
+
+    service = new GroupBlockService(mockPrisma, {
+      getBusinessDate: jest.fn().mockResolvedValue(businessDate)
+    } as any, mockInventory, mockWaitlist, mockTaxes);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should book rooming-list rows at the group rate against the block', async () => {
+    const result = await service.importRoomingList('block-1', [{
+      guestId: 'guest-1',
+      roomType: 'DELUXE' as any,
+      checkInDate: new Date('2024-10-10T00:00:00'),
+      checkOutDate: new Date('2024-10-12T00:00:00'),
+      numberOfGuests: 2
+    }], 'sales-1');
+
+    expect(result.created).toHaveLength(1);
+    expect(mockPrisma.tx.groupBlockAllotment.updateMany).toHaveBeenCalledWith({
+      where: { id: 'allot-1', pickedUpRooms: 6 },
+      data: { pickedUpRooms: { increment: 1 } }
+    });
+    expect(mockPrisma.tx.booking.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        groupBlockId: 'block-1',
+        status: BookingStatus.CONFIRMED,
+        totalAmount: 338,
+        taxAmount: 38
+      })
+    });
+    expect(mockInventory.allocate).not.toHaveBeenCalled();
+  });
+
+  it('should reject rows for nights the block does not cover and book the rest', async () => {
+    const result = await service.importRoomingList('block-1', [
+      {
+        guestId: 'guest-1',
+        roomType: 'DELUXE' as any,
+        checkInDate: new Date('2024-10-11T00:00:00'),
+        checkOutDate: new Date('2024-10-13T00:00:00'),
+        numberOfGuests: 2
+      },
+      {
+        guestId: 'guest-2',
+        roomType: 'DELUXE' as any,
+        checkInDate: new Date('2024-10-10T00:00:00'),
+        checkOutDate: new Date('2024-10-11T00:00:00'),
+        numberOfGuests: 1
+      }
+    ], 'sales-1');
+
+    expect(result.rejected).toEqual([expect.objectContaining({ row: 1, guestId: 'guest-1' })]);
+    expect(result.created).toEqual([expect.objectContaining({ row: 2 })]);
+  });
+
+  it('should report pickup against contracted room nights', async () => {
+    const report = await service.getPickupReport('block-1');
+
+    expect(report.totals).toEqual({
+      contractedRoomNights: 20,
+      pickedUpRoomNights: 8,
+      releasedRoomNights: 0,
+      pickupPercent: 40
+    });
+    expect(report.lines[0].remainingRooms).toBe(4);
+  });
+
+  it('should return unpicked rooms to inventory once the cutoff has passed', async () => {
+    mockPrisma.groupBlock.findMany.mockResolvedValue([block({ cutoffDate: new Date('2024-09-30T00:00:00') })]);
+
+    const released = await service.releaseExpiredBlocks('auditor-1');
+
+    expect(released).toBe(1);
+    expect(mockPrisma.tx.groupBlock.updateMany).toHaveBeenCalledWith(expect.objectContaining({
+      where: { id: 'block-1', status: GroupBlockStatus.ACTIVE },
+      data: expect.objectContaining({ status: GroupBlockStatus.RELEASED })
+    }));
+    expect(mockInventory.release).toHaveBeenCalledWith(
+      'DELUXE',
+      new Date('2024-10-10T00:00:00'),
+      new Date('2024-10-11T00:00:00'),
+      4,
+      mockPrisma.tx
+    );
+    expect(mockInventory.release).toHaveBeenCalledWith(
+      'DELUXE',
+      new Date('2024-10-11T00:00:00'),
+      new Date('2024-10-12T00:00:00'),
+      8,
+      mockPrisma.tx
+    );
+    expect(mockWaitlist.offerReleasedInventory).toHaveBeenCalledWith(
+      'DELUXE',
+      new Date('2024-10-10T00:00:00'),
+      new Date('2024-10-12T00:00:00'),
+      'auditor-1'
+    );
+  });
+
+  it('should not pick up rooms from a released block', async () => {
+    mockPrisma.groupBlock.findUnique.mockResolvedValue(block({ status: GroupBlockStatus.RELEASED }));
+
+    await expect(service.importRoomingList('block-1', [], 'sales-1')).rejects.toMatchObject({
+      code: ErrorCode.BUSINESS_RULE_VIOLATION
+    });
+  });
+});
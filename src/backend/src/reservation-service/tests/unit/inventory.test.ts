@@ -0,0 +1,95 @@
+/**
+ * @fileoverview Unit tests for room-type inventory allocation and release across the nights of a stay.
+ * @version 1.0.0
+ */
+
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals'; // v29.0.0
+import { InventoryService } from '../../src/services/inventory.service';
+import { ErrorCode } from '../../../shared/constants/error-codes';
+
+jest.mock('../../src/config/database', () => ({ prisma: {} }));
+jest.mock('../../src/services/channel-outbox.service', () => ({
+  ChannelOutboxService: jest.fn().mockImplementation(() => ({ queue: jest.fn() }))
+}));
+
+describe('InventoryService', () => {
+  const checkIn = new Date('2024-09-01T00:00:00');
+  const checkOut = new Date('2024-09-03T00:00:00');
+  let service: InventoryService;
+  let mockPrisma: any;
+
+  const night = (id: string, date: string, allocatedRooms: number, totalRooms = 10) => ({
+    id,
+    roomType: 'DELUXE',
+    date: new Date(`${date}T00:00:00`),
+    totalRooms,
+    allocatedRooms
+  });
+
+  beforeEach(() => {
+    mockPrisma = {
+      roomTypeInventory: {
+        findMany: jest.fn().mockResolvedValue([
+          night('inv-1', '2024-09-01', 4),
+          night('inv-2', '2024-09-02', 9)
+        ]),
+        upsert: jest.fn(),
+        updateMany: jest.fn().mockResolvedValue({ count: 1 })
+      },
+      room: {
+        count: jest.fn().mockResolvedValue(10)
+      },
+      $transaction: jest.fn().mockImplementation((callback: any) => callback(mockPrisma))
+    };
+
+    service = new InventoryService(mockPrisma);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should allocate every night of the stay guarded on the count read', async () => {
+    await service.allocate('DELUXE' as any, checkIn, checkOut);
+
+    expect(mockPrisma.roomTypeInventory.updateMany).toHaveBeenCalledTimes(2);
+    expect(mockPrisma.roomTypeInventory.updateMany).toHaveBeenCalledWith({
+      where: { id: 'inv-2', allocatedRooms: 9 },
+      data: { allocatedRooms: { increment: 1 } }
+    });
+  });
+
+  it('should reject the stay when any night is sold out', async () => {
+    mockPrisma.roomTypeInventory.findMany.mockResolvedValue([
+      night('inv-1', '2024-09-01', 4),
+      night('inv-2', '2024-09-02', 10)
+    ]);
+
+    await expect(service.allocate('DELUXE' as any, checkIn, checkOut)).rejects.toMatchObject({
+      code: ErrorCode.RESOURCE_CONFLICT
+    });
+  });
+
+  it('should reject the stay when another booking takes the last room concurrently', async () => {
+    mockPrisma.roomTypeInventory.updateMany
+      .mockResolvedValueOnce({ count: 1 })
+      .mockResolvedValueOnce({ count: 0 });
+
+    await expect(service.allocate('DELUXE' as any, checkIn, checkOut)).rejects.toMatchObject({
+      code: ErrorCode.RESOURCE_CONFLICT
+    });
+  });
+
+  it('should create missing nights from the sellable room count', async () => {
+    mockPrisma.roomTypeInventory.findMany.mockResolvedValue([]);
+    mockPrisma.roomTypeInventory.upsert.mockImplementation(({ create }: any) => Promise.resolve({ id: 'new', ...create }));
+
+    const availability = await service.getAvailability('DELUXE' as any, checkIn, checkOut);
+
+    expect(mockPrisma.room.count).toHaveBeenCalledWith({
+      where: { type: 'DELUXE', isActive: true, status: { not: 'OUT_OF_ORDER' } }
+    });
+    expect(availability).toHaveLength(2);
+    expect(availability[0].availableRooms).toBe(10);
+  });
+});
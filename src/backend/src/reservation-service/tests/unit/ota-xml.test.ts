@@ -0,0 +1,279 @@
+/**
+ * @fileoverview Unit tests for the OpenTravel XML service covering reservation, restriction and
+ * rate amount notifications against the OTA fixtures, schema errors and RS warnings.
+ * @version 1.0.0
+ */
+
+// External imports
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals'; // v29.0.0
+import { readFileSync } from 'fs';
+import { join } from 'path';
+
+// Internal imports
+import { OtaXmlService } from '../../src/services/ota-xml.service';
+import {
+  AriUpdateType,
+  DistributionChannel,
+  OtaIngestStatus,
+  OtaReservationAction
+} from '../../src/models/channel.model';
+import { RoomType } from '../../../room-service/src/models/room.model';
+import { TaxBasis } from '../../../shared/models/tax.model';
+import { ErrorCode } from '../../../shared/constants/error-codes';
+
+jest.mock('../../src/config/database', () => ({ prisma: {} }));
+jest.mock('../../../shared/services/business-date.service', () => ({
+  BusinessDateService: jest.fn()
+}));
+
+const fixture = (name: string): string => readFileSync(join(__dirname, '../fixtures/ota', name), 'utf8');
+
+describe('OtaXmlService', () => {
+  let service: OtaXmlService;
+  let mockPrisma: any;
+  let mockChannelManager: any;
+  let mockOutbox: any;
+  let mockStayRestrictions: any;
+  let mockRateHierarchy: any;
+  let mockTaxes: any;
+
+  const rate = {
+    id: 'rate-1',
+    rateCode: 'BAR',
+    baseRate: 200,
+    minimumRate: 100,
+    maximumRate: 500,
+    currencyCode: 'USD',
+    effectiveTo: new Date('2025-12-31T00:00:00'),
+    seasonalModifiers: [],
+    channelRules: {}
+  };
+
+  const vat = {
+    id: 'tax-1',
+    code: 'VAT',
+    name: 'Sales tax',
+    jurisdiction: 'US',
+    chargeCategories: ['ROOM'],
+    basis: TaxBasis.PERCENTAGE,
+    rate: 10,
+    inclusive: false,
+    exemptAfterNights: null,
+    effectiveFrom: new Date('2024-01-01T00:00:00'),
+    effectiveTo: null
+  };
+
+  beforeEach(() => {
+    mockPrisma = {
+      rate: {
+        findFirst: jest.fn().mockResolvedValue(rate),
+        findUnique: jest.fn().mockResolvedValue(rate),
+        update: jest.fn()
+      },
+      $transaction: jest.fn((callback: any) => callback(mockPrisma))
+    };
+    mockChannelManager = {
+      ingestReservation: jest.fn().mockResolvedValue({
+        channel: DistributionChannel.OTA,
+        confirmationNumber: 'OTA-1001',
+        status: OtaIngestStatus.CREATED,
+        bookingId: 'booking-1'
+      })
+    };
+    mockOutbox = { queue: jest.fn() };
+    mockStayRestrictions = { setRestrictions: jest.fn() };
+    mockRateHierarchy = { updateBaseRate: jest.fn() };
+    mockTaxes = { getRules: jest.fn().mockResolvedValue([vat]) };
+
+    service = new OtaXmlService(
+      mockChannelManager, mockPrisma, mockOutbox, mockStayRestrictions, mockRateHierarchy, mockTaxes, 'HOTEL1'
+    );
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('OTA_HotelResNotifRQ', () => {
+    it('should map a new reservation and return its booking reference', async () => {
+      const response = await service.handle(DistributionChannel.OTA, fixture('res-notif-new.xml'));
+
+      expect(mockChannelManager.ingestReservation).toHaveBeenCalledWith(DistributionChannel.OTA, {
+        action: OtaReservationAction.NEW,
+        confirmationNumber: 'OTA-1001',
+        revision: Date.parse('2024-08-01T09:58:00Z') / 1000,
+        guestId: '0b0e8d6a-5f7c-4c1e-9a51-3d2f7b8c9e10',
+        guestName: 'Ada Lovelace',
+        roomType: RoomType.DELUXE,
+        rateId: 'rate-1',
+        checkInDate: new Date('2024-09-01T00:00:00'),
+        checkOutDate: new Date('2024-09-04T00:00:00'),
+        numberOfGuests: 3,
+        totalAmount: 660,
+        currencyCode: 'USD',
+        specialRequests: 'Late arrival'
+      });
+      expect(response).toContain('<OTA_HotelResNotifRS xmlns="http://www.opentravel.org/OTA/2003/05" EchoToken="res-1001"');
+      expect(response).toContain('<Success/>');
+      expect(response).toContain('<UniqueID Type="14" ID="OTA-1001"/>');
+      expect(response).toContain('<HotelReservationID ResID_Type="10" ResID_Value="booking-1"/>');
+    });
+
+    it('should map modifications and cancellations with the last modification as revision', async () => {
+      await service.handle(DistributionChannel.OTA, fixture('res-notif-modify.xml'));
+      await service.handle(DistributionChannel.OTA, fixture('res-notif-cancel.xml'));
+
+      const [[, modification], [, cancellation]] = mockChannelManager.ingestReservation.mock.calls;
+      expect(modification).toEqual(expect.objectContaining({
+        action: OtaReservationAction.MODIFY,
+        revision: Date.parse('2024-08-05T12:00:00Z') / 1000,
+        checkOutDate: new Date('2024-09-05T00:00:00'),
+        totalAmount: 880
+      }));
+      expect(cancellation).toEqual(expect.objectContaining({
+        action: OtaReservationAction.CANCEL,
+        revision: Date.parse('2024-08-10T08:30:00Z') / 1000
+      }));
+    });
+
+    it('should warn about a revision already processed', async () => {
+      mockChannelManager.ingestReservation.mockResolvedValue({
+        channel: DistributionChannel.OTA,
+        confirmationNumber: 'OTA-1001',
+        status: OtaIngestStatus.DUPLICATE,
+        bookingId: 'booking-1'
+      });
+
+      const response = await service.handle(DistributionChannel.OTA, fixture('res-notif-new.xml'));
+
+      expect(response).toContain('<Success/>');
+      expect(response).toMatch(/<Warning Type="11" RecordID="OTA-1001"/);
+    });
+
+    it('should report a rejected reservation with its OTA error code', async () => {
+      mockChannelManager.ingestReservation.mockResolvedValue({
+        channel: DistributionChannel.OTA,
+        confirmationNumber: 'OTA-1001',
+        status: OtaIngestStatus.REJECTED,
+        error: 'Room type is sold out for the requested dates',
+        errorCode: ErrorCode.RESOURCE_CONFLICT
+      });
+
+      const response = await service.handle(DistributionChannel.OTA, fixture('res-notif-new.xml'));
+
+      expect(response).not.toContain('<Success/>');
+      expect(response).toMatch(/<Error Type="3" Code="322" RecordID="OTA-1001" ShortText="Room type is sold out/);
+    });
+
+    it('should return every schema error and apply nothing', async () => {
+      const response = await service.handle(DistributionChannel.OTA, fixture('res-notif-invalid.xml'));
+
+      expect(mockChannelManager.ingestReservation).not.toHaveBeenCalled();
+      expect(response).toMatch(/<Error Type="10" Code="321" RecordID="[^"]*RoomTypeCode"/);
+      expect(response).toMatch(/<Error Type="10" Code="321" RecordID="[^"]*Surname"/);
+      expect(response).toMatch(/<Error Type="3" Code="15" RecordID="[^"]*TimeSpan\/Start"/);
+    });
+
+    it('should reject an unknown rate plan', async () => {
+      mockPrisma.rate.findFirst.mockResolvedValue(null);
+
+      const response = await service.handle(DistributionChannel.OTA, fixture('res-notif-new.xml'));
+
+      expect(mockChannelManager.ingestReservation).not.toHaveBeenCalled();
+      expect(response).toContain('Code="249"');
+    });
+  });
+
+  describe('OTA_HotelAvailNotifRQ', () => {
+    it('should set dated restrictions on the calendar and undated ones on the channel rule', async () => {
+      const response = await service.handle(DistributionChannel.OTA, fixture('avail-notif.xml'));
+
+      expect(mockStayRestrictions.setRestrictions).toHaveBeenCalledWith({
+        rateId: 'rate-1',
+        roomType: RoomType.DELUXE,
+        startDate: new Date('2024-12-24T00:00:00'),
+        endDate: new Date('2024-12-31T00:00:00'),
+        daysOfWeek: [1, 2, 3, 4, 5],
+        minimumLOS: 3,
+        closedToArrival: true
+      }, 'CHANNEL_MANAGER:OTA');
+      expect(mockPrisma.rate.update).toHaveBeenCalledWith({
+        where: { id: 'rate-1' },
+        data: {
+          channelRules: {
+            OTA: expect.objectContaining({
+              channelId: 'OTA',
+              restrictions: { minimumLOS: 0, maximumLOS: 14, closedToArrival: false, closedToDeparture: false }
+            })
+          }
+        }
+      });
+      expect(mockOutbox.queue).toHaveBeenCalledWith(
+        expect.objectContaining({ type: AriUpdateType.RESTRICTION, rateId: 'rate-1' }),
+        mockPrisma
+      );
+      expect(response).toContain('<Success/>');
+      expect(response).toMatch(/<Warning Type="11" RecordID="2" ShortText="BookingLimit ignored/);
+    });
+
+    it('should apply nothing when one status message is invalid', async () => {
+      const xml = fixture('avail-notif.xml').replace('End="2024-12-31"', 'End="2024-12-20"');
+
+      const response = await service.handle(DistributionChannel.OTA, xml);
+
+      expect(mockStayRestrictions.setRestrictions).not.toHaveBeenCalled();
+      expect(mockPrisma.rate.update).not.toHaveBeenCalled();
+      expect(response).not.toContain('<Success/>');
+      expect(response).toMatch(/<Error Type="3" Code="15" RecordID="1"/);
+    });
+  });
+
+  describe('OTA_HotelRateAmountNotifRQ', () => {
+    it('should store dated amounts as seasonal adjustments and undated ones as the base rate', async () => {
+      const response = await service.handle(DistributionChannel.OTA, fixture('rate-amount-notif.xml'));
+
+      expect(mockPrisma.rate.update).toHaveBeenNthCalledWith(1, {
+        where: { id: 'rate-1' },
+        data: {
+          seasonalModifiers: [expect.objectContaining({
+            startDate: new Date('2024-12-20T00:00:00'),
+            endDate: new Date('2024-12-31T00:00:00'),
+            adjustmentType: 'FIXED',
+            adjustmentValue: 50
+          })]
+        }
+      });
+      expect(mockPrisma.rate.update).toHaveBeenCalledTimes(1);
+      // The after-tax amount is split with the taxes in force; the base rate is set through the
+      // hierarchy so derived rates follow it
+      expect(mockRateHierarchy.updateBaseRate).toHaveBeenCalledWith('rate-1', 200, 'CHANNEL_MANAGER:OTA');
+      expect(mockOutbox.queue).toHaveBeenCalledWith(expect.objectContaining({ type: AriUpdateType.RATE }), mockPrisma);
+      expect(response).toContain('<OTA_HotelRateAmountNotifRS');
+      expect(response).toContain('<Success/>');
+    });
+
+    it('should reject an undated amount for a derived rate', async () => {
+      mockPrisma.rate.findFirst.mockResolvedValue({ ...rate, parentRateId: 'rate-0' });
+
+      const response = await service.handle(DistributionChannel.OTA, fixture('rate-amount-notif.xml'));
+
+      expect(mockPrisma.rate.update).not.toHaveBeenCalled();
+      expect(mockRateHierarchy.updateBaseRate).not.toHaveBeenCalled();
+      expect(response).toMatch(/<Error Type="3" Code="450" RecordID="2"/);
+    });
+
+    it('should reject an amount in another currency', async () => {
+      const xml = fixture('rate-amount-notif.xml').replace('Rate CurrencyCode="USD"', 'Rate CurrencyCode="EUR"');
+
+      const response = await service.handle(DistributionChannel.OTA, xml);
+
+      expect(mockPrisma.rate.update).not.toHaveBeenCalled();
+      expect(response).toMatch(/<Error Type="3" Code="61" RecordID="1"/);
+    });
+  });
+
+  it('should refuse a document that is not well-formed', async () => {
+    await expect(service.handle(DistributionChannel.OTA, '<OTA_HotelResNotifRQ>'))
+      .rejects.toMatchObject({ code: ErrorCode.VALIDATION_ERROR });
+  });
+});
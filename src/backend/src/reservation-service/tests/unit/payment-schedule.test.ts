@@ -0,0 +1,128 @@
+/**
+ * @fileoverview Unit tests for payment schedules covering installment amounts and due dates
+ * derived from the rate's deposit policy.
+ * @version 1.0.0
+ */
+
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals'; // v29.0.0
+import { PaymentScheduleService } from '../../src/services/payment-schedule.service';
+import {
+  DepositCollectionMode,
+  DepositRuleType,
+  InstallmentStatus
+} from '../../src/models/payment-schedule.model';
+import { ErrorCode } from '../../../shared/constants/error-codes';
+
+jest.mock('../../src/config/database', () => ({ prisma: {} }));
+jest.mock('../../../shared/services/business-date.service', () => ({
+  BusinessDateService: jest.fn()
+}));
+
+describe('PaymentScheduleService', () => {
+  const businessDate = new Date('2024-10-01T00:00:00');
+  let service: PaymentScheduleService;
+  let mockPrisma: any;
+
+  // Three nights at 100 plus 12 tax each
+  const booking = {
+    id: 'booking-1',
+    bookingNumber: 'BK001',
+    guestId: 'guest-1',
+    rateId: 'rate-1',
+    checkInDate: new Date('2024-10-20T00:00:00'),
+    checkOutDate: new Date('2024-10-23T00:00:00'),
+    totalAmount: 336,
+    taxAmount: 36
+  } as any;
+
+  const rate = (rules: unknown[]) => ({ id: 'rate-1', currencyCode: 'USD', depositPolicy: { rules } });
+
+  beforeEach(() => {
+    mockPrisma = {
+      rate: { findUnique: jest.fn() },
+      paymentSchedule: {
+        create: jest.fn().mockImplementation(({ data }: any) => Promise.resolve({
+          id: 'schedule-1',
+          ...data,
+          installments: data.installments.create
+        })),
+        findUnique: jest.fn().mockResolvedValue(null)
+      },
+      paymentInstallment: {
+        updateMany: jest.fn().mockResolvedValue({ count: 2 })
+      }
+    };
+
+    service = new PaymentScheduleService(mockPrisma, {
+      getBusinessDate: jest.fn().mockResolvedValue(businessDate)
+    } as any);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should schedule a first-night deposit now and the balance before arrival', async () => {
+    mockPrisma.rate.findUnique.mockResolvedValue(rate([
+      { type: DepositRuleType.FIRST_NIGHT, collectionMode: DepositCollectionMode.CAPTURE },
+      { type: DepositRuleType.FULL_PREPAY, collectionMode: DepositCollectionMode.CAPTURE, dueDaysBeforeArrival: 7 }
+    ]));
+
+    const schedule = await service.createSchedule(booking, 'tok_visa');
+
+    expect(schedule?.cardToken).toBe('tok_visa');
+    expect(schedule?.installments).toEqual([
+      expect.objectContaining({
+        sequence: 1,
+        amount: 112,
+        dueDate: businessDate,
+        status: InstallmentStatus.SCHEDULED
+      }),
+      expect.objectContaining({
+        sequence: 2,
+        amount: 224,
+        dueDate: new Date('2024-10-13T00:00:00')
+      })
+    ]);
+  });
+
+  it('should never schedule more than the stay total', async () => {
+    mockPrisma.rate.findUnique.mockResolvedValue(rate([
+      { type: DepositRuleType.PERCENTAGE, value: 50, collectionMode: DepositCollectionMode.AUTHORIZE },
+      { type: DepositRuleType.PERCENTAGE, value: 75, collectionMode: DepositCollectionMode.CAPTURE, dueDaysAfterBooking: 3 }
+    ]));
+
+    const schedule = await service.createSchedule(booking);
+
+    expect(schedule?.installments.map(installment => installment.amount)).toEqual([168, 168]);
+    expect(schedule?.installments[1].dueDate).toEqual(new Date('2024-10-04T00:00:00'));
+  });
+
+  it('should not create a schedule for a rate without deposit policy', async () => {
+    mockPrisma.rate.findUnique.mockResolvedValue({ id: 'rate-1', depositPolicy: null });
+
+    const schedule = await service.createSchedule(booking);
+
+    expect(schedule).toBeNull();
+    expect(mockPrisma.paymentSchedule.create).not.toHaveBeenCalled();
+  });
+
+  it('should cancel only outstanding installments', async () => {
+    const cancelled = await service.cancelSchedule('booking-1');
+
+    expect(cancelled).toBe(2);
+    expect(mockPrisma.paymentInstallment.updateMany).toHaveBeenCalledWith({
+      where: {
+        schedule: { bookingId: 'booking-1' },
+        status: { in: [InstallmentStatus.SCHEDULED, InstallmentStatus.FAILED] }
+      },
+      data: expect.objectContaining({ status: InstallmentStatus.CANCELLED })
+    });
+  });
+
+  it('should report a booking without schedule', async () => {
+    await expect(service.getSchedule('booking-1')).rejects.toMatchObject({
+      code: ErrorCode.RESOURCE_NOT_FOUND
+    });
+  });
+});
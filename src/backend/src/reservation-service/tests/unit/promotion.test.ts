@@ -0,0 +1,254 @@
+/**
+ * @fileoverview Unit tests for promotion codes covering booking and stay windows, stay
+ * conditions, usage caps, stacking rules and redemption tracking.
+ * @version 1.0.0
+ */
+
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals'; // v29.0.0
+import { PromotionService } from '../../src/services/promotion.service';
+import { PromoRedemptionStatus, promotionModifiers } from '../../src/models/promotion.model';
+import { RoomType } from '../../../room-service/src/models/room.model';
+import { ErrorCode } from '../../../shared/constants/error-codes';
+
+jest.mock('../../src/config/database', () => ({ prisma: {} }));
+jest.mock('../../../shared/services/business-date.service', () => ({
+  BusinessDateService: jest.fn()
+}));
+
+describe('PromotionService', () => {
+  let service: PromotionService;
+  let mockPrisma: any;
+  let mockBusinessDates: any;
+
+  const stay = {
+    rateId: 'rate-1',
+    roomType: RoomType.DELUXE,
+    checkInDate: new Date('2024-08-10T00:00:00'),
+    checkOutDate: new Date('2024-08-13T00:00:00'),
+    guestId: 'guest-1'
+  };
+
+  const promoCode = (code: string, overrides: Record<string, unknown> = {}) => ({
+    id: `promo-${code}`,
+    code,
+    name: code,
+    description: null,
+    discountPercentage: 10,
+    validFrom: new Date('2024-06-01T00:00:00'),
+    validTo: new Date('2024-08-31T00:00:00'),
+    minimumLeadDays: null,
+    maximumLeadDays: null,
+    stayFrom: null,
+    stayTo: null,
+    minimumNights: null,
+    eligibleRoomTypes: [],
+    maxRedemptions: null,
+    maxRedemptionsPerGuest: null,
+    redemptionCount: 0,
+    stackable: false,
+    appliesToPromotionalRates: false,
+    isActive: true,
+    createdBy: 'marketing-1',
+    ...overrides
+  });
+
+  // One night at 90 after a 10% code, plus 9 tax
+  const night = (date: string) => ({
+    rateId: 'rate-1',
+    date: new Date(`${date}T00:00:00`),
+    baseRate: 100,
+    adjustmentAmount: -10,
+    adjustmentReason: 'Promo SUMMER -10%',
+    taxRate: 0.1,
+    taxAmount: 9,
+    totalRate: 99,
+    breakdown: {
+      seasonalAdjustment: 0,
+      occupancyAdjustment: 0,
+      losAdjustment: 0,
+      yieldAdjustment: 0,
+      promotionAdjustment: -10,
+      channelMarkup: 0,
+      taxes: 9
+    }
+  });
+
+  beforeEach(() => {
+    mockPrisma = {
+      promoCode: {
+        findMany: jest.fn().mockResolvedValue([promoCode('SUMMER')]),
+        updateMany: jest.fn().mockResolvedValue({ count: 1 })
+      },
+      promoRedemption: {
+        count: jest.fn().mockResolvedValue(0),
+        create: jest.fn().mockImplementation(({ data }: any) => Promise.resolve({ id: 'redemption-1', ...data })),
+        findMany: jest.fn().mockResolvedValue([]),
+        update: jest.fn()
+      },
+      rate: {
+        findUnique: jest.fn().mockResolvedValue({ isPromotional: false })
+      }
+    };
+
+    mockBusinessDates = {
+      getBusinessDate: jest.fn().mockResolvedValue(new Date('2024-07-01T00:00:00'))
+    };
+
+    service = new PromotionService(mockPrisma, mockBusinessDates);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should accept a code entered in any case and build its pricing modifier', async () => {
+    const promotions = await service.validateCodes([' summer '], stay);
+
+    expect(promotions.map(promotion => promotion.code)).toEqual(['SUMMER']);
+    expect(promotionModifiers(promotions)).toEqual({ 'Promo SUMMER': -0.1 });
+  });
+
+  it('should reject an unknown code', async () => {
+    mockPrisma.promoCode.findMany.mockResolvedValue([]);
+
+    await expect(service.validateCodes(['WINTER'], stay)).rejects.toMatchObject({
+      code: ErrorCode.BUSINESS_RULE_VIOLATION
+    });
+  });
+
+  it('should reject a code outside its validity window', async () => {
+    mockBusinessDates.getBusinessDate.mockResolvedValue(new Date('2024-09-01T00:00:00'));
+
+    await expect(service.validateCodes(['SUMMER'], stay)).rejects.toMatchObject({
+      code: ErrorCode.BUSINESS_RULE_VIOLATION
+    });
+  });
+
+  it('should enforce the booking window on the days before arrival', async () => {
+    mockPrisma.promoCode.findMany.mockResolvedValue([promoCode('EARLY', { minimumLeadDays: 60 })]);
+
+    await expect(service.validateCodes(['EARLY'], stay)).rejects.toMatchObject({
+      code: ErrorCode.BUSINESS_RULE_VIOLATION,
+      details: expect.objectContaining({ reason: 'Book at least 60 days before arrival' })
+    });
+  });
+
+  it('should require every night of the stay inside the stay window', async () => {
+    mockPrisma.promoCode.findMany.mockResolvedValue([promoCode('SUMMER', {
+      stayFrom: new Date('2024-08-01T00:00:00'),
+      stayTo: new Date('2024-08-11T00:00:00')
+    })]);
+
+    await expect(service.validateCodes(['SUMMER'], stay)).rejects.toMatchObject({
+      code: ErrorCode.BUSINESS_RULE_VIOLATION
+    });
+
+    // Checking out the day after the window ends is allowed
+    await expect(service.validateCodes(['SUMMER'], {
+      ...stay,
+      checkOutDate: new Date('2024-08-12T00:00:00')
+    })).resolves.toHaveLength(1);
+  });
+
+  it('should reject stays shorter than the minimum or in other room types', async () => {
+    mockPrisma.promoCode.findMany.mockResolvedValue([promoCode('LONG', { minimumNights: 4 })]);
+    await expect(service.validateCodes(['LONG'], stay)).rejects.toMatchObject({
+      code: ErrorCode.BUSINESS_RULE_VIOLATION
+    });
+
+    mockPrisma.promoCode.findMany.mockResolvedValue([promoCode('SUITES', { eligibleRoomTypes: [RoomType.SUITE] })]);
+    await expect(service.validateCodes(['SUITES'], stay)).rejects.toMatchObject({
+      code: ErrorCode.BUSINESS_RULE_VIOLATION
+    });
+  });
+
+  it('should not discount a promotional rate unless the code allows it', async () => {
+    mockPrisma.rate.findUnique.mockResolvedValue({ isPromotional: true });
+
+    await expect(service.validateCodes(['SUMMER'], stay)).rejects.toMatchObject({
+      code: ErrorCode.BUSINESS_RULE_VIOLATION
+    });
+  });
+
+  it('should enforce the usage caps per code and per guest', async () => {
+    mockPrisma.promoCode.findMany.mockResolvedValue([promoCode('SUMMER', { maxRedemptions: 100, redemptionCount: 100 })]);
+    await expect(service.validateCodes(['SUMMER'], stay)).rejects.toMatchObject({
+      code: ErrorCode.BUSINESS_RULE_VIOLATION
+    });
+
+    mockPrisma.promoCode.findMany.mockResolvedValue([promoCode('SUMMER', { maxRedemptionsPerGuest: 1 })]);
+    mockPrisma.promoRedemption.count.mockResolvedValue(1);
+    await expect(service.validateCodes(['SUMMER'], stay)).rejects.toMatchObject({
+      code: ErrorCode.BUSINESS_RULE_VIOLATION
+    });
+    expect(mockPrisma.promoRedemption.count).toHaveBeenCalledWith({
+      where: { promoCodeId: 'promo-SUMMER', guestId: 'guest-1', status: PromoRedemptionStatus.REDEEMED }
+    });
+  });
+
+  it('should only combine codes that are all stackable', async () => {
+    mockPrisma.promoCode.findMany.mockResolvedValue([
+      promoCode('SUMMER', { stackable: true }),
+      promoCode('MEMBER')
+    ]);
+    await expect(service.validateCodes(['SUMMER', 'MEMBER'], stay)).rejects.toMatchObject({
+      code: ErrorCode.VALIDATION_ERROR
+    });
+
+    mockPrisma.promoCode.findMany.mockResolvedValue([
+      promoCode('SUMMER', { stackable: true }),
+      promoCode('MEMBER', { stackable: true, discountPercentage: 5 })
+    ]);
+    const promotions = await service.validateCodes(['SUMMER', 'MEMBER'], stay);
+    expect(promotionModifiers(promotions)).toEqual({ 'Promo SUMMER': -0.1, 'Promo MEMBER': -0.05 });
+  });
+
+  it('should record redemptions with the discount given and count them below the cap', async () => {
+    const promotion = promoCode('SUMMER', { maxRedemptions: 100, redemptionCount: 12 }) as any;
+
+    const [redemption] = await service.redeem(
+      [promotion],
+      { id: 'booking-1', guestId: 'guest-1' } as any,
+      [night('2024-08-10'), night('2024-08-11')] as any,
+      mockPrisma
+    );
+
+    expect(mockPrisma.promoCode.updateMany).toHaveBeenCalledWith({
+      where: { id: 'promo-SUMMER', redemptionCount: { lt: 100 } },
+      data: { redemptionCount: { increment: 1 } }
+    });
+    expect(redemption).toMatchObject({
+      bookingId: 'booking-1',
+      code: 'SUMMER',
+      discountAmount: 20,
+      roomRevenue: 180,
+      status: PromoRedemptionStatus.REDEEMED
+    });
+  });
+
+  it('should reject the booking when the last redemption was taken concurrently', async () => {
+    mockPrisma.promoCode.updateMany.mockResolvedValue({ count: 0 });
+
+    await expect(service.redeem(
+      [promoCode('SUMMER', { maxRedemptions: 1 }) as any],
+      { id: 'booking-1', guestId: 'guest-1' } as any,
+      [night('2024-08-10')] as any,
+      mockPrisma
+    )).rejects.toMatchObject({ code: ErrorCode.RESOURCE_CONFLICT });
+    expect(mockPrisma.promoRedemption.create).not.toHaveBeenCalled();
+  });
+
+  it('should report standing redemptions by code and count reversals', async () => {
+    mockPrisma.promoRedemption.findMany.mockResolvedValue([
+      { code: 'SUMMER', status: PromoRedemptionStatus.REDEEMED, discountAmount: 20, roomRevenue: 180 },
+      { code: 'SUMMER', status: PromoRedemptionStatus.REVERSED, discountAmount: 30, roomRevenue: 270 },
+      { code: 'SUMMER', status: PromoRedemptionStatus.REDEEMED, discountAmount: 10, roomRevenue: 90 }
+    ]);
+
+    const report = await service.getRedemptionReport(new Date('2024-07-01'), new Date('2024-07-31'));
+
+    expect(report).toEqual([
+      { code: 'SUMMER', redemptions: 3, reversals: 1, discountAmount: 30, roomRevenue: 270 }
+    ]);
+  });
+});
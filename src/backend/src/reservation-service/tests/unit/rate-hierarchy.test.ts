@@ -0,0 +1,164 @@
+/**
+ * @fileoverview Unit tests for derived rates covering derivation and rounding rules, propagation of
+ * base rate changes down the hierarchy with their audit trail, and cycle detection.
+ * @version 1.0.0
+ */
+
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals'; // v29.0.0
+import { RateHierarchyService } from '../../src/services/rate-hierarchy.service';
+import {
+  RateAuditAction,
+  RateDerivationType,
+  RateRoundingMode,
+  deriveBaseRate,
+  roundRate
+} from '../../src/models/rate-derivation.model';
+import { AriUpdateType } from '../../src/models/channel.model';
+import { ErrorCode } from '../../../shared/constants/error-codes';
+
+jest.mock('../../src/config/database', () => ({ prisma: {} }));
+
+describe('RateHierarchyService', () => {
+  let service: RateHierarchyService;
+  let mockPrisma: any;
+  let mockOutbox: any;
+  let rates: Record<string, any>;
+
+  const corporate = { type: RateDerivationType.PERCENTAGE, value: -10 };
+  const aaa = {
+    type: RateDerivationType.PERCENTAGE,
+    value: -15,
+    rounding: { mode: RateRoundingMode.ENDING, ending: 0.99 }
+  };
+  const breakfast = { type: RateDerivationType.PER_PERSON, value: 18, persons: 2 };
+
+  const rate = (id: string, baseRate: number, parentRateId: string | null = null, derivation: any = null) => ({
+    id,
+    rateCode: id.toUpperCase(),
+    baseRate,
+    currencyCode: 'USD',
+    effectiveTo: new Date('2030-12-31T00:00:00'),
+    parentRateId,
+    derivation
+  });
+
+  beforeEach(() => {
+    // BAR <- CORP <- CORP-PKG, BAR <- AAA, BAR <- PKG
+    rates = {
+      bar: rate('bar', 200),
+      corp: rate('corp', 180, 'bar', corporate),
+      'corp-pkg': rate('corp-pkg', 216, 'corp', breakfast),
+      aaa: rate('aaa', 169.99, 'bar', aaa),
+      pkg: rate('pkg', 236, 'bar', breakfast),
+      other: rate('other', 150)
+    };
+
+    mockPrisma = {
+      rate: {
+        findUnique: jest.fn(({ where }: any) => Promise.resolve(rates[where.id] ?? null)),
+        findMany: jest.fn(({ where }: any) => Promise.resolve(Object.values(rates).filter(candidate =>
+          typeof where.parentRateId === 'string'
+            ? candidate.parentRateId === where.parentRateId
+            : where.parentRateId.in.includes(candidate.parentRateId)))),
+        update: jest.fn(({ where, data }: any) => {
+          rates[where.id] = { ...rates[where.id], ...data };
+          return Promise.resolve(rates[where.id]);
+        })
+      },
+      rateAudit: {
+        create: jest.fn(),
+        findMany: jest.fn().mockResolvedValue([])
+      },
+      $transaction: jest.fn((callback: any) => callback(mockPrisma))
+    };
+    mockOutbox = { queue: jest.fn() };
+
+    service = new RateHierarchyService(mockPrisma, mockOutbox);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should derive base rates by percentage, per person amount and rounding rule', () => {
+    expect(deriveBaseRate(200, corporate)).toBe(180);
+    expect(deriveBaseRate(189, aaa)).toBe(160.99);
+    expect(deriveBaseRate(200, breakfast)).toBe(236);
+    expect(roundRate(161.2, { mode: RateRoundingMode.UP, increment: 5 })).toBe(165);
+    expect(roundRate(165, { mode: RateRoundingMode.UP, increment: 5 })).toBe(165);
+    expect(roundRate(161.2, { mode: RateRoundingMode.DOWN, increment: 1 })).toBe(161);
+    expect(roundRate(174, { mode: RateRoundingMode.ENDING, increment: 10, ending: 9 })).toBe(179);
+  });
+
+  it('should recompute every descendant when the parent base rate changes', async () => {
+    const change = await service.updateBaseRate('bar', 210, 'revenue-manager');
+
+    expect(change.rate.baseRate).toBe(210);
+    expect(change.recalculated.map(recalculated => [recalculated.id, recalculated.baseRate])).toEqual([
+      ['corp', 189],
+      ['corp-pkg', 225],
+      ['aaa', 178.99],
+      ['pkg', 246]
+    ]);
+    expect(mockPrisma.rateAudit.create).toHaveBeenCalledTimes(5);
+    expect(mockPrisma.rateAudit.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        rateId: 'corp-pkg',
+        action: RateAuditAction.RECALCULATED,
+        previousBaseRate: 216,
+        newBaseRate: 225,
+        parentRateId: 'corp',
+        sourceRateId: 'bar',
+        changedBy: 'revenue-manager'
+      })
+    });
+    expect(mockOutbox.queue).toHaveBeenCalledTimes(5);
+    expect(mockOutbox.queue).toHaveBeenCalledWith(
+      expect.objectContaining({ type: AriUpdateType.RATE, rateId: 'aaa' }),
+      mockPrisma
+    );
+  });
+
+  it('should leave children whose rounded rate does not move untouched', async () => {
+    await service.updateBaseRate('bar', 200.3, 'revenue-manager');
+
+    // 200.3 - 15% rounds to 169.99 as before
+    expect(mockPrisma.rate.update).not.toHaveBeenCalledWith(expect.objectContaining({ where: { id: 'aaa' } }));
+  });
+
+  it('should not set the base rate of a derived rate directly', async () => {
+    await expect(service.updateBaseRate('corp', 150, 'revenue-manager'))
+      .rejects.toMatchObject({ code: ErrorCode.BUSINESS_RULE_VIOLATION });
+    expect(mockPrisma.rate.update).not.toHaveBeenCalled();
+  });
+
+  it('should link a rate and price it off its parent', async () => {
+    const change = await service.linkRate('other', 'corp', aaa, 'revenue-manager');
+
+    // 180 - 15% = 153
+    expect(change.rate).toEqual(expect.objectContaining({ parentRateId: 'corp', derivation: aaa, baseRate: 152.99 }));
+    expect(mockPrisma.rateAudit.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ rateId: 'other', action: RateAuditAction.LINKED, previousBaseRate: 150 })
+    });
+  });
+
+  it('should refuse a link that closes a cycle', async () => {
+    await expect(service.linkRate('bar', 'corp-pkg', corporate, 'revenue-manager'))
+      .rejects.toMatchObject({ code: ErrorCode.BUSINESS_RULE_VIOLATION });
+    await expect(service.linkRate('bar', 'bar', corporate, 'revenue-manager'))
+      .rejects.toMatchObject({ code: ErrorCode.BUSINESS_RULE_VIOLATION });
+    expect(mockPrisma.$transaction).not.toHaveBeenCalled();
+  });
+
+  it('should read the history of a rate within a period', async () => {
+    const startDate = new Date('2024-09-01T00:00:00');
+
+    await service.getHistory('corp', { startDate, limit: 10 });
+
+    expect(mockPrisma.rateAudit.findMany).toHaveBeenCalledWith({
+      where: { rateId: 'corp', changedAt: { gte: startDate } },
+      orderBy: { changedAt: 'desc' },
+      take: 10
+    });
+  });
+});
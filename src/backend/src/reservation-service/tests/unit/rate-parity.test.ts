@@ -0,0 +1,172 @@
+/**
+ * @fileoverview Unit tests for the rate parity checker covering per-night channel pricing against
+ * the direct channel, violation history and system alerts.
+ * @version 1.0.0
+ */
+
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals'; // v29.0.0
+import { RateParityService } from '../../src/services/rate-parity.service';
+import { RateParityDirection, RateParityStatus } from '../../src/models/rate-parity.model';
+import { ErrorCode } from '../../../shared/constants/error-codes';
+
+jest.mock('../../src/config/database', () => ({ prisma: {} }));
+jest.mock('../../../shared/services/business-date.service', () => ({
+  BusinessDateService: jest.fn()
+}));
+jest.mock('../../../websocket-service/src/config/websocket', () => ({
+  WebSocketNamespaces: { SYSTEM: 'system' }
+}));
+
+describe('RateParityService', () => {
+  const now = new Date('2024-09-01T08:00:00');
+  let service: RateParityService;
+  let mockPrisma: any;
+  let mockRateModel: any;
+  let mockNotifications: any;
+
+  const channelRule = (channelId: string, rateParity: boolean) => ({
+    channelId,
+    markup: 0,
+    minimumMarkup: 0,
+    rateParity,
+    restrictions: { minimumLOS: 0, maximumLOS: 0, closedToArrival: false, closedToDeparture: false }
+  });
+
+  const rate = {
+    id: 'rate-1',
+    rateCode: 'BAR',
+    status: 'ACTIVE',
+    effectiveFrom: new Date('2024-01-01T00:00:00'),
+    // Two nights left: September 1 and 2
+    effectiveTo: new Date('2024-09-02T00:00:00'),
+    applicableChannels: ['DIRECT', 'OTA', 'GDS'],
+    channelRules: {
+      OTA: channelRule('OTA', true),
+      GDS: channelRule('GDS', false)
+    }
+  };
+
+  const openViolation = (id: string, date: Date) => ({
+    id,
+    rateId: 'rate-1',
+    channel: 'OTA',
+    date,
+    status: RateParityStatus.OPEN
+  });
+
+  beforeEach(() => {
+    mockPrisma = {
+      rate: {
+        findMany: jest.fn().mockResolvedValue([rate]),
+        findUnique: jest.fn().mockResolvedValue(rate)
+      },
+      rateParityViolation: {
+        findMany: jest.fn().mockResolvedValue([]),
+        create: jest.fn((args: any) => Promise.resolve({ id: `violation-${args.data.date.getDate()}`, ...args.data })),
+        update: jest.fn(),
+        updateMany: jest.fn().mockResolvedValue({ count: 0 }),
+        count: jest.fn().mockResolvedValue(0)
+      }
+    };
+    // OTA undercuts the direct rate on September 1 only
+    mockRateModel = {
+      calculateRate: jest.fn((rateId: string, night: Date, checkOut: Date, occupancy: number, channel: string) =>
+        Promise.resolve(channel === 'OTA' && night.getDate() === 1 ? 99 : 110))
+    };
+    mockNotifications = { sendNotification: jest.fn() };
+
+    service = new RateParityService(
+      mockRateModel,
+      { getCurrentOccupancy: jest.fn().mockResolvedValue(70) } as any,
+      mockNotifications,
+      mockPrisma
+    );
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should open a violation for each night a parity channel differs from the direct rate', async () => {
+    const check = await service.checkParity(now);
+
+    expect(check).toEqual(expect.objectContaining({ ratesChecked: 1, nightsChecked: 2, opened: 1 }));
+    expect(mockRateModel.calculateRate).toHaveBeenCalledWith(
+      'rate-1', new Date('2024-09-01T00:00:00'), new Date('2024-09-02T00:00:00'), 70, 'OTA'
+    );
+    // GDS has no parity rule and is not priced
+    expect(mockRateModel.calculateRate).not.toHaveBeenCalledWith(
+      expect.anything(), expect.anything(), expect.anything(), expect.anything(), 'GDS'
+    );
+    expect(mockPrisma.rateParityViolation.create).toHaveBeenCalledTimes(1);
+    expect(mockPrisma.rateParityViolation.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        rateId: 'rate-1',
+        channel: 'OTA',
+        date: new Date('2024-09-01T00:00:00'),
+        referenceRate: 110,
+        channelRate: 99,
+        difference: -11,
+        direction: RateParityDirection.UNDERCUT,
+        status: RateParityStatus.OPEN,
+        occurrences: 1
+      })
+    });
+    expect(mockNotifications.sendNotification).toHaveBeenCalledWith(expect.objectContaining({
+      type: 'SYSTEM_ALERT',
+      targetGroup: 'system',
+      payload: expect.objectContaining({ alert: 'RATE_PARITY_VIOLATION', count: 1 })
+    }));
+  });
+
+  it('should keep a recurring violation open and resolve the nights back in parity', async () => {
+    mockPrisma.rateParityViolation.findMany.mockResolvedValue([
+      openViolation('violation-1', new Date('2024-09-01T00:00:00')),
+      openViolation('violation-2', new Date('2024-09-02T00:00:00'))
+    ]);
+    mockPrisma.rateParityViolation.updateMany.mockResolvedValue({ count: 1 });
+
+    const check = await service.checkParity(now);
+
+    expect(mockPrisma.rateParityViolation.create).not.toHaveBeenCalled();
+    expect(mockPrisma.rateParityViolation.update).toHaveBeenCalledWith({
+      where: { id: 'violation-1' },
+      data: expect.objectContaining({ channelRate: 99, lastCheckedAt: now, occurrences: { increment: 1 } })
+    });
+    expect(mockPrisma.rateParityViolation.updateMany).toHaveBeenCalledWith({
+      where: { id: { in: ['violation-2'] }, status: RateParityStatus.OPEN },
+      data: { status: RateParityStatus.RESOLVED, resolvedAt: now, lastCheckedAt: now }
+    });
+    expect(check.resolved).toBe(1);
+    expect(mockNotifications.sendNotification).not.toHaveBeenCalled();
+  });
+
+  it('should tolerate differences within the configured tolerance', async () => {
+    mockRateModel.calculateRate.mockImplementation((rateId: string, night: Date, checkOut: Date, occupancy: number, channel: string) =>
+      Promise.resolve(channel === 'OTA' ? 110.01 : 110));
+
+    const check = await service.checkParity(now);
+
+    expect(check.opened).toBe(0);
+    expect(mockPrisma.rateParityViolation.create).not.toHaveBeenCalled();
+  });
+
+  it('should keep checking other rates when one cannot be priced', async () => {
+    mockPrisma.rate.findMany.mockResolvedValue([{ ...rate, id: 'rate-0', rateCode: 'OLD' }, rate]);
+    mockRateModel.calculateRate.mockImplementation((rateId: string, night: Date, checkOut: Date, occupancy: number, channel: string) =>
+      rateId === 'rate-0'
+        ? Promise.reject(new Error('Rate not found or inactive'))
+        : Promise.resolve(channel === 'OTA' && night.getDate() === 1 ? 99 : 110));
+
+    const check = await service.checkParity(now);
+
+    expect(check).toEqual(expect.objectContaining({ ratesChecked: 1, opened: 1 }));
+  });
+
+  it('should not validate parity of an unknown rate', async () => {
+    mockPrisma.rate.findUnique.mockResolvedValue(null);
+
+    await expect(service.validateRateParity('missing')).rejects.toMatchObject({ code: ErrorCode.RESOURCE_NOT_FOUND });
+    expect(mockRateModel.calculateRate).not.toHaveBeenCalled();
+  });
+});
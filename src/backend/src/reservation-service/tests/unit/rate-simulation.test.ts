@@ -0,0 +1,168 @@
+/**
+ * @fileoverview Unit tests for the pricing sandbox covering the live and candidate projections of
+ * replayed bookings, nights outside the range, rule hit counts and bookings that cannot be priced.
+ * @version 1.0.0
+ */
+
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals'; // v29.0.0
+import { RateSimulationService } from '../../src/services/rate-simulation.service';
+import { YieldRule, YieldRuleFactor } from '../../src/models/yield-rule.model';
+import { ErrorCode } from '../../../shared/constants/error-codes';
+
+jest.mock('../../src/config/database', () => ({ prisma: {} }));
+
+describe('RateSimulationService', () => {
+  let service: RateSimulationService;
+  let mockPricingService: any;
+  let mockYieldManagement: any;
+  let mockPrisma: any;
+
+  const liveRules: YieldRule[] = [
+    { name: 'Weekend', factor: YieldRuleFactor.DAY_OF_WEEK, daysOfWeek: [6], adjustmentType: 'FIXED', adjustmentValue: 10 }
+  ];
+  const candidateRules: YieldRule[] = [
+    { name: 'High demand', factor: YieldRuleFactor.OCCUPANCY, min: 80, adjustmentType: 'PERCENTAGE', adjustmentValue: 10 }
+  ];
+
+  const booking = (id: string, checkIn: string, checkOut: string) => ({
+    id,
+    rateId: 'rate-1',
+    checkInDate: new Date(`${checkIn}T00:00:00`),
+    checkOutDate: new Date(`${checkOut}T00:00:00`),
+    numberOfGuests: 2,
+    bookingSource: 'DIRECT',
+    createdAt: new Date('2024-08-01T10:00:00')
+  });
+
+  const night = (date: string, baseRate: number, adjustmentAmount: number) => ({
+    rateId: 'rate-1',
+    date: new Date(`${date}T00:00:00`),
+    baseRate,
+    adjustmentAmount,
+    taxAmount: (baseRate + adjustmentAmount) * 0.1
+  });
+
+  // Live: Saturday +10; candidate: +10% on both nights
+  const pricings: Record<string, any> = {
+    Weekend: {
+      nightlyRates: [night('2024-09-06', 100, 0), night('2024-09-07', 100, 10)],
+      yieldAdjustments: { '2024-09-07': { percentage: 0, amount: 10, rules: ['Weekend'], appliedRules: [] } }
+    },
+    'High demand': {
+      nightlyRates: [night('2024-09-06', 100, 10), night('2024-09-07', 100, 10)],
+      yieldAdjustments: {
+        '2024-09-06': { percentage: 10, amount: 0, rules: ['High demand'], appliedRules: [] },
+        '2024-09-07': { percentage: 10, amount: 0, rules: ['High demand'], appliedRules: [] }
+      }
+    }
+  };
+
+  beforeEach(() => {
+    mockPrisma = {
+      booking: {
+        findMany: jest.fn().mockResolvedValue([booking('booking-1', '2024-09-06', '2024-09-08')])
+      }
+    };
+    mockPricingService = {
+      priceScenario: jest.fn((...args: any[]) => Promise.resolve(pricings[args[5].yieldRules[0].name]))
+    };
+    mockYieldManagement = {
+      getRuleSet: jest.fn().mockResolvedValue({ version: 3, rules: liveRules }),
+      validateRules: jest.fn()
+    };
+
+    service = new RateSimulationService(mockPricingService, mockPrisma, mockYieldManagement);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should project revenue, ADR and rule hits of the candidate against the live rules', async () => {
+    const result = await service.simulate({
+      startDate: new Date('2024-09-01T00:00:00'),
+      endDate: new Date('2024-09-30T00:00:00'),
+      scenario: { yieldRules: candidateRules }
+    });
+
+    expect(result).toEqual(expect.objectContaining({
+      bookings: 1,
+      roomNights: 2,
+      skippedBookings: 0,
+      live: { revenue: 210, adr: 105, ruleHits: { Weekend: 1 } },
+      candidate: { revenue: 220, adr: 110, ruleHits: { 'High demand': 2 } },
+      revenueDifference: 10,
+      adrDifference: 5
+    }));
+    expect(mockYieldManagement.validateRules).toHaveBeenCalledWith(candidateRules);
+    expect(mockPricingService.priceScenario).toHaveBeenCalledWith(
+      'rate-1',
+      expect.any(Date),
+      expect.any(Date),
+      70,
+      'DIRECT',
+      { yieldRules: candidateRules, seasonalModifiers: undefined },
+      new Date('2024-08-01T10:00:00'),
+      2
+    );
+  });
+
+  it('should only count the nights inside the range', async () => {
+    const result = await service.simulate({
+      startDate: new Date('2024-09-07T00:00:00'),
+      endDate: new Date('2024-09-30T00:00:00'),
+      scenario: { yieldRules: candidateRules }
+    });
+
+    expect(result.roomNights).toBe(1);
+    expect(result.live).toEqual({ revenue: 110, adr: 110, ruleHits: { Weekend: 1 } });
+    expect(result.candidate.ruleHits).toEqual({ 'High demand': 1 });
+  });
+
+  it('should keep the live rules for a scenario changing only seasonal modifiers', async () => {
+    const seasonalModifiers = { 'rate-1': [] };
+
+    await service.simulate({
+      startDate: new Date('2024-09-01T00:00:00'),
+      endDate: new Date('2024-09-30T00:00:00'),
+      scenario: { seasonalModifiers }
+    });
+
+    expect(mockPricingService.priceScenario).toHaveBeenCalledWith(
+      'rate-1', expect.any(Date), expect.any(Date), 70, 'DIRECT',
+      { yieldRules: liveRules, seasonalModifiers },
+      expect.any(Date),
+      2
+    );
+    expect(mockYieldManagement.validateRules).not.toHaveBeenCalled();
+  });
+
+  it('should leave out bookings whose rate can no longer be priced', async () => {
+    mockPrisma.booking.findMany.mockResolvedValue([
+      booking('booking-1', '2024-09-06', '2024-09-08'),
+      { ...booking('booking-2', '2024-09-10', '2024-09-11'), rateId: 'retired-rate' }
+    ]);
+    mockPricingService.priceScenario.mockImplementation((...args: any[]) => args[0] === 'retired-rate'
+      ? Promise.reject(new Error('Rate not found or inactive'))
+      : Promise.resolve(pricings[args[5].yieldRules[0].name]));
+
+    const result = await service.simulate({
+      startDate: new Date('2024-09-01T00:00:00'),
+      endDate: new Date('2024-09-30T00:00:00'),
+      scenario: { yieldRules: candidateRules }
+    });
+
+    expect(result.bookings).toBe(1);
+    expect(result.skippedBookings).toBe(1);
+    expect(result.live.revenue).toBe(210);
+  });
+
+  it('should refuse a range longer than a year', async () => {
+    await expect(service.simulate({
+      startDate: new Date('2024-01-01T00:00:00'),
+      endDate: new Date('2025-06-30T00:00:00'),
+      scenario: {}
+    })).rejects.toMatchObject({ code: ErrorCode.VALIDATION_ERROR });
+    expect(mockPrisma.booking.findMany).not.toHaveBeenCalled();
+  });
+});
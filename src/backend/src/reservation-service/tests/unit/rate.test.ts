@@ -8,6 +8,7 @@ import { describe, test, expect, beforeEach, afterEach, jest } from '@jest/globa
 import dayjs from 'dayjs'; // v1.11.0
 import { Rate, RateModel, RateType, RateStatus } from '../../src/models/rate.model';
 import { PricingService } from '../../src/services/pricing.service';
+import { TaxBasis } from '../../../shared/models/tax.model';
 import { ErrorCode } from '../../../shared/constants/error-codes';
 
 describe('RateModel and PricingService Tests', () => {
@@ -24,7 +25,6 @@ describe('RateModel and PricingService Tests', () => {
     rateCode: 'STD-RACK',
     rateName: 'Standard Rack Rate',
     baseRate: 100.00,
-    taxRate: 0.12,
     effectiveFrom: new Date('2024-01-01'),
     effectiveTo: new Date('2024-12-31'),
     type: RateType.RACK,
@@ -299,4 +299,141 @@ describe('RateModel and PricingService Tests', () => {
       ).rejects.toThrow(ErrorCode.VALIDATION_ERROR);
     });
   });
+
+  describe('Nightly Rate Calculation', () => {
+    let mockPrisma: any;
+
+    // Season bounds in property time so nights on the boundary are unambiguous
+    const localSeasonRate = {
+      ...sampleRate,
+      seasonalModifiers: [{
+        ...sampleRate.seasonalModifiers[0],
+        startDate: new Date('2024-06-01T00:00:00'),
+        endDate: new Date('2024-08-31T00:00:00')
+      }]
+    };
+
+    const taxRule = (code: string, basis: TaxBasis, rate: number, exemptAfterNights: number | null = null) => ({
+      code,
+      name: code,
+      jurisdiction: 'US-NY',
+      chargeCategories: ['ROOM'],
+      basis,
+      rate,
+      inclusive: false,
+      exemptAfterNights,
+      effectiveFrom: new Date('2024-01-01T00:00:00'),
+      effectiveTo: null
+    });
+
+    // Nightly amount plus the 12% sales tax in force
+    const withTax = (amount: number) => Math.round(amount * 1.12 * 100) / 100;
+
+    beforeEach(() => {
+      mockPrisma = {
+        rate: { findUnique: jest.fn().mockResolvedValue(localSeasonRate) },
+        taxRule: { findMany: jest.fn().mockResolvedValue([taxRule('SALES', TaxBasis.PERCENTAGE, 12)]) }
+      };
+      rateModel = new RateModel(mockPrisma);
+    });
+
+    test('should apply seasonal modifiers only to the nights inside the season', async () => {
+      const nights = await rateModel.calculateNightlyRates(
+        sampleRate.id,
+        new Date('2024-05-30T00:00:00'),
+        new Date('2024-06-02T00:00:00'),
+        50,
+        'DIRECT'
+      );
+
+      expect(nights.map(night => night.totalRate)).toEqual([112, 112, 140]);
+      expect(nights[2]).toEqual(expect.objectContaining({
+        baseRate: 100,
+        adjustmentAmount: 25,
+        adjustmentReason: 'Summer Peak Season',
+        taxAmount: 15
+      }));
+      expect(nights[2].breakdown.seasonalAdjustment).toBe(25);
+    });
+
+    test('should apply length of stay modifiers to every night', async () => {
+      const nights = await rateModel.calculateNightlyRates(
+        sampleRate.id,
+        new Date('2024-03-01T00:00:00'),
+        new Date('2024-03-08T00:00:00'),
+        50,
+        'DIRECT'
+      );
+
+      expect(nights).toHaveLength(7);
+      expect(nights.every(night => night.adjustmentAmount === -15)).toBe(true);
+    });
+
+    test('should apply yield adjustments after the rate modifiers and within the rate bounds', async () => {
+      const nights = await rateModel.calculateNightlyRates(
+        sampleRate.id,
+        new Date('2024-06-01T00:00:00'),
+        new Date('2024-06-03T00:00:00'),
+        50,
+        'DIRECT',
+        {
+          '2024-06-01': {
+            percentage: 10,
+            amount: 5,
+            rules: ['High demand', 'Flat supplement'],
+            appliedRules: ['High demand: 85% on the books → +10%', 'Flat supplement: Saturday → +5.00']
+          },
+          '2024-06-02': { percentage: 80, amount: 0, rules: ['Event'], appliedRules: ['Event: Sunday → +80%'] }
+        }
+      );
+
+      // 125 after the season, +12.50 and +5 from yield rules
+      expect(nights[0].breakdown.yieldAdjustment).toBe(17.5);
+      expect(nights[0].totalRate).toBe(withTax(142.5));
+      expect(nights[0].adjustmentReason).toBe(
+        'Summer Peak Season, High demand: 85% on the books → +10%, Flat supplement: Saturday → +5.00'
+      );
+      // 225 is capped at the rate's ceiling
+      expect(nights[1].totalRate).toBe(withTax(200));
+      expect(nights[1].adjustmentReason).toContain('Rate ceiling 200.00');
+    });
+
+    test('should stack per-guest levies on the sales tax until their long-stay exemption', async () => {
+      mockPrisma.taxRule.findMany.mockResolvedValue([
+        taxRule('SALES', TaxBasis.PERCENTAGE, 12),
+        taxRule('OCC', TaxBasis.PER_PERSON_PER_NIGHT, 1.5, 2)
+      ]);
+
+      const nights = await rateModel.calculateNightlyRates(
+        sampleRate.id,
+        new Date('2024-03-01T00:00:00'),
+        new Date('2024-03-04T00:00:00'),
+        50,
+        'DIRECT',
+        {},
+        {},
+        2
+      );
+
+      expect(nights.map(night => night.taxAmount)).toEqual([15, 15, 12]);
+      expect(nights[0].taxLines).toEqual([
+        expect.objectContaining({ code: 'SALES', amount: 12 }),
+        expect.objectContaining({ code: 'OCC', amount: 3 })
+      ]);
+      expect(nights[2].taxLines).toEqual([expect.objectContaining({ code: 'SALES', amount: 12 })]);
+      expect(nights[2].totalRate).toBe(112);
+    });
+
+    test('should average the nightly totals into the stay rate', async () => {
+      const result = await rateModel.calculateRate(
+        sampleRate.id,
+        new Date('2024-05-31T00:00:00'),
+        new Date('2024-06-02T00:00:00'),
+        50,
+        'DIRECT'
+      );
+
+      expect(result).toBe(126);
+    });
+  });
 });
\ No newline at end of file
@@ -0,0 +1,142 @@
+/**
+ * @fileoverview Unit tests for the room assignment engine covering hard room constraints,
+ * accessibility and floor preferences and back-to-back packing of stays.
+ * @version 1.0.0
+ */
+
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals'; // v29.0.0
+import { RoomAssignmentService } from '../../src/services/room-assignment.service';
+import { BookingStatus } from '../../src/models/booking.model';
+import { ErrorCode } from '../../../shared/constants/error-codes';
+
+jest.mock('../../src/config/database', () => ({ prisma: {} }));
+jest.mock('../../../shared/services/business-date.service', () => ({
+  BusinessDateService: jest.fn()
+}));
+
+describe('RoomAssignmentService', () => {
+  const businessDate = new Date('2024-09-01T00:00:00');
+  let service: RoomAssignmentService;
+  let mockPrisma: any;
+
+  const room = (id: string, overrides: Record<string, unknown> = {}) => ({
+    id,
+    roomNumber: id.replace('room-', ''),
+    type: 'DELUXE',
+    status: 'AVAILABLE',
+    floor: 1,
+    maxOccupancy: 2,
+    isAccessible: false,
+    isActive: true,
+    connectingRoomId: null,
+    ...overrides
+  });
+
+  const booking = (id: string, overrides: Record<string, unknown> = {}) => ({
+    id,
+    bookingNumber: `BK-${id}`,
+    guestId: `guest-${id}`,
+    roomType: 'DELUXE',
+    roomId: null,
+    status: BookingStatus.CONFIRMED,
+    checkInDate: new Date('2024-09-01T00:00:00'),
+    checkOutDate: new Date('2024-09-03T00:00:00'),
+    numberOfGuests: 2,
+    specialRequests: { accessibility: [] },
+    connectingBookingId: null,
+    auditTrail: [],
+    ...overrides
+  });
+
+  beforeEach(() => {
+    mockPrisma = {
+      booking: {
+        findMany: jest.fn(),
+        findUnique: jest.fn(),
+        updateMany: jest.fn().mockResolvedValue({ count: 1 }),
+        update: jest.fn()
+      },
+      room: {
+        findMany: jest.fn(),
+        findUnique: jest.fn()
+      },
+      preference: {
+        findMany: jest.fn().mockResolvedValue([])
+      }
+    };
+
+    service = new RoomAssignmentService(mockPrisma, {
+      getBusinessDate: jest.fn().mockResolvedValue(businessDate)
+    } as any);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should give the only accessible room to the guest who needs it', async () => {
+    mockPrisma.booking.findMany
+      .mockResolvedValueOnce([
+        booking('b-1'),
+        booking('b-2', { specialRequests: { accessibility: ['wheelchair'] } })
+      ])
+      .mockResolvedValueOnce([]);
+    mockPrisma.room.findMany.mockResolvedValue([
+      room('room-101', { isAccessible: true }),
+      room('room-102')
+    ]);
+
+    const result = await service.assignArrivals('user-1');
+
+    expect(result.assigned).toEqual(expect.arrayContaining([
+      expect.objectContaining({ bookingId: 'b-2', roomId: 'room-101' }),
+      expect.objectContaining({ bookingId: 'b-1', roomId: 'room-102' })
+    ]));
+    expect(result.unassigned).toHaveLength(0);
+  });
+
+  it('should prefer the room whose previous stay ends on arrival', async () => {
+    mockPrisma.booking.findMany
+      .mockResolvedValueOnce([booking('b-1', {
+        checkInDate: new Date('2024-09-02T00:00:00'),
+        checkOutDate: new Date('2024-09-04T00:00:00')
+      })])
+      .mockResolvedValueOnce([{
+        id: 'in-house',
+        roomId: 'room-102',
+        checkInDate: new Date('2024-08-30T00:00:00'),
+        checkOutDate: new Date('2024-09-02T00:00:00')
+      }]);
+    mockPrisma.room.findMany.mockResolvedValue([room('room-101'), room('room-102')]);
+
+    const result = await service.assignArrivals('user-1');
+
+    expect(result.assigned[0].roomId).toBe('room-102');
+    expect(mockPrisma.booking.updateMany).toHaveBeenCalledWith(expect.objectContaining({
+      where: { id: 'b-1', roomId: null },
+      data: expect.objectContaining({ roomId: 'room-102' })
+    }));
+  });
+
+  it('should report arrivals no room can take', async () => {
+    mockPrisma.booking.findMany
+      .mockResolvedValueOnce([booking('b-1', { numberOfGuests: 4 })])
+      .mockResolvedValueOnce([]);
+    mockPrisma.room.findMany.mockResolvedValue([room('room-101')]);
+
+    const result = await service.assignArrivals('user-1');
+
+    expect(result.assigned).toHaveLength(0);
+    expect(result.unassigned[0].bookingId).toBe('b-1');
+  });
+
+  it('should reject a manual assignment to a room of another type', async () => {
+    mockPrisma.booking.findUnique.mockResolvedValue(booking('b-1'));
+    mockPrisma.booking.findMany.mockResolvedValue([]);
+    mockPrisma.room.findUnique.mockResolvedValue(room('room-201', { type: 'SUITE' }));
+
+    await expect(service.assignRoom('b-1', 'user-1', 'room-201')).rejects.toMatchObject({
+      code: ErrorCode.BUSINESS_RULE_VIOLATION
+    });
+  });
+});
@@ -0,0 +1,287 @@
+/**
+ * @fileoverview Unit tests for stay modifications covering inventory adjustment for added and
+ * removed nights, repricing and posting the difference to the folio.
+ * @version 1.0.0
+ */
+
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals'; // v29.0.0
+import { of } from 'rxjs'; // v7.8.0
+import { Prisma } from '@prisma/client'; // v5.0.0
+import { StayModificationService } from '../../src/services/stay-modification.service';
+import { ModificationType } from '../../src/models/reservation-modification.model';
+import { BookingStatus } from '../../src/models/booking.model';
+import { ErrorCode } from '../../../shared/constants/error-codes';
+
+jest.mock('../../src/config/database', () => ({ prisma: {} }));
+jest.mock('../../../shared/services/business-date.service', () => ({
+  BusinessDateService: jest.fn()
+}));
+jest.mock('../../src/services/availability.service', () => ({
+  AvailabilityService: jest.fn()
+}));
+jest.mock('../../src/services/pricing.service', () => ({
+  PricingService: jest.fn()
+}));
+jest.mock('../../src/services/waitlist.service', () => ({
+  WaitlistService: jest.fn()
+}));
+
+describe('StayModificationService', () => {
+  const businessDate = new Date('2024-11-01T00:00:00');
+  let service: StayModificationService;
+  let mockPrisma: any;
+  let mockAvailability: any;
+  let mockPricing: any;
+  let mockInventory: any;
+  let mockRoomAssignment: any;
+
+  const booking = (overrides: Record<string, unknown> = {}) => ({
+    id: 'booking-1',
+    bookingNumber: 'BK001',
+    guestId: 'guest-1',
+    roomType: 'DELUXE',
+    roomId: null,
+    rateId: 'rate-1',
+    status: BookingStatus.CONFIRMED,
+    checkInDate: new Date('2024-11-10T00:00:00'),
+    checkOutDate: new Date('2024-11-12T00:00:00'),
+    numberOfGuests: 2,
+    bookingSource: 'DIRECT',
+    totalAmount: 224,
+    taxAmount: 24,
+    groupBlockId: null,
+    updatedAt: new Date('2024-10-01T00:00:00'),
+    auditTrail: [],
+    ...overrides
+  });
+
+  // One night priced at 100 plus 12 tax
+  const nightlyRate = {
+    finalRate: 112,
+    baseRate: 100,
+    breakdown: { seasonalAdjustment: 0, occupancyAdjustment: 0, losAdjustment: 0, yieldAdjustment: 0, channelMarkup: 0, taxes: 12 },
+    appliedRules: [],
+    validUntil: new Date()
+  };
+
+  // Stored price of one night: 100 plus 12 tax
+  const storedNight = (date: string, totalRate = 112) => ({
+    id: `night-${date}`,
+    reservationId: 'booking-1',
+    rateId: 'rate-1',
+    date: new Date(`${date}T00:00:00`),
+    baseRate: 100,
+    adjustmentAmount: totalRate - 112,
+    adjustmentReason: null,
+    taxRate: 0.12,
+    taxAmount: 12,
+    totalRate,
+    breakdown: { seasonalAdjustment: 0, occupancyAdjustment: 0, losAdjustment: 0, channelMarkup: 0, taxes: 12 }
+  });
+
+  beforeEach(() => {
+    const tx = {
+      booking: { updateMany: jest.fn().mockResolvedValue({ count: 1 }) },
+      folio: {
+        findFirst: jest.fn().mockResolvedValue({ id: 'folio-1' }),
+        update: jest.fn()
+      },
+      folioCharge: {
+        create: jest.fn().mockImplementation(({ data }: any) => Promise.resolve({ id: 'charge-1', ...data }))
+      },
+      folioRoutingInstruction: { findMany: jest.fn().mockResolvedValue([]) },
+      reservationRate: { deleteMany: jest.fn(), createMany: jest.fn() },
+      reservationModification: {
+        create: jest.fn().mockImplementation(({ data }: any) => Promise.resolve({ id: 'mod-1', ...data }))
+      }
+    };
+
+    mockPrisma = {
+      booking: { findUnique: jest.fn().mockResolvedValue(booking()) },
+      groupBlock: { findUnique: jest.fn() },
+      folio: {
+        findUnique: jest.fn().mockResolvedValue({
+          id: 'folio-1',
+          balance: new Prisma.Decimal(112),
+          authorizedAmount: new Prisma.Decimal(500),
+          creditAlertedAt: null
+        }),
+        update: jest.fn()
+      },
+      $transaction: jest.fn().mockImplementation((callback: any) => callback(tx)),
+      tx
+    };
+
+    mockAvailability = {
+      validateRoomTypeAvailability: jest.fn().mockReturnValue(of(true)),
+      getCurrentOccupancy: jest.fn().mockResolvedValue(0.5)
+    };
+    mockPricing = { calculateRoomRate: jest.fn().mockReturnValue(of(nightlyRate)) };
+    mockInventory = { allocate: jest.fn(), release: jest.fn() };
+    mockRoomAssignment = { checkRoom: jest.fn() };
+
+    service = new StayModificationService(
+      mockAvailability,
+      mockPricing,
+      mockPrisma,
+      { getBusinessDate: jest.fn().mockResolvedValue(businessDate) } as any,
+      mockInventory,
+      mockRoomAssignment,
+      { findViolations: jest.fn().mockResolvedValue([]) } as any
+    );
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should extend a stay by holding only the added night and posting the difference', async () => {
+    const modification = await service.modify('booking-1', {
+      checkOutDate: new Date('2024-11-13T00:00:00'),
+      reason: 'Guest extends'
+    }, 'agent-1');
+
+    expect(mockAvailability.validateRoomTypeAvailability).toHaveBeenCalledWith(
+      'DELUXE',
+      new Date('2024-11-12T00:00:00'),
+      new Date('2024-11-13T00:00:00')
+    );
+    expect(mockInventory.allocate).toHaveBeenCalledWith(
+      'DELUXE',
+      new Date('2024-11-12T00:00:00'),
+      new Date('2024-11-13T00:00:00'),
+      1,
+      mockPrisma.tx
+    );
+    expect(mockInventory.release).not.toHaveBeenCalled();
+    expect(modification.modificationType).toBe(ModificationType.EXTEND);
+    expect(modification.priceDelta).toEqual(expect.objectContaining({
+      previousAmount: 224,
+      newAmount: 336,
+      difference: 112,
+      taxDifference: 12
+    }));
+    expect(mockPrisma.tx.folioCharge.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        folioId: 'folio-1',
+        amount: new Prisma.Decimal(100),
+        taxAmount: new Prisma.Decimal(12),
+        totalAmount: new Prisma.Decimal(112)
+      })
+    });
+    expect(modification.folioChargeId).toBe('charge-1');
+    expect(mockPrisma.folio.update).toHaveBeenCalledWith({
+      where: { id: 'folio-1' },
+      data: expect.objectContaining({ exposure: new Prisma.Decimal(-388) })
+    });
+  });
+
+  it('should keep the stored price of unchanged nights and leave posting to the night audit', async () => {
+    mockPrisma.booking.findUnique.mockResolvedValue(booking({
+      nightlyRates: [storedNight('2024-11-10'), storedNight('2024-11-11')]
+    }));
+    mockPricing.calculateNightlyRates = jest.fn().mockReturnValue(of([
+      storedNight('2024-11-10', 140),
+      storedNight('2024-11-11', 140),
+      { ...storedNight('2024-11-12', 140), adjustmentReason: 'Winter peak' }
+    ]));
+
+    const modification = await service.modify('booking-1', {
+      checkOutDate: new Date('2024-11-13T00:00:00'),
+      reason: 'Guest extends'
+    }, 'agent-1');
+
+    expect(modification.priceDelta).toEqual(expect.objectContaining({
+      previousAmount: 224,
+      newAmount: 364,
+      difference: 140,
+      appliedRules: ['Winter peak']
+    }));
+    expect(mockPrisma.tx.reservationRate.createMany).toHaveBeenCalledWith({
+      data: [
+        expect.objectContaining({ reservationId: 'booking-1', totalRate: 112 }),
+        expect.objectContaining({ reservationId: 'booking-1', totalRate: 112 }),
+        expect.objectContaining({ reservationId: 'booking-1', totalRate: 140 })
+      ]
+    });
+    expect(mockPrisma.tx.folioCharge.create).not.toHaveBeenCalled();
+    expect(modification.folioChargeId).toBeNull();
+  });
+
+  it('should reprice every future night when the guest count changes', async () => {
+    mockPrisma.booking.findUnique.mockResolvedValue(booking({
+      nightlyRates: [storedNight('2024-11-10'), storedNight('2024-11-11')]
+    }));
+    mockPricing.calculateNightlyRates = jest.fn().mockReturnValue(of([
+      { ...storedNight('2024-11-10', 130), currencyCode: 'USD' },
+      { ...storedNight('2024-11-11', 130), currencyCode: 'USD' }
+    ]));
+
+    const modification = await service.modify('booking-1', { numberOfGuests: 3, reason: 'Third adult' }, 'agent-1');
+
+    expect(modification.modificationType).toBe(ModificationType.GUEST_COUNT_CHANGE);
+    expect(modification.priceDelta.difference).toBe(36);
+    expect(mockPricing.calculateNightlyRates).toHaveBeenCalledWith(
+      'rate-1', expect.any(Date), expect.any(Date), expect.any(Number), expect.any(String), expect.any(Object), 3
+    );
+    expect(mockPrisma.tx.reservationRate.createMany).toHaveBeenCalledWith({
+      data: [
+        expect.objectContaining({ totalRate: 130, currencyCode: 'USD' }),
+        expect.objectContaining({ totalRate: 130, currencyCode: 'USD' })
+      ]
+    });
+  });
+
+  it('should release the nights a shifted stay no longer covers', async () => {
+    await service.modify('booking-1', {
+      checkInDate: new Date('2024-11-11T00:00:00'),
+      checkOutDate: new Date('2024-11-13T00:00:00'),
+      reason: 'Flight changed'
+    }, 'agent-1');
+
+    expect(mockInventory.release).toHaveBeenCalledWith(
+      'DELUXE',
+      new Date('2024-11-10T00:00:00'),
+      new Date('2024-11-11T00:00:00'),
+      1,
+      mockPrisma.tx
+    );
+    expect(mockInventory.allocate).toHaveBeenCalledWith(
+      'DELUXE',
+      new Date('2024-11-12T00:00:00'),
+      new Date('2024-11-13T00:00:00'),
+      1,
+      mockPrisma.tx
+    );
+    expect(mockPrisma.tx.folioCharge.create).not.toHaveBeenCalled();
+  });
+
+  it('should clear an assigned room that no longer fits the new guest count', async () => {
+    mockPrisma.booking.findUnique.mockResolvedValue(booking({ roomId: 'room-101' }));
+    mockRoomAssignment.checkRoom.mockRejectedValue({ code: ErrorCode.BUSINESS_RULE_VIOLATION });
+
+    const quote = await service.quote('booking-1', { numberOfGuests: 4, reason: 'Children added' });
+
+    expect(quote.modificationType).toBe(ModificationType.GUEST_COUNT_CHANGE);
+    expect(quote.next.roomId).toBeNull();
+  });
+
+  it('should reject added nights when the room type is sold out', async () => {
+    mockAvailability.validateRoomTypeAvailability.mockReturnValue(of(false));
+
+    await expect(service.modify('booking-1', {
+      checkOutDate: new Date('2024-11-14T00:00:00'),
+      reason: 'Guest extends'
+    }, 'agent-1')).rejects.toMatchObject({ code: ErrorCode.RESOURCE_CONFLICT });
+    expect(mockPrisma.$transaction).not.toHaveBeenCalled();
+  });
+
+  it('should not move the arrival of an in-house booking', async () => {
+    mockPrisma.booking.findUnique.mockResolvedValue(booking({ status: BookingStatus.CHECKED_IN }));
+
+    await expect(service.quote('booking-1', {
+      checkInDate: new Date('2024-11-11T00:00:00'),
+      reason: 'Typo'
+    })).rejects.toMatchObject({ code: ErrorCode.BUSINESS_RULE_VIOLATION });
+  });
+});
@@ -0,0 +1,155 @@
+/**
+ * @fileoverview Unit tests for stay restrictions covering length-of-stay limits, closed to
+ * arrival and departure, channel rule restrictions and calendar updates.
+ * @version 1.0.0
+ */
+
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals'; // v29.0.0
+import { StayRestrictionService } from '../../src/services/stay-restriction.service';
+import { StayRestrictionType } from '../../src/models/stay-restriction.model';
+import { RoomType } from '../../../room-service/src/models/room.model';
+import { ErrorCode } from '../../../shared/constants/error-codes';
+
+jest.mock('../../src/config/database', () => ({ prisma: {} }));
+jest.mock('../../src/services/channel-outbox.service', () => ({
+  ChannelOutboxService: jest.fn().mockImplementation(() => ({ queue: jest.fn() }))
+}));
+
+describe('StayRestrictionService', () => {
+  let service: StayRestrictionService;
+  let mockPrisma: any;
+
+  const restriction = (date: string, overrides: Record<string, unknown> = {}) => ({
+    id: `restriction-${date}`,
+    rateId: 'rate-1',
+    roomType: RoomType.DELUXE,
+    date: new Date(`${date}T00:00:00`),
+    minimumLOS: null,
+    maximumLOS: null,
+    closedToArrival: false,
+    closedToDeparture: false,
+    updatedBy: 'revenue-1',
+    ...overrides
+  });
+
+  const stay = {
+    rateId: 'rate-1',
+    roomType: RoomType.DELUXE,
+    checkInDate: new Date('2024-12-30T00:00:00'),
+    checkOutDate: new Date('2025-01-01T00:00:00')
+  };
+
+  beforeEach(() => {
+    const tx = {
+      stayRestriction: { upsert: jest.fn() }
+    };
+
+    mockPrisma = {
+      stayRestriction: {
+        findMany: jest.fn().mockResolvedValue([]),
+        deleteMany: jest.fn().mockResolvedValue({ count: 0 })
+      },
+      rate: { findUnique: jest.fn().mockResolvedValue(null) },
+      $transaction: jest.fn().mockImplementation((callback: any) => callback(tx)),
+      tx
+    };
+
+    service = new StayRestrictionService(mockPrisma);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should reject a stay shorter than the strictest minimum across its nights', async () => {
+    mockPrisma.stayRestriction.findMany.mockResolvedValue([
+      restriction('2024-12-30', { minimumLOS: 2 }),
+      restriction('2024-12-31', { minimumLOS: 3 })
+    ]);
+
+    await expect(service.validateStay(stay)).rejects.toMatchObject({
+      code: ErrorCode.BUSINESS_RULE_VIOLATION,
+      details: expect.objectContaining({
+        message: 'Minimum stay of 3 nights applies on 2024-12-31',
+        violations: [expect.objectContaining({ restriction: StayRestrictionType.MINIMUM_LOS, limit: 3 })]
+      })
+    });
+  });
+
+  it('should apply closed to arrival only on the arrival date', async () => {
+    mockPrisma.stayRestriction.findMany.mockResolvedValue([
+      restriction('2024-12-31', { closedToArrival: true })
+    ]);
+
+    await expect(service.findViolations(stay)).resolves.toEqual([]);
+
+    mockPrisma.stayRestriction.findMany.mockResolvedValue([
+      restriction('2024-12-30', { closedToArrival: true })
+    ]);
+
+    await expect(service.findViolations(stay)).resolves.toEqual([
+      expect.objectContaining({
+        restriction: StayRestrictionType.CLOSED_TO_ARRIVAL,
+        message: 'Arrival is closed on 2024-12-30'
+      })
+    ]);
+  });
+
+  it('should apply closed to departure on the departure date', async () => {
+    mockPrisma.stayRestriction.findMany.mockResolvedValue([
+      restriction('2025-01-01', { closedToDeparture: true, minimumLOS: 5 })
+    ]);
+
+    const violations = await service.findViolations(stay);
+
+    // The departure date is not a night of the stay, so its minimum does not apply
+    expect(violations).toEqual([
+      expect.objectContaining({
+        restriction: StayRestrictionType.CLOSED_TO_DEPARTURE,
+        message: 'Departure is closed on 2025-01-01'
+      })
+    ]);
+  });
+
+  it('should enforce the restrictions of the booking channel rule', async () => {
+    mockPrisma.rate.findUnique.mockResolvedValue({
+      id: 'rate-1',
+      channelRules: {
+        OTA: { restrictions: { minimumLOS: 1, maximumLOS: 1 } }
+      }
+    });
+
+    await expect(service.findViolations({ ...stay, channel: 'DIRECT' })).resolves.toEqual([]);
+    await expect(service.findViolations({ ...stay, channel: 'OTA' })).resolves.toEqual([
+      expect.objectContaining({
+        restriction: StayRestrictionType.MAXIMUM_LOS,
+        limit: 1,
+        message: 'Maximum stay of 1 nights applies on 2024-12-30'
+      })
+    ]);
+  });
+
+  it('should upsert only the requested days of week and keep unspecified restrictions', async () => {
+    await service.setRestrictions({
+      rateId: 'rate-1' as any,
+      roomType: RoomType.DELUXE,
+      startDate: new Date('2024-12-01T00:00:00'),
+      endDate: new Date('2024-12-14T00:00:00'),
+      daysOfWeek: [5, 6],
+      minimumLOS: 2
+    }, 'revenue-1');
+
+    expect(mockPrisma.tx.stayRestriction.upsert).toHaveBeenCalledTimes(4);
+    expect(mockPrisma.tx.stayRestriction.upsert).toHaveBeenCalledWith({
+      where: {
+        rateId_roomType_date: {
+          rateId: 'rate-1',
+          roomType: RoomType.DELUXE,
+          date: new Date('2024-12-06T00:00:00')
+        }
+      },
+      update: expect.not.objectContaining({ closedToArrival: expect.anything() }),
+      create: expect.objectContaining({ minimumLOS: 2, closedToArrival: false, updatedBy: 'revenue-1' })
+    });
+  });
+});
@@ -0,0 +1,244 @@
+/**
+ * @fileoverview Unit tests for the waitlist service covering priority offers, timed holds
+ * and front desk notification when room-type inventory is released.
+ * @version 1.0.0
+ */
+
+import { of } from 'rxjs';
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals'; // v29.0.0
+import { WaitlistService } from '../../src/services/waitlist.service';
+import { WaitlistStatus } from '../../src/models/waitlist.model';
+import { BookingStatus } from '../../src/models/booking.model';
+import { ErrorCode } from '../../../shared/constants/error-codes';
+
+jest.mock('../../src/config/database', () => ({ prisma: {} }));
+jest.mock('../../../shared/services/business-date.service', () => ({
+  BusinessDateService: jest.fn()
+}));
+jest.mock('../../../websocket-service/src/config/websocket', () => ({
+  WebSocketNamespaces: { FRONT_DESK: 'front_desk' }
+}));
+
+describe('WaitlistService', () => {
+  const businessDate = new Date('2024-08-02T00:00:00');
+  let service: WaitlistService;
+  let mockPrisma: any;
+  let mockNotifications: any;
+  let mockInventory: any;
+  let mockPricing: any;
+  let mockPaymentSchedules: any;
+
+  const entry = (id: string, overrides: Record<string, unknown> = {}) => ({
+    id,
+    bookingId: `booking-${id}`,
+    guestId: `guest-${id}`,
+    roomType: 'DELUXE',
+    checkInDate: new Date('2024-08-09T00:00:00'),
+    checkOutDate: new Date('2024-08-11T00:00:00'),
+    numberOfGuests: 2,
+    priority: 0,
+    status: WaitlistStatus.WAITING,
+    offeredAt: null,
+    holdExpiresAt: null,
+    ...overrides
+  });
+
+  beforeEach(() => {
+    const tx = {
+      waitlistEntry: {
+        updateMany: jest.fn().mockResolvedValue({ count: 1 }),
+        update: jest.fn().mockImplementation(({ where, data }: any) => Promise.resolve({ id: where.id, ...data }))
+      },
+      booking: {
+        findUnique: jest.fn().mockImplementation(({ where }: any) => Promise.resolve({ id: where.id, auditTrail: [] })),
+        update: jest.fn()
+      }
+    };
+
+    mockPrisma = {
+      waitlistEntry: {
+        findMany: jest.fn().mockResolvedValue([]),
+        findUnique: jest.fn()
+      },
+      booking: {
+        findUnique: jest.fn().mockImplementation(({ where }: any) => Promise.resolve({
+          id: where.id,
+          rateId: 'rate-1',
+          bookingSource: 'DIRECT'
+        }))
+      },
+      $transaction: jest.fn().mockImplementation((callback: any) => callback(tx)),
+      tx
+    };
+
+    mockNotifications = { sendNotification: jest.fn() };
+    mockInventory = {
+      hasAvailability: jest.fn().mockResolvedValue(true),
+      allocate: jest.fn(),
+      release: jest.fn()
+    };
+
+    mockPricing = {
+      calculateNightlyRates: jest.fn().mockReturnValue(of([
+        { date: new Date('2024-08-09T00:00:00'), amount: 200, taxAmount: 20, totalRate: 220 },
+        { date: new Date('2024-08-10T00:00:00'), amount: 250, taxAmount: 25, totalRate: 275 }
+      ]))
+    };
+    mockPaymentSchedules = { createSchedule: jest.fn() };
+
+    service = new WaitlistService(
+      mockNotifications,
+      mockPricing,
+      { getCurrentOccupancy: jest.fn().mockResolvedValue(80) } as any,
+      mockPrisma,
+      { getBusinessDate: jest.fn().mockResolvedValue(businessDate) } as any,
+      mockInventory,
+      mockPaymentSchedules
+    );
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should hold a room of the released type for the highest priority entry and notify the front desk', async () => {
+    mockPrisma.waitlistEntry.findMany.mockResolvedValue([entry('entry-1', { priority: 5 }), entry('entry-2')]);
+
+    const offered = await service.offerReleasedInventory(
+      'DELUXE' as any,
+      new Date('2024-08-09T00:00:00'),
+      new Date('2024-08-11T00:00:00'),
+      'user-1'
+    );
+
+    expect(offered?.id).toBe('entry-1');
+    expect(offered?.status).toBe(WaitlistStatus.OFFERED);
+    expect(offered?.holdExpiresAt?.getTime()).toBe(offered!.offeredAt!.getTime() + 60 * 60 * 1000);
+    expect(mockInventory.allocate).toHaveBeenCalledWith(
+      'DELUXE',
+      new Date('2024-08-09T00:00:00'),
+      new Date('2024-08-11T00:00:00'),
+      1,
+      mockPrisma.tx
+    );
+    expect(mockPrisma.tx.booking.update).toHaveBeenCalledWith(expect.objectContaining({
+      where: { id: 'booking-entry-1' },
+      data: expect.objectContaining({ status: BookingStatus.ON_HOLD })
+    }));
+    expect(mockNotifications.sendNotification).toHaveBeenCalledWith(expect.objectContaining({
+      type: 'WAITLIST_OFFER',
+      targetGroup: 'front_desk'
+    }));
+  });
+
+  it('should skip entries whose full stay is not available for the room type', async () => {
+    mockPrisma.waitlistEntry.findMany.mockResolvedValue([
+      entry('entry-1', { checkOutDate: new Date('2024-08-14T00:00:00') }),
+      entry('entry-2')
+    ]);
+    mockInventory.hasAvailability.mockResolvedValueOnce(false).mockResolvedValueOnce(true);
+
+    const offered = await service.offerReleasedInventory(
+      'DELUXE' as any,
+      new Date('2024-08-09T00:00:00'),
+      new Date('2024-08-11T00:00:00'),
+      'user-1'
+    );
+
+    expect(offered?.id).toBe('entry-2');
+  });
+
+  it('should expire lapsed holds and pass the room to the next entry', async () => {
+    const lapsed = entry('entry-1', {
+      status: WaitlistStatus.OFFERED,
+      holdExpiresAt: new Date(Date.now() - 1000)
+    });
+    mockPrisma.waitlistEntry.findMany
+      .mockResolvedValueOnce([lapsed])
+      .mockResolvedValueOnce([entry('entry-2')]);
+
+    const expired = await service.expireHolds();
+
+    expect(expired).toBe(1);
+    expect(mockInventory.release).toHaveBeenCalledWith(
+      'DELUXE',
+      lapsed.checkInDate,
+      lapsed.checkOutDate,
+      1,
+      mockPrisma.tx
+    );
+    expect(mockPrisma.tx.waitlistEntry.updateMany).toHaveBeenCalledWith({
+      where: { holdExpiresAt: { lte: expect.any(Date) }, id: 'entry-1', status: WaitlistStatus.OFFERED },
+      data: { status: WaitlistStatus.EXPIRED }
+    });
+    expect(mockPrisma.tx.waitlistEntry.updateMany).toHaveBeenCalledWith(expect.objectContaining({
+      where: { id: 'entry-2', status: WaitlistStatus.WAITING }
+    }));
+  });
+
+  it('should leave a lapsed hold alone when its offer was accepted concurrently', async () => {
+    mockPrisma.waitlistEntry.findMany.mockResolvedValueOnce([entry('entry-1', {
+      status: WaitlistStatus.OFFERED,
+      holdExpiresAt: new Date(Date.now() - 1000)
+    })]);
+    mockPrisma.tx.waitlistEntry.updateMany.mockResolvedValueOnce({ count: 0 });
+
+    const expired = await service.expireHolds();
+
+    expect(expired).toBe(0);
+    expect(mockInventory.release).not.toHaveBeenCalled();
+    expect(mockPrisma.tx.booking.update).not.toHaveBeenCalled();
+  });
+
+  it('should price the stay, confirm the booking and schedule its deposits when an offer is accepted', async () => {
+    mockPrisma.waitlistEntry.findUnique.mockResolvedValue(entry('entry-1', {
+      status: WaitlistStatus.OFFERED,
+      holdExpiresAt: new Date(Date.now() + 60 * 1000)
+    }));
+
+    const accepted = await service.acceptOffer('entry-1', 'user-1');
+
+    expect(accepted.status).toBe(WaitlistStatus.ACCEPTED);
+    expect(mockPricing.calculateNightlyRates).toHaveBeenCalledWith(
+      'rate-1',
+      new Date('2024-08-09T00:00:00'),
+      new Date('2024-08-11T00:00:00'),
+      80,
+      'DIRECT',
+      undefined,
+      2
+    );
+    expect(mockPrisma.tx.waitlistEntry.updateMany).toHaveBeenCalledWith({
+      where: { id: 'entry-1', status: WaitlistStatus.OFFERED, holdExpiresAt: { gt: expect.any(Date) } },
+      data: { status: WaitlistStatus.ACCEPTED }
+    });
+    expect(mockPrisma.tx.booking.update).toHaveBeenCalledWith(expect.objectContaining({
+      where: { id: 'booking-entry-1' },
+      data: expect.objectContaining({
+        status: BookingStatus.CONFIRMED,
+        totalAmount: 495,
+        taxAmount: 45,
+        nightlyRates: { create: expect.arrayContaining([expect.objectContaining({ amount: 200 })]) }
+      })
+    }));
+    expect(mockPaymentSchedules.createSchedule).toHaveBeenCalledWith(
+      expect.objectContaining({ id: 'booking-entry-1', totalAmount: 495 }),
+      null,
+      mockPrisma.tx
+    );
+  });
+
+  it('should reject accepting an offer whose hold has lapsed', async () => {
+    mockPrisma.waitlistEntry.findUnique.mockResolvedValue(entry('entry-1', {
+      status: WaitlistStatus.OFFERED,
+      holdExpiresAt: new Date(Date.now() - 1000)
+    }));
+    mockPrisma.tx.waitlistEntry.updateMany.mockResolvedValueOnce({ count: 0 });
+
+    await expect(service.acceptOffer('entry-1', 'user-1')).rejects.toMatchObject({
+      code: ErrorCode.BUSINESS_RULE_VIOLATION
+    });
+    expect(mockPrisma.tx.booking.update).not.toHaveBeenCalled();
+    expect(mockPaymentSchedules.createSchedule).not.toHaveBeenCalled();
+  });
+});
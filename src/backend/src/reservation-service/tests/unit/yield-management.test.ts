@@ -0,0 +1,162 @@
+/**
+ * @fileoverview Unit tests for the yield rule engine covering on-the-books occupancy, booking
+ * pace, lead time and day-of-week rules, their explanations and rule versioning.
+ * @version 1.0.0
+ */
+
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals'; // v29.0.0
+import { YieldManagementService } from '../../src/services/yield-management.service';
+import { YieldRule, YieldRuleFactor } from '../../src/models/yield-rule.model';
+import { ErrorCode } from '../../../shared/constants/error-codes';
+
+jest.mock('../../src/config/database', () => ({ prisma: {} }));
+
+describe('YieldManagementService', () => {
+  const now = new Date('2024-09-01T10:00:00');
+  let service: YieldManagementService;
+  let mockPrisma: any;
+
+  const rules: YieldRule[] = [
+    { name: 'High demand', factor: YieldRuleFactor.OCCUPANCY, min: 80, adjustmentType: 'PERCENTAGE', adjustmentValue: 10 },
+    {
+      name: 'Strong pickup',
+      factor: YieldRuleFactor.BOOKING_PACE,
+      min: 10,
+      paceWindowDays: 7,
+      adjustmentType: 'PERCENTAGE',
+      adjustmentValue: 5
+    },
+    { name: 'Weekend', factor: YieldRuleFactor.DAY_OF_WEEK, daysOfWeek: [6], adjustmentType: 'FIXED', adjustmentValue: 15 },
+    { name: 'Last minute', factor: YieldRuleFactor.LEAD_TIME, max: 3, adjustmentType: 'PERCENTAGE', adjustmentValue: -10 },
+    {
+      name: 'Other rate',
+      factor: YieldRuleFactor.LEAD_TIME,
+      min: 0,
+      adjustmentType: 'PERCENTAGE',
+      adjustmentValue: 50,
+      rateIds: ['rate-2']
+    }
+  ];
+
+  const inventory = (date: string, roomType: string, totalRooms: number, allocatedRooms: number) => ({
+    roomType,
+    date: new Date(`${date}T00:00:00`),
+    totalRooms,
+    allocatedRooms
+  });
+
+  const pickup = (createdAt: string) => ({
+    checkInDate: new Date('2024-09-06T00:00:00'),
+    checkOutDate: new Date('2024-09-08T00:00:00'),
+    createdAt: new Date(createdAt)
+  });
+
+  beforeEach(() => {
+    mockPrisma = {
+      yieldRuleSet: {
+        findFirst: jest.fn().mockResolvedValue({ id: 'rules-3', version: 3, rules }),
+        findMany: jest.fn().mockResolvedValue([]),
+        create: jest.fn(({ data }: any) => Promise.resolve({ id: 'rules-4', ...data }))
+      },
+      // Friday 85% on the books, Saturday 50%
+      roomTypeInventory: {
+        findMany: jest.fn().mockResolvedValue([
+          inventory('2024-09-06', 'DELUXE', 10, 9),
+          inventory('2024-09-06', 'STANDARD', 10, 8),
+          inventory('2024-09-07', 'DELUXE', 10, 5),
+          inventory('2024-09-07', 'STANDARD', 10, 5)
+        ])
+      },
+      // Two rooms picked up this week; the third booking is older than the pace window
+      booking: {
+        findMany: jest.fn().mockResolvedValue([
+          pickup('2024-08-30T12:00:00'),
+          pickup('2024-08-31T09:00:00'),
+          pickup('2024-08-01T09:00:00')
+        ])
+      }
+    };
+
+    service = new YieldManagementService(mockPrisma);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should adjust each night by the rules its demand matches and explain them', async () => {
+    const adjustments = await service.evaluate(
+      'rate-1',
+      new Date('2024-09-06T00:00:00'),
+      new Date('2024-09-08T00:00:00'),
+      now
+    );
+
+    expect(adjustments).toEqual({
+      '2024-09-06': {
+        percentage: 15,
+        amount: 0,
+        rules: ['High demand', 'Strong pickup'],
+        appliedRules: [
+          'High demand: 85% on the books → +10%',
+          'Strong pickup: 10% picked up in the last 7 days → +5%'
+        ]
+      },
+      '2024-09-07': {
+        percentage: 5,
+        amount: 15,
+        rules: ['Strong pickup', 'Weekend'],
+        appliedRules: [
+          'Strong pickup: 10% picked up in the last 7 days → +5%',
+          'Weekend: Saturday → +15.00'
+        ]
+      }
+    });
+  });
+
+  it('should apply lead time rules to nights close to arrival', async () => {
+    const adjustments = await service.evaluate(
+      'rate-1',
+      new Date('2024-09-03T00:00:00'),
+      new Date('2024-09-04T00:00:00'),
+      now
+    );
+
+    expect(adjustments['2024-09-03'].appliedRules).toContain('Last minute: 2 days before arrival → -10%');
+    expect(adjustments['2024-09-03'].percentage).toBe(-10);
+  });
+
+  it('should price a rate without rules unadjusted and without reading demand', async () => {
+    mockPrisma.yieldRuleSet.findFirst.mockResolvedValue(null);
+
+    const adjustments = await service.evaluate(
+      'rate-1',
+      new Date('2024-09-06T00:00:00'),
+      new Date('2024-09-08T00:00:00'),
+      now
+    );
+
+    expect(adjustments).toEqual({});
+    expect(mockPrisma.roomTypeInventory.findMany).not.toHaveBeenCalled();
+  });
+
+  it('should store new rules as the next version', async () => {
+    const ruleSet = await service.updateRules({ rules: rules.slice(0, 2), userId: 'revenue-manager', comment: 'Autumn' });
+
+    expect(mockPrisma.yieldRuleSet.create).toHaveBeenCalledWith({
+      data: { version: 4, rules: rules.slice(0, 2), comment: 'Autumn', createdBy: 'revenue-manager' }
+    });
+    expect(ruleSet.version).toBe(4);
+  });
+
+  it('should refuse rules without a valid range', async () => {
+    const inverted = { ...rules[0], min: 80, max: 60 };
+    const unbounded = { ...rules[3], max: undefined };
+
+    await expect(service.updateRules({ rules: [inverted], userId: 'revenue-manager' }))
+      .rejects.toMatchObject({ code: ErrorCode.VALIDATION_ERROR });
+    await expect(service.updateRules({ rules: [unbounded], userId: 'revenue-manager' }))
+      .rejects.toMatchObject({ code: ErrorCode.VALIDATION_ERROR });
+    expect(mockPrisma.yieldRuleSet.create).not.toHaveBeenCalled();
+  });
+});
@@ -7,6 +7,7 @@
 
 // External imports
 import { Prisma } from '@prisma/client'; // v5.0.0 - ORM and type definitions
+import { UUID } from 'crypto';
 
 // Internal imports
 import { BaseModel } from '../../../shared/interfaces/base-model.interface';
@@ -129,6 +130,9 @@ export interface RoomModel extends BaseModel {
   /** ADA compliance indicator */
   isAccessible: boolean;
   
+  /** Room reachable through a connecting door */
+  connectingRoomId: UUID | null;
+  
   /** Detailed room description */
   description: string;
   
@@ -44,7 +44,7 @@ describe('HousekeepingController', () => {
       params: {},
       body: {},
       query: {},
-      user: { id: 'staff-123', role: 'HOUSEKEEPING' }
+      user: { id: 'staff-123', role: 'HOUSEKEEPING', permissions: [] }
     };
 
     mockResponse = {
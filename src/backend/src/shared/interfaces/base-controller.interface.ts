@@ -10,17 +10,42 @@ import { Request, Response, NextFunction } from 'express';
 // Internal imports
 import { BaseService } from './base-service.interface';
 import { BaseModel } from './base-model.interface';
-import { ErrorCode } from '../constants/error-codes';
+import { ErrorCode, createErrorDetails } from '../constants/error-codes';
+
+declare global {
+  namespace Express {
+    /**
+     * Authenticated user the API gateway places on the request, so handlers taking a
+     * RequestWithUser can be registered on an Express router
+     */
+    interface User {
+      id: string;
+      role: string;
+      permissions: string[];
+    }
+  }
+}
 
 /**
  * Extended Express Request type that includes authenticated user data
  */
 export interface RequestWithUser extends Request {
-  user?: {
-    id: string;
-    role: string;
-    permissions: string[];
-  };
+  user?: Express.User;
+}
+
+/**
+ * Returns the id of the user a request was authenticated for
+ * @param req - Express request with authenticated user
+ * @throws ErrorCode.AUTHENTICATION_ERROR if the request carries no user
+ */
+export function authenticatedUserId(req: RequestWithUser): string {
+  if (!req.user) {
+    throw createErrorDetails(ErrorCode.AUTHENTICATION_ERROR, {
+      message: 'Request is not authenticated'
+    });
+  }
+
+  return req.user.id;
 }
 
 /**
@@ -0,0 +1,66 @@
+/**
+ * @fileoverview Notification message contract shared by the services that raise real-time
+ * notifications and the websocket service that delivers them, so business services depend on
+ * the contract rather than on the websocket controller.
+ * @version 1.0.0
+ */
+
+/**
+ * Enhanced interface for notification messages with tracking and priority
+ */
+export interface NotificationMessage {
+  id: string;
+  correlationId: string;
+  type: NotificationType;
+  targetUser?: string;
+  targetGroup?: string;
+  payload: unknown;
+  priority: NotificationPriority;
+  timestamp: Date;
+  deliveryStatus: DeliveryStatus;
+  retryCount?: number;
+  expiresAt?: Date;
+}
+
+/**
+ * Enumeration of notification types
+ */
+export enum NotificationType {
+  ROOM_STATUS = 'ROOM_STATUS',
+  SERVICE_REQUEST = 'SERVICE_REQUEST',
+  GUEST_MESSAGE = 'GUEST_MESSAGE',
+  SYSTEM_ALERT = 'SYSTEM_ALERT',
+  MAINTENANCE_ALERT = 'MAINTENANCE_ALERT',
+  BILLING_UPDATE = 'BILLING_UPDATE',
+  SECURITY_ALERT = 'SECURITY_ALERT',
+  WAITLIST_OFFER = 'WAITLIST_OFFER'
+}
+
+/**
+ * Enumeration of notification priority levels
+ */
+export enum NotificationPriority {
+  LOW = 'LOW',
+  MEDIUM = 'MEDIUM',
+  HIGH = 'HIGH',
+  URGENT = 'URGENT',
+  CRITICAL = 'CRITICAL'
+}
+
+/**
+ * Enumeration of message delivery statuses
+ */
+export enum DeliveryStatus {
+  PENDING = 'PENDING',
+  DELIVERED = 'DELIVERED',
+  FAILED = 'FAILED',
+  EXPIRED = 'EXPIRED',
+  QUEUED = 'QUEUED'
+}
+
+/**
+ * Delivers notification messages; implemented by the websocket notification controller
+ */
+export interface NotificationSender {
+  sendNotification(message: NotificationMessage): Promise<void>;
+}
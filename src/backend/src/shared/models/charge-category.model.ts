@@ -0,0 +1,15 @@
+/**
+ * @fileoverview Defines the folio charge category and department of room charges, shared by
+ * the rates and taxes that price a stay and the services that post it to folios.
+ * @version 1.0.0
+ */
+
+/**
+ * Charge category of room nights: taxed by the rules covering it and posted by the night audit
+ */
+export const ROOM_CHARGE_CATEGORY = 'ROOM';
+
+/**
+ * Department room nights and the charges that stand in for them are posted to
+ */
+export const ROOM_CHARGE_DEPARTMENT = 'ROOMS';
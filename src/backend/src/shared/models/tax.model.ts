@@ -0,0 +1,194 @@
+/**
+ * @fileoverview Defines jurisdictional tax rules and the tax calculation shared by pricing, folio
+ * posting and invoicing: stacked percentage and per-person-per-night taxes per charge category,
+ * effective-dated, priced inclusive or exclusive, with long-stay exemptions.
+ * @version 1.0.0
+ */
+
+// Internal imports
+import { BaseModel } from '../interfaces/base-model.interface';
+
+/**
+ * How a tax rule's rate is applied to a charge
+ */
+export enum TaxBasis {
+  /** Percentage of the charge's net amount, e.g. VAT */
+  PERCENTAGE = 'PERCENTAGE',
+  /** Fixed amount per charge; per room per night for room charges */
+  FIXED = 'FIXED',
+  /** Fixed amount per guest per night, e.g. a tourism levy */
+  PER_PERSON_PER_NIGHT = 'PER_PERSON_PER_NIGHT'
+}
+
+/**
+ * Effective-dated tax of a jurisdiction. Every rule covering a charge's category and date
+ * applies, so taxes of several jurisdictions stack on the same charge.
+ */
+export interface TaxRule extends BaseModel {
+  /** Short code printed on quotes and invoices, e.g. VAT, CITY, OCC */
+  code: string;
+  name: string;
+  /** Authority levying the tax, e.g. "FR" or "FR-75 Paris" */
+  jurisdiction: string;
+  /** Folio charge categories taxed, e.g. ROOM, F&B */
+  chargeCategories: string[];
+  basis: TaxBasis;
+  /** Percentage for PERCENTAGE, amount in the charge currency otherwise */
+  rate: number;
+  /** Included in the price sold rather than added on top of it */
+  inclusive: boolean;
+  /** Night of a stay after which the tax no longer applies, e.g. 30 for a long-stay exemption */
+  exemptAfterNights: number | null;
+  /** First date the rule applies to */
+  effectiveFrom: Date;
+  /** Last date the rule applies to; open-ended when null */
+  effectiveTo: Date | null;
+  createdBy: string;
+}
+
+/**
+ * Request adding a tax rule or a new version of one
+ */
+export interface CreateTaxRuleDto {
+  code: string;
+  name: string;
+  jurisdiction: string;
+  chargeCategories: string[];
+  basis: TaxBasis;
+  rate: number;
+  inclusive?: boolean;
+  exemptAfterNights?: number | null;
+  effectiveFrom: Date;
+  effectiveTo?: Date | null;
+  userId: string;
+}
+
+/**
+ * Filter for listing tax rules
+ */
+export interface TaxRuleFilter {
+  /** Only rules in force on this date */
+  date?: Date;
+  jurisdiction?: string;
+  chargeCategory?: string;
+}
+
+/**
+ * Charge to tax
+ */
+export interface TaxableCharge {
+  /** Folio charge category the rules are matched on */
+  category: string;
+  /** Price as sold: gross of inclusive taxes, net of exclusive ones */
+  amount: number;
+  /** Date of the service; picks the rule versions in force */
+  date: Date;
+  /** Guests the charge covers, for per-person taxes; 1 when absent */
+  persons?: number;
+  /** Night of the stay the charge is for, from 1, for long-stay exemptions */
+  stayNight?: number;
+}
+
+/**
+ * One tax applied to a charge
+ */
+export interface TaxLine {
+  code: string;
+  name: string;
+  jurisdiction: string;
+  basis: TaxBasis;
+  rate: number;
+  inclusive: boolean;
+  amount: number;
+}
+
+/**
+ * Taxes of one charge
+ */
+export interface TaxCalculation {
+  /** Amount before any tax */
+  netAmount: number;
+  /** Sum of all tax lines */
+  taxAmount: number;
+  /** Net amount plus taxes: what the guest pays */
+  grossAmount: number;
+  /** Tax amount as a fraction of the net amount */
+  effectiveRate: number;
+  lines: TaxLine[];
+}
+
+/**
+ * Whether a rule taxes a charge: its category, the date and the night of the stay
+ */
+export function isTaxRuleApplicable(rule: TaxRule, charge: TaxableCharge): boolean {
+  return rule.chargeCategories.includes(charge.category)
+    && rule.effectiveFrom <= charge.date
+    && (rule.effectiveTo === null || charge.date <= rule.effectiveTo)
+    && (!rule.exemptAfterNights || !charge.stayNight || charge.stayNight <= rule.exemptAfterNights);
+}
+
+/**
+ * Taxes a charge with every applicable rule. Inclusive taxes are taken out of the amount sold
+ * first, and percentage taxes are computed on the net amount that remains.
+ * @param charge - Charge to tax
+ * @param rules - Rules to choose from; inapplicable ones are ignored
+ * @param allInclusive - Treat every tax as included in the amount, to split a tax-inclusive price
+ */
+export function calculateTaxes(charge: TaxableCharge, rules: TaxRule[], allInclusive = false): TaxCalculation {
+  const applicable = rules.filter(rule => isTaxRuleApplicable(rule, charge));
+  const included = (rule: TaxRule) => allInclusive || rule.inclusive;
+  const fixedAmount = (rule: TaxRule) =>
+    rule.basis === TaxBasis.PER_PERSON_PER_NIGHT ? rule.rate * (charge.persons ?? 1) : rule.rate;
+
+  const includedPercentage = applicable
+    .filter(rule => included(rule) && rule.basis === TaxBasis.PERCENTAGE)
+    .reduce((sum, rule) => sum + rule.rate, 0);
+  const includedFixed = applicable
+    .filter(rule => included(rule) && rule.basis !== TaxBasis.PERCENTAGE)
+    .reduce((sum, rule) => sum + fixedAmount(rule), 0);
+  const taxBase = (charge.amount - includedFixed) / (1 + includedPercentage / 100);
+
+  const lines: TaxLine[] = applicable.map(rule => ({
+    code: rule.code,
+    name: rule.name,
+    jurisdiction: rule.jurisdiction,
+    basis: rule.basis,
+    rate: rule.rate,
+    inclusive: included(rule),
+    amount: roundTax(rule.basis === TaxBasis.PERCENTAGE ? taxBase * rule.rate / 100 : fixedAmount(rule))
+  }));
+
+  // Rounding differences of inclusive taxes stay in the net amount so the price sold is unchanged
+  const netAmount = roundTax(charge.amount - lines.filter(line => line.inclusive).reduce((sum, line) => sum + line.amount, 0));
+  const taxAmount = roundTax(lines.reduce((sum, line) => sum + line.amount, 0));
+
+  return {
+    netAmount,
+    taxAmount,
+    grossAmount: roundTax(netAmount + taxAmount),
+    effectiveRate: netAmount === 0 ? 0 : Number((taxAmount / netAmount).toFixed(4)),
+    lines
+  };
+}
+
+/**
+ * Totals tax lines by tax and jurisdiction, for quotes and invoices covering several charges
+ */
+export function summarizeTaxLines(lines: TaxLine[]): TaxLine[] {
+  const totals = new Map<string, TaxLine>();
+
+  for (const line of lines) {
+    const key = `${line.jurisdiction}:${line.code}`;
+    const total = totals.get(key);
+    totals.set(key, total ? { ...total, amount: roundTax(total.amount + line.amount) } : { ...line });
+  }
+
+  return Array.from(totals.values());
+}
+
+/**
+ * Rounds an amount to cents
+ */
+function roundTax(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
@@ -0,0 +1,125 @@
+/**
+ * @fileoverview Persisted hotel business date shared by all microservices. The business date
+ * only moves forward when the night audit closes the day, so postings, arrivals and reports
+ * stay on the hotel's accounting day rather than the wall clock.
+ * @version 1.0.0
+ */
+
+// External imports
+import { Injectable, Logger } from '@nestjs/common'; // v10.0.0
+import { PrismaClient } from '@prisma/client'; // v5.0.0
+import { addDays, format, isSameDay, startOfDay } from 'date-fns'; // v2.30.0
+
+// Internal imports
+import { ErrorCode, createErrorDetails } from '../constants/error-codes';
+
+/**
+ * Identifier of the single business date record kept per property
+ */
+const DEFAULT_PROPERTY_ID = process.env.PROPERTY_ID || 'DEFAULT';
+
+/**
+ * Persisted business date record
+ */
+export interface BusinessDate {
+  propertyId: string;
+  /** Current open business day (midnight, property time) */
+  currentDate: Date;
+  /** Business day closed by the last rollover */
+  previousDate: Date | null;
+  /** Timestamp of the last rollover */
+  lastRolloverAt: Date | null;
+  /** User or job that performed the last rollover */
+  lastRolloverBy: string | null;
+}
+
+/**
+ * Service reading and advancing the persisted business date
+ */
+@Injectable()
+export class BusinessDateService {
+  private readonly logger = new Logger(BusinessDateService.name);
+
+  /**
+   * @param prisma - Database client of the microservice reading the date
+   * @param propertyId - Property the business date belongs to
+   */
+  constructor(
+    private readonly prisma: PrismaClient,
+    private readonly propertyId: string = DEFAULT_PROPERTY_ID
+  ) {}
+
+  /**
+   * Returns the current business date, initialising it from the wall clock on first use
+   * @returns Current open business day
+   */
+  async getBusinessDate(): Promise<Date> {
+    const record = await this.getRecord();
+    return record.currentDate;
+  }
+
+  /**
+   * Returns the full business date record. Read on every call rather than cached, so a rollover
+   * by the night audit is seen at once by every microservice.
+   */
+  async getRecord(): Promise<BusinessDate> {
+    let record = await this.prisma.businessDate.findUnique({
+      where: { propertyId: this.propertyId }
+    }) as BusinessDate | null;
+
+    if (!record) {
+      record = await this.prisma.businessDate.create({
+        data: {
+          propertyId: this.propertyId,
+          currentDate: startOfDay(new Date()),
+          previousDate: null,
+          lastRolloverAt: null,
+          lastRolloverBy: null
+        }
+      }) as BusinessDate;
+      this.logger.log(`Business date initialised to ${format(record.currentDate, 'yyyy-MM-dd')}`);
+    }
+
+    return record;
+  }
+
+  /**
+   * Closes the given business day and opens the next one
+   * @param closingDate - Business day the caller expects to close
+   * @param userId - User or job performing the rollover
+   * @returns Updated business date record
+   * @throws ErrorCode.RESOURCE_CONFLICT if the business date has already moved on
+   */
+  async rollover(closingDate: Date, userId: string): Promise<BusinessDate> {
+    const current = await this.getRecord();
+
+    if (!isSameDay(current.currentDate, closingDate)) {
+      throw createErrorDetails(ErrorCode.RESOURCE_CONFLICT, {
+        message: 'Business date has already been rolled over',
+        expected: format(closingDate, 'yyyy-MM-dd'),
+        current: format(current.currentDate, 'yyyy-MM-dd')
+      });
+    }
+
+    // Guard on the current value so two concurrent audits cannot both advance the date
+    const result = await this.prisma.businessDate.updateMany({
+      where: { propertyId: this.propertyId, currentDate: current.currentDate },
+      data: {
+        currentDate: addDays(current.currentDate, 1),
+        previousDate: current.currentDate,
+        lastRolloverAt: new Date(),
+        lastRolloverBy: userId
+      }
+    });
+
+    if (result.count === 0) {
+      throw createErrorDetails(ErrorCode.RESOURCE_CONFLICT, {
+        message: 'Business date was changed by another process'
+      });
+    }
+
+    const updated = await this.getRecord();
+    this.logger.log(`Business date rolled over to ${format(updated.currentDate, 'yyyy-MM-dd')}`);
+    return updated;
+  }
+}
@@ -0,0 +1,52 @@
+/**
+ * @fileoverview Reads the effective-dated tax rules and taxes charges with them. Shared so every
+ * microservice taxes on its own database client with the same rules, while the billing service
+ * alone maintains the rules.
+ * @version 1.0.0
+ */
+
+// External imports
+import { Injectable } from '@nestjs/common'; // v10.0.0
+import { PrismaClient } from '@prisma/client'; // v5.0.0
+import { startOfDay } from 'date-fns'; // v2.30.0
+
+// Internal imports
+import { TaxCalculation, TaxRule, TaxableCharge, calculateTaxes } from '../models/tax.model';
+
+/**
+ * Service calculating taxes with the rules in force
+ */
+@Injectable()
+export class TaxCalculationService {
+  constructor(protected readonly prisma: PrismaClient) {}
+
+  /**
+   * Returns the rules in force on any date of a period
+   * @param startDate - First date
+   * @param endDate - Last date
+   */
+  async getRules(startDate: Date, endDate: Date = startDate): Promise<TaxRule[]> {
+    return this.prisma.taxRule.findMany({
+      where: {
+        effectiveFrom: { lte: endDate },
+        OR: [{ effectiveTo: null }, { effectiveTo: { gte: startOfDay(startDate) } }]
+      }
+    }) as Promise<TaxRule[]>;
+  }
+
+  /**
+   * Taxes charges with the rules in force on their dates
+   * @param charges - Charges to tax
+   * @returns One calculation per charge, in order
+   */
+  async calculate(charges: TaxableCharge[]): Promise<TaxCalculation[]> {
+    if (charges.length === 0) {
+      return [];
+    }
+
+    const dates = charges.map(charge => charge.date.getTime());
+    const rules = await this.getRules(new Date(Math.min(...dates)), new Date(Math.max(...dates)));
+
+    return charges.map(charge => calculateTaxes(charge, rules));
+  }
+}
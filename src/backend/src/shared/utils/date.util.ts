@@ -35,12 +35,13 @@ export interface DateOptions {
   strict?: boolean;
   maxStayDuration?: number;
   minAdvanceBooking?: number;
+  referenceDate?: Date;
 }
 
 /**
  * Default configuration values
  */
-const DEFAULT_OPTIONS: Required<DateOptions> = {
+const DEFAULT_OPTIONS: Required<Omit<DateOptions, 'referenceDate'>> = {
   timezone: 'UTC',
   format: DateFormat.API_FORMAT,
   strict: true,
@@ -126,7 +127,8 @@ export function calculateNights(checkIn: Date, checkOut: Date): number {
  * Validates a booking date range against business rules
  * @param checkIn - Check-in date
  * @param checkOut - Check-out date
- * @param options - Validation options
+ * @param options - Validation options; pass the business date as referenceDate
+ * so advance booking is measured against the hotel's open day
  * @returns boolean indicating if the booking range is valid
  */
 export function isValidBookingRange(
@@ -134,7 +136,7 @@ export function isValidBookingRange(
   checkOut: Date,
   options: DateOptions = DEFAULT_OPTIONS
 ): boolean {
-  const now = new Date();
+  const now = options.referenceDate || new Date();
   const minBookingDate = addDays(now, options.minAdvanceBooking || 0);
 
   // Validate date objects
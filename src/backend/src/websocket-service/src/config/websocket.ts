@@ -15,7 +15,8 @@ export enum WebSocketEvents {
     MAINTENANCE_NOTIFICATION = 'MAINTENANCE_NOTIFICATION',
     BILLING_UPDATE = 'BILLING_UPDATE',
     GUEST_MESSAGE = 'GUEST_MESSAGE',
-    SYSTEM_ALERT = 'SYSTEM_ALERT'
+    SYSTEM_ALERT = 'SYSTEM_ALERT',
+    WAITLIST_OFFER = 'WAITLIST_OFFER'
 }
 
 /**
@@ -177,6 +178,14 @@ export const namespaceConfig = {
         ],
         maxClients: 500
     },
+    [WebSocketNamespaces.FRONT_DESK]: {
+        events: [
+            WebSocketEvents.RESERVATION_CREATED,
+            WebSocketEvents.GUEST_CHECKIN,
+            WebSocketEvents.WAITLIST_OFFER
+        ],
+        maxClients: 200
+    },
     [WebSocketNamespaces.BILLING]: {
         events: [WebSocketEvents.BILLING_UPDATE],
         maxClients: 200
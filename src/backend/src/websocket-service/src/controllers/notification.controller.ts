@@ -15,64 +15,22 @@ import { RoomStatusHandler } from '../handlers/room-status.handler';
 import { ServiceRequestHandler } from '../handlers/service-request.handler';
 import { WebSocketEvents, WebSocketNamespaces, MessagePriority, isValidWebSocketMessage } from '../config/websocket';
 import { ErrorCode, createErrorDetails } from '../../../shared/constants/error-codes';
+import {
+  NotificationMessage,
+  NotificationSender,
+  NotificationType,
+  NotificationPriority,
+  DeliveryStatus
+} from '../../../shared/interfaces/notification.interface';
 
-/**
- * Enhanced interface for notification messages with tracking and priority
- */
-export interface NotificationMessage {
-  id: string;
-  correlationId: string;
-  type: NotificationType;
-  targetUser?: string;
-  targetGroup?: string;
-  payload: unknown;
-  priority: NotificationPriority;
-  timestamp: Date;
-  deliveryStatus: DeliveryStatus;
-  retryCount?: number;
-  expiresAt?: Date;
-}
-
-/**
- * Enumeration of notification types
- */
-export enum NotificationType {
-  ROOM_STATUS = 'ROOM_STATUS',
-  SERVICE_REQUEST = 'SERVICE_REQUEST',
-  GUEST_MESSAGE = 'GUEST_MESSAGE',
-  SYSTEM_ALERT = 'SYSTEM_ALERT',
-  MAINTENANCE_ALERT = 'MAINTENANCE_ALERT',
-  BILLING_UPDATE = 'BILLING_UPDATE',
-  SECURITY_ALERT = 'SECURITY_ALERT'
-}
-
-/**
- * Enumeration of notification priority levels
- */
-export enum NotificationPriority {
-  LOW = 'LOW',
-  MEDIUM = 'MEDIUM',
-  HIGH = 'HIGH',
-  URGENT = 'URGENT',
-  CRITICAL = 'CRITICAL'
-}
-
-/**
- * Enumeration of message delivery statuses
- */
-enum DeliveryStatus {
-  PENDING = 'PENDING',
-  DELIVERED = 'DELIVERED',
-  FAILED = 'FAILED',
-  EXPIRED = 'EXPIRED',
-  QUEUED = 'QUEUED'
-}
+export { NotificationType, NotificationPriority, DeliveryStatus };
+export type { NotificationMessage };
 
 /**
  * Enhanced controller for managing system-wide real-time notifications
  */
 @Injectable()
-export class NotificationController {
+export class NotificationController implements NotificationSender {
   private readonly circuitBreaker: CircuitBreaker;
   private readonly rateLimiter: RateLimiter;
   private readonly messageQueue: Map<string, NotificationMessage>;
@@ -302,7 +260,8 @@ export class NotificationController {
       [NotificationType.GUEST_MESSAGE]: WebSocketEvents.GUEST_MESSAGE,
       [NotificationType.SYSTEM_ALERT]: WebSocketEvents.SYSTEM_ALERT,
       [NotificationType.MAINTENANCE_ALERT]: WebSocketEvents.MAINTENANCE_NOTIFICATION,
-      [NotificationType.BILLING_UPDATE]: WebSocketEvents.BILLING_UPDATE
+      [NotificationType.BILLING_UPDATE]: WebSocketEvents.BILLING_UPDATE,
+      [NotificationType.WAITLIST_OFFER]: WebSocketEvents.WAITLIST_OFFER
     };
     return mapping[type] || WebSocketEvents.SYSTEM_ALERT;
   }
@@ -13,6 +13,8 @@ import { Select } from '../../../shared/components/forms/Select';
 import { FONT_SIZE, FONT_WEIGHT, FONT_FAMILY } from '../../../shared/styles/typography';
 import { PRIMARY_COLORS, NEUTRAL_COLORS, SEMANTIC_COLORS } from '../../../shared/styles/colors';
 import { validateDateRange } from '../../../shared/utils/validation.util';
+import { reservationApi } from '../../../shared/api/reservation.api';
+import { AddOn, AddOnPricing } from '../../../shared/interfaces/reservation.interface';
 
 // Types for form data and props
 interface BookingFormData {
@@ -20,7 +22,8 @@ interface BookingFormData {
   checkOut: Date;
   roomType: string;
   guestCount: number;
-  addOns: string[];
+  addOns: string[]; // Add-on IDs
+  promoCode?: string;
   specialRequests?: string;
 }
 
@@ -126,6 +129,7 @@ export const BookingForm: React.FC<BookingFormProps> = React.memo(({
 
   const [isOffline, setIsOffline] = useState(!navigator.onLine);
   const [dynamicPrice, setDynamicPrice] = useState<number>(0);
+  const [addOnCatalog, setAddOnCatalog] = useState<AddOn[]>([]);
 
   // Room type options
   const roomTypes = [
@@ -141,11 +145,23 @@ export const BookingForm: React.FC<BookingFormProps> = React.memo(({
   }));
 
   // Add-on options
-  const addOnOptions = [
-    { value: 'breakfast', label: 'Breakfast ($15/day)' },
-    { value: 'parking', label: 'Parking ($20/day)' },
-    { value: 'wifi', label: 'Premium Wi-Fi ($10/day)' }
-  ];
+  const pricingLabels: Record<AddOnPricing, string> = {
+    [AddOnPricing.PER_STAY]: 'stay',
+    [AddOnPricing.PER_NIGHT]: 'night',
+    [AddOnPricing.PER_PERSON]: 'guest',
+    [AddOnPricing.PER_PERSON_PER_NIGHT]: 'guest/night'
+  };
+  const addOnOptions = addOnCatalog.map(addOn => ({
+    value: addOn.id,
+    label: `${addOn.name} ($${addOn.price}/${pricingLabels[addOn.pricing]})`
+  }));
+
+  // Load the add-on catalog; the form works without add-ons when offline
+  useEffect(() => {
+    reservationApi.getAddOns()
+      .then(setAddOnCatalog)
+      .catch(() => setAddOnCatalog([]));
+  }, []);
 
   // Monitor online status
   useEffect(() => {
@@ -177,13 +193,18 @@ export const BookingForm: React.FC<BookingFormProps> = React.memo(({
 
     let total = baseRates[formData.roomType as keyof typeof baseRates] * nights;
 
-    // Add-on costs
-    if (formData.addOns?.includes('breakfast')) total += 15 * nights;
-    if (formData.addOns?.includes('parking')) total += 20 * nights;
-    if (formData.addOns?.includes('wifi')) total += 10 * nights;
+    // Add-on costs before tax; the booking is priced with taxes on submission
+    const guests = formData.guestCount || 1;
+    addOnCatalog
+      .filter(addOn => formData.addOns?.includes(addOn.id))
+      .forEach(addOn => {
+        const perNight = addOn.pricing === AddOnPricing.PER_NIGHT || addOn.pricing === AddOnPricing.PER_PERSON_PER_NIGHT;
+        const perGuest = addOn.pricing === AddOnPricing.PER_PERSON || addOn.pricing === AddOnPricing.PER_PERSON_PER_NIGHT;
+        total += addOn.price * (perNight ? nights : 1) * (perGuest ? guests : 1);
+      });
 
-    return total;
-  }, []);
+    return Math.round(total * 100) / 100;
+  }, [addOnCatalog]);
 
   // Watch form values for dynamic price updates
   const watchedValues = watch();
@@ -274,7 +295,7 @@ export const BookingForm: React.FC<BookingFormProps> = React.memo(({
         />
       </FormGroup>
 
-      <FormGroup>
+      {addOnOptions.length > 0 && <FormGroup>
         <Label>Add-ons</Label>
         {addOnOptions.map(option => (
           <label key={option.value}>
@@ -286,6 +307,21 @@ export const BookingForm: React.FC<BookingFormProps> = React.memo(({
             {option.label}
           </label>
         ))}
+      </FormGroup>}
+
+      <FormGroup>
+        <Label htmlFor="promoCode">Promotion Code</Label>
+        <input
+          id="promoCode"
+          type="text"
+          autoCapitalize="characters"
+          maxLength={20}
+          {...register('promoCode', {
+            pattern: { value: /^[A-Za-z0-9]*$/, message: 'Letters and digits only' }
+          })}
+          aria-invalid={!!errors.promoCode}
+        />
+        {errors.promoCode && <ErrorText role="alert">{errors.promoCode.message}</ErrorText>}
       </FormGroup>
 
       <FormGroup>
@@ -12,7 +12,19 @@ import { io, Socket } from 'socket.io-client'; // ^4.7.2
 import localforage from 'localforage'; // ^1.10.0
 
 // Internal imports
-import { Reservation, ReservationStatus, PaymentStatus } from '../interfaces/reservation.interface';
+import {
+  AddOn,
+  AddOnQuote,
+  AddOnSelection,
+  Reservation,
+  ReservationRate,
+  ReservationStatus,
+  PaymentStatus,
+  RateParityStatus,
+  RateParityViolation,
+  RateQuote
+} from '../interfaces/reservation.interface';
+import { RoomType } from '../interfaces/room.interface';
 import { API_ENDPOINTS, API_TIMEOUT } from '../constants/api.constants';
 
 /**
@@ -25,6 +37,31 @@ interface ReservationCreateDto {
   checkOutDate: Date;
   numberOfGuests: number;
   specialRequests?: string[];
+  addOns?: AddOnSelection[];
+  /** Promotion codes as entered by the guest */
+  promoCodes?: string[];
+}
+
+/**
+ * Interface for add-on quote payload
+ */
+interface AddOnQuoteDto {
+  rateId?: string;
+  checkInDate: Date;
+  checkOutDate: Date;
+  numberOfGuests: number;
+  addOns: AddOnSelection[];
+}
+
+/**
+ * Interface for rate quote query
+ */
+interface RateQuoteDto {
+  rateId: string;
+  roomType: RoomType;
+  checkInDate: Date;
+  checkOutDate: Date;
+  numberOfGuests: number;
 }
 
 /**
@@ -38,6 +75,17 @@ interface ReservationFilterDto {
   roomNumber?: string;
 }
 
+/**
+ * Interface for rate parity violation filter options
+ */
+interface RateParityFilterDto {
+  status?: RateParityStatus;
+  rateId?: string;
+  channel?: string;
+  startDate?: string;
+  endDate?: string;
+}
+
 /**
  * Cache configuration
  */
@@ -186,6 +234,113 @@ class ReservationApiClient {
     }
   }
 
+  /**
+   * Retrieves the price stored for every night of a reservation
+   * @param id - Reservation ID
+   * @returns Promise resolving to nightly rates in date order
+   */
+  public async getReservationRates(id: string): Promise<ReservationRate[]> {
+    try {
+      const response = await this.axiosInstance.get<ReservationRate[]>(
+        `${API_ENDPOINTS.RESERVATIONS.BASE}/${id}/rates`
+      );
+
+      return response.data.map(rate => ({ ...rate, date: new Date(rate.date) }));
+    } catch (error) {
+      this.handleApiError('Error fetching nightly rates', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Retrieves nights on which a channel sells a rate out of parity with the direct channel
+   * @param filters - Optional status, rate, channel and night range filters
+   * @returns Promise resolving to parity violations in night order
+   */
+  public async getRateParityViolations(filters?: RateParityFilterDto): Promise<RateParityViolation[]> {
+    try {
+      const response = await this.axiosInstance.get<RateParityViolation[]>(
+        API_ENDPOINTS.RESERVATIONS.RATE_PARITY_VIOLATIONS,
+        { params: filters }
+      );
+
+      return response.data.map(violation => ({
+        ...violation,
+        date: new Date(violation.date),
+        detectedAt: new Date(violation.detectedAt),
+        lastCheckedAt: new Date(violation.lastCheckedAt),
+        resolvedAt: violation.resolvedAt ? new Date(violation.resolvedAt) : null,
+      }));
+    } catch (error) {
+      this.handleApiError('Error fetching rate parity violations', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Retrieves the add-ons that can be sold with a reservation
+   * @returns Promise resolving to active add-ons ordered by name
+   */
+  public async getAddOns(): Promise<AddOn[]> {
+    try {
+      const response = await this.axiosInstance.get<AddOn[]>(API_ENDPOINTS.RESERVATIONS.ADD_ONS);
+      return response.data;
+    } catch (error) {
+      this.handleApiError('Error fetching add-ons', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Prices add-ons for a stay, with taxes and the add-ons its package rate includes
+   * @param quoteData - Stay and chosen add-ons
+   * @returns Promise resolving to the priced add-on lines and totals
+   */
+  public async quoteAddOns(quoteData: AddOnQuoteDto): Promise<AddOnQuote> {
+    try {
+      const response = await this.axiosInstance.post<AddOnQuote>(
+        API_ENDPOINTS.RESERVATIONS.ADD_ON_QUOTE,
+        quoteData
+      );
+
+      return {
+        ...response.data,
+        lines: response.data.lines.map(line => ({ ...line, serviceDate: new Date(line.serviceDate) })),
+      };
+    } catch (error) {
+      this.handleApiError('Error quoting add-ons', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Prices a stay on a rate for the direct channel, taxes included
+   * @param quoteData - Rate, room type, stay and guest count
+   * @returns Promise resolving to the average nightly rate and the stay's tax lines
+   */
+  public async quoteRate(quoteData: RateQuoteDto): Promise<RateQuote> {
+    try {
+      const response = await this.axiosInstance.get<RateQuote>(
+        API_ENDPOINTS.RESERVATIONS.RATE_CALCULATION,
+        {
+          params: {
+            roomTypeId: quoteData.rateId,
+            roomType: quoteData.roomType,
+            checkInDate: quoteData.checkInDate.toISOString(),
+            checkOutDate: quoteData.checkOutDate.toISOString(),
+            channelId: 'DIRECT',
+            guests: quoteData.numberOfGuests,
+          },
+        }
+      );
+
+      return response.data;
+    } catch (error) {
+      this.handleApiError('Error quoting rate', error);
+      throw error;
+    }
+  }
+
   /**
    * Cancels a reservation with proper status updates
    * @param id - Reservation ID
@@ -76,6 +76,10 @@ export const RESERVATIONS = {
   GROUPS: `${API_VERSION}/reservations/groups`,
   CANCELLATIONS: `${API_VERSION}/reservations/cancellations`,
   MODIFICATIONS: `${API_VERSION}/reservations/modifications`,
+  RATE_CALCULATION: `${API_VERSION}/rates/calculate`,
+  RATE_PARITY_VIOLATIONS: `${API_VERSION}/rates/parity-violations`,
+  ADD_ONS: `${API_VERSION}/add-ons`,
+  ADD_ON_QUOTE: `${API_VERSION}/add-ons/quote`,
 } as const;
 
 /**
@@ -55,6 +55,9 @@ export interface Reservation {
   /** Assigned room number */
   roomNumber: string;
   
+  /** Rate the stay is priced on */
+  rateId?: UUID;
+
   /** Check-in date and time */
   checkInDate: Date;
   
@@ -87,6 +90,9 @@ export interface Reservation {
   
   /** Reason for cancellation if applicable */
   cancellationReason: string | null;
+
+  /** Add-ons booked with the stay, one line per service date */
+  addOns?: ReservationAddOn[];
 }
 
 /**
@@ -106,8 +112,11 @@ export interface ReservationRate {
   /** Base room rate amount */
   baseRate: number;
   
-  /** Tax rate percentage */
-  taxRate: number;
+  /** Tax on the night, the sum of its tax lines */
+  taxAmount: number;
+
+  /** Taxes making up the tax amount; absent on nights priced before the tax engine */
+  taxLines?: TaxLine[];
   
   /** Total rate including taxes and adjustments */
   totalRate: number;
@@ -119,6 +128,52 @@ export interface ReservationRate {
   adjustmentReason: string;
 }
 
+/**
+ * Interface defining one tax charged on a price, by tax and jurisdiction
+ */
+export interface TaxLine {
+  /** Tax code, e.g. CITY_OCC */
+  code: string;
+
+  /** Display name */
+  name: string;
+
+  /** Jurisdiction levying the tax */
+  jurisdiction: string;
+
+  /** What the tax is charged on: a percentage of the price or a flat amount per night, person or stay */
+  basis: string;
+
+  /** Percentage as a fraction, or the flat amount */
+  rate: number;
+
+  /** Whether the tax is included in the price rather than added to it */
+  inclusive: boolean;
+
+  /** Tax charged */
+  amount: number;
+}
+
+/**
+ * Interface defining a rate quote for a stay as priced by the backend
+ */
+export interface RateQuote {
+  /** Average nightly base rate */
+  baseRate: number;
+
+  /** Average nightly rate including adjustments and tax */
+  finalRate: number;
+
+  /** Taxes of the whole stay by tax and jurisdiction */
+  taxLines: TaxLine[];
+
+  /** Currency the rate is quoted in */
+  currencyCode?: string;
+
+  /** Modifiers and rules applied to the stay */
+  appliedRules: string[];
+}
+
 /**
  * Interface for tracking additional services and charges
  */
@@ -145,6 +200,114 @@ export interface ReservationCharge {
   paymentStatus: PaymentStatus;
 }
 
+/**
+ * Enum defining how an add-on's price is multiplied over a stay
+ */
+export enum AddOnPricing {
+  PER_STAY = 'PER_STAY',
+  PER_NIGHT = 'PER_NIGHT',
+  PER_PERSON = 'PER_PERSON',
+  PER_PERSON_PER_NIGHT = 'PER_PERSON_PER_NIGHT'
+}
+
+/**
+ * Interface defining a product sold with reservations (breakfast, parking, spa)
+ */
+export interface AddOn {
+  /** Unique identifier for the add-on */
+  id: UUID;
+
+  /** Short code, e.g. BRKF */
+  code: string;
+
+  /** Display name */
+  name: string;
+
+  /** Optional description */
+  description: string | null;
+
+  /** How the price is multiplied over the stay */
+  pricing: AddOnPricing;
+
+  /** Price of one unit before tax */
+  price: number;
+
+  /** Department the revenue is posted to */
+  department: string;
+
+  /** Units sold per service date; unlimited when null */
+  dailyLimit: number | null;
+
+  /** Whether the add-on is still sold */
+  isActive: boolean;
+}
+
+/**
+ * Interface for an add-on chosen for a reservation
+ */
+export interface AddOnSelection {
+  /** Chosen add-on */
+  addOnId: UUID;
+
+  /** Units per pricing period; 1 when absent */
+  quantity?: number;
+
+  /** Day a per-stay or per-person add-on is served; the arrival date when absent */
+  serviceDate?: Date;
+}
+
+/**
+ * Interface defining an add-on served on one date of a reservation
+ */
+export interface ReservationAddOn {
+  /** Booked add-on */
+  addOnId: UUID;
+
+  /** Add-on code */
+  code: string;
+
+  /** Add-on name */
+  name: string;
+
+  /** Date the add-on is served and posted to the folio */
+  serviceDate: Date;
+
+  /** Units served on the date */
+  units: number;
+
+  /** Price of one unit before tax */
+  unitPrice: number;
+
+  /** Whether the add-on is part of a package rate */
+  included: boolean;
+
+  /** Price before tax */
+  amount: number;
+
+  /** Tax on the price */
+  taxAmount: number;
+
+  /** Price including tax */
+  totalAmount: number;
+}
+
+/**
+ * Interface defining the priced add-ons of a stay
+ */
+export interface AddOnQuote {
+  /** Priced lines, one per add-on and service date */
+  lines: ReservationAddOn[];
+
+  /** Total before tax */
+  amount: number;
+
+  /** Total tax */
+  taxAmount: number;
+
+  /** Total including tax */
+  totalAmount: number;
+}
+
 /**
  * Interface for managing reservation modifications
  */
@@ -174,6 +337,62 @@ export interface ReservationModification {
   reason: string;
 }
 
+/**
+ * Enum defining the lifecycle of a rate parity violation
+ */
+export enum RateParityStatus {
+  OPEN = 'OPEN',
+  RESOLVED = 'RESOLVED'
+}
+
+/**
+ * Interface defining a night on which a distribution channel sells a rate at a
+ * different price than the direct channel
+ */
+export interface RateParityViolation {
+  /** Unique identifier for the violation */
+  id: UUID;
+
+  /** Rate sold out of parity */
+  rateId: UUID;
+
+  /** Distribution channel out of parity */
+  channel: string;
+
+  /** Night sold */
+  date: Date;
+
+  /** Direct sell rate including tax */
+  referenceRate: number;
+
+  /** Channel sell rate including tax and markup */
+  channelRate: number;
+
+  /** Channel rate minus direct rate */
+  difference: number;
+
+  /** Currency of the rates */
+  currencyCode: string;
+
+  /** Whether the channel is cheaper (UNDERCUT) or dearer (ABOVE) than direct */
+  direction: 'UNDERCUT' | 'ABOVE';
+
+  /** Current status of the violation */
+  status: RateParityStatus;
+
+  /** First check that found the violation */
+  detectedAt: Date;
+
+  /** Last check of the night */
+  lastCheckedAt: Date;
+
+  /** Check that found the night back in parity */
+  resolvedAt: Date | null;
+
+  /** Number of checks that found the violation */
+  occurrences: number;
+}
+
 /**
  * Type guard to check if an object implements the Reservation interface
  * @param obj - Object to check
@@ -58,6 +58,35 @@ export const formatCurrency = (
   }
 };
 
+/**
+ * Formats an amount in its own currency followed by its value in a second currency,
+ * e.g. "€100.00 (≈ $108.00)" for a folio charged in euros and shown to a guest paying in dollars
+ * @param amount - Amount in `currencyCode`
+ * @param currencyCode - Currency the amount is held in
+ * @param secondaryCurrencyCode - Currency to show the amount in as well
+ * @param exchangeRate - Units of the secondary currency per unit of `currencyCode`
+ * @param options - Formatting options
+ * @returns Formatted string; just the amount when both currencies are the same
+ * @throws TypeError for invalid amount
+ */
+export const formatDualCurrency = (
+  amount: number,
+  currencyCode: CurrencyCode,
+  secondaryCurrencyCode: CurrencyCode,
+  exchangeRate: number,
+  options: FormatOptions = {}
+): string => {
+  const primary = formatCurrency(amount, currencyCode, options);
+  if (secondaryCurrencyCode === currencyCode || !(exchangeRate > 0)) {
+    return primary;
+  }
+
+  const secondary = formatCurrency(amount * exchangeRate, secondaryCurrencyCode, {
+    locale: options.locale
+  });
+  return `${primary} (≈ ${secondary})`;
+};
+
 /**
  * Formats phone numbers in standardized international format
  * @param phoneNumber - Raw phone number string
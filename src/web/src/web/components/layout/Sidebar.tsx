@@ -7,6 +7,7 @@ import {
   MdPeople,
   MdCalendarToday,
   MdPayment,
+  MdCompareArrows,
   MdSettings,
 } from 'react-icons/md'; // v4.11.0
 import { PRIMARY_COLORS, NEUTRAL_COLORS } from '../../../shared/styles/colors';
@@ -155,6 +156,13 @@ const NAV_ITEMS: NavItem[] = [
     path: '/billing',
     ariaLabel: 'Navigate to Billing',
   },
+  {
+    id: 'rate-parity',
+    label: 'Rate Parity',
+    icon: MdCompareArrows,
+    path: '/rates/parity',
+    ariaLabel: 'Navigate to Rate Parity',
+  },
   {
     id: 'settings',
     label: 'Settings',
@@ -0,0 +1,224 @@
+/**
+ * @fileoverview Rate parity page listing the nights on which a distribution channel sells a
+ * rate at a different price than the direct channel, refreshed on parity alerts.
+ * @version 1.0.0
+ */
+
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import styled from 'styled-components';
+import { format } from 'date-fns';
+
+// Internal imports
+import DataTable, { Column } from '../../../shared/components/tables/DataTable';
+import { useWebSocket } from '../../../shared/hooks/useWebSocket';
+import { reservationApi } from '../../../shared/api/reservation.api';
+import { RateParityStatus, RateParityViolation } from '../../../shared/interfaces/reservation.interface';
+import { formatCurrency, CurrencyCode } from '../../../shared/utils/format.util';
+import { WebSocketEvents, WebSocketNamespaces } from '@/websocket-service/config';
+import { NEUTRAL_COLORS, SEMANTIC_COLORS } from '../../../shared/styles/colors';
+
+// Constants
+const PAGE_SIZE = 50;
+const PARITY_ALERT = 'RATE_PARITY_VIOLATION';
+
+// Styled components
+const PageContainer = styled.div`
+  padding: 24px;
+  background: ${NEUTRAL_COLORS.gray100};
+  min-height: 100vh;
+`;
+
+const Header = styled.div`
+  display: flex;
+  justify-content: space-between;
+  align-items: center;
+  margin-bottom: 24px;
+
+  @media (max-width: 576px) {
+    flex-direction: column;
+    align-items: flex-start;
+    gap: 16px;
+  }
+`;
+
+const Title = styled.h1`
+  font-size: 24px;
+  color: ${NEUTRAL_COLORS.black};
+  margin: 0;
+`;
+
+const StatusSelect = styled.select`
+  padding: 8px 16px;
+  border: 1px solid ${NEUTRAL_COLORS.gray300};
+  border-radius: 4px;
+  font-size: 14px;
+`;
+
+const Badge = styled.span<{ color: string }>`
+  padding: 4px 8px;
+  border-radius: 4px;
+  font-size: 12px;
+  font-weight: 500;
+  background-color: ${({ color }) => color};
+  color: ${NEUTRAL_COLORS.white};
+`;
+
+// Table columns configuration
+const columns: Column[] = [
+  {
+    id: 'date',
+    header: 'Night',
+    accessor: 'date',
+    sortable: true,
+    width: '140px',
+    Cell: (value: Date) => format(value, 'EEE, MMM d yyyy'),
+  },
+  {
+    id: 'channel',
+    header: 'Channel',
+    accessor: 'channel',
+    sortable: true,
+    width: '120px',
+  },
+  {
+    id: 'rateId',
+    header: 'Rate',
+    accessor: 'rateId',
+    width: '160px',
+  },
+  {
+    id: 'referenceRate',
+    header: 'Direct',
+    accessor: 'referenceRate',
+    sortable: true,
+    align: 'right',
+    Cell: (value: number, row: RateParityViolation) => formatCurrency(value, row.currencyCode as CurrencyCode),
+  },
+  {
+    id: 'channelRate',
+    header: 'Channel rate',
+    accessor: 'channelRate',
+    sortable: true,
+    align: 'right',
+    Cell: (value: number, row: RateParityViolation) => formatCurrency(value, row.currencyCode as CurrencyCode),
+  },
+  {
+    id: 'difference',
+    header: 'Difference',
+    accessor: 'difference',
+    sortable: true,
+    align: 'right',
+    Cell: (value: number, row: RateParityViolation) => (
+      <Badge color={row.direction === 'UNDERCUT' ? SEMANTIC_COLORS.error : SEMANTIC_COLORS.warning}>
+        {value > 0 ? '+' : ''}{formatCurrency(value, row.currencyCode as CurrencyCode)}
+      </Badge>
+    ),
+  },
+  {
+    id: 'detectedAt',
+    header: 'Detected',
+    accessor: 'detectedAt',
+    sortable: true,
+    Cell: (value: Date, row: RateParityViolation) =>
+      `${format(value, 'MMM d, HH:mm')} (${row.occurrences} ${row.occurrences === 1 ? 'check' : 'checks'})`,
+  },
+  {
+    id: 'status',
+    header: 'Status',
+    accessor: 'status',
+    sortable: true,
+    width: '120px',
+    Cell: (value: RateParityStatus, row: RateParityViolation) => (
+      value === RateParityStatus.OPEN
+        ? <Badge color={SEMANTIC_COLORS.error}>OPEN</Badge>
+        : <Badge color={SEMANTIC_COLORS.success} title={row.resolvedAt ? format(row.resolvedAt, 'MMM d, HH:mm') : undefined}>
+            RESOLVED
+          </Badge>
+    ),
+  },
+];
+
+// Main component
+const RateParityPage: React.FC = () => {
+  const [violations, setViolations] = useState<RateParityViolation[]>([]);
+  const [status, setStatus] = useState<RateParityStatus | ''>(RateParityStatus.OPEN);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const { isConnected, subscribe } = useWebSocket({
+    url: process.env.REACT_APP_WEBSOCKET_URL || 'ws://localhost:3001',
+    namespace: WebSocketNamespaces.SYSTEM
+  });
+
+  const fetchViolations = useCallback(async () => {
+    try {
+      setLoading(true);
+      const data = await reservationApi.getRateParityViolations(status ? { status } : undefined);
+      setViolations(data);
+      setError(null);
+    } catch (err) {
+      setError('Failed to fetch rate parity violations. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  }, [status]);
+
+  useEffect(() => {
+    fetchViolations();
+  }, [fetchViolations]);
+
+  // New violations are announced as system alerts
+  useEffect(() => {
+    if (isConnected) {
+      const unsubscribe = subscribe(WebSocketEvents.SYSTEM_ALERT, (payload: any) => {
+        if (payload?.alert === PARITY_ALERT) {
+          fetchViolations();
+        }
+      });
+      return unsubscribe;
+    }
+  }, [isConnected, subscribe, fetchViolations]);
+
+  const openCount = useMemo(
+    () => violations.filter(violation => violation.status === RateParityStatus.OPEN).length,
+    [violations]
+  );
+
+  return (
+    <PageContainer>
+      <Header>
+        <Title>Rate Parity{openCount > 0 ? ` (${openCount} open)` : ''}</Title>
+        <StatusSelect
+          value={status}
+          onChange={(e) => setStatus(e.target.value as RateParityStatus | '')}
+          aria-label="Filter by status"
+        >
+          <option value={RateParityStatus.OPEN}>Open</option>
+          <option value={RateParityStatus.RESOLVED}>Resolved</option>
+          <option value="">All</option>
+        </StatusSelect>
+      </Header>
+
+      {error && (
+        <div role="alert" style={{ color: SEMANTIC_COLORS.error, marginBottom: '16px' }}>
+          {error}
+        </div>
+      )}
+
+      <DataTable
+        columns={columns}
+        data={violations}
+        loading={loading}
+        rowKey="id"
+        pageSize={PAGE_SIZE}
+        sortable
+        stickyHeader
+        responsive
+        aria-label="Rate parity violations"
+        emptyMessage="All channels are in parity"
+      />
+    </PageContainer>
+  );
+};
+
+export default React.memo(RateParityPage);
@@ -12,12 +12,15 @@ import styled from '@emotion/styled';
 // Internal imports
 import { BookingForm } from './components/BookingForm';
 import { RateCalendar } from './components/RateCalendar';
+import { NightlyRateTable } from './components/NightlyRateTable';
 import { useWebSocket } from '../../../../shared/hooks/useWebSocket';
 import { reservationApi } from '../../../../shared/api/reservation.api';
 import { WebSocketEvents, WebSocketNamespaces } from '@/websocket-service/config';
 import { FONT_SIZE, FONT_WEIGHT } from '../../../../shared/styles/typography';
 import { PRIMARY_COLORS, NEUTRAL_COLORS, SEMANTIC_COLORS } from '../../../../shared/styles/colors';
-import { Reservation, ReservationStatus, PaymentStatus } from '../../../../shared/interfaces/reservation.interface';
+import {
+  Reservation, ReservationRate, ReservationStatus, PaymentStatus
+} from '../../../../shared/interfaces/reservation.interface';
 
 // Styled components
 const PageContainer = styled.div`
@@ -71,6 +74,13 @@ const Section = styled.section`
   box-shadow: 0 2px 4px rgba(0, 0, 0, 0.1);
 `;
 
+const SectionTitle = styled.h2`
+  font-size: ${FONT_SIZE.h4};
+  font-weight: ${FONT_WEIGHT.semibold};
+  color: ${PRIMARY_COLORS.main};
+  margin-bottom: 16px;
+`;
+
 const ActionButton = styled.button<{ variant?: 'primary' | 'secondary' | 'danger' }>`
   padding: 12px 24px;
   border-radius: 4px;
@@ -116,6 +126,7 @@ export const ReservationDetailPage: React.FC<ReservationDetailPageProps> = ({ in
   
   // State
   const [reservation, setReservation] = useState<Reservation | null>(initialData || null);
+  const [nightlyRates, setNightlyRates] = useState<ReservationRate[]>([]);
   const [loading, setLoading] = useState(!initialData);
   const [error, setError] = useState<string | null>(null);
 
@@ -131,8 +142,12 @@ export const ReservationDetailPage: React.FC<ReservationDetailPageProps> = ({ in
 
     try {
       setLoading(true);
-      const data = await reservationApi.getReservationById(id);
+      const [data, rates] = await Promise.all([
+        reservationApi.getReservationById(id),
+        reservationApi.getReservationRates(id)
+      ]);
       setReservation(data);
+      setNightlyRates(rates);
       setError(null);
     } catch (err) {
       setError('Failed to load reservation details');
@@ -297,6 +312,11 @@ export const ReservationDetailPage: React.FC<ReservationDetailPageProps> = ({ in
           </div>
         </Section>
       </ContentGrid>
+
+      <Section style={{ marginTop: '24px' }}>
+        <SectionTitle>Nightly Rates</SectionTitle>
+        <NightlyRateTable rates={nightlyRates} />
+      </Section>
     </PageContainer>
   );
 };
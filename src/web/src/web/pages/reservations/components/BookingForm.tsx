@@ -4,7 +4,7 @@
  * @version 1.0.0
  */
 
-import React, { useState, useCallback, useEffect } from 'react';
+import React, { useState, useCallback, useEffect, useMemo } from 'react';
 import styled from '@emotion/styled'; // v11.0.0
 import { addDays, differenceInDays } from 'date-fns'; // v2.30.0
 import * as yup from 'yup'; // v1.0.0
@@ -12,7 +12,10 @@ import * as yup from 'yup'; // v1.0.0
 // Internal imports
 import { DatePicker } from '../../../../shared/components/forms/DatePicker';
 import { Select } from '../../../../shared/components/forms/Select';
-import { Reservation, ReservationStatus } from '../../../../shared/interfaces/reservation.interface';
+import {
+  AddOn, AddOnPricing, AddOnQuote, AddOnSelection, RateQuote, Reservation, ReservationStatus
+} from '../../../../shared/interfaces/reservation.interface';
+import { reservationApi } from '../../../../shared/api/reservation.api';
 import { RoomType } from '../../../../shared/interfaces/room.interface';
 import { FONT_SIZE, FONT_WEIGHT } from '../../../../shared/styles/typography';
 import { PRIMARY_COLORS, NEUTRAL_COLORS, SEMANTIC_COLORS } from '../../../../shared/styles/colors';
@@ -57,6 +60,15 @@ const ErrorMessage = styled.span`
   margin-top: 4px;
 `;
 
+const AddOnOption = styled.label`
+  display: flex;
+  align-items: center;
+  justify-content: space-between;
+  gap: 8px;
+  font-size: ${FONT_SIZE.body};
+  color: ${PRIMARY_COLORS.main};
+`;
+
 const TotalAmount = styled.div`
   font-size: ${FONT_SIZE.h3};
   font-weight: ${FONT_WEIGHT.bold};
@@ -118,10 +130,21 @@ const validationSchema = yup.object().shape({
   roomType: yup.string().required('Room type is required'),
 });
 
+// Booking service fee added to the room total
+const SERVICE_FEE = 25;
+
+// Price unit shown next to each add-on
+const ADD_ON_PRICING_LABELS: Record<AddOnPricing, string> = {
+  [AddOnPricing.PER_STAY]: 'per stay',
+  [AddOnPricing.PER_NIGHT]: 'per night',
+  [AddOnPricing.PER_PERSON]: 'per guest',
+  [AddOnPricing.PER_PERSON_PER_NIGHT]: 'per guest per night',
+};
+
 // Component props interface
 interface BookingFormProps {
   initialData: Reservation | null;
-  onSubmit: (reservation: Reservation) => Promise<void>;
+  onSubmit: (reservation: Reservation, addOns: AddOnSelection[]) => Promise<void>;
   onCancel: () => void;
   isLoading: boolean;
   isDynamicPricing: boolean;
@@ -145,8 +168,12 @@ export const BookingForm: React.FC<BookingFormProps> = ({
   
   const [errors, setErrors] = useState<Record<string, string>>({});
   const [totalAmount, setTotalAmount] = useState<number>(0);
+  const [addOns, setAddOns] = useState<AddOn[]>([]);
+  const [selectedAddOns, setSelectedAddOns] = useState<AddOnSelection[]>([]);
+  const [addOnQuote, setAddOnQuote] = useState<AddOnQuote | null>(null);
+  const [rateQuote, setRateQuote] = useState<RateQuote | null>(null);
 
-  // Calculate total amount based on dates and room type
+  // Estimate the stay before tax from dates and room type; taxes come with the rate quote
   const calculateTotalAmount = useCallback(async (
     checkIn: Date,
     checkOut: Date,
@@ -176,14 +203,43 @@ export const BookingForm: React.FC<BookingFormProps> = ({
       total *= seasonalMultiplier * occupancyMultiplier;
     }
 
-    // Add taxes and fees
-    const taxRate = 0.12;
-    const serviceFee = 25;
-    total = total * (1 + taxRate) + serviceFee;
+    total += SERVICE_FEE;
 
     return Math.round(total * 100) / 100;
   }, [isDynamicPricing]);
 
+  // Price the stay on its rate so the total carries the taxes the backend charges
+  useEffect(() => {
+    const { rateId, roomType, checkInDate, checkOutDate, numberOfGuests } = formData;
+    if (!rateId || !roomType || !checkInDate || !checkOutDate || !numberOfGuests) {
+      setRateQuote(null);
+      return;
+    }
+
+    let cancelled = false;
+    reservationApi.quoteRate({ rateId, roomType, checkInDate, checkOutDate, numberOfGuests })
+      .then(quote => !cancelled && setRateQuote(quote))
+      .catch(() => !cancelled && setRateQuote(null));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [formData.rateId, formData.roomType, formData.checkInDate, formData.checkOutDate, formData.numberOfGuests]);
+
+  // Room total: the rate quote including tax, or the estimate before tax until a rate is quoted
+  const roomTotal = useMemo(() => {
+    if (!rateQuote || !formData.checkInDate || !formData.checkOutDate) {
+      return totalAmount;
+    }
+    const nights = differenceInDays(formData.checkOutDate, formData.checkInDate);
+    return Math.round((rateQuote.finalRate * nights + SERVICE_FEE) * 100) / 100;
+  }, [rateQuote, totalAmount, formData.checkInDate, formData.checkOutDate]);
+
+  const roomTax = useMemo(
+    () => rateQuote?.taxLines.reduce((sum, line) => sum + line.amount, 0) ?? null,
+    [rateQuote]
+  );
+
   // Handle form field changes
   const handleChange = useCallback(async (
     field: keyof Reservation,
@@ -205,6 +261,14 @@ export const BookingForm: React.FC<BookingFormProps> = ({
     }
   }, [formData, calculateTotalAmount]);
 
+  // Toggle an add-on in the selection
+  const handleAddOnToggle = useCallback((addOn: AddOn, checked: boolean) => {
+    setSelectedAddOns(prev => checked
+      ? [...prev, { addOnId: addOn.id }]
+      : prev.filter(selection => selection.addOnId !== addOn.id)
+    );
+  }, []);
+
   // Handle form submission
   const handleSubmit = useCallback(async (event: React.FormEvent) => {
     event.preventDefault();
@@ -214,14 +278,14 @@ export const BookingForm: React.FC<BookingFormProps> = ({
 
       const reservationData: Reservation = {
         ...formData,
-        totalAmount,
+        totalAmount: roomTotal + (addOnQuote?.totalAmount ?? 0),
         createdAt: new Date(),
         updatedAt: new Date(),
         cancelledAt: null,
         cancellationReason: null,
       } as Reservation;
 
-      await onSubmit(reservationData);
+      await onSubmit(reservationData, selectedAddOns);
     } catch (err) {
       if (err instanceof yup.ValidationError) {
         const validationErrors: Record<string, string> = {};
@@ -233,7 +297,7 @@ export const BookingForm: React.FC<BookingFormProps> = ({
         setErrors(validationErrors);
       }
     }
-  }, [formData, totalAmount, onSubmit]);
+  }, [formData, roomTotal, addOnQuote, selectedAddOns, onSubmit]);
 
   // Initialize total amount on component mount
   useEffect(() => {
@@ -246,6 +310,36 @@ export const BookingForm: React.FC<BookingFormProps> = ({
     }
   }, []);
 
+  // Load the add-on catalog for new reservations
+  useEffect(() => {
+    if (!initialData) {
+      reservationApi.getAddOns().then(setAddOns).catch(() => setAddOns([]));
+    }
+  }, [initialData]);
+
+  // Price the chosen add-ons for the stay, taxes included
+  useEffect(() => {
+    const { checkInDate, checkOutDate, numberOfGuests } = formData;
+    if (selectedAddOns.length === 0 || !checkInDate || !checkOutDate || !numberOfGuests) {
+      setAddOnQuote(null);
+      return;
+    }
+
+    let cancelled = false;
+    reservationApi.quoteAddOns({ checkInDate, checkOutDate, numberOfGuests, addOns: selectedAddOns })
+      .then(quote => !cancelled && setAddOnQuote(quote))
+      .catch(error => {
+        if (!cancelled) {
+          setAddOnQuote(null);
+          setErrors(prev => ({ ...prev, addOns: error?.response?.data?.message || 'Add-ons could not be priced' }));
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedAddOns, formData.checkInDate, formData.checkOutDate, formData.numberOfGuests]);
+
   return (
     <FormContainer onSubmit={handleSubmit} noValidate>
       <FormSection>
@@ -307,8 +401,37 @@ export const BookingForm: React.FC<BookingFormProps> = ({
         </FormRow>
       </FormSection>
 
+      {addOns.length > 0 && (
+        <FormSection role="group" aria-labelledby="addOnsLabel">
+          <Label id="addOnsLabel">Add-ons</Label>
+          {addOns.map(addOn => (
+            <AddOnOption key={addOn.id}>
+              <span>
+                <input
+                  type="checkbox"
+                  checked={selectedAddOns.some(selection => selection.addOnId === addOn.id)}
+                  onChange={(event) => {
+                    setErrors(prev => ({ ...prev, addOns: '' }));
+                    handleAddOnToggle(addOn, event.target.checked);
+                  }}
+                />
+                {' '}{addOn.name}
+              </span>
+              <span>${addOn.price.toFixed(2)} {ADD_ON_PRICING_LABELS[addOn.pricing]}</span>
+            </AddOnOption>
+          ))}
+          {addOnQuote && addOnQuote.totalAmount > 0 && (
+            <span>Add-ons: ${addOnQuote.totalAmount.toFixed(2)} incl. ${addOnQuote.taxAmount.toFixed(2)} tax</span>
+          )}
+          {errors.addOns && <ErrorMessage>{errors.addOns}</ErrorMessage>}
+        </FormSection>
+      )}
+
       <TotalAmount>
-        Total Amount: ${totalAmount.toFixed(2)}
+        Total Amount: ${(roomTotal + (addOnQuote?.totalAmount ?? 0)).toFixed(2)}
+        <span style={{ fontSize: FONT_SIZE.small, color: NEUTRAL_COLORS.gray500 }}>
+          {roomTax === null ? ' Room before tax' : ` Room incl. $${roomTax.toFixed(2)} tax`}
+        </span>
         {isDynamicPricing && (
           <span style={{ fontSize: FONT_SIZE.small, color: NEUTRAL_COLORS.gray500 }}>
             * Dynamic pricing applied
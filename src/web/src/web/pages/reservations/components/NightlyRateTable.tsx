@@ -0,0 +1,102 @@
+/**
+ * @fileoverview Nightly rate table showing the price stored for every night of a reservation,
+ * with base rate, adjustments, tax and stay total.
+ * @version 1.0.0
+ */
+
+import React, { useMemo } from 'react';
+import styled from '@emotion/styled';
+import { format } from 'date-fns';
+
+// Internal imports
+import { ReservationRate } from '../../../../shared/interfaces/reservation.interface';
+import { formatCurrency, CurrencyCode } from '../../../../shared/utils/format.util';
+import { FONT_SIZE, FONT_WEIGHT } from '../../../../shared/styles/typography';
+import { PRIMARY_COLORS, NEUTRAL_COLORS } from '../../../../shared/styles/colors';
+
+// Styled components
+const Table = styled.table`
+  width: 100%;
+  border-collapse: collapse;
+  font-size: ${FONT_SIZE.small};
+  color: ${PRIMARY_COLORS.main};
+`;
+
+const HeaderCell = styled.th<{ align?: 'left' | 'right' }>`
+  padding: 8px 12px;
+  text-align: ${props => props.align || 'right'};
+  font-weight: ${FONT_WEIGHT.semibold};
+  border-bottom: 2px solid ${NEUTRAL_COLORS.gray300};
+`;
+
+const Cell = styled.td<{ align?: 'left' | 'right' }>`
+  padding: 8px 12px;
+  text-align: ${props => props.align || 'right'};
+  border-bottom: 1px solid ${NEUTRAL_COLORS.gray200};
+`;
+
+const TotalRow = styled.tr`
+  font-weight: ${FONT_WEIGHT.bold};
+`;
+
+const Reason = styled.span`
+  display: block;
+  font-size: ${FONT_SIZE.caption};
+  color: ${PRIMARY_COLORS.light};
+`;
+
+interface NightlyRateTableProps {
+  rates: ReservationRate[];
+  currency?: CurrencyCode;
+}
+
+export const NightlyRateTable: React.FC<NightlyRateTableProps> = ({ rates, currency = 'USD' }) => {
+  // Tax is what the total carries above the adjusted base rate
+  const rows = useMemo(() => rates.map(rate => ({
+    ...rate,
+    taxAmount: rate.totalRate - rate.baseRate - rate.adjustmentAmount
+  })), [rates]);
+
+  const stayTotal = useMemo(
+    () => rows.reduce((sum, row) => sum + row.totalRate, 0),
+    [rows]
+  );
+
+  if (rows.length === 0) {
+    return <div>No nightly rates recorded for this reservation</div>;
+  }
+
+  return (
+    <Table aria-label="Nightly rates">
+      <thead>
+        <tr>
+          <HeaderCell align="left" scope="col">Night</HeaderCell>
+          <HeaderCell scope="col">Base rate</HeaderCell>
+          <HeaderCell scope="col">Adjustment</HeaderCell>
+          <HeaderCell scope="col">Tax</HeaderCell>
+          <HeaderCell scope="col">Total</HeaderCell>
+        </tr>
+      </thead>
+      <tbody>
+        {rows.map(row => (
+          <tr key={row.id}>
+            <Cell align="left">{format(row.date, 'EEE, MMM d')}</Cell>
+            <Cell>{formatCurrency(row.baseRate, currency)}</Cell>
+            <Cell>
+              {formatCurrency(row.adjustmentAmount, currency)}
+              {row.adjustmentReason && <Reason>{row.adjustmentReason}</Reason>}
+            </Cell>
+            <Cell>{formatCurrency(row.taxAmount, currency)}</Cell>
+            <Cell>{formatCurrency(row.totalRate, currency)}</Cell>
+          </tr>
+        ))}
+        <TotalRow>
+          <Cell align="left" colSpan={4}>Stay total</Cell>
+          <Cell>{formatCurrency(stayTotal, currency)}</Cell>
+        </TotalRow>
+      </tbody>
+    </Table>
+  );
+};
+
+export default NightlyRateTable;
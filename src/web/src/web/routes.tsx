@@ -11,6 +11,7 @@ const BillingPage = React.lazy(() => import('./pages/billing/BillingPage'));
 const HousekeepingPage = React.lazy(() => import('./pages/housekeeping/HousekeepingPage'));
 const MaintenancePage = React.lazy(() => import('./pages/maintenance/MaintenancePage'));
 const ReportsPage = React.lazy(() => import('./pages/reports/ReportsPage'));
+const RateParityPage = React.lazy(() => import('./pages/rates/RateParityPage'));
 
 // Styled Components
 const LoadingContainer = styled.div`
@@ -46,7 +47,8 @@ const routeAccess = {
   billing: [UserRole.SUPER_ADMIN, UserRole.HOTEL_MANAGER],
   housekeeping: [UserRole.SUPER_ADMIN, UserRole.HOTEL_MANAGER, UserRole.HOUSEKEEPING],
   maintenance: [UserRole.SUPER_ADMIN, UserRole.HOTEL_MANAGER, UserRole.MAINTENANCE],
-  reports: [UserRole.SUPER_ADMIN, UserRole.HOTEL_MANAGER]
+  reports: [UserRole.SUPER_ADMIN, UserRole.HOTEL_MANAGER],
+  rates: [UserRole.SUPER_ADMIN, UserRole.HOTEL_MANAGER]
 };
 
 // Error Fallback Component
@@ -140,6 +142,12 @@ const WebRoutes: React.FC = () => {
         </ProtectedRoute>
       } />
 
+      <Route path="/rates/parity" element={
+        <ProtectedRoute allowedRoles={routeAccess.rates}>
+          <RateParityPage />
+        </ProtectedRoute>
+      } />
+
       {/* Fallback route for unauthorized access */}
       <Route path="/unauthorized" element={
         <ErrorContainer role="alert">